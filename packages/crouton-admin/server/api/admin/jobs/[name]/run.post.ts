@@ -0,0 +1,40 @@
+/**
+ * Run Scheduled Job API Endpoint
+ *
+ * POST /api/admin/jobs/[name]/run
+ *
+ * Runs a job now, outside its schedule, and returns the recorded run. A job
+ * that fails still returns its run (status 'error'); 409 means another run
+ * holds the job's lock.
+ *
+ * Requires super admin privileges.
+ */
+import type { H3Event } from 'h3'
+import { defineEventHandler, getRouterParam, createError } from 'h3'
+import { useAdminDb } from '../../../../utils/db'
+import { requireSuperAdmin } from '../../../../utils/admin'
+import type { AdminJobRun } from '../../../../../types/admin'
+// getCroutonJob and runCroutonJob are auto-imported from crouton-core
+
+export default defineEventHandler(async (event: H3Event): Promise<AdminJobRun> => {
+  // Verify super admin access
+  const { user: adminUser } = await requireSuperAdmin(event)
+
+  const name = getRouterParam(event, 'name', { decode: true })
+  if (!name || !getCroutonJob(name)) {
+    throw createError({
+      status: 404,
+      message: 'Job not found'
+    })
+  }
+
+  const run = await runCroutonJob(useAdminDb(), name, { trigger: 'manual', triggeredBy: adminUser.id })
+  if (!run) {
+    throw createError({
+      status: 409,
+      message: 'Job is already running'
+    })
+  }
+
+  return run as AdminJobRun
+})
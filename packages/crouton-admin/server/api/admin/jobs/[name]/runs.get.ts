@@ -0,0 +1,39 @@
+/**
+ * Scheduled Job Runs API Endpoint
+ *
+ * GET /api/admin/jobs/[name]/runs
+ *
+ * Returns a job's run history, newest first.
+ *
+ * Query params:
+ * - page: Page number (default: 1)
+ * - pageSize: Items per page (default: 25, max: 100)
+ *
+ * Requires super admin privileges.
+ */
+import type { H3Event } from 'h3'
+import { defineEventHandler, getQuery, getRouterParam, createError } from 'h3'
+import { useAdminDb } from '../../../../utils/db'
+import { requireSuperAdmin } from '../../../../utils/admin'
+import type { AdminJobRun } from '../../../../../types/admin'
+// getCroutonJob and getCroutonJobRuns are auto-imported from crouton-core
+
+export default defineEventHandler(async (event: H3Event): Promise<{ items: AdminJobRun[], total: number }> => {
+  // Verify super admin access
+  await requireSuperAdmin(event)
+
+  const name = getRouterParam(event, 'name', { decode: true })
+  if (!name || !getCroutonJob(name)) {
+    throw createError({
+      status: 404,
+      message: 'Job not found'
+    })
+  }
+
+  const query = getQuery(event)
+
+  return getCroutonJobRuns(useAdminDb(), name, {
+    page: Number(query.page) || 1,
+    pageSize: Number(query.pageSize) || 25
+  }) as Promise<{ items: AdminJobRun[], total: number }>
+})
@@ -0,0 +1,23 @@
+/**
+ * List Scheduled Jobs API Endpoint
+ *
+ * GET /api/admin/jobs
+ *
+ * Returns every registered job with its schedule, next run, whether it is
+ * running, and its last run (duration, error, result).
+ *
+ * Requires super admin privileges.
+ */
+import type { H3Event } from 'h3'
+import { defineEventHandler } from 'h3'
+import { useAdminDb } from '../../../utils/db'
+import { requireSuperAdmin } from '../../../utils/admin'
+import type { AdminJob } from '../../../../types/admin'
+// listCroutonJobs is auto-imported from crouton-core (server/utils/jobs.ts)
+
+export default defineEventHandler(async (event: H3Event): Promise<AdminJob[]> => {
+  // Verify super admin access
+  await requireSuperAdmin(event)
+
+  return listCroutonJobs(useAdminDb()) as Promise<AdminJob[]>
+})
@@ -0,0 +1,103 @@
+/**
+ * PATCH /api/teams/[id]/settings/roles
+ *
+ * Replace the team's role definitions and their collection permissions.
+ * A role can't be removed while members still have it.
+ * Requires team admin or owner role.
+ */
+import { z } from 'zod'
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { useDB, eq, and, inArray } from '@fyit/crouton-auth/server/utils/database'
+import { teamSettings, member } from '@fyit/crouton-auth/server/database/schema/auth'
+import { validateTeamRoles, type TeamRoleSettings } from '@fyit/crouton-auth/shared/utils/collection-permissions'
+
+const permissionLevelSchema = z.union([z.boolean(), z.literal('own')])
+
+const permissionsSchema = z.object({
+  read: permissionLevelSchema.optional(),
+  create: permissionLevelSchema.optional(),
+  update: permissionLevelSchema.optional(),
+  delete: permissionLevelSchema.optional(),
+  export: permissionLevelSchema.optional()
+}).strict()
+
+const roleSettingsSchema = z.object({
+  roles: z.array(z.object({
+    key: z.string().min(1).max(50),
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    defaults: permissionsSchema.optional(),
+    collections: z.record(z.string(), permissionsSchema).optional()
+  }).strict()).max(50)
+}).strict()
+
+export default defineEventHandler(async (event) => {
+  const { team } = await requireTeamAdmin(event)
+
+  const body = await readBody(event)
+  const result = roleSettingsSchema.safeParse(body)
+
+  if (!result.success) {
+    throw createError({
+      status: 400,
+      statusText: 'Invalid role settings',
+      message: result.error.issues.map(i => i.message).join(', ')
+    })
+  }
+
+  const roleData: TeamRoleSettings = result.data
+  const problems = validateTeamRoles(roleData.roles)
+  if (problems.length > 0) {
+    throw createError({
+      status: 400,
+      statusText: 'Invalid role settings',
+      message: problems.join(', ')
+    })
+  }
+
+  const db = useDB()
+  const existing = await db
+    .select()
+    .from(teamSettings)
+    .where(eq(teamSettings.teamId, team.id))
+    .limit(1)
+
+  // Members keep their role key; refuse to orphan them (the built-in member stays)
+  const keptKeys = new Set(roleData.roles.map(role => role.key))
+  const removedKeys = ((existing[0]?.roleSettings as TeamRoleSettings | null)?.roles ?? [])
+    .map(role => role.key)
+    .filter(key => key !== 'member' && !keptKeys.has(key))
+
+  if (removedKeys.length > 0) {
+    const assigned = await db
+      .select({ role: member.role })
+      .from(member)
+      .where(and(eq(member.organizationId, team.id), inArray(member.role, removedKeys)))
+      .limit(1)
+
+    if (assigned.length > 0) {
+      throw createError({
+        status: 409,
+        statusText: 'Role in use',
+        message: `Members still have the "${assigned[0].role}" role; assign them another role first`
+      })
+    }
+  }
+
+  if (existing.length > 0) {
+    await db
+      .update(teamSettings)
+      .set({
+        roleSettings: roleData,
+        updatedAt: new Date()
+      })
+      .where(eq(teamSettings.teamId, team.id))
+  } else {
+    await db.insert(teamSettings).values({
+      teamId: team.id,
+      roleSettings: roleData
+    })
+  }
+
+  return roleData
+})
@@ -252,6 +252,44 @@ export interface AdminStats {
   superAdminCount: number
 }
 
+// ============================================================================
+// Scheduled Jobs Types
+// ============================================================================
+
+/**
+ * One run of a scheduled job (crouton_job_runs)
+ */
+export interface AdminJobRun {
+  id: string
+  jobName: string
+  trigger: 'schedule' | 'manual'
+  status: 'running' | 'success' | 'error'
+  startedAt: Date
+  finishedAt: Date | null
+  durationMs: number | null
+  error: string | null
+  /** What the job returned */
+  result: unknown
+  /** User id for manual runs */
+  triggeredBy: string | null
+}
+
+/**
+ * A registered job with its schedule and last run
+ */
+export interface AdminJob {
+  name: string
+  description: string | null
+  /** Schedule in effect (UTC); null when the app turned it off */
+  cron: string | null
+  /** Schedule declared by the package */
+  defaultCron: string
+  nextRunAt: Date | null
+  /** Whether a run currently holds the lock */
+  running: boolean
+  lastRun: AdminJobRun | null
+}
+
 // ============================================================================
 // API Response Types
 // ============================================================================
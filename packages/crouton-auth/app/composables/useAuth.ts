@@ -35,6 +35,14 @@ export interface RegisterData {
   name?: string
 }
 
+/** A team's single sign-on provider, as discovered from an email domain */
+export interface SsoDiscovery {
+  id: string
+  domain: string
+  /** Password and magic link sign-in are refused for the domain */
+  ssoOnly: boolean
+}
+
 export interface PasskeyInfo {
   id: string
   name: string
@@ -167,6 +175,11 @@ export function useAuth() {
     return method === true || (typeof method === 'object' && method.enabled !== false)
   })
 
+  const hasSso = computed(() => {
+    const method = config?.methods?.sso
+    return method === true || (typeof method === 'object' && method.enabled !== false)
+  })
+
   const oauthProviders = computed(() => {
     if (!config?.methods?.oauth) return []
     return Object.keys(config.methods.oauth)
@@ -286,6 +299,57 @@ export function useAuth() {
     }
   }
 
+  /**
+   * Find the team single sign-on provider for an email's domain
+   *
+   * @returns The provider, or null if the domain has none (or SSO is off)
+   */
+  async function discoverSso(email: string): Promise<SsoDiscovery | null> {
+    if (!hasSso.value || !email.includes('@')) {
+      return null
+    }
+
+    const result = await authClient.$fetch<{ provider: SsoDiscovery | null }>('/sso/discover', {
+      method: 'POST',
+      body: { email }
+    })
+    return result.data?.provider ?? null
+  }
+
+  /**
+   * Sign in through the team single sign-on provider of an email's domain
+   */
+  async function loginWithSso(email: string): Promise<void> {
+    loading.value = true
+    error.value = null
+    try {
+      if (!hasSso.value) {
+        throw new Error('Single sign-on is not enabled')
+      }
+
+      const result = await authClient.$fetch<{ url: string }>('/sign-in/team-sso', {
+        method: 'POST',
+        body: {
+          email,
+          callbackURL: window.location.origin + '/auth/callback',
+          errorCallbackURL: window.location.origin + '/auth/login'
+        }
+      })
+
+      if (result.error || !result.data) {
+        throw new Error(result.error?.message ?? 'Single sign-on failed')
+      }
+
+      // Continue at the identity provider, which redirects back when done
+      window.location.href = result.data.url
+    } catch (e: unknown) {
+      error.value = e instanceof Error ? e.message : 'Single sign-on failed'
+      throw e
+    } finally {
+      loading.value = false
+    }
+  }
+
   /**
    * Register a new user with email and password
    */
@@ -381,12 +445,15 @@ export function useAuth() {
     hasPasskeys,
     has2FA,
     hasMagicLink,
+    hasSso,
     oauthProviders,
 
     // Core auth methods
     login,
     loginWithOAuth,
     loginWithMagicLink,
+    discoverSso,
+    loginWithSso,
     register,
     logout,
 
@@ -0,0 +1,100 @@
+/**
+ * useTeamRoles Composable
+ *
+ * The current team's role definitions and what the current member's role may
+ * do per collection. The generated endpoints enforce the same permissions;
+ * this is for hiding the actions a role isn't allowed, so the UI doesn't offer
+ * a button that ends in a 403.
+ *
+ * Until the roles are loaded (or outside a team) everything is allowed, so
+ * nothing flickers away for the common case of an owner or admin.
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * const { can } = useTeamRoles()
+ * </script>
+ *
+ * <template>
+ *   <UButton v-if="can('shopProducts', 'create')" label="New" />
+ *   <UButton v-if="can('shopProducts', 'delete', row)" label="Delete" />
+ * </template>
+ * ```
+ */
+import type { MemberRole } from '../../types'
+import {
+  canAccessRow,
+  resolveCollectionPermissions,
+  type CollectionAction,
+  type CollectionPermissions,
+  type TeamRoleDefinition
+} from '../../shared/utils/collection-permissions'
+
+interface TeamRolesState {
+  teamId: string | null
+  role: MemberRole | null
+  roles: TeamRoleDefinition[]
+}
+
+const inflight = new Map<string, Promise<void>>()
+
+export function useTeamRoles() {
+  const { teamId } = useTeamContext()
+  const { user } = useSession()
+  const state = useState<TeamRolesState>('crouton-auth-team-roles', () => ({ teamId: null, role: null, roles: [] }))
+
+  const loaded = computed(() => !!teamId.value && state.value.teamId === teamId.value)
+
+  /**
+   * Fetch the roles for the current team (deduplicated across components)
+   */
+  async function refresh(): Promise<void> {
+    const id = teamId.value
+    if (!id) return
+    if (!inflight.has(id)) {
+      inflight.set(id, $fetch<{ role: MemberRole, roles: TeamRoleDefinition[] }>(`/api/teams/${id}/roles`)
+        .then((result) => {
+          state.value = { teamId: id, role: result.role, roles: result.roles ?? [] }
+        })
+        .catch(() => {
+          // Leave the UI permissive; the endpoints still enforce the roles
+        })
+        .finally(() => inflight.delete(id)))
+    }
+    await inflight.get(id)
+  }
+
+  if (import.meta.client) {
+    watch(teamId, () => {
+      if (!loaded.value) refresh()
+    }, { immediate: true })
+  }
+
+  /**
+   * Permissions of the current member's role on a collection
+   */
+  function permissionsFor(collection: string): CollectionPermissions {
+    if (!loaded.value) return resolveCollectionPermissions('owner', collection)
+    return resolveCollectionPermissions(state.value.role, collection, { roles: state.value.roles })
+  }
+
+  /**
+   * Whether the current member may do an action on a collection. Pass the row
+   * to check "own records only" permissions against it; without one, "own"
+   * counts as allowed (the member can do it to some rows).
+   */
+  function can(collection: string, action: CollectionAction, row?: { owner?: string | null, createdBy?: string | null } | null): boolean {
+    const level = permissionsFor(collection)[action]
+    if (level === 'own' && row === undefined) return true
+    return canAccessRow(level, row, user.value?.id)
+  }
+
+  return {
+    role: computed(() => state.value.role),
+    roles: computed(() => state.value.roles),
+    loaded,
+    refresh,
+    permissionsFor,
+    can
+  }
+}
@@ -61,6 +61,8 @@ declare module '#crouton/team-auth' {
     team: Team
     user: User
     membership: TeamMembership
+    /** Set when the request authenticated with an API key (user and membership then stand for the key) */
+    apiKey?: { id: string, name: string, scopes: string[] }
   }
 
   /**
@@ -70,6 +72,8 @@ declare module '#crouton/team-auth' {
     team: Team
     user: User
     membership: TeamMembership
+    /** Set when the request authenticated with an API key (user and membership then stand for the key) */
+    apiKey?: { id: string, name: string, scopes: string[] }
   }
 
   /**
@@ -178,6 +182,57 @@ declare module '#crouton/team-auth' {
    */
   export function requireTeamOwner(event: H3Event): Promise<TeamContext>
 
+  /**
+   * What a role may do on a collection: every row, only its own, or nothing
+   */
+  export type CollectionPermissions = Record<'read' | 'create' | 'update' | 'delete' | 'export', boolean | 'own'>
+
+  /**
+   * Who is asking for a collection's rows, for the row policies its schema declares
+   */
+  export type RowPolicyContext
+    = { userId: string, memberId: string, role: string, token?: undefined }
+      | { token: { resourceType: string, resourceId: string, role: string }, userId?: undefined, memberId?: undefined, role?: undefined }
+
+  /**
+   * Resolve team membership and the member's permissions on a collection
+   *
+   * @param event - H3 event
+   * @param collection - Collection key, e.g. "shopProducts"
+   */
+  export function resolveCollectionAccess(
+    event: H3Event,
+    collection: string
+  ): Promise<TeamContext & { permissions: CollectionPermissions, policy: RowPolicyContext }>
+
+  /**
+   * Require the member's role to allow an action on a collection
+   *
+   * @param event - H3 event
+   * @param collection - Collection key, e.g. "shopProducts"
+   * @param action - Action to check
+   * @returns TeamContext, permissions and whether the action is limited to own rows
+   * @throws 403 if the role doesn't allow the action
+   */
+  export function requireCollectionPermission(
+    event: H3Event,
+    collection: string,
+    action: 'read' | 'create' | 'update' | 'delete' | 'export'
+  ): Promise<TeamContext & { permissions: CollectionPermissions, policy: RowPolicyContext, scope: 'all' | 'own' }>
+
+  /**
+   * Resolve a scoped-token holder reading a collection whose row policies
+   * name the token's resource type; null without such a token
+   *
+   * @param event - H3 event
+   * @param resourceTypes - Token resource types the collection's policies name
+   * @throws 403 if the token was issued by another team
+   */
+  export function resolveScopedCollectionAccess(
+    event: H3Event,
+    resourceTypes: string[]
+  ): Promise<{ team: Team, user: null, scope: 'all', policy: RowPolicyContext } | null>
+
   /**
    * Check if user can create more teams
    *
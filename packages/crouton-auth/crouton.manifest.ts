@@ -22,6 +22,8 @@ export default defineCroutonManifest({
     { name: 'subscription', tableName: 'subscription', description: 'Stripe subscriptions' },
     { name: 'domain', tableName: 'domain', description: 'Custom domains' },
     { name: 'scopedAccessToken', tableName: 'scopedAccessToken', description: 'Scoped API tokens' },
+    { name: 'apiKey', tableName: 'apiKey', description: 'Team API keys' },
+    { name: 'ssoProvider', tableName: 'ssoProvider', description: 'Team OIDC single sign-on providers' },
     { name: 'teamSettings', tableName: 'teamSettings', description: 'Per-team settings' },
   ],
   provides: {
@@ -0,0 +1,70 @@
+/**
+ * OAuth Client-Credentials Token Endpoint
+ *
+ * POST /api/auth/api-keys/token
+ *
+ * For clients that speak OAuth 2.0 (RFC 6749 §4.4) rather than sending the
+ * API key itself: the key's ID is the client ID, the key the client secret,
+ * passed as HTTP Basic credentials or as client_id/client_secret in the
+ * (form or JSON) body. Returns an hour-long access token with the key's
+ * scopes, revoked with the key.
+ *
+ * Errors use the OAuth error response format instead of createError, since
+ * that is what client libraries parse.
+ */
+import { issueApiKeyAccessToken, validateApiKey, API_KEY_ACCESS_TOKEN_TTL } from '../../../utils/api-keys'
+
+function oauthError(event: Parameters<typeof setResponseStatus>[0], status: number, error: string, description: string) {
+  setResponseStatus(event, status)
+  return { error, error_description: description }
+}
+
+export default defineEventHandler(async (event) => {
+  setHeader(event, 'Cache-Control', 'no-store')
+
+  const body = await readBody<{
+    grant_type?: string
+    client_id?: string
+    client_secret?: string
+  }>(event) ?? {}
+
+  if (body.grant_type !== 'client_credentials') {
+    return oauthError(event, 400, 'unsupported_grant_type', 'Only client_credentials is supported')
+  }
+
+  let clientId = body.client_id
+  let clientSecret = body.client_secret
+
+  const authHeader = getHeader(event, 'authorization')
+  if (authHeader?.startsWith('Basic ')) {
+    try {
+      const decoded = atob(authHeader.slice(6).trim())
+      const separator = decoded.indexOf(':')
+      if (separator > 0) {
+        clientId = decodeURIComponent(decoded.slice(0, separator))
+        clientSecret = decodeURIComponent(decoded.slice(separator + 1))
+      }
+    } catch {
+      return oauthError(event, 400, 'invalid_request', 'Malformed Basic credentials')
+    }
+  }
+
+  if (!clientId || !clientSecret) {
+    return oauthError(event, 400, 'invalid_request', 'client_id and client_secret are required')
+  }
+
+  const key = await validateApiKey(clientSecret)
+  if (!key || key.id !== clientId) {
+    setHeader(event, 'WWW-Authenticate', 'Basic')
+    return oauthError(event, 401, 'invalid_client', 'Unknown client or wrong secret')
+  }
+
+  const { token } = await issueApiKeyAccessToken(key)
+
+  return {
+    access_token: token,
+    token_type: 'Bearer',
+    expires_in: API_KEY_ACCESS_TOKEN_TTL / 1000,
+    scope: key.scopes.join(' ')
+  }
+})
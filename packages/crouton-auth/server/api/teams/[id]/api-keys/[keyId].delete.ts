@@ -0,0 +1,30 @@
+/**
+ * DELETE /api/teams/[id]/api-keys/[keyId]
+ *
+ * Revoke an API key and the access tokens issued for it.
+ * Requires team admin or owner role.
+ */
+import { requireTeamAdmin } from '../../../../utils/team'
+import { revokeApiKey } from '../../../../utils/api-keys'
+
+export default defineEventHandler(async (event) => {
+  const keyId = getRouterParam(event, 'keyId')
+  if (!keyId) {
+    throw createError({
+      status: 400,
+      statusText: 'API key ID is required'
+    })
+  }
+
+  const { team } = await requireTeamAdmin(event)
+
+  const revoked = await revokeApiKey(team.id, keyId)
+  if (!revoked) {
+    throw createError({
+      status: 404,
+      statusText: 'API key not found'
+    })
+  }
+
+  return { message: 'API key revoked' }
+})
@@ -0,0 +1,38 @@
+/**
+ * POST /api/teams/[id]/api-keys/[keyId]/rotate
+ *
+ * Replace an API key with a new one, shown in the response only. The old
+ * key keeps working for `gracePeriodHours` (default 24, 0 = stop now).
+ * Requires team admin or owner role.
+ */
+import { z } from 'zod'
+import { requireTeamAdmin } from '../../../../../utils/team'
+import { rotateApiKey } from '../../../../../utils/api-keys'
+
+const rotateApiKeySchema = z.object({
+  gracePeriodHours: z.number().min(0).max(168).default(24)
+})
+
+export default defineEventHandler(async (event) => {
+  const keyId = getRouterParam(event, 'keyId')
+  if (!keyId) {
+    throw createError({
+      status: 400,
+      statusText: 'API key ID is required'
+    })
+  }
+
+  const { team } = await requireTeamAdmin(event)
+
+  const body = await readValidatedBody(event, body => rotateApiKeySchema.parse(body ?? {}))
+
+  const rotated = await rotateApiKey(team.id, keyId, body.gracePeriodHours * 60 * 60 * 1000)
+  if (!rotated) {
+    throw createError({
+      status: 404,
+      statusText: 'API key not found'
+    })
+  }
+
+  return { ...rotated.record, key: rotated.key }
+})
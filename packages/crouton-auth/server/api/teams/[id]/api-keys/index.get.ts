@@ -0,0 +1,14 @@
+/**
+ * GET /api/teams/[id]/api-keys
+ *
+ * List the team's API keys (never the keys themselves).
+ * Requires team admin or owner role.
+ */
+import { requireTeamAdmin } from '../../../../utils/team'
+import { listApiKeys } from '../../../../utils/api-keys'
+
+export default defineEventHandler(async (event) => {
+  const { team } = await requireTeamAdmin(event)
+
+  return listApiKeys(team.id)
+})
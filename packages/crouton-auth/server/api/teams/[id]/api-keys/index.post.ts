@@ -0,0 +1,46 @@
+/**
+ * POST /api/teams/[id]/api-keys
+ *
+ * Create an API key. The response is the only time the key is shown.
+ * Requires team admin or owner role.
+ */
+import { z } from 'zod'
+import { requireTeamAdmin } from '../../../../utils/team'
+import { createApiKey } from '../../../../utils/api-keys'
+import { validateApiKeyScopes } from '../../../../../shared/utils/collection-permissions'
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.string()).max(200),
+  expiresAt: z.string().datetime().nullable().optional()
+})
+
+export default defineEventHandler(async (event) => {
+  const { team, user } = await requireTeamAdmin(event)
+
+  const body = await readValidatedBody(event, createApiKeySchema.parse)
+
+  const problems = validateApiKeyScopes(body.scopes)
+  const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null
+  if (expiresAt && expiresAt <= new Date()) {
+    problems.push('Expiry must be in the future')
+  }
+  if (problems.length > 0) {
+    throw createError({
+      status: 400,
+      statusText: 'Invalid API key',
+      message: problems.join(', ')
+    })
+  }
+
+  const { key, record } = await createApiKey({
+    organizationId: team.id,
+    name: body.name,
+    scopes: body.scopes,
+    createdBy: user.id,
+    expiresAt
+  })
+
+  setResponseStatus(event, 201)
+  return { ...record, key }
+})
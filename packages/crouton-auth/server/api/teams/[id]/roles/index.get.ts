@@ -0,0 +1,15 @@
+/**
+ * GET /api/teams/[id]/roles
+ *
+ * The team's role definitions and the current member's role, so the UI can
+ * hide the collection actions the role doesn't allow.
+ * Requires team membership.
+ */
+import { resolveTeamAndCheckMembership, getTeamRoleSettings } from '../../../../utils/team'
+
+export default defineEventHandler(async (event) => {
+  const { team, membership } = await resolveTeamAndCheckMembership(event)
+  const { roles } = await getTeamRoleSettings(team.id)
+
+  return { role: membership.role, roles }
+})
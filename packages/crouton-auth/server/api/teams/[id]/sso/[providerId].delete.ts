@@ -0,0 +1,40 @@
+/**
+ * DELETE /api/teams/[id]/sso/[providerId]
+ *
+ * Remove a single sign-on provider. Members who joined through it keep
+ * their membership, and can sign in another way.
+ * Requires team owner role.
+ */
+import { requireTeamOwner } from '../../../../utils/team'
+import { useDB, tables, eq, and } from '../../../../utils/database'
+
+export default defineEventHandler(async (event) => {
+  const providerId = getRouterParam(event, 'providerId')
+  if (!providerId) {
+    throw createError({
+      status: 400,
+      statusText: 'Provider ID is required'
+    })
+  }
+
+  const { team } = await requireTeamOwner(event)
+
+  const db = useDB()
+
+  const provider = await db
+    .select()
+    .from(tables.ssoProvider)
+    .where(and(eq(tables.ssoProvider.id, providerId), eq(tables.ssoProvider.organizationId, team.id)))
+    .get()
+
+  if (!provider) {
+    throw createError({
+      status: 404,
+      statusText: 'Provider not found'
+    })
+  }
+
+  await db.delete(tables.ssoProvider).where(eq(tables.ssoProvider.id, providerId))
+
+  return { message: 'Single sign-on provider removed' }
+})
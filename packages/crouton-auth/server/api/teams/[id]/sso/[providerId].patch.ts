@@ -0,0 +1,84 @@
+/**
+ * PATCH /api/teams/[id]/sso/[providerId]
+ *
+ * Update a single sign-on provider. Leave clientSecret out to keep the
+ * current one; a new one is stored encrypted. A new issuer must be reachable.
+ * Requires team owner role.
+ */
+import { z } from 'zod'
+import { requireTeamOwner } from '../../../../utils/team'
+import { useDB, tables, eq, and } from '../../../../utils/database'
+import { fetchOidcDiscovery, toSsoProviderSummary } from '../../../../utils/sso'
+import { API_KEY_ROLE } from '../../../../../shared/utils/collection-permissions'
+
+const updateSsoProviderSchema = z.object({
+  issuer: z.string().url('Issuer must be a URL').optional(),
+  clientId: z.string().trim().min(1, 'Client ID is required').optional(),
+  clientSecret: z.string().min(1).optional(),
+  scopes: z
+    .string()
+    .trim()
+    .refine(s => s.split(/\s+/).includes('openid'), 'Scopes must include openid')
+    .optional(),
+  defaultRole: z
+    .string()
+    .trim()
+    .refine(r => r !== 'owner' && r !== API_KEY_ROLE, 'Default role can\'t be owner or api-key')
+    .optional(),
+  ssoOnly: z.boolean().optional(),
+  isActive: z.boolean().optional()
+})
+
+export default defineEventHandler(async (event) => {
+  const providerId = getRouterParam(event, 'providerId')
+  if (!providerId) {
+    throw createError({
+      status: 400,
+      statusText: 'Provider ID is required'
+    })
+  }
+
+  const { team } = await requireTeamOwner(event)
+
+  const body = await readValidatedBody(event, updateSsoProviderSchema.parse)
+
+  const db = useDB()
+
+  const provider = await db
+    .select()
+    .from(tables.ssoProvider)
+    .where(and(eq(tables.ssoProvider.id, providerId), eq(tables.ssoProvider.organizationId, team.id)))
+    .get()
+
+  if (!provider) {
+    throw createError({
+      status: 404,
+      statusText: 'Provider not found'
+    })
+  }
+
+  if (body.issuer) {
+    try {
+      await fetchOidcDiscovery(body.issuer)
+    } catch (error) {
+      throw createError({
+        status: 400,
+        statusText: 'Invalid issuer',
+        message: error instanceof Error ? error.message : 'Could not read the issuer\'s OpenID configuration'
+      })
+    }
+    body.issuer = body.issuer.replace(/\/+$/, '')
+  }
+
+  if (body.clientSecret) {
+    body.clientSecret = await encryptSecret(body.clientSecret)
+  }
+
+  const [updated] = await db
+    .update(tables.ssoProvider)
+    .set(body)
+    .where(eq(tables.ssoProvider.id, providerId))
+    .returning()
+
+  return toSsoProviderSummary(updated)
+})
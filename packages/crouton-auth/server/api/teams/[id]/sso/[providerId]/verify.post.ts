@@ -0,0 +1,95 @@
+/**
+ * POST /api/teams/[id]/sso/[providerId]/verify
+ *
+ * Verify the provider's email domain via its _crouton-sso DNS TXT record.
+ * Until then, people on the domain aren't sent to the provider. When several
+ * teams claimed the domain, the first to verify it gets it; a claim older than
+ * SSO_DOMAIN_CLAIM_TTL_MS can't be verified any more.
+ * Requires team owner role.
+ */
+import { requireTeamOwner } from '../../../../../utils/team'
+import { useDB, tables, eq, and, sql } from '../../../../../utils/database'
+import { SSO_VERIFICATION_RECORD, hasSsoVerificationRecord, isSsoDomainClaimExpired } from '../../../../../utils/sso'
+
+export default defineEventHandler(async (event) => {
+  const providerId = getRouterParam(event, 'providerId')
+  if (!providerId) {
+    throw createError({
+      status: 400,
+      statusText: 'Provider ID is required'
+    })
+  }
+
+  const { team } = await requireTeamOwner(event)
+
+  const db = useDB()
+
+  const provider = await db
+    .select()
+    .from(tables.ssoProvider)
+    .where(and(eq(tables.ssoProvider.id, providerId), eq(tables.ssoProvider.organizationId, team.id)))
+    .get()
+
+  if (!provider) {
+    throw createError({
+      status: 404,
+      statusText: 'Provider not found'
+    })
+  }
+
+  if (isSsoDomainClaimExpired(provider)) {
+    throw createError({
+      status: 410,
+      statusText: 'Domain claim expired',
+      message: 'The domain wasn\'t verified in time. Remove the provider and add it again to get a new verification record.'
+    })
+  }
+
+  const expectedRecord = {
+    type: 'TXT',
+    name: `${SSO_VERIFICATION_RECORD}.${provider.domain}`,
+    value: provider.domainVerificationToken
+  }
+
+  let verified: boolean
+  try {
+    verified = await hasSsoVerificationRecord(provider.domain, provider.domainVerificationToken)
+  } catch (error) {
+    console.error('SSO domain verification error:', error)
+    return {
+      verified: false,
+      message: 'Failed to perform DNS lookup. Please try again later.',
+      expectedRecord
+    }
+  }
+
+  if (!verified) {
+    return {
+      verified: false,
+      message: 'No TXT record with the verification token found. Please add the DNS record and try again.',
+      expectedRecord
+    }
+  }
+
+  // Only while no other team verified the domain; sso_provider_verified_domain_idx backs this up
+  const [claimed] = await db
+    .update(tables.ssoProvider)
+    .set({ domainVerifiedAt: new Date() })
+    .where(and(
+      eq(tables.ssoProvider.id, providerId),
+      sql`NOT EXISTS (SELECT 1 FROM ${tables.ssoProvider} AS other WHERE other."domain" = ${provider.domain} AND other."domainVerifiedAt" IS NOT NULL AND other."id" <> ${providerId})`
+    ))
+    .returning({ id: tables.ssoProvider.id })
+
+  if (!claimed) {
+    throw createError({
+      status: 409,
+      statusText: 'Domain already verified by another team'
+    })
+  }
+
+  return {
+    verified: true,
+    message: 'Domain verified successfully!'
+  }
+})
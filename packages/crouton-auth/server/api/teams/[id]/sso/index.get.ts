@@ -0,0 +1,29 @@
+/**
+ * GET /api/teams/[id]/sso
+ *
+ * List the team's single sign-on providers (without client secrets), with
+ * the DNS record that proves each domain.
+ * Requires team owner role.
+ */
+import { requireTeamOwner } from '../../../../utils/team'
+import { useDB, tables, eq } from '../../../../utils/database'
+import { SSO_VERIFICATION_RECORD, toSsoProviderSummary } from '../../../../utils/sso'
+
+export default defineEventHandler(async (event) => {
+  const { team } = await requireTeamOwner(event)
+
+  const db = useDB()
+  const providers = await db
+    .select()
+    .from(tables.ssoProvider)
+    .where(eq(tables.ssoProvider.organizationId, team.id))
+
+  return providers.map((provider: typeof tables.ssoProvider.$inferSelect) => ({
+    ...toSsoProviderSummary(provider),
+    expectedRecord: {
+      type: 'TXT',
+      name: `${SSO_VERIFICATION_RECORD}.${provider.domain}`,
+      value: provider.domainVerificationToken
+    }
+  }))
+})
@@ -0,0 +1,108 @@
+/**
+ * POST /api/teams/[id]/sso
+ *
+ * Add an OpenID Connect provider for an email domain. The issuer's discovery
+ * document must be reachable. The domain routes to the provider once it is
+ * verified (POST .../sso/[providerId]/verify). Other teams may have claimed
+ * the domain too; only a verified provider blocks it. The client secret is
+ * stored encrypted (encryptSecret from crouton-core, auto-imported by Nitro).
+ * Requires team owner role.
+ */
+import { z } from 'zod'
+import { requireTeamOwner } from '../../../../utils/team'
+import { useDB, tables, eq, and, or, lt, isNull, isNotNull, generateVerificationToken } from '../../../../utils/database'
+import { SSO_DOMAIN_CLAIM_TTL_MS, fetchOidcDiscovery, toSsoProviderSummary } from '../../../../utils/sso'
+import { API_KEY_ROLE } from '../../../../../shared/utils/collection-permissions'
+
+const addSsoProviderSchema = z.object({
+  domain: z
+    .string()
+    .min(1, 'Domain is required')
+    .transform(d => d.toLowerCase().trim())
+    .refine(
+      d => /^(?:[a-z0-9]+(?:-[a-z0-9]+)*\.)+[a-z]{2,}$/.test(d),
+      'Invalid domain format'
+    ),
+  issuer: z.string().url('Issuer must be a URL'),
+  clientId: z.string().trim().min(1, 'Client ID is required'),
+  clientSecret: z.string().min(1, 'Client secret is required'),
+  scopes: z.string().trim().default('openid email profile'),
+  defaultRole: z
+    .string()
+    .trim()
+    .default('member')
+    .refine(r => r !== 'owner' && r !== API_KEY_ROLE, 'Default role can\'t be owner or api-key'),
+  ssoOnly: z.boolean().default(false)
+})
+
+export default defineEventHandler(async (event) => {
+  const { team } = await requireTeamOwner(event)
+
+  const body = await readValidatedBody(event, addSsoProviderSchema.parse)
+
+  if (!body.scopes.split(/\s+/).includes('openid')) {
+    throw createError({
+      status: 400,
+      statusText: 'Scopes must include openid'
+    })
+  }
+
+  const db = useDB()
+
+  // Claims of the domain nobody verified in time lapse
+  await db
+    .delete(tables.ssoProvider)
+    .where(and(
+      eq(tables.ssoProvider.domain, body.domain),
+      isNull(tables.ssoProvider.domainVerifiedAt),
+      lt(tables.ssoProvider.createdAt, new Date(Date.now() - SSO_DOMAIN_CLAIM_TTL_MS))
+    ))
+
+  // The domain is taken once a team verified it; until then teams may claim it side by side
+  const existing = await db
+    .select()
+    .from(tables.ssoProvider)
+    .where(and(
+      eq(tables.ssoProvider.domain, body.domain),
+      or(isNotNull(tables.ssoProvider.domainVerifiedAt), eq(tables.ssoProvider.organizationId, team.id))
+    ))
+    .get()
+
+  if (existing) {
+    throw createError({
+      status: 400,
+      statusText: existing.organizationId === team.id
+        ? 'Your team already has a single sign-on provider for this domain'
+        : 'Domain already has a single sign-on provider'
+    })
+  }
+
+  try {
+    await fetchOidcDiscovery(body.issuer)
+  } catch (error) {
+    throw createError({
+      status: 400,
+      statusText: 'Invalid issuer',
+      message: error instanceof Error ? error.message : 'Could not read the issuer\'s OpenID configuration'
+    })
+  }
+
+  const [provider] = await db
+    .insert(tables.ssoProvider)
+    .values({
+      organizationId: team.id,
+      type: 'oidc',
+      domain: body.domain,
+      domainVerificationToken: generateVerificationToken(32),
+      issuer: body.issuer.replace(/\/+$/, ''),
+      clientId: body.clientId,
+      clientSecret: await encryptSecret(body.clientSecret),
+      scopes: body.scopes,
+      defaultRole: body.defaultRole,
+      ssoOnly: body.ssoOnly
+    })
+    .returning()
+
+  setResponseStatus(event, 201)
+  return toSsoProviderSummary(provider)
+})
@@ -2,10 +2,19 @@
  * Local type augmentation for the crouton:operation Nitro hook.
  *
  * The canonical declaration lives in @fyit/crouton (crouton-hooks.d.ts).
- * This file ensures the hook is recognised during standalone type-checking
- * of the crouton-auth package, which does not depend on @fyit/crouton directly.
+ * This file ensures the hook, and the crouton-core utilities the server code
+ * uses, are recognised during standalone type-checking of the crouton-auth
+ * package, which does not depend on @fyit/crouton directly.
  */
 
+declare global {
+  /** Secret encryption from @fyit/crouton-core (server/utils/encryption.ts), auto-imported by Nitro */
+  function encryptSecret(plaintext: string): Promise<string>
+  function decryptSecret(encrypted: string): Promise<string>
+  /** Outbound URL check from @fyit/crouton-core (server/utils/webhooks.ts), auto-imported by Nitro */
+  function checkWebhookDestination(value: string, options?: { allowPrivate?: boolean }): Promise<{ error: string, permanent: boolean } | null>
+}
+
 declare module 'nitropack' {
   interface NitroRuntimeHooks {
     'crouton:operation': (payload: {
@@ -11,9 +11,10 @@
  * @see https://www.better-auth.com/docs/concepts/database
  * @see https://www.better-auth.com/docs/adapters/drizzle
  */
-import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core'
-import { relations } from 'drizzle-orm'
+import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import { relations, sql } from 'drizzle-orm'
 import { userProfile } from './user-profile'
+import type { TeamRoleSettings } from '../../../shared/utils/collection-permissions'
 
 // Re-export user-profile schema so it's included in the built auth schema artifact
 export { userProfile, userProfileRelations } from './user-profile'
@@ -409,6 +410,101 @@ export const scopedAccessGrant = sqliteTable('scopedAccessGrant', {
   index('scoped_grant_active_idx').on(table.isActive, table.expiresAt)
 ])
 
+// ============================================================================
+// API Key Table
+// ============================================================================
+
+/**
+ * API Key table - Team credentials for machines (ETL jobs, integrations)
+ *
+ * A key acts for its team, not for a user: its scopes ("collection:action")
+ * decide what the generated collection endpoints let it do. It is sent as
+ * `Authorization: Bearer <key>`, or exchanged for a short-lived access token
+ * with the OAuth client-credentials grant.
+ *
+ * Only a SHA-256 hash of the key is stored. Keys are 32 random bytes, so
+ * unlike grant PINs they need no salt and can be looked up by hash.
+ */
+export const apiKey = sqliteTable('apiKey', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  /** Organization/team the key belongs to */
+  organizationId: text('organizationId').notNull().references(() => organization.id, { onDelete: 'cascade' }),
+  /** Display name, e.g. "Nightly ETL" */
+  name: text('name').notNull(),
+  /** Start of the key, shown to tell keys apart */
+  prefix: text('prefix').notNull(),
+  /** SHA-256 hex of the key */
+  keyHash: text('keyHash').notNull().unique(),
+  /** Hash of the key before the last rotation, accepted until previousKeyExpiresAt */
+  previousKeyHash: text('previousKeyHash'),
+  previousKeyExpiresAt: integer('previousKeyExpiresAt', { mode: 'timestamp' }),
+  /** What the key may do: "collection:action", either half may be `*` */
+  scopes: text('scopes', { mode: 'json' }).$type<string[]>().notNull(),
+  /** User who created the key */
+  createdBy: text('createdBy').notNull(),
+  /** Whether the key is usable (false once revoked) */
+  isActive: integer('isActive', { mode: 'boolean' }).notNull().default(true),
+  /** When the key stops working; null = never */
+  expiresAt: integer('expiresAt', { mode: 'timestamp' }),
+  /** Last authenticated request */
+  lastUsedAt: integer('lastUsedAt', { mode: 'timestamp' }),
+  /** Last time a new key replaced this one's secret */
+  rotatedAt: integer('rotatedAt', { mode: 'timestamp' }),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$onUpdate(() => new Date())
+}, table => [
+  index('api_key_org_idx').on(table.organizationId),
+  index('api_key_previous_hash_idx').on(table.previousKeyHash)
+])
+
+// ============================================================================
+// SSO Provider Table
+// ============================================================================
+
+/**
+ * SSO Provider table - A team's own OpenID Connect identity provider
+ *
+ * People whose email is on the provider's domain are offered single sign-on
+ * at login, and join the team with the default role the first time they sign
+ * in. With ssoOnly, password and magic link sign-in are refused for the domain.
+ *
+ * A domain only routes to a provider once the team proved it owns it with a
+ * DNS TXT record (see server/utils/sso.ts).
+ */
+export const ssoProvider = sqliteTable('ssoProvider', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  /** Organization/team the provider signs people into */
+  organizationId: text('organizationId').notNull().references(() => organization.id, { onDelete: 'cascade' }),
+  /** Protocol; only 'oidc' for now */
+  type: text('type').notNull().default('oidc'),
+  /**
+   * Email domain routed to the provider, e.g. "acme.com". Several teams may
+   * claim it; only one can verify it (sso_provider_verified_domain_idx).
+   */
+  domain: text('domain').notNull(),
+  /** Value of the _crouton-sso.<domain> TXT record that proves ownership */
+  domainVerificationToken: text('domainVerificationToken').notNull(),
+  domainVerifiedAt: integer('domainVerifiedAt', { mode: 'timestamp' }),
+  /** OIDC issuer; its /.well-known/openid-configuration is used */
+  issuer: text('issuer').notNull(),
+  clientId: text('clientId').notNull(),
+  /** Encrypted with encryptSecret (crouton-core) */
+  clientSecret: text('clientSecret').notNull(),
+  /** Space-separated scopes requested */
+  scopes: text('scopes').notNull().default('openid email profile'),
+  /** Role given to people who join through the provider */
+  defaultRole: text('defaultRole').notNull().default('member'),
+  /** Refuse every sign-in method but the provider for the domain */
+  ssoOnly: integer('ssoOnly', { mode: 'boolean' }).notNull().default(false),
+  isActive: integer('isActive', { mode: 'boolean' }).notNull().default(true),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$onUpdate(() => new Date())
+}, table => [
+  index('sso_provider_org_idx').on(table.organizationId),
+  index('sso_provider_domain_idx').on(table.domain),
+  uniqueIndex('sso_provider_verified_domain_idx').on(table.domain).where(sql`${table.domainVerifiedAt} IS NOT NULL`)
+])
+
 // ============================================================================
 // Auth Email Log Table
 // ============================================================================
@@ -538,6 +634,20 @@ export const scopedAccessTokenRelations = relations(scopedAccessToken, ({ one })
   })
 }))
 
+export const apiKeyRelations = relations(apiKey, ({ one }) => ({
+  organization: one(organization, {
+    fields: [apiKey.organizationId],
+    references: [organization.id]
+  })
+}))
+
+export const ssoProviderRelations = relations(ssoProvider, ({ one }) => ({
+  organization: one(organization, {
+    fields: [ssoProvider.organizationId],
+    references: [organization.id]
+  })
+}))
+
 export const authEmailLogRelations = relations(authEmailLog, ({ one }) => ({
   organization: one(organization, {
     fields: [authEmailLog.organizationId],
@@ -588,6 +698,12 @@ export type NewScopedAccessToken = typeof scopedAccessToken.$inferInsert
 export type ScopedAccessGrant = typeof scopedAccessGrant.$inferSelect
 export type NewScopedAccessGrant = typeof scopedAccessGrant.$inferInsert
 
+export type ApiKey = typeof apiKey.$inferSelect
+export type NewApiKey = typeof apiKey.$inferInsert
+
+export type SsoProvider = typeof ssoProvider.$inferSelect
+export type NewSsoProvider = typeof ssoProvider.$inferInsert
+
 export type AuthEmailLog = typeof authEmailLog.$inferSelect
 export type NewAuthEmailLog = typeof authEmailLog.$inferInsert
 
@@ -755,6 +871,11 @@ export const teamSettings = sqliteTable('team_settings', {
    * SECURITY: Contains integration token - never expose raw token to client
    */
   notionSettings: text('notion_settings', { mode: 'json' }).$type<TeamNotionSettings>(),
+  /**
+   * Team-defined roles and their per-collection permissions
+   * Safe to expose to team members - no sensitive data
+   */
+  roleSettings: text('role_settings', { mode: 'json' }).$type<TeamRoleSettings>(),
   createdAt: integer('created_at', { mode: 'timestamp' }).$default(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).$onUpdate(() => new Date())
 }, table => [
@@ -21,6 +21,8 @@ import { passkey } from '@better-auth/passkey'
 import { sql } from 'drizzle-orm'
 import { useNitroApp } from 'nitropack/runtime'
 import type { BetterAuthOptions } from 'better-auth'
+import { isMethodEnabled, getMethodConfig } from '../../types/config'
+import { teamSso } from './team-sso'
 import type { DrizzleD1Database } from 'drizzle-orm/d1'
 import type {
   CroutonAuthConfig,
@@ -785,6 +787,15 @@ function buildPlugins(
     }))
   }
 
+  // Conditionally add team SSO plugin (per-team OIDC providers)
+  const ssoConfig = config.methods?.sso
+  if (isMethodEnabled(ssoConfig)) {
+    plugins.push(teamSso({
+      requireDomainVerification: getMethodConfig(ssoConfig)?.requireDomainVerification !== false,
+      debug
+    }))
+  }
+
   return plugins
 }
 
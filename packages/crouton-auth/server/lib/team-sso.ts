@@ -0,0 +1,266 @@
+/**
+ * Team SSO Plugin
+ *
+ * Better Auth plugin for teams that bring their own OpenID Connect identity
+ * provider (see server/utils/sso.ts for how providers are stored and found).
+ *
+ * Endpoints (under /api/auth):
+ * - POST /sso/discover        `{ email }` → the provider for the email's domain, if any
+ * - POST /sign-in/team-sso    `{ email, callbackURL? }` → `{ url }` of the provider's login
+ * - GET  /sso/callback/:id    Authorization code callback; signs in and joins the team
+ *
+ * For domains whose provider is set to SSO only it refuses every other way
+ * in: password and magic link requests up front, and any other session (social
+ * sign-in, passkeys...) when it is created.
+ *
+ * The flow is the generic OAuth one (state, PKCE) plus a nonce, with the ID
+ * token verified against the issuer's keys. The provider's domain is proven
+ * by DNS, so its IdP is trusted for those addresses: an existing account with
+ * the same email is linked, and the email counts as verified. The client
+ * secret is stored encrypted and decrypted for the token exchange
+ * (decryptSecret from crouton-core, auto-imported by Nitro).
+ */
+import * as z from 'zod'
+import { APIError, createAuthEndpoint, createAuthMiddleware } from 'better-auth/api'
+import {
+  createAuthorizationURL,
+  generateState,
+  handleOAuthUserInfo,
+  parseState,
+  validateAuthorizationCode
+} from 'better-auth/oauth2'
+import { setSessionCookie } from 'better-auth/cookies'
+import type { BetterAuthPlugin } from 'better-auth'
+import {
+  emailDomain,
+  fetchOidcDiscovery,
+  findSsoProvider,
+  findSsoProviderForEmail,
+  provisionSsoMembership,
+  verifyIdToken
+} from '../utils/sso'
+
+/**
+ * Options for the team SSO plugin
+ */
+export interface TeamSsoOptions {
+  /** Only use providers whose domain has been proven by DNS (default: true) */
+  requireDomainVerification?: boolean
+  /** Log sign-in failures */
+  debug?: boolean
+}
+
+/** Sign-in endpoints refused up front for domains whose provider is SSO only */
+const SSO_ONLY_PATHS = ['/sign-in/email', '/sign-up/email', '/sign-in/magic-link']
+
+/** Endpoints that may still create a session for those domains */
+const SSO_ONLY_EXEMPT_PATHS = ['/sso/callback/', '/admin/impersonate-user']
+
+const SSO_REQUIRED_MESSAGE = 'Your organisation requires single sign-on. Continue with SSO instead.'
+
+/** Account providerId of sign-ins through a team provider */
+export function ssoAccountProviderId(providerId: string): string {
+  return `sso:${providerId}`
+}
+
+function randomNonce(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Create the team SSO plugin
+ *
+ * @param options - Plugin options
+ */
+export function teamSso(options: TeamSsoOptions = {}) {
+  const requireVerifiedDomain = options.requireDomainVerification !== false
+
+  return {
+    id: 'crouton-team-sso',
+
+    init() {
+      return {
+        options: {
+          databaseHooks: {
+            session: {
+              create: {
+                // Social sign-in, passkeys and any other method end in a new session
+                async before(session, ctx) {
+                  if (!ctx || SSO_ONLY_EXEMPT_PATHS.some(path => ctx.path.startsWith(path))) return
+
+                  const user = await ctx.context.internalAdapter.findUserById(session.userId)
+                  if (!user) return
+                  const provider = await findSsoProviderForEmail(user.email, requireVerifiedDomain)
+                  if (!provider?.ssoOnly) return
+
+                  // OAuth callbacks are browser redirects, so send them to the error page
+                  if (ctx.path.startsWith('/callback') || ctx.path.startsWith('/oauth2/callback')) {
+                    const errorURL = ctx.context.options.onAPIError?.errorURL || `${ctx.context.baseURL}/error`
+                    throw ctx.redirect(`${errorURL}?error=sso_required`)
+                  }
+                  throw new APIError('FORBIDDEN', { message: SSO_REQUIRED_MESSAGE })
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+
+    endpoints: {
+      discoverTeamSso: createAuthEndpoint('/sso/discover', {
+        method: 'POST',
+        body: z.object({ email: z.string() })
+      }, async (ctx) => {
+        const provider = await findSsoProviderForEmail(ctx.body.email, requireVerifiedDomain)
+        return ctx.json({
+          provider: provider ? { id: provider.id, domain: provider.domain, ssoOnly: provider.ssoOnly } : null
+        })
+      }),
+
+      signInTeamSso: createAuthEndpoint('/sign-in/team-sso', {
+        method: 'POST',
+        body: z.object({
+          email: z.string(),
+          callbackURL: z.string().optional(),
+          errorCallbackURL: z.string().optional()
+        })
+      }, async (ctx) => {
+        const provider = await findSsoProviderForEmail(ctx.body.email, requireVerifiedDomain)
+        if (!provider) {
+          throw new APIError('BAD_REQUEST', { message: 'Single sign-on is not set up for this email domain' })
+        }
+
+        let discovery
+        try {
+          discovery = await fetchOidcDiscovery(provider.issuer)
+        } catch (error) {
+          ctx.context.logger.error('Team SSO discovery failed', error)
+          throw new APIError('BAD_GATEWAY', { message: 'Your organisation\'s identity provider could not be reached' })
+        }
+
+        const nonce = randomNonce()
+        const { state, codeVerifier } = await generateState(ctx, undefined, { ssoProviderId: provider.id, nonce })
+        const url = await createAuthorizationURL({
+          id: provider.id,
+          options: { clientId: provider.clientId },
+          authorizationEndpoint: discovery.authorization_endpoint,
+          state,
+          codeVerifier,
+          scopes: provider.scopes.split(/\s+/).filter(Boolean),
+          redirectURI: `${ctx.context.baseURL}/sso/callback/${provider.id}`,
+          loginHint: ctx.body.email,
+          additionalParams: { nonce }
+        })
+
+        return ctx.json({ url: url.toString(), redirect: true })
+      }),
+
+      teamSsoCallback: createAuthEndpoint('/sso/callback/:providerId', {
+        method: 'GET',
+        query: z.object({
+          code: z.string().optional(),
+          state: z.string().optional(),
+          error: z.string().optional(),
+          error_description: z.string().optional()
+        })
+      }, async (ctx) => {
+        const defaultErrorURL = ctx.context.options.onAPIError?.errorURL || `${ctx.context.baseURL}/error`
+        if (ctx.query.error || !ctx.query.code) {
+          throw ctx.redirect(`${defaultErrorURL}?error=${ctx.query.error || 'sso_code_missing'}`)
+        }
+
+        const state = await parseState(ctx) as Awaited<ReturnType<typeof parseState>> & { ssoProviderId?: string, nonce?: string }
+        const redirectOnError = (error: string): never => {
+          const url = state.errorURL || defaultErrorURL
+          throw ctx.redirect(`${url}${url.includes('?') ? '&' : '?'}error=${error}`)
+        }
+
+        const providerId = ctx.params?.providerId
+        if (!providerId || state.ssoProviderId !== providerId || !state.nonce) {
+          return redirectOnError('state_mismatch')
+        }
+        const provider = await findSsoProvider(providerId)
+        if (!provider || (requireVerifiedDomain && !provider.domainVerifiedAt)) {
+          return redirectOnError('sso_provider_not_found')
+        }
+
+        let claims
+        let tokens
+        try {
+          const discovery = await fetchOidcDiscovery(provider.issuer)
+          tokens = await validateAuthorizationCode({
+            code: ctx.query.code,
+            codeVerifier: state.codeVerifier,
+            redirectURI: `${ctx.context.baseURL}/sso/callback/${provider.id}`,
+            options: { clientId: provider.clientId, clientSecret: await decryptSecret(provider.clientSecret) },
+            tokenEndpoint: discovery.token_endpoint
+          })
+          if (!tokens.idToken) {
+            return redirectOnError('id_token_missing')
+          }
+          claims = await verifyIdToken(tokens.idToken, discovery, provider.clientId, state.nonce)
+        } catch (error) {
+          if (options.debug) {
+            console.error('[crouton/auth] Team SSO sign-in failed', error)
+          }
+          ctx.context.logger.error('Team SSO sign-in failed', error)
+          return redirectOnError('sso_verification_failed')
+        }
+
+        // The IdP only speaks for the domain the team proved it owns
+        const email = claims.email?.toLowerCase()
+        if (!email || emailDomain(email) !== provider.domain) {
+          return redirectOnError('email_domain_mismatch')
+        }
+
+        const result = await handleOAuthUserInfo(ctx, {
+          userInfo: {
+            id: claims.sub,
+            email,
+            name: claims.name || email.split('@')[0]!,
+            image: claims.picture,
+            emailVerified: true
+          },
+          account: {
+            providerId: ssoAccountProviderId(provider.id),
+            accountId: claims.sub,
+            ...tokens,
+            scope: tokens.scopes?.join(',')
+          },
+          callbackURL: state.callbackURL,
+          isTrustedProvider: true
+        })
+        if (result.error || !result.data) {
+          return redirectOnError((result.error ?? 'sign_in_failed').split(' ').join('_'))
+        }
+
+        // Join the team just in time, and land in it
+        await provisionSsoMembership(provider, result.data.user.id)
+        const session = await ctx.context.internalAdapter.updateSession(result.data.session.token, {
+          activeOrganizationId: provider.organizationId
+        })
+
+        await setSessionCookie(ctx, { session: session ?? result.data.session, user: result.data.user })
+        throw ctx.redirect(state.callbackURL)
+      })
+    },
+
+    hooks: {
+      before: [{
+        matcher: ctx => SSO_ONLY_PATHS.includes(ctx.path ?? ''),
+        handler: createAuthMiddleware(async (ctx) => {
+          const email = (ctx.body as { email?: unknown } | undefined)?.email
+          if (typeof email !== 'string') return
+
+          const provider = await findSsoProviderForEmail(email, requireVerifiedDomain)
+          if (provider?.ssoOnly) {
+            throw new APIError('FORBIDDEN', { message: SSO_REQUIRED_MESSAGE })
+          }
+        })
+      }]
+    }
+  } satisfies BetterAuthPlugin
+}
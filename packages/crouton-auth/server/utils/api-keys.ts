@@ -0,0 +1,328 @@
+/**
+ * API Key Utilities
+ *
+ * Team API keys for machine access: ETL jobs and integrations authenticate
+ * as the team instead of logging in as a real user. A key carries named
+ * scopes ("shopOrders:read", "*:export") that the generated collection
+ * endpoints enforce (see resolveCollectionAccess).
+ *
+ * Keys are sent as `Authorization: Bearer <key>`. OAuth clients can use the
+ * client-credentials grant instead (POST /api/auth/api-keys/token): the key's
+ * ID is the client ID, the key the client secret, and the access token a
+ * short-lived scoped-access token bound to the key.
+ *
+ * @example
+ * ```typescript
+ * const { key, record } = await createApiKey({
+ *   organizationId: team.id,
+ *   name: 'Nightly ETL',
+ *   scopes: ['shopOrders:read', 'shopOrders:export'],
+ *   createdBy: user.id
+ * })
+ * // Show `key` once; only its hash is stored
+ * ```
+ */
+import { eq, and, gt } from 'drizzle-orm'
+import type { H3Event } from 'h3'
+import { createError, getHeader } from 'h3'
+import { apiKey } from '../database/schema/auth'
+import type { ApiKey } from '../database/schema/auth'
+import { API_KEY_ROLE } from '../../shared/utils/collection-permissions'
+import { createScopedToken, revokeScopedTokensForResource, validateScopedToken } from './scoped-access'
+
+/** Every key starts with this, so a Bearer credential can be told apart from other tokens */
+export const API_KEY_PREFIX = 'crk_'
+
+/** Resource type of the access tokens the client-credentials grant issues */
+export const API_KEY_RESOURCE_TYPE = 'api-key'
+
+/** Lifetime of client-credentials access tokens */
+export const API_KEY_ACCESS_TOKEN_TTL = 60 * 60 * 1000
+
+/**
+ * An API key without its hashes, as listed to team admins
+ */
+export type ApiKeySummary = Omit<ApiKey, 'keyHash' | 'previousKeyHash'>
+
+/**
+ * Options for creating an API key
+ */
+export interface CreateApiKeyOptions {
+  /** Organization/team ID */
+  organizationId: string
+  /** Display name, e.g. "Nightly ETL" */
+  name: string
+  /** "collection:action" scopes (see validateApiKeyScopes) */
+  scopes: string[]
+  /** User creating the key */
+  createdBy: string
+  /** When the key stops working; null/undefined = never */
+  expiresAt?: Date | null
+}
+
+function generateKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return API_KEY_PREFIX + Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/** SHA-256 hex of a key, what's stored and looked up */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/** Drop the hashes before a key leaves the server */
+export function toApiKeySummary(record: ApiKey): ApiKeySummary {
+  const { keyHash: _keyHash, previousKeyHash: _previousKeyHash, ...summary } = record
+  return summary
+}
+
+/**
+ * Create an API key
+ *
+ * @param options - Key creation options
+ * @returns The key (only ever returned here) and the stored record
+ */
+export async function createApiKey(
+  options: CreateApiKeyOptions
+): Promise<{ key: string, record: ApiKeySummary }> {
+  const key = generateKey()
+  const db = useDB()
+
+  const [record] = await db
+    .insert(apiKey)
+    .values({
+      organizationId: options.organizationId,
+      name: options.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: await hashApiKey(key),
+      scopes: options.scopes,
+      createdBy: options.createdBy,
+      expiresAt: options.expiresAt ?? null
+    })
+    .returning()
+
+  return { key, record: toApiKeySummary(record) }
+}
+
+/**
+ * List a team's usable API keys
+ *
+ * @param organizationId - Organization/team ID
+ */
+export async function listApiKeys(organizationId: string): Promise<ApiKeySummary[]> {
+  const db = useDB()
+  const records: ApiKey[] = await db
+    .select()
+    .from(apiKey)
+    .where(and(eq(apiKey.organizationId, organizationId), eq(apiKey.isActive, true)))
+
+  return records.map(toApiKeySummary)
+}
+
+/**
+ * Find one of a team's usable API keys
+ *
+ * @param organizationId - Organization/team ID
+ * @param id - Key ID
+ */
+async function findTeamApiKey(organizationId: string, id: string): Promise<ApiKey | null> {
+  const db = useDB()
+  const [record] = await db
+    .select()
+    .from(apiKey)
+    .where(and(eq(apiKey.id, id), eq(apiKey.organizationId, organizationId), eq(apiKey.isActive, true)))
+    .limit(1)
+
+  return record ?? null
+}
+
+/**
+ * Replace an API key's secret
+ *
+ * The old key keeps working for the grace period, so jobs can be redeployed
+ * with the new one without downtime. Access tokens issued for the key stay
+ * valid until they expire.
+ *
+ * @param organizationId - Organization/team ID
+ * @param id - Key ID
+ * @param gracePeriod - How long (ms) the old key keeps working; 0 = stop now
+ * @returns The new key and the updated record, or null if the team has no such key
+ */
+export async function rotateApiKey(
+  organizationId: string,
+  id: string,
+  gracePeriod: number
+): Promise<{ key: string, record: ApiKeySummary } | null> {
+  const existing = await findTeamApiKey(organizationId, id)
+  if (!existing) {
+    return null
+  }
+
+  const key = generateKey()
+  const now = new Date()
+  const db = useDB()
+
+  const [record] = await db
+    .update(apiKey)
+    .set({
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: await hashApiKey(key),
+      previousKeyHash: gracePeriod > 0 ? existing.keyHash : null,
+      previousKeyExpiresAt: gracePeriod > 0 ? new Date(now.getTime() + gracePeriod) : null,
+      rotatedAt: now
+    })
+    .where(eq(apiKey.id, id))
+    .returning()
+
+  return { key, record: toApiKeySummary(record) }
+}
+
+/**
+ * Revoke an API key and the access tokens issued for it
+ *
+ * @param organizationId - Organization/team ID
+ * @param id - Key ID
+ * @returns Whether the team had such a key
+ */
+export async function revokeApiKey(organizationId: string, id: string): Promise<boolean> {
+  const existing = await findTeamApiKey(organizationId, id)
+  if (!existing) {
+    return false
+  }
+
+  const db = useDB()
+  await db
+    .update(apiKey)
+    .set({ isActive: false, previousKeyHash: null, previousKeyExpiresAt: null })
+    .where(eq(apiKey.id, id))
+
+  await revokeScopedTokensForResource(API_KEY_RESOURCE_TYPE, id)
+  return true
+}
+
+// Usable: active and not expired. Records the use.
+async function useApiKeyRecord(record: ApiKey | undefined): Promise<ApiKey | null> {
+  if (!record || !record.isActive || (record.expiresAt && record.expiresAt <= new Date())) {
+    return null
+  }
+
+  const db = useDB()
+  await db
+    .update(apiKey)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiKey.id, record.id))
+
+  return record
+}
+
+/**
+ * Validate an API key
+ *
+ * Accepts the current key, and the one it replaced during the rotation
+ * grace period. Updates lastUsedAt on success.
+ *
+ * @param key - The key as presented
+ * @returns The key's record if usable, null otherwise
+ */
+export async function validateApiKey(key: string): Promise<ApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null
+  }
+
+  const hash = await hashApiKey(key)
+  const db = useDB()
+
+  const [current] = await db
+    .select()
+    .from(apiKey)
+    .where(eq(apiKey.keyHash, hash))
+    .limit(1)
+
+  if (current) {
+    return useApiKeyRecord(current)
+  }
+
+  const [previous] = await db
+    .select()
+    .from(apiKey)
+    .where(and(eq(apiKey.previousKeyHash, hash), gt(apiKey.previousKeyExpiresAt, new Date())))
+    .limit(1)
+
+  return useApiKeyRecord(previous)
+}
+
+/**
+ * Issue a client-credentials access token for an API key
+ *
+ * @param record - A validated key
+ * @returns The access token and its expiry
+ */
+export async function issueApiKeyAccessToken(record: ApiKey): Promise<{ token: string, expiresAt: Date }> {
+  const { token, expiresAt } = await createScopedToken({
+    organizationId: record.organizationId,
+    resourceType: API_KEY_RESOURCE_TYPE,
+    resourceId: record.id,
+    displayName: record.name,
+    role: API_KEY_ROLE,
+    expiresIn: API_KEY_ACCESS_TOKEN_TTL
+  })
+
+  return { token, expiresAt }
+}
+
+/**
+ * Resolve the API key a request authenticates with
+ *
+ * Reads `Authorization: Bearer`, holding either a key or a client-credentials
+ * access token. Other Bearer credentials (e.g. scoped-access tokens of other
+ * resource types) are left alone.
+ *
+ * @param event - H3 event
+ * @returns The key's record, or null when the request carries no API key credential
+ * @throws 401 if the credential is an API key or access token that isn't valid (anymore)
+ */
+export async function validateApiKeyFromEvent(event: H3Event): Promise<ApiKey | null> {
+  const authHeader = getHeader(event, 'authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const credential = authHeader.slice(7).trim()
+
+  if (credential.startsWith(API_KEY_PREFIX)) {
+    const record = await validateApiKey(credential)
+    if (!record) {
+      throw createError({
+        status: 401,
+        message: 'Invalid or expired API key'
+      })
+    }
+    return record
+  }
+
+  const token = await validateScopedToken(credential)
+  if (token?.resourceType !== API_KEY_RESOURCE_TYPE) {
+    return null
+  }
+
+  const db = useDB()
+  const [record] = await db
+    .select()
+    .from(apiKey)
+    .where(eq(apiKey.id, token.resourceId))
+    .limit(1)
+
+  const usable = await useApiKeyRecord(record)
+  if (!usable) {
+    throw createError({
+      status: 401,
+      message: 'The API key of this access token was revoked or has expired'
+    })
+  }
+  return usable
+}
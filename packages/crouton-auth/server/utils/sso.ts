@@ -0,0 +1,280 @@
+/**
+ * SSO Utilities
+ *
+ * A team can bring its own OpenID Connect identity provider. The provider is
+ * tied to an email domain: at login, people on that domain are sent to it,
+ * and join the team with the provider's default role the first time they
+ * sign in. The sign-in itself runs in the teamSso Better Auth plugin
+ * (server/lib/team-sso.ts); these helpers are shared with the team's
+ * settings endpoints.
+ *
+ * A domain only routes to a provider once the team proved it owns the
+ * domain, with a `_crouton-sso.<domain>` TXT record holding the provider's
+ * verification token. Otherwise any team could claim "gmail.com". Several
+ * teams may claim a domain at the same time: the first to verify it gets it,
+ * and a claim nobody verifies within SSO_DOMAIN_CLAIM_TTL_MS lapses.
+ *
+ * @example
+ * ```typescript
+ * const provider = await findSsoProviderForEmail('jane@acme.com')
+ * if (provider?.ssoOnly) {
+ *   // Password sign-in is refused for jane
+ * }
+ * ```
+ */
+import { eq, and, desc, isNotNull } from 'drizzle-orm'
+import { validateToken } from 'better-auth/oauth2'
+import { member, ssoProvider } from '../database/schema/auth'
+import type { SsoProvider } from '../database/schema/auth'
+
+/** Label of the TXT record that proves a team owns an SSO domain */
+export const SSO_VERIFICATION_RECORD = '_crouton-sso'
+
+/** How long fetchOidcDiscovery waits for the issuer */
+const DISCOVERY_TIMEOUT_MS = 10 * 1000
+
+/** How long a team has to verify a domain it claimed (7 days) */
+export const SSO_DOMAIN_CLAIM_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * An SSO provider without its client secret, as shown to team owners
+ */
+export type SsoProviderSummary = Omit<SsoProvider, 'clientSecret'>
+
+/**
+ * The parts of an OIDC discovery document the sign-in uses
+ */
+export interface OidcDiscovery {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  userinfo_endpoint?: string
+}
+
+/**
+ * Claims of a verified ID token the sign-in reads
+ */
+export interface SsoIdTokenClaims {
+  sub: string
+  email?: string
+  email_verified?: boolean
+  name?: string
+  picture?: string
+  nonce?: string
+}
+
+/** Drop the client secret before a provider leaves the server */
+export function toSsoProviderSummary(record: SsoProvider): SsoProviderSummary {
+  const { clientSecret: _clientSecret, ...summary } = record
+  return summary
+}
+
+/**
+ * Whether a provider's domain claim lapsed: unverified, and older than
+ * SSO_DOMAIN_CLAIM_TTL_MS. A lapsed claim can't be verified any more.
+ */
+export function isSsoDomainClaimExpired(
+  record: Pick<SsoProvider, 'domainVerifiedAt' | 'createdAt'>,
+  now = new Date()
+): boolean {
+  return !record.domainVerifiedAt && now.getTime() - new Date(record.createdAt).getTime() > SSO_DOMAIN_CLAIM_TTL_MS
+}
+
+/**
+ * The lowercased domain of an email address
+ *
+ * @returns The domain, or null if the address has none
+ */
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@')
+  const domain = at > 0 ? email.slice(at + 1).trim().toLowerCase() : ''
+  return domain || null
+}
+
+/**
+ * Fetch an issuer's OpenID Connect discovery document
+ *
+ * The issuer is a URL a team owner typed in, so outside development it must
+ * be https and resolve to public addresses (checkWebhookDestination from
+ * crouton-core, auto-imported by Nitro). A failed fetch gives the same error
+ * whatever the answer was, so the request can't be used to probe other hosts.
+ *
+ * @param issuer - Issuer URL, e.g. "https://login.acme.com/realms/staff"
+ * @throws If the issuer isn't allowed, the document can't be read, lacks an endpoint, or names another issuer
+ */
+export async function fetchOidcDiscovery(issuer: string): Promise<OidcDiscovery> {
+  const base = issuer.replace(/\/+$/, '')
+  const refused = await checkWebhookDestination(base, { allowPrivate: import.meta.dev })
+  if (refused) {
+    throw new Error('The issuer must be a public https URL')
+  }
+
+  let discovery: Partial<OidcDiscovery>
+  try {
+    const response = await fetch(`${base}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' },
+      // A redirect could lead past the check above
+      redirect: 'error',
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+    })
+    if (!response.ok) throw new Error('Unexpected response')
+    discovery = await response.json() as Partial<OidcDiscovery>
+  } catch {
+    throw new Error(`Could not read the OpenID configuration of ${base}`)
+  }
+
+  for (const key of ['authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (!discovery[key]) {
+      throw new Error(`The OpenID configuration of ${base} has no ${key}`)
+    }
+  }
+  if (discovery.issuer?.replace(/\/+$/, '') !== base) {
+    throw new Error(`The OpenID configuration of ${base} is for issuer ${discovery.issuer}`)
+  }
+
+  return discovery as OidcDiscovery
+}
+
+/**
+ * Verify an ID token against the issuer's keys
+ *
+ * Checks the signature, issuer, audience and expiry, and the nonce the
+ * sign-in sent.
+ *
+ * @param idToken - The ID token from the token endpoint
+ * @param discovery - The issuer's discovery document
+ * @param clientId - The team's client ID, the expected audience
+ * @param nonce - The nonce sent with the authorization request
+ * @throws If the token isn't valid
+ */
+export async function verifyIdToken(
+  idToken: string,
+  discovery: OidcDiscovery,
+  clientId: string,
+  nonce: string
+): Promise<SsoIdTokenClaims> {
+  const { payload } = await validateToken(idToken, discovery.jwks_uri, {
+    audience: clientId,
+    issuer: discovery.issuer
+  })
+
+  if (payload.nonce !== nonce) {
+    throw new Error('ID token nonce does not match')
+  }
+  if (!payload.sub) {
+    throw new Error('ID token has no subject')
+  }
+
+  return payload as unknown as SsoIdTokenClaims
+}
+
+/**
+ * Find the SSO provider that claims an email's domain
+ *
+ * @param email - Email address
+ * @param requireVerifiedDomain - Skip providers whose domain isn't proven yet (default: true)
+ * @returns The active provider for the domain (the verified one, when
+ *   several teams claim it), or null
+ */
+export async function findSsoProviderForEmail(
+  email: string,
+  requireVerifiedDomain = true
+): Promise<SsoProvider | null> {
+  const domain = emailDomain(email)
+  if (!domain) {
+    return null
+  }
+
+  const db = useDB()
+  const [record] = await db
+    .select()
+    .from(ssoProvider)
+    .where(and(
+      eq(ssoProvider.domain, domain),
+      eq(ssoProvider.isActive, true),
+      requireVerifiedDomain ? isNotNull(ssoProvider.domainVerifiedAt) : undefined
+    ))
+    // SQLite sorts NULL first ascending, so descending puts the verified claim first
+    .orderBy(desc(ssoProvider.domainVerifiedAt))
+    .limit(1)
+
+  if (!record || (requireVerifiedDomain && !record.domainVerifiedAt)) {
+    return null
+  }
+  return record
+}
+
+/**
+ * Find an active SSO provider by ID
+ *
+ * @param id - Provider ID
+ */
+export async function findSsoProvider(id: string): Promise<SsoProvider | null> {
+  const db = useDB()
+  const [record] = await db
+    .select()
+    .from(ssoProvider)
+    .where(and(eq(ssoProvider.id, id), eq(ssoProvider.isActive, true)))
+    .limit(1)
+
+  return record ?? null
+}
+
+/**
+ * Make someone who signed in through a team's provider a member of the team
+ *
+ * Existing memberships are left alone, so an admin who signs in through SSO
+ * stays admin.
+ *
+ * @param provider - The provider they signed in with
+ * @param userId - Their user ID
+ * @returns Whether a membership was created
+ */
+export async function provisionSsoMembership(provider: SsoProvider, userId: string): Promise<boolean> {
+  const db = useDB()
+  const [existing] = await db
+    .select()
+    .from(member)
+    .where(and(eq(member.organizationId, provider.organizationId), eq(member.userId, userId)))
+    .limit(1)
+
+  if (existing) {
+    return false
+  }
+
+  await db
+    .insert(member)
+    .values({
+      id: crypto.randomUUID(),
+      organizationId: provider.organizationId,
+      userId,
+      role: provider.defaultRole
+    })
+
+  return true
+}
+
+/**
+ * Look up whether a domain's `_crouton-sso` TXT record holds a token
+ *
+ * Uses Cloudflare's DNS over HTTPS API, like custom domain verification.
+ *
+ * @param domain - The SSO domain
+ * @param token - The provider's verification token
+ * @throws If the DNS lookup fails
+ */
+export async function hasSsoVerificationRecord(domain: string, token: string): Promise<boolean> {
+  const response = await fetch(
+    `https://cloudflare-dns.com/dns-query?name=${SSO_VERIFICATION_RECORD}.${domain}&type=TXT`,
+    { headers: { Accept: 'application/dns-json' } }
+  )
+  if (!response.ok) {
+    throw new Error(`DNS lookup failed (HTTP ${response.status})`)
+  }
+
+  const result = await response.json() as { Status: number, Answer?: Array<{ data: string }> }
+  // DNS TXT records are often quoted, so strip quotes
+  return result.Status === 0
+    && (result.Answer ?? []).some(record => record.data.replace(/^"|"$/g, '') === token)
+}
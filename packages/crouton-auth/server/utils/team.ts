@@ -8,10 +8,23 @@ import type { H3Event } from 'h3'
 import { createError, getRouterParam } from 'h3'
 import { useRuntimeConfig } from '#imports'
 import { sql, eq, and } from 'drizzle-orm'
-import { organization, member as memberTable } from '../database/schema/auth'
-import type { Team, Member, User } from '../../types'
+import { organization, member as memberTable, teamSettings } from '../database/schema/auth'
+import type { Team, Member, MemberRole, User } from '../../types'
 import { mapOrganizationToTeam } from '../../shared/utils/auth'
+import {
+  API_KEY_ROLE,
+  resolveApiKeyPermissions,
+  resolveCollectionPermissions,
+  type CollectionAction,
+  type CollectionPermissions,
+  type RowPolicyContext,
+  type TeamRoleSettings,
+  type TokenPolicyContext
+} from '../../shared/utils/collection-permissions'
 import { useServerAuth, requireServerSession } from './useServerAuth'
+import { validateScopedTokenFromEvent } from './scoped-access'
+import { validateApiKeyFromEvent } from './api-keys'
+import type { ApiKey } from '../database/schema/auth'
 import type { CroutonAuthConfig } from '../../types/config'
 
 // Extended session type with organization plugin properties
@@ -42,6 +55,8 @@ export interface TeamContext {
   team: Team
   user: User
   membership: Member
+  /** Set when the request authenticated with an API key instead of a session */
+  apiKey?: { id: string, name: string, scopes: string[] }
 }
 
 /**
@@ -54,10 +69,18 @@ export interface TeamContext {
  * - Single-tenant: Always uses the default team
  * - Personal: Uses user's personal team from session
  *
+ * API keys are only accepted with `allowApiKey`, by callers that check the
+ * key's scopes (resolveCollectionAccess). A request with a key
+ * (`Authorization: Bearer`) then acts for the key's team instead: user and
+ * membership stand for the key (ID as user ID, role "api-key"), and `apiKey`
+ * holds its scopes. Everywhere else a session is required.
+ *
  * @param event - H3 event
+ * @param options - Resolution options
+ * @param options.allowApiKey - Accept an API key in place of a session
  * @returns Team context with team, user, and membership
- * @throws 401 if not authenticated
- * @throws 403 if not a team member
+ * @throws 401 if not authenticated, or the API key is invalid
+ * @throws 403 if not a team member, or the API key belongs to another team
  * @throws 404 if team not found
  *
  * @example
@@ -70,7 +93,17 @@ export interface TeamContext {
  * })
  * ```
  */
-export async function resolveTeamAndCheckMembership(event: H3Event): Promise<TeamContext> {
+export async function resolveTeamAndCheckMembership(
+  event: H3Event,
+  options: { allowApiKey?: boolean } = {}
+): Promise<TeamContext> {
+  if (options.allowApiKey) {
+    const key = await validateApiKeyFromEvent(event)
+    if (key) {
+      return resolveApiKeyTeamContext(event, key)
+    }
+  }
+
   // Get authenticated session from Better Auth (cast to extended type with org properties)
   const session = await requireServerSession(event) as OrganizationSession
 
@@ -116,6 +149,51 @@ export async function resolveTeamAndCheckMembership(event: H3Event): Promise<Tea
   }
 }
 
+/**
+ * Team context of a request authenticated with an API key
+ *
+ * The team in the URL, if any, must be the key's own.
+ */
+async function resolveApiKeyTeamContext(event: H3Event, key: ApiKey): Promise<TeamContext> {
+  const teamId = getRouterParam(event, 'id') ?? key.organizationId
+  const team = await getTeamById(event, teamId) ?? await getTeamBySlug(event, teamId)
+
+  if (!team) {
+    throw createError({
+      status: 404,
+      message: 'Team not found'
+    })
+  }
+
+  if (team.id !== key.organizationId) {
+    throw createError({
+      status: 403,
+      message: 'API key was issued by another team'
+    })
+  }
+
+  return {
+    team,
+    user: {
+      id: key.id,
+      email: '',
+      emailVerified: false,
+      name: key.name,
+      image: null,
+      createdAt: key.createdAt,
+      updatedAt: key.updatedAt
+    },
+    membership: {
+      id: key.id,
+      organizationId: key.organizationId,
+      userId: key.id,
+      role: API_KEY_ROLE,
+      createdAt: key.createdAt
+    },
+    apiKey: { id: key.id, name: key.name, scopes: key.scopes }
+  }
+}
+
 /**
  * Resolve a team by slug or ID without requiring authentication.
  * Used for public-facing endpoints where team context is needed but auth is not.
@@ -189,7 +267,7 @@ export async function getMembership(event: H3Event, teamId: string, userId: stri
       id: m.id,
       organizationId: m.organizationId,
       userId: m.userId,
-      role: m.role as 'owner' | 'admin' | 'member',
+      role: m.role as MemberRole,
       createdAt: m.createdAt instanceof Date ? m.createdAt : new Date(m.createdAt),
     }
   } catch (error) {
@@ -417,6 +495,9 @@ export async function canUserCreateTeam(event: H3Event, userId: string, _userId?
 /**
  * Require user to have specific role in team
  *
+ * Team-defined roles rank as member here; what they may do on collections
+ * is up to their permissions (see requireCollectionPermission).
+ *
  * @param event - H3 event
  * @param requiredRole - Minimum required role (owner > admin > member)
  * @returns Team context if authorized
@@ -428,8 +509,8 @@ export async function requireTeamRole(
 ): Promise<TeamContext> {
   const context = await resolveTeamAndCheckMembership(event)
 
-  const roleHierarchy = { owner: 3, admin: 2, member: 1 }
-  const userRoleLevel = roleHierarchy[context.membership.role] ?? 0
+  const roleHierarchy: Record<string, number> = { owner: 3, admin: 2, member: 1 }
+  const userRoleLevel = roleHierarchy[context.membership.role] ?? 1
   const requiredRoleLevel = roleHierarchy[requiredRole]
 
   if (userRoleLevel < requiredRoleLevel) {
@@ -456,6 +537,146 @@ export async function requireTeamOwner(event: H3Event): Promise<TeamContext> {
   return requireTeamRole(event, 'owner')
 }
 
+// ============================================================================
+// Collection Permissions
+// ============================================================================
+
+export interface CollectionAccess extends TeamContext {
+  /** What the member's role may do on the collection */
+  permissions: CollectionPermissions
+  /** The member, for the collection's row policies (see the generated queries) */
+  policy: RowPolicyContext
+}
+
+/**
+ * Get a team's role definitions (none until an admin adds one)
+ *
+ * @param teamId - Team ID
+ * @returns The team's role settings
+ */
+export async function getTeamRoleSettings(teamId: string): Promise<TeamRoleSettings> {
+  const db = useDB()
+  const rows = await db
+    .select({ roleSettings: teamSettings.roleSettings })
+    .from(teamSettings)
+    .where(eq(teamSettings.teamId, teamId))
+    .limit(1)
+
+  return rows?.[0]?.roleSettings ?? { roles: [] }
+}
+
+/**
+ * Resolve team membership and the member's permissions on a collection
+ *
+ * Requests with an API key get what its scopes allow. Row policies don't
+ * filter them unless a policy names the "api-key" role.
+ *
+ * @param event - H3 event
+ * @param collection - Collection key, e.g. "shopProducts"
+ * @returns Team context with the resolved permissions
+ */
+export async function resolveCollectionAccess(event: H3Event, collection: string): Promise<CollectionAccess> {
+  const context = await resolveTeamAndCheckMembership(event, { allowApiKey: true })
+  const { role } = context.membership
+  const policy = { userId: context.user.id, memberId: context.membership.id, role }
+
+  // API keys have scopes instead of a role
+  if (context.apiKey) {
+    return { ...context, permissions: resolveApiKeyPermissions(context.apiKey.scopes, collection), policy }
+  }
+
+  // Owners and admins can't be restricted, so skip the settings lookup
+  const settings = role === 'owner' || role === 'admin' ? null : await getTeamRoleSettings(context.team.id)
+  return { ...context, permissions: resolveCollectionPermissions(role, collection, settings), policy }
+}
+
+/**
+ * Require the member's role to allow an action on a collection
+ *
+ * This is what generated collection endpoints call. `scope` is 'own' when
+ * the role may only act on rows it owns; the endpoint narrows its query to
+ * those rows.
+ *
+ * @param event - H3 event
+ * @param collection - Collection key, e.g. "shopProducts"
+ * @param action - read, create, update, delete or export
+ * @returns Team context, permissions and the scope of the action
+ * @throws 403 if the role doesn't allow the action
+ *
+ * @example
+ * ```typescript
+ * const { team, user, scope } = await requireCollectionPermission(event, 'shopProducts', 'read')
+ * const rows = await getAllShopProducts(team.id, scope === 'own' ? { owner: user.id } : {})
+ * ```
+ */
+export async function requireCollectionPermission(
+  event: H3Event,
+  collection: string,
+  action: CollectionAction
+): Promise<CollectionAccess & { scope: 'all' | 'own' }> {
+  const access = await resolveCollectionAccess(event, collection)
+  const level = access.permissions[action]
+
+  if (!level) {
+    throw createError({
+      status: 403,
+      message: access.apiKey
+        ? `This API key has no ${collection}:${action} scope`
+        : `Your role can't ${action} ${collection}`
+    })
+  }
+
+  return { ...access, scope: level === 'own' ? 'own' : 'all' }
+}
+
+/**
+ * A scoped-token holder reading a collection (see resolveScopedCollectionAccess)
+ */
+export interface ScopedCollectionAccess {
+  team: Team
+  user: null
+  scope: 'all'
+  /** The token, for the collection's row policies */
+  policy: TokenPolicyContext
+}
+
+/**
+ * Resolve a scoped-token holder reading a collection
+ *
+ * Generated GET endpoints of collections whose schema has row policies for
+ * scoped-access tokens call this first: a valid token of one of those
+ * resource types, issued by the team in the URL, reads the rows its policies
+ * allow without a session. Without one the endpoint falls back to
+ * requireCollectionPermission.
+ *
+ * @param event - H3 event
+ * @param resourceTypes - Token resource types the collection's policies name
+ * @returns Team and the token as row policy context, or null without such a token
+ * @throws 403 if the token was issued by another team
+ */
+export async function resolveScopedCollectionAccess(
+  event: H3Event,
+  resourceTypes: string[]
+): Promise<ScopedCollectionAccess | null> {
+  const access = await validateScopedTokenFromEvent(event)
+  if (!access || !resourceTypes.includes(access.resourceType)) return null
+
+  const { team } = await resolveTeamBySlugOrId(event)
+  if (access.organizationId !== team.id) {
+    throw createError({
+      status: 403,
+      message: 'Access token was issued by another team'
+    })
+  }
+
+  return {
+    team,
+    user: null,
+    scope: 'all',
+    policy: { token: { resourceType: access.resourceType, resourceId: access.resourceId, role: access.role } }
+  }
+}
+
 // ============================================================================
 // Direct Database Access (No Event Context)
 // ============================================================================
@@ -473,7 +694,7 @@ export async function requireTeamOwner(event: H3Event): Promise<TeamContext> {
 export async function getOrganizationMembershipDirect(
   organizationId: string,
   userId: string
-): Promise<{ role: 'owner' | 'admin' | 'member' } | null> {
+): Promise<{ role: MemberRole } | null> {
   const db = useDB()
 
   const result = await db
@@ -487,7 +708,7 @@ export async function getOrganizationMembershipDirect(
 
   const row = result[0]
   if (!row) return null
-  return { role: row.role as 'owner' | 'admin' | 'member' }
+  return { role: row.role as MemberRole }
 }
 
 // ============================================================================
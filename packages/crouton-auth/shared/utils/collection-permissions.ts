@@ -0,0 +1,175 @@
+/**
+ * Collection Permissions
+ *
+ * Team-defined roles and their per-collection permission matrix, shared by
+ * the generated endpoints (which enforce it) and the UI (which hides what a
+ * role can't do). No Nuxt/H3 dependencies allowed here.
+ *
+ * Owners and admins can do everything. The built-in member role reads and
+ * exports every row and edits/deletes its own. A team can override "member"
+ * and add roles of its own (e.g. a read-only "volunteer"); a member's role
+ * key is stored on the membership like the built-in ones.
+ *
+ * API keys don't have a role's matrix: their scopes ("shopOrders:read",
+ * "*:export") list what they may do, on every row.
+ */
+
+export const COLLECTION_ACTIONS = ['read', 'create', 'update', 'delete', 'export'] as const
+
+export type CollectionAction = typeof COLLECTION_ACTIONS[number]
+
+/** `true`: every row, `'own'`: only rows the member owns, `false`: none */
+export type CollectionPermissionLevel = boolean | 'own'
+
+export type CollectionPermissions = Record<CollectionAction, CollectionPermissionLevel>
+
+export interface TeamRoleDefinition {
+  /** Stored as the member's role, e.g. "volunteer"; "member" overrides the built-in member */
+  key: string
+  /** Display name */
+  name: string
+  description?: string
+  /** Permissions on collections without an entry of their own (missing actions are denied) */
+  defaults?: Partial<CollectionPermissions>
+  /** Per collection, keyed like the app's collections (e.g. "shopProducts") */
+  collections?: Record<string, Partial<CollectionPermissions>>
+}
+
+/** The `roleSettings` of a team */
+export interface TeamRoleSettings {
+  roles: TeamRoleDefinition[]
+}
+
+/** A member asking for a collection's rows */
+export interface MemberPolicyContext {
+  userId: string
+  /** Membership ID (what e.g. `allowedMemberIds` lists) */
+  memberId: string
+  role: string
+  token?: undefined
+}
+
+/** The holder of a scoped-access token asking without a session */
+export interface TokenPolicyContext {
+  token: { resourceType: string, resourceId: string, role: string }
+  userId?: undefined
+  memberId?: undefined
+  role?: undefined
+}
+
+/**
+ * Who is asking for a collection's rows, checked against the row policies
+ * its schema declares (compiled into the generated queries)
+ */
+export type RowPolicyContext = MemberPolicyContext | TokenPolicyContext
+
+/** Roles that always exist; owner and admin can't be redefined */
+export const BUILT_IN_ROLES = ['owner', 'admin', 'member'] as const
+
+/** The role requests authenticated with an API key act as (e.g. in row policies) */
+export const API_KEY_ROLE = 'api-key'
+
+export const FULL_COLLECTION_PERMISSIONS: CollectionPermissions = {
+  read: true,
+  create: true,
+  update: true,
+  delete: true,
+  export: true
+}
+
+/** The built-in member, unless the team redefines "member" */
+export const MEMBER_COLLECTION_PERMISSIONS: CollectionPermissions = {
+  read: true,
+  create: true,
+  update: 'own',
+  delete: 'own',
+  export: true
+}
+
+const NO_COLLECTION_PERMISSIONS: CollectionPermissions = {
+  read: false,
+  create: false,
+  update: false,
+  delete: false,
+  export: false
+}
+
+/**
+ * What a role may do on a collection. Unknown roles (e.g. one the team has
+ * since deleted) get no access.
+ */
+export function resolveCollectionPermissions(
+  role: string | null | undefined,
+  collection: string,
+  settings?: TeamRoleSettings | null
+): CollectionPermissions {
+  if (role === 'owner' || role === 'admin') return { ...FULL_COLLECTION_PERMISSIONS }
+
+  const definition = settings?.roles?.find(candidate => candidate.key === role)
+  if (!definition) {
+    return role === 'member' ? { ...MEMBER_COLLECTION_PERMISSIONS } : { ...NO_COLLECTION_PERMISSIONS }
+  }
+
+  return {
+    ...NO_COLLECTION_PERMISSIONS,
+    ...definition.defaults,
+    ...definition.collections?.[collection]
+  }
+}
+
+/**
+ * Whether a permission level covers a row: `'own'` matches rows whose owner
+ * (or, without one, creator) is the user
+ */
+export function canAccessRow(
+  level: CollectionPermissionLevel,
+  row: { owner?: string | null, createdBy?: string | null } | null | undefined,
+  userId: string | null | undefined
+): boolean {
+  if (level !== 'own') return level
+  if (!row || !userId) return false
+  return (row.owner ?? row.createdBy) === userId
+}
+
+/** Problems with a team's role definitions, empty when they can be saved */
+export function validateTeamRoles(roles: TeamRoleDefinition[]): string[] {
+  const problems: string[] = []
+  const seen = new Set<string>()
+  for (const role of roles) {
+    if (!/^[a-z][a-z0-9_-]*$/.test(role.key)) {
+      problems.push(`Role key "${role.key}" must be lowercase letters, digits, - or _`)
+    } else if (role.key === 'owner' || role.key === 'admin') {
+      problems.push(`The ${role.key} role can't be redefined`)
+    } else if (role.key === API_KEY_ROLE) {
+      problems.push(`The ${API_KEY_ROLE} role is reserved for API keys`)
+    } else if (seen.has(role.key)) {
+      problems.push(`Role key "${role.key}" is used twice`)
+    }
+    seen.add(role.key)
+  }
+  return problems
+}
+
+/**
+ * What an API key may do on a collection. A scope is "collection:action";
+ * either half may be `*`.
+ */
+export function resolveApiKeyPermissions(scopes: string[], collection: string): CollectionPermissions {
+  const permissions = { ...NO_COLLECTION_PERMISSIONS }
+  for (const scope of scopes) {
+    const [scopeCollection, scopeAction] = scope.split(':')
+    if (scopeCollection !== '*' && scopeCollection !== collection) continue
+    for (const action of COLLECTION_ACTIONS) {
+      if (scopeAction === '*' || scopeAction === action) permissions[action] = true
+    }
+  }
+  return permissions
+}
+
+/** Problems with an API key's scopes, empty when they can be saved */
+export function validateApiKeyScopes(scopes: string[]): string[] {
+  if (scopes.length === 0) return ['An API key needs at least one scope']
+  return scopes
+    .filter(scope => !/^(?:\*|[a-z][\w-]*):(?:\*|read|create|update|delete|export)$/i.test(scope))
+    .map(scope => `Scope "${scope}" must be collection:action, e.g. "shopOrders:read" or "*:export"`)
+}
@@ -20,6 +20,7 @@ const mockAuthClient = {
     email: vi.fn()
   },
   signOut: vi.fn(),
+  $fetch: vi.fn(),
   forgetPassword: vi.fn(),
   requestPasswordReset: vi.fn(),
   resetPassword: vi.fn(),
@@ -68,7 +69,8 @@ vi.stubGlobal('useRuntimeConfig', () => ({
           },
           passkeys: { enabled: true },
           twoFactor: { enabled: true },
-          magicLink: { enabled: true }
+          magicLink: { enabled: true },
+          sso: true
         }
       }
     }
@@ -91,7 +93,8 @@ vi.stubGlobal('useAuthConfig', () => ({
     },
     passkeys: { enabled: true },
     twoFactor: { enabled: true },
-    magicLink: { enabled: true }
+    magicLink: { enabled: true },
+    sso: true
   },
   ui: {
     redirects: {
@@ -206,6 +209,11 @@ describe('useAuth', () => {
       const { hasMagicLink } = useAuth()
       expect(hasMagicLink.value).toBe(true)
     })
+
+    it('should detect SSO enabled', () => {
+      const { hasSso } = useAuth()
+      expect(hasSso.value).toBe(true)
+    })
   })
 
   describe('login', () => {
@@ -324,6 +332,28 @@ describe('useAuth', () => {
     })
   })
 
+  describe('discoverSso', () => {
+    it('should look up the provider for the email domain', async () => {
+      const provider = { id: 'sso-1', domain: 'acme.com', ssoOnly: true }
+      mockAuthClient.$fetch.mockResolvedValue({ data: { provider }, error: null })
+
+      const { discoverSso } = useAuth()
+
+      await expect(discoverSso('jane@acme.com')).resolves.toEqual(provider)
+      expect(mockAuthClient.$fetch).toHaveBeenCalledWith('/sso/discover', {
+        method: 'POST',
+        body: { email: 'jane@acme.com' }
+      })
+    })
+
+    it('should not look up an incomplete email', async () => {
+      const { discoverSso } = useAuth()
+
+      await expect(discoverSso('jane')).resolves.toBeNull()
+      expect(mockAuthClient.$fetch).not.toHaveBeenCalled()
+    })
+  })
+
   describe('register', () => {
     it('should call signUp.email with data', async () => {
       mockAuthClient.signUp.email.mockResolvedValue({ data: { user: {} }, error: null })
@@ -0,0 +1,218 @@
+/**
+ * Server-side API Key Tests
+ *
+ * Tests the team API key utilities for:
+ * - Key creation (hash stored, key returned once)
+ * - Validation, including the rotation grace period
+ * - Bearer authentication with a key or a client-credentials access token
+ * - Rotation and revocation
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { H3Event } from 'h3'
+import {
+  createApiKey,
+  hashApiKey,
+  issueApiKeyAccessToken,
+  revokeApiKey,
+  rotateApiKey,
+  validateApiKey,
+  validateApiKeyFromEvent
+} from '../../../server/utils/api-keys'
+
+// Rows returned by successive select().from().where().limit() calls
+let selectQueue: unknown[][] = []
+let insertedValues: Record<string, any> | null = null
+let updatedValues: Record<string, any>[] = []
+
+const createMockDb = () => ({
+  insert: vi.fn(() => ({
+    values: vi.fn((data) => {
+      insertedValues = data
+      return { returning: vi.fn(async () => [{ id: 'key-1', ...data }]) }
+    })
+  })),
+  select: vi.fn(() => ({
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    limit: vi.fn(async () => selectQueue.shift() ?? [])
+  })),
+  update: vi.fn(() => ({
+    set: vi.fn((data) => {
+      updatedValues.push(data)
+      return {
+        where: vi.fn(() => ({
+          returning: vi.fn(async () => [{ ...activeKey, ...data }])
+        }))
+      }
+    })
+  }))
+})
+
+vi.stubGlobal('useDB', () => createMockDb())
+
+const mockValidateScopedToken = vi.fn()
+const mockCreateScopedToken = vi.fn()
+const mockRevokeScopedTokens = vi.fn()
+vi.mock('../../../server/utils/scoped-access', () => ({
+  validateScopedToken: (...args: unknown[]) => mockValidateScopedToken(...args),
+  createScopedToken: (...args: unknown[]) => mockCreateScopedToken(...args),
+  revokeScopedTokensForResource: (...args: unknown[]) => mockRevokeScopedTokens(...args)
+}))
+
+const activeKey = {
+  id: 'key-1',
+  organizationId: 'team-1',
+  name: 'Nightly ETL',
+  prefix: 'crk_12345678',
+  keyHash: 'hash',
+  previousKeyHash: null,
+  previousKeyExpiresAt: null,
+  scopes: ['shopOrders:read'],
+  createdBy: 'user-1',
+  isActive: true,
+  expiresAt: null,
+  lastUsedAt: null,
+  rotatedAt: null,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z')
+}
+
+const bearerEvent = (credential?: string): H3Event => ({
+  node: { req: { headers: credential ? { authorization: `Bearer ${credential}` } : {} }, res: {} },
+  context: {}
+}) as unknown as H3Event
+
+describe('server/utils/api-keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    selectQueue = []
+    insertedValues = null
+    updatedValues = []
+  })
+
+  describe('createApiKey', () => {
+    it('stores the hash and returns the key once', async () => {
+      const { key, record } = await createApiKey({
+        organizationId: 'team-1',
+        name: 'Nightly ETL',
+        scopes: ['shopOrders:read'],
+        createdBy: 'user-1'
+      })
+
+      expect(key).toMatch(/^crk_[0-9a-f]{64}$/)
+      expect(insertedValues?.keyHash).toBe(await hashApiKey(key))
+      expect(insertedValues?.prefix).toBe(key.slice(0, 12))
+      expect(record).not.toHaveProperty('keyHash')
+      expect(record).not.toHaveProperty('previousKeyHash')
+    })
+  })
+
+  describe('validateApiKey', () => {
+    it('accepts an active key and records its use', async () => {
+      selectQueue = [[activeKey]]
+
+      await expect(validateApiKey('crk_abc')).resolves.toEqual(activeKey)
+      expect(updatedValues[0]).toHaveProperty('lastUsedAt')
+    })
+
+    it('accepts the previous key during the rotation grace period', async () => {
+      selectQueue = [[], [activeKey]]
+
+      await expect(validateApiKey('crk_old')).resolves.toEqual(activeKey)
+    })
+
+    it('rejects revoked, expired and unknown keys', async () => {
+      selectQueue = [[{ ...activeKey, isActive: false }]]
+      await expect(validateApiKey('crk_abc')).resolves.toBeNull()
+
+      selectQueue = [[{ ...activeKey, expiresAt: new Date(Date.now() - 1000) }]]
+      await expect(validateApiKey('crk_abc')).resolves.toBeNull()
+
+      selectQueue = [[], []]
+      await expect(validateApiKey('crk_abc')).resolves.toBeNull()
+
+      await expect(validateApiKey('not-a-key')).resolves.toBeNull()
+    })
+  })
+
+  describe('validateApiKeyFromEvent', () => {
+    it('ignores requests without a Bearer credential', async () => {
+      await expect(validateApiKeyFromEvent(bearerEvent())).resolves.toBeNull()
+    })
+
+    it('authenticates a key, and refuses an invalid one', async () => {
+      selectQueue = [[activeKey]]
+      await expect(validateApiKeyFromEvent(bearerEvent('crk_abc'))).resolves.toEqual(activeKey)
+
+      selectQueue = [[], []]
+      await expect(validateApiKeyFromEvent(bearerEvent('crk_abc'))).rejects.toThrow('Invalid or expired API key')
+    })
+
+    it('authenticates a client-credentials access token through its key', async () => {
+      mockValidateScopedToken.mockResolvedValue({ resourceType: 'api-key', resourceId: 'key-1' })
+      selectQueue = [[activeKey]]
+      await expect(validateApiKeyFromEvent(bearerEvent('token'))).resolves.toEqual(activeKey)
+
+      mockValidateScopedToken.mockResolvedValue({ resourceType: 'api-key', resourceId: 'key-1' })
+      selectQueue = [[{ ...activeKey, isActive: false }]]
+      await expect(validateApiKeyFromEvent(bearerEvent('token'))).rejects.toThrow('revoked or has expired')
+    })
+
+    it('leaves other scoped-access tokens alone', async () => {
+      mockValidateScopedToken.mockResolvedValue({ resourceType: 'event', resourceId: 'event-1' })
+
+      await expect(validateApiKeyFromEvent(bearerEvent('token'))).resolves.toBeNull()
+    })
+  })
+
+  describe('issueApiKeyAccessToken', () => {
+    it('mints an hour-long scoped token bound to the key', async () => {
+      mockCreateScopedToken.mockResolvedValue({ token: 'token', id: 'token-1', expiresAt: new Date() })
+
+      await issueApiKeyAccessToken(activeKey)
+
+      expect(mockCreateScopedToken).toHaveBeenCalledWith({
+        organizationId: 'team-1',
+        resourceType: 'api-key',
+        resourceId: 'key-1',
+        displayName: 'Nightly ETL',
+        role: 'api-key',
+        expiresIn: 60 * 60 * 1000
+      })
+    })
+  })
+
+  describe('rotateApiKey', () => {
+    it('keeps the old key working for the grace period', async () => {
+      selectQueue = [[activeKey]]
+
+      const result = await rotateApiKey('team-1', 'key-1', 60 * 60 * 1000)
+
+      expect(result?.key).toMatch(/^crk_/)
+      expect(updatedValues[0]).toMatchObject({ previousKeyHash: 'hash', keyHash: await hashApiKey(result!.key) })
+      expect(updatedValues[0]!.previousKeyExpiresAt.getTime()).toBeGreaterThan(Date.now())
+    })
+
+    it('drops the old key at once without a grace period', async () => {
+      selectQueue = [[activeKey]]
+
+      await rotateApiKey('team-1', 'key-1', 0)
+
+      expect(updatedValues[0]).toMatchObject({ previousKeyHash: null, previousKeyExpiresAt: null })
+    })
+
+    it('returns null for a key the team doesn\'t have', async () => {
+      await expect(rotateApiKey('team-1', 'key-2', 0)).resolves.toBeNull()
+    })
+  })
+
+  describe('revokeApiKey', () => {
+    it('deactivates the key and its access tokens', async () => {
+      selectQueue = [[activeKey]]
+
+      await expect(revokeApiKey('team-1', 'key-1')).resolves.toBe(true)
+      expect(updatedValues[0]).toMatchObject({ isActive: false })
+      expect(mockRevokeScopedTokens).toHaveBeenCalledWith('api-key', 'key-1')
+    })
+  })
+})
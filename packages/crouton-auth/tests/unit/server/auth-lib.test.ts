@@ -33,6 +33,10 @@ vi.mock('@better-auth/passkey', () => ({
   passkey: vi.fn((config: unknown) => ({ type: 'passkey', config }))
 }))
 
+vi.mock('../../../server/lib/team-sso', () => ({
+  teamSso: vi.fn((options: unknown) => ({ type: 'teamSso', options }))
+}))
+
 vi.mock('better-auth/adapters/drizzle', () => ({
   drizzleAdapter: vi.fn(() => ({ type: 'drizzle' }))
 }))
@@ -0,0 +1,249 @@
+/**
+ * Server-side SSO Tests
+ *
+ * Tests the team single sign-on utilities against a mock OIDC provider
+ * (discovery document and JWKS served through a stubbed fetch, ID tokens
+ * signed with a generated RS256 key):
+ * - Email domain parsing
+ * - Discovery document checks, and the issuer URL check before them
+ * - ID token verification
+ * - Provider lookup by email domain
+ * - Just-in-time membership
+ * - DNS domain verification and lapsed domain claims
+ */
+import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest'
+import {
+  emailDomain,
+  fetchOidcDiscovery,
+  findSsoProviderForEmail,
+  hasSsoVerificationRecord,
+  isSsoDomainClaimExpired,
+  provisionSsoMembership,
+  toSsoProviderSummary,
+  verifyIdToken
+} from '../../../server/utils/sso'
+import type { OidcDiscovery } from '../../../server/utils/sso'
+
+const ISSUER = 'https://idp.acme.test/realms/staff'
+
+const discovery: OidcDiscovery = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/auth`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/certs`
+}
+
+// Rows returned by successive select().from().where().orderBy().limit() calls
+let selectQueue: unknown[][] = []
+let insertedValues: Record<string, any> | null = null
+
+vi.stubGlobal('useDB', () => ({
+  select: vi.fn(() => ({
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    limit: vi.fn(async () => selectQueue.shift() ?? [])
+  })),
+  insert: vi.fn(() => ({
+    values: vi.fn(async (data) => {
+      insertedValues = data
+    })
+  }))
+}))
+
+// Outbound URL check from crouton-core (auto-imported by Nitro)
+const checkWebhookDestination = vi.fn(async (_url: string): Promise<{ error: string, permanent: boolean } | null> => null)
+vi.stubGlobal('checkWebhookDestination', checkWebhookDestination)
+
+// Mock OIDC provider: responses by URL
+let responses: Record<string, unknown> = {}
+vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+  if (!(url in responses)) {
+    return new Response('Not found', { status: 404 })
+  }
+  return new Response(JSON.stringify(responses[url]), {
+    headers: { 'content-type': 'application/json' }
+  })
+}))
+
+let signingKey: CryptoKeyPair
+let otherKey: CryptoKeyPair
+
+const base64url = (data: string | ArrayBuffer) => Buffer.from(typeof data === 'string' ? data : new Uint8Array(data)).toString('base64url')
+
+async function signIdToken(claims: Record<string, unknown>, key = signingKey): Promise<string> {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: 'key-1' }))
+  const now = Math.floor(Date.now() / 1000)
+  const payload = base64url(JSON.stringify({ iss: ISSUER, aud: 'client-1', iat: now, exp: now + 300, ...claims }))
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key.privateKey, new TextEncoder().encode(`${header}.${payload}`))
+  return `${header}.${payload}.${base64url(signature)}`
+}
+
+const provider = {
+  id: 'sso-1',
+  organizationId: 'team-1',
+  type: 'oidc',
+  domain: 'acme.com',
+  domainVerificationToken: 'token-123',
+  domainVerifiedAt: new Date('2024-01-01T00:00:00.000Z'),
+  issuer: ISSUER,
+  clientId: 'client-1',
+  clientSecret: 'secret',
+  scopes: 'openid email profile',
+  defaultRole: 'member',
+  ssoOnly: true,
+  isActive: true,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z')
+}
+
+describe('server/utils/sso', () => {
+  beforeAll(async () => {
+    const algorithm = { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }
+    signingKey = await crypto.subtle.generateKey(algorithm, true, ['sign', 'verify']) as CryptoKeyPair
+    otherKey = await crypto.subtle.generateKey(algorithm, true, ['sign', 'verify']) as CryptoKeyPair
+  })
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    selectQueue = []
+    insertedValues = null
+    const jwk = await crypto.subtle.exportKey('jwk', signingKey.publicKey)
+    responses = {
+      [`${ISSUER}/.well-known/openid-configuration`]: discovery,
+      [discovery.jwks_uri]: { keys: [{ ...jwk, kid: 'key-1', alg: 'RS256', use: 'sig' }] }
+    }
+  })
+
+  describe('emailDomain', () => {
+    it('returns the lowercased domain', () => {
+      expect(emailDomain('Jane@ACME.com')).toBe('acme.com')
+      expect(emailDomain('jane')).toBeNull()
+      expect(emailDomain('jane@')).toBeNull()
+    })
+  })
+
+  describe('toSsoProviderSummary', () => {
+    it('drops the client secret', () => {
+      expect(toSsoProviderSummary(provider)).not.toHaveProperty('clientSecret')
+    })
+  })
+
+  describe('fetchOidcDiscovery', () => {
+    it('reads the discovery document, with or without a trailing slash', async () => {
+      await expect(fetchOidcDiscovery(ISSUER)).resolves.toEqual(discovery)
+      await expect(fetchOidcDiscovery(`${ISSUER}/`)).resolves.toEqual(discovery)
+    })
+
+    it('refuses unreachable issuers and documents for another issuer', async () => {
+      // The same error whatever the issuer answered
+      await expect(fetchOidcDiscovery('https://nowhere.test')).rejects.toThrow(/^Could not read the OpenID configuration of https:\/\/nowhere\.test$/)
+
+      responses[`${ISSUER}/.well-known/openid-configuration`] = { ...discovery, issuer: 'https://evil.test' }
+      await expect(fetchOidcDiscovery(ISSUER)).rejects.toThrow('is for issuer https://evil.test')
+    })
+
+    it('checks the issuer before fetching anything', async () => {
+      checkWebhookDestination.mockResolvedValueOnce({ error: 'URL must use https', permanent: true })
+
+      await expect(fetchOidcDiscovery('http://169.254.169.254/latest')).rejects.toThrow('The issuer must be a public https URL')
+      expect(checkWebhookDestination).toHaveBeenCalledWith('http://169.254.169.254/latest', { allowPrivate: undefined })
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('doesn\'t follow redirects', async () => {
+      await fetchOidcDiscovery(ISSUER)
+
+      expect(fetch).toHaveBeenCalledWith(`${ISSUER}/.well-known/openid-configuration`, expect.objectContaining({ redirect: 'error' }))
+    })
+  })
+
+  describe('verifyIdToken', () => {
+    it('accepts a token signed by the issuer for the client', async () => {
+      const idToken = await signIdToken({ sub: 'user-42', email: 'jane@acme.com', nonce: 'n-1' })
+
+      await expect(verifyIdToken(idToken, discovery, 'client-1', 'n-1')).resolves.toMatchObject({
+        sub: 'user-42',
+        email: 'jane@acme.com'
+      })
+    })
+
+    it('rejects another audience, another nonce and a foreign signature', async () => {
+      const forOtherClient = await signIdToken({ sub: 'user-42', aud: 'client-2', nonce: 'n-1' })
+      await expect(verifyIdToken(forOtherClient, discovery, 'client-1', 'n-1')).rejects.toThrow()
+
+      const replayed = await signIdToken({ sub: 'user-42', nonce: 'n-0' })
+      await expect(verifyIdToken(replayed, discovery, 'client-1', 'n-1')).rejects.toThrow('nonce')
+
+      const forged = await signIdToken({ sub: 'user-42', nonce: 'n-1' }, otherKey)
+      await expect(verifyIdToken(forged, discovery, 'client-1', 'n-1')).rejects.toThrow()
+    })
+  })
+
+  describe('findSsoProviderForEmail', () => {
+    it('finds the provider of a verified domain', async () => {
+      selectQueue = [[provider]]
+
+      await expect(findSsoProviderForEmail('jane@acme.com')).resolves.toEqual(provider)
+    })
+
+    it('ignores an unverified domain unless verification is off', async () => {
+      const unverified = { ...provider, domainVerifiedAt: null }
+
+      selectQueue = [[unverified]]
+      await expect(findSsoProviderForEmail('jane@acme.com')).resolves.toBeNull()
+
+      selectQueue = [[unverified]]
+      await expect(findSsoProviderForEmail('jane@acme.com', false)).resolves.toEqual(unverified)
+    })
+
+    it('returns null without a domain or provider', async () => {
+      await expect(findSsoProviderForEmail('jane')).resolves.toBeNull()
+      await expect(findSsoProviderForEmail('jane@gmail.com')).resolves.toBeNull()
+    })
+  })
+
+  describe('isSsoDomainClaimExpired', () => {
+    const now = new Date('2024-01-10T00:00:00.000Z')
+
+    it('lets an unverified claim lapse after seven days', () => {
+      expect(isSsoDomainClaimExpired({ domainVerifiedAt: null, createdAt: new Date('2024-01-04T00:00:00.000Z') }, now)).toBe(false)
+      expect(isSsoDomainClaimExpired({ domainVerifiedAt: null, createdAt: new Date('2024-01-02T00:00:00.000Z') }, now)).toBe(true)
+    })
+
+    it('never expires a verified domain', () => {
+      expect(isSsoDomainClaimExpired(provider, now)).toBe(false)
+    })
+  })
+
+  describe('provisionSsoMembership', () => {
+    it('adds a new member with the default role', async () => {
+      await expect(provisionSsoMembership(provider, 'user-1')).resolves.toBe(true)
+      expect(insertedValues).toMatchObject({ organizationId: 'team-1', userId: 'user-1', role: 'member' })
+    })
+
+    it('leaves an existing membership alone', async () => {
+      selectQueue = [[{ id: 'member-1', role: 'admin' }]]
+
+      await expect(provisionSsoMembership(provider, 'user-1')).resolves.toBe(false)
+      expect(insertedValues).toBeNull()
+    })
+  })
+
+  describe('hasSsoVerificationRecord', () => {
+    const dnsUrl = 'https://cloudflare-dns.com/dns-query?name=_crouton-sso.acme.com&type=TXT'
+
+    it('finds the token in a quoted TXT record', async () => {
+      responses[dnsUrl] = { Status: 0, Answer: [{ data: '"other"' }, { data: '"token-123"' }] }
+
+      await expect(hasSsoVerificationRecord('acme.com', 'token-123')).resolves.toBe(true)
+    })
+
+    it('reports a missing record', async () => {
+      responses[dnsUrl] = { Status: 3 }
+
+      await expect(hasSsoVerificationRecord('acme.com', 'token-123')).resolves.toBe(false)
+    })
+  })
+})
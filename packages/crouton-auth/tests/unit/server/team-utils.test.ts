@@ -12,7 +12,9 @@ import {
   canUserCreateTeam,
   requireTeamRole,
   requireTeamAdmin,
-  requireTeamOwner
+  requireTeamOwner,
+  requireCollectionPermission,
+  resolveScopedCollectionAccess
 } from '../../../server/utils/team'
 
 // Mock H3Event
@@ -92,11 +94,12 @@ vi.stubGlobal('getRouterParam', vi.fn((_event: H3Event, param: string) => {
 vi.stubGlobal('hubDatabase', () => ({}))
 
 // Import schema tables for reference comparison in useDB mock
-import { organization, member as memberTableSchema } from '../../../server/database/schema/auth'
+import { organization, member as memberTableSchema, teamSettings } from '../../../server/database/schema/auth'
 
 // Configurable mock results for Drizzle queries
 let mockOrgRows: any[] = []
 let mockMemberRows: any[] = []
+let mockTeamSettingsRows: any[] = []
 
 // Mock useDB() — Nuxt auto-import that returns a Drizzle ORM instance
 // The source code uses: useDB().select().from(table).where(...).limit(n)
@@ -107,6 +110,7 @@ vi.stubGlobal('useDB', () => ({
         limit: () => {
           if (table === organization) return Promise.resolve(mockOrgRows)
           if (table === memberTableSchema) return Promise.resolve(mockMemberRows)
+          if (table === teamSettings) return Promise.resolve(mockTeamSettingsRows)
           return Promise.resolve([])
         }
       })
@@ -114,6 +118,18 @@ vi.stubGlobal('useDB', () => ({
   })
 }))
 
+// Mock scoped-access token validation
+const mockValidateScopedToken = vi.fn()
+vi.mock('../../../server/utils/scoped-access', () => ({
+  validateScopedTokenFromEvent: (...args: unknown[]) => mockValidateScopedToken(...args)
+}))
+
+// Mock API key authentication
+const mockValidateApiKey = vi.fn()
+vi.mock('../../../server/utils/api-keys', () => ({
+  validateApiKeyFromEvent: (...args: unknown[]) => mockValidateApiKey(...args)
+}))
+
 // Mock requireServerSession
 const mockRequireServerSession = vi.fn()
 vi.mock('../../../server/utils/useServerAuth', () => ({
@@ -161,6 +177,7 @@ describe('server/utils/team', () => {
       role: 'member',
       createdAt: '2024-01-01T00:00:00.000Z'
     }]
+    mockTeamSettingsRows = []
     // Keep auth API mocks for functions that still use Better Auth API (getUserTeams, etc.)
     mockAuthApi.listOrganizations.mockResolvedValue([
       { id: 'team-1', name: 'Team 1', slug: 'team-1', createdAt: '2024-01-01T00:00:00.000Z' },
@@ -592,6 +609,139 @@ describe('server/utils/team', () => {
     })
   })
 
+  describe('requireCollectionPermission', () => {
+    const withRole = (role: string) => {
+      mockMemberRows = [{
+        id: 'member-1', organizationId: 'team-1', userId: 'user-1', role, createdAt: '2024-01-01T00:00:00.000Z'
+      }]
+    }
+
+    it('should scope built-in member edits to their own rows', async () => {
+      const event = createMockEvent()
+
+      await expect(requireCollectionPermission(event, 'shopProducts', 'read')).resolves.toMatchObject({ scope: 'all' })
+      await expect(requireCollectionPermission(event, 'shopProducts', 'update')).resolves.toMatchObject({ scope: 'own' })
+    })
+
+    it('should enforce a team-defined role', async () => {
+      withRole('volunteer')
+      mockTeamSettingsRows = [{
+        roleSettings: { roles: [{ key: 'volunteer', name: 'Volunteer', defaults: { read: true } }] }
+      }]
+
+      const event = createMockEvent()
+      const context = await requireCollectionPermission(event, 'shopProducts', 'read')
+
+      expect(context.scope).toBe('all')
+      expect(context.team.id).toBe('team-1')
+      await expect(requireCollectionPermission(event, 'shopProducts', 'create')).rejects.toThrow('Your role can\'t create shopProducts')
+    })
+
+    it('should deny a role the team no longer defines', async () => {
+      withRole('volunteer')
+
+      const event = createMockEvent()
+      await expect(requireCollectionPermission(event, 'shopProducts', 'read')).rejects.toThrow('Your role can\'t read shopProducts')
+    })
+
+    it('should let admins do everything', async () => {
+      withRole('admin')
+      mockTeamSettingsRows = [{
+        roleSettings: { roles: [{ key: 'member', name: 'Member', defaults: {} }] }
+      }]
+
+      const event = createMockEvent()
+      await expect(requireCollectionPermission(event, 'shopProducts', 'delete')).resolves.toMatchObject({ scope: 'all' })
+    })
+
+    it('should describe the member for row policies', async () => {
+      const event = createMockEvent()
+      const context = await requireCollectionPermission(event, 'shopProducts', 'read')
+
+      expect(context.policy).toEqual({ userId: 'user-1', memberId: 'member-1', role: 'member' })
+    })
+
+    describe('with an API key', () => {
+      const key = {
+        id: 'key-1',
+        organizationId: 'team-1',
+        name: 'Nightly ETL',
+        scopes: ['shopOrders:read', '*:export'],
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-01T00:00:00.000Z')
+      }
+
+      it('should allow what its scopes name, without a session', async () => {
+        mockValidateApiKey.mockResolvedValue(key)
+
+        const event = createMockEvent()
+        const context = await requireCollectionPermission(event, 'shopOrders', 'read')
+
+        expect(mockRequireServerSession).not.toHaveBeenCalled()
+        expect(context.scope).toBe('all')
+        expect(context.user.id).toBe('key-1')
+        expect(context.apiKey).toEqual({ id: 'key-1', name: 'Nightly ETL', scopes: ['shopOrders:read', '*:export'] })
+        expect(context.policy).toEqual({ userId: 'key-1', memberId: 'key-1', role: 'api-key' })
+        await expect(requireCollectionPermission(event, 'shopProducts', 'export')).resolves.toMatchObject({ scope: 'all' })
+        await expect(requireCollectionPermission(event, 'shopOrders', 'delete')).rejects.toThrow('This API key has no shopOrders:delete scope')
+      })
+
+      it('should not be accepted by routes that don\'t check scopes', async () => {
+        mockValidateApiKey.mockResolvedValue(key)
+        mockRequireServerSession.mockRejectedValue(
+          Object.assign(new Error('Unauthorized'), { statusCode: 401 })
+        )
+
+        await expect(resolveTeamAndCheckMembership(createMockEvent())).rejects.toThrow('Unauthorized')
+        await expect(requireTeamAdmin(createMockEvent())).rejects.toThrow('Unauthorized')
+        expect(mockValidateApiKey).not.toHaveBeenCalled()
+      })
+
+      it('should reject a key of another team', async () => {
+        mockValidateApiKey.mockResolvedValue({ ...key, organizationId: 'team-2' })
+
+        const event = createMockEvent({ context: { params: { id: 'team-1' } } })
+        await expect(requireCollectionPermission(event, 'shopOrders', 'read')).rejects.toThrow('API key was issued by another team')
+      })
+    })
+  })
+
+  describe('resolveScopedCollectionAccess', () => {
+    const token = {
+      organizationId: 'team-1',
+      resourceType: 'order',
+      resourceId: 'order-1',
+      role: 'guest'
+    }
+
+    // team.ts reads the [id] route param through h3
+    const tokenEvent = () => createMockEvent({ context: { params: { id: 'team-1' } } })
+
+    it('should let a token of a named resource type read for its team', async () => {
+      mockValidateScopedToken.mockResolvedValue(token)
+
+      const access = await resolveScopedCollectionAccess(tokenEvent(), ['order'])
+
+      expect(access?.team.id).toBe('team-1')
+      expect(access?.user).toBeNull()
+      expect(access?.policy).toEqual({ token: { resourceType: 'order', resourceId: 'order-1', role: 'guest' } })
+    })
+
+    it('should leave other requests to the member session', async () => {
+      mockValidateScopedToken.mockResolvedValue(null)
+      await expect(resolveScopedCollectionAccess(tokenEvent(), ['order'])).resolves.toBeNull()
+
+      mockValidateScopedToken.mockResolvedValue({ ...token, resourceType: 'event' })
+      await expect(resolveScopedCollectionAccess(tokenEvent(), ['order'])).resolves.toBeNull()
+    })
+
+    it('should reject a token issued by another team', async () => {
+      mockValidateScopedToken.mockResolvedValue({ ...token, organizationId: 'team-2' })
+
+      await expect(resolveScopedCollectionAccess(tokenEvent(), ['order'])).rejects.toThrow('Access token was issued by another team')
+    })
+  })
+
   describe('requireTeamOwner', () => {
     it('should pass for owner role', async () => {
       mockMemberRows = [{
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canAccessRow,
+  resolveApiKeyPermissions,
+  resolveCollectionPermissions,
+  validateApiKeyScopes,
+  validateTeamRoles,
+  FULL_COLLECTION_PERMISSIONS,
+  MEMBER_COLLECTION_PERMISSIONS,
+  type TeamRoleSettings
+} from '../../../shared/utils/collection-permissions'
+
+const settings: TeamRoleSettings = {
+  roles: [
+    {
+      key: 'volunteer',
+      name: 'Volunteer',
+      defaults: { read: true },
+      collections: { shopOrders: { read: 'own', create: true } }
+    },
+    { key: 'member', name: 'Member', defaults: { read: true, export: false } }
+  ]
+}
+
+describe('resolveCollectionPermissions', () => {
+  it('gives owners and admins everything, whatever the settings say', () => {
+    expect(resolveCollectionPermissions('owner', 'shopOrders', settings)).toEqual(FULL_COLLECTION_PERMISSIONS)
+    expect(resolveCollectionPermissions('admin', 'shopOrders', { roles: [{ key: 'admin', name: 'Admin' }] })).toEqual(FULL_COLLECTION_PERMISSIONS)
+  })
+
+  it('uses the built-in member permissions unless the team redefines member', () => {
+    expect(resolveCollectionPermissions('member', 'shopProducts')).toEqual(MEMBER_COLLECTION_PERMISSIONS)
+    expect(resolveCollectionPermissions('member', 'shopProducts', settings)).toEqual({
+      read: true, create: false, update: false, delete: false, export: false
+    })
+  })
+
+  it('applies a role\'s defaults, then its collection entry', () => {
+    expect(resolveCollectionPermissions('volunteer', 'shopProducts', settings)).toEqual({
+      read: true, create: false, update: false, delete: false, export: false
+    })
+    expect(resolveCollectionPermissions('volunteer', 'shopOrders', settings)).toEqual({
+      read: 'own', create: true, update: false, delete: false, export: false
+    })
+  })
+
+  it('denies roles the team doesn\'t define', () => {
+    expect(resolveCollectionPermissions('volunteer', 'shopProducts')).toEqual({
+      read: false, create: false, update: false, delete: false, export: false
+    })
+    expect(resolveCollectionPermissions(null, 'shopProducts', settings).read).toBe(false)
+  })
+})
+
+describe('canAccessRow', () => {
+  it('matches own rows on owner, falling back to createdBy', () => {
+    expect(canAccessRow('own', { owner: 'user-1' }, 'user-1')).toBe(true)
+    expect(canAccessRow('own', { owner: 'user-2', createdBy: 'user-1' }, 'user-1')).toBe(false)
+    expect(canAccessRow('own', { createdBy: 'user-1' }, 'user-1')).toBe(true)
+    expect(canAccessRow('own', { owner: 'user-1' }, null)).toBe(false)
+  })
+
+  it('passes booleans through', () => {
+    expect(canAccessRow(true, null, null)).toBe(true)
+    expect(canAccessRow(false, { owner: 'user-1' }, 'user-1')).toBe(false)
+  })
+})
+
+describe('validateTeamRoles', () => {
+  it('accepts lowercase keys and a member override', () => {
+    expect(validateTeamRoles(settings.roles)).toEqual([])
+  })
+
+  it('rejects bad, reserved and duplicate keys', () => {
+    expect(validateTeamRoles([
+      { key: 'Volunteer', name: 'Volunteer' },
+      { key: 'admin', name: 'Admin' },
+      { key: 'api-key', name: 'Robots' },
+      { key: 'helper', name: 'Helper' },
+      { key: 'helper', name: 'Helper 2' }
+    ])).toEqual([
+      'Role key "Volunteer" must be lowercase letters, digits, - or _',
+      'The admin role can\'t be redefined',
+      'The api-key role is reserved for API keys',
+      'Role key "helper" is used twice'
+    ])
+  })
+})
+
+describe('resolveApiKeyPermissions', () => {
+  it('grants the actions its scopes name, on every row', () => {
+    const scopes = ['shopOrders:read', 'shopOrders:update', '*:export']
+    expect(resolveApiKeyPermissions(scopes, 'shopOrders')).toEqual({
+      read: true, create: false, update: true, delete: false, export: true
+    })
+    expect(resolveApiKeyPermissions(scopes, 'shopProducts')).toEqual({
+      read: false, create: false, update: false, delete: false, export: true
+    })
+    expect(resolveApiKeyPermissions(['shopProducts:*'], 'shopProducts')).toEqual(FULL_COLLECTION_PERMISSIONS)
+  })
+})
+
+describe('validateApiKeyScopes', () => {
+  it('accepts collection:action with wildcards', () => {
+    expect(validateApiKeyScopes(['shopOrders:read', '*:export', 'shop-products:*'])).toEqual([])
+  })
+
+  it('rejects empty lists and malformed scopes', () => {
+    expect(validateApiKeyScopes([])).toEqual(['An API key needs at least one scope'])
+    expect(validateApiKeyScopes(['shopOrders', 'shopOrders:write'])).toEqual([
+      'Scope "shopOrders" must be collection:action, e.g. "shopOrders:read" or "*:export"',
+      'Scope "shopOrders:write" must be collection:action, e.g. "shopOrders:read" or "*:export"'
+    ])
+  })
+})
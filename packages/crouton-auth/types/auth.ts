@@ -125,9 +125,10 @@ export interface TeamWithStats extends Team {
 // ============================================================================
 
 /**
- * Team member role
+ * Team member role: a built-in one, or the key of a team-defined role
+ * (see shared/utils/collection-permissions)
  */
-export type MemberRole = 'owner' | 'admin' | 'member'
+export type MemberRole = 'owner' | 'admin' | 'member' | (string & {})
 
 /**
  * Team membership
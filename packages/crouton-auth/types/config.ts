@@ -128,6 +128,22 @@ export interface MagicLinkConfig {
   expiresIn?: number
 }
 
+/**
+ * Team single sign-on configuration
+ *
+ * Lets a team bring its own OpenID Connect identity provider. Providers are
+ * configured per team (Team settings → Single sign-on), not here.
+ */
+export interface SsoConfig {
+  /** Enable team single sign-on */
+  enabled?: boolean
+  /**
+   * Require DNS proof of the email domain before a provider is used
+   * (default: true). Only turn off for local testing against a mock provider.
+   */
+  requireDomainVerification?: boolean
+}
+
 /**
  * Phone/SMS authentication configuration
  */
@@ -166,6 +182,11 @@ export interface AuthMethodsConfig {
    * Set to `true` for defaults, `false` to disable, or configure options
    */
   magicLink?: boolean | MagicLinkConfig
+  /**
+   * Team single sign-on (OpenID Connect) with discovery by email domain
+   * Set to `true` for defaults, `false` to disable, or configure options
+   */
+  sso?: boolean | SsoConfig
   /**
    * Phone/SMS authentication
    * Set to `true` for defaults, `false` to disable, or configure options
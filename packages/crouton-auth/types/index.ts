@@ -24,6 +24,7 @@ export type {
   PasskeyConfig,
   TwoFactorConfig,
   MagicLinkConfig,
+  SsoConfig,
   PhoneConfig,
   AuthMethodsConfig,
   // Teams
@@ -57,6 +57,7 @@ const generate = defineCommand({
     count: { type: 'string', description: 'Number of seed records (default: 25)', default: '25' },
     tests: { type: 'boolean', description: 'Generate a per-collection schema-smoke test (use --no-tests to skip)', default: true },
     noAutoMerge: { type: 'boolean', description: 'Skip auto-merging package collections from manifests' },
+    merge: { type: 'boolean', description: 'Merge hand edits into regenerated files (use --no-merge to overwrite them)', default: true },
   },
   async run({ args }) {
     // If --config is provided, delegate to config mode
@@ -68,6 +69,7 @@ const generate = defineCommand({
         dryRun: args.dryRun,
         noTests: args.tests === false,
         noAutoMerge: args.noAutoMerge,
+        noMerge: args.merge === false,
       })
       return
     }
@@ -83,6 +85,7 @@ const generate = defineCommand({
           dryRun: args.dryRun,
           noTests: args.tests === false,
           noAutoMerge: args.noAutoMerge,
+          noMerge: args.merge === false,
         })
         return
       }
@@ -116,6 +119,7 @@ const generate = defineCommand({
       seed: args.seed,
       seedCount: parseInt(args.count || '25', 10),
       noTests: args.tests === false,
+      noMerge: args.merge === false,
     })
   }
 })
@@ -131,6 +135,7 @@ const configCmd = defineCommand({
     force: { type: 'boolean', description: 'Force generation' },
     tests: { type: 'boolean', description: 'Generate per-collection schema-smoke tests (use --no-tests to skip)', default: true },
     noAutoMerge: { type: 'boolean', description: 'Skip auto-merging package collections' },
+    merge: { type: 'boolean', description: 'Merge hand edits into regenerated files (use --no-merge to overwrite them)', default: true },
   },
   async run({ args }) {
     let configPath = args.configPath
@@ -147,6 +152,7 @@ const configCmd = defineCommand({
       only: args.only,
       noTests: args.tests === false,
       noAutoMerge: args.noAutoMerge,
+      noMerge: args.merge === false,
     })
   }
 })
@@ -469,6 +475,179 @@ const dbPullCmd = defineCommand({
   }
 })
 
+// ─── migrate ────────────────────────────────────────────────────
+
+const migrateCmd = defineCommand({
+  meta: { name: 'migrate', description: 'Diff collection schemas against the local SQLite/D1 database and write a reviewed migration + rollback' },
+  args: {
+    config: { type: 'string', alias: 'c', description: 'Config file path (default: crouton.config.*)' },
+    db: { type: 'string', description: 'SQLite database file (default: .data/db/sqlite.db, then the local D1 state)' },
+    only: { type: 'string', description: 'Migrate only this collection' },
+    rename: { type: 'string', description: 'Renamed columns, comma-separated: old:new or collection.old:new' },
+    allowDrop: { type: 'boolean', description: 'Drop columns that are no longer in the schema (their data is lost)' },
+    yes: { type: 'boolean', alias: 'y', description: 'Don\'t ask about likely renames (only --rename pairs are renamed)' },
+    out: { type: 'string', description: 'Migrations directory (default: server/db/migrations/sqlite)' },
+    dryRun: { type: 'boolean', description: 'Print the migration without writing files' }
+  },
+  async run({ args }) {
+    const { migrate } = await tsImport(join(__dirname, '..', 'lib', 'migrate.ts'))
+    try {
+      await migrate({
+        config: args.config,
+        db: args.db,
+        only: args.only,
+        rename: args.rename,
+        allowDrop: args.allowDrop,
+        yes: args.yes,
+        out: args.out,
+        dryRun: args.dryRun
+      })
+    } catch (error) {
+      consola.error(error.message)
+      process.exit(1)
+    }
+  }
+})
+
+// ─── introspect ─────────────────────────────────────────────────
+
+const introspectCmd = defineCommand({
+  meta: { name: 'introspect', description: 'Write collection schemas and crouton.config entries from an existing SQLite/Postgres database' },
+  args: {
+    source: { type: 'positional', description: 'SQLite file or postgres:// connection URL', required: true },
+    layer: { type: 'string', alias: 'l', description: 'Target layer for the collections', required: true },
+    schema: { type: 'string', description: 'Postgres schema (default: public)' },
+    tables: { type: 'string', description: 'Only these tables, comma-separated' },
+    exclude: { type: 'string', description: 'Skip these tables, comma-separated' },
+    out: { type: 'string', description: 'Schemas directory (default: ./schemas)' },
+    config: { type: 'string', alias: 'c', description: 'Config file to add the collections to (default: ./crouton.config.js)' },
+    force: { type: 'boolean', alias: 'f', description: 'Overwrite existing schema files' },
+    dryRun: { type: 'boolean', description: 'Print the schemas without writing files' }
+  },
+  async run({ args }) {
+    const { introspect } = await tsImport(join(__dirname, '..', 'lib', 'introspect.ts'))
+    try {
+      await introspect({
+        source: args.source,
+        layer: args.layer,
+        schema: args.schema,
+        tables: args.tables,
+        exclude: args.exclude,
+        out: args.out,
+        config: args.config,
+        force: args.force,
+        dryRun: args.dryRun
+      })
+    } catch (error) {
+      consola.error(error.message)
+      process.exit(1)
+    }
+  }
+})
+
+// ─── openapi ────────────────────────────────────────────────────
+
+const openapiCmd = defineCommand({
+  meta: { name: 'openapi', description: 'Write the OpenAPI 3.1 document of the generated collection endpoints' },
+  args: {
+    out: { type: 'string', alias: 'o', description: 'Output file (default: ./openapi.json)' },
+    title: { type: 'string', description: 'Document title (default: package.json name)' },
+    version: { type: 'string', description: 'Document version (default: package.json version)' }
+  },
+  async run({ args }) {
+    const { exportOpenApi } = await tsImport(join(__dirname, '..', 'lib', 'openapi.ts'))
+    try {
+      await exportOpenApi({ out: args.out, title: args.title, version: args.version })
+    } catch (error) {
+      consola.error(error.message)
+      process.exit(1)
+    }
+  }
+})
+
+// ─── sdk ────────────────────────────────────────────────────────
+
+const sdkCmd = defineCommand({
+  meta: { name: 'sdk', description: 'Generate a typed, framework-agnostic client package for the collection endpoints' },
+  args: {
+    out: { type: 'string', alias: 'o', description: 'Package directory (default: crouton.config sdk.outDir or ./sdk)' },
+    name: { type: 'string', description: 'Package name (default: <app name>-sdk)' }
+  },
+  async run({ args }) {
+    const { exportSdk } = await tsImport(join(__dirname, '..', 'lib', 'sdk.ts'))
+    try {
+      await exportSdk({ outDir: args.out, name: args.name })
+    } catch (error) {
+      consola.error(error.message)
+      process.exit(1)
+    }
+  }
+})
+
+// ─── templates ──────────────────────────────────────────────────
+
+const templatesEjectCmd = defineCommand({
+  meta: { name: 'eject', description: 'Copy a built-in generator to templates/ as a starting point for an override' },
+  args: {
+    generator: { type: 'positional', description: 'Generator: form, list, api, composable, queries, types', required: true },
+    dir: { type: 'string', description: 'Templates directory (default: ./templates)' },
+    force: { type: 'boolean', alias: 'f', description: 'Overwrite an existing template' }
+  },
+  async run({ args }) {
+    const { ejectTemplate } = await tsImport(join(__dirname, '..', 'lib', 'eject-template.ts'))
+    try {
+      ejectTemplate(args.generator, { dir: args.dir, force: args.force })
+    } catch (error) {
+      consola.error(error.message)
+      process.exit(1)
+    }
+  }
+})
+
+const templatesListCmd = defineCommand({
+  meta: { name: 'list', description: 'List the generators templates can replace, and the active overrides' },
+  async run() {
+    const { listTemplates } = await tsImport(join(__dirname, '..', 'lib', 'eject-template.ts'))
+    await listTemplates()
+  }
+})
+
+const templatesCmd = defineCommand({
+  meta: { name: 'templates', description: 'Manage per-project generator templates' },
+  subCommands: {
+    eject: templatesEjectCmd,
+    list: templatesListCmd
+  }
+})
+
+// ─── audit ───────────────────────────────────────────────────────
+
+const auditVerifyCmd = defineCommand({
+  meta: { name: 'verify', description: 'Check the audit hash chain of an export bundle, or of the local database' },
+  args: {
+    file: { type: 'positional', description: 'Signed export bundle (default: check the local database)', required: false },
+    db: { type: 'string', description: 'SQLite database file (default: .data/db/sqlite.db, then the local D1 state)' },
+    secret: { type: 'string', description: 'Signing secret (default: NUXT_CROUTON_EVENTS_SIGNING_SECRET)' }
+  },
+  async run({ args }) {
+    const { auditVerify } = await tsImport(join(__dirname, '..', 'lib', 'audit-verify.ts'))
+    try {
+      const valid = await auditVerify({ file: args.file, db: args.db, secret: args.secret })
+      if (!valid) process.exit(1)
+    } catch (error) {
+      consola.error(error.message)
+      process.exit(1)
+    }
+  }
+})
+
+const auditCmd = defineCommand({
+  meta: { name: 'audit', description: 'Audit log tools (crouton-events)' },
+  subCommands: {
+    verify: auditVerifyCmd
+  }
+})
+
 // ─── deploy-setup ─────────────────────────────────────────────────
 
 const deploySetupCmd = defineCommand({
@@ -525,6 +704,12 @@ const main = defineCommand({
     'scaffold-app': scaffoldAppCmd,
     'seed-translations': seedTranslationsCmd,
     'db-pull': dbPullCmd,
+    'migrate': migrateCmd,
+    'introspect': introspectCmd,
+    'openapi': openapiCmd,
+    'sdk': sdkCmd,
+    'templates': templatesCmd,
+    'audit': auditCmd,
   },
 })
 
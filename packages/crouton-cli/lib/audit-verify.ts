@@ -0,0 +1,137 @@
+// audit-verify.ts — Check the crouton-events audit hash chain: a signed export
+// bundle (GET .../crouton-events/export?format=bundle) offline, or every
+// team's chain in the local SQLite/D1 database. Reports the first broken link.
+import { readFileSync } from 'node:fs'
+import { relative, resolve } from 'node:path'
+import consola from 'consola'
+import {
+  verifyAuditBundle,
+  verifyAuditChainRows,
+  type AuditBundle,
+  type AuditChainBreak,
+  type AuditChainRow
+} from '@fyit/crouton-core/shared/utils/audit-chain'
+
+import { resolveDatabase, sqliteQuery } from './migrate.ts'
+import { sqlString } from './utils/schema-diff.ts'
+
+/** Rows read per query from the local database */
+const PAGE_SIZE = 2000
+
+interface AuditVerifyOptions {
+  /** Export bundle to check; without it, the local database is checked */
+  file?: string
+  /** SQLite database file (default: .data/db/sqlite.db, then the local D1 state) */
+  db?: string
+  /** Signing secret (default: NUXT_CROUTON_EVENTS_SIGNING_SECRET) */
+  secret?: string
+}
+
+export interface TeamChainReport {
+  teamId: string
+  valid: boolean
+  checked: number
+  broken: AuditChainBreak | null
+}
+
+const REASONS: Record<AuditChainBreak['reason'], string> = {
+  'missing-row': 'rows before it were removed',
+  'broken-link': 'its prevHash does not match the previous row',
+  'hash-mismatch': 'it was changed after it was written'
+}
+
+export function describeBreak(broken: AuditChainBreak): string {
+  return `first broken link at seq ${broken.seq} (event ${broken.id}): ${REASONS[broken.reason]}`
+}
+
+/** A crouton_events row as read through the sqlite3 CLI */
+export function auditRowFromSqlite(row: Record<string, any>): AuditChainRow {
+  return {
+    id: row.id,
+    timestamp: row.timestamp * 1000,
+    operation: row.operation,
+    collectionName: row.collection_name,
+    itemId: row.item_id,
+    teamId: row.team_id,
+    userId: row.user_id,
+    userName: row.user_name,
+    changes: row.changes ? JSON.parse(row.changes) : [],
+    correlationId: row.correlation_id,
+    metadata: row.metadata ? JSON.parse(row.metadata) : null,
+    seq: row.seq,
+    prevHash: row.prev_hash,
+    hash: row.hash
+  }
+}
+
+/**
+ * Verify every team's chain in a local database, from its latest checkpoint
+ */
+export async function verifyDatabaseChains(db: string): Promise<TeamChainReport[]> {
+  const teams = sqliteQuery(db, 'SELECT DISTINCT team_id FROM crouton_events WHERE seq IS NOT NULL ORDER BY team_id')
+  const hasCheckpoints = sqliteQuery(db, 'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = \'crouton_event_checkpoints\'').length > 0
+  const reports: TeamChainReport[] = []
+
+  for (const { team_id: teamId } of teams) {
+    const [checkpoint] = hasCheckpoints
+      ? sqliteQuery(db, `SELECT seq, hash FROM crouton_event_checkpoints WHERE team_id = ${sqlString(teamId)} ORDER BY seq DESC LIMIT 1`)
+      : []
+    let head = checkpoint ?? null
+    let checked = 0
+    let broken: AuditChainBreak | null = null
+
+    for (;;) {
+      const rows = sqliteQuery(db, `SELECT * FROM crouton_events WHERE team_id = ${sqlString(teamId)} AND seq > ${Number(head?.seq ?? 0)} ORDER BY seq LIMIT ${PAGE_SIZE}`)
+      const result = await verifyAuditChainRows(rows.map(auditRowFromSqlite), head)
+      checked += result.checked
+      head = result.head
+      broken = result.broken
+      if (broken || rows.length < PAGE_SIZE) break
+    }
+
+    reports.push({ teamId, valid: !broken, checked, broken })
+  }
+
+  return reports
+}
+
+/**
+ * Verify a bundle or the local database and print the result. Resolves to
+ * whether everything checked out.
+ */
+export async function auditVerify(options: AuditVerifyOptions = {}): Promise<boolean> {
+  if (options.file) {
+    const file = resolve(options.file)
+    const bundle = JSON.parse(readFileSync(file, 'utf-8')) as AuditBundle
+    const secret = options.secret || process.env.NUXT_CROUTON_EVENTS_SIGNING_SECRET
+    const result = await verifyAuditBundle(bundle, secret)
+
+    consola.info(`Bundle: ${relative(process.cwd(), file) || file} (team ${bundle.teamId}, exported ${bundle.exportedAt})`)
+    if (result.signature === 'invalid') consola.error('Signature does not match: the bundle was changed or signed with another secret')
+    if (result.signature === 'unchecked') consola.warn('Signature not checked: pass --secret or set NUXT_CROUTON_EVENTS_SIGNING_SECRET')
+    if (result.broken) {
+      consola.error(`Chain: ${describeBreak(result.broken)}`)
+    } else {
+      consola.success(`Chain: ${result.checked} events verified${result.head ? `, head seq ${result.head.seq} ${result.head.hash}` : ''}`)
+    }
+    if (bundle.next) consola.info(`More events follow: export again with ?format=bundle&fromSeq=${bundle.next}`)
+    return result.valid
+  }
+
+  const db = resolveDatabase(options.db)
+  consola.info(`Database: ${relative(process.cwd(), db) || db}`)
+  const reports = await verifyDatabaseChains(db)
+  if (reports.length === 0) {
+    consola.warn('No chained events found. Is runtimeConfig.croutonEvents.hashChain on?')
+    return true
+  }
+
+  for (const report of reports) {
+    if (report.broken) {
+      consola.error(`Team ${report.teamId}: ${describeBreak(report.broken)}`)
+    } else {
+      consola.success(`Team ${report.teamId}: ${report.checked} events verified`)
+    }
+  }
+  return reports.every(report => report.valid)
+}
@@ -23,9 +23,9 @@ interface DbPullOptions {
 }
 
 const SEED_FILE = '.db-pull-seed.sql'
-const LOCAL_D1_DIR = '.wrangler/state/v3/d1/miniflare-D1DatabaseObject'
+export const LOCAL_D1_DIR = '.wrangler/state/v3/d1/miniflare-D1DatabaseObject'
 const NUXTHUB_DB_DIR = '.data/db'
-const NUXTHUB_DB_FILE = '.data/db/sqlite.db'
+export const NUXTHUB_DB_FILE = '.data/db/sqlite.db'
 
 /**
  * Detect wrangler config file in cwd or use provided path.
@@ -138,7 +138,7 @@ function getD1Database(config: WranglerConfig, envName?: string): D1Database {
 /**
  * Find the local SQLite database file.
  */
-function findLocalDb(d1Dir: string): string {
+export function findLocalDb(d1Dir: string): string {
   if (!existsSync(d1Dir)) {
     throw new Error(
       `Local D1 directory not found: ${d1Dir}\nRun 'pnpm dev' at least once to initialize the local database.`
@@ -0,0 +1,48 @@
+// eject-template.ts — Copy a built-in generator into the project's templates
+// directory as the starting point for an override (see utils/generator-templates.ts)
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs'
+import { dirname, join, relative, resolve } from 'node:path'
+import consola from 'consola'
+import { loadConfig } from 'c12'
+
+import { TEMPLATES_DIR, TEMPLATE_GENERATORS, ejectedTemplateSource, resolveTemplateFiles } from './utils/generator-templates.ts'
+
+interface EjectTemplateOptions {
+  /** Templates directory (default: ./templates) */
+  dir?: string
+  force?: boolean
+}
+
+export function ejectTemplate(generator: string, options: EjectTemplateOptions = {}): void {
+  const source = ejectedTemplateSource(generator)
+  const dir = resolve(options.dir || TEMPLATES_DIR)
+  const file = join(dir, `${generator}.ts`)
+  if (existsSync(file) && !options.force) {
+    throw new Error(`${relative(process.cwd(), file)} already exists (--force to overwrite)`)
+  }
+
+  mkdirSync(dir, { recursive: true })
+  writeFileSync(file, source)
+  consola.success(`Ejected ${generator} → ${relative(process.cwd(), file)}`)
+
+  const exports = TEMPLATE_GENERATORS[generator]!.exports
+  consola.box([
+    `Generation now uses ${relative(process.cwd(), file)} for:`,
+    ...exports.map(name => `  • ${name}`),
+    '',
+    ...(exports.length > 1 ? ['Remove the export of functions you don\'t change to keep their built-in version.'] : []),
+    options.dir ? `Point crouton.config.js at it: templates: '${options.dir}'` : 'Delete the file to go back to the default.'
+  ].join('\n'))
+}
+
+/** Overridable generators, and the project template replacing each (per crouton.config `templates`) */
+export async function listTemplates(): Promise<void> {
+  const { config, configFile } = await loadConfig({ name: 'crouton', cwd: process.cwd() })
+  const baseDir = configFile && existsSync(configFile) ? dirname(configFile) : process.cwd()
+  const active = resolveTemplateFiles(config?.templates, baseDir)
+  for (const [generator, definition] of Object.entries(TEMPLATE_GENERATORS)) {
+    const file = active.get(generator)
+    const status = file ? `→ ${relative(process.cwd(), file)}` : '(built-in)'
+    consola.log(`  ${generator.padEnd(11)} ${definition.description.padEnd(50)} ${status}`)
+  }
+}
@@ -9,7 +9,7 @@ import { promisify } from 'node:util'
 import { loadConfig } from 'c12'
 
 // Import utilities
-import { toCase, toSnakeCase } from './utils/helpers.ts'
+import { toCase, toSnakeCase, enumTypeName, quoteValue } from './utils/helpers.ts'
 import { loadTypeMapping, discoverManifests, getGeneratorDetectors, getGeneratorContributions } from './utils/manifest-bridge.ts'
 import type { DetectionResult, DetectedField, FormEnhancement, ListEnhancement, GeneratorContribution } from '@fyit/crouton-core/shared/manifest'
 import { detectRequiredDependencies, displayMissingDependencies, ensureLayersExtended } from './utils/module-detector.ts'
@@ -17,8 +17,11 @@ import { setupCroutonCssSource, displayManualCssSetupInstructions } from './util
 import { syncFrameworkPackages, addToNuxtConfigExtends, addRuntimeConfig } from './utils/update-nuxt-config.ts'
 import { addNamedSchemaExport } from './utils/update-schema-index.ts'
 import { addToAppConfig, resolveAppConfigPath } from './utils/update-app-config.ts'
-import { loadFields } from './utils/load-fields.ts'
+import { loadFields, loadRowPolicies } from './utils/load-fields.ts'
+import type { RowPolicy } from './utils/row-policies.ts'
 import { validateConfig } from './utils/validate-config.ts'
+import { BASELINE_FILE, formatFileResult, writeGeneratedFiles } from './utils/generation-baseline.ts'
+import { loadGenerators } from './utils/generator-templates.ts'
 import { updateLayerRootConfig, setupLayerI18n } from './utils/layer-config.ts'
 import { exportI18nSchema } from './utils/i18n-schema.ts'
 
@@ -33,11 +36,19 @@ import {
   generatePatchEndpoint,
   generateDeleteEndpoint,
   generateMoveEndpoint,
-  generateReorderEndpoint
+  generateReorderEndpoint,
+  generateRestoreEndpoint,
+  generatePurgeEndpoint,
+  generateBulkEndpoint,
+  generateExportEndpoint
 } from './generators/api-endpoints.ts'
 import { generateQueries } from './generators/database-queries.ts'
-import { generateSchema } from './generators/database-schema.ts'
+import { generateSchema, manyToManyFields, joinTableExportName } from './generators/database-schema.ts'
 import { generateTypes } from './generators/types.ts'
+import { generateComputedFields } from './generators/computed-fields.ts'
+import { isComputedField } from './utils/computed-fields.ts'
+import { generateValidationRules } from './generators/validation-rules.ts'
+import { applyFieldRules, refineRules, ruleMessage } from './utils/validation-rules.ts'
 import { generateNuxtConfig } from './generators/nuxt-config.ts'
 import { generateCollectionTest } from './generators/collection-test.ts'
 import { generateApiTest } from './generators/api-test.ts'
@@ -47,6 +58,8 @@ import { generateSeedFile } from './generators/seed-data.ts'
 import { generateSeedFixture } from './generators/collection-seed-fixture.ts'
 import { generateCollectionTypesRegistry } from './generators/collection-types-registry.ts'
 import { generateQueryRegistryFile } from './generators/query-registry.ts'
+import { generateOpenApiRegistryFile } from './generators/openapi-registry.ts'
+import { SDK_DIR, generateSdk, sdkOptionsFromConfig } from './sdk.ts'
 
 const execAsync = promisify(exec)
 
@@ -57,6 +70,8 @@ const execAsync = promisify(exec)
 interface GenerationHistoryEntry {
   collection: string
   fields: string[]
+  /** Field changes since the previous generation (`+ price (decimal)`, `- legacy`) */
+  schemaChanges?: string[]
   generator: string
   timestamp: string
   layer?: string
@@ -111,6 +126,7 @@ interface WriteScaffoldOptions {
   layer: string
   collection: string
   fields: Field[]
+  policies?: RowPolicy[]
   dialect: string
   autoRelations: boolean
   dryRun: boolean
@@ -123,6 +139,7 @@ interface WriteScaffoldOptions {
   seed?: boolean
   seedCount?: number
   noTests?: boolean
+  noMerge?: boolean
 }
 
 interface RunConfigOptions {
@@ -132,6 +149,7 @@ interface RunConfigOptions {
   only?: string
   noAutoMerge?: boolean
   noTests?: boolean
+  noMerge?: boolean
 }
 
 interface RunGenerateOptions {
@@ -148,6 +166,7 @@ interface RunGenerateOptions {
   seed?: boolean
   seedCount?: number
   noTests?: boolean
+  noMerge?: boolean
 }
 
 // ---------------------------------------------------------------------------
@@ -337,15 +356,18 @@ function runListContributions(
 
 // parseArgs() removed in Phase 5 — args now passed as options from citty entry point
 
-// Build the schema export names for a collection (layer-prefixed)
-function buildSchemaExportNames(collectionName: string, layer: string) {
+// Build the schema export names for a collection (layer-prefixed). exportNames
+// also lists the join tables of many-to-many fields, which live in the same file.
+function buildSchemaExportNames(collectionName: string, layer: string, fields: Field[] = []) {
   const cases = toCase(collectionName)
   const layerCamelCase = layer
     .split(/[-_]/)
     .map((part, index) => index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1))
     .join('')
+  const exportName = `${layerCamelCase}${cases.pascalCasePlural}`
   return {
-    exportName: `${layerCamelCase}${cases.pascalCasePlural}`,
+    exportName,
+    exportNames: [exportName, ...manyToManyFields(fields).filter(f => f.refTarget).map(f => joinTableExportName(exportName, f.name))],
     importPath: `../../layers/${layer}/collections/${cases.plural}/server/database/schema`,
     schemaIndexPath: path.resolve('server', 'db', 'schema.ts')
   }
@@ -353,7 +375,7 @@ function buildSchemaExportNames(collectionName: string, layer: string) {
 
 // Create database table using Drizzle
 async function createDatabaseTable(config: { name: string; layer: string; fields?: Field[]; force?: boolean }): Promise<boolean> {
-  const { name, layer, force = false } = config
+  const { name, layer, fields, force = false } = config
   const cases = toCase(name)
 
   try {
@@ -369,8 +391,8 @@ async function createDatabaseTable(config: { name: string; layer: string; fields
 
     // First, update the schema index to include the new collection
     console.log(`↻ Updating schema index...`)
-    const { exportName, importPath: schemaImportPath, schemaIndexPath } = buildSchemaExportNames(name, layer)
-    const schemaResult = await addNamedSchemaExport(schemaIndexPath, exportName, schemaImportPath, force)
+    const { exportName, exportNames, importPath: schemaImportPath, schemaIndexPath } = buildSchemaExportNames(name, layer, fields)
+    const schemaResult = await addNamedSchemaExport(schemaIndexPath, exportNames, schemaImportPath, force)
     const schemaUpdated = schemaResult.added || schemaResult.reason === 'already exported'
 
     if (!schemaUpdated) {
@@ -446,10 +468,12 @@ function buildGeneratorData(params: {
   hierarchy: { enabled: boolean; parentField?: string; orderField?: string; pathField?: string; depthField?: string }
   sortable: { enabled: boolean; orderField?: string }
   collab: { enabled: boolean }
+  softDelete: { enabled: boolean }
+  policies?: RowPolicy[]
   config: Record<string, any> | null
   collectionConfig: Record<string, any> | null
 }) {
-  const { layer, collection, fields, hierarchy, sortable, collab, config, collectionConfig } = params
+  const { layer, collection, fields, hierarchy, sortable, collab, softDelete, policies = [], config, collectionConfig } = params
   const cases = toCase(collection)
   const layerPascalCase = layer
     .split(/[-_]/)
@@ -463,8 +487,9 @@ function buildGeneratorData(params: {
   const fieldsSchema = (() => {
     const translatableFieldNames = config?.translations?.collections?.[cases.plural] || []
     const hierarchyFieldNames = hierarchy?.enabled ? ['parentId', 'path', 'depth', 'order'] : []
+    // Computed fields aren't accepted from clients — the server derives them
     const regularFieldsSchema = fields
-      .filter(f => f.name !== 'id' && !translatableFieldNames.includes(f.name) && !hierarchyFieldNames.includes(f.name))
+      .filter(f => f.name !== 'id' && !translatableFieldNames.includes(f.name) && !hierarchyFieldNames.includes(f.name) && !isComputedField(f))
       .map((f) => {
         const isDependentField = (f.meta?.dependsOn && f.meta?.dependsOnCollection) || f.meta?.displayAs === 'slotButtonGroup'
         const hasRepeaterProperties = f.type === 'repeater' && (f.meta?.translatableProperties || f.meta?.properties)
@@ -476,14 +501,17 @@ function buildGeneratorData(params: {
           const itemSchemaName = `${layerCamelCase}${cases.pascalCasePlural}${fieldPascalCase}ItemSchema`
           baseZod = `z.array(${itemSchemaName})`
         }
+        // min/max/pattern/format from the schema (see utils/validation-rules.ts)
+        baseZod = applyFieldRules(f, baseZod)
+        const requiredMessage = quoteValue(ruleMessage(f, 'required', `${f.name} is required`))
         if (f.meta?.required) {
-          if (isDependentField) {
-            return `${f.name}: ${baseZod}.min(1, '${f.name} is required')`
+          if (isDependentField || f.type === 'references') {
+            return `${f.name}: ${baseZod}.min(1, ${requiredMessage})`
           } else if (f.type === 'date') {
             // z.coerce.date() (no Zod-3 `required_error`, which is invalid in Zod 4)
             return `${f.name}: ${baseZod}`
           } else if (f.type === 'string' || f.type === 'text') {
-            return `${f.name}: ${baseZod}.min(1, '${f.name} is required')`
+            return `${f.name}: ${baseZod}.min(1, ${requiredMessage})`
           } else if (f.type === 'number' || f.type === 'decimal') {
             return `${f.name}: ${baseZod}`
           } else if (f.type === 'boolean') {
@@ -497,7 +525,8 @@ function buildGeneratorData(params: {
           }
         } else {
           // json commonly arrives as null (empty config/metadata) — allow it.
-          const suffix = (f.meta?.nullable || f.type === 'json' || f.type === 'date') ? '.nullish()' : '.optional()'
+          // An unset enum is stored as NULL, so it round-trips as null too.
+          const suffix = (f.meta?.nullable || f.type === 'json' || f.type === 'date' || f.type === 'enum') ? '.nullish()' : '.optional()'
           return `${f.name}: ${baseZod}${suffix}`
         }
       })
@@ -540,7 +569,8 @@ ${translationsFieldSchema}
 
   const fieldsDefault = (() => {
     const hierarchyDefaultNames = hierarchy?.enabled ? ['parentId', 'path', 'depth', 'order'] : []
-    let fieldDefaults = fields.filter(f => f.name !== 'id' && !hierarchyDefaultNames.includes(f.name)).map((f) => {
+    // Computed fields aren't part of the form state (the server fills them in)
+    let fieldDefaults = fields.filter(f => f.name !== 'id' && !hierarchyDefaultNames.includes(f.name) && !isComputedField(f)).map((f) => {
       const isDependentField = (f.meta?.dependsOn && f.meta?.dependsOnCollection) || f.meta?.displayAs === 'slotButtonGroup'
       if (isDependentField) {
         return `${f.name}: null`
@@ -570,20 +600,24 @@ ${translationsFieldSchema}
     const typeLines = fields.filter(f => f.name !== 'id').map((f) => {
       const isDependentField = (f.meta?.dependsOn && f.meta?.dependsOnCollection) || f.meta?.displayAs === 'slotButtonGroup'
       let tsType = isDependentField ? 'string[] | null' : f.tsType
+      // Enum unions are emitted as a named alias next to the interface (see generateTypes)
+      if (f.type === 'enum') tsType = enumTypeName(`${layerPascalCase}${cases.pascalCase}`, f.name)
       if (f.meta?.required) {
         // Required ⇒ the zod schema enforces a present, non-null value, so the
         // interface must not widen to null (some tsTypes, e.g. date, default to
         // `T | null`). Otherwise FormData/New<Type> reject the validated body.
         tsType = tsType.replace(/\s*\|\s*null\b/g, '')
-      } else if ((f.meta?.nullable || f.type === 'json') && !tsType.includes('null')) {
-        // Non-required json/nullable fields are `.nullish()` in the zod schema
+      } else if ((f.meta?.nullable || f.type === 'json' || f.type === 'enum') && !tsType.includes('null')) {
+        // Non-required json/nullable/enum fields are `.nullish()` in the zod schema
         // (the body may be null) — the interface must allow null to match.
         tsType += ' | null'
       }
+      // Computed fields are filled in by the server (null when the math fails)
+      if (isComputedField(f) && !tsType.includes('null')) tsType += ' | null'
       // Translatable fields are validated as optional in the zod schema (the real
       // value lives in translations.<locale>; the root column is a cache/fallback) —
       // keep the interface optional to match, otherwise New<Type> rejects the body.
-      const optional = !f.meta?.required || translatableFieldNames.includes(f.name)
+      const optional = !f.meta?.required || translatableFieldNames.includes(f.name) || isComputedField(f)
       return `${f.name}${optional ? '?' : ''}: ${tsType}`
     })
     // Hierarchy system fields (parentId/path/depth/order) live in the DB schema and
@@ -625,6 +659,8 @@ ${translationsFieldSchema}
     hierarchy,
     sortable,
     collab,
+    softDelete,
+    policies,
     collectionConfig,
     display: collectionConfig?.display || null,
     publishable: collectionConfig?.publishable || false,
@@ -632,7 +668,7 @@ ${translationsFieldSchema}
   }
 }
 
-async function writeScaffold({ layer, collection, fields, dialect, autoRelations, dryRun, noDb, force = false, noTranslations = false, config = null, collectionConfig = null, hierarchy: hierarchyFlag = false, seed = false, seedCount = 25, noTests = false }: WriteScaffoldOptions): Promise<void> {
+async function writeScaffold({ layer, collection, fields, policies = [], dialect, dryRun, noDb, force = false, noTranslations = false, config = null, collectionConfig = null, hierarchy: hierarchyFlag = false, seed = false, seedCount = 25, noTests = false, noMerge = false }: WriteScaffoldOptions): Promise<void> {
   const cases = toCase(collection)
   const base = path.resolve('layers', layer, 'collections', cases.plural)
 
@@ -673,6 +709,11 @@ async function writeScaffold({ layer, collection, fields, dialect, autoRelations
     ? { enabled: true }
     : { enabled: false }
 
+  // Detect soft delete configuration (deletedAt/deletedBy columns + trash, restore and purge)
+  const softDelete = collectionConfig?.softDelete === true
+    ? { enabled: true }
+    : { enabled: false }
+
   // Handle translation configuration
   // Priority: 1) field-level meta.translatable, 2) collection-level translatable, 3) config.translations.collections
   if (!noTranslations) {
@@ -760,7 +801,7 @@ async function writeScaffold({ layer, collection, fields, dialect, autoRelations
 
   // Prepare data for all generators
   // Typed as Record<string, any> so contribution results can be attached dynamically
-  const data: Record<string, any> = buildGeneratorData({ layer, collection, fields, hierarchy, sortable, collab, config, collectionConfig })
+  const data: Record<string, any> = buildGeneratorData({ layer, collection, fields, hierarchy, sortable, collab, softDelete, policies, config, collectionConfig })
   const { layerPascalCase, layerCamelCase } = data
 
   // ── Manifest-driven detection + contributions ──────────────────────────────
@@ -844,6 +885,8 @@ async function writeScaffold({ layer, collection, fields, dialect, autoRelations
     console.log(`• ${base}/server/api/teams/[id]/${apiPath}/index.post.ts`)
     console.log(`• ${base}/server/api/teams/[id]/${apiPath}/[${cases.camelCase}Id].patch.ts`)
     console.log(`• ${base}/server/api/teams/[id]/${apiPath}/[${cases.camelCase}Id].delete.ts`)
+    console.log(`• ${base}/server/api/teams/[id]/${apiPath}/bulk.post.ts`)
+    console.log(`• ${base}/server/api/teams/[id]/${apiPath}/export.get.ts`)
     if (hierarchy.enabled) {
       console.log(`• ${base}/server/api/teams/[id]/${apiPath}/[${cases.camelCase}Id]/move.patch.ts`)
       console.log(`• ${base}/server/api/teams/[id]/${apiPath}/reorder.patch.ts`)
@@ -904,60 +947,100 @@ async function writeScaffold({ layer, collection, fields, dialect, autoRelations
 
   console.log('✓ Directory structure created')
 
+  // Collection -> layer for every configured target, so references into another
+  // layer resolve to that layer's table (queries joins, join table foreign keys)
+  const collectionLayerMap = new Map<string, string>()
+  for (const t of config?.targets ?? []) {
+    for (const c of t.collections) {
+      collectionLayerMap.set(c.toLowerCase(), t.layer)
+    }
+  }
+
+  // Built-in generators, with the project's templates (templates/ or config.templates) swapped in
+  const { generators, overrides } = await loadGenerators({
+    generateFormComponent,
+    generateListComponent,
+    generateComposable,
+    generateGetEndpoint,
+    generatePostEndpoint,
+    generatePatchEndpoint,
+    generateDeleteEndpoint,
+    generateBulkEndpoint,
+    generateExportEndpoint,
+    generateMoveEndpoint,
+    generateReorderEndpoint,
+    generateRestoreEndpoint,
+    generatePurgeEndpoint,
+    generateQueries,
+    generateTypes
+  }, config?.templates, config?._configDir ?? process.cwd())
+  if (overrides.length > 0) {
+    console.log(`✓ Using project templates: ${overrides.join(', ')}`)
+  }
+
   // Generate all files using modules
   // All endpoints now use @crouton/auth for team-based authentication
+  const computedFiles = fields.some(isComputedField)
+    ? [{ path: path.join(base, 'computed.ts'), content: generateComputedFields(data) }]
+    : []
+  const validationFiles = refineRules(fields).length > 0
+    ? [{ path: path.join(base, 'validation.ts'), content: generateValidationRules(data) }]
+    : []
+
   const files = [
     // Only generate Form.vue if no custom formComponent specified
     ...(collectionConfig?.formComponent ? [] : [{
       path: path.join(base, 'app', 'components', '_Form.vue'),
-      content: generateFormComponent(data, config)
+      content: generators.generateFormComponent(data, config)
     }]),
     {
       path: path.join(base, 'app', 'components', 'List.vue'),
-      content: generateListComponent(data, config)
+      content: generators.generateListComponent(data, config)
     },
     {
       path: path.join(base, 'app', 'composables', `use${layerPascalCase}${cases.pascalCasePlural}.ts`),
-      content: generateComposable(data, config)
+      content: generators.generateComposable(data, config)
     },
     {
       path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, 'index.get.ts'),
-      content: generateGetEndpoint(data, config)
+      content: generators.generateGetEndpoint(data, config)
     },
     {
       path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, 'index.post.ts'),
-      content: generatePostEndpoint(data, config)
+      content: generators.generatePostEndpoint(data, config)
     },
     {
       path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, `[${cases.camelCase}Id].patch.ts`),
-      content: generatePatchEndpoint(data, config)
+      content: generators.generatePatchEndpoint(data, config)
     },
     {
       path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, `[${cases.camelCase}Id].delete.ts`),
-      content: generateDeleteEndpoint(data, config)
+      content: generators.generateDeleteEndpoint(data, config)
+    },
+    {
+      path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, 'bulk.post.ts'),
+      content: generators.generateBulkEndpoint(data, config)
+    },
+    {
+      path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, 'export.get.ts'),
+      content: generators.generateExportEndpoint(data, config)
     },
     {
       path: path.join(base, 'server', 'database', 'queries.ts'),
-      content: generateQueries(data, config, layer, (() => {
-        const map = new Map<string, string>()
-        if (config?.targets) {
-          for (const t of config.targets) {
-            for (const c of t.collections) {
-              map.set(c.toLowerCase(), t.layer)
-            }
-          }
-        }
-        return map
-      })())
+      content: generators.generateQueries(data, config, layer, collectionLayerMap)
     },
     {
       path: path.join(base, 'server', 'database', 'schema.ts'),
-      content: generateSchema(data, dialect, config)
+      content: generateSchema(data, dialect, config, collectionLayerMap)
     },
     {
       path: path.join(base, 'types.ts'),
-      content: generateTypes(data, config)
+      content: generators.generateTypes(data, config)
     },
+    // Computed fields: shared by the form and the server handlers/queries
+    ...computedFiles,
+    // Cross-field validation rules: shared by the form schema and the server
+    ...validationFiles,
     {
       path: path.join(base, 'nuxt.config.ts'),
       content: generateNuxtConfig(data)
@@ -973,21 +1056,35 @@ async function writeScaffold({ layer, collection, fields, dialect, autoRelations
     files.push(
       {
         path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, `[${cases.camelCase}Id]`, 'move.patch.ts'),
-        content: generateMoveEndpoint(data, config)
+        content: generators.generateMoveEndpoint(data, config)
       },
       {
         path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, 'reorder.patch.ts'),
-        content: generateReorderEndpoint(data, config)
+        content: generators.generateReorderEndpoint(data, config)
       }
     )
   } else if (sortable.enabled) {
     // Add reorder endpoint only for sortable collections (no move endpoint needed for simple sorting)
     files.push({
       path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, 'reorder.patch.ts'),
-      content: generateReorderEndpoint(data, config)
+      content: generators.generateReorderEndpoint(data, config)
     })
   }
 
+  // Add restore/purge endpoint files when soft delete is enabled
+  if (softDelete.enabled) {
+    files.push(
+      {
+        path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, `[${cases.camelCase}Id]`, 'restore.patch.ts'),
+        content: generators.generateRestoreEndpoint(data, config)
+      },
+      {
+        path: path.join(base, 'server', 'api', 'teams', '[id]', apiPath, `[${cases.camelCase}Id]`, 'purge.delete.ts'),
+        content: generators.generatePurgeEndpoint(data, config)
+      }
+    )
+  }
+
   // Detect repeater fields and generate field components
   // These are the source fields that other collections will depend on
   const repeaterFields = fields.filter(f => f.type === 'repeater')
@@ -1071,10 +1168,27 @@ async function writeScaffold({ layer, collection, fields, dialect, autoRelations
     console.log(`  Generating ${layerPascalCase}${cases.pascalCasePlural}.api.test.ts (route handlers)`)
   }
 
-  // Write all files
-  for (const file of files) {
-    await fsp.writeFile(file.path, file.content, 'utf8')
-    console.log(`  ✓ ${path.relative(base, file.path)}`)
+  // Write all files, merging with hand edits made since the last generation
+  const report = await writeGeneratedFiles(base, files, {
+    merge: !noMerge,
+    fields: fields.map(f => ({ name: f.name, type: f.type }))
+  })
+  if (report.schemaChanges.length > 0) {
+    console.log(`↻ Schema changes since last generation: ${report.schemaChanges.join(', ')}`)
+  }
+  for (const result of report.files) {
+    console.log(formatFileResult(result))
+  }
+  for (const stale of report.stale) {
+    console.log(`  - ${stale} (no longer generated, left in place)`)
+  }
+  const conflicted = report.files.filter(result => result.status === 'conflict')
+  if (conflicted.length > 0) {
+    console.warn(`⚠️  ${conflicted.length} file(s) have merge conflicts between your edits and the new output`)
+    console.warn('   Resolve the <<<<<<< yours / >>>>>>> generated blocks before building')
+  }
+  if (!report.hadBaseline && report.files.some(result => result.status === 'overwritten')) {
+    console.log(`  No ${BASELINE_FILE} yet: edited files were overwritten. Later runs merge your edits.`)
   }
 
   // Note: team-auth utility is now provided by @fyit/crouton package
@@ -1142,6 +1256,7 @@ async function writeScaffold({ layer, collection, fields, dialect, autoRelations
       recordGenerationHistory({
         collection: cases.plural,
         fields: fields.filter(f => f.name !== 'id').map(f => f.name),
+        schemaChanges: report.schemaChanges,
         generator: 'crouton-cli',
         timestamp: new Date().toISOString(),
         layer,
@@ -1174,8 +1289,8 @@ async function runPostGeneration(opts: PostGenerationOptions): Promise<void> {
 
     // Update schema index for each collection
     for (const col of allCollections) {
-      const { exportName: colExportName, importPath: colImportPath, schemaIndexPath: colSchemaIndexPath } = buildSchemaExportNames(col.name, col.layer)
-      const colSchemaResult = await addNamedSchemaExport(colSchemaIndexPath, colExportName, colImportPath, force)
+      const { exportNames: colExportNames, importPath: colImportPath, schemaIndexPath: colSchemaIndexPath } = buildSchemaExportNames(col.name, col.layer, col.fields)
+      const colSchemaResult = await addNamedSchemaExport(colSchemaIndexPath, colExportNames, colImportPath, force)
       if (!colSchemaResult.added && colSchemaResult.reason !== 'already exported') {
         console.error(`  ✗ Failed to update schema index for ${col.name}: ${colSchemaResult.reason}`)
       }
@@ -1262,6 +1377,38 @@ async function runPostGeneration(opts: PostGenerationOptions): Promise<void> {
       console.log(`⚠ Could not generate query registry: ${error.message}`)
     }
 
+    // Generate the OpenAPI document registry (served at /api/crouton/openapi.json)
+    console.log(`\n${'═'.repeat(60)}`)
+    console.log(`  OPENAPI`)
+    console.log(`${'═'.repeat(60)}\n`)
+
+    try {
+      const openApiResult = await generateOpenApiRegistryFile(process.cwd())
+      console.log(`✓ Generated OpenAPI registry with ${openApiResult.collectionsCount} collection(s)`)
+      console.log(`  → ${openApiResult.outputPath}`)
+    } catch (error: any) {
+      console.log(`⚠ Could not generate OpenAPI registry: ${error.message}`)
+    }
+
+    // Regenerate the client SDK when crouton.config enables it
+    const sdkOptions = sdkOptionsFromConfig(config.sdk)
+    if (sdkOptions) {
+      console.log(`\n${'═'.repeat(60)}`)
+      console.log(`  SDK`)
+      console.log(`${'═'.repeat(60)}\n`)
+
+      try {
+        const sdkResult = await generateSdk({
+          ...sdkOptions,
+          outDir: path.resolve(config._configDir ?? process.cwd(), sdkOptions.outDir || SDK_DIR)
+        })
+        console.log(`✓ Generated ${sdkResult.name} with ${sdkResult.collectionsCount} collection(s)`)
+        console.log(`  → ${sdkResult.outDir}`)
+      } catch (error: any) {
+        console.log(`⚠ Could not generate SDK: ${error.message}`)
+      }
+    }
+
     // Deterministic default layout (#709): arrange the generated collections into
     // a viable `layout_configs` tree the POC boots with (seeded by crouton-seed).
     console.log(`\n${'═'.repeat(60)}`)
@@ -1332,6 +1479,7 @@ export async function runConfig(options: RunConfigOptions = {}): Promise<void> {
     if (options.force) config.flags.force = true
     if (options.dryRun) config.flags.dryRun = true
     if (options.noTests) config.flags.noTests = true
+    if (options.noMerge) config.flags.noMerge = true
 
     // Single-collection filter
     const onlyCollection = options.only || null
@@ -1340,224 +1488,230 @@ export async function runConfig(options: RunConfigOptions = {}): Promise<void> {
     }
     config._onlyCollection = onlyCollection
 
-      // Validate configuration before proceeding
-      const validation = await validateConfig(config)
+    // Validate configuration before proceeding
+    const validation = await validateConfig(config)
 
-      if (!validation.valid) {
-        console.error('\n⛔ Cannot proceed with generation due to validation errors\n')
-        process.exit(1)
+    if (!validation.valid) {
+      console.error('\n⛔ Cannot proceed with generation due to validation errors\n')
+      process.exit(1)
+    }
+
+    // Sync framework packages based on features config
+    if (config.features) {
+      console.log('\n' + '═'.repeat(60))
+      console.log('  FRAMEWORK PACKAGES')
+      console.log('═'.repeat(60) + '\n')
+      console.log('↻ Syncing framework packages...')
+      const nuxtConfigPath = path.resolve('nuxt.config.ts')
+      const result = await syncFrameworkPackages(nuxtConfigPath, config.features)
+      if (result.synced) {
+        console.log(`✓ Synced ${result.packages.length} framework packages to extends`)
+        result.packages.forEach(pkg => console.log(`  • ${pkg}`))
+      } else {
+        console.log(`⚠ Could not sync framework packages: ${result.reason}`)
       }
+    }
 
-      // Sync framework packages based on features config
-      if (config.features) {
+    // Auto-merge package manifest collections for enabled features
+    // (may prompt interactively for manifest configuration options)
+    let promptedConfigs: import('./utils/manifest-merge.ts').PromptedConfig[] = []
+    if (config.features && !options.noAutoMerge) {
+      const { mergeManifestCollections } = await import('./utils/manifest-merge.ts')
+      const mergeResult = await mergeManifestCollections(config)
+      promptedConfigs = mergeResult.promptedConfigs
+
+      if (mergeResult.merged > 0) {
         console.log('\n' + '═'.repeat(60))
-        console.log('  FRAMEWORK PACKAGES')
-        console.log('═'.repeat(60) + '\n')
-        console.log('↻ Syncing framework packages...')
-        const nuxtConfigPath = path.resolve('nuxt.config.ts')
-        const result = await syncFrameworkPackages(nuxtConfigPath, config.features)
-        if (result.synced) {
-          console.log(`✓ Synced ${result.packages.length} framework packages to extends`)
-          result.packages.forEach(pkg => console.log(`  • ${pkg}`))
-        } else {
-          console.log(`⚠ Could not sync framework packages: ${result.reason}`)
+        console.log('  PACKAGE COLLECTIONS (auto-merged)')
+        console.log('═'.repeat(60))
+        mergeResult.collections.forEach(c =>
+          console.log(`  + ${c.layer}/${c.name} (from @fyit/crouton-${c.feature})`)
+        )
+        if (mergeResult.skipped.length > 0) {
+          console.log(`\n  Already in config: ${mergeResult.skipped.join(', ')}`)
         }
       }
 
-      // Auto-merge package manifest collections for enabled features
-      // (may prompt interactively for manifest configuration options)
-      let promptedConfigs: import('./utils/manifest-merge.ts').PromptedConfig[] = []
-      if (config.features && !options.noAutoMerge) {
-        const { mergeManifestCollections } = await import('./utils/manifest-merge.ts')
-        const mergeResult = await mergeManifestCollections(config)
-        promptedConfigs = mergeResult.promptedConfigs
-
-        if (mergeResult.merged > 0) {
-          console.log('\n' + '═'.repeat(60))
-          console.log('  PACKAGE COLLECTIONS (auto-merged)')
-          console.log('═'.repeat(60))
-          mergeResult.collections.forEach(c =>
-            console.log(`  + ${c.layer}/${c.name} (from @fyit/crouton-${c.feature})`)
-          )
-          if (mergeResult.skipped.length > 0) {
-            console.log(`\n  Already in config: ${mergeResult.skipped.join(', ')}`)
+      // Persist prompted configs: update nuxt.config.ts runtimeConfig + crouton.config.js
+      if (promptedConfigs.length > 0 && !options.dryRun) {
+        const nuxtConfigPath = path.resolve('nuxt.config.ts')
+
+        for (const pc of promptedConfigs) {
+          // Write runtimeConfig to nuxt.config.ts
+          if (pc.runtimeConfig) {
+            const rtResult = await addRuntimeConfig(nuxtConfigPath, pc.runtimeConfig.server, pc.runtimeConfig.public)
+            if (rtResult.added) {
+              console.log(`  ✓ Added runtimeConfig for ${pc.featureKey}`)
+            }
           }
         }
 
-        // Persist prompted configs: update nuxt.config.ts runtimeConfig + crouton.config.js
-        if (promptedConfigs.length > 0 && !options.dryRun) {
-          const nuxtConfigPath = path.resolve('nuxt.config.ts')
+        // Persist feature config back to crouton.config.js
+        const configFilePath = config._configDir
+          ? path.resolve(config._configDir, 'crouton.config.js')
+          : path.resolve('crouton.config.js')
+
+        try {
+          const { readFile, writeFile } = await import('node:fs/promises')
+          const configContent = await readFile(configFilePath, 'utf-8')
+          let updated = configContent
 
           for (const pc of promptedConfigs) {
-            // Write runtimeConfig to nuxt.config.ts
-            if (pc.runtimeConfig) {
-              const rtResult = await addRuntimeConfig(nuxtConfigPath, pc.runtimeConfig.server, pc.runtimeConfig.public)
-              if (rtResult.added) {
-                console.log(`  ✓ Added runtimeConfig for ${pc.featureKey}`)
-              }
-            }
+            // Replace `featureKey: true` with the config object
+            // Match patterns like `bookings: true` (with optional trailing comma)
+            const boolPattern = new RegExp(`(${pc.featureKey}\\s*:\\s*)true`, 'g')
+            const configStr = JSON.stringify(pc.configObject, null, 2)
+              .replace(/\n/g, '\n    ') // indent to match config file nesting
+            updated = updated.replace(boolPattern, `$1${configStr}`)
           }
 
-          // Persist feature config back to crouton.config.js
-          const configFilePath = config._configDir
-            ? path.resolve(config._configDir, 'crouton.config.js')
-            : path.resolve('crouton.config.js')
-
-          try {
-            const { readFile, writeFile } = await import('node:fs/promises')
-            const configContent = await readFile(configFilePath, 'utf-8')
-            let updated = configContent
-
-            for (const pc of promptedConfigs) {
-              // Replace `featureKey: true` with the config object
-              // Match patterns like `bookings: true` (with optional trailing comma)
-              const boolPattern = new RegExp(`(${pc.featureKey}\\s*:\\s*)true`, 'g')
-              const configStr = JSON.stringify(pc.configObject, null, 2)
-                .replace(/\n/g, '\n    ') // indent to match config file nesting
-              updated = updated.replace(boolPattern, `$1${configStr}`)
-            }
-
-            if (updated !== configContent) {
-              await writeFile(configFilePath, updated, 'utf-8')
-              console.log(`  ✓ Updated ${path.basename(configFilePath)} with feature configs`)
-            }
-          } catch {
-            // Config file may not exist or not be writable — non-fatal
+          if (updated !== configContent) {
+            await writeFile(configFilePath, updated, 'utf-8')
+            console.log(`  ✓ Updated ${path.basename(configFilePath)} with feature configs`)
           }
+        } catch {
+          // Config file may not exist or not be writable — non-fatal
         }
       }
+    }
 
-      // Handle both config formats
-      if (config.collections && config.targets) {
-        // Enhanced config format with collections array
-        if (!config.targets || !config.collections) {
-          console.error('Error: Invalid config file - missing targets or collections')
-          process.exit(1)
-        }
-
-        // Create a map of collection names to their full config (including fieldsFile, hierarchy, etc.)
-        const collectionConfigMap = {}
-        for (const col of config.collections) {
-          collectionConfigMap[col.name] = col
-        }
-
-        // Track all collections for batch db:generate
-        const allCollections = []
+    // Handle both config formats
+    if (config.collections && config.targets) {
+      // Enhanced config format with collections array
+      if (!config.targets || !config.collections) {
+        console.error('Error: Invalid config file - missing targets or collections')
+        process.exit(1)
+      }
 
-        // Process each target
-        for (const target of config.targets) {
-          for (const collectionName of target.collections) {
-            // Skip if --only flag is set and this isn't the target collection
-            if (config._onlyCollection && collectionName !== config._onlyCollection) {
-              continue
-            }
+      // Create a map of collection names to their full config (including fieldsFile, hierarchy, etc.)
+      const collectionConfigMap = {}
+      for (const col of config.collections) {
+        collectionConfigMap[col.name] = col
+      }
 
-            const collectionConfig = collectionConfigMap[collectionName]
-            if (!collectionConfig?.fieldsFile) {
-              console.error(`Error: No fields file found for collection '${collectionName}'`)
-              continue
-            }
+      // Track all collections for batch db:generate
+      const allCollections = []
 
-            console.log(`\n${'─'.repeat(60)}`)
-            console.log(`Generating ${target.layer}/${collectionName}`)
-            console.log(`${'─'.repeat(60)}`)
-            console.log(`Schema: ${collectionConfig.fieldsFile}`)
-            if (collectionConfig.hierarchy) {
-              console.log(`Hierarchy: enabled`)
-            }
+      // Process each target
+      for (const target of config.targets) {
+        for (const collectionName of target.collections) {
+          // Skip if --only flag is set and this isn't the target collection
+          if (config._onlyCollection && collectionName !== config._onlyCollection) {
+            continue
+          }
 
-            // Resolve fieldsFile path relative to config directory if needed
-            const resolvedFieldsFile = config._configDir && !path.isAbsolute(collectionConfig.fieldsFile)
-              ? path.resolve(config._configDir, collectionConfig.fieldsFile)
-              : collectionConfig.fieldsFile
-            const fields = await loadFields(resolvedFieldsFile, typeMapping)
-
-            // Check if this collection has translations
-            // Generate files but skip database creation (we'll do it in batch at the end)
-            // Determine seed settings from collection config or global config
-            const collectionSeed = collectionConfig?.seed === true
-              ? { count: config?.seed?.defaultCount || 25 }
-              : typeof collectionConfig?.seed === 'object'
-                ? collectionConfig.seed
-                : null
-
-            await writeScaffold({
-              layer: target.layer,
-              collection: collectionName,
-              fields,
-              dialect: config.dialect || 'pg',
-              autoRelations: config.flags?.autoRelations || false,
-              dryRun: config.flags?.dryRun || false,
-              noDb: true, // Skip individual db:generate
-              force: config.flags?.force || false,
-              noTranslations: config.flags?.noTranslations || false,
-              config: config,
-              collectionConfig: collectionConfig, // Pass individual collection config for hierarchy detection
-              seed: !!collectionSeed,
-              seedCount: collectionSeed?.count || config?.seed?.defaultCount || 25,
-              noTests: config.flags?.noTests || collectionConfig?.tests === false || false
-            })
-
-            allCollections.push({ name: collectionName, layer: target.layer, fields })
+          const collectionConfig = collectionConfigMap[collectionName]
+          if (!collectionConfig?.fieldsFile) {
+            console.error(`Error: No fields file found for collection '${collectionName}'`)
+            continue
           }
-        }
 
-        await runPostGeneration({
-          allCollections,
-          config,
-          dryRun: config.flags?.dryRun || false,
-          noDb: config.flags?.noDb || false,
-          force: config.flags?.force || false,
-        })
-      } else if (config.targets && config.schemaPath) {
-        // Original simple config format
-        const fields = await loadFields(config.schemaPath, typeMapping)
-
-        // Track all collections for batch db:generate
-        const allCollections = []
-
-        // Process each target
-        for (const target of config.targets) {
-          for (const collection of target.collections) {
-            console.log(`\nGenerating collection '${collection}' in layer '${target.layer}'...`)
-
-            // Check for global seed settings (this code path doesn't have per-collection config)
-            const globalSeed = config?.seed?.enabled === true || config?.flags?.seed === true
-
-            await writeScaffold({
-              layer: target.layer,
-              collection,
-              fields,
-              dialect: config.dialect || 'pg',
-              autoRelations: config.flags?.autoRelations || false,
-              dryRun: config.flags?.dryRun || false,
-              noDb: true, // Skip individual db:generate
-              force: config.flags?.force || false,
-              noTranslations: config.flags?.noTranslations || false,
-              config: config,
-              seed: globalSeed,
-              seedCount: config?.seed?.defaultCount || 25,
-              noTests: config.flags?.noTests || false
-            })
-
-            allCollections.push({ name: collection, layer: target.layer, fields })
+          console.log(`\n${'─'.repeat(60)}`)
+          console.log(`Generating ${target.layer}/${collectionName}`)
+          console.log(`${'─'.repeat(60)}`)
+          console.log(`Schema: ${collectionConfig.fieldsFile}`)
+          if (collectionConfig.hierarchy) {
+            console.log(`Hierarchy: enabled`)
           }
+
+          // Resolve fieldsFile path relative to config directory if needed
+          const resolvedFieldsFile = config._configDir && !path.isAbsolute(collectionConfig.fieldsFile)
+            ? path.resolve(config._configDir, collectionConfig.fieldsFile)
+            : collectionConfig.fieldsFile
+          const fields = await loadFields(resolvedFieldsFile, typeMapping)
+          const policies = await loadRowPolicies(resolvedFieldsFile, fields)
+
+          // Check if this collection has translations
+          // Generate files but skip database creation (we'll do it in batch at the end)
+          // Determine seed settings from collection config or global config
+          const collectionSeed = collectionConfig?.seed === true
+            ? { count: config?.seed?.defaultCount || 25 }
+            : typeof collectionConfig?.seed === 'object'
+              ? collectionConfig.seed
+              : null
+
+          await writeScaffold({
+            layer: target.layer,
+            collection: collectionName,
+            fields,
+            policies,
+            dialect: config.dialect || 'pg',
+            autoRelations: config.flags?.autoRelations || false,
+            dryRun: config.flags?.dryRun || false,
+            noDb: true, // Skip individual db:generate
+            force: config.flags?.force || false,
+            noTranslations: config.flags?.noTranslations || false,
+            config: config,
+            collectionConfig: collectionConfig, // Pass individual collection config for hierarchy detection
+            seed: !!collectionSeed,
+            seedCount: collectionSeed?.count || config?.seed?.defaultCount || 25,
+            noTests: config.flags?.noTests || collectionConfig?.tests === false || false,
+            noMerge: config.flags?.noMerge || false
+          })
+
+          allCollections.push({ name: collectionName, layer: target.layer, fields })
         }
+      }
 
-        await runPostGeneration({
-          allCollections,
-          config,
-          dryRun: config.flags?.dryRun || false,
-          noDb: config.flags?.noDb || false,
-          force: config.flags?.force || false,
-        })
-      } else {
-        console.error('Error: Invalid config file')
-        console.error('Config must have either:')
-        console.error('  1. collections[] and targets[] (enhanced format)')
-        console.error('  2. schemaPath and targets[] (simple format)')
-        process.exit(1)
+      await runPostGeneration({
+        allCollections,
+        config,
+        dryRun: config.flags?.dryRun || false,
+        noDb: config.flags?.noDb || false,
+        force: config.flags?.force || false,
+      })
+    } else if (config.targets && config.schemaPath) {
+      // Original simple config format
+      const fields = await loadFields(config.schemaPath, typeMapping)
+      const policies = await loadRowPolicies(config.schemaPath, fields)
+
+      // Track all collections for batch db:generate
+      const allCollections = []
+
+      // Process each target
+      for (const target of config.targets) {
+        for (const collection of target.collections) {
+          console.log(`\nGenerating collection '${collection}' in layer '${target.layer}'...`)
+
+          // Check for global seed settings (this code path doesn't have per-collection config)
+          const globalSeed = config?.seed?.enabled === true || config?.flags?.seed === true
+
+          await writeScaffold({
+            layer: target.layer,
+            collection,
+            fields,
+            policies,
+            dialect: config.dialect || 'pg',
+            autoRelations: config.flags?.autoRelations || false,
+            dryRun: config.flags?.dryRun || false,
+            noDb: true, // Skip individual db:generate
+            force: config.flags?.force || false,
+            noTranslations: config.flags?.noTranslations || false,
+            config: config,
+            seed: globalSeed,
+            seedCount: config?.seed?.defaultCount || 25,
+            noTests: config.flags?.noTests || false,
+            noMerge: config.flags?.noMerge || false
+          })
+
+          allCollections.push({ name: collection, layer: target.layer, fields })
+        }
       }
+
+      await runPostGeneration({
+        allCollections,
+        config,
+        dryRun: config.flags?.dryRun || false,
+        noDb: config.flags?.noDb || false,
+        force: config.flags?.force || false,
+      })
+    } else {
+      console.error('Error: Invalid config file')
+      console.error('Config must have either:')
+      console.error('  1. collections[] and targets[] (enhanced format)')
+      console.error('  2. schemaPath and targets[] (simple format)')
+      process.exit(1)
+    }
   } catch (error: any) {
     console.error('Error:', error.message)
     process.exit(1)
@@ -1583,7 +1737,8 @@ export async function runGenerate(options: RunGenerateOptions = {}): Promise<voi
       hierarchy: options.hierarchy || false,
       seed: options.seed || false,
       seedCount: options.seedCount || 25,
-      noTests: options.noTests || false
+      noTests: options.noTests || false,
+      noMerge: options.noMerge || false
     }
 
     // Validate CLI arguments
@@ -1636,8 +1791,10 @@ export async function runGenerate(options: RunGenerateOptions = {}): Promise<voi
 
     // Load and validate the schema content
     let fields
+    let policies
     try {
       fields = await loadFields(args.fieldsFile, typeMapping)
+      policies = await loadRowPolicies(args.fieldsFile, fields)
       console.log(`✓ Loaded ${fields.length} fields from schema`)
     } catch (error: any) {
       console.error(`\n❌ Error loading schema: ${error.message}\n`)
@@ -1645,7 +1802,7 @@ export async function runGenerate(options: RunGenerateOptions = {}): Promise<voi
     }
 
     // Proceed with generation
-    await writeScaffold({ ...args, fields })
+    await writeScaffold({ ...args, fields, policies })
 
     // Generate type registry for type-safe CRUD composables
     if (!args.dryRun) {
@@ -1674,6 +1831,19 @@ export async function runGenerate(options: RunGenerateOptions = {}): Promise<voi
         console.log(`⚠ Could not generate query registry: ${error.message}`)
       }
 
+      // Generate the OpenAPI document registry (served at /api/crouton/openapi.json)
+      console.log(`\n${'═'.repeat(60)}`)
+      console.log(`  OPENAPI`)
+      console.log(`${'═'.repeat(60)}\n`)
+
+      try {
+        const openApiResult = await generateOpenApiRegistryFile(process.cwd())
+        console.log(`✓ Generated OpenAPI registry with ${openApiResult.collectionsCount} collection(s)`)
+        console.log(`  → ${openApiResult.outputPath}`)
+      } catch (error: any) {
+        console.log(`⚠ Could not generate OpenAPI registry: ${error.message}`)
+      }
+
       // Print .env hints for prompted configurations
       if (promptedConfigs.length > 0) {
         const allHints = promptedConfigs.flatMap(pc => pc.envHints || [])
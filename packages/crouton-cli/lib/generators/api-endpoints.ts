@@ -1,4 +1,136 @@
-// API endpoint generators using @crouton/auth for team authentication
+// API endpoint generators using @crouton/auth for team authentication and the
+// team's role permissions per collection
+import { detectListQueryFields } from './database-queries.ts'
+import { quoteValue } from '../utils/helpers.ts'
+import { computeFunctionName } from './computed-fields.ts'
+import { computedFields } from '../utils/computed-fields.ts'
+import { refineSchemaCode, validateFunctionName } from './validation-rules.ts'
+import { refineRules, ruleMessage, uniqueFieldNames } from '../utils/validation-rules.ts'
+import { policyTokenTypes } from '../utils/row-policies.ts'
+
+// Stored computed fields are recomputed by the write handlers with the
+// collection's computed.ts. `inputs` are the regular fields they (transitively)
+// read — a PATCH touching one of them triggers a recompute from the merged row.
+function storedComputed(data: Record<string, any>): { names: string[], inputs: string[], helperCode: string, importLine: string } | null {
+  const computed = computedFields(data.fields)
+  const stored = computed.filter(field => field.stored)
+  if (stored.length === 0) return null
+
+  const byName = new Map(computed.map(field => [field.name, field]))
+  const inputs = new Set<string>()
+  const collect = (name: string) => {
+    const field = byName.get(name)
+    if (!field) {
+      inputs.add(name)
+      return
+    }
+    field.inputs.forEach(collect)
+  }
+  stored.forEach(field => field.inputs.forEach(collect))
+
+  const names = stored.map(field => field.name)
+  const functionName = computeFunctionName(data)
+  return {
+    names,
+    inputs: [...inputs],
+    importLine: `import { ${functionName} } from '../../../../../computed'`,
+    helperCode: `// Stored computed fields (see computed.ts) — never taken from the client
+function computedValues(item: Record<string, any>) {
+  const computed = ${functionName}(item)
+  return { ${names.map(name => `${name}: computed.${name}`).join(', ')} }
+}
+
+`
+  }
+}
+
+// Rules a plain field schema can't check: cross-field `refine` rules (the
+// collection's validation.ts) and `unique` fields (a duplicates query).
+// POST/bulk creates check the submitted item; PATCH checks the row as it will
+// be after the update when one of `inputs` changes. Failures answer 422 with
+// zod-style `issues` the form shows on the fields.
+function writeRules(data: Record<string, any>): {
+  refine: boolean
+  inputs: string[]
+  unique: string[]
+  importLine: string
+  helperCode: string
+} | null {
+  const refines = refineRules(data.fields)
+  const unique = uniqueFieldNames(data.fields)
+  if (refines.length === 0 && unique.length === 0) return null
+
+  const uniqueMessages = unique
+    .map(name => `  ${name}: ${quoteValue(ruleMessage(data.fields.find((field: Record<string, any>) => field.name === name), 'unique', `${name} is already in use`))}`)
+    .join(',\n')
+  return {
+    refine: refines.length > 0,
+    inputs: [...new Set(refines.flatMap(rule => rule.inputs))],
+    unique,
+    importLine: refines.length > 0 ? `\nimport { ${validateFunctionName(data)} } from '../../../../../validation'` : '',
+    helperCode: unique.length > 0
+      ? `// Messages for unique fields whose value another row already uses
+const uniqueMessages: Record<string, string> = {
+${uniqueMessages}
+}
+
+`
+      : ''
+  }
+}
+
+// Throw the 422 for unique fields that are already taken
+function duplicatesCheck(data: Record<string, any>, values: string, excludeId = ''): string {
+  return `
+  const duplicates = await find${data.layerPascalCase}${data.pascalCase}Duplicates(team.id, ${values}${excludeId ? `, ${excludeId}` : ''})
+  if (duplicates.length > 0) {
+    const issues = duplicates.map(field => ({ path: [field], message: uniqueMessages[field] }))
+    throw createError({ status: 422, statusText: 'Validation failed', data: { issues } })
+  }
+`
+}
+
+// Key the team's role permissions use for this collection (as in app.config)
+function permissionKey(data: Record<string, any>): string {
+  return `${data.layerCamelCase}${data.pascalCasePlural}`
+}
+
+// Collections with row policies in their schema hand the requester (`policy`)
+// to every query that reads, updates or deletes rows (see utils/row-policies.ts)
+function hasRowPolicies(data: Record<string, any>): boolean {
+  return (data.policies ?? []).length > 0
+}
+
+// Report a write to the crouton:collection-mutation listeners (the
+// crouton-events audit log) with the rows before and after, inside the request.
+// `operation` and `items` are code.
+function emitMutationCode(data: Record<string, any>, operation: string, items: string, indent = '  '): string {
+  return `${indent}// Report the change to crouton:collection-mutation listeners (audit log)
+${indent}await emitCollectionMutation(event, {
+${indent}  operation: ${operation},
+${indent}  collection: '${permissionKey(data)}',
+${indent}  teamId: team.id,
+${indent}  user,
+${indent}  items: ${items}
+${indent}})`
+}
+
+// Filterable/sortable/searchable fields for the list query grammar, shared by
+// GET and the export endpoint. Bare FK params (e.g. ?eventId=...) parse as `eq`
+// filters on reference fields, so the legacy FK filtering keeps working
+// through the same path.
+function listSpecCode(data: Record<string, any>, config: Record<string, any> | null): string {
+  const listQueryFields = detectListQueryFields(data, config)
+  const specFields = listQueryFields.fields.map(f => `\n    ${f.name}: '${f.kind}'`).join(',')
+  const specSearchable = listQueryFields.searchable.map(name => `'${name}'`).join(', ')
+
+  return `// What ?field[op]=, ?sort= and ?q= may target (see parseCollectionListQuery)
+const listSpec: CollectionListSpec = {
+  fields: {${specFields}
+  },
+  searchable: [${specSearchable}]
+}`
+}
 
 export function generateGetEndpoint(data: Record<string, any>, config: Record<string, any> | null = null): string {
   const { pascalCase, pascalCasePlural, layerPascalCase, plural, singular, layer } = data
@@ -8,31 +140,42 @@ export function generateGetEndpoint(data: Record<string, any>, config: Record<st
   // Check if this collection has translations
   const hasTranslations = config?.translations?.collections?.[plural] || config?.translations?.collections?.[singular]
 
-  // Foreign-key fields that can scope the list (e.g. ?eventId=...). Keeps the
-  // non-paginated call byte-identical for FK-less collections.
-  const filterFields = (data.fields || []).filter((f: Record<string, any>) => f.refTarget).map((f: Record<string, any>) => f.name)
-  const fkInner = filterFields.map((f: string) => `${f}: query.${f} ? String(query.${f}) : undefined`).join(', ')
-  const nonPagCall = filterFields.length
-    ? `getAll${prefixedPascalCasePlural}(team.id, { ${fkInner} })`
-    : `getAll${prefixedPascalCasePlural}(team.id)`
-  const pagArgInner = filterFields.length
-    ? `${fkInner}, limit: pageSize, offset: (page - 1) * pageSize`
-    : `limit: pageSize, offset: (page - 1) * pageSize`
-  const pagCall = `getAll${prefixedPascalCasePlural}(team.id, { ${pagArgInner} })`
+  // Soft-delete collections list the trash with ?trashed=true
+  const softDelete = data.softDelete?.enabled === true
+  const withPolicy = hasRowPolicies(data) ? ', policy' : ''
+  const listArgs = `{ ...listQuery,${softDelete ? ' trashed,' : ''} owner${withPolicy} }`
+
+  // Token policies let their holders list and fetch rows without a session
+  const tokenTypes = policyTokenTypes(data.policies ?? [])
+  const auth = tokenTypes.length > 0
+    ? `// Scoped-token holders the row policies name read without a session
+  const { team, user, scope, policy } = await resolveScopedCollectionAccess(event, [${tokenTypes.map(quoteValue).join(', ')}])
+    ?? await requireCollectionPermission(event, '${permissionKey(data)}', 'read')
+  authTimer.end()
+
+  // Roles limited to their own records only see those
+  const owner = scope === 'own' ? user?.id : undefined`
+    : `const { team, user, scope${withPolicy} } = await requireCollectionPermission(event, '${permissionKey(data)}', 'read')
+  authTimer.end()
+
+  // Roles limited to their own records only see those
+  const owner = scope === 'own' ? user.id : undefined`
 
   const queriesPath = '../../../../database/queries'
 
   return `// Team-based endpoint - requires @fyit/crouton-auth package
-// The resolveTeamAndCheckMembership utility handles team resolution and auth
+// requireCollectionPermission resolves the team and checks the member's role allows the action
 import { getAll${prefixedPascalCasePlural}, get${prefixedPascalCasePlural}ByIds } from '${queriesPath}'
-import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
+import { ${tokenTypes.length > 0 ? 'requireCollectionPermission, resolveScopedCollectionAccess' : 'requireCollectionPermission'} } from '@fyit/crouton-auth/server/utils/team'
+import { parseCollectionListQuery, type CollectionListSpec } from '@fyit/crouton-core/shared/utils/collection-query'
+
+${listSpecCode(data, config)}
 
 export default defineEventHandler(async (event) => {
   const timing = useServerTiming(event)
 
   const authTimer = timing.start('auth')
-  const { team } = await resolveTeamAndCheckMembership(event)
-  authTimer.end()
+  ${auth}
 
   const query = getQuery(event)${hasTranslations
     ? `
@@ -43,21 +186,34 @@ export default defineEventHandler(async (event) => {
   const dbTimer = timing.start('db')
   if (query.ids) {
     const ids = String(query.ids).split(',')
-    const result = await get${prefixedPascalCasePlural}ByIds(team.id, ids)
+    const rows = await get${prefixedPascalCasePlural}ByIds(team.id, ids${withPolicy ? ', { policy }' : ''})
     dbTimer.end()
-    return result
+    return owner ? rows.filter((row: any) => row.owner === owner) : rows
   }
 
+  // Filters, sort and search: ?status[in]=a,b&price[gte]=10&sort=-createdAt&q=term
+  let listQuery
+  try {
+    listQuery = parseCollectionListQuery(query, listSpec)
+  } catch (error: any) {
+    throw createError({ status: 400, statusText: error.message })
+  }${softDelete
+    ? `
+
+  // Trash view: ?trashed=true lists soft-deleted rows instead of live ones
+  const trashed = query.trashed === 'true'`
+    : ''}
+
   // Opt-in pagination: ?page=1&pageSize=10 → { items, total, page, pageSize }
   if (query.page !== undefined) {
     const page = Math.max(1, Number(query.page) || 1)
     const pageSize = Math.min(100, Math.max(1, Number(query.pageSize) || 10))
-    const { items, total } = await ${pagCall}
+    const { items, total } = await getAll${prefixedPascalCasePlural}(team.id, { ...listQuery,${softDelete ? ' trashed,' : ''} owner${withPolicy}, limit: pageSize, offset: (page - 1) * pageSize })
     dbTimer.end()
     return { items, total, page, pageSize }
   }
 
-  const result = await ${nonPagCall}
+  const result = await getAll${prefixedPascalCasePlural}(team.id, ${listArgs})
   dbTimer.end()
   return result
 })`
@@ -96,11 +252,14 @@ export function generatePostEndpoint(data: Record<string, any>, config: Record<s
     ).join('\n') + '\n'
     : ''
 
+  const rules = writeRules(data)
+  const duplicatesImport = rules?.unique.length ? `, find${prefixedPascalCase}Duplicates` : ''
+
   // Generate imports based on hierarchy needs
   const imports = hasHierarchy
-    ? `import { create${prefixedPascalCase}, get${prefixedPascalCasePlural}ByIds } from '${queriesPath}'
+    ? `import { create${prefixedPascalCase}, get${prefixedPascalCasePlural}ByIds${duplicatesImport} } from '${queriesPath}'
 import { nanoid } from 'nanoid'`
-    : `import { create${prefixedPascalCase} } from '${queriesPath}'`
+    : `import { create${prefixedPascalCase}${duplicatesImport} } from '${queriesPath}'`
 
   // Generate hierarchy path calculation code if needed
   const hierarchyCalc = hasHierarchy
@@ -145,31 +304,41 @@ import { nanoid } from 'nanoid'`
   // locally so the server validation doesn't reference an undefined symbol.
   const itemSchemasPrefix = data.repeaterItemSchemasCode ? `${data.repeaterItemSchemasCode}\n\n` : ''
 
+  const computed = storedComputed(data)
+  const computedCalc = computed
+    ? `  Object.assign(dataWithoutId, computedValues(dataWithoutId))
+
+`
+    : ''
+  const uniqueCheck = rules?.unique.length ? duplicatesCheck(data, 'dataWithoutId') : ''
+
   return `// Team-based endpoint - requires @fyit/crouton-auth package
-// The resolveTeamAndCheckMembership utility handles team resolution and auth
-${imports}
-import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
+// requireCollectionPermission resolves the team and checks the member's role allows the action
+${imports}${computed ? `\n${computed.importLine}` : ''}${rules?.importLine ?? ''}
+import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'
 import { z } from 'zod'
 
-${itemSchemasPrefix}const bodySchema = z.object({
+${itemSchemasPrefix}${computed?.helperCode ?? ''}${rules?.helperCode ?? ''}const bodySchema = z.object({
   ${data.fieldsSchema}
-}).strip()
+}).strip()${rules?.refine ? refineSchemaCode(data) : ''}
 
 export default defineEventHandler(async (event) => {
   const timing = useServerTiming(event)
 
   const authTimer = timing.start('auth')
-  const { team, user } = await resolveTeamAndCheckMembership(event)
+  const { team, user } = await requireCollectionPermission(event, '${permissionKey(data)}', 'create')
   authTimer.end()
 
   const body = await readValidatedBody(event, bodySchema.parse)
 
   // body is the validated payload (id is not part of the schema)${hasHierarchy ? ' — we generate the id for path calculation' : ' — the database generates the id'}
   const dataWithoutId = body
-${hierarchyCalc}
-${dateConversions}  const dbTimer = timing.start('db')
+${hierarchyCalc}${uniqueCheck}
+${dateConversions}${computedCalc}  const dbTimer = timing.start('db')
   ${createCall}
   dbTimer.end()
+
+${emitMutationCode(data, `'create'`, '[{ id: result.id, after: result }]')}
   return result
 })`
 }
@@ -182,6 +351,9 @@ export function generatePatchEndpoint(data: Record<string, any>, config: Record<
   // Check if this collection has translations
   const hasTranslations = config?.translations?.collections?.[plural] || config?.translations?.collections?.[singular]
 
+  // updatedAt doubles as the row version for optimistic concurrency
+  const useMetadata = config?.flags?.useMetadata ?? true
+
   // System fields that should not be in PATCH body — they are managed by the server
   const systemFields = new Set(['id', 'teamId', 'owner', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy', 'path', 'depth'])
 
@@ -199,24 +371,54 @@ export function generatePatchEndpoint(data: Record<string, any>, config: Record<
     fieldSelection += ',\n    translations: body.translations'
   }
 
-  // Add imports based on translation needs
+  // Stored computed fields follow their inputs and refine rules are checked
+  // against the merged row (the current row with these updates applied)
+  const computed = storedComputed(data)
+  const rules = writeRules(data)
+  const mergedInputs = [...new Set([...(computed?.inputs ?? []), ...(rules?.refine ? rules.inputs : [])])]
+  const duplicatesImport = rules?.unique.length ? `, find${prefixedPascalCase}Duplicates` : ''
+
+  // Rows the requester's row policies hide can't be read or updated
+  const withPolicy = hasRowPolicies(data) ? ', policy' : ''
+  const readOptions = withPolicy ? ', { policy }' : ''
+
+  // The current row is read for the mutation snapshot (and translation/computed/rule checks)
   const queriesPath = '../../../../database/queries'
-  const imports = hasTranslations
-    ? `import { update${prefixedPascalCase}, get${prefixedPascalCasePlural}ByIds } from '${queriesPath}'`
-    : `import { update${prefixedPascalCase} } from '${queriesPath}'`
+  const imports = `import { update${prefixedPascalCase}, get${prefixedPascalCasePlural}ByIds${duplicatesImport} } from '${queriesPath}'`
+  const refineCheck = rules?.refine
+    ? `
+      const issues = ${validateFunctionName(data)}(merged)
+      if (issues.length > 0) {
+        throw createError({ status: 422, statusText: 'Validation failed', data: { issues } })
+      }`
+    : ''
+  const mergedCheck = mergedInputs.length > 0
+    ? `
+
+  if ([${mergedInputs.map(name => `'${name}'`).join(', ')}].some(key => key in updates)) {
+    const [existing] = await get${prefixedPascalCasePlural}ByIds(team.id, [${camelCase}Id]${readOptions}) as any[]
+    if (existing) {
+      const merged = { ...existing, ...updates }${refineCheck}${computed
+        ? `
+      Object.assign(updates, computedValues(merged))`
+        : ''}
+    }
+  }`
+    : ''
+  const uniqueCheck = rules?.unique.length ? `\n${duplicatesCheck(data, 'updates', `${camelCase}Id`).trimEnd()}` : ''
 
   // Repeater fields reference a named item schema in fieldsSchema; define it
   // locally so the server validation doesn't reference an undefined symbol.
   const itemSchemasPrefix = data.repeaterItemSchemasCode ? `${data.repeaterItemSchemasCode}\n\n` : ''
 
   return `// Team-based endpoint - requires @fyit/crouton-auth package
-// The resolveTeamAndCheckMembership utility handles team resolution and auth
-${imports}
-import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
+// requireCollectionPermission resolves the team and checks the member's role allows the action
+${imports}${computed ? `\n${computed.importLine}` : ''}${rules?.importLine ?? ''}
+import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'
 import { z } from 'zod'
 
-${itemSchemasPrefix}const bodySchema = z.object({
-  ${data.fieldsSchema}${hasTranslations ? ',\n  // Transient hint: which locale the translation patch targets (not a column)\n  locale: z.string().optional()' : ''}
+${itemSchemasPrefix}${computed?.helperCode ?? ''}${rules?.helperCode ?? ''}const bodySchema = z.object({
+  ${data.fieldsSchema}${hasTranslations ? ',\n  // Transient hint: which locale the translation patch targets (not a column)\n  locale: z.string().optional()' : ''}${useMetadata ? ',\n  // Concurrency precondition: the updatedAt the client last saw (not a column)\n  expectedUpdatedAt: z.coerce.date().optional()' : ''}
 }).partial().strip()
 
 export default defineEventHandler(async (event) => {
@@ -228,7 +430,7 @@ export default defineEventHandler(async (event) => {
   }
 
   const authTimer = timing.start('auth')
-  const { team, user, membership } = await resolveTeamAndCheckMembership(event)
+  const { team, user, membership, scope${withPolicy} } = await requireCollectionPermission(event, '${permissionKey(data)}', 'update')
   authTimer.end()
 
   const body = await readValidatedBody(event, bodySchema.parse)${hasTranslations
@@ -236,7 +438,7 @@ export default defineEventHandler(async (event) => {
 
   // Handle translation updates properly
   if (body.translations && body.locale) {
-    const [existing] = await get${prefixedPascalCasePlural}ByIds(team.id, [${camelCase}Id]) as any[]
+    const [existing] = await get${prefixedPascalCasePlural}ByIds(team.id, [${camelCase}Id]${readOptions}) as any[]
     if (existing) {
       body.translations = {
         ...existing.translations,
@@ -251,30 +453,71 @@ export default defineEventHandler(async (event) => {
 
   // Only include fields that were actually sent in the request
   const updates: Record<string, any> = {}
-  for (const [key, value] of Object.entries(body)) {${hasTranslations ? `
-    if (key === 'locale') continue // transient translation hint, not a column` : ''}
+  for (const [key, value] of Object.entries(body)) {${hasTranslations ? '\n    if (key === \'locale\') continue // transient translation hint, not a column' : ''}${useMetadata ? '\n    if (key === \'expectedUpdatedAt\') continue // precondition, not a column' : ''}
     if (value !== undefined) {
       updates[key] = value
     }
-  }
+  }${uniqueCheck}${mergedCheck}
 
   const dbTimer = timing.start('db')
-  const result = await update${prefixedPascalCase}(${camelCase}Id, team.id, user.id, updates, { role: membership.role })
+  const [before] = await get${prefixedPascalCasePlural}ByIds(team.id, [${camelCase}Id]) as any[]${useMetadata ? '\n  // Stale writes (someone saved since expectedUpdatedAt) throw a 409 carrying the current row' : ''}
+  const result = await update${prefixedPascalCase}(${camelCase}Id, team.id, user.id, updates, { role: membership.role, scope${withPolicy}${useMetadata ? ', expectedUpdatedAt: body.expectedUpdatedAt' : ''} })
   dbTimer.end()
+
+${emitMutationCode(data, `'update'`, `[{ id: ${camelCase}Id, before, after: result }]`)}
   return result
 })`
 }
 
-export function generateDeleteEndpoint(data: Record<string, any>, config: Record<string, any> | null = null): string {
-  const { singular, camelCase, pascalCase, layerPascalCase, layer, plural } = data
+export function generateDeleteEndpoint(data: Record<string, any>, _config: Record<string, any> | null = null): string {
+  const { singular, camelCase, pascalCase, pascalCasePlural, layerPascalCase } = data
   const prefixedPascalCase = `${layerPascalCase}${pascalCase}`
+  const prefixedPascalCasePlural = `${layerPascalCase}${pascalCasePlural}`
 
   const queriesPath = '../../../../database/queries'
+  const withPolicy = hasRowPolicies(data) ? ', policy' : ''
+
+  return `// Team-based endpoint - requires @fyit/crouton-auth package
+// requireCollectionPermission resolves the team and checks the member's role allows the action
+import { delete${prefixedPascalCase}, get${prefixedPascalCasePlural}ByIds } from '${queriesPath}'
+import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'
+
+export default defineEventHandler(async (event) => {
+  const timing = useServerTiming(event)
+
+  const { ${camelCase}Id } = getRouterParams(event)
+  if (!${camelCase}Id) {
+    throw createError({ status: 400, statusText: 'Missing ${singular} ID' })
+  }
+
+  const authTimer = timing.start('auth')
+  const { team, user, membership, scope${withPolicy} } = await requireCollectionPermission(event, '${permissionKey(data)}', 'delete')
+  authTimer.end()
+
+  const dbTimer = timing.start('db')
+  const [before] = await get${prefixedPascalCasePlural}ByIds(team.id, [${camelCase}Id]) as any[]
+  const result = await delete${prefixedPascalCase}(${camelCase}Id, team.id, user.id, { role: membership.role, scope${withPolicy} })
+  dbTimer.end()
+
+${emitMutationCode(data, `'delete'`, `[{ id: ${camelCase}Id, before }]`)}
+  return result
+})`
+}
+
+// Generate restore/purge endpoints for soft-delete collections
+// Creates [id]/restore.patch.ts (take a row out of the trash) and
+// [id]/purge.delete.ts (permanently delete a trashed row)
+function generateTrashEndpoint(data: Record<string, any>, action: 'restore' | 'purge'): string {
+  const { singular, camelCase, pascalCase, layerPascalCase } = data
+  const prefixedPascalCase = `${layerPascalCase}${pascalCase}`
+
+  const queriesPath = '../../../../../database/queries'
+  const withPolicy = hasRowPolicies(data) ? ', policy' : ''
 
   return `// Team-based endpoint - requires @fyit/crouton-auth package
-// The resolveTeamAndCheckMembership utility handles team resolution and auth
-import { delete${prefixedPascalCase} } from '${queriesPath}'
-import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
+// requireCollectionPermission resolves the team and checks the member's role allows the action
+import { ${action}${prefixedPascalCase} } from '${queriesPath}'
+import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'
 
 export default defineEventHandler(async (event) => {
   const timing = useServerTiming(event)
@@ -285,28 +528,348 @@ export default defineEventHandler(async (event) => {
   }
 
   const authTimer = timing.start('auth')
-  const { team, user, membership } = await resolveTeamAndCheckMembership(event)
+  const { team, user, membership, scope${withPolicy} } = await requireCollectionPermission(event, '${permissionKey(data)}', 'delete')
   authTimer.end()
 
   const dbTimer = timing.start('db')
-  const result = await delete${prefixedPascalCase}(${camelCase}Id, team.id, user.id, { role: membership.role })
+  const result = await ${action}${prefixedPascalCase}(${camelCase}Id, team.id, user.id, { role: membership.role, scope${withPolicy} })
   dbTimer.end()
+
+${emitMutationCode(data, `'${action}'`, action === 'restore' ? `[{ id: ${camelCase}Id, after: result }]` : `[{ id: ${camelCase}Id }]`)}
   return result
 })`
 }
 
+export function generateRestoreEndpoint(data: Record<string, any>, _config: Record<string, any> | null = null): string {
+  return generateTrashEndpoint(data, 'restore')
+}
+
+export function generatePurgeEndpoint(data: Record<string, any>, _config: Record<string, any> | null = null): string {
+  return generateTrashEndpoint(data, 'purge')
+}
+
+// Generate the bulk endpoint: validates every create/update/delete operation,
+// then hands them to bulk* which applies them in a single transaction
+export function generateBulkEndpoint(data: Record<string, any>, config: Record<string, any> | null = null): string {
+  const { pascalCasePlural, layerPascalCase, fields } = data
+  const prefixedPascalCasePlural = `${layerPascalCase}${pascalCasePlural}`
+
+  const queriesPath = '../../../../database/queries'
+  const hasHierarchy = data.hierarchy?.enabled === true
+  const useMetadata = config?.flags?.useMetadata ?? true
+
+  const parentField = data.hierarchy?.parentField || 'parentId'
+  const pathField = data.hierarchy?.pathField || 'path'
+  const depthField = data.hierarchy?.depthField || 'depth'
+
+  const hasUserIdField = fields.some(f => f.name === 'userId')
+  const dateFields = fields.filter(f => f.type === 'date')
+
+  const computed = storedComputed(data)
+  // Bulk creates check refine rules like POST and updates like PATCH; unique
+  // fields rely on the index
+  const rules = writeRules(data)
+  const withPolicy = hasRowPolicies(data) ? ', policy' : ''
+
+  const imports = `import { bulk${prefixedPascalCasePlural}, get${prefixedPascalCasePlural}ByIds } from '${queriesPath}'${hasHierarchy
+    ? `
+import { nanoid } from 'nanoid'`
+    : ''}`
+
+  // Stored computed fields: creates are computed from their data, updates that
+  // touch an input from the current row merged with the changes (as in PATCH)
+  const computedCalc = computed
+    ? `
+
+  const recomputeIds = operations.flatMap(operation =>
+    operation.op === 'update' && [${computed.inputs.map(name => `'${name}'`).join(', ')}].some(key => key in operation.data) ? [operation.id] : [])
+  const currentRows = recomputeIds.length > 0 ? await get${prefixedPascalCasePlural}ByIds(team.id, recomputeIds${withPolicy ? ', { policy }' : ''}) as any[] : []
+  const currentById = new Map(currentRows.map(row => [row.id, row]))
+  for (const operation of operations) {
+    if (operation.op === 'create') {
+      Object.assign(operation.data, computedValues(operation.data))
+    } else if (operation.op === 'update' && currentById.has(operation.id)) {
+      Object.assign(operation.data, computedValues({ ...currentById.get(operation.id), ...operation.data }))
+    }
+  }`
+    : ''
+
+  // Refine rules: updates that touch a rule's input are checked against the
+  // current row merged with the changes (as in PATCH); nothing is written when
+  // one fails
+  const refineCalc = rules?.refine
+    ? `
+
+  const refineIds = operations.flatMap(operation =>
+    operation.op === 'update' && [${rules.inputs.map(name => `'${name}'`).join(', ')}].some(key => key in operation.data) ? [operation.id] : [])
+  if (refineIds.length > 0) {
+    const refineRows = await get${prefixedPascalCasePlural}ByIds(team.id, refineIds${withPolicy ? ', { policy }' : ''}) as any[]
+    const refineById = new Map(refineRows.map(row => [row.id, row]))
+    const failed = operations.flatMap((operation, index): CollectionBulkResult[] => {
+      if (operation.op !== 'update' || !refineById.has(operation.id)) return []
+      const issues = ${validateFunctionName(data)}({ ...refineById.get(operation.id), ...operation.data })
+      return issues.length > 0
+        ? [{ index, op: 'update', id: operation.id, ok: false, error: issues.map(issue => \`\${issue.path.join('.')}: \${issue.message}\`).join('; ') }]
+        : []
+    })
+    if (failed.length > 0) {
+      setResponseStatus(event, 422)
+      return { applied: false, results: failed }
+    }
+  }`
+    : ''
+
+  // Date fields arrive as ISO strings (same conversion as POST/PATCH)
+  const dateConversions = dateFields
+    .map(field => `
+  if (row.${field.name}) row.${field.name} = new Date(row.${field.name})`)
+    .join('')
+
+  const hierarchyCalc = hasHierarchy
+    ? `
+
+  // Hierarchy: creates get their id up front so path/depth can be derived from
+  // the (already existing) parent, as in POST
+  const parentIds = [...new Set(operations.flatMap(operation =>
+    operation.op === 'create' && operation.data.${parentField} ? [operation.data.${parentField} as string] : []))]
+  const parents = parentIds.length > 0 ? await get${prefixedPascalCasePlural}ByIds(team.id, parentIds) as any[] : []
+  const parentById = new Map(parents.map(parent => [parent.id, parent]))
+  for (const operation of operations) {
+    if (operation.op !== 'create') continue
+    const recordId = nanoid()
+    const parent = parentById.get(operation.data.${parentField})
+    operation.data = {
+      ...operation.data,
+      id: recordId,
+      ${pathField}: parent ? \`\${parent.${pathField}}\${recordId}/\` : \`/\${recordId}/\`,
+      ${depthField}: parent ? (parent.${depthField} || 0) + 1 : 0
+    }
+  }`
+    : ''
+
+  const itemSchemasPrefix = data.repeaterItemSchemasCode ? `${data.repeaterItemSchemasCode}\n\n` : ''
+
+  return `// Team-based endpoint - requires @fyit/crouton-auth package
+// resolveCollectionAccess resolves the team and the member's role permissions
+${imports}${computed ? `\n${computed.importLine}` : ''}${rules?.refine ? rules.importLine : ''}
+import { resolveCollectionAccess } from '@fyit/crouton-auth/server/utils/team'
+import { MAX_BULK_OPERATIONS, type CollectionBulkOperation, type CollectionBulkResult } from '@fyit/crouton-core/shared/utils/collection-bulk'
+import { z } from 'zod'
+
+${itemSchemasPrefix}${computed?.helperCode ?? ''}const fieldsSchema = z.object({
+  ${data.fieldsSchema}
+})
+
+const operationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('create'), data: fieldsSchema.strip()${rules?.refine ? refineSchemaCode(data, '  ') : ''} }),
+  z.object({ op: z.literal('update'), id: z.string().min(1), data: fieldsSchema.partial().strip()${useMetadata ? ', expectedUpdatedAt: z.coerce.date().optional()' : ''} }),
+  z.object({ op: z.literal('delete'), id: z.string().min(1) })
+])
+
+const bodySchema = z.object({
+  operations: z.array(z.unknown()).min(1).max(MAX_BULK_OPERATIONS),
+  dryRun: z.boolean().optional()
+})
+
+function toRow(data: Record<string, any>) {
+  const row: Record<string, any> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined) row[key] = value
+  }${dateConversions}
+  return row
+}
+
+export default defineEventHandler(async (event) => {
+  const timing = useServerTiming(event)
+
+  const authTimer = timing.start('auth')
+  const { team, user, membership, permissions${withPolicy} } = await resolveCollectionAccess(event, '${permissionKey(data)}')
+  authTimer.end()
+
+  const body = await readValidatedBody(event, bodySchema.parse)
+
+  // Validate each operation separately so the response can point at every bad row
+  const operations: CollectionBulkOperation[] = []
+  const invalid: CollectionBulkResult[] = []
+  body.operations.forEach((raw, index) => {
+    const parsed = operationSchema.safeParse(raw)
+    if (!parsed.success) {
+      invalid.push({
+        index,
+        op: (raw as any)?.op,
+        id: (raw as any)?.id,
+        ok: false,
+        error: parsed.error.issues.map(issue => \`\${issue.path.join('.')}: \${issue.message}\`).join('; ')
+      })
+      return
+    }
+    const operation = parsed.data
+    operations.push(operation.op === 'delete'
+      ? operation
+      : { ...operation, data: toRow(operation.data)${hasUserIdField ? ', ...(operation.op === \'create\' ? { userId: user.id } : {})' : ''} } as CollectionBulkOperation)
+  })
+
+  if (invalid.length > 0) {
+    setResponseStatus(event, 422)
+    return { applied: false, results: invalid }
+  }
+
+  // The role has to allow every kind of operation in the batch; updates and
+  // deletes only reach the member's own rows unless it may touch all of them
+  const denied = operations.find(operation => !permissions[operation.op])
+  if (denied) {
+    throw createError({ status: 403, message: \`Your role can't \${denied.op} ${permissionKey(data)}\` })
+  }
+  const scope = operations.every(operation => operation.op === 'create' || permissions[operation.op] === true) ? 'all' : 'own'${refineCalc}${hierarchyCalc}${computedCalc}
+
+  // Rows as they were, for the mutation snapshots
+  const readRows = (ids: string[]) => get${prefixedPascalCasePlural}ByIds(team.id, ids) as Promise<any[]>
+  const before = body.dryRun
+    ? new Map()
+    : await readCollectionSnapshots(operations.flatMap(operation => operation.op === 'create' ? [] : [operation.id]), readRows)
+
+  const dbTimer = timing.start('db')
+  const result = await bulk${prefixedPascalCasePlural}(team.id, user.id, operations, { role: membership.role, scope${withPolicy}, dryRun: body.dryRun })
+  dbTimer.end()
+
+  if (result.applied) {
+    // The rows as written, reported per kind of operation
+    const after = await readCollectionSnapshots(result.results.flatMap(row => row.ok && row.op !== 'delete' && row.id ? [row.id] : []), readRows)
+    for (const op of ['create', 'update', 'delete'] as const) {
+${emitMutationCode(data, 'op', `result.results
+          .filter(row => row.ok && row.op === op && row.id)
+          .map(row => ({ id: row.id!, before: before.get(row.id!), after: after.get(row.id!) }))`, '      ')}
+    }
+  }
+
+  // Nothing was written when a row failed to resolve — report it as 422. An
+  // applied batch can still list updates another save overtook (conflicts)
+  if (!result.applied && result.results.some(row => !row.ok)) {
+    setResponseStatus(event, 422)
+  }
+  return result
+})`
+}
+
+// Column type per field type for the export endpoint (XLSX number formats)
+const EXPORT_COLUMN_TYPES: Record<string, string> = {
+  number: 'integer',
+  integer: 'integer',
+  decimal: 'decimal',
+  boolean: 'boolean',
+  date: 'date'
+}
+
+// Generate the export endpoint: streams every row matching the list query as
+// CSV, JSON or XLSX, with references expanded to titles and translations
+// resolved for ?locale=
+export function generateExportEndpoint(data: Record<string, any>, config: Record<string, any> | null = null): string {
+  const { pascalCasePlural, layerPascalCase, plural, singular, layer, fields } = data
+  const prefixedPascalCasePlural = `${layerPascalCase}${pascalCasePlural}`
+  const apiPath = `${layer}-${plural}`
+
+  const translatableFields: string[] = config?.translations?.collections?.[plural] || config?.translations?.collections?.[singular] || []
+  const useMetadata = config?.flags?.useMetadata ?? true
+  const softDelete = data.softDelete?.enabled === true
+
+  const columns = [{ key: 'id', label: 'ID' }] as Record<string, any>[]
+  for (const field of fields) {
+    if (field.name === 'id') continue
+    const column: Record<string, any> = {
+      key: field.name,
+      label: field.meta?.label || field.name.charAt(0).toUpperCase() + field.name.slice(1)
+    }
+    const type = field.refTarget ? undefined : EXPORT_COLUMN_TYPES[field.type]
+    if (type) column.type = type
+    if (field.refTarget && field.type !== 'array') column.reference = true
+    if (translatableFields.includes(field.name)) column.translatable = true
+    columns.push(column)
+  }
+  if (useMetadata) {
+    columns.push({ key: 'createdAt', label: 'Created', type: 'datetime' })
+    columns.push({ key: 'updatedAt', label: 'Updated', type: 'datetime' })
+  }
+
+  const columnsCode = columns
+    .map((column) => {
+      const props = [`key: '${column.key}'`, `label: '${String(column.label).replace(/'/g, '\\\'')}'`]
+      if (column.type) props.push(`type: '${column.type}'`)
+      if (column.reference) props.push('reference: true')
+      if (column.translatable) props.push('translatable: true')
+      return `\n  { ${props.join(', ')} }`
+    })
+    .join(',')
+
+  const queriesPath = '../../../../database/queries'
+  const withPolicy = hasRowPolicies(data) ? ', policy' : ''
+
+  return `// Team-based endpoint - requires @fyit/crouton-auth package
+// requireCollectionPermission resolves the team and checks the member's role allows the action
+import { getAll${prefixedPascalCasePlural} } from '${queriesPath}'
+import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'
+import { parseCollectionListQuery, type CollectionListSpec } from '@fyit/crouton-core/shared/utils/collection-query'
+import {
+  collectionExportHeaders,
+  isCollectionExportFormat,
+  streamCollectionExport,
+  type CollectionExportColumn
+} from '@fyit/crouton-core/shared/utils/collection-export'
+
+${listSpecCode(data, config)}
+
+const columns: CollectionExportColumn[] = [${columnsCode}
+]
+
+// Streams all matching rows: ?format=csv|json|xlsx plus the list filters, e.g.
+// ?format=xlsx&createdAt[gte]=2024-01-01&sort=-createdAt
+export default defineEventHandler(async (event) => {
+  const { team, user, scope${withPolicy} } = await requireCollectionPermission(event, '${permissionKey(data)}', 'export')
+  // Roles limited to their own records only export those
+  const owner = scope === 'own' ? user.id : undefined
+
+  const query = getQuery(event)
+  const format = String(query.format || 'csv')
+  if (!isCollectionExportFormat(format)) {
+    throw createError({ status: 400, statusText: \`Unsupported export format: \${format}\` })
+  }
+
+  let listQuery
+  try {
+    listQuery = parseCollectionListQuery(query, listSpec)
+  } catch (error: any) {
+    throw createError({ status: 400, statusText: error.message })
+  }${softDelete
+    ? `
+  const trashed = query.trashed === 'true'`
+    : ''}
+
+  setResponseHeaders(event, collectionExportHeaders(format, '${apiPath}'))
+  return sendStream(event, streamCollectionExport({
+    format,
+    columns,${translatableFields.length > 0
+      ? `
+    locale: String(query.locale || 'en'),`
+      : ''}
+    sheetName: '${pascalCasePlural}',
+    fetchPage: (limit, offset) => getAll${prefixedPascalCasePlural}(team.id, { ...listQuery,${softDelete ? ' trashed,' : ''} owner${withPolicy}, limit, offset })
+  }))
+})`
+}
+
 // Generate move endpoint for hierarchy-enabled collections
 // Creates [id]/move.patch.ts - moves an item to a new parent and position
 export function generateMoveEndpoint(data: Record<string, any>, config: Record<string, any> | null = null): string {
-  const { singular, camelCase, pascalCase, layerPascalCase } = data
+  const { singular, camelCase, pascalCase, pascalCasePlural, layerPascalCase } = data
   const prefixedPascalCase = `${layerPascalCase}${pascalCase}`
+  const prefixedPascalCasePlural = `${layerPascalCase}${pascalCasePlural}`
 
   const queriesPath = '../../../../../database/queries'
+  const withPolicy = hasRowPolicies(data) ? ', policy' : ''
 
   return `// Team-based endpoint - requires @fyit/crouton-auth package
-// The resolveTeamAndCheckMembership utility handles team resolution and auth
-import { updatePosition${prefixedPascalCase} } from '${queriesPath}'
-import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
+// requireCollectionPermission resolves the team and checks the member's role allows the action
+import { updatePosition${prefixedPascalCase}, get${prefixedPascalCasePlural}ByIds } from '${queriesPath}'
+import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'
 
 export default defineEventHandler(async (event) => {
   const timing = useServerTiming(event)
@@ -317,7 +880,7 @@ export default defineEventHandler(async (event) => {
   }
 
   const authTimer = timing.start('auth')
-  const { team } = await resolveTeamAndCheckMembership(event)
+  const { team, user, membership, scope${withPolicy} } = await requireCollectionPermission(event, '${permissionKey(data)}', 'update')
   authTimer.end()
 
   const body = await readBody(event)
@@ -331,8 +894,11 @@ export default defineEventHandler(async (event) => {
   const parentId = body.parentId ?? null
 
   const dbTimer = timing.start('db')
-  const result = await updatePosition${prefixedPascalCase}(team.id, ${camelCase}Id, parentId, body.order)
+  const [before] = await get${prefixedPascalCasePlural}ByIds(team.id, [${camelCase}Id]) as any[]
+  const result = await updatePosition${prefixedPascalCase}(team.id, ${camelCase}Id, parentId, body.order, user.id, { role: membership.role, scope${withPolicy} })
   dbTimer.end()
+
+${emitMutationCode(data, `'move'`, `[{ id: ${camelCase}Id, before, after: result }]`)}
   return result
 })`
 }
@@ -348,17 +914,18 @@ export function generateReorderEndpoint(data: Record<string, any>, config: Recor
   const orderField = hierarchy.orderField || 'order'
 
   const queriesPath = '../../../../database/queries'
+  const withPolicy = hasRowPolicies(data) ? ', policy' : ''
 
   return `// Team-based endpoint - requires @fyit/crouton-auth package
-// The resolveTeamAndCheckMembership utility handles team resolution and auth
-import { reorderSiblings${prefixedPascalCasePlural} } from '${queriesPath}'
-import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
+// requireCollectionPermission resolves the team and checks the member's role allows the action
+import { reorderSiblings${prefixedPascalCasePlural}, get${prefixedPascalCasePlural}ByIds } from '${queriesPath}'
+import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'
 
 export default defineEventHandler(async (event) => {
   const timing = useServerTiming(event)
 
   const authTimer = timing.start('auth')
-  const { team } = await resolveTeamAndCheckMembership(event)
+  const { team, user, membership, scope${withPolicy} } = await requireCollectionPermission(event, '${permissionKey(data)}', 'update')
   authTimer.end()
 
   const body = await readBody(event)
@@ -378,8 +945,14 @@ export default defineEventHandler(async (event) => {
   }
 
   const dbTimer = timing.start('db')
-  const result = await reorderSiblings${prefixedPascalCasePlural}(team.id, body.updates)
+  const before = await readCollectionSnapshots(body.updates.map((update: any) => update.id), ids => get${prefixedPascalCasePlural}ByIds(team.id, ids${withPolicy ? ', { policy }' : ''}) as Promise<any[]>)
+  const result = await reorderSiblings${prefixedPascalCasePlural}(team.id, body.updates, user.id, { role: membership.role, scope${withPolicy} })
   dbTimer.end()
+
+${emitMutationCode(data, `'reorder'`, `body.updates
+      .filter((update: any) => before.has(update.id) && before.get(update.id)!.${orderField} !== update.${orderField})
+      .filter((update: any) => scope !== 'own' || before.get(update.id)!.owner === user.id)
+      .map((update: any) => ({ id: update.id, before: before.get(update.id), after: { ...before.get(update.id), ${orderField}: update.${orderField} } }))`)}
   return result
 })`
 }
@@ -8,7 +8,8 @@
 //     the happy path calls the query with the resolved team's id (flip the
 //     `teamId: team.id` in a handler and this turns red).
 //   • error paths — an invalid body is rejected before any write, a missing id
-//     param 400s, and a not-found surfaced by the query becomes a 404.
+//     param 400s, a not-found surfaced by the query becomes a 404 and a stale
+//     write (expectedUpdatedAt precondition) a 409.
 //
 // It is runtime-free-ish: no Nuxt server, no DB, no network. The team-auth util
 // and the generated queries module are `vi.mock`ed, the H3/Nitro auto-imports the
@@ -24,6 +25,7 @@
 
 import { toSnakeCase } from '../utils/helpers.ts'
 import { buildCollectionSample, objectLiteral } from './collection-test.ts'
+import { policyTokenTypes } from '../utils/row-policies.ts'
 
 /** Mirror the API directory naming from generate-collection.ts (`${layer}-${plural}`,
  *  or the `crouton-<collection>` form for system layers). */
@@ -51,6 +53,8 @@ export function generateApiTest(data: Record<string, any>, config: Record<string
   const hierarchy = data.hierarchy?.enabled === true
   const sortable = !hierarchy && data.sortable?.enabled === true
   const hasReorder = hierarchy || sortable
+  // PATCH carries an updatedAt precondition whenever metadata columns exist
+  const hasConcurrency = config?.flags?.useMetadata ?? true
   const orderField = hierarchy
     ? (data.hierarchy.orderField || 'order')
     : (sortable ? (data.sortable.orderField || 'order') : 'order')
@@ -63,12 +67,13 @@ export function generateApiTest(data: Record<string, any>, config: Record<string
     `create${S}: vi.fn()`,
     `update${S}: vi.fn()`,
     `delete${S}: vi.fn()`,
+    `bulk${P}: vi.fn()`,
   ]
   if (hierarchy) queryExports.push(`updatePosition${S}: vi.fn()`)
   if (hasReorder) queryExports.push(`reorderSiblings${P}: vi.fn()`)
 
   // Named imports we assert against.
-  const queryImports = [`getAll${P}`, `create${S}`, `update${S}`, `delete${S}`]
+  const queryImports = [`getAll${P}`, `create${S}`, `update${S}`, `delete${S}`, `bulk${P}`]
   if (hierarchy) queryImports.push(`updatePosition${S}`)
   if (hasReorder) queryImports.push(`reorderSiblings${P}`)
 
@@ -78,6 +83,7 @@ export function generateApiTest(data: Record<string, any>, config: Record<string
     `import postHandler from '${routeBase}/index.post.ts'`,
     `import patchHandler from '${routeBase}/[${idParam}].patch.ts'`,
     `import deleteHandler from '${routeBase}/[${idParam}].delete.ts'`,
+    `import bulkHandler from '${routeBase}/bulk.post.ts'`,
   ]
   if (hierarchy) handlerImports.push(`import moveHandler from '${routeBase}/[${idParam}]/move.patch.ts'`)
   if (hasReorder) handlerImports.push(`import reorderHandler from '${routeBase}/reorder.patch.ts'`)
@@ -116,6 +122,11 @@ export function generateApiTest(data: Record<string, any>, config: Record<string
       // first positional arg is always the resolved team id (FK filters ride in opts)
       expect((getAll${P} as any).mock.calls[0][0]).toBe(TEAM.id)
     })
+
+    it('400s on a malformed list query before querying', async () => {
+      await expect(getHandler({ __query: { 'notAField[eq]': 'x' } } as any)).rejects.toMatchObject({ status: 400 })
+      expect(getAll${P}).not.toHaveBeenCalled()
+    })
   })`
 
   const postBlock = `
@@ -155,7 +166,20 @@ export function generateApiTest(data: Record<string, any>, config: Record<string
     it('propagates a not-found from the query as a 404', async () => {
       ;(update${S} as any).mockRejectedValue(Object.assign(new Error('not found'), { status: 404 }))
       await expect(patchHandler({ __params: { ${idParam}: 'missing' }, __body: {} } as any)).rejects.toMatchObject({ status: 404 })
+    })${hasConcurrency
+      ? `
+
+    it('passes expectedUpdatedAt to the query as a precondition, not a column', async () => {
+      ;(update${S} as any).mockResolvedValue({ id: 'rec_1' })
+      await patchHandler({ __params: { ${idParam}: 'rec_1' }, __body: { expectedUpdatedAt: '2025-01-01T00:00:00.000Z' } } as any)
+      expect(update${S}).toHaveBeenCalledWith('rec_1', TEAM.id, USER.id, {}, expect.objectContaining({ expectedUpdatedAt: new Date('2025-01-01T00:00:00.000Z') }))
     })
+
+    it('propagates a stale write from the query as a 409', async () => {
+      ;(update${S} as any).mockRejectedValue(Object.assign(new Error('conflict'), { status: 409, data: { current: { id: 'rec_1' } } }))
+      await expect(patchHandler({ __params: { ${idParam}: 'rec_1' }, __body: {} } as any)).rejects.toMatchObject({ status: 409 })
+    })`
+      : ''}
   })`
 
   const deleteBlock = `
@@ -201,10 +225,33 @@ export function generateApiTest(data: Record<string, any>, config: Record<string
     it('moves scoped to the resolved team', async () => {
       ;(updatePosition${S} as any).mockResolvedValue({ id: 'rec_1' })
       await moveHandler({ __params: { ${idParam}: 'rec_1' }, __body: { order: 0 } } as any)
-      expect(updatePosition${S}).toHaveBeenCalledWith(TEAM.id, 'rec_1', null, 0)
+      expect(updatePosition${S}).toHaveBeenCalledWith(TEAM.id, 'rec_1', null, 0, USER.id, expect.anything())
     })
   })` : ''
 
+  const bulkBlock = `
+  describe('bulk.post', () => {
+    it('rejects an unauthenticated request and never writes', async () => {
+      unauth()
+      await expect(bulkHandler({ __body: { operations: [{ op: 'delete', id: 'rec_1' }] } } as any)).rejects.toBeTruthy()
+      expect(bulk${P}).not.toHaveBeenCalled()
+    })
+
+    it('422s on an invalid row before writing', async () => {
+      const event: any = { __body: { operations: [{ op: 'delete' }] } }
+      const result = await bulkHandler(event)
+      expect(event.__status).toBe(422)
+      expect(result).toMatchObject({ applied: false, results: [{ index: 0, ok: false }] })
+      expect(bulk${P}).not.toHaveBeenCalled()
+    })
+
+    it('applies scoped to the resolved team', async () => {
+      ;(bulk${P} as any).mockResolvedValue({ applied: true, results: [{ index: 0, op: 'delete', id: 'rec_1', ok: true }] })
+      await bulkHandler({ __body: { operations: [{ op: 'delete', id: 'rec_1' }] } } as any)
+      expect(bulk${P}).toHaveBeenCalledWith(TEAM.id, USER.id, [{ op: 'delete', id: 'rec_1' }], expect.anything())
+    })
+  })`
+
   const reorderBlock = hasReorder ? `
   describe('reorder.patch', () => {
     it('rejects an unauthenticated request', async () => {
@@ -220,11 +267,17 @@ export function generateApiTest(data: Record<string, any>, config: Record<string
     it('reorders scoped to the resolved team', async () => {
       ;(reorderSiblings${P} as any).mockResolvedValue([])
       await reorderHandler({ __body: { updates: [{ id: 'a', ${orderField}: 0 }] } } as any)
-      expect((reorderSiblings${P} as any).mock.calls[0][0]).toBe(TEAM.id)
+      expect(reorderSiblings${P}).toHaveBeenCalledWith(TEAM.id, [{ id: 'a', ${orderField}: 0 }], USER.id, expect.anything())
     })
   })` : ''
 
-  const blocks = [getBlock, postBlock, patchBlock, deleteBlock, moveBlock, reorderBlock].filter(Boolean).join('\n')
+  const blocks = [getBlock, postBlock, patchBlock, deleteBlock, bulkBlock, moveBlock, reorderBlock].filter(Boolean).join('\n')
+
+  // GET of collections with token row policies checks for a scoped token first;
+  // the mock finds none, so requests go through the member path as usual
+  const scopedAccessMock = policyTokenTypes(data.policies ?? []).length > 0
+    ? '\n  resolveScopedCollectionAccess: vi.fn(),'
+    : ''
 
   const header = `// @ts-nocheck
 /**
@@ -256,16 +309,18 @@ vi.hoisted(() => {
   g.readBody = async (event: any) => event?.__body
   g.readValidatedBody = async (event: any, validate: any) => validate(event?.__body)
   g.createError = (err: any) => Object.assign(new Error(err?.statusText || err?.message || 'error'), err)
+  g.setResponseStatus = (event: any, status: number) => { event.__status = status }
 })
 
 vi.mock('@fyit/crouton-auth/server/utils/team', () => ({
-  resolveTeamAndCheckMembership: vi.fn(),
+  requireCollectionPermission: vi.fn(),
+  resolveCollectionAccess: vi.fn(),${scopedAccessMock}
 }))
 vi.mock('./server/database/queries', () => ({
   ${queryExports.join(',\n  ')},
 }))
 
-import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
+import { requireCollectionPermission, resolveCollectionAccess } from '@fyit/crouton-auth/server/utils/team'
 import {
   ${queryImports.join(',\n  ')},
 } from './server/database/queries'
@@ -274,10 +329,21 @@ ${handlerImports.join('\n')}
 const TEAM = { id: 'team_1' }
 const USER = { id: 'user_1' }
 const MEMBERSHIP = { role: 'member' }
+// The built-in member role: reads everything, edits and deletes its own rows
+const PERMISSIONS: Record<string, boolean | 'own'> = { read: true, create: true, update: 'own', delete: 'own', export: true }
 const VALID_BODY = ${validBodyLiteral}${invalidConst}
 
-const authed = () => (resolveTeamAndCheckMembership as any).mockResolvedValue({ team: TEAM, user: USER, membership: MEMBERSHIP })
-const unauth = () => (resolveTeamAndCheckMembership as any).mockRejectedValueOnce(Object.assign(new Error('Not a team member'), { status: 403 }))
+const ACCESS = { team: TEAM, user: USER, membership: MEMBERSHIP, permissions: PERMISSIONS }
+const authed = () => {
+  ;(requireCollectionPermission as any).mockImplementation(async (_event: any, _collection: string, action: string) =>
+    ({ ...ACCESS, scope: PERMISSIONS[action] === 'own' ? 'own' : 'all' }))
+  ;(resolveCollectionAccess as any).mockResolvedValue(ACCESS)
+}
+const unauth = () => {
+  const error = Object.assign(new Error('Not a team member'), { status: 403 })
+  ;(requireCollectionPermission as any).mockRejectedValueOnce(error)
+  ;(resolveCollectionAccess as any).mockRejectedValueOnce(error)
+}
 
 beforeEach(() => {
   vi.clearAllMocks()
@@ -11,7 +11,8 @@ export function generateCollectionReadme(data: Record<string, any>, config: Reco
     layerPascalCase,
     layer,
     fields,
-    hierarchy
+    hierarchy,
+    softDelete
   } = data
 
   // Use layerCamelCase if available, fallback to layerPascalCase.toLowerCase() for backwards compatibility
@@ -36,6 +37,7 @@ export function generateCollectionReadme(data: Record<string, any>, config: Reco
 
   // Check for special features
   const hasHierarchy = hierarchy?.enabled === true
+  const hasSoftDelete = softDelete?.enabled === true
   const hasTranslations = config?.translations?.collections?.[plural]?.length > 0
   const translatableFields = config?.translations?.collections?.[plural] || []
   const referenceFields = fields.filter(f => f.refTarget)
@@ -45,8 +47,9 @@ export function generateCollectionReadme(data: Record<string, any>, config: Reco
   const features = []
   if (hasHierarchy) features.push('- Tree/hierarchy structure with parent-child relationships')
   if (hasTranslations) features.push(`- Multi-language support for: ${translatableFields.join(', ')}`)
-  if (referenceFields.length) features.push(`- References: ${referenceFields.map(f => `${f.name} → ${f.refTarget}`).join(', ')}`)
+  if (referenceFields.length) features.push(`- References: ${referenceFields.map(f => `${f.name} → ${f.refTarget}${f.type === 'references' ? ' (many-to-many, join table)' : ''}`).join(', ')}`)
   if (repeaterFields.length) features.push(`- Repeater fields: ${repeaterFields.map(f => f.name).join(', ')}`)
+  if (hasSoftDelete) features.push('- Soft delete: DELETE moves items to the trash (restore or purge from there)')
 
   const featuresSection = features.length > 0
     ? `\n## Features\n\n${features.join('\n')}\n`
@@ -82,10 +85,16 @@ collections/${plural}/
 │   │   ├── index.get.ts          # GET all / by IDs
 │   │   ├── index.post.ts         # CREATE
 │   │   ├── [${singular}Id].patch.ts    # UPDATE
+│   │   ├── bulk.post.ts          # Bulk create/update/delete (one transaction)
+│   │   ├── export.get.ts         # Streamed CSV/JSON/XLSX export
 │   │   └── [${singular}Id].delete.ts   # DELETE${hasHierarchy
   ? `
 │   │   ├── [${singular}Id]/move.patch.ts  # Move in tree
 │   │   └── reorder.patch.ts      # Reorder siblings`
+  : ''}${hasSoftDelete
+  ? `
+│   │   ├── [${singular}Id]/restore.patch.ts  # Restore from trash
+│   │   └── [${singular}Id]/purge.delete.ts   # Permanently delete`
   : ''}
 │   └── database/
 │       ├── schema.ts             # Drizzle ORM schema
@@ -104,7 +113,11 @@ ${fieldRows}
 | createdAt | timestamp | Auto |
 | updatedAt | timestamp | Auto |
 | createdBy | string | Auto |
-| updatedBy | string | Auto |
+| updatedBy | string | Auto |${hasSoftDelete
+  ? `
+| deletedAt | timestamp | Auto (trash) |
+| deletedBy | string | Auto (trash) |`
+  : ''}
 
 ## API Endpoints
 
@@ -148,7 +161,7 @@ const updated = await $fetch(\`/api/teams/\${teamId}/${apiPath}/\${${singular}Id
 
 ### DELETE /api/teams/{teamId}/${apiPath}/{${singular}Id}
 
-Delete an item.
+${hasSoftDelete ? 'Move an item to the trash (sets `deletedAt`/`deletedBy`).' : 'Delete an item.'}
 
 \`\`\`typescript
 await $fetch(\`/api/teams/\${teamId}/${apiPath}/\${${singular}Id}\`, {
@@ -156,6 +169,47 @@ await $fetch(\`/api/teams/\${teamId}/${apiPath}/\${${singular}Id}\`, {
 })
 \`\`\`
 
+### POST /api/teams/{teamId}/${apiPath}/bulk
+
+Apply up to 1000 create/update/delete operations in one transaction. Every row is
+validated first; if any fails, nothing is written and the response (422) lists the
+failing rows. \`dryRun: true\` validates without writing.
+
+\`\`\`typescript
+const { applied, results } = await $fetch(\`/api/teams/\${teamId}/${apiPath}/bulk\`, {
+  method: 'POST',
+  body: {
+    operations: [
+      { op: 'create', data: { /* fields */ } },
+      { op: 'update', id: 'id1', data: { /* fields to update */ } },
+      { op: 'delete', id: 'id2' }
+    ]
+  }
+})
+\`\`\`
+
+### GET /api/teams/{teamId}/${apiPath}/export
+
+Stream every row matching the list filters as \`csv\`, \`json\` or \`xlsx\`. References
+export the referenced title${hasTranslations ? ' and translated fields follow `?locale=`' : ''}. Link to it
+instead of fetching, so the browser writes the file as it arrives.
+
+\`\`\`typescript
+window.location.href = \`/api/teams/\${teamId}/${apiPath}/export?format=xlsx&sort=-createdAt\`
+\`\`\`
+${hasSoftDelete
+  ? `
+### Trash
+
+\`GET ?trashed=true\` lists trashed items; restore or permanently delete them by ID.
+
+\`\`\`typescript
+const trash = await $fetch(\`/api/teams/\${teamId}/${apiPath}?trashed=true\`)
+await $fetch(\`/api/teams/\${teamId}/${apiPath}/\${${singular}Id}/restore\`, { method: 'PATCH' })
+await $fetch(\`/api/teams/\${teamId}/${apiPath}/\${${singular}Id}/purge\`, { method: 'DELETE' })
+\`\`\`
+`
+  : ''}
 ## Usage
 
 ### In Components
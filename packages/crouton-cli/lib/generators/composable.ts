@@ -1,5 +1,7 @@
 // Generator for use[Collection].ts composable
 import { toCase } from '../utils/helpers.ts'
+import { refineRules } from '../utils/validation-rules.ts'
+import { refineSchemaCode, validateFunctionName } from './validation-rules.ts'
 
 /**
  * Generate Zod schema for a repeater item with optional translatable properties
@@ -97,7 +99,7 @@ function generateAIHeader(data: Record<string, any>, apiPath: string): string {
 }
 
 export function generateComposable(data: Record<string, any>, config: Record<string, any> = {}): string {
-  const { singular, plural, pascalCase, pascalCasePlural, layerPascalCase, layerCamelCase, layer, fields, hierarchy, sortable, display, publishable, kind } = data
+  const { singular, plural, pascalCase, pascalCasePlural, layerPascalCase, layerCamelCase, layer, fields, hierarchy, sortable, softDelete, display, publishable, kind } = data
   // Use layerCamelCase for proper camelCase collection names (e.g., "knowledge-base" -> "knowledgeBase")
   const prefixedSingular = `${layerCamelCase}${pascalCase}`
   const prefixedPlural = `${layerCamelCase}${pascalCasePlural}`
@@ -127,6 +129,19 @@ export function generateComposable(data: Record<string, any>, config: Record<str
     ? `,\n  dependentFieldComponents: {\n${Object.entries(dependentFieldComponents).map(([field, component]) => `    ${field}: '${component}'`).join(',\n')}\n  }`
     : ''
 
+  // Generate references map (field → target collection) for cache refresh and
+  // import-time resolution of reference columns by title. Same resolution as the form:
+  // adapter-scoped targets as-is, local targets with the layer prefix
+  const referenceFields = fields.filter(field => field.refTarget)
+  const referencesConfigCode = referenceFields.length > 0
+    ? `,\n  references: {\n${referenceFields.map((field) => {
+      const target = field.refScope === 'adapter'
+        ? field.refTarget
+        : `${layerCamelCase}${toCase(field.refTarget).pascalCasePlural}`
+      return `    ${field.name}: '${target}'`
+    }).join(',\n')}\n  }`
+    : ''
+
   // Generate hierarchy config if enabled
   const hierarchyConfigCode = hierarchy?.enabled
     ? `,\n  hierarchy: {
@@ -147,6 +162,11 @@ export function generateComposable(data: Record<string, any>, config: Record<str
   }`
     : ''
 
+  // Generate softDelete flag if enabled (enables the trash layout + restore/purge mutations)
+  const softDeleteConfigCode = softDelete?.enabled
+    ? `,\n  softDelete: true`
+    : ''
+
   // Generate display config if provided
   const displayConfigCode = display
     ? `,\n  display: ${JSON.stringify(display)}`
@@ -173,6 +193,8 @@ export function generateComposable(data: Record<string, any>, config: Record<str
       }
       if (f.meta?.area) entry.area = f.meta.area
       if (f.meta?.displayAs) entry.displayAs = f.meta.displayAs
+      // Enum options drive list badges and kanban columns at runtime
+      if (f.type === 'enum' && f.meta?.options) entry.options = f.meta.options
       return entry
     })
   const fieldsMetaCode = `,\n  fields: ${JSON.stringify(runtimeFields, null, 4).replace(/\n/g, '\n  ')}`
@@ -188,17 +210,24 @@ export function generateComposable(data: Record<string, any>, config: Record<str
     .filter(f => f.type === 'repeater' && (f.meta?.translatableProperties || f.meta?.properties))
     .map(f => generateRepeaterItemSchema(f, layerCamelCase, pascalCasePlural))
 
+  // Cross-field rules (validation.ts) run after the field checks
+  const hasRefineRules = refineRules(fields).length > 0
+  const validationImport = hasRefineRules
+    ? `\nimport { ${validateFunctionName(data)} } from '../../validation'`
+    : ''
+  const schemaRefine = hasRefineRules ? refineSchemaCode(data) : ''
+
   const itemSchemasCode = repeaterItemSchemas.length > 0
     ? repeaterItemSchemas.map(s => s.code).join('\n\n') + '\n\n'
     : ''
 
-  return `${aiHeader}import { z } from 'zod'
+  return `${aiHeader}import { z } from 'zod'${validationImport}
 
 ${itemSchemasCode}// Schema exported separately - Zod 4 schemas cannot survive deep cloning
 // Keep schema outside of objects that might be serialized/cloned during SSR
 export const ${prefixedSingular}Schema = z.object({
   ${data.fieldsSchema}
-})
+})${schemaRefine}
 
 export const ${prefixedPlural}Columns = [
   ${columns}
@@ -213,7 +242,7 @@ const _${prefixedPlural}Config = {
   defaultValues: {
     ${data.fieldsDefault}
   },
-  columns: ${prefixedPlural}Columns${kindConfigCode}${dependentFieldComponentsCode}${hierarchyConfigCode}${sortableConfigCode}${displayConfigCode}${publishableConfigCode}${fieldsMetaCode},
+  columns: ${prefixedPlural}Columns${kindConfigCode}${dependentFieldComponentsCode}${referencesConfigCode}${hierarchyConfigCode}${sortableConfigCode}${softDeleteConfigCode}${displayConfigCode}${publishableConfigCode}${fieldsMetaCode},
 }
 
 // Add schema as non-enumerable property so klona skips it during cloning
@@ -0,0 +1,76 @@
+// Generator for a collection's computed.ts: one function that derives every
+// computed field from an item, shared by the form and the server
+import { computedFields, compileExpression, COMPUTED_HELPER_FUNCTIONS } from '../utils/computed-fields.ts'
+
+const NUMERIC_TYPES = new Set(['number', 'integer', 'decimal'])
+const TEXT_TYPES = new Set(['string', 'text', 'enum'])
+
+// Name of the generated function (e.g. computeShopOrderItemFields)
+export function computeFunctionName(data: Record<string, any>): string {
+  return `compute${data.layerPascalCase}${data.pascalCase}Fields`
+}
+
+// How an expression reads a field: coerced to the field's type so `+` adds
+// numbers, dates compare as timestamps and empty values don't turn the result
+// into NaN. Shared with validation rules.
+export function readField(field: Record<string, any> | undefined, source: string): string {
+  if (field && NUMERIC_TYPES.has(field.type)) return `toNumber(${source})`
+  if (field && TEXT_TYPES.has(field.type)) return `toText(${source})`
+  if (field?.type === 'boolean') return `Boolean(${source})`
+  if (field?.type === 'date') return `toTime(${source})`
+  return source
+}
+
+// Shape the result to the computed field's own type
+function castResult(field: Record<string, any>, code: string): string {
+  if (field.type === 'decimal') {
+    return field.meta?.scale != null ? `finite(round(${code}, ${field.meta.scale}))` : `finite(${code})`
+  }
+  if (NUMERIC_TYPES.has(field.type)) return `finite(Math.round(${code}))`
+  if (TEXT_TYPES.has(field.type)) return `toText(${code})`
+  if (field.type === 'boolean') return `Boolean(${code})`
+  return code
+}
+
+// Import line for the runtime helpers the generated code calls
+export function helperImport(body: string): string {
+  const helpers = ['toNumber', 'toText', 'toTime', 'isBlank', 'finite', ...COMPUTED_HELPER_FUNCTIONS]
+    .filter(helper => new RegExp(`(?<![\\w.])${helper}\\(`).test(body)) // not Math.round(
+  return helpers.length > 0
+    ? `import { ${helpers.join(', ')} } from '@fyit/crouton-core/shared/utils/computed-fields'\n\n`
+    : ''
+}
+
+export function generateComputedFields(data: Record<string, any>): string {
+  const { fields, plural, layer } = data
+  const fieldByName = new Map<string, Record<string, any>>(fields.map((field: Record<string, any>) => [field.name, field]))
+  const computed = computedFields(fields)
+  const computedNames = new Set(computed.map(field => field.name))
+
+  const lines = computed.map((spec) => {
+    const code = compileExpression(spec.expression, name =>
+      readField(fieldByName.get(name), computedNames.has(name) ? name : `item.${name}`)
+    )
+    return `  // ${spec.stored ? 'stored' : 'virtual'}: ${spec.expression}
+  const ${spec.name} = ${castResult(fieldByName.get(spec.name)!, code)}`
+  })
+  const body = lines.join('\n')
+
+  const importLine = helperImport(body)
+
+  return `/**
+ * @crouton-generated
+ * @collection ${plural}
+ * @layer ${layer}
+ *
+ * Computed fields, derived from the other fields of an item. The form imports
+ * this for a live read-only preview; the server recomputes stored fields on
+ * every write and adds virtual fields to every read, so both sides always
+ * agree. Regenerate instead of editing: the expressions live in the schema.
+ */
+${importLine}export function ${computeFunctionName(data)}(item: Record<string, any>) {
+${body}
+  return { ${computed.map(field => field.name).join(', ')} }
+}
+`
+}
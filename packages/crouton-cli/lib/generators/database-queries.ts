@@ -1,5 +1,10 @@
 // Generator for database queries
-import { toKebabCase, pascal } from '../utils/helpers.ts'
+import { toKebabCase, pascal, quoteValue } from '../utils/helpers.ts'
+import { joinTableExportName } from './database-schema.ts'
+import { computeFunctionName } from './computed-fields.ts'
+import { computedFields, isVirtualField } from '../utils/computed-fields.ts'
+import { uniqueFieldNames } from '../utils/validation-rules.ts'
+import { policyConditions, type PolicyCondition, type RowPolicy } from '../utils/row-policies.ts'
 
 // Helper to generate tree-specific queries when hierarchy is enabled
 function generateTreeQueries(data: Record<string, any>, tableName: string, prefixedPascalCase: string, prefixedPascalCasePlural: string, camelCasePlural: string): string {
@@ -14,6 +19,13 @@ function generateTreeQueries(data: Record<string, any>, tableName: string, prefi
   const depthField = hierarchy.depthField || 'depth'
   const orderField = hierarchy.orderField || 'order'
 
+  // Moves and reorders reach the same rows as update*: live ones the row policies allow
+  const softDelete = data.softDelete?.enabled === true
+  const hasPolicies = (data.policies ?? []).length > 0
+  const policyType = hasPolicies ? '; policy?: RowPolicyContext' : ''
+  const liveRowFilter = (indent: string) => softDelete ? `,\n${indent}isNull(tables.${tableName}.deletedAt)` : ''
+  const policyRowFilter = (indent: string) => hasPolicies ? `\n${indent}conditions.push(...rowPolicyConditions(options?.policy))` : ''
+
   // Note: Type assertions (as any) are used throughout to handle drizzle-orm version mismatches
   // that can occur in monorepo setups. This is a pragmatic solution that allows the generated
   // code to work across different drizzle-orm versions.
@@ -37,7 +49,9 @@ export async function getTreeData${prefixedPascalCasePlural}(teamId: string) {
   const ${camelCasePlural} = await (db as any)
     .select()
     .from(tables.${tableName})
-    .where(eq(tables.${tableName}.teamId, teamId))
+    .where(${data.softDelete?.enabled
+      ? `and(eq(tables.${tableName}.teamId, teamId), isNull(tables.${tableName}.deletedAt))`
+      : `eq(tables.${tableName}.teamId, teamId)`})
     .orderBy(tables.${tableName}.${pathField}, tables.${tableName}.${orderField})
 
   return ${camelCasePlural} as TreeItem[]
@@ -47,25 +61,33 @@ export async function updatePosition${prefixedPascalCase}(
   teamId: string,
   id: string,
   newParentId: string | null,
-  newOrder: number
+  newOrder: number,
+  userId: string,
+  options?: { role?: string; scope?: 'all' | 'own'${policyType} }
 ) {
   const db = useDB()
+  const isAdmin = options?.role === 'admin' || options?.role === 'owner'
+  // The role's collection permissions decide when given; otherwise only admins reach every row
+  const ownRowsOnly = options?.scope ? options.scope === 'own' : !isAdmin
+
+  const conditions = [
+    eq(tables.${tableName}.id, id),
+    eq(tables.${tableName}.teamId, teamId)${liveRowFilter('    ')}
+  ]
+  if (ownRowsOnly) {
+    conditions.push(eq(tables.${tableName}.owner, userId))
+  }${policyRowFilter('  ')}
 
   // Get the current item to find its path
   const [current] = await (db as any)
     .select()
     .from(tables.${tableName})
-    .where(
-      and(
-        eq(tables.${tableName}.id, id),
-        eq(tables.${tableName}.teamId, teamId)
-      )
-    ) as TreeItem[]
+    .where(and(...conditions)) as TreeItem[]
 
   if (!current) {
     throw createError({
       status: 404,
-      statusText: '${prefixedPascalCase} not found'
+      statusText: '${prefixedPascalCase} not found or unauthorized'
     })
   }
 
@@ -80,7 +102,7 @@ export async function updatePosition${prefixedPascalCase}(
       .where(
         and(
           eq(tables.${tableName}.id, newParentId),
-          eq(tables.${tableName}.teamId, teamId)
+          eq(tables.${tableName}.teamId, teamId)${liveRowFilter('          ')}${hasPolicies ? ',\n          ...rowPolicyConditions(options?.policy)' : ''}
         )
       ) as TreeItem[]
 
@@ -117,17 +139,13 @@ export async function updatePosition${prefixedPascalCase}(
       ${depthField}: newDepth,
       ${orderField}: newOrder
     })
-    .where(
-      and(
-        eq(tables.${tableName}.id, id),
-        eq(tables.${tableName}.teamId, teamId)
-      )
-    )
+    .where(and(...conditions))
     .returning()
 
   // Update all descendants' paths if the path changed
   if (oldPath !== newPath) {
-    // Get all descendants
+    // Get all descendants, including ones in the trash or hidden by a row
+    // policy: their paths must follow the subtree or it breaks for whoever sees them
     const descendants = await (db as any)
       .select()
       .from(tables.${tableName})
@@ -158,22 +176,30 @@ export async function updatePosition${prefixedPascalCase}(
 
 export async function reorderSiblings${prefixedPascalCasePlural}(
   teamId: string,
-  updates: { id: string; ${orderField}: number }[]
+  updates: { id: string; ${orderField}: number }[],
+  userId: string,
+  options?: { role?: string; scope?: 'all' | 'own'${policyType} }
 ) {
   const db = useDB()
+  const isAdmin = options?.role === 'admin' || options?.role === 'owner'
+  // The role's collection permissions decide when given; otherwise only admins reach every row
+  const ownRowsOnly = options?.scope ? options.scope === 'own' : !isAdmin
 
   const results = []
 
   for (const update of updates) {
+    const conditions = [
+      eq(tables.${tableName}.id, update.id),
+      eq(tables.${tableName}.teamId, teamId)${liveRowFilter('      ')}
+    ]
+    if (ownRowsOnly) {
+      conditions.push(eq(tables.${tableName}.owner, userId))
+    }${policyRowFilter('    ')}
+
     const [updated] = await (db as any)
       .update(tables.${tableName})
       .set({ ${orderField}: update.${orderField} })
-      .where(
-        and(
-          eq(tables.${tableName}.id, update.id),
-          eq(tables.${tableName}.teamId, teamId)
-        )
-      )
+      .where(and(...conditions))
       .returning()
 
     if (updated) {
@@ -194,35 +220,414 @@ function generateSortableQueries(data: Record<string, any>, tableName: string, p
 
   const orderField = sortable.orderField || 'order'
 
+  // Reorders reach the same rows as update*: live ones the row policies allow
+  const softDelete = data.softDelete?.enabled === true
+  const hasPolicies = (data.policies ?? []).length > 0
+  const policyType = hasPolicies ? '; policy?: RowPolicyContext' : ''
+  const liveRowFilter = (indent: string) => softDelete ? `,\n${indent}isNull(tables.${tableName}.deletedAt)` : ''
+  const policyRowFilter = (indent: string) => hasPolicies ? `\n${indent}conditions.push(...rowPolicyConditions(options?.policy))` : ''
+
   return `
 
 // Sortable reorder queries (auto-generated when sortable: true)
 
 export async function reorderSiblings${prefixedPascalCasePlural}(
   teamId: string,
-  updates: { id: string; ${orderField}: number }[]
+  updates: { id: string; ${orderField}: number }[],
+  userId: string,
+  options?: { role?: string; scope?: 'all' | 'own'${policyType} }
 ) {
   const db = useDB()
+  const isAdmin = options?.role === 'admin' || options?.role === 'owner'
+  // The role's collection permissions decide when given; otherwise only admins reach every row
+  const ownRowsOnly = options?.scope ? options.scope === 'own' : !isAdmin
 
   const results = await Promise.all(
-    updates.map(({ id, ${orderField} }) =>
-      (db as any)
+    updates.map(({ id, ${orderField} }) => {
+      const conditions = [
+        eq(tables.${tableName}.id, id),
+        eq(tables.${tableName}.teamId, teamId)${liveRowFilter('        ')}
+      ]
+      if (ownRowsOnly) {
+        conditions.push(eq(tables.${tableName}.owner, userId))
+      }${policyRowFilter('      ')}
+
+      return (db as any)
         .update(tables.${tableName})
         .set({ ${orderField} })
-        .where(
-          and(
-            eq(tables.${tableName}.id, id),
-            eq(tables.${tableName}.teamId, teamId)
-          )
-        )
+        .where(and(...conditions))
         .returning()
-    )
+    })
   )
 
   return { success: true, updated: results.flat().length }
 }`
 }
 
+// Requester values a row policy may compare with, as read from the context
+const POLICY_VALUE_CODE: Record<string, string> = {
+  '$user.id': 'context.userId',
+  '$member.id': 'context.memberId',
+  '$role': 'context.role',
+  '$token.resourceId': 'context.token.resourceId',
+  '$token.role': 'context.token.role'
+}
+
+function policyValueCode(value: unknown): string {
+  if (typeof value === 'string') return POLICY_VALUE_CODE[value] ?? quoteValue(value)
+  return String(value)
+}
+
+// One policy condition on a column. Array fields are JSON text, read with
+// SQLite's json_each/json_array_length like the rest of the generated queries.
+function policyConditionCode(column: string, condition: PolicyCondition): string {
+  const { op, value } = condition
+  switch (op) {
+    case 'ne': return value === null ? `isNotNull(${column})` : `ne(${column}, ${policyValueCode(value)})`
+    case 'in': return `inArray(${column}, [${(value as unknown[]).map(policyValueCode).join(', ')}])`
+    case 'contains': return `sql\`exists (select 1 from json_each(\${${column}}) where json_each.value = \${${policyValueCode(value)}})\``
+    case 'empty': return `sql\`coalesce(json_array_length(nullif(\${${column}}, '')), 0) ${value ? '=' : '>'} 0\``
+    default: return value === null ? `isNull(${column})` : `eq(${column}, ${policyValueCode(value)})`
+  }
+}
+
+// Helper to generate rowPolicyConditions() from the schema's row policies
+// (see utils/row-policies.ts): the where clause every read, update and delete
+// query adds for the requester passed as `policy`. A condition through a
+// reference becomes a subquery on the referenced table (`referenceTable`).
+function generateRowPolicyHelper(policies: RowPolicy[], tableName: string, referenceTable: (fieldName: string) => string): string {
+  const usesReferences = policies.some(policy => policyConditions(policy).some(condition => condition.target))
+
+  const branches = policies.map((policy) => {
+    const test = policy.token
+      ? `context.token?.resourceType === ${quoteValue(policy.token)}`
+      : policy.roles
+        ? `!context.token && [${policy.roles.map(quoteValue).join(', ')}].includes(context.role)`
+        : `!context.token && !UNFILTERED_ROLES.includes(context.role)`
+    const conditions = policyConditions(policy).map((condition) => {
+      if (!condition.target) return policyConditionCode(`tables.${tableName}.${condition.field}`, condition)
+      const target = referenceTable(condition.field)
+      return `inArray(tables.${tableName}.${condition.field}, (db as any)
+      .select({ id: ${target}.id })
+      .from(${target})
+      .where(${policyConditionCode(`${target}.${condition.target}`, condition)}))`
+    })
+    const allowed = conditions.length === 1
+      ? conditions[0]
+      : `and(\n      ${conditions.map(code => code.replace(/\n/g, '\n  ')).join(',\n      ')}\n    )!`
+    return `  if (${test}) {
+    allowed.push(${allowed})
+  }`
+  })
+
+  return `
+// Roles that reach every row unless a policy names them: owners, admins and
+// API keys (which are limited by their scopes instead)
+const UNFILTERED_ROLES = ['owner', 'admin', 'api-key']
+
+// Row policies from the schema: the rows a member or scoped-token holder may
+// reach, the union of the policies that apply to them. Without a context
+// (server code acting on its own) rows aren't filtered.
+function rowPolicyConditions(context?: RowPolicyContext): SQL[] {
+  if (!context) return []${usesReferences ? '\n  const db = useDB()' : ''}
+  const allowed: SQL[] = []
+${branches.join('\n')}
+  if (allowed.length > 0) return [or(...allowed)!]
+  return context.role && UNFILTERED_ROLES.includes(context.role) ? [] : [sql\`1 = 0\`]
+}
+`
+}
+
+// Helper to generate soft delete queries when softDelete is enabled:
+// delete* stamps deletedAt/deletedBy instead of removing the row, restore*
+// clears them again and purge* hard-deletes a row that is already in the trash
+function generateSoftDeleteQueries(tableName: string, prefixedPascalCase: string, hasPolicies = false): string {
+  const mutation = (name: string, comment: string, trashed: boolean, body: string, result: string) => `${comment}
+export async function ${name}${prefixedPascalCase}(
+  recordId: string,
+  teamId: string,
+  userId: string,
+  options?: { role?: string; scope?: 'all' | 'own'${hasPolicies ? '; policy?: RowPolicyContext' : ''} }
+) {
+  const db = useDB()
+  const isAdmin = options?.role === 'admin' || options?.role === 'owner'
+  // The role's collection permissions decide when given; otherwise only admins reach every row
+  const ownRowsOnly = options?.scope ? options.scope === 'own' : !isAdmin
+
+  const conditions = [
+    eq(tables.${tableName}.id, recordId),
+    eq(tables.${tableName}.teamId, teamId),
+    ${trashed ? 'isNotNull' : 'isNull'}(tables.${tableName}.deletedAt),
+  ]
+  if (ownRowsOnly) {
+    conditions.push(eq(tables.${tableName}.owner, userId))
+  }${hasPolicies ? '\n  conditions.push(...rowPolicyConditions(options?.policy))' : ''}
+
+  const [${result}] = await (db as any)
+${body}
+    .where(and(...conditions))
+    .returning()
+
+  if (!${result}) {
+    throw createError({
+      status: 404,
+      statusText: '${prefixedPascalCase} not found or unauthorized'
+    })
+  }
+
+  return ${result === 'restored' ? result : '{ success: true }'}
+}`
+
+  return [
+    mutation('delete', '// Soft delete: moves the row to the trash (see restore/purge below)', false, `    .update(tables.${tableName})
+    .set({ deletedAt: new Date(), deletedBy: userId })`, 'deleted'),
+    mutation('restore', '// Restore a row from the trash', true, `    .update(tables.${tableName})
+    .set({ deletedAt: null, deletedBy: null })`, 'restored'),
+    mutation('purge', '// Permanently delete a row — only rows already in the trash can be purged', true, `    .delete(tables.${tableName})`, 'purged')
+  ].join('\n\n')
+}
+
+// Helper to generate the bulk query behind POST /bulk: every update/delete target
+// is resolved (team/owner scope, live rows, optional updatedAt precondition)
+// before anything is written, then all operations run in one transaction. The
+// precondition is checked again by the write itself, so an update another save
+// overtook in between writes nothing and is reported as a conflict
+function generateBulkQuery(tableName: string, prefixedPascalCasePlural: string, options: { softDelete: boolean, useMetadata: boolean, hasRelations?: boolean, hasPolicies?: boolean }): string {
+  const { softDelete, useMetadata, hasRelations = false, hasPolicies = false } = options
+
+  const deleteStatement = softDelete
+    ? `q.update(tables.${tableName})
+      .set({ deletedAt: new Date(), deletedBy: userId })
+      .where(target)
+      .returning({ id: tables.${tableName}.id })`
+    : `q.delete(tables.${tableName})
+      .where(target)
+      .returning({ id: tables.${tableName}.id })`
+
+  const staleCheck = useMetadata
+    ? `
+    if (hasPrecondition(operation)
+      && new Date(operation.expectedUpdatedAt!).getTime() !== new Date(row.updatedAt).getTime()) {
+      return { index, op: operation.op, id: operation.id, ok: false, error: 'Modified by someone else' }
+    }`
+    : ''
+  const splitRelations = hasRelations
+    ? `  // Split many-to-many values off the payloads; unknown targets fail the operation
+  const payloads: ({ data: Record<string, any>; links: Record<string, string[]> } | null)[] = []
+  for (const [index, operation] of operations.entries()) {
+    if (operation.op === 'delete' || !results[index]!.ok) {
+      payloads.push(null)
+      continue
+    }
+    const { data, links, error } = await resolveRelations(teamId, operation.data)
+    if (error) {
+      results[index] = { ...results[index]!, ok: false, error }
+    }
+    payloads.push({ data, links })
+  }
+
+`
+    : ''
+  const sourceIdsDeclaration = hasRelations
+    ? `
+  // Ids of created rows are assigned up front so their links join the same batch
+  const sourceIds = operations.map(operation => operation.op === 'create'
+    ? (operation.data.id ?? crypto.randomUUID())
+    : operation.id)
+`
+    : ''
+  // Links of an update with a precondition wait until its write went through
+  // (as in update*); the other operations' links join the batch
+  const deferLinks = hasRelations && useMetadata
+  const relationWrites = hasRelations
+    ? `.concat(payloads.flatMap((payload, index) => payload${deferLinks ? ' && !hasPrecondition(operations[index]!)' : ''}
+    ? relationStatements(q, sourceIds[index]!, teamId, payload.links)
+    : []))`
+    : ''
+  const deferredLinks = deferLinks
+    ? `
+
+  // Links of updates with a precondition, once their write went through
+  const deferred = operations.flatMap((operation, index) =>
+    hasPrecondition(operation) && written[index]?.length && payloads[index] ? [index] : [])
+  if (deferred.length > 0) {
+    await runCollectionBatch(db, q => deferred.flatMap(index => relationStatements(q, sourceIds[index]!, teamId, payloads[index]!.links)))
+  }`
+    : ''
+  const updateTarget = useMetadata
+    ? `hasPrecondition(operation)
+          ? and(target, eq(tables.${tableName}.updatedAt, new Date(operation.expectedUpdatedAt!)))
+          : target`
+    : 'target'
+  const preconditionHelper = useMetadata
+    ? `
+  const hasPrecondition = (operation: CollectionBulkOperation): operation is CollectionBulkUpdate =>
+    operation.op === 'update' && !!operation.expectedUpdatedAt
+`
+    : ''
+
+  return `// Bulk create/update/delete (POST /bulk). If any operation fails to resolve,
+// nothing is written; otherwise all of them are applied in one transaction.
+export async function bulk${prefixedPascalCasePlural}(
+  teamId: string,
+  userId: string,
+  operations: CollectionBulkOperation[],
+  options?: { role?: string; scope?: 'all' | 'own'; dryRun?: boolean${hasPolicies ? '; policy?: RowPolicyContext' : ''} }
+): Promise<CollectionBulkResponse> {
+  const db = useDB()
+  const isAdmin = options?.role === 'admin' || options?.role === 'owner'
+  // The role's collection permissions decide when given; otherwise only admins reach every row
+  const ownRowsOnly = options?.scope ? options.scope === 'own' : !isAdmin
+
+  const scope = [
+    eq(tables.${tableName}.teamId, teamId),${softDelete ? `\n    isNull(tables.${tableName}.deletedAt),` : ''}
+  ]
+  if (ownRowsOnly) {
+    scope.push(eq(tables.${tableName}.owner, userId))
+  }${hasPolicies ? '\n  scope.push(...rowPolicyConditions(options?.policy))' : ''}
+
+  // Resolve targets in slices: D1 caps bound parameters per statement at 100
+  const targetIds = [...new Set(operations.flatMap(operation => operation.op === 'create' ? [] : [operation.id]))]
+  const existing: { id: string${useMetadata ? '; updatedAt: Date' : ''} }[] = []
+  for (let i = 0; i < targetIds.length; i += 90) {
+    existing.push(...await (db as any)
+      .select({ id: tables.${tableName}.id${useMetadata ? `, updatedAt: tables.${tableName}.updatedAt` : ''} })
+      .from(tables.${tableName})
+      .where(and(...scope, inArray(tables.${tableName}.id, targetIds.slice(i, i + 90)))))
+  }
+  const existingById = new Map(existing.map(row => [row.id, row]))
+${preconditionHelper}
+  const results: CollectionBulkResult[] = operations.map((operation, index) => {
+    if (operation.op === 'create') {
+      return { index, op: operation.op, ok: true }
+    }
+    const row = existingById.get(operation.id)
+    if (!row) {
+      return { index, op: operation.op, id: operation.id, ok: false, error: 'Not found or unauthorized' }
+    }${staleCheck}
+    return { index, op: operation.op, id: operation.id, ok: true }
+  })
+
+${splitRelations}  if (options?.dryRun || results.some(result => !result.ok)) {
+    return { applied: false, results }
+  }
+${sourceIdsDeclaration}
+  const written = await runCollectionBatch(db, q => operations.map((operation${hasRelations ? ', index' : ''}) => {
+    if (operation.op === 'create') {
+      return q.insert(tables.${tableName})
+        .values({ ...${hasRelations ? 'payloads[index]!.data, id: sourceIds[index]' : 'operation.data'}, teamId, owner: userId${useMetadata ? ', createdBy: userId, updatedBy: userId' : ''} })
+        .returning({ id: tables.${tableName}.id })
+    }
+    const target = and(eq(tables.${tableName}.id, operation.id), ...scope)
+    if (operation.op === 'update') {
+      return q.update(tables.${tableName})
+        .set({ ...${hasRelations ? 'payloads[index]!.data' : 'operation.data'}${useMetadata ? ', updatedBy: userId' : ''} })
+        .where(${updateTarget})
+        .returning({ id: tables.${tableName}.id })
+    }
+    return ${deleteStatement}
+  })${relationWrites})${deferredLinks}
+
+  // An update or delete that matched no row any more (saved or removed by
+  // someone else since the check above) wrote nothing
+  return {
+    applied: true,
+    results: results.map((result, i) => result.op !== 'create' && !written[i]?.length
+      ? { ...result, ok: false, error: ${useMetadata ? `hasPrecondition(operations[i]!) ? 'Modified by someone else' : 'Not found or unauthorized'` : `'Not found or unauthorized'`} }
+      : { ...result, id: written[i]?.[0]?.id ?? result.id })
+  }
+}`
+}
+
+// Helper to generate the module-private helpers behind many-to-many (`references`)
+// fields: each relation is read from and written to its join table (see
+// generateSchema). Targets are checked before anything is written, so a link
+// can only point at a row that exists (in the same team, for local targets).
+function generateRelationHelpers(tableName: string, relations: { fieldName: string, targetTable: string, teamScoped: boolean }[]): string {
+  const entries = relations.map(relation => `
+  { field: '${relation.fieldName}', joinTable: tables.${joinTableExportName(tableName, relation.fieldName)}, targetTable: ${relation.targetTable}, teamScoped: ${relation.teamScoped} }`).join(',')
+
+  return `
+// Many-to-many relations (\`references\` fields) and their join tables
+const relations: { field: string; joinTable: any; targetTable: any; teamScoped: boolean }[] = [${entries}
+]
+
+// Attach every relation as \`<field>\` (target ids, in picked order) and
+// \`<field>Data\` (the target rows)
+async function loadRelations(rows: any[]) {
+  if (rows.length === 0) return
+  const db = useDB()
+  const sourceIds = rows.map(row => row.id)
+
+  for (const relation of relations) {
+    const bySource = new Map<string, any[]>()
+    // D1 caps bound parameters per statement at 100
+    for (let i = 0; i < sourceIds.length; i += 90) {
+      const links = await (db as any)
+        .select({ sourceId: relation.joinTable.sourceId, target: relation.targetTable })
+        .from(relation.joinTable)
+        .innerJoin(relation.targetTable, eq(relation.joinTable.targetId, relation.targetTable.id))
+        .where(inArray(relation.joinTable.sourceId, sourceIds.slice(i, i + 90)))
+        .orderBy(asc(relation.joinTable.position))
+      for (const link of links) {
+        bySource.set(link.sourceId, [...(bySource.get(link.sourceId) ?? []), link.target])
+      }
+    }
+    for (const row of rows) {
+      row[\`\${relation.field}Data\`] = bySource.get(row.id) ?? []
+      row[relation.field] = row[\`\${relation.field}Data\`].map((target: any) => target.id)
+    }
+  }
+}
+
+// Split the relation values off a create/update payload and check that every
+// target exists. \`links\` only has the fields present in the payload.
+async function resolveRelations(teamId: string, payload: Record<string, any>): Promise<{ data: Record<string, any>; links: Record<string, string[]>; error?: string }> {
+  const db = useDB()
+  const data = { ...payload }
+  const links: Record<string, string[]> = {}
+
+  for (const relation of relations) {
+    if (!(relation.field in data)) continue
+    const ids = [...new Set<string>(data[relation.field] ?? [])]
+    delete data[relation.field]
+
+    const found = new Set<string>()
+    for (let i = 0; i < ids.length; i += 90) {
+      const inSlice = inArray(relation.targetTable.id, ids.slice(i, i + 90))
+      const rows = await (db as any)
+        .select({ id: relation.targetTable.id })
+        .from(relation.targetTable)
+        .where(relation.teamScoped ? and(inSlice, eq(relation.targetTable.teamId, teamId)) : inSlice)
+      for (const row of rows) found.add(row.id)
+    }
+    const missing = ids.filter(id => !found.has(id))
+    if (missing.length > 0) {
+      return { data, links, error: \`Unknown \${relation.field}: \${missing.join(', ')}\` }
+    }
+    links[relation.field] = ids
+  }
+
+  return { data, links }
+}
+
+// Statements that replace the links of one row, for runCollectionBatch
+function relationStatements(q: any, sourceId: string, teamId: string, links: Record<string, string[]>) {
+  return relations.flatMap((relation) => {
+    const ids = links[relation.field]
+    if (!ids) return []
+    const rows = ids.map((targetId, position) => ({ sourceId, targetId, teamId, position }))
+    const inserts = []
+    // 4 parameters per link; stay under D1's 100 per statement
+    for (let i = 0; i < rows.length; i += 24) {
+      inserts.push(q.insert(relation.joinTable).values(rows.slice(i, i + 24)))
+    }
+    return [q.delete(relation.joinTable).where(eq(relation.joinTable.sourceId, sourceId)), ...inserts]
+  })
+}
+`
+}
+
 // Helper to detect JSON/repeater fields that need post-query parsing
 // These fields are stored as JSON strings in SQLite but need to be parsed arrays/objects
 function detectJsonFields(data: Record<string, any>): { fieldName: string; fieldType: string; defaultValue: string }[] {
@@ -245,9 +650,10 @@ function detectJsonFields(data: Record<string, any>): { fieldName: string; field
 }
 
 // Helper to detect reference fields that need LEFT JOINs or post-query processing
-function detectReferenceFields(data: Record<string, any>, config: Record<string, any> | null): { singleReferences: Record<string, any>[]; arrayReferences: Record<string, any>[] } {
+function detectReferenceFields(data: Record<string, any>, config: Record<string, any> | null): { singleReferences: Record<string, any>[], arrayReferences: Record<string, any>[], manyToManyReferences: Record<string, any>[] } {
   const singleReferences = [] // For leftJoin
   const arrayReferences = [] // For post-query processing
+  const manyToManyReferences = [] // Join tables (references fields)
 
   // Check custom fields for refTarget
   if (data.fields) {
@@ -261,8 +667,10 @@ function detectReferenceFields(data: Record<string, any>, config: Record<string,
           isUserReference: isExternal && field.refTarget === 'users'
         }
 
-        // Separate single references from array references
-        if (field.type === 'array') {
+        // Separate single references from array and many-to-many references
+        if (field.type === 'references') {
+          manyToManyReferences.push(refData)
+        } else if (field.type === 'array') {
           arrayReferences.push(refData)
         } else {
           singleReferences.push(refData)
@@ -299,11 +707,77 @@ function detectReferenceFields(data: Record<string, any>, config: Record<string,
     })
   }
 
-  return { singleReferences, arrayReferences }
+  return { singleReferences, arrayReferences, manyToManyReferences }
+}
+
+// Maps a schema field type to the list-query kind it filters/sorts as
+// (see FILTER_OPS_BY_KIND in @fyit/crouton-core/shared/utils/collection-query).
+// JSON-backed types (json/repeater/array) and many-to-many references are not filterable.
+const LIST_QUERY_KINDS: Record<string, string> = {
+  string: 'string',
+  text: 'string',
+  image: 'string',
+  file: 'string',
+  number: 'number',
+  decimal: 'number',
+  date: 'date',
+  boolean: 'boolean'
+}
+
+/**
+ * Fields the generated list endpoint can filter (?field[op]=), sort (?sort=)
+ * and search (?q=) on. Shared by the GET endpoint (validation spec) and
+ * getAll* (column map) so both agree on the same set.
+ *
+ * - Single references filter as `reference` (eq/ne/in on the FK id)
+ * - `searchable: true` in the field meta opts a string/text field into `?q=`
+ * - createdAt/updatedAt (metadata) and the sortable/hierarchy order column are
+ *   always sortable, as is deletedAt for soft-delete collections (trash view)
+ */
+export function detectListQueryFields(data: Record<string, any>, config: Record<string, any> | null = null): { fields: { name: string, kind: string }[], searchable: string[] } {
+  const fields: { name: string, kind: string }[] = []
+  const searchable: string[] = []
+
+  for (const field of data.fields || []) {
+    if (field.name === 'id') continue
+    const isDependentField = field.meta?.dependsOn || field.meta?.displayAs === 'slotButtonGroup'
+    if (isDependentField || isVirtualField(field)) continue
+
+    const kind = field.refTarget
+      ? (field.type === 'array' || field.type === 'references' ? undefined : 'reference')
+      : LIST_QUERY_KINDS[field.type]
+    if (!kind) continue
+
+    fields.push({ name: field.name, kind })
+    if (field.meta?.searchable && kind === 'string') {
+      searchable.push(field.name)
+    }
+  }
+
+  const hasField = (name: string) => fields.some(f => f.name === name)
+  const orderField = data.hierarchy?.enabled
+    ? (data.hierarchy.orderField || 'order')
+    : (data.sortable?.enabled ? (data.sortable.orderField || 'order') : null)
+  if (orderField && !hasField(orderField)) {
+    fields.push({ name: orderField, kind: 'number' })
+  }
+
+  const useMetadata = config?.flags?.useMetadata ?? true
+  if (useMetadata) {
+    for (const name of ['createdAt', 'updatedAt']) {
+      if (!hasField(name)) fields.push({ name, kind: 'date' })
+    }
+  }
+
+  if (data.softDelete?.enabled && !hasField('deletedAt')) {
+    fields.push({ name: 'deletedAt', kind: 'date' })
+  }
+
+  return { fields, searchable }
 }
 
 export function generateQueries(data: Record<string, any>, config: Record<string, any> | null = null, currentLayer: string = '', collectionLayerMap: Map<string, string> = new Map()): string {
-  const { singular, camelCase, camelCasePlural, plural, pascalCase, pascalCasePlural, layer, layerPascalCase } = data
+  const { camelCase, camelCasePlural, plural, pascalCase, pascalCasePlural, layer, layerPascalCase } = data
   // Use layer-prefixed table name to match schema export
   // Convert layer to camelCase to ensure valid JavaScript identifier
   const layerCamelCase = layer
@@ -329,7 +803,7 @@ export function generateQueries(data: Record<string, any>, config: Record<string
   const typesPath = '../../types'
 
   // Detect reference fields for LEFT JOINs and post-query processing
-  const { singleReferences, arrayReferences } = detectReferenceFields(data, config)
+  const { singleReferences, arrayReferences, manyToManyReferences } = detectReferenceFields(data, config)
 
   // Foreign-key fields usable to scope getAll* (e.g. ?eventId=...). Excludes the
   // owner/createdBy/updatedBy user refs — only real FK columns (eventId, categoryId, …).
@@ -337,7 +811,11 @@ export function generateQueries(data: Record<string, any>, config: Record<string
 
   // Generate imports for referenced schemas
   let schemaImports = ''
-  const allReferences = [...singleReferences, ...arrayReferences]
+  // A many-to-many field pointing back at this collection uses tables.<self>, no import
+  const isSelfReference = (ref: Record<string, any>) => !ref.isExternal
+    && ref.targetCollection.toLowerCase() === plural.toLowerCase()
+    && (collectionLayerMap.get(ref.targetCollection.toLowerCase()) || currentLayer || layer) === layer
+  const allReferences = [...singleReferences, ...arrayReferences, ...manyToManyReferences.filter(ref => !isSelfReference(ref))]
   const uniqueCollections = [...new Set(allReferences.map(r => r.targetCollection))]
 
   uniqueCollections.forEach((collection) => {
@@ -375,8 +853,6 @@ export function generateQueries(data: Record<string, any>, config: Record<string
     // Build select fields
     const selectFields = [`...tables.${tableName}`]
 
-    // Track how many times we join each table to create unique aliases
-    const tableJoinCounts = {}
     const userAliases = []
 
     singleReferences.forEach((ref) => {
@@ -540,13 +1016,85 @@ export function generateQueries(data: Record<string, any>, config: Record<string
 `
   }
 
+  // Many-to-many relations are loaded after the rows and written through their
+  // join tables (see generateRelationHelpers)
+  const hasRelations = manyToManyReferences.length > 0
+  const relationHelpers = hasRelations
+    ? generateRelationHelpers(tableName, manyToManyReferences.map(ref => ({
+        fieldName: ref.fieldName,
+        targetTable: ref.isExternal
+          ? (ref.targetCollection === 'users' ? 'user' : ref.targetCollection)
+          : isSelfReference(ref)
+            ? `tables.${tableName}`
+            : `${ref.targetCollection}Schema.${getTargetLayerCamelCase(ref.targetCollection)}${pascal(ref.targetCollection)}`,
+        teamScoped: !ref.isExternal
+      })))
+    : ''
+  const relationLoading = hasRelations
+    ? `
+  await loadRelations(${camelCasePlural})
+`
+    : ''
+
+  // Unique fields: the endpoints look for duplicates first so the user gets a
+  // field error instead of a failed insert (the unique index stays the backstop)
+  const uniqueFields = uniqueFieldNames(data.fields || [])
+  const duplicatesQuery = uniqueFields.length > 0
+    ? `
+// Unique fields whose value another row of the team already uses. Soft-deleted
+// rows count too: the (teamId, field) unique index still holds their values.
+export async function find${prefixedPascalCase}Duplicates(teamId: string, values: Record<string, any>, excludeId?: string) {
+  const db = useDB()
+  const duplicates: string[] = []
+  for (const field of [${uniqueFields.map(name => `'${name}'`).join(', ')}] as const) {
+    const value = values[field]
+    if (value === undefined || value === null || value === '') continue
+    const conditions = [eq(tables.${tableName}.teamId, teamId), eq(tables.${tableName}[field], value)]
+    if (excludeId) conditions.push(ne(tables.${tableName}.id, excludeId))
+    const [row] = await (db as any)
+      .select({ id: tables.${tableName}.id })
+      .from(tables.${tableName})
+      .where(and(...conditions))
+      .limit(1)
+    if (row) duplicates.push(field)
+  }
+  return duplicates
+}
+`
+    : ''
+
+  // Virtual computed fields have no column; every read derives them from the row
+  const virtualFields = computedFields(data.fields || []).filter(field => !field.stored).map(field => field.name)
+  const hasVirtualFields = virtualFields.length > 0
+  const virtualFieldsHelper = hasVirtualFields
+    ? `
+// Virtual computed fields (see ../../computed.ts) — derived on every read
+function addVirtualFields(rows: any[]) {
+  for (const row of rows) {
+    const computed = ${computeFunctionName(data)}(row)
+${virtualFields.map(name => `    row.${name} = computed.${name}`).join('\n')}
+  }
+}
+`
+    : ''
+  const virtualFieldLoading = hasVirtualFields
+    ? `
+  addVirtualFields(${camelCasePlural})
+`
+    : ''
+  const virtualFieldsImport = hasVirtualFields
+    ? `
+import { ${computeFunctionName(data)} } from '../../computed'`
+    : ''
+  const singleVirtualFieldLoading = hasVirtualFields
+    ? `
+  addVirtualFields([${camelCase}])`
+    : ''
+
   // Check if hierarchy or sortable is enabled for import modifications
   const hasHierarchy = data.hierarchy && data.hierarchy.enabled
   const hasSortable = data.sortable && data.sortable.enabled
   const useMetadata = config?.flags?.useMetadata ?? true
-  // `sql` is always needed now — getAll* runs a count(*) for pagination totals.
-  const sqlImport = ', sql'
-  const ascImport = (hasHierarchy || hasSortable) ? ', asc' : ''
   const orderField = hasSortable ? (data.sortable.orderField || 'order') : 'order'
   const orderByClause = hasSortable
     ? (useMetadata
@@ -563,46 +1111,234 @@ export function generateQueries(data: Record<string, any>, config: Record<string
   // (hierarchy already includes reorderSiblings, so we skip to avoid duplicate exports)
   const sortableQueries = hasHierarchy ? '' : generateSortableQueries(data, tableName, prefixedPascalCasePlural)
 
-  // getAll* options bag: optional FK filters (e.g. ?eventId=) + optional limit/offset
+  // Soft delete: live queries skip trashed rows, getAll({ trashed: true }) lists
+  // only the trash, DELETE stamps deletedAt and restore/purge act on the trash
+  const softDelete = data.softDelete?.enabled === true
+  const liveCondition = `isNull(tables.${tableName}.deletedAt)`
+
+  // Row policies declared in the schema filter every read, update and delete
+  // by the requester the endpoint passes as `policy`
+  const policies: RowPolicy[] = data.policies ?? []
+  const hasPolicies = policies.length > 0
+  const policyType = hasPolicies ? '; policy?: RowPolicyContext' : ''
+  const referenceTable = (fieldName: string) => {
+    const target = data.fields.find((field: Record<string, any>) => field.name === fieldName).refTarget
+    return `${target}Schema.${getTargetLayerCamelCase(target)}${pascal(target)}`
+  }
+  const rowPolicyHelper = hasPolicies ? generateRowPolicyHelper(policies, tableName, referenceTable) : ''
+  const policyCondition = hasPolicies ? '\n  conditions.push(...rowPolicyConditions(opts.policy))' : ''
+  const needsNullChecks = softDelete || policies.some(policy => policyConditions(policy).some(condition => condition.value === null))
+  const trashCondition = softDelete
+    ? `
+  conditions.push(opts.trashed ? isNotNull(tables.${tableName}.deletedAt) : ${liveCondition})`
+    : ''
+
+  // getAll* options bag: optional FK filters (e.g. ?eventId=), `owner` for roles
+  // limited to their own records, the parsed list
+  // query (filters/sort/q — see parseCollectionListQuery) + optional limit/offset
   // pagination. When `limit` is provided the function returns { items, total }
   // (total via a parallel count(*)); otherwise it returns the bare array — so
   // existing non-paginated callers are unaffected (enforced by the overloads below).
   const fkTypeFields = filterFields.map(f => `${f}?: string`).join('; ')
-  const overload1Opts = `opts?: {${fkTypeFields ? ` ${fkTypeFields} ` : ''}}`
-  const overload2Opts = `opts: {${fkTypeFields ? ` ${fkTypeFields};` : ''} limit: number; offset?: number }`
-  const implOpts = `opts: {${fkTypeFields ? ` ${fkTypeFields};` : ''} limit?: number; offset?: number } = {}`
-  const filterConditions = filterFields
+  const listTypeFields = `${fkTypeFields ? `${fkTypeFields}; ` : ''}owner?: string; filters?: CollectionFilter[]; sort?: CollectionSort[]; q?: string${softDelete ? '; trashed?: boolean' : ''}${policyType}`
+  const overload1Opts = `opts?: { ${listTypeFields} }`
+  const overload2Opts = `opts: { ${listTypeFields}; limit: number; offset?: number }`
+  const implOpts = `opts: { ${listTypeFields}; limit?: number; offset?: number } = {}`
+  const filterConditions = [...filterFields, 'owner']
     .map(f => `\n  if (opts.${f}) conditions.push(eq(tables.${tableName}.${f}, opts.${f}))`)
     .join('')
   const selectExpr = selectClause ? `${selectClause} as any` : '()'
 
+  // Columns reachable through the list query grammar (filter/sort/search)
+  const listQueryFields = detectListQueryFields(data, config)
+  const listColumnEntries = listQueryFields.fields
+    .map(f => `\n  ${f.name}: tables.${tableName}.${f.name}`)
+    .join(',')
+  const searchColumns = listQueryFields.searchable
+    .map(name => `tables.${tableName}.${name}`)
+    .join(', ')
+  const searchCondition = listQueryFields.searchable.length > 0
+    ? `
+  if (opts.q) {
+    const pattern = toContainsPattern(opts.q)
+    conditions.push(or(...searchColumns.map(column => sql\`lower(\${column}) LIKE \${pattern} ESCAPE '\\\\'\`))!)
+  }`
+    : ''
+  const defaultOrderBy = orderByClause ? `[${orderByClause}]` : '[]'
+  const defaultListOrderBy = softDelete
+    ? `opts.trashed
+      ? [desc(tables.${tableName}.deletedAt)]
+      : ${defaultOrderBy}`
+    : defaultOrderBy
+
+  const searchColumnsDeclaration = listQueryFields.searchable.length > 0
+    ? `
+// Columns searched by ?q= (fields flagged \`searchable\` in the schema)
+const searchColumns = [${searchColumns}]
+`
+    : ''
+
+  // create*/update* split many-to-many values off and write their links in the same batch
+  const createBody = hasRelations
+    ? `
+  const { data: values, links, error } = await resolveRelations(data.teamId, data)
+  if (error) {
+    throw createError({ status: 400, statusText: error })
+  }
+
+  // The id is assigned up front so the row and its links go in one batch
+  const id = values.id ?? crypto.randomUUID()
+  const [[${camelCase}]] = await runCollectionBatch(db, q => [
+    q.insert(tables.${tableName}).values({ ...values, id }).returning(),
+    ...relationStatements(q, id, data.teamId, links)
+  ])
+
+  await loadRelations([${camelCase}])${singleVirtualFieldLoading}
+  return ${camelCase}
+}`
+    : `
+  const [${camelCase}] = await (db as any)
+    .insert(tables.${tableName})
+    .values(data)
+    .returning()
+${singleVirtualFieldLoading}
+  return ${camelCase}
+}`
+  const updateRelations = hasRelations
+    ? `
+  const { data: changes, links, error } = await resolveRelations(teamId, updates)
+  if (error) {
+    throw createError({ status: 400, statusText: error })
+  }
+`
+    : ''
+  const replaceLinks = hasRelations
+    ? `
+  // Links are replaced once the row update went through (owner/version checks above)
+  await runCollectionBatch(db, q => relationStatements(q, ${camelCase}.id, teamId, links))
+  await loadRelations([${camelCase}])
+`
+    : ''
+  const versionConditions = useMetadata
+    ? `
+  // Optimistic concurrency: only write while the row is still at the version
+  // the client last saw (expectedUpdatedAt), otherwise report a 409 below
+  const writeConditions = options?.expectedUpdatedAt
+    ? [...conditions, eq(tables.${tableName}.updatedAt, options.expectedUpdatedAt)]
+    : conditions
+`
+    : ''
+  const conflictCheck = useMetadata
+    ? `
+    if (options?.expectedUpdatedAt) {
+      const [current] = await (db as any)
+        .select()
+        .from(tables.${tableName})
+        .where(and(...conditions))
+
+      if (current) {
+        throw createError({
+          status: 409,
+          statusText: '${prefixedPascalCase} was modified by someone else',
+          data: { current }
+        })
+      }
+    }
+`
+    : ''
+  const deleteQueries = softDelete
+    ? generateSoftDeleteQueries(tableName, prefixedPascalCase, hasPolicies)
+    : `export async function delete${prefixedPascalCase}(
+  recordId: string,
+  teamId: string,
+  userId: string,
+  options?: { role?: string; scope?: 'all' | 'own'${policyType} }
+) {
+  const db = useDB()
+  const isAdmin = options?.role === 'admin' || options?.role === 'owner'
+  // The role's collection permissions decide when given; otherwise only admins reach every row
+  const ownRowsOnly = options?.scope ? options.scope === 'own' : !isAdmin
+
+  const conditions = [
+    eq(tables.${tableName}.id, recordId),
+    eq(tables.${tableName}.teamId, teamId),
+  ]
+  if (ownRowsOnly) {
+    conditions.push(eq(tables.${tableName}.owner, userId))
+  }${hasPolicies ? '\n  conditions.push(...rowPolicyConditions(options?.policy))' : ''}
+
+  const [deleted] = await (db as any)
+    .delete(tables.${tableName})
+    .where(and(...conditions))
+    .returning()
+
+  if (!deleted) {
+    throw createError({
+      status: 404,
+      statusText: '${prefixedPascalCase} not found or unauthorized'
+    })
+  }
+
+  return { success: true }
+}`
+
   return `// Generated with JSON field post-processing support (v2025-01-11)
-import { eq, and${useMetadata ? ', desc' : ''}${ascImport}, inArray${sqlImport} } from 'drizzle-orm'
+import { eq, ne, gt, gte, lt, lte, and, or, asc, desc, inArray, sql${needsNullChecks ? ', isNull, isNotNull' : ''}${hasPolicies ? ', type SQL' : ''} } from 'drizzle-orm'
 import { alias } from 'drizzle-orm/sqlite-core'
+import { toContainsPattern, type CollectionFilter, type CollectionSort } from '@fyit/crouton-core/shared/utils/collection-query'
+import type { CollectionBulkOperation, CollectionBulkResponse, CollectionBulkResult${useMetadata ? ', CollectionBulkUpdate' : ''} } from '@fyit/crouton-core/shared/utils/collection-bulk'${hasPolicies ? '\nimport type { RowPolicyContext } from \'@fyit/crouton-auth/shared/utils/collection-permissions\'' : ''}
 import * as tables from './schema'
-import type { ${prefixedPascalCase}, New${prefixedPascalCase} } from '${typesPath}'
+import type { ${prefixedPascalCase}, New${prefixedPascalCase} } from '${typesPath}'${virtualFieldsImport}
 ${schemaImports}
+// Columns the list endpoint may filter/sort on — keys match the GET endpoint's
+// listSpec, so a parsed CollectionFilter/CollectionSort always resolves here.
+const listColumns: Record<string, any> = {${listColumnEntries}
+}
+${searchColumnsDeclaration}
+function toListCondition(filter: CollectionFilter) {
+  const column = listColumns[filter.field]
+  const value = filter.value as any
+  switch (filter.op) {
+    case 'ne': return ne(column, value)
+    case 'in': return inArray(column, value)
+    case 'gt': return gt(column, value)
+    case 'gte': return gte(column, value)
+    case 'lt': return lt(column, value)
+    case 'lte': return lte(column, value)
+    case 'contains': return sql\`lower(\${column}) LIKE \${toContainsPattern(String(value))} ESCAPE '\\\\'\`
+    default: return eq(column, value)
+  }
+}
+${relationHelpers}${virtualFieldsHelper}${rowPolicyHelper}
 // Overload order matters: the paginated signature (required \`limit\`) must come
 // first so non-paginated calls fall through to the array overload.
 export async function getAll${prefixedPascalCasePlural}(teamId: string, ${overload2Opts}): Promise<{ items: any[]; total: number }>
 export async function getAll${prefixedPascalCasePlural}(teamId: string, ${overload1Opts}): Promise<any[]>
 export async function getAll${prefixedPascalCasePlural}(teamId: string, ${implOpts}) {
   const db = useDB()
-${aliasDefinitions}  const conditions = [eq(tables.${tableName}.teamId, teamId)]${filterConditions}
+${aliasDefinitions}  const conditions = [eq(tables.${tableName}.teamId, teamId)]${trashCondition}${filterConditions}${policyCondition}
+  for (const filter of opts.filters ?? []) {
+    conditions.push(toListCondition(filter))
+  }${searchCondition}
   const whereExpr = and(...conditions)
 
+  // Explicit ?sort= wins; otherwise keep the collection's default ordering
+  const orderBy = opts.sort?.length
+    ? opts.sort.map(s => s.direction === 'desc' ? desc(listColumns[s.field]) : asc(listColumns[s.field]))
+    : ${defaultListOrderBy}
+
   let listQuery = (db as any)
     .select(${selectExpr})
     .from(tables.${tableName})${leftJoins}
-    .where(whereExpr)${orderByClause ? `
-    .orderBy(${orderByClause})` : ''}
+    .where(whereExpr)
+    .orderBy(...orderBy)
 
   if (opts.limit != null) {
     listQuery = listQuery.limit(opts.limit).offset(opts.offset ?? 0)
   }
 
   const ${camelCasePlural} = await listQuery
-${jsonFieldProcessing}${postQueryProcessing}
+${jsonFieldProcessing}${postQueryProcessing}${relationLoading}${virtualFieldLoading}
   if (opts.limit != null) {
     const [countRow] = await (db as any)
       .select({ count: sql\`count(*)\` })
@@ -614,7 +1350,7 @@ ${jsonFieldProcessing}${postQueryProcessing}
   return ${camelCasePlural}
 }
 
-export async function get${prefixedPascalCasePlural}ByIds(teamId: string, ${camelCase}Ids: string[]) {
+export async function get${prefixedPascalCasePlural}ByIds(teamId: string, ${camelCase}Ids: string[]${hasPolicies ? ', options?: { policy?: RowPolicyContext }' : ''}) {
   const db = useDB()
 ${aliasDefinitions}
   const ${camelCasePlural} = await (db as any)
@@ -623,91 +1359,58 @@ ${aliasDefinitions}
     .where(
       and(
         eq(tables.${tableName}.teamId, teamId),
-        inArray(tables.${tableName}.id, ${camelCase}Ids)
+        inArray(tables.${tableName}.id, ${camelCase}Ids)${softDelete ? `,\n        ${liveCondition}` : ''}${hasPolicies ? ',\n        ...rowPolicyConditions(options?.policy)' : ''}
       )
     )${orderByClause ? `
     .orderBy(${orderByClause})` : ''}
-${jsonFieldProcessing}${postQueryProcessing}
+${jsonFieldProcessing}${postQueryProcessing}${relationLoading}${virtualFieldLoading}
   return ${camelCasePlural}
 }
-
+${duplicatesQuery}
 export async function create${prefixedPascalCase}(data: New${prefixedPascalCase}) {
   const db = useDB()
-
-  const [${camelCase}] = await (db as any)
-    .insert(tables.${tableName})
-    .values(data)
-    .returning()
-
-  return ${camelCase}
-}
+${createBody}
 
 export async function update${prefixedPascalCase}(
   recordId: string,
   teamId: string,
   userId: string,
   updates: Partial<${prefixedPascalCase}>,
-  options?: { role?: string }
+  options?: { role?: string; scope?: 'all' | 'own'${useMetadata ? '; expectedUpdatedAt?: Date' : ''}${policyType} }
 ) {
   const db = useDB()
   const isAdmin = options?.role === 'admin' || options?.role === 'owner'
-
+  // The role's collection permissions decide when given; otherwise only admins reach every row
+  const ownRowsOnly = options?.scope ? options.scope === 'own' : !isAdmin
+${updateRelations}
   const conditions = [
     eq(tables.${tableName}.id, recordId),
-    eq(tables.${tableName}.teamId, teamId),
+    eq(tables.${tableName}.teamId, teamId),${softDelete ? `\n    ${liveCondition},` : ''}
   ]
-  if (!isAdmin) {
+  if (ownRowsOnly) {
     conditions.push(eq(tables.${tableName}.owner, userId))
-  }
-
+  }${hasPolicies ? '\n  conditions.push(...rowPolicyConditions(options?.policy))' : ''}
+${versionConditions}
   const [${camelCase}] = await (db as any)
     .update(tables.${tableName})
     .set({
-      ...updates,${useMetadata ? `
+      ...${hasRelations ? 'changes' : 'updates'},${useMetadata ? `
       updatedBy: userId` : ''}
     })
-    .where(and(...conditions))
+    .where(and(...${useMetadata ? 'writeConditions' : 'conditions'}))
     .returning()
 
-  if (!${camelCase}) {
+  if (!${camelCase}) {${conflictCheck}
     throw createError({
       status: 404,
       statusText: '${prefixedPascalCase} not found or unauthorized'
     })
   }
-
+${replaceLinks}${singleVirtualFieldLoading}
   return ${camelCase}
 }
 
-export async function delete${prefixedPascalCase}(
-  recordId: string,
-  teamId: string,
-  userId: string,
-  options?: { role?: string }
-) {
-  const db = useDB()
-  const isAdmin = options?.role === 'admin' || options?.role === 'owner'
-
-  const conditions = [
-    eq(tables.${tableName}.id, recordId),
-    eq(tables.${tableName}.teamId, teamId),
-  ]
-  if (!isAdmin) {
-    conditions.push(eq(tables.${tableName}.owner, userId))
-  }
-
-  const [deleted] = await (db as any)
-    .delete(tables.${tableName})
-    .where(and(...conditions))
-    .returning()
+${deleteQueries}
 
-  if (!deleted) {
-    throw createError({
-      status: 404,
-      statusText: '${prefixedPascalCase} not found or unauthorized'
-    })
-  }
-
-  return { success: true }
-}${treeQueries}${sortableQueries}`
+${generateBulkQuery(tableName, prefixedPascalCasePlural, { softDelete, useMetadata, hasRelations, hasPolicies })}${treeQueries}${sortableQueries}`
 }
@@ -1,7 +1,61 @@
 // Generator for Drizzle schema
-import { toSnakeCase } from '../utils/helpers.ts'
+import { toSnakeCase, pascal, quoteValue } from '../utils/helpers.ts'
+import { DIALECTS } from '../utils/dialects.ts'
+import { isComputedField, isVirtualField } from '../utils/computed-fields.ts'
 
-export function generateSchema(data: Record<string, any>, dialect: string, config: Record<string, any> | null = null): string {
+// Many-to-many (`references`) fields have no column on the collection table:
+// each one is stored in its own join table, exported from the same schema file
+export function manyToManyFields<T extends { type?: string }>(fields: T[] = []): T[] {
+  return fields.filter(field => field.type === 'references')
+}
+
+// Schema export name of the join table behind a `references` field
+// (e.g. shopProducts + tagIds -> shopProductsTagIds)
+export function joinTableExportName(exportName: string, fieldName: string): string {
+  return `${exportName}${fieldName.charAt(0).toUpperCase()}${fieldName.slice(1)}`
+}
+
+// Join table for one `references` field: (sourceId, targetId) pairs, team-scoped,
+// with the position the target was picked in. Rows go away with either side.
+function generateJoinTable(field: Record<string, any>, options: {
+  dialect: string
+  exportName: string
+  tableName: string
+  targetTable: string | null
+}): string {
+  const { dialect, exportName, tableName, targetTable } = options
+  const joinExportName = joinTableExportName(exportName, field.name)
+  const joinTableName = `${tableName}_${toSnakeCase(field.name)}`
+  const tableFn = dialect === 'sqlite' ? 'sqliteTable' : 'pgTable'
+  const idColumn = (name: string) => dialect === 'sqlite' ? `text('${name}')` : `uuid('${name}')`
+  const targetColumn = targetTable ? idColumn('targetId') : `text('targetId')`
+  const targetReference = targetTable ? `.references(() => ${targetTable}.id, { onDelete: 'cascade' })` : ''
+  const positionDefault = dialect === 'sqlite' ? '.$default(() => 0)' : '.default(0)'
+
+  return `// Join table for the many-to-many \`${field.name}\` field (→ ${field.refTarget})
+export const ${joinExportName} = ${tableFn}('${joinTableName}', {
+  sourceId: ${idColumn('sourceId')}.notNull().references(() => ${exportName}.id, { onDelete: 'cascade' }),
+  targetId: ${targetColumn}.notNull()${targetReference},
+  teamId: text('teamId').notNull(),
+  position: integer('position').notNull()${positionDefault}
+}, (table) => [
+  primaryKey({ columns: [table.sourceId, table.targetId] }),
+  index('${joinTableName}_target_idx').on(table.targetId)
+])`
+}
+
+// Database table of a collection, in snake_case. System collections (layer
+// starts with 'crouton-') use crouton_<collection>, e.g. crouton-events +
+// collectionEvents -> crouton_collection_events; the original camelCase name
+// keeps the word boundaries. Regular collections use <layer>_<plural>.
+export function collectionTableName(layer: string, collection: string, plural: string = collection): string {
+  if (layer.startsWith('crouton-')) {
+    return toSnakeCase(`crouton${collection.charAt(0).toUpperCase()}${collection.slice(1)}`)
+  }
+  return toSnakeCase(`${layer}_${plural}`)
+}
+
+export function generateSchema(data: Record<string, any>, dialect: string, config: Record<string, any> | null = null, collectionLayerMap: Map<string, string> = new Map()): string {
   const { plural, layer, layerPascalCase, singular, hierarchy, pascalCasePlural } = data
 
   // Get original collection name from data (before toCase processing)
@@ -54,6 +108,10 @@ export function generateSchema(data: Record<string, any>, dialect: string, confi
   const sortable = data.sortable === true || data.sortable?.enabled === true
   const SORTABLE_FIELDS = (sortable && !hierarchy?.enabled) ? ['order'] : []
 
+  // Soft delete columns (collection config `softDelete: true`)
+  const softDelete = data.softDelete?.enabled === true
+  const SOFT_DELETE_FIELDS = softDelete ? ['deletedAt', 'deletedBy'] : []
+
   // Conditional field generation based on config flags
   // Team fields are always required (all generated endpoints use @crouton/auth)
   const useMetadata = config?.flags?.useMetadata ?? true
@@ -64,21 +122,39 @@ export function generateSchema(data: Record<string, any>, dialect: string, confi
     ...(useMetadata ? METADATA_FIELDS : []),
     ...TEAM_FIELDS, // Always included - required for @crouton/auth
     ...HIERARCHY_FIELDS,
-    ...SORTABLE_FIELDS
+    ...SORTABLE_FIELDS,
+    ...SOFT_DELETE_FIELDS
   ]
 
   // Collect fields with unique constraint for composite team-scoped indexes
   const uniqueFields: string[] = data.fields
-    .filter(field => !reservedFields.includes(field.name) && field.meta?.unique)
+    .filter(field => !reservedFields.includes(field.name) && field.meta?.unique && !isVirtualField(field))
     .map(field => field.name)
 
+  const snakeCaseTableName = collectionTableName(layer, originalCollectionName, plural)
+
+  const relationFields = manyToManyFields(data.fields as Record<string, any>[])
+    .filter(field => !reservedFields.includes(field.name) && field.refTarget)
+
+  // CHECK constraints for enum fields, added to the table extras
+  const enumConstraints: string[] = []
+
+  // Virtual computed fields only exist on read (see the get* queries); stored
+  // ones stay nullable since a failed computation (e.g. division by zero) is null
   const schemaFields = data.fields
-    .filter(field => !reservedFields.includes(field.name))
+    .filter(field => !reservedFields.includes(field.name) && !relationFields.includes(field) && !isVirtualField(field))
     .map((field) => {
-      const nullable = field.meta?.required ? '.notNull()' : ''
+      const nullable = field.meta?.required && !isComputedField(field) ? '.notNull()' : ''
       // unique is handled via composite (teamId, field) index, not per-column .unique()
       const unique = ''
 
+      if (field.type === 'enum') {
+        const enumColumn = DIALECTS[dialect === 'sqlite' ? 'sqlite' : 'pg']!.makeEnum(field, snakeCaseTableName)
+        enumConstraints.push(`  ${enumColumn.constraint}`)
+        const enumDefault = field.meta?.default != null ? `.default(${quoteValue(String(field.meta.default))})` : ''
+        return `  ${field.name}: ${enumColumn.column}${nullable}${enumDefault}`
+      }
+
       // Check if this is a dependent field (should be stored as JSON array)
       const isDependentField = field.meta?.dependsOn || field.meta?.displayAs === 'slotButtonGroup'
 
@@ -126,9 +202,35 @@ export function generateSchema(data: Record<string, any>, dialect: string, confi
       }
     }).join(',\n')
 
+  // Join table targets. Local targets get a foreign key, so deleting a target
+  // also drops its links; external targets (users, adapter collections) have
+  // no table in this layer to point at.
+  const relationTargets = new Map<string, string>()
+  const targetImports = new Set<string>()
+  for (const field of relationFields) {
+    if (field.refScope === 'external' || field.refScope === 'adapter') continue
+    const target = field.refTarget as string
+    const targetLayer = collectionLayerMap.get(target.toLowerCase()) || layer
+    if (targetLayer === layer && target.toLowerCase() === plural.toLowerCase()) {
+      relationTargets.set(field.name, exportName)
+      continue
+    }
+    const targetLayerCamelCase = targetLayer
+      .split(/[-_]/)
+      .map((part, index) => index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1))
+      .join('')
+    relationTargets.set(field.name, `${target}Schema.${targetLayerCamelCase}${pascal(target)}`)
+    targetImports.add(targetLayer !== layer
+      ? `import * as ${target}Schema from '../../../../../${targetLayer}/collections/${target.toLowerCase()}/server/database/schema'`
+      : `import * as ${target}Schema from '../../../${target.toLowerCase()}/server/database/schema'`)
+  }
+  const relationImports = relationFields.length > 0 ? ', primaryKey, index' : ''
+  const enumImports = enumConstraints.length > 0 ? ', check' : ''
+  const sqlImport = enumConstraints.length > 0 ? `\nimport { sql } from 'drizzle-orm'` : ''
+  const targetImportLines = [...targetImports].map(line => `\n${line}`).join('')
   const imports = dialect === 'sqlite'
     ? `import { nanoid } from 'nanoid'
-import { sqliteTable, text, integer, real, customType${uniqueFields.length > 0 ? ', uniqueIndex' : ''} } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, integer, real, customType${uniqueFields.length > 0 ? ', uniqueIndex' : ''}${relationImports}${enumImports} } from 'drizzle-orm/sqlite-core'${sqlImport}${targetImportLines}
 
 // Custom JSON column that handles NULL values gracefully during LEFT JOINs
 const jsonColumn = customType<any>({
@@ -149,7 +251,7 @@ const jsonColumn = customType<any>({
     return JSON.stringify(value)
   },
 })`
-    : `import { pgTable, varchar, text, integer, numeric, boolean, timestamp, jsonb, uuid${uniqueFields.length > 0 ? ', uniqueIndex' : ''} } from 'drizzle-orm/pg-core'`
+    : `import { pgTable, varchar, text, integer, numeric, boolean, timestamp, jsonb, uuid${uniqueFields.length > 0 ? ', uniqueIndex' : ''}${relationImports}${enumImports} } from 'drizzle-orm/pg-core'${sqlImport}${targetImportLines}`
 
   const tableFn = dialect === 'sqlite' ? 'sqliteTable' : 'pgTable'
 
@@ -157,20 +259,6 @@ const jsonColumn = customType<any>({
     ? `  id: text('id').primaryKey().$default(() => nanoid())`
     : `  id: uuid('id').primaryKey().defaultRandom()`
 
-  // Convert table name to snake_case for database
-  // For system collections (layer starts with 'crouton-'), use simplified naming
-  let snakeCaseTableName
-  if (layer.startsWith('crouton-')) {
-    // System collection: use crouton_<collection_name> format
-    // e.g., crouton-events + collectionEvents -> crouton_collection_events
-    // Use original collection name to preserve camelCase for proper snake_case conversion
-    const collectionWithCapital = originalCollectionName.charAt(0).toUpperCase() + originalCollectionName.slice(1)
-    snakeCaseTableName = toSnakeCase(`crouton${collectionWithCapital}`)
-  } else {
-    // Regular collection: use layer_collection format
-    snakeCaseTableName = toSnakeCase(`${layer}_${plural}`)
-  }
-
   // Team fields are always included (required for @crouton/auth)
   const teamFields = `
   teamId: text('teamId').notNull(),
@@ -215,15 +303,25 @@ const jsonColumn = customType<any>({
     }
   }
 
-  // Build metadata fields conditionally
+  // Build metadata fields conditionally. updatedAt is the concurrency token of
+  // PATCH and bulk updates (expectedUpdatedAt), so SQLite keeps it to the
+  // millisecond: with seconds, two saves in the same second look alike.
   const metadataFields = useMetadata
     ? `
   createdAt: ${dialect === 'sqlite' ? 'integer(\'createdAt\', { mode: \'timestamp\' })' : 'timestamp(\'createdAt\', { withTimezone: true })'}.notNull().$default(() => new Date()),
-  updatedAt: ${dialect === 'sqlite' ? 'integer(\'updatedAt\', { mode: \'timestamp\' })' : 'timestamp(\'updatedAt\', { withTimezone: true })'}.notNull().$onUpdate(() => new Date()),
+  updatedAt: ${dialect === 'sqlite' ? 'integer(\'updatedAt\', { mode: \'timestamp_ms\' })' : 'timestamp(\'updatedAt\', { withTimezone: true })'}.notNull().$onUpdate(() => new Date()),
   createdBy: text('createdBy').notNull(),
   updatedBy: text('updatedBy').notNull()`
     : ''
 
+  // Build soft delete fields conditionally (NULL = live row, set = in the trash)
+  const softDeleteFields = softDelete
+    ? `
+  // Soft delete: rows with deletedAt set are in the trash
+  deletedAt: ${dialect === 'sqlite' ? 'integer(\'deletedAt\', { mode: \'timestamp\' })' : 'timestamp(\'deletedAt\', { withTimezone: true })'},
+  deletedBy: text('deletedBy')`
+    : ''
+
   // Build the complete field list with proper comma handling
   const allFields = [
     idField,
@@ -232,22 +330,28 @@ const jsonColumn = customType<any>({
     sortableFields,
     schemaFields,
     translationsField,
-    metadataFields
+    metadataFields,
+    softDeleteFields
   ].filter(Boolean).join(',\n')
 
-  // Generate composite unique indexes for team-scoped uniqueness
-  let uniqueIndexBlock = ''
-  if (uniqueFields.length > 0) {
-    const indexes = uniqueFields.map(fieldName => {
+  // Table extras: composite unique indexes for team-scoped uniqueness and enum CHECKs
+  const tableExtras = [
+    ...uniqueFields.map((fieldName) => {
       const indexName = `${snakeCaseTableName}_team_${toSnakeCase(fieldName)}_idx`
       return `  uniqueIndex('${indexName}').on(table.teamId, table.${fieldName})`
-    }).join(',\n')
-    uniqueIndexBlock = `, (table) => [\n${indexes}\n]`
-  }
+    }),
+    ...enumConstraints
+  ]
+  const tableExtrasBlock = tableExtras.length > 0 ? `, (table) => [\n${tableExtras.join(',\n')}\n]` : ''
+
+  const joinTables = relationFields.map(field =>
+    generateJoinTable(field, { dialect, exportName, tableName: snakeCaseTableName, targetTable: relationTargets.get(field.name) ?? null })
+  )
+  const joinTableBlock = joinTables.length > 0 ? `\n\n${joinTables.join('\n\n')}` : ''
 
   return `${imports}${translationsComment}
 
 export const ${exportName} = ${tableFn}('${snakeCaseTableName}', {
 ${allFields}
-}${uniqueIndexBlock})`
+}${tableExtrasBlock})${joinTableBlock}`
 }
@@ -1,5 +1,8 @@
 // Generator for _Form.vue component
 import { toCase } from '../utils/helpers.ts'
+import { isComputedField } from '../utils/computed-fields.ts'
+import { computeFunctionName } from './computed-fields.ts'
+import { refineRules, uniqueFieldNames } from '../utils/validation-rules.ts'
 
 /**
  * Generate AI context header for _Form.vue components
@@ -114,6 +117,10 @@ export function generateFormComponent(data: Record<string, any>, config: Record<
   // Check if we have any date fields
   const hasDateFields = regularFields.some(field => field.type === 'date')
 
+  // updatedAt is the row version: updates send it as a precondition and a
+  // stale save opens the merge dialog instead of overwriting
+  const hasConcurrency = config?.flags?.useMetadata ?? true
+
   // ── Contribution-driven enhancements ─────────────────────────────────────
   // formEnhancements is populated by runFormContributions() in generate-collection.ts
   const formEnhancements = data.formEnhancements || {
@@ -130,12 +137,18 @@ export function generateFormComponent(data: Record<string, any>, config: Record<
   // Filter out fields excluded by contributions (e.g. coordinate field when map is shown)
   const fieldsToDisplay = regularFields.filter(field => !excludedFieldNames.has(field.name))
 
-  // Track fields with inline options for script generation (static USelect options)
-  const fieldsWithInlineOptions = fieldsToDisplay.filter(
-    f => f.meta?.displayAs === 'optionsSelect'
-      && Array.isArray(f.meta?.options)
-      && !f.meta?.optionsCollection
-  )
+  // Track fields with inline options for script generation (static USelect options).
+  // Enum fields always render this way; their options are normalized to {label, value}.
+  const hasInlineOptions = (f: Record<string, any>) => f.type === 'enum'
+    || (f.meta?.displayAs === 'optionsSelect' && Array.isArray(f.meta?.options) && !f.meta?.optionsCollection)
+  const fieldsWithInlineOptions = fieldsToDisplay.filter(f => hasInlineOptions(f) && !isComputedField(f))
+
+  // Computed fields are read-only, previewed live from the shared computed.ts
+  const hasComputedFields = fieldsToDisplay.some(isComputedField)
+  const computedImport = hasComputedFields
+    ? `
+import { ${computeFunctionName(data)} } from '../../computed'`
+    : ''
 
   // Helper to resolve component names (handles component aliasing)
   const resolveComponentName = (componentName) => {
@@ -170,6 +183,17 @@ export function generateFormComponent(data: Record<string, any>, config: Record<
 
     const fieldName = field.name.charAt(0).toUpperCase() + field.name.slice(1)
 
+    // Computed fields: shown, never edited (the server computes the stored value)
+    if (isComputedField(field)) {
+      return field.type === 'boolean'
+        ? `        <UFormField ${labelAttr(field)} name="${field.name}" class="not-last:pb-4">
+          <UCheckbox :model-value="computedValues.${field.name}" disabled />
+        </UFormField>`
+        : `        <UFormField ${labelAttr(field)} name="${field.name}" class="not-last:pb-4">
+          <UInput :model-value="computedValues.${field.name} ?? ''" class="w-full" size="xl" disabled />
+        </UFormField>`
+    }
+
     // Check if a custom component is specified in meta
     if (field.meta?.component) {
       const componentName = resolveComponentName(field.meta.component)
@@ -202,9 +226,8 @@ export function generateFormComponent(data: Record<string, any>, config: Record<
         </UFormField>`
     }
 
-    // Check if this is a static options select field (inline meta.options array)
-    if (field.meta?.displayAs === 'optionsSelect' && Array.isArray(field.meta?.options) && !field.meta?.optionsCollection) {
-      const label = field.meta.label || fieldName
+    // Check if this is a static options select field (inline meta.options array, or an enum)
+    if (hasInlineOptions(field)) {
       return `        <UFormField ${labelAttr(field)} name="${field.name}" class="not-last:pb-4">
           <USelect
             v-model="state.${field.name}"
@@ -263,6 +286,21 @@ export function generateFormComponent(data: Record<string, any>, config: Record<
         resolvedCollection = `${layerCamelCase}${refCases.pascalCasePlural}`
       }
 
+      // Read-only many-to-many field: one mini card per linked item
+      if (field.meta?.readOnly && field.type === 'references') {
+        return `        <UFormField ${labelAttr(field)} name="${field.name}" class="not-last:pb-4">
+          <div v-if="state.${field.name}?.length" class="flex flex-wrap gap-1">
+            <CroutonItemCardMini
+              v-for="itemId in state.${field.name}"
+              :key="itemId"
+              :id="itemId"
+              collection="${resolvedCollection}"
+            />
+          </div>
+          <span v-else class="text-gray-400 text-sm">Not set</span>
+        </UFormField>`
+      }
+
       // Check if this is a read-only reference field
       if (field.meta?.readOnly) {
         return `        <UFormField ${labelAttr(field)} name="${field.name}" class="not-last:pb-4">
@@ -281,8 +319,8 @@ export function generateFormComponent(data: Record<string, any>, config: Record<
         ? `\n            label-key="${labelField}"\n            :filter-fields="['${labelField}']"`
         : ''
 
-      // Check if this is an array type (multi-select reference)
-      if (field.type === 'array') {
+      // Check if this is an array or many-to-many type (multi-select reference)
+      if (field.type === 'array' || field.type === 'references') {
         return `        <UFormField ${labelAttr(field)} name="${field.name}" class="not-last:pb-4">
           <CroutonFormReferenceSelect
             v-model="state.${field.name}"
@@ -501,8 +539,8 @@ export function generateFormComponent(data: Record<string, any>, config: Record<
       return `  ${field.name}: null`
     }
 
-    // Array fields should default to [] or null
-    if (field.type === 'array') {
+    // Array and many-to-many fields should default to [] or null
+    if (field.type === 'array' || field.type === 'references') {
       // Check if it's a reference field that might be nullable
       if (field.refTarget) {
         return `  ${field.name}: []`
@@ -551,9 +589,9 @@ const activeSection = ref('${navigationItems[0]?.value || 'general'}')`
         const optionsArray = options.map((opt) => {
           // Support both string values and {label, value} objects
           if (typeof opt === 'object' && opt !== null && opt.label && opt.value !== undefined) {
-            return `  { label: '${opt.label}', value: '${opt.value}' }`
+            return `  { label: '${escapeLabel(opt.label)}', value: '${escapeLabel(opt.value)}' }`
           }
-          return `  { label: '${formatOptionLabel(opt)}', value: '${opt}' }`
+          return `  { label: '${escapeLabel(formatOptionLabel(opt))}', value: '${escapeLabel(opt)}' }`
         }).join(',\n')
         return `const ${field.name}Options = [\n${optionsArray}\n]`
       }).join('\n\n')
@@ -604,6 +642,36 @@ const switchToTab = (tabValue: string) => {
 }`
     : ''
 
+  // Unique fields and cross-field rules are (re)checked by the server; its
+  // issues go on the fields and into the error summary
+  const hasServerRules = refineRules(fields).length > 0 || uniqueFieldNames(fields).length > 0
+  const serverErrorsCode = hasServerRules
+    ? `${useTabs
+      ? ''
+      : `// Field errors the server reported (values already in use, cross-field rules)
+const validationErrors = ref<Array<{ name: string; message: string }>>([])
+`}
+const form = useTemplateRef('form')`
+    : ''
+
+  const errorSummary = useTabs
+    ? `
+        <CroutonValidationErrorSummary
+          v-if="validationErrors.length > 0"
+          :tab-errors="tabErrorCounts"
+          :navigation-items="navigationItems"${hasServerRules ? '\n          :errors="validationErrors"' : ''}
+          @switch-tab="switchToTab"
+        />
+`
+    : hasServerRules
+      ? `
+        <CroutonValidationErrorSummary
+          v-if="validationErrors.length > 0"
+          :errors="validationErrors"
+        />
+`
+      : ''
+
   // Contribution script additions (geocoding, etc.)
   const scriptAdditions = (formEnhancements.scriptAdditions || []).join('\n')
 
@@ -622,14 +690,26 @@ const switchToTab = (tabValue: string) => {
   />
 
   <UForm
-    v-else
+    v-else${hasServerRules ? '\n    ref="form"' : ''}
     :schema="schema"
     :state="state"
     @submit="handleSubmit"${useTabs
       ? `
     @error="handleValidationError"`
       : ''}
-  >
+  >${hasConcurrency
+    ? `
+    <CroutonFormConflictDialog
+      v-if="conflict"
+      :open="true"
+      :base="baseItem"
+      :mine="conflict.mine"
+      :theirs="conflict.theirs"
+      i18n-prefix="${fieldsI18nPrefix}"
+      @resolve="saveMerged"
+      @discard="discardMine"
+    />`
+    : ''}
     <CroutonFormLayout${useTabs ? ' :tabs="tabs" :navigation-items="navigationItems" :tab-errors="tabErrorCounts" v-model="activeSection"' : ''}>
       <template #main${useTabs ? '="{ activeSection }"' : ''}>
 ${mainAreaMarkup}${translationField ? `\n\n      <div>\n${translationField}\n      </div>` : ''}
@@ -646,16 +726,7 @@ ${sidebarAreaMarkup}
       </template>
 `
   : ''}
-      <template #footer>${useTabs
-        ? `
-        <CroutonValidationErrorSummary
-          v-if="validationErrors.length > 0"
-          :tab-errors="tabErrorCounts"
-          :navigation-items="navigationItems"
-          @switch-tab="switchToTab"
-        />
-`
-        : ''}
+      <template #footer>${errorSummary}
         <CroutonFormActionButton
           :action="action"
           :collection="collection"
@@ -672,7 +743,7 @@ ${sidebarAreaMarkup}
 
 <script setup lang="ts">
 import type { ${prefixedPascalCase}FormProps, ${prefixedPascalCase}FormData } from '${typesPath}'
-import use${prefixedPascalCasePlural} from '../composables/use${prefixedPascalCasePlural}'
+import use${prefixedPascalCasePlural} from '../composables/use${prefixedPascalCasePlural}'${computedImport}
 
 const props = defineProps<${prefixedPascalCase}FormProps>()
 const { defaultValue, schema, collection } = use${prefixedPascalCasePlural}()
@@ -683,7 +754,7 @@ const { t } = useT()
 // Form layout configuration
 ${navigationItemsCode}
 ${inlineOptionsCode ? `\n// Static select options\n${inlineOptionsCode}\n` : ''}${fieldToGroupCode}
-${errorTrackingCode}
+${errorTrackingCode}${serverErrorsCode}
 
 // Use new mutation composable for data operations
 const { create, update, deleteItems } = useCollectionMutation(collection)
@@ -719,7 +790,19 @@ if (props.action === 'update' && props.activeItem?.id) {${regularFields
 // Draft state: seeded from defaults (required fields may start null/empty until
 // the user fills them; the zod schema validates on submit), so cast the initial
 // values to the validated shape.
-const state = ref<${prefixedPascalCase}FormData & { id?: string | null }>(initialValues as ${prefixedPascalCase}FormData & { id?: string | null })${scriptAdditions}
+const state = ref<${prefixedPascalCase}FormData & { id?: string | null }>(initialValues as ${prefixedPascalCase}FormData & { id?: string | null })${hasComputedFields
+  ? `
+
+// Computed fields follow the form as it is edited (same math as the server)
+const computedValues = computed(() => ${computeFunctionName(data)}(state.value))`
+  : ''}${scriptAdditions}${hasConcurrency
+  ? `
+
+// Optimistic concurrency: the server version this edit is based on. If someone
+// else saves first, update() throws a CollectionConflictError with their row.
+const baseItem = ref<Record<string, any>>({ ...props.activeItem })
+const conflict = ref<{ mine: Record<string, any>, theirs: Record<string, any> } | null>(null)`
+  : ''}
 
 const handleSubmit = async () => {
   try {${hasDateFields
@@ -736,11 +819,11 @@ const handleSubmit = async () => {
     if (props.action === 'create') {
       await create(${hasDateFields ? 'serializedData' : 'state.value'})
     } else if (props.action === 'update' && state.value.id) {
-      await update(state.value.id, ${hasDateFields ? 'serializedData' : 'state.value'})
+      await update(state.value.id, ${hasDateFields ? 'serializedData' : 'state.value'}${hasConcurrency ? ', { expectedUpdatedAt: baseItem.value.updatedAt }' : ''})
     } else if (props.action === 'delete') {
       await deleteItems(props.items)
     }
-${useTabs
+${useTabs || hasServerRules
   ? `
     // Clear validation errors on successful submission
     validationErrors.value = []
@@ -748,11 +831,40 @@ ${useTabs
   : ''}
     close()
 
-  } catch (error) {
+  } catch (error) {${hasConcurrency
+    ? `
+    if (isCollectionConflictError(error)) {
+      conflict.value = { mine: { ...state.value }, theirs: error.current }
+      return
+    }`
+    : ''}${hasServerRules
+    ? `
+    if (isCollectionValidationError(error)) {
+      form.value?.setErrors(error.issues)
+      validationErrors.value = error.issues
+      return
+    }`
+    : ''}
     console.error('Form submission failed:', error)
     // You can add toast notification here if available
     // toast.add({ title: 'Error', description: 'Failed to submit form', color: 'red' })
   }
+}${hasConcurrency
+  ? `
+
+// Save the merged values on top of the server's current version
+const saveMerged = async (merged: Record<string, any>) => {
+  baseItem.value = conflict.value!.theirs
+  conflict.value = null
+  state.value = merged as typeof state.value
+  await handleSubmit()
 }
+
+// Drop the local edit; the list already shows the server's version
+const discardMine = () => {
+  conflict.value = null
+  close()
+}`
+  : ''}
 </script>`
 }
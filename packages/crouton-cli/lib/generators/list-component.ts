@@ -1,5 +1,5 @@
 // Generator for List.vue component
-import { toCase } from '../utils/helpers.ts'
+import { toCase, quoteValue } from '../utils/helpers.ts'
 
 /**
  * Generate AI context header for List.vue components
@@ -27,7 +27,8 @@ function generateAIHeader(data: Record<string, any>, apiPath: string): string {
   - Add column: Update columns array in composable
   - Custom cell template: Add <template #fieldName-cell="{ row }">
   - Change layout: Modify :layout prop (table, list, grid, cards, tree)
-  - Add filters: Add query params to useCollectionQuery
+  - Add filters: Pass \`filters\` / \`sort\` to useCollectionQuery (server-side, see ?field[op]= grammar),
+    and \`server-sort @update:sort="sort = $event"\` to CroutonCollection so column sorting follows
 
   Generated by @fyit/crouton-cli
   Safe to modify - regeneration requires --force flag
@@ -64,6 +65,16 @@ export function generateListComponent(data: Record<string, any>, config: Record<
   // Check for boolean fields
   const booleanFields = fields.filter(f => f.type === 'boolean')
 
+  // Check for enum fields (badge with the option's label and colour)
+  const enumFields = fields.filter(f => f.type === 'enum' && Array.isArray(f.meta?.options))
+  const enumOptionsCode = enumFields.map((field) => {
+    const entries = field.meta.options.map((option: { value: string, label: string, color?: string }) =>
+      `  ${quoteValue(option.value)}: { label: ${quoteValue(option.label)}, color: ${quoteValue(option.color || 'neutral')} }`
+    ).join(',\n')
+    return `const ${field.name}Options: Record<string, { label: string, color: BadgeProps['color'] }> = {\n${entries}\n}`
+  }).join('\n\n')
+  const enumImport = enumFields.length > 0 ? `\nimport type { BadgeProps } from '@nuxt/ui'` : ''
+
   // Check for repeater fields
   const repeaterFields = fields.filter(f => f.type === 'repeater')
 
@@ -78,6 +89,13 @@ export function generateListComponent(data: Record<string, any>, config: Record<
     !contributionFieldNames.has(fieldName)
   )
 
+  // Fields flagged `searchable` switch the search box to server-side `?q=`
+  // search, and column sorting to `?sort=` with it (rows are a server page)
+  const hasServerSearch = fields.some(f => f.meta?.searchable)
+  const serverSearchProps = hasServerSearch
+    ? `\n    server-search\n    @update:search="search = $event"\n    @update:sort="sort = $event"`
+    : ''
+
   // Extra CroutonCollection props from contributions (e.g. :show-collab-presence)
   const extraCollectionProps = (listEnhancements.collectionProps as string[]).length > 0
     ? (listEnhancements.collectionProps as string[]).map((p: string) => `\n    ${p}`).join('')
@@ -92,7 +110,7 @@ export function generateListComponent(data: Record<string, any>, config: Record<
     collection="${prefixedCamelCasePlural}"
     :columns="columns"
     :rows="${plural} || []"
-    :loading="pending"${extraCollectionProps}
+    :loading="pending"${serverSearchProps}${extraCollectionProps}
   >
     <template #header>
       <CroutonTableHeader
@@ -118,6 +136,28 @@ export function generateListComponent(data: Record<string, any>, config: Record<
         resolvedCollection = `${layerCamelCase}${refCases.pascalCasePlural}`
       }
 
+      // Many-to-many: the rows come with the linked items (<field>Data), shown as chips
+      if (field.type === 'references') {
+        const itemLabel = field.meta?.labelField
+          ? `item.${field.meta.labelField} ?? item.id`
+          : 'item.title ?? item.name ?? item.label ?? item.id'
+        return `
+    <template #${field.name}-cell="{ row }">
+      <div v-if="row.original.${field.name}Data?.length" class="flex flex-wrap gap-1">
+        <UBadge
+          v-for="item in row.original.${field.name}Data"
+          :key="item.id"
+          color="neutral"
+          variant="subtle"
+          size="md"
+        >
+          {{ ${itemLabel} }}
+        </UBadge>
+      </div>
+      <span v-else class="text-gray-400">—</span>
+    </template>`
+      }
+
       // Check if this is an array-type reference (multi-select)
       if (field.type === 'array') {
         return `
@@ -160,6 +200,17 @@ export function generateListComponent(data: Record<string, any>, config: Record<
     </template>`).join('')}${dateFields.map(field => `
     <template #${field.name}-cell="{ row }">
       <CroutonDate :date="row.original.${field.name}"></CroutonDate>
+    </template>`).join('')}${enumFields.map(field => `
+    <template #${field.name}-cell="{ row }">
+      <UBadge
+        v-if="row.original.${field.name}"
+        :color="${field.name}Options[row.original.${field.name}]?.color ?? 'neutral'"
+        variant="subtle"
+        size="md"
+      >
+        {{ ${field.name}Options[row.original.${field.name}]?.label ?? row.original.${field.name} }}
+      </UBadge>
+      <span v-else class="text-gray-400">—</span>
     </template>`).join('')}${booleanFields.map(field => `
     <template #${field.name}-cell="{ row }">
       <CroutonBoolean :value="row.original.${field.name}" />
@@ -211,7 +262,7 @@ export function generateListComponent(data: Record<string, any>, config: Record<
   </CroutonCollection>
 </template>
 
-<script setup lang="ts">
+<script setup lang="ts">${enumImport}
 import use${prefixedPascalCasePlural} from '../composables/use${prefixedPascalCasePlural}'
 
 const props = withDefaults(defineProps<{
@@ -226,9 +277,14 @@ const { locale } = useI18n()`
   : ''}
 const { columns } = use${prefixedPascalCasePlural}()
 
-const { items: ${camelCasePlural}, pending } = await useCollectionQuery(
+${hasServerSearch
+  ? `const { items: ${camelCasePlural}, pending, search, sort } = await useCollectionQuery(
+  '${prefixedCamelCasePlural}',
+  { search: '', sort: [] }
+)`
+  : `const { items: ${camelCasePlural}, pending } = await useCollectionQuery(
   '${prefixedCamelCasePlural}'
-)
-${(listEnhancements.scriptAdditions as string[]).join('\n')}
+)`}
+${enumOptionsCode ? `\n${enumOptionsCode}\n` : ''}${(listEnhancements.scriptAdditions as string[]).join('\n')}
 </script>`
 }
@@ -0,0 +1,253 @@
+/**
+ * Generator for the OpenAPI registry
+ *
+ * Scans all layers and collections for generated API endpoints and writes a
+ * server util that builds an OpenAPI 3.1 document from them: the fields come
+ * from each composable's zod schema (imported, so hand edits show up), the
+ * list parameters from the GET endpoint's `listSpec`, and the paths from the
+ * endpoint files that exist.
+ *
+ * Output location: server/utils/crouton-openapi.ts (in project root),
+ * served by @fyit/crouton-core at GET /api/crouton/openapi.json
+ */
+
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { fileExists } from '@fyit/crouton-core/shared/utils/fs'
+import type { CollectionEndpoint, CollectionOpenApiEntry } from '@fyit/crouton-core/shared/utils/collection-openapi'
+import type { CollectionFieldKind } from '@fyit/crouton-core/shared/utils/collection-query'
+import { getAllLayers, getAllCollectionsInLayer } from '../utils/layer-discovery.ts'
+
+/**
+ * Convert a string to PascalCase
+ */
+function toPascalCase(str: string): string {
+  return str
+    .split(/[-_\s]+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('')
+}
+
+/**
+ * Convert a string to camelCase
+ */
+function toCamelCase(str: string): string {
+  const pascal = toPascalCase(str)
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1)
+}
+
+/** An OpenAPI entry still missing its JSON Schema, plus where the zod schema lives */
+export interface CollectionOpenApiSource extends Omit<CollectionOpenApiEntry, 'schema'> {
+  /** Name of the zod schema exported by the composable, e.g. "salesOrderSchema" */
+  schemaExport: string
+  /** Absolute path of the composable */
+  composablePath: string
+  /** Import path using ~~ alias */
+  importPath: string
+}
+
+/** Endpoint file (relative to the apiPath directory, `[id]` for the item param) per endpoint */
+const ENDPOINT_FILES: Record<CollectionEndpoint, string> = {
+  list: 'index.get.ts',
+  create: 'index.post.ts',
+  update: '[id].patch.ts',
+  delete: '[id].delete.ts',
+  bulk: 'bulk.post.ts',
+  export: 'export.get.ts',
+  move: '[id]/move.patch.ts',
+  reorder: 'reorder.patch.ts',
+  restore: '[id]/restore.patch.ts',
+  purge: '[id]/purge.delete.ts'
+}
+
+/**
+ * The `listSpec` literal of a generated GET endpoint
+ */
+export function parseListSpec(source: string): CollectionOpenApiEntry['list'] {
+  const block = /const listSpec: CollectionListSpec = \{\s*fields: \{([^}]*)\},\s*searchable: \[([^\]]*)\]/.exec(source)
+  if (!block) return { fields: {} }
+
+  const fields: Record<string, CollectionFieldKind> = {}
+  for (const [, name, kind] of block[1]!.matchAll(/(\w+): '(\w+)'/g)) {
+    fields[name!] = kind as CollectionFieldKind
+  }
+  const searchable = [...block[2]!.matchAll(/'(\w+)'/g)].map(match => match[1]!)
+  return { fields, searchable }
+}
+
+/**
+ * Discover all collections with generated API endpoints
+ */
+export async function discoverCollectionOpenApi(basePath: string = '.'): Promise<CollectionOpenApiSource[]> {
+  const layers = await getAllLayers(basePath)
+  const collections: CollectionOpenApiSource[] = []
+
+  for (const layer of layers) {
+    const layerCollections = await getAllCollectionsInLayer(layer, basePath)
+
+    for (const collection of layerCollections) {
+      const collectionPath = path.resolve(basePath, 'layers', layer, 'collections', collection)
+      const composableName = `use${toPascalCase(layer)}${toPascalCase(collection)}`
+      const composablePath = path.join(collectionPath, 'app', 'composables', `${composableName}.ts`)
+      if (!await fileExists(composablePath)) {
+        continue
+      }
+
+      const composable = await fsp.readFile(composablePath, 'utf-8')
+      const schemaExport = /export const (\w+Schema) = z\.object/.exec(composable)?.[1]
+      const apiPath = /apiPath: '([^']+)'/.exec(composable)?.[1]
+      if (!schemaExport || !apiPath) {
+        continue
+      }
+
+      const apiDir = path.join(collectionPath, 'server', 'api', 'teams', '[id]', apiPath)
+      if (!await fileExists(apiDir)) {
+        continue
+      }
+
+      // The item param is named after the collection: [orderId].patch.ts
+      const apiFiles = await fsp.readdir(apiDir)
+      const idParam = apiFiles.map(file => /^\[(\w+)\]/.exec(file)?.[1]).find(Boolean) ?? 'id'
+      const endpointPath = (endpoint: CollectionEndpoint) => path.join(apiDir, ENDPOINT_FILES[endpoint].replace('[id]', `[${idParam}]`))
+
+      const endpoints: CollectionEndpoint[] = []
+      for (const endpoint of Object.keys(ENDPOINT_FILES) as CollectionEndpoint[]) {
+        if (await fileExists(endpointPath(endpoint))) endpoints.push(endpoint)
+      }
+      if (endpoints.length === 0) {
+        continue
+      }
+
+      const read = async (endpoint: CollectionEndpoint) => endpoints.includes(endpoint) ? fsp.readFile(endpointPath(endpoint), 'utf-8') : ''
+      const getSource = await read('list')
+      const patchSource = await read('update')
+      const reorderSource = await read('reorder')
+
+      // salesOrderSchema → SalesOrder
+      const typeName = schemaExport.replace(/Schema$/, '')
+      collections.push({
+        key: `${toCamelCase(layer)}${toPascalCase(collection)}`,
+        typeName: typeName.charAt(0).toUpperCase() + typeName.slice(1),
+        layer,
+        collection,
+        apiPath,
+        idParam,
+        endpoints,
+        list: parseListSpec(getSource),
+        orderField: /typeof update\.(\w+) !== 'number'/.exec(reorderSource)?.[1],
+        translatable: getSource.includes('query.locale'),
+        metadata: !patchSource || patchSource.includes('expectedUpdatedAt'),
+        schemaExport,
+        composablePath,
+        importPath: `~~/layers/${layer}/collections/${collection}/app/composables/${composableName}`
+      })
+    }
+  }
+
+  return collections
+}
+
+/** A JS literal of a plain value, in the style of the generated code */
+function literal(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(literal).join(', ')}]`
+  if (value && typeof value === 'object') {
+    const props = Object.entries(value).map(([key, item]) => `${key}: ${literal(item)}`)
+    return props.length ? `{ ${props.join(', ')} }` : '{}'
+  }
+  return typeof value === 'string' ? `'${value.replace(/'/g, '\\\'')}'` : String(value)
+}
+
+/** The entry literal, with the schema converted from the imported zod schema */
+function entryCode(col: CollectionOpenApiSource): string {
+  const { schemaExport: _schemaExport, composablePath: _composablePath, importPath: _importPath, ...entry } = col
+  const fields = Object.entries(entry).filter(([, value]) => value !== undefined)
+  return `  {
+${fields.map(([key, value]) => `    ${key}: ${literal(value)},`).join('\n')}
+    schema: z.toJSONSchema(${col.schemaExport}, COLLECTION_JSON_SCHEMA_OPTIONS)
+  }`
+}
+
+/**
+ * Generate the OpenAPI registry file content from discovered collections
+ */
+export function generateOpenApiRegistry(collections: CollectionOpenApiSource[]): string {
+  const header = `/**
+ * @crouton-generated
+ * OpenAPI Registry
+ *
+ * This file is auto-generated by @fyit/crouton-cli.
+ * Run \`crouton generate\` to regenerate after adding collections.
+ *`
+
+  if (collections.length === 0) {
+    return `${header}
+ * No collections found. Generate some collections first!
+ */
+
+import { buildCollectionOpenApi, type CollectionOpenApiInfo } from '@fyit/crouton-core/shared/utils/collection-openapi'
+
+export function croutonOpenApiDocument(info?: CollectionOpenApiInfo) {
+  return buildCollectionOpenApi([], info)
+}
+`
+  }
+
+  const imports = collections
+    .map(col => `import { ${col.schemaExport} } from '${col.importPath}'`)
+    .join('\n')
+
+  return `${header}
+ * Generated: ${new Date().toISOString().split('T')[0]}
+ *
+ * ## How This Works
+ * The field schemas are converted from each collection's zod schema when the
+ * document is first built, so edits to a composable's schema show up without
+ * regenerating. Paths and list parameters follow the generated endpoints.
+ *
+ * ## Usage
+ * The document is served at GET /api/crouton/openapi.json; \`crouton openapi\`
+ * writes it to a file for client generators.
+ *
+ * ## Registered Collections
+${collections.map(col => ` * - ${col.key} (${col.layer}/${col.collection}) → /api/teams/{id}/${col.apiPath}`).join('\n')}
+ */
+
+import { z } from 'zod'
+import {
+  buildCollectionOpenApi,
+  COLLECTION_JSON_SCHEMA_OPTIONS,
+  type CollectionOpenApiEntry,
+  type CollectionOpenApiInfo
+} from '@fyit/crouton-core/shared/utils/collection-openapi'
+${imports}
+
+let entries: CollectionOpenApiEntry[] | undefined
+
+export function croutonOpenApiDocument(info?: CollectionOpenApiInfo) {
+  entries ??= [
+${collections.map(entryCode).join(',\n').replace(/^/gm, '  ')}
+  ]
+  return buildCollectionOpenApi(entries, info)
+}
+`
+}
+
+/**
+ * Main function: discover collections and write the OpenAPI registry file
+ */
+export async function generateOpenApiRegistryFile(basePath: string = '.', outputPath: string | null = null): Promise<{ outputPath: string, collectionsCount: number }> {
+  const collections = await discoverCollectionOpenApi(basePath)
+  const content = generateOpenApiRegistry(collections)
+
+  const finalOutputPath = outputPath || path.resolve(basePath, 'server', 'utils', 'crouton-openapi.ts')
+
+  // Ensure directory exists
+  await fsp.mkdir(path.dirname(finalOutputPath), { recursive: true })
+
+  await fsp.writeFile(finalOutputPath, content, 'utf-8')
+
+  return {
+    outputPath: finalOutputPath,
+    collectionsCount: collections.length
+  }
+}
@@ -0,0 +1,198 @@
+// Generator for the standalone client SDK (`crouton sdk`)
+//
+// The SDK is a framework-agnostic TypeScript package: the collection client
+// runtime copied from @fyit/crouton-core (shared/utils/collection-client.ts
+// and the list-query grammar it serializes), plus a generated collections.ts
+// holding the types and endpoints of every collection, keyed like the app's
+// CollectionTypeMap. The types come from the same JSON Schemas as the OpenAPI
+// document (see openapi-registry.ts), so the package has no zod dependency.
+import type { CollectionOpenApiEntry } from '@fyit/crouton-core/shared/utils/collection-openapi'
+import { collectionRowSchema } from '@fyit/crouton-core/shared/utils/collection-openapi'
+
+type JsonSchema = Record<string, any>
+
+/** Runtime files copied from @fyit/crouton-core into the SDK's src/ */
+export const SDK_RUNTIME_FILES = {
+  'client.ts': '@fyit/crouton-core/shared/utils/collection-client',
+  'collection-query.ts': '@fyit/crouton-core/shared/utils/collection-query'
+}
+
+function quote(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'` : String(value)
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Z_$][\w$]*$/i.test(key) ? key : quote(key)
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const properties: Record<string, JsonSchema> = schema.properties ?? {}
+  const keys = Object.keys(properties)
+  if (keys.length === 0) {
+    const values = schema.additionalProperties && typeof schema.additionalProperties === 'object'
+      ? jsonSchemaToTs(schema.additionalProperties, indent)
+      : 'unknown'
+    return `Record<string, ${values}>`
+  }
+
+  const required = new Set<string>(schema.required ?? [])
+  const inner = `${indent}  `
+  const lines = keys.map(key => `${inner}${propertyKey(key)}${required.has(key) ? '' : '?'}: ${jsonSchemaToTs(properties[key]!, inner)}`)
+  return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+/**
+ * TypeScript type of a JSON Schema, for the subset zod's `toJSONSchema`
+ * emits (objects, arrays, records, enums, literals and unions)
+ */
+export function jsonSchemaToTs(schema: JsonSchema, indent: string = ''): string {
+  if (!schema || typeof schema !== 'object') return 'unknown'
+  if ('const' in schema) return quote(schema.const)
+  if (Array.isArray(schema.enum)) return schema.enum.map(quote).join(' | ')
+
+  const variants: JsonSchema[] | undefined = schema.anyOf ?? schema.oneOf
+  if (Array.isArray(variants)) {
+    return [...new Set(variants.map(variant => jsonSchemaToTs(variant, indent)))].join(' | ')
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type: string) => jsonSchemaToTs({ ...schema, type }, indent)).join(' | ')
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string'
+    case 'number':
+    case 'integer':
+      return 'number'
+    case 'boolean':
+      return 'boolean'
+    case 'null':
+      return 'null'
+    case 'array': {
+      const item = jsonSchemaToTs(schema.items ?? {}, indent)
+      return /[|&\s]/.test(item) ? `Array<${item}>` : `${item}[]`
+    }
+    case 'object':
+      return objectType(schema, indent)
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * Types and endpoint definitions of the collections (src/collections.ts)
+ */
+export function generateSdkCollections(entries: CollectionOpenApiEntry[]): string {
+  const types = entries.map(entry => `/** ${entry.layer}/${entry.collection} row */
+export interface ${entry.typeName} ${objectType(collectionRowSchema(entry), '')}
+
+/** ${entry.layer}/${entry.collection} create/update body */
+export interface ${entry.typeName}FormData ${objectType(entry.schema, '')}
+
+export type New${entry.typeName} = ${entry.typeName}FormData`).join('\n\n')
+
+  const typeMapEntries = entries.map(entry => `  ${entry.key}: {
+    Item: ${entry.typeName}
+    FormData: ${entry.typeName}FormData
+    NewItem: New${entry.typeName}
+    Endpoints: ${entry.endpoints.map(quote).join(' | ')}
+  }`).join('\n')
+
+  const definitions = entries.map((entry) => {
+    const props = [`apiPath: ${quote(entry.apiPath)}`, `endpoints: [${entry.endpoints.map(quote).join(', ')}]`]
+    if (entry.orderField) props.push(`orderField: ${quote(entry.orderField)}`)
+    return `  ${entry.key}: { ${props.join(', ')} }`
+  }).join(',\n')
+
+  return `/**
+ * @crouton-generated
+ * Collection types and endpoints
+ *
+ * This file is auto-generated by @fyit/crouton-cli.
+ * Run \`crouton sdk\` to regenerate after changing collections.
+ *
+ * Generated: ${new Date().toISOString().split('T')[0]}
+ *
+ * Dates are ISO strings, as they travel over the wire.
+ *
+ * ## Collections
+${entries.map(entry => ` * - ${entry.key} → /api/teams/{team}/${entry.apiPath}`).join('\n')}
+ */
+
+import type { CollectionDefinition } from './client'
+
+${types}
+
+export interface CollectionTypeMap {
+${typeMapEntries}
+}
+
+export const collections: { [K in keyof CollectionTypeMap]: CollectionDefinition } = {
+${definitions}
+}
+`
+}
+
+/**
+ * Entry point of the SDK (src/index.ts)
+ */
+export function generateSdkIndex(name: string, entries: CollectionOpenApiEntry[]): string {
+  const example = entries[0]?.key ?? 'blogPosts'
+  return `/**
+ * @crouton-generated
+ * ${name}: typed client for the app's collection endpoints
+ *
+ * This file is auto-generated by @fyit/crouton-cli.
+ *
+ * \`\`\`ts
+ * import { createClient } from '${name}'
+ *
+ * const api = createClient({ baseURL: 'https://app.example.com', team: 'acme', token: process.env.SESSION_TOKEN })
+ * const { items, total } = await api.${example}.page(1, { sort: [{ field: 'createdAt', direction: 'desc' }] })
+ * \`\`\`
+ */
+
+import { createCollectionClient, type CollectionClient, type CollectionClientOptions } from './client'
+import { collections, type CollectionTypeMap } from './collections'
+
+export * from './collections'
+export { CollectionClientError } from './client'
+export type {
+  CollectionClient,
+  CollectionClientOptions,
+  CollectionListOptions,
+  CollectionPage,
+  CollectionResource,
+  CollectionUpdateOptions
+} from './client'
+export type { CollectionFilter, CollectionFilterOp, CollectionSort } from './collection-query'
+
+export function createClient(options: CollectionClientOptions): CollectionClient<CollectionTypeMap> {
+  return createCollectionClient<CollectionTypeMap>(collections, options)
+}
+`
+}
+
+/**
+ * A runtime file copied from @fyit/crouton-core, with a note on where it came from
+ */
+export function sdkRuntimeSource(file: string, source: string): string {
+  const specifier = SDK_RUNTIME_FILES[file as keyof typeof SDK_RUNTIME_FILES]
+  return `// Copied from ${specifier} by \`crouton sdk\`; changes are overwritten on regeneration.\n${source}`
+}
+
+/**
+ * package.json of the SDK: TypeScript source, no dependencies
+ */
+export function generateSdkPackageJson(name: string): string {
+  return `${JSON.stringify({
+    name,
+    version: '0.1.0',
+    description: 'Typed client for the collection API (generated by @fyit/crouton-cli)',
+    type: 'module',
+    main: './src/index.ts',
+    types: './src/index.ts',
+    exports: { '.': './src/index.ts' },
+    files: ['src']
+  }, null, 2)}\n`
+}
@@ -1,5 +1,6 @@
 // Generator for seed data file using drizzle-seed
 import { getSeedGenerator, pascal } from '../utils/helpers.ts'
+import { isComputedField } from '../utils/computed-fields.ts'
 
 /**
  * Generate a seed file for a collection using drizzle-seed
@@ -31,8 +32,10 @@ export function generateSeedFile(data: Record<string, any>, config: Record<strin
     'parentId', 'path', 'depth', 'order' // hierarchy fields
   ]
 
-  // Filter out auto-generated fields and generate seed mappings
-  const seedableFields = fields.filter(f => !AUTO_FIELDS.includes(f.name))
+  // Filter out auto-generated fields and generate seed mappings. Many-to-many
+  // fields live in join tables, not on the seeded table; computed fields are
+  // derived (virtual ones have no column, stored ones are filled on write).
+  const seedableFields = fields.filter(f => !AUTO_FIELDS.includes(f.name) && f.type !== 'references' && !isComputedField(f))
 
   // Build field mappings for drizzle-seed
   const fieldMappings = seedableFields.map((f) => {
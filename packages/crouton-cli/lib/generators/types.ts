@@ -1,5 +1,5 @@
 // Generator for TypeScript types
-import { toCase } from '../utils/helpers.ts'
+import { toCase, enumTypeName } from '../utils/helpers.ts'
 
 /**
  * Generate AI context header for types files
@@ -116,6 +116,13 @@ export function generateTypes(data: Record<string, any>, config: Record<string,
 `
     : ''
 
+  // Soft delete columns (set by DELETE, cleared by restore)
+  const softDeleteFields = data.softDelete?.enabled
+    ? `  deletedAt?: Date | null
+  deletedBy?: string | null
+`
+    : ''
+
   // Build translations type if needed
   const translationsType = translationFields.length > 0
     ? `  translations?: Record<string, { ${translationFields.map(f => `${f}?: string`).join('; ')} }>
@@ -143,13 +150,19 @@ export function generateTypes(data: Record<string, any>, config: Record<string,
     ? `${repeaterItemInterfaces}\n\n`
     : ''
 
+  // Enum fields get a named union of their option values (e.g. ShopProductStatus)
+  const enumTypesBlock = fields
+    .filter(f => f.type === 'enum')
+    .map(f => `export type ${enumTypeName(prefixedPascalCase, f.name)} = ${f.tsType}\n\n`)
+    .join('')
+
   return `${aiHeader}import type { z } from 'zod'
 import type { ${prefixedSingular}Schema } from '${composablePath}'
 
-${repeaterInterfacesBlock}export interface ${prefixedPascalCase} {
+${repeaterInterfacesBlock}${enumTypesBlock}export interface ${prefixedPascalCase} {
   id: string
 ${teamFields}  ${data.fieldsTypes}
-${translationsType}${metadataFields}  optimisticId?: string
+${translationsType}${metadataFields}${softDeleteFields}  optimisticId?: string
   optimisticAction?: 'create' | 'update' | 'delete'
 }
 
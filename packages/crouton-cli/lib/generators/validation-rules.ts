@@ -0,0 +1,53 @@
+// Generator for a collection's validation.ts: the cross-field rules from the
+// schema (`meta.refine`), shared by the form schema and the server
+import { quoteValue } from '../utils/helpers.ts'
+import { compileExpression } from '../utils/computed-fields.ts'
+import { refineRules } from '../utils/validation-rules.ts'
+import { helperImport, readField } from './computed-fields.ts'
+
+// Name of the generated function (e.g. validateSalesEventRules)
+export function validateFunctionName(data: Record<string, any>): string {
+  return `validate${data.layerPascalCase}${data.pascalCase}Rules`
+}
+
+// `.superRefine()` that reports every failed rule on its field; appended to a
+// z.object() after everything else (Zod 4 can't .partial() a refined object)
+export function refineSchemaCode(data: Record<string, any>, indent = ''): string {
+  return `.superRefine((item, ctx) => {
+${indent}  for (const issue of ${validateFunctionName(data)}(item)) {
+${indent}    ctx.addIssue({ code: 'custom', path: issue.path, message: issue.message })
+${indent}  }
+${indent}})`
+}
+
+export function generateValidationRules(data: Record<string, any>): string {
+  const { fields, plural, layer } = data
+  const fieldByName = new Map<string, Record<string, any>>(fields.map((field: Record<string, any>) => [field.name, field]))
+
+  const checks = refineRules(fields).map((rule) => {
+    const code = compileExpression(rule.expression, name => readField(fieldByName.get(name), `item.${name}`))
+    const filled = rule.inputs.map(name => `!isBlank(item.${name})`).join(' && ')
+    return `  // ${rule.expression}
+  if (${filled ? `${filled} && ` : ''}!(${code})) {
+    issues.push({ path: ['${rule.field}'], message: ${quoteValue(rule.message)} })
+  }`
+  })
+  const body = checks.join('\n')
+
+  return `/**
+ * @crouton-generated
+ * @collection ${plural}
+ * @layer ${layer}
+ *
+ * Cross-field validation rules from the schema (\`meta.refine\`). The form
+ * schema and POST/bulk creates check the submitted item; PATCH checks the row
+ * as it will be after the update. A rule waits until every field it reads has
+ * a value. Regenerate instead of editing: the rules live in the schema.
+ */
+${helperImport(body)}export function ${validateFunctionName(data)}(item: Record<string, any>) {
+  const issues: Array<{ path: string[], message: string }> = []
+${body}
+  return issues
+}
+`
+}
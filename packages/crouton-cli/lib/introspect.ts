@@ -0,0 +1,270 @@
+// introspect.ts — Reverse-engineer collection schemas from an existing SQLite
+// file or Postgres database (see utils/introspect-schema.ts)
+import { execFileSync } from 'node:child_process'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join, relative, resolve } from 'node:path'
+import consola from 'consola'
+import { parseModule, generateCode } from 'magicast'
+
+import { sqliteQuery } from './migrate.ts'
+import { discoverManifests, getAutoGeneratedFields } from './utils/manifest-bridge.ts'
+import { checkConstraintValues, introspectCollections } from './utils/introspect-schema.ts'
+import type { IntrospectedCollection, IntrospectedTable } from './utils/introspect-schema.ts'
+import { sqlString } from './utils/schema-diff.ts'
+
+interface IntrospectOptions {
+  /** SQLite file path or postgres:// connection URL */
+  source: string
+  layer: string
+  /** Postgres schema (default: public) */
+  schema?: string
+  tables?: string
+  exclude?: string
+  out?: string
+  config?: string
+  force?: boolean
+  dryRun?: boolean
+}
+
+// Bookkeeping tables of drizzle, NuxtHub, D1 and SQLite itself
+const INTERNAL_TABLES = /^(?:sqlite_|_cf_|_hub_migrations$|__drizzle_migrations$|d1_migrations$)/
+
+function isPostgresUrl(source: string): boolean {
+  return /^postgres(?:ql)?:\/\//.test(source)
+}
+
+function readSqliteTables(db: string): IntrospectedTable[] {
+  const tables = sqliteQuery(db, 'SELECT name, sql FROM sqlite_master WHERE type = \'table\' ORDER BY name')
+  return tables.map((table) => {
+    const uniqueColumns = new Set(
+      sqliteQuery(db, `PRAGMA index_list(${sqlString(table.name)})`)
+        .filter(index => index.unique === 1 && index.origin !== 'pk')
+        .map(index => sqliteQuery(db, `PRAGMA index_info(${sqlString(index.name)})`))
+        .filter(columns => columns.length === 1)
+        .map(columns => columns[0].name as string)
+    )
+    return {
+      name: table.name as string,
+      columns: sqliteQuery(db, `PRAGMA table_info(${sqlString(table.name)})`).map(column => ({
+        name: column.name as string,
+        type: column.type as string,
+        notNull: column.notnull === 1,
+        defaultValue: column.dflt_value as string | null,
+        primaryKey: column.pk > 0,
+        unique: uniqueColumns.has(column.name),
+        enumValues: checkConstraintValues(table.sql ?? '', column.name)
+      })),
+      foreignKeys: sqliteQuery(db, `PRAGMA foreign_key_list(${sqlString(table.name)})`).map(foreignKey => ({
+        column: foreignKey.from as string,
+        table: foreignKey.table as string
+      }))
+    }
+  })
+}
+
+function psqlQuery(url: string, sql: string): any[] {
+  let output: string
+  try {
+    output = execFileSync(
+      'psql',
+      ['-X', '-q', '-A', '-t', '-v', 'ON_ERROR_STOP=1', '-d', url, '-c', `SELECT coalesce(json_agg(row_to_json(q)), '[]') FROM (${sql}) q`],
+      { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }
+    ).trim()
+  } catch (error: any) {
+    if (error.code === 'ENOENT') throw new Error('psql not found. Install the PostgreSQL client to read the database.')
+    throw new Error(`psql failed: ${(error.stderr || error.message).toString().trim()}`)
+  }
+  return output ? JSON.parse(output) : []
+}
+
+// Postgres rewrites `status IN ('a', 'b')` to `status = ANY (ARRAY['a'::text, 'b'::text])`
+function postgresCheckValues(definition: string): string[] | undefined {
+  const array = /ARRAY\[(.*)\]/.exec(definition)
+  if (!array) return undefined
+  const values = [...array[1]!.matchAll(/'((?:[^']|'')*)'/g)].map(value => value[1]!.replace(/''/g, '\''))
+  return values.length > 0 ? values : undefined
+}
+
+function readPostgresTables(url: string, schema: string): IntrospectedTable[] {
+  const namespace = `n.nspname = ${sqlString(schema)}`
+  const columns = psqlQuery(url, `
+    SELECT c.relname AS "table", a.attname AS name, format_type(a.atttypid, a.atttypmod) AS type,
+      a.attnotnull AS "notNull", pg_get_expr(d.adbin, d.adrelid) AS "defaultValue",
+      (SELECT json_agg(e.enumlabel ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = a.atttypid) AS "enumValues"
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    LEFT JOIN pg_attrdef d ON d.adrelid = c.oid AND d.adnum = a.attnum
+    WHERE c.relkind IN ('r', 'p') AND ${namespace}
+    ORDER BY c.relname, a.attnum`)
+  const constraints = psqlQuery(url, `
+    SELECT c.relname AS "table", con.contype AS kind, r.relname AS "refTable",
+      pg_get_constraintdef(con.oid) AS definition,
+      (SELECT json_agg(a.attname ORDER BY k.ord) FROM unnest(con.conkey) WITH ORDINALITY k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum) AS columns
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_class r ON r.oid = con.confrelid
+    WHERE con.contype IN ('p', 'f', 'c') AND ${namespace}`)
+  // Unique constraints and CREATE UNIQUE INDEX alike
+  const uniques = psqlQuery(url, `
+    SELECT c.relname AS "table", a.attname AS "column"
+    FROM pg_index i
+    JOIN pg_class c ON c.oid = i.indrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = i.indkey[0]
+    WHERE i.indisunique AND NOT i.indisprimary AND i.indnatts = 1 AND ${namespace}`)
+
+  const tables = new Map<string, IntrospectedTable>()
+  for (const column of columns) {
+    if (!tables.has(column.table)) tables.set(column.table, { name: column.table, columns: [], foreignKeys: [] })
+    const tableConstraints = constraints.filter(constraint => constraint.table === column.table && constraint.columns?.length === 1 && constraint.columns[0] === column.name)
+    const check = tableConstraints.find(constraint => constraint.kind === 'c')
+    tables.get(column.table)!.columns.push({
+      name: column.name,
+      type: column.type,
+      notNull: column.notNull,
+      defaultValue: column.defaultValue,
+      primaryKey: constraints.some(constraint => constraint.table === column.table && constraint.kind === 'p' && constraint.columns?.includes(column.name)),
+      unique: uniques.some(unique => unique.table === column.table && unique.column === column.name),
+      enumValues: column.enumValues ?? (check ? postgresCheckValues(check.definition) : undefined)
+    })
+  }
+  for (const constraint of constraints) {
+    // Multi-column foreign keys have no field equivalent
+    if (constraint.kind !== 'f' || constraint.columns?.length !== 1) continue
+    tables.get(constraint.table)?.foreignKeys.push({ column: constraint.columns[0], table: constraint.refTable })
+  }
+  return [...tables.values()]
+}
+
+function listOption(value: string | undefined): Set<string> | null {
+  return value ? new Set(value.split(',').map(item => item.trim()).filter(Boolean)) : null
+}
+
+/**
+ * Add the collections to crouton.config.js (created if missing): one
+ * `collections` entry per schema file, all under the layer's target.
+ */
+function updateCroutonConfig(configPath: string, layer: string, entries: Array<{ name: string, fieldsFile: string }>): { added: string[] } {
+  if (!existsSync(configPath)) {
+    const collections = entries.map(entry => `    { name: '${entry.name}', fieldsFile: '${entry.fieldsFile}' }`)
+    writeFileSync(configPath, `export default {
+  collections: [
+${collections.join(',\n')}
+  ],
+
+  targets: [
+    { layer: '${layer}', collections: [${entries.map(entry => `'${entry.name}'`).join(', ')}] }
+  ],
+
+  dialect: 'sqlite'
+}
+`)
+    return { added: entries.map(entry => entry.name) }
+  }
+
+  const mod = parseModule(readFileSync(configPath, 'utf-8'))
+  const defaultExport = mod.exports.default
+  const config = defaultExport.$type === 'function-call' ? defaultExport.$args[0] : defaultExport
+  config.collections ||= []
+  config.targets ||= []
+
+  const added: string[] = []
+  for (const entry of entries) {
+    if ([...config.collections].some((collection: any) => collection.name === entry.name)) continue
+    config.collections.push({ name: entry.name, fieldsFile: entry.fieldsFile })
+    added.push(entry.name)
+  }
+
+  let target = [...config.targets].find((item: any) => item.layer === layer)
+  if (!target) {
+    config.targets.push({ layer, collections: [] })
+    target = config.targets[config.targets.length - 1]
+  }
+  for (const entry of entries) {
+    if (![...target.collections].includes(entry.name)) target.collections.push(entry.name)
+  }
+
+  writeFileSync(configPath, generateCode(mod).code)
+  return { added }
+}
+
+/**
+ * Read the tables of a database and write a schema JSON file and a
+ * crouton.config.js entry for each.
+ */
+export async function introspect(options: IntrospectOptions): Promise<void> {
+  const postgres = isPostgresUrl(options.source)
+  let tables: IntrospectedTable[]
+  if (postgres) {
+    tables = readPostgresTables(options.source, options.schema || 'public')
+  } else {
+    const db = resolve(options.source)
+    if (!existsSync(db)) throw new Error(`Database not found: ${db}`)
+    tables = readSqliteTables(db)
+  }
+
+  const only = listOption(options.tables)
+  const exclude = listOption(options.exclude)
+  tables = tables.filter(table => !INTERNAL_TABLES.test(table.name)
+    && (!only || only.has(table.name))
+    && !exclude?.has(table.name))
+  if (tables.length === 0) {
+    consola.warn(only ? `None of ${[...only].join(', ')} found in the database` : 'No tables found in the database')
+    return
+  }
+
+  const manifests = await discoverManifests()
+  const core = manifests.find((manifest: { id: string }) => manifest.id === 'crouton-core')
+  if (!core?.fieldTypes) throw new Error('crouton-core manifest not found. Run introspect inside a crouton app (or the monorepo).')
+  const collections: IntrospectedCollection[] = introspectCollections(tables, {
+    fieldTypes: core.fieldTypes,
+    autoGeneratedFields: await getAutoGeneratedFields(manifests),
+    sqlite: !postgres
+  })
+
+  const schemasDir = resolve(options.out || 'schemas')
+  const configPath = resolve(options.config || 'crouton.config.js')
+  const configDir = resolve(configPath, '..')
+  const entries: Array<{ name: string, fieldsFile: string }> = []
+
+  for (const collection of collections) {
+    const schemaPath = join(schemasDir, `${collection.collection}.json`)
+    const fieldsFile = `./${relative(configDir, schemaPath).split('\\').join('/')}`
+    const fieldCount = Object.keys(collection.schema).length
+    entries.push({ name: collection.collection, fieldsFile })
+    collection.warnings.forEach(warning => consola.warn(warning))
+
+    if (options.dryRun) {
+      consola.info(`${collection.table} → ${collection.collection} (${fieldCount} fields)`)
+      consola.log(JSON.stringify(collection.schema, null, 2))
+      continue
+    }
+    if (existsSync(schemaPath) && !options.force) {
+      consola.warn(`${relative(process.cwd(), schemaPath)} exists, kept (--force to overwrite)`)
+      continue
+    }
+    mkdirSync(schemasDir, { recursive: true })
+    writeFileSync(schemaPath, `${JSON.stringify(collection.schema, null, 2)}\n`)
+    consola.success(`${collection.table} → ${relative(process.cwd(), schemaPath)} (${fieldCount} fields)`)
+  }
+
+  if (options.dryRun) {
+    consola.box(`Dry run — would add ${entries.length} collection(s) to ${relative(process.cwd(), configPath)} under layer '${options.layer}'`)
+    return
+  }
+
+  const { added } = updateCroutonConfig(configPath, options.layer, entries)
+  consola.success(`${relative(process.cwd(), configPath)}: ${added.length} collection(s) added to layer '${options.layer}'`)
+
+  consola.box([
+    'Next steps:',
+    '',
+    '1. Review the schemas: labels, areas and the inferred types',
+    `2. crouton config ${relative(process.cwd(), configPath)}`,
+    '3. The generated tables are new (layer-prefixed, camelCase columns);',
+    `   copy the data over from the ${postgres ? 'Postgres' : 'SQLite'} database once they exist`
+  ].join('\n'))
+}
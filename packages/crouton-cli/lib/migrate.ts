@@ -0,0 +1,271 @@
+// migrate.ts — Diff collection schemas against the local database and write
+// a reviewed SQL migration plus its rollback (see utils/schema-diff.ts)
+import { execFileSync } from 'node:child_process'
+import { existsSync, mkdirSync, readdirSync, writeFileSync } from 'node:fs'
+import { join, relative, resolve, dirname, isAbsolute } from 'node:path'
+import * as p from '@clack/prompts'
+import consola from 'consola'
+import { loadConfig } from 'c12'
+
+import { LOCAL_D1_DIR, NUXTHUB_DB_FILE, findLocalDb } from './db-pull.ts'
+import { collectionTableName } from './generators/database-schema.ts'
+import { toCase } from './utils/helpers.ts'
+import { loadFields } from './utils/load-fields.ts'
+import { loadTypeMapping } from './utils/manifest-bridge.ts'
+import {
+  UPDATED_AT_MS_FROM,
+  desiredColumns,
+  diffTable,
+  migrationStatements,
+  parseRenames,
+  quoteIdentifier,
+  sqlString,
+  updatedAtPrecisionStatements
+} from './utils/schema-diff.ts'
+import type { LiveTable } from './utils/schema-diff.ts'
+
+interface MigrateOptions {
+  config?: string
+  db?: string
+  only?: string
+  rename?: string | string[]
+  allowDrop?: boolean
+  yes?: boolean
+  dryRun?: boolean
+  out?: string
+}
+
+interface CollectionSchema {
+  layer: string
+  collection: string
+  table: string
+  fields: Array<{ name: string, type: string, meta?: Record<string, any> }>
+}
+
+const MIGRATIONS_DIR = 'server/db/migrations/sqlite'
+const ROLLBACKS_DIR = 'server/db/rollbacks'
+
+/**
+ * Local database: --db, else the NuxtHub dev database, else wrangler's local D1.
+ */
+export function resolveDatabase(dbPath?: string): string {
+  if (dbPath) {
+    const resolved = resolve(dbPath)
+    if (!existsSync(resolved)) throw new Error(`Database not found: ${resolved}`)
+    return resolved
+  }
+  if (existsSync(NUXTHUB_DB_FILE)) return resolve(NUXTHUB_DB_FILE)
+  return findLocalDb(resolve(LOCAL_D1_DIR))
+}
+
+/** Rows of a query through the sqlite3 CLI, as objects */
+export function sqliteQuery(db: string, sql: string): any[] {
+  let output: string
+  try {
+    output = execFileSync('sqlite3', ['-json', db, sql], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim()
+  } catch (error: any) {
+    if (error.code === 'ENOENT') throw new Error('sqlite3 not found. Install the SQLite CLI to read the local database.')
+    throw new Error(`sqlite3 failed: ${(error.stderr || error.message).toString().trim()}`)
+  }
+  return output ? JSON.parse(output) : []
+}
+
+/**
+ * Columns and indexes of a table, or null when the table doesn't exist.
+ */
+function readLiveTable(db: string, table: string): LiveTable | null {
+  const [master] = sqliteQuery(db, `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ${sqlString(table)}`)
+  if (!master) return null
+
+  const columns = sqliteQuery(db, `PRAGMA table_info(${sqlString(table)})`).map(column => ({
+    name: column.name as string,
+    type: column.type as string,
+    notNull: column.notnull === 1,
+    defaultValue: column.dflt_value as string | null
+  }))
+  // Only CREATE INDEX indexes (origin 'c'); constraint indexes can't be dropped
+  const indexes = sqliteQuery(db, `PRAGMA index_list(${sqlString(table)})`)
+    .filter(index => index.origin === 'c')
+    .map(index => ({
+      name: index.name as string,
+      unique: index.unique === 1,
+      columns: sqliteQuery(db, `PRAGMA index_info(${sqlString(index.name)})`).map(column => column.name as string)
+    }))
+
+  return { name: table, columns, indexes, sql: master.sql }
+}
+
+/**
+ * Collections from crouton.config (both the collections[] and the schemaPath formats).
+ */
+async function loadCollections(configPath: string | undefined, only: string | undefined): Promise<CollectionSchema[]> {
+  const resolvedConfigPath = configPath ? resolve(configPath) : undefined
+  const { config, configFile } = await loadConfig({
+    name: 'crouton',
+    cwd: resolvedConfigPath ? dirname(resolvedConfigPath) : process.cwd(),
+    configFile: resolvedConfigPath
+  })
+  if (!config || !Array.isArray(config.targets)) {
+    throw new Error('No crouton.config found (or it has no targets)')
+  }
+  const configDir = configFile ? dirname(configFile) : process.cwd()
+  const resolveSchema = (file: string) => isAbsolute(file) ? file : resolve(configDir, file)
+  const typeMapping = await loadTypeMapping()
+  const fieldsFiles = new Map<string, string>(
+    (config.collections ?? []).map((collection: { name: string, fieldsFile?: string }) => [collection.name, collection.fieldsFile])
+  )
+
+  const collections: CollectionSchema[] = []
+  for (const target of config.targets) {
+    for (const collection of target.collections) {
+      if (only && collection !== only) continue
+      const fieldsFile = fieldsFiles.get(collection) ?? config.schemaPath
+      if (!fieldsFile) {
+        consola.warn(`No fields file for collection '${collection}', skipped`)
+        continue
+      }
+      collections.push({
+        layer: target.layer,
+        collection,
+        table: collectionTableName(target.layer, collection, toCase(collection).plural),
+        fields: await loadFields(resolveSchema(fieldsFile), typeMapping)
+      })
+    }
+  }
+  return collections
+}
+
+// Next drizzle-style sequence number in the migrations directory (0004_...)
+function nextMigrationPrefix(dir: string): string {
+  const numbers = existsSync(dir)
+    ? readdirSync(dir).map(file => /^(\d+)_/.exec(file)?.[1]).filter(Boolean).map(Number)
+    : []
+  return String(numbers.length > 0 ? Math.max(...numbers) + 1 : 0).padStart(4, '0')
+}
+
+function scriptHeader(lines: string[], warnings: string[]): string {
+  const warningLines = warnings.length > 0 ? ['--', '-- Review:', ...warnings.map(warning => `--   ${warning}`)] : []
+  return [...lines.map(line => `-- ${line}`), ...warningLines, ''].join('\n')
+}
+
+/**
+ * Compare every collection's schema with its table in the local database and
+ * write the migration for the differences.
+ */
+export async function migrate(options: MigrateOptions = {}): Promise<void> {
+  const db = resolveDatabase(options.db)
+  consola.info(`Database: ${relative(process.cwd(), db) || db}`)
+
+  const collections = await loadCollections(options.config, options.only)
+  if (collections.length === 0) {
+    consola.warn(options.only ? `Collection '${options.only}' not found in crouton.config` : 'No collections in crouton.config')
+    return
+  }
+
+  const renames = parseRenames(options.rename)
+  const interactive = process.stdin.isTTY && !options.yes
+  const up: string[] = []
+  const down: string[] = []
+  const warnings: string[] = []
+  const summary: string[] = []
+
+  for (const schema of collections) {
+    const live = readLiveTable(db, schema.table)
+    if (!live) {
+      consola.info(`${schema.table}: not in the database yet — \`pnpm db:generate\` creates it`)
+      continue
+    }
+
+    const desired = desiredColumns(schema.fields)
+    const tableRenames: Record<string, string> = {}
+    for (const rename of renames) {
+      if (!rename.scope || rename.scope === schema.collection || rename.scope === schema.table) tableRenames[rename.from] = rename.to
+    }
+
+    let diff = diffTable(live, desired, tableRenames)
+    for (const candidate of diff.renameCandidates) {
+      if (!interactive) {
+        warnings.push(`${schema.table}.${candidate.from} may have been renamed to ${candidate.to}. If so, pass --rename ${schema.collection}.${candidate.from}:${candidate.to}.`)
+        continue
+      }
+      const confirmed = await p.confirm({
+        message: `${schema.table}: was "${candidate.from}" renamed to "${candidate.to}"? (no: the new column starts empty)`,
+        initialValue: true
+      })
+      if (p.isCancel(confirmed)) {
+        p.cancel('Migration cancelled.')
+        process.exit(0)
+      }
+      if (confirmed) tableRenames[candidate.from] = candidate.to
+    }
+    if (Object.keys(tableRenames).length > 0) diff = diffTable(live, desired, tableRenames)
+
+    // Tables generated before updatedAt moved to milliseconds still have seconds
+    const [secondsRows] = live.columns.some(column => column.name === 'updatedAt')
+      ? sqliteQuery(db, `SELECT count(*) AS count FROM ${quoteIdentifier(schema.table)} WHERE "updatedAt" < ${UPDATED_AT_MS_FROM}`)
+      : []
+    const precision = secondsRows?.count > 0 ? updatedAtPrecisionStatements(schema.table) : null
+
+    if (diff.changes.length === 0 && !precision) {
+      consola.success(`${schema.table}: up to date`)
+      continue
+    }
+    const scripts = migrationStatements(live, diff, { allowDrop: options.allowDrop })
+    up.push(`-- ${schema.table}`, ...scripts.up, ...(precision?.up ?? []), '')
+    down.push(`-- ${schema.table}`, ...(precision?.down ?? []), ...scripts.down, '')
+    warnings.push(...scripts.warnings)
+    const counts = ['rename', 'add', 'retype', 'drop']
+      .map(kind => [kind, diff.changes.filter(change => change.kind === kind).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([kind, count]) => `${count} ${kind}`)
+    if (precision) counts.push('updatedAt to milliseconds')
+    summary.push(`${schema.table}: ${counts.join(', ')}`)
+  }
+
+  if (up.length === 0) {
+    if (warnings.length > 0) warnings.forEach(warning => consola.warn(warning))
+    consola.success('The database matches the schemas')
+    return
+  }
+
+  const migrationsDir = resolve(options.out || MIGRATIONS_DIR)
+  const fileName = `${nextMigrationPrefix(migrationsDir)}_crouton_migrate.sql`
+  const migrationPath = join(migrationsDir, fileName)
+  const rollbackPath = join(resolve(ROLLBACKS_DIR), fileName)
+  const generatedAt = new Date().toISOString()
+
+  const migration = scriptHeader([
+    `Generated by crouton migrate on ${generatedAt} from ${relative(process.cwd(), db) || db}`,
+    'Review before applying. Rollback: ' + relative(process.cwd(), rollbackPath)
+  ], warnings) + '\n' + up.join('\n')
+  const rollback = scriptHeader([
+    `Rollback for ${relative(process.cwd(), migrationPath)} (crouton migrate, ${generatedAt})`,
+    'Not applied automatically. Run it against the database to undo the migration.'
+  ], []) + '\n' + down.join('\n')
+
+  summary.forEach(line => consola.info(line))
+  warnings.forEach(warning => consola.warn(warning))
+
+  if (options.dryRun) {
+    consola.box(`Dry run — would write ${relative(process.cwd(), migrationPath)}:\n\n${up.join('\n')}`)
+    return
+  }
+
+  mkdirSync(migrationsDir, { recursive: true })
+  mkdirSync(dirname(rollbackPath), { recursive: true })
+  writeFileSync(migrationPath, migration)
+  writeFileSync(rollbackPath, rollback)
+  consola.success(`Migration: ${relative(process.cwd(), migrationPath)}`)
+  consola.success(`Rollback:  ${relative(process.cwd(), rollbackPath)}`)
+
+  consola.box([
+    'Next steps:',
+    '',
+    `1. Review ${fileName}${warnings.length > 0 ? ' (see the warnings at the top)' : ''}`,
+    '2. NuxtHub applies it on the next `nuxt dev` and on deploy',
+    '3. drizzle-kit\'s snapshot still has the old columns: after the next',
+    '   `pnpm db:generate`, remove the statements it repeats for these columns',
+    `4. To undo: sqlite3 ${relative(process.cwd(), db) || db} < ${relative(process.cwd(), rollbackPath)}`,
+    `   then delete ${fileName} and its row in _hub_migrations`
+  ].join('\n'))
+}
@@ -0,0 +1,67 @@
+// openapi.ts — Write the OpenAPI 3.1 document of the generated collection
+// endpoints to a file, without starting the app (the same document
+// GET /api/crouton/openapi.json serves; see generators/openapi-registry.ts)
+import { writeFileSync } from 'node:fs'
+import { join, relative, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import consola from 'consola'
+import { createJiti } from 'jiti'
+import { readPackageJSON } from 'pkg-types'
+import {
+  buildCollectionOpenApi,
+  COLLECTION_JSON_SCHEMA_OPTIONS,
+  type CollectionOpenApiEntry
+} from '@fyit/crouton-core/shared/utils/collection-openapi'
+
+import { discoverCollectionOpenApi } from './generators/openapi-registry.ts'
+
+interface ExportOpenApiOptions {
+  /** Output file (default: ./openapi.json) */
+  out?: string
+  /** Document title (default: the app's package name) */
+  title?: string
+  /** Document version (default: the app's package version) */
+  version?: string
+}
+
+/**
+ * OpenAPI entries of the app's collections, with the composables' zod schemas
+ * converted to JSON Schema. zod and the composables' imports resolve from the
+ * app, like they do on the server.
+ */
+export async function loadOpenApiEntries(cwd: string = process.cwd()): Promise<CollectionOpenApiEntry[]> {
+  const collections = await discoverCollectionOpenApi(cwd)
+  if (collections.length === 0) {
+    throw new Error('No generated collection endpoints found under layers/. Run crouton generate first.')
+  }
+
+  const jiti = createJiti(pathToFileURL(join(cwd, '_openapi.mjs')).href, { moduleCache: false })
+  let z: { toJSONSchema: (schema: unknown, options: unknown) => Record<string, unknown> }
+  try {
+    z = await jiti.import('zod')
+  } catch {
+    throw new Error('zod is not installed in this app. Install the app\'s dependencies first.')
+  }
+
+  const entries: CollectionOpenApiEntry[] = []
+  for (const { schemaExport, composablePath, importPath: _importPath, ...entry } of collections) {
+    const composable = await jiti.import(composablePath) as Record<string, unknown>
+    entries.push({ ...entry, schema: z.toJSONSchema(composable[schemaExport], COLLECTION_JSON_SCHEMA_OPTIONS) })
+  }
+  return entries
+}
+
+export async function exportOpenApi(options: ExportOpenApiOptions = {}): Promise<void> {
+  const cwd = process.cwd()
+  const entries = await loadOpenApiEntries(cwd)
+
+  const pkg = await readPackageJSON(cwd).catch(() => ({ name: undefined, version: undefined }))
+  const document = buildCollectionOpenApi(entries, {
+    title: options.title || pkg.name,
+    version: options.version || pkg.version
+  })
+
+  const out = resolve(options.out || 'openapi.json')
+  writeFileSync(out, `${JSON.stringify(document, null, 2)}\n`)
+  consola.success(`OpenAPI document for ${entries.length} collection(s) → ${relative(cwd, out)}`)
+}
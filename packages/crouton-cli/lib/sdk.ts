@@ -0,0 +1,77 @@
+// sdk.ts — Write the typed client SDK package for the generated collection
+// endpoints (see generators/sdk.ts)
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { dirname, join, relative, resolve } from 'node:path'
+import consola from 'consola'
+import { loadConfig } from 'c12'
+import { readPackageJSON } from 'pkg-types'
+
+import {
+  SDK_RUNTIME_FILES,
+  generateSdkCollections,
+  generateSdkIndex,
+  generateSdkPackageJson,
+  sdkRuntimeSource
+} from './generators/sdk.ts'
+import { loadOpenApiEntries } from './openapi.ts'
+
+export const SDK_DIR = 'sdk'
+
+export interface GenerateSdkOptions {
+  /** Package directory (default: ./sdk) */
+  outDir?: string
+  /** Package name (default: `<app name>-sdk`) */
+  name?: string
+}
+
+/** The crouton.config `sdk` option as generation options, or null when disabled */
+export function sdkOptionsFromConfig(option: unknown): GenerateSdkOptions | null {
+  if (!option) return null
+  return option === true ? {} : option as GenerateSdkOptions
+}
+
+/**
+ * Write the SDK: src/ is regenerated every time; package.json only when
+ * missing, so its name and version are the package owner's to change.
+ */
+export async function generateSdk(options: GenerateSdkOptions = {}, cwd: string = process.cwd()): Promise<{ outDir: string, name: string, collectionsCount: number }> {
+  const entries = await loadOpenApiEntries(cwd)
+  const outDir = resolve(cwd, options.outDir || SDK_DIR)
+  const packageFile = join(outDir, 'package.json')
+
+  let name = options.name
+  if (!name && existsSync(packageFile)) {
+    name = JSON.parse(readFileSync(packageFile, 'utf-8')).name
+  }
+  if (!name) {
+    const app = await readPackageJSON(cwd).catch(() => ({ name: undefined }))
+    name = `${app.name || 'crouton'}-sdk`
+  }
+
+  const src = join(outDir, 'src')
+  mkdirSync(src, { recursive: true })
+  if (!existsSync(packageFile)) writeFileSync(packageFile, generateSdkPackageJson(name))
+
+  const require = createRequire(import.meta.url)
+  for (const [file, specifier] of Object.entries(SDK_RUNTIME_FILES)) {
+    writeFileSync(join(src, file), sdkRuntimeSource(file, readFileSync(require.resolve(specifier), 'utf-8')))
+  }
+  writeFileSync(join(src, 'collections.ts'), generateSdkCollections(entries))
+  writeFileSync(join(src, 'index.ts'), generateSdkIndex(name, entries))
+
+  return { outDir, name, collectionsCount: entries.length }
+}
+
+/** `crouton sdk`: flags win over the crouton.config `sdk` option */
+export async function exportSdk(options: GenerateSdkOptions = {}): Promise<void> {
+  const { config, configFile } = await loadConfig({ name: 'crouton', cwd: process.cwd() })
+  const configured = sdkOptionsFromConfig(config?.sdk) ?? {}
+  const baseDir = configFile && existsSync(configFile) ? dirname(configFile) : process.cwd()
+  const outDir = options.outDir
+    ? resolve(options.outDir)
+    : resolve(baseDir, configured.outDir || SDK_DIR)
+
+  const result = await generateSdk({ outDir, name: options.name || configured.name })
+  consola.success(`${result.name}: ${result.collectionsCount} collection(s) → ${relative(process.cwd(), result.outDir)}`)
+}
@@ -0,0 +1,207 @@
+// Computed fields: values derived from other fields of the same item.
+//
+// A field becomes computed with `meta.computed`, either an expression string
+// (stored) or `{ expression, stored: false }` (virtual). Stored fields keep a
+// column that the generated POST/PATCH/bulk handlers recompute; virtual fields
+// have no column and are added to the rows by the get* queries. Expressions
+// are a small JS subset — field names, numbers, strings, arithmetic/comparison
+// operators, the ternary and a whitelist of functions — compiled into the
+// collection's computed.ts (see generators/computed-fields.ts).
+
+export interface ComputedField {
+  name: string
+  type: string
+  expression: string
+  stored: boolean
+  /** Fields the expression reads (may include other computed fields) */
+  inputs: string[]
+}
+
+interface FieldLike {
+  name: string
+  type: string
+  meta?: Record<string, any>
+}
+
+// Math.* functions, emitted as Math.<name>
+const MATH_FUNCTIONS = new Set(['min', 'max', 'abs', 'floor', 'ceil'])
+// Imported from @fyit/crouton-core/shared/utils/computed-fields
+export const COMPUTED_HELPER_FUNCTIONS = new Set(['round', 'slugify', 'lower', 'upper', 'trim'])
+const LITERALS = new Set(['true', 'false', 'null'])
+
+// Field types whose value can't come out of an expression
+const NON_COMPUTABLE_TYPES = new Set(['references', 'repeater', 'array', 'json', 'image', 'file'])
+
+type Token
+  = { kind: 'space' | 'number' | 'string' | 'operator' | 'literal', value: string }
+    | { kind: 'field' | 'call', value: string }
+
+const TOKEN = /(\s+)|(\d+(?:\.\d+)?)|('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")|([a-z_$][\w$]*)|(\*\*|===|!==|==|!=|<=|>=|&&|\|\||\?\?|[-+*/%<>!?:(),])/iy
+
+/**
+ * Split an expression into tokens. Anything outside the grammar (property
+ * access, brackets, template strings, assignments, ...) is an error, which keeps
+ * the compiled code limited to the item's own fields.
+ */
+export function tokenizeExpression(expression: string): { tokens: Token[], error?: string } {
+  const tokens: Token[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < expression.length) {
+    const start = TOKEN.lastIndex
+    const match = TOKEN.exec(expression)
+    if (!match) {
+      return { tokens, error: `unexpected "${expression[start]}" at position ${start + 1}` }
+    }
+    const [, space, number, string, identifier, operator] = match
+    if (space) tokens.push({ kind: 'space', value: space })
+    else if (number) tokens.push({ kind: 'number', value: number })
+    else if (string) tokens.push({ kind: 'string', value: string })
+    else if (operator) tokens.push({ kind: 'operator', value: operator })
+    else if (identifier && LITERALS.has(identifier)) tokens.push({ kind: 'literal', value: identifier })
+    else if (identifier) {
+      const isCall = /^\s*\(/.test(expression.slice(TOKEN.lastIndex))
+      tokens.push({ kind: isCall ? 'call' : 'field', value: identifier })
+    }
+  }
+  return { tokens }
+}
+
+/** Normalize `meta.computed` (string shorthand or object); null for regular fields */
+export function computedSpec(field: FieldLike): { expression: string, stored: boolean } | null {
+  const computed = field.meta?.computed
+  if (computed === undefined || computed === null || computed === false) return null
+  if (typeof computed === 'string') return { expression: computed, stored: true }
+  return { expression: String(computed.expression ?? ''), stored: computed.stored !== false }
+}
+
+export function isComputedField(field: FieldLike): boolean {
+  return computedSpec(field) !== null
+}
+
+/** Virtual computed fields have no database column */
+export function isVirtualField(field: FieldLike): boolean {
+  return computedSpec(field)?.stored === false
+}
+
+/**
+ * Check one expression against the collection's field names: it parses, only
+ * calls known functions and only reads existing fields. Errors read as the
+ * end of a sentence (`calls unknown function "eval" ...`); `inputs` lists the
+ * fields it reads. Shared with validation rules (see validation-rules.ts).
+ */
+export function checkExpression(expression: string, names: Set<string>): { inputs: string[], errors: string[] } {
+  const { tokens, error } = tokenizeExpression(expression)
+  if (error) return { inputs: [], errors: [`has a syntax error: ${error}`] }
+  const errors: string[] = []
+  const inputs = new Set<string>()
+  for (const token of tokens) {
+    if (token.kind === 'call' && !MATH_FUNCTIONS.has(token.value) && !COMPUTED_HELPER_FUNCTIONS.has(token.value)) {
+      errors.push(`calls unknown function "${token.value}" (available: ${[...MATH_FUNCTIONS, ...COMPUTED_HELPER_FUNCTIONS].join(', ')})`)
+    }
+    if (token.kind === 'field') {
+      if (names.has(token.value)) inputs.add(token.value)
+      else errors.push(`references unknown field "${token.value}"`)
+    }
+  }
+  return { inputs: [...inputs], errors }
+}
+
+/**
+ * Check every computed field of a collection: the expression parses, only
+ * calls known functions, only reads fields that exist, and computed fields
+ * don't depend on each other in a cycle. Returns human-readable errors.
+ */
+export function validateComputedFields(fields: FieldLike[]): string[] {
+  const errors: string[] = []
+  const names = new Set(fields.map(field => field.name))
+  const dependencies = new Map<string, string[]>()
+
+  for (const field of fields) {
+    const spec = computedSpec(field)
+    if (!spec) continue
+    const label = `Computed field "${field.name}"`
+    if (!spec.expression.trim()) {
+      errors.push(`${label} has no expression`)
+      continue
+    }
+    if (NON_COMPUTABLE_TYPES.has(field.type)) {
+      errors.push(`${label} has type "${field.type}", which can't be computed`)
+      continue
+    }
+    const { inputs, errors: expressionErrors } = checkExpression(spec.expression, names)
+    errors.push(...expressionErrors.map(error => `${label} ${error}`))
+    if (inputs.includes(field.name)) errors.push(`${label} references itself`)
+    dependencies.set(field.name, inputs.filter(input => input !== field.name))
+  }
+
+  const cycle = findCycle(dependencies)
+  if (cycle) errors.push(`Computed fields depend on each other in a cycle: ${cycle.join(' → ')}`)
+  return errors
+}
+
+function findCycle(dependencies: Map<string, string[]>): string[] | null {
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+  const visit = (name: string): string[] | null => {
+    if (state.get(name) === 'done' || !dependencies.has(name)) return null
+    if (state.get(name) === 'visiting') return [...path.slice(path.indexOf(name)), name]
+    state.set(name, 'visiting')
+    path.push(name)
+    for (const input of dependencies.get(name)!) {
+      const cycle = visit(input)
+      if (cycle) return cycle
+    }
+    path.pop()
+    state.set(name, 'done')
+    return null
+  }
+  for (const name of dependencies.keys()) {
+    const cycle = visit(name)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Computed fields of a collection in evaluation order (inputs first).
+ * Assumes validateComputedFields() passed.
+ */
+export function computedFields(fields: FieldLike[]): ComputedField[] {
+  const specs = new Map<string, ComputedField>()
+  for (const field of fields) {
+    const spec = computedSpec(field)
+    if (!spec) continue
+    const inputs = [...new Set(tokenizeExpression(spec.expression).tokens
+      .filter(token => token.kind === 'field')
+      .map(token => token.value))]
+    specs.set(field.name, { name: field.name, type: field.type, ...spec, inputs })
+  }
+
+  const ordered: ComputedField[] = []
+  const added = new Set<string>()
+  const add = (field: ComputedField) => {
+    if (added.has(field.name)) return
+    added.add(field.name)
+    for (const input of field.inputs) {
+      const dependency = specs.get(input)
+      if (dependency) add(dependency)
+    }
+    ordered.push(field)
+  }
+  specs.forEach(add)
+  return ordered
+}
+
+/**
+ * Compile an expression to TypeScript. `resolveField` returns the code that
+ * reads a field (e.g. `toNumber(item.quantity)` or a local for a computed input).
+ */
+export function compileExpression(expression: string, resolveField: (name: string) => string): string {
+  return tokenizeExpression(expression).tokens
+    .map((token) => {
+      if (token.kind === 'field') return resolveField(token.value)
+      if (token.kind === 'call') return MATH_FUNCTIONS.has(token.value) ? `Math.${token.value}` : token.value
+      return token.value
+    })
+    .join('')
+}
@@ -1,4 +1,5 @@
 // Database dialect configurations
+import { quoteValue, toSnakeCase } from './helpers.ts'
 
 interface FieldMeta {
   primaryKey?: boolean
@@ -14,11 +15,33 @@ interface Field {
   meta?: FieldMeta
 }
 
+// Column for an `enum` field plus the CHECK constraint (for the table extras)
+// that keeps other writers to the table within the allowed values. A CHECK
+// rather than a pg enum type so adding or dropping an option is a plain migration.
+interface EnumColumn {
+  column: string
+  constraint: string
+}
+
 interface DialectConfig {
   importFrom: string
   tableFn: string
   imports: string[]
   makeCol(f: Field): string
+  makeEnum(f: Field, tableName: string): EnumColumn
+}
+
+export function enumValues(f: Field): string[] {
+  const options = Array.isArray(f.meta?.options) ? f.meta.options : []
+  return options.map(option => String(typeof option === 'object' && option !== null ? (option as { value: unknown }).value : option))
+}
+
+function enumColumn(f: Field, tableName: string, columnFn: string, columnOptions = ''): EnumColumn {
+  const values = enumValues(f).map(quoteValue).join(', ')
+  return {
+    column: `${columnFn}('${f.name}', { enum: [${values}]${columnOptions} })`,
+    constraint: `check('${tableName}_${toSnakeCase(f.name)}_check', sql\`\${table.${f.name}} IN (${values})\`)`
+  }
 }
 
 export const DIALECTS: Record<string, DialectConfig> = {
@@ -51,6 +74,9 @@ export const DIALECTS: Record<string, DialectConfig> = {
       if (f.type === 'text') return `text('${f.name}')`
       return `varchar('${f.name}', { length: 255 })`
     },
+    makeEnum(f, tableName) {
+      return enumColumn(f, tableName, 'varchar', ', length: 255')
+    },
   },
   sqlite: {
     importFrom: 'drizzle-orm/sqlite-core',
@@ -72,5 +98,8 @@ export const DIALECTS: Record<string, DialectConfig> = {
       if (f.type === 'json') return `text('${f.name}', { mode: 'json' })`
       return `text('${f.name}')`
     },
+    makeEnum(f, tableName) {
+      return enumColumn(f, tableName, 'text')
+    },
   },
 }
@@ -0,0 +1,180 @@
+// Regeneration that keeps hand edits.
+//
+// Every generation stores the pristine generator output of a collection in
+// `<collection>/.crouton-baseline.json`. The next run compares three versions
+// of each file: the baseline, the file on disk and the new output. Untouched
+// files are replaced, files whose generated output didn't change keep the
+// user's version, and everything else goes through a three-way merge that only
+// writes conflict markers where both sides changed the same lines.
+
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { threeWayMerge } from './three-way-merge.ts'
+
+export const BASELINE_FILE = '.crouton-baseline.json'
+
+export interface BaselineField {
+  name: string
+  type: string
+}
+
+export interface GenerationBaseline {
+  version: 1
+  generatedAt: string
+  fields: BaselineField[]
+  /** Generator output by path relative to the collection directory (forward slashes) */
+  files: Record<string, string>
+}
+
+export type GeneratedFileStatus
+  = 'created' // new file
+    | 'updated' // file matched the baseline, replaced by the new output
+    | 'unchanged' // file already equals the new output
+    | 'kept' // generator output didn't change, the edited file stays
+    | 'merged' // edits and generator changes merged cleanly
+    | 'conflict' // merged with conflict markers
+    | 'overwritten' // edited file without a baseline (or merging disabled), replaced
+
+export interface GeneratedFileResult {
+  path: string
+  status: GeneratedFileStatus
+  conflicts: number
+}
+
+export interface GenerationReport {
+  files: GeneratedFileResult[]
+  /** Field changes since the previous generation (see schemaChanges()) */
+  schemaChanges: string[]
+  /** Files the previous generation wrote that this one no longer does; left in place */
+  stale: string[]
+  /** False on the first run, or for collections generated before baselines existed */
+  hadBaseline: boolean
+}
+
+export interface WriteGeneratedFilesOptions {
+  /** Three-way merge edited files; false overwrites them like before baselines existed */
+  merge?: boolean
+  fields: BaselineField[]
+}
+
+function relativePath(base: string, filePath: string): string {
+  return path.relative(base, filePath).split(path.sep).join('/')
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await fsp.readFile(filePath, 'utf8')
+  } catch {
+    return null
+  }
+}
+
+export async function readBaseline(base: string): Promise<GenerationBaseline | null> {
+  const raw = await readText(path.join(base, BASELINE_FILE))
+  if (raw === null) return null
+  try {
+    const baseline = JSON.parse(raw)
+    return baseline?.version === 1 && baseline.files ? baseline : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Field-level differences between two generations, one line per change
+ * (`+ price (decimal)`, `- legacyCode`, `~ status: string → enum`).
+ */
+export function schemaChanges(previous: BaselineField[], next: BaselineField[]): string[] {
+  const before = new Map(previous.map(field => [field.name, field.type]))
+  const after = new Map(next.map(field => [field.name, field.type]))
+  const changes: string[] = []
+  for (const [name, type] of after) {
+    if (!before.has(name)) changes.push(`+ ${name} (${type})`)
+    else if (before.get(name) !== type) changes.push(`~ ${name}: ${before.get(name)} → ${type}`)
+  }
+  for (const name of before.keys()) {
+    if (!after.has(name)) changes.push(`- ${name}`)
+  }
+  return changes
+}
+
+/** Decide what to write for one file; `content` is null when the file stays as it is */
+export function resolveGeneratedFile(
+  baseline: string | undefined,
+  current: string | null,
+  generated: string,
+  merge = true
+): { status: GeneratedFileStatus, content: string | null, conflicts: number } {
+  if (current === null) return { status: 'created', content: generated, conflicts: 0 }
+  if (current === generated) return { status: 'unchanged', content: null, conflicts: 0 }
+  if (current === baseline) return { status: 'updated', content: generated, conflicts: 0 }
+  if (!merge || baseline === undefined) return { status: 'overwritten', content: generated, conflicts: 0 }
+  if (generated === baseline) return { status: 'kept', content: null, conflicts: 0 }
+
+  const result = threeWayMerge(baseline, current, generated, { ours: 'yours', theirs: 'generated' })
+  if (result.text === current) return { status: 'kept', content: null, conflicts: 0 }
+  return {
+    status: result.conflicts > 0 ? 'conflict' : 'merged',
+    content: result.text,
+    conflicts: result.conflicts
+  }
+}
+
+/**
+ * Write a collection's generated files, merging with hand edits, and store
+ * the new output as the baseline for the next run.
+ */
+export async function writeGeneratedFiles(
+  base: string,
+  files: Array<{ path: string, content: string }>,
+  { merge = true, fields }: WriteGeneratedFilesOptions
+): Promise<GenerationReport> {
+  const previous = await readBaseline(base)
+  const results: GeneratedFileResult[] = []
+  const baselineFiles: Record<string, string> = {}
+
+  for (const file of files) {
+    const relative = relativePath(base, file.path)
+    const current = await readText(file.path)
+    const { status, content, conflicts } = resolveGeneratedFile(previous?.files[relative], current, file.content, merge)
+    if (content !== null) {
+      await fsp.mkdir(path.dirname(file.path), { recursive: true })
+      await fsp.writeFile(file.path, content, 'utf8')
+    }
+    baselineFiles[relative] = file.content
+    results.push({ path: relative, status, conflicts })
+  }
+
+  const baseline: GenerationBaseline = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    fields,
+    files: baselineFiles
+  }
+  await fsp.writeFile(path.join(base, BASELINE_FILE), `${JSON.stringify(baseline, null, 2)}\n`, 'utf8')
+
+  return {
+    files: results,
+    schemaChanges: previous ? schemaChanges(previous.fields ?? [], fields) : [],
+    stale: Object.keys(previous?.files ?? {}).filter(file => !(file in baselineFiles)),
+    hadBaseline: previous !== null
+  }
+}
+
+/** One summary line per file, in the style of the generator's other output */
+export function formatFileResult(result: GeneratedFileResult): string {
+  switch (result.status) {
+    case 'unchanged':
+      return `  ✓ ${result.path} (unchanged)`
+    case 'kept':
+      return `  ✓ ${result.path} (kept your edits)`
+    case 'merged':
+      return `  ✓ ${result.path} (merged with your edits)`
+    case 'conflict':
+      return `  ! ${result.path} (${result.conflicts} conflict${result.conflicts === 1 ? '' : 's'} — resolve the <<<<<<< markers)`
+    case 'overwritten':
+      return `  ✓ ${result.path} (overwritten, your edits were replaced)`
+    default:
+      return `  ✓ ${result.path}`
+  }
+}
@@ -0,0 +1,178 @@
+// Per-project replacements for the built-in generators.
+//
+// A template is a module exporting the same functions as the generator it
+// replaces, called with the same arguments (the collection `data` object:
+// pascalCase, fields, hierarchy, ... and the crouton config). Templates live
+// in `templates/<generator>.ts` next to crouton.config.js, or wherever the
+// config's `templates` option points:
+//
+//   templates: './generator-templates'                 // directory
+//   templates: { form: './house/form.ts' }             // per generator
+//
+// Functions a template doesn't export keep the built-in version, so an `api`
+// template can replace only the POST handler. `crouton templates eject`
+// copies a built-in generator out as a starting point.
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { createJiti } from 'jiti'
+
+export interface TemplateGenerator {
+  /** Source file in lib/generators/ */
+  file: string
+  /** Functions a template may replace */
+  exports: string[]
+  description: string
+}
+
+export const TEMPLATE_GENERATORS: Record<string, TemplateGenerator> = {
+  form: {
+    file: 'form-component.ts',
+    exports: ['generateFormComponent'],
+    description: '_Form.vue'
+  },
+  list: {
+    file: 'list-component.ts',
+    exports: ['generateListComponent'],
+    description: 'List.vue'
+  },
+  api: {
+    file: 'api-endpoints.ts',
+    exports: [
+      'generateGetEndpoint',
+      'generatePostEndpoint',
+      'generatePatchEndpoint',
+      'generateDeleteEndpoint',
+      'generateBulkEndpoint',
+      'generateExportEndpoint',
+      'generateMoveEndpoint',
+      'generateReorderEndpoint',
+      'generateRestoreEndpoint',
+      'generatePurgeEndpoint'
+    ],
+    description: 'server/api handlers'
+  },
+  composable: {
+    file: 'composable.ts',
+    exports: ['generateComposable'],
+    description: 'use<Collection>.ts (zod schema, columns, defaults)'
+  },
+  queries: {
+    file: 'database-queries.ts',
+    exports: ['generateQueries'],
+    description: 'server/database/queries.ts'
+  },
+  types: {
+    file: 'types.ts',
+    exports: ['generateTypes'],
+    description: 'types.ts'
+  }
+}
+
+export const TEMPLATES_DIR = 'templates'
+const TEMPLATE_EXTENSIONS = ['.ts', '.mjs', '.js']
+
+const GENERATORS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'generators')
+const PACKAGE_NAME = '@fyit/crouton-cli'
+
+type GeneratorFunction = (...args: any[]) => string
+
+/**
+ * Template file per generator, from the `templates` config option (a
+ * directory or a generator → file map) or the default `templates/` directory.
+ * Unknown generator names in the map throw.
+ */
+export function resolveTemplateFiles(option: string | Record<string, string> | undefined, baseDir: string): Map<string, string> {
+  const files = new Map<string, string>()
+
+  if (option && typeof option === 'object') {
+    for (const [generator, file] of Object.entries(option)) {
+      if (!TEMPLATE_GENERATORS[generator]) {
+        throw new Error(`Unknown generator "${generator}" in templates (expected one of: ${Object.keys(TEMPLATE_GENERATORS).join(', ')})`)
+      }
+      files.set(generator, path.resolve(baseDir, file))
+    }
+    return files
+  }
+
+  const dir = path.resolve(baseDir, option || TEMPLATES_DIR)
+  if (!fs.existsSync(dir)) return files
+  for (const generator of Object.keys(TEMPLATE_GENERATORS)) {
+    const file = TEMPLATE_EXTENSIONS.map(extension => path.join(dir, `${generator}${extension}`)).find(candidate => fs.existsSync(candidate))
+    if (file) files.set(generator, file)
+  }
+  return files
+}
+
+/**
+ * The built-in generator functions with the project's templates swapped in.
+ * `overrides` lists the replaced functions as `generator.function` for the
+ * generation summary.
+ */
+export async function loadGenerators<T extends Record<string, GeneratorFunction>>(
+  builtins: T,
+  option: string | Record<string, string> | undefined,
+  baseDir: string
+): Promise<{ generators: T, overrides: string[] }> {
+  const files = resolveTemplateFiles(option, baseDir)
+  const generators: Record<string, GeneratorFunction> = { ...builtins }
+  const overrides: string[] = []
+  if (files.size === 0) return { generators: generators as T, overrides }
+
+  const jiti = createJiti(import.meta.url, { interopDefault: false, moduleCache: false })
+  for (const [generator, file] of files) {
+    if (!fs.existsSync(file)) throw new Error(`Template for "${generator}" not found: ${file}`)
+    const template = await jiti.import(file) as Record<string, unknown>
+    const { exports } = TEMPLATE_GENERATORS[generator]!
+    for (const name of exports) {
+      // A single-function generator's template may use a default export instead
+      const replacement = template[name] ?? (exports.length === 1 ? template.default : undefined)
+      if (replacement === undefined) continue
+      if (typeof replacement !== 'function') {
+        throw new TypeError(`Template ${path.relative(baseDir, file)}: ${name} must be a function`)
+      }
+      generators[name] = (...args: unknown[]) => {
+        const output = (replacement as GeneratorFunction)(...args)
+        if (typeof output !== 'string') {
+          throw new TypeError(`Template ${path.relative(baseDir, file)}: ${name} returned ${typeof output}, expected a string`)
+        }
+        return output
+      }
+      overrides.push(`${generator}.${name}`)
+    }
+    if (!overrides.some(override => override.startsWith(`${generator}.`))) {
+      throw new Error(`Template ${path.relative(baseDir, file)} exports none of ${exports.join(', ')}`)
+    }
+  }
+  return { generators: generators as T, overrides }
+}
+
+/**
+ * Source of a built-in generator, with its relative imports pointing into the
+ * installed package so the copy runs from the project's templates directory.
+ */
+export function ejectedTemplateSource(generator: string): string {
+  const definition = TEMPLATE_GENERATORS[generator]
+  if (!definition) {
+    throw new Error(`Unknown generator "${generator}" (expected one of: ${Object.keys(TEMPLATE_GENERATORS).join(', ')})`)
+  }
+  const lines = fs.readFileSync(path.join(GENERATORS_DIR, definition.file), 'utf8').split('\n')
+
+  // Only the module's own import block: the generated code in the template
+  // strings has relative imports of its own, which must stay as they are
+  let index = 0
+  while (index < lines.length && /^(?:import |\/\/|$)/.test(lines[index]!)) {
+    lines[index] = lines[index]!.replace(/from '(\.\.?\/[^']+)'/, (_match, specifier: string) =>
+      `from '${PACKAGE_NAME}/${path.posix.join('lib/generators', specifier)}'`)
+    index++
+  }
+
+  return [
+    `// Ejected from ${PACKAGE_NAME} (lib/generators/${definition.file}) by \`crouton templates eject ${generator}\`.`,
+    `// Generation calls the functions exported here instead of the built-in ${definition.description} generator,`,
+    '// with the same arguments. Keep the export names; delete the file to go back to the default.',
+    '',
+    ...lines
+  ].join('\n')
+}
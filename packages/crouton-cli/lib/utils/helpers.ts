@@ -53,12 +53,51 @@ export function mapType(t: string, validTypes?: Set<string>): string {
     return validTypes.has(t) ? t : 'string'
   }
   // Fallback for callers that don't pass validTypes (backward compat during migration)
-  return ['string', 'text', 'number', 'decimal', 'boolean', 'date', 'json', 'repeater', 'array', 'image', 'file'].includes(t) ? t : 'string'
+  return ['string', 'text', 'number', 'decimal', 'boolean', 'date', 'json', 'repeater', 'array', 'image', 'file', 'enum'].includes(t) ? t : 'string'
+}
+
+export interface EnumOption {
+  value: string
+  label: string
+  /** Badge/kanban colour (Nuxt UI colour name) */
+  color?: string
+}
+
+/**
+ * Normalize the `options` of an `enum` field. Options may be plain strings
+ * (`"draft"`) or `{ value, label?, color? }` objects; labels default to the
+ * value in title case (`in_review` → `In Review`).
+ */
+export function enumOptions(options: unknown): EnumOption[] {
+  if (!Array.isArray(options)) return []
+  return options
+    .map((option): EnumOption | null => {
+      const raw = typeof option === 'object' && option !== null ? option as Record<string, unknown> : { value: option }
+      if (raw.value === undefined || raw.value === null || raw.value === '') return null
+      const value = String(raw.value)
+      const label = raw.label ? String(raw.label) : value.replace(/[-_]/g, ' ').replace(/\b\w/g, char => char.toUpperCase())
+      return raw.color ? { value, label, color: String(raw.color) } : { value, label }
+    })
+    .filter((option): option is EnumOption => option !== null)
+}
+
+/**
+ * Name of the union type generated for an `enum` field
+ * (e.g. ShopProduct + status -> ShopProductStatus)
+ */
+export function enumTypeName(prefixedPascalCase: string, fieldName: string): string {
+  return `${prefixedPascalCase}${fieldName.charAt(0).toUpperCase()}${fieldName.slice(1)}`
+}
+
+/** Quote a value for a single-quoted string in generated code */
+export function quoteValue(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`
 }
 
 interface Field {
   name: string
   type: string
+  meta?: { options?: EnumOption[] }
 }
 
 /**
@@ -68,6 +107,11 @@ export function getSeedGenerator(field: Field): string {
   const { name, type } = field
   const n = name.toLowerCase()
 
+  // Enum values are constrained by the table's CHECK — only seed declared options
+  if (type === 'enum' && field.meta?.options?.length) {
+    return `f.valuesFromArray({ values: ${JSON.stringify(field.meta.options.map(option => option.value))} })`
+  }
+
   // Name-based heuristics (more specific patterns first)
   if (n.includes('email')) return 'f.email()'
   if (n === 'name' || n === 'fullname' || n === 'full_name') return 'f.fullName()'
@@ -0,0 +1,246 @@
+// Existing database tables → collection schemas, for `crouton introspect`.
+//
+// Column types are matched against the `db` type of crouton-core's field types
+// (VARCHAR → string, TEXT → text, INTEGER → number, ...), after folding each
+// database's spellings (int8, character varying, timestamptz, ...) onto those
+// names. Foreign keys become `reference` fields pointing at the referenced
+// table's collection, and two-column join tables become a `references` field
+// on the first table. Columns crouton adds itself (id, teamId, createdAt, ...)
+// are left out.
+
+import { camelCase } from 'scule'
+
+/** A column as SQLite's PRAGMAs or Postgres' information_schema report it */
+export interface IntrospectedColumn {
+  name: string
+  /** Declared type, e.g. `varchar(120)`, `INTEGER`, `timestamp with time zone`, `text[]` */
+  type: string
+  notNull: boolean
+  defaultValue: string | null
+  primaryKey: boolean
+  /** Covered by a single-column unique constraint or index */
+  unique: boolean
+  /** Allowed values, from a Postgres enum type or a `CHECK (col IN (...))` */
+  enumValues?: string[]
+}
+
+export interface IntrospectedForeignKey {
+  column: string
+  table: string
+}
+
+export interface IntrospectedTable {
+  name: string
+  columns: IntrospectedColumn[]
+  foreignKeys: IntrospectedForeignKey[]
+}
+
+export interface SchemaField {
+  type: string
+  meta: Record<string, unknown>
+  refTarget?: string
+}
+
+export interface IntrospectedCollection {
+  table: string
+  collection: string
+  /** Keyed schema JSON, as `fieldsFile` expects it */
+  schema: Record<string, SchemaField>
+  warnings: string[]
+}
+
+export interface IntrospectOptions {
+  /** crouton-core's `fieldTypes` (only `db` is read) */
+  fieldTypes: Record<string, { db: string }>
+  /** Fields every collection gets anyway (the manifest's `autoGeneratedFields`) */
+  autoGeneratedFields: string[]
+  /**
+   * SQLite ignores declared lengths, so TEXT is its usual short-string type:
+   * TEXT columns become `string` unless their name suggests long text
+   */
+  sqlite?: boolean
+}
+
+// Database spellings of each base type, by the base name used in the manifest
+const TYPE_FAMILIES: Record<string, string[]> = {
+  VARCHAR: ['VARCHAR', 'CHARACTER VARYING', 'NVARCHAR', 'VARYING CHARACTER', 'NATIVE CHARACTER', 'CHAR', 'CHARACTER', 'NCHAR', 'BPCHAR', 'UUID', 'CITEXT'],
+  TEXT: ['TEXT', 'CLOB', 'STRING'],
+  INTEGER: ['INTEGER', 'INT', 'INT2', 'INT4', 'INT8', 'TINYINT', 'SMALLINT', 'MEDIUMINT', 'BIGINT', 'UNSIGNED BIG INT', 'SERIAL', 'SMALLSERIAL', 'BIGSERIAL'],
+  DECIMAL: ['DECIMAL', 'NUMERIC', 'REAL', 'DOUBLE', 'DOUBLE PRECISION', 'FLOAT', 'FLOAT4', 'FLOAT8', 'MONEY'],
+  BOOLEAN: ['BOOLEAN', 'BOOL'],
+  TIMESTAMP: ['TIMESTAMP', 'TIMESTAMPTZ', 'TIMESTAMP WITH TIME ZONE', 'TIMESTAMP WITHOUT TIME ZONE', 'DATETIME', 'DATE'],
+  JSON: ['JSON', 'JSONB']
+}
+
+const FAMILY_BY_SPELLING = new Map(
+  Object.entries(TYPE_FAMILIES).flatMap(([family, spellings]) => spellings.map(spelling => [spelling, family] as const))
+)
+
+// SQLite has no boolean or date storage class: crouton stores both as INTEGER,
+// so integer columns named like these are read back as booleans and dates
+// (matched against the camelCased column name)
+const BOOLEAN_NAME = /^(?:is|has|can|should|allow)[A-Z]|^(?:active|enabled|disabled|archived|deleted|published|visible|verified)$/
+const DATE_NAME = /(?:At|Date|On)$|^(?:date|timestamp)$/
+const LONG_TEXT_NAME = /(?:^|[a-z])(?:description|notes?|body|content|comments?|summary|bio|html|markdown)$/i
+
+/**
+ * The manifest's base name for a declared column type: `varchar(120)` →
+ * `VARCHAR`, `int8` → `INTEGER`, `text[]` → `ARRAY`. Unknown types return
+ * their own base name upper-cased.
+ */
+export function typeFamily(declared: string): string {
+  const type = declared.trim().toUpperCase()
+  if (type.endsWith('[]') || type === 'ARRAY') return 'ARRAY'
+  const base = type.replace(/\s*\(.*\)$/, '').trim()
+  return FAMILY_BY_SPELLING.get(base) ?? base
+}
+
+/** Declared length of a `varchar(n)` column, or null */
+export function typeLength(declared: string): number | null {
+  const match = /^\s*(?:VARCHAR|CHARACTER VARYING|NVARCHAR|CHAR|CHARACTER)\s*\(\s*(\d+)\s*\)/i.exec(declared)
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * Field type per database base type, from the manifest's `db` column. The
+ * first field type declaring a base type wins (VARCHAR → string, not image),
+ * which is why the manifest lists the plain types first.
+ */
+export function fieldTypesByFamily(fieldTypes: Record<string, { db: string }>): Map<string, string> {
+  const byFamily = new Map<string, string>()
+  for (const [name, definition] of Object.entries(fieldTypes)) {
+    const family = typeFamily(definition.db)
+    if (!byFamily.has(family)) byFamily.set(family, name)
+  }
+  return byFamily
+}
+
+/**
+ * Field type for a column. Enum values and name hints (isActive, createdOn)
+ * refine what the declared type alone says; unknown types become `string`.
+ */
+export function inferFieldType(column: IntrospectedColumn, byFamily: Map<string, string>, sqlite = false): string {
+  if (column.enumValues && column.enumValues.length > 0 && byFamily.has('VARCHAR')) return 'enum'
+  const family = typeFamily(column.type)
+  if (family === 'ARRAY') return 'array'
+  const name = camelCase(column.name)
+  if (family === 'INTEGER' && BOOLEAN_NAME.test(name)) return byFamily.get('BOOLEAN') ?? 'boolean'
+  if (family === 'INTEGER' && DATE_NAME.test(name)) return byFamily.get('TIMESTAMP') ?? 'date'
+  if (sqlite && family === 'TEXT' && !LONG_TEXT_NAME.test(name)) return byFamily.get('VARCHAR') ?? 'string'
+  // SQLite lets a column have no declared type at all
+  if (family === '') return 'string'
+  return byFamily.get(family) ?? 'string'
+}
+
+/** Column default as a schema `meta.default`, or undefined for expressions (now(), nextval(...)) */
+export function defaultValue(raw: string | null, fieldType: string): unknown {
+  if (raw === null) return undefined
+  // Postgres appends the cast: 'draft'::character varying
+  const value = raw.trim().replace(/::[\w ]+(?:\[\])?$/, '')
+  const quoted = /^'((?:[^']|'')*)'$/.exec(value)
+  if (quoted) {
+    const text = quoted[1]!.replace(/''/g, '\'')
+    if (fieldType === 'boolean') return text === 'true' || text === 't' || text === '1'
+    return fieldType === 'number' || fieldType === 'decimal' ? Number(text) : text
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(value)) {
+    if (fieldType === 'boolean') return value !== '0'
+    return Number(value)
+  }
+  if (/^(?:true|false)$/i.test(value)) return value.toLowerCase() === 'true'
+  return undefined
+}
+
+/** Values of a `CHECK (column IN ('a', 'b'))` constraint in a CREATE TABLE statement */
+export function checkConstraintValues(createSql: string, column: string): string[] | undefined {
+  const escaped = column.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const pattern = new RegExp(`CHECK\\s*\\(\\s*["\`\\[]?${escaped}["\`\\]]?\\s+IN\\s*\\(([^)]*)\\)\\s*\\)`, 'i')
+  const match = pattern.exec(createSql)
+  if (!match) return undefined
+  const values = [...match[1]!.matchAll(/'((?:[^']|'')*)'/g)].map(value => value[1]!.replace(/''/g, '\''))
+  return values.length > 0 ? values : undefined
+}
+
+export function collectionName(table: string): string {
+  return camelCase(table.toLowerCase())
+}
+
+/**
+ * A table that only links two others: two foreign key columns making up its
+ * primary key, and nothing besides columns crouton adds itself.
+ */
+function isJoinTable(table: IntrospectedTable, autoGenerated: Set<string>): boolean {
+  if (table.foreignKeys.length !== 2) return false
+  const keyColumns = new Set(table.foreignKeys.map(foreignKey => foreignKey.column))
+  const primaryKey = table.columns.filter(column => column.primaryKey).map(column => column.name)
+  return primaryKey.length === 2
+    && primaryKey.every(name => keyColumns.has(name))
+    && table.columns.every(column => keyColumns.has(column.name) || autoGenerated.has(camelCase(column.name)))
+}
+
+/**
+ * Collection schemas for the given tables, one per table except join tables,
+ * which become a `references` field on the table their first column points to.
+ */
+export function introspectCollections(tables: IntrospectedTable[], options: IntrospectOptions): IntrospectedCollection[] {
+  const byFamily = fieldTypesByFamily(options.fieldTypes)
+  const autoGenerated = new Set(options.autoGeneratedFields)
+  const tableNames = new Set(tables.map(table => table.name))
+  const joinTables = tables.filter(table => isJoinTable(table, autoGenerated) && table.foreignKeys.every(foreignKey => tableNames.has(foreignKey.table)))
+
+  const collections: IntrospectedCollection[] = []
+  for (const table of tables) {
+    if (joinTables.includes(table)) continue
+
+    const warnings: string[] = []
+    const schema: Record<string, SchemaField> = {}
+    const foreignKeys = new Map(table.foreignKeys.map(foreignKey => [foreignKey.column, foreignKey.table]))
+    const primaryKey = table.columns.filter(column => column.primaryKey)
+
+    for (const column of table.columns) {
+      const name = camelCase(column.name)
+      if (autoGenerated.has(name)) continue
+      if (primaryKey.length === 1 && column.primaryKey) {
+        warnings.push(`${table.name}.${column.name}: primary key left out, collections use a generated \`id\``)
+        continue
+      }
+
+      const referenced = foreignKeys.get(column.name)
+      const type = referenced ? 'reference' : inferFieldType(column, byFamily, options.sqlite)
+      const meta: Record<string, unknown> = {}
+      const fallback = defaultValue(column.defaultValue, type)
+      if (column.notNull && fallback === undefined && type !== 'boolean') meta.required = true
+      if (fallback !== undefined) meta.default = fallback
+      const length = typeLength(column.type)
+      if (type === 'string' && length !== null && length !== 255) meta.maxLength = length
+      if (column.unique) meta.unique = true
+      if (type === 'enum') meta.options = column.enumValues
+
+      const field: SchemaField = { type, meta }
+      if (referenced) {
+        field.refTarget = collectionName(referenced)
+        if (!tableNames.has(referenced)) {
+          warnings.push(`${table.name}.${column.name}: references ${referenced}, which isn't introspected — generate a \`${field.refTarget}\` collection or change refTarget`)
+        }
+      }
+      if (name in schema) {
+        warnings.push(`${table.name}.${column.name}: ${name} appears twice, the last column wins`)
+      }
+      schema[name] = field
+    }
+
+    collections.push({ table: table.name, collection: collectionName(table.name), schema, warnings })
+  }
+
+  for (const joinTable of joinTables) {
+    // In column order: SQLite lists foreign keys last-declared first
+    const position = (foreignKey: IntrospectedForeignKey) => joinTable.columns.findIndex(column => column.name === foreignKey.column)
+    const [from, to] = [...joinTable.foreignKeys].sort((a, b) => position(a) - position(b)) as [IntrospectedForeignKey, IntrospectedForeignKey]
+    const owner = collections.find(collection => collection.table === from.table)!
+    const field = collectionName(to.table)
+    owner.schema[field] = { type: 'references', meta: {}, refTarget: collectionName(to.table) }
+    owner.warnings.push(`${joinTable.name}: join table became the \`${field}\` references field`)
+  }
+
+  return collections
+}
@@ -2,7 +2,10 @@
 
 import fsp from 'node:fs/promises'
 import path from 'node:path'
-import { mapType } from './helpers.ts'
+import { mapType, enumOptions, quoteValue } from './helpers.ts'
+import { validateComputedFields } from './computed-fields.ts'
+import { validateFieldRules } from './validation-rules.ts'
+import { schemaPolicies, validateRowPolicies, type RowPolicy } from './row-policies.ts'
 
 export interface Field {
   name: string
@@ -15,7 +18,7 @@ export interface Field {
   tsType: string
 }
 
-export async function loadFields(p: string, typeMapping: Record<string, any>): Promise<Field[]> {
+async function readSchema(p: string): Promise<Record<string, any>> {
   // If path is relative and doesn't exist, check in schemas directory
   if (!path.isAbsolute(p) && !await fsp.access(p).then(() => true).catch(() => false)) {
     const schemasPath = path.join(path.dirname(new URL(import.meta.url).pathname), '..', 'schemas', p)
@@ -24,7 +27,11 @@ export async function loadFields(p: string, typeMapping: Record<string, any>): P
     }
   }
   const raw = await fsp.readFile(p, 'utf8')
-  const obj = JSON.parse(raw) as Record<string, any>
+  return JSON.parse(raw) as Record<string, any>
+}
+
+export async function loadFields(p: string, typeMapping: Record<string, any>): Promise<Field[]> {
+  const obj = await readSchema(p)
 
   const validTypes = new Set(Object.keys(typeMapping))
 
@@ -41,11 +48,12 @@ export async function loadFields(p: string, typeMapping: Record<string, any>): P
       return [name as string, { type, refTarget, refScope, meta: rest }]
     })
   } else {
-    // Keyed format: { fieldName: { type, meta, refTarget, refScope } }
-    entries = Object.entries(obj) as Array<[string, Record<string, any>]>
+    // Keyed format: { fieldName: { type, meta, refTarget, refScope } }; keys
+    // starting with $ are collection settings (e.g. $policies), not fields
+    entries = Object.entries(obj).filter(([name]) => !name.startsWith('$')) as Array<[string, Record<string, any>]>
   }
 
-  return entries.map(([name, meta]) => {
+  const fields = entries.map(([name, meta]): Field => {
     const fieldMeta = meta?.meta || {} as Record<string, any>
     // Set default area if not specified
     if (!fieldMeta.area) {
@@ -57,6 +65,25 @@ export async function loadFields(p: string, typeMapping: Record<string, any>): P
     // sees the canonical name. typeMapping carries `canonical` for both canonical
     // and alias keys; fall back to mapType for unknown types (#285).
     const resolvedType = typeMapping[meta?.type]?.canonical ?? mapType(meta?.type, validTypes)
+
+    // Enum fields take their zod schema, TS type and default from their options
+    if (resolvedType === 'enum') {
+      const options = enumOptions(fieldMeta.options)
+      if (options.length === 0) {
+        throw new Error(`Enum field "${name}" needs at least one option`)
+      }
+      fieldMeta.options = options
+      const values = options.map(option => quoteValue(option.value))
+      return {
+        name,
+        type: resolvedType,
+        meta: fieldMeta,
+        zod: `z.enum([${values.join(', ')}])`,
+        default: fieldMeta.default !== undefined && fieldMeta.default !== null ? quoteValue(String(fieldMeta.default)) : 'null',
+        tsType: values.join(' | ')
+      }
+    }
+
     return {
       name,
       type: resolvedType,
@@ -68,4 +95,22 @@ export async function loadFields(p: string, typeMapping: Record<string, any>): P
       tsType: typeMapping[resolvedType]?.tsType || 'string'
     }
   })
+
+  // Computed expressions and validation rules may only read fields of this collection
+  const schemaErrors = [...validateComputedFields(fields), ...validateFieldRules(fields)]
+  if (schemaErrors.length > 0) {
+    throw new Error(schemaErrors.join('\n'))
+  }
+
+  return fields
+}
+
+// Row policies of a schema file (see row-policies.ts), checked against its fields
+export async function loadRowPolicies(p: string, fields: Field[]): Promise<RowPolicy[]> {
+  const policies = schemaPolicies(await readSchema(p))
+  const errors = validateRowPolicies(policies, fields)
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'))
+  }
+  return (policies ?? []) as RowPolicy[]
 }
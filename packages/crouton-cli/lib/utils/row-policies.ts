@@ -0,0 +1,192 @@
+// Row policies: which rows of a collection a requester may reach.
+//
+// Declared in the schema JSON (`$policies` in the keyed format, `policies` in
+// the array format) as a list of policies. Each applies to membership `roles`
+// (omitted: every role but owner and admin) or to holders of a scoped-access
+// `token` of a resource type, and allows the rows matching all of its `where`
+// conditions:
+//
+//   "$policies": [
+//     { "roles": ["member"], "where": { "location.allowedMemberIds": { "contains": "$member.id" } } },
+//     { "token": "order", "where": { "id": "$token.resourceId" } }
+//   ]
+//
+// A condition is keyed by a field, or by a reference field and a field of the
+// row it points at (one hop), with a value (equality) or `{ op: value }`.
+// Values may name the requester: `$user.id`, `$member.id` and `$role` in role
+// policies, `$token.resourceId` and `$token.role` in token policies.
+//
+// A requester sees the union of the policies that apply to them. Once a
+// collection has policies, members and tokens no policy applies to see no
+// rows; owners and admins see every row unless a policy names their role.
+// They compile into the where clause of the generated getAll*, get*ByIds,
+// update, delete and bulk queries (see generators/database-queries.ts).
+
+import { isVirtualField } from './computed-fields.ts'
+
+export const POLICY_OPERATORS = ['eq', 'ne', 'in', 'contains', 'empty'] as const
+
+export type PolicyOperator = typeof POLICY_OPERATORS[number]
+
+const MEMBER_VALUES = new Set(['$user.id', '$member.id', '$role'])
+const TOKEN_VALUES = new Set(['$token.resourceId', '$token.role'])
+
+// Columns every collection has besides its schema fields
+const SYSTEM_COLUMNS = new Set(['id', 'teamId', 'owner', 'createdBy', 'updatedBy', 'createdAt', 'updatedAt'])
+
+export interface RowPolicy {
+  /** Membership roles it applies to; omitted (and no token): every role but owner and admin */
+  roles?: string[]
+  /** Resource type of the scoped-access tokens it applies to, e.g. "order" */
+  token?: string
+  /** Conditions a row must all meet: field (or reference.field) → value or { op: value } */
+  where: Record<string, unknown>
+}
+
+export interface PolicyCondition {
+  /** Field of the collection */
+  field: string
+  /** Field of the referenced row, when the condition goes through a reference */
+  target?: string
+  op: PolicyOperator
+  /** A literal, a list of them (`in`), a `$requester` value or a boolean (`empty`) */
+  value: unknown
+}
+
+interface FieldLike {
+  name: string
+  type: string
+  meta?: Record<string, any>
+  refTarget?: string
+  refScope?: string
+}
+
+/** The policies of a parsed schema file, in either format */
+export function schemaPolicies(schema: Record<string, any>): unknown {
+  return Array.isArray(schema.fields) ? schema.policies : schema.$policies
+}
+
+/** Conditions of a policy, in declaration order. Assumes validateRowPolicies() passed. */
+export function policyConditions(policy: RowPolicy): PolicyCondition[] {
+  return Object.entries(policy.where).map(([path, spec]) => {
+    const [field, target] = path.split('.')
+    const [op, value] = isOperatorSpec(spec) ? Object.entries(spec)[0]! : ['eq', spec]
+    return { field: field!, ...(target ? { target } : {}), op: op as PolicyOperator, value }
+  })
+}
+
+/** Token resource types some policy lets read the collection */
+export function policyTokenTypes(policies: RowPolicy[]): string[] {
+  return [...new Set(policies.flatMap(policy => policy.token ? [policy.token] : []))]
+}
+
+function isOperatorSpec(spec: unknown): spec is Record<string, unknown> {
+  return typeof spec === 'object' && spec !== null && !Array.isArray(spec)
+}
+
+function isLiteral(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || value === null
+}
+
+// Problems with one condition value, for a requester value or a literal
+function valueErrors(label: string, value: unknown, isToken: boolean): string[] {
+  if (typeof value !== 'string' || !value.startsWith('$')) {
+    return isLiteral(value) ? [] : [`${label}: value must be a string, number, boolean or null`]
+  }
+  if (MEMBER_VALUES.has(value)) {
+    return isToken ? [`${label}: ${value} is only known for members, not for token holders`] : []
+  }
+  if (TOKEN_VALUES.has(value)) {
+    return isToken ? [] : [`${label}: ${value} is only known for token holders`]
+  }
+  return [`${label}: unknown value "${value}" (${[...MEMBER_VALUES, ...TOKEN_VALUES].join(', ')})`]
+}
+
+/**
+ * Check a collection's row policies: who each applies to, that conditions
+ * read existing columns (through a single local reference at most) with a
+ * known operator, and that requester values exist for who the policy applies
+ * to. Returns human-readable errors.
+ */
+export function validateRowPolicies(policies: unknown, fields: FieldLike[]): string[] {
+  if (policies === undefined) return []
+  if (!Array.isArray(policies)) return ['Row policies must be a list']
+
+  const byName = new Map(fields.map(field => [field.name, field]))
+  const errors: string[] = []
+
+  policies.forEach((policy, index) => {
+    const label = `Policy ${index + 1}`
+    if (!isOperatorSpec(policy)) {
+      errors.push(`${label} must be an object with "where"`)
+      return
+    }
+
+    if (policy.roles !== undefined && policy.token !== undefined) {
+      errors.push(`${label}: use either roles or token, not both`)
+    } else if (policy.roles !== undefined
+      && (!Array.isArray(policy.roles) || policy.roles.length === 0 || policy.roles.some(role => typeof role !== 'string' || !role))) {
+      errors.push(`${label}: roles must be a non-empty list of role keys`)
+    } else if (policy.token !== undefined && (typeof policy.token !== 'string' || !policy.token)) {
+      errors.push(`${label}: token must be a resource type, e.g. "order"`)
+    }
+    const isToken = policy.token !== undefined
+
+    if (!isOperatorSpec(policy.where) || Object.keys(policy.where).length === 0) {
+      errors.push(`${label}: where needs at least one condition`)
+      return
+    }
+
+    for (const [path, spec] of Object.entries(policy.where)) {
+      const conditionLabel = `${label} "${path}"`
+      const [name, target, ...rest] = path.split('.')
+      const field = byName.get(name!)
+
+      if (rest.length > 0) {
+        errors.push(`${conditionLabel}: conditions can only go through one reference`)
+        continue
+      }
+      if (target !== undefined) {
+        const external = field?.refScope === 'external' || field?.refScope === 'adapter'
+        if (!field?.refTarget || external || field.type === 'array' || field.type === 'references') {
+          errors.push(`${conditionLabel}: "${name}" is not a reference to a single row of another collection`)
+          continue
+        }
+        if (!/^[a-z_]\w*$/i.test(target)) {
+          errors.push(`${conditionLabel}: "${target}" is not a field name`)
+          continue
+        }
+      } else if (field ? isVirtualField(field) : !SYSTEM_COLUMNS.has(name!)) {
+        errors.push(field ? `${conditionLabel}: virtual fields have no column to filter on` : `${conditionLabel}: unknown field "${name}"`)
+        continue
+      }
+
+      if (!isOperatorSpec(spec)) {
+        errors.push(...valueErrors(conditionLabel, spec, isToken))
+        continue
+      }
+
+      const entries = Object.entries(spec)
+      if (entries.length !== 1) {
+        errors.push(`${conditionLabel}: give exactly one operator (${POLICY_OPERATORS.join(', ')})`)
+        continue
+      }
+      const [op, value] = entries[0]!
+      if (!(POLICY_OPERATORS as readonly string[]).includes(op)) {
+        errors.push(`${conditionLabel}: unknown operator "${op}" (${POLICY_OPERATORS.join(', ')})`)
+      } else if (op === 'empty') {
+        if (typeof value !== 'boolean') errors.push(`${conditionLabel}: empty takes true or false`)
+      } else if (op === 'in') {
+        if (!Array.isArray(value) || value.length === 0) {
+          errors.push(`${conditionLabel}: in takes a non-empty list`)
+        } else {
+          value.forEach(item => errors.push(...valueErrors(conditionLabel, item, isToken)))
+        }
+      } else {
+        errors.push(...valueErrors(conditionLabel, value, isToken))
+      }
+    }
+  })
+
+  return errors
+}
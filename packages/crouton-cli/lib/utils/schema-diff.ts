@@ -0,0 +1,374 @@
+// Schema JSON vs. live SQLite/D1 tables, for `crouton migrate`.
+//
+// drizzle-kit diffs the schema against its last snapshot and turns a renamed
+// field into a drop + add, losing the column's data. Here the schema is
+// compared with the table as it exists in the database: renames are explicit
+// (confirmed or passed as `--rename`), type and NOT NULL changes copy the data
+// over with a cast, and new NOT NULL columns get a backfill value. Every
+// change comes with its inverse for the rollback script.
+//
+// SQLite can't alter a column in place, so a type or nullability change adds
+// the new column next to the old one, copies the values over, drops the old
+// column and renames the new one (DROP/RENAME COLUMN need SQLite 3.35, which
+// D1 has). Indexes on the column are dropped first and recreated after.
+
+import { toSnakeCase } from './helpers.ts'
+import { enumValues } from './dialects.ts'
+import { isVirtualField } from './computed-fields.ts'
+
+export type SqliteType = 'TEXT' | 'INTEGER' | 'REAL'
+
+/** A column as the schema JSON describes it */
+export interface DesiredColumn {
+  name: string
+  fieldType: string
+  sqlType: SqliteType
+  notNull: boolean
+  /** SQL literal that fills existing rows when the column becomes NOT NULL */
+  backfill: string
+  /** Whether `backfill` comes from `meta.default` rather than the type's zero value */
+  explicitBackfill: boolean
+  /** Allowed values of an enum field, kept by a column-level CHECK */
+  options: string[]
+  unique: boolean
+}
+
+/** A column as `PRAGMA table_info` reports it */
+export interface LiveColumn {
+  name: string
+  type: string
+  notNull: boolean
+  defaultValue: string | null
+}
+
+export interface LiveIndex {
+  name: string
+  unique: boolean
+  columns: string[]
+}
+
+export interface LiveTable {
+  name: string
+  columns: LiveColumn[]
+  indexes: LiveIndex[]
+  /** CREATE TABLE statement, from sqlite_master */
+  sql?: string
+}
+
+export type ColumnChange
+  = { kind: 'add', column: DesiredColumn }
+    | { kind: 'rename', from: string, to: string }
+    | { kind: 'retype', live: LiveColumn, column: DesiredColumn }
+    | { kind: 'drop', live: LiveColumn }
+
+export interface TableDiff {
+  table: string
+  changes: ColumnChange[]
+  /** Removed/added column pairs of the same type: likely renames, to confirm */
+  renameCandidates: Array<{ from: string, to: string }>
+}
+
+export interface MigrationScripts {
+  up: string[]
+  down: string[]
+  warnings: string[]
+}
+
+interface FieldLike {
+  name: string
+  type: string
+  meta?: Record<string, any>
+}
+
+// Columns every generated table has, or that hierarchy/sortable/soft delete/
+// translations add; they aren't in the schema JSON
+export const SYSTEM_COLUMNS = [
+  'id', 'teamId', 'owner', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy',
+  'parentId', 'path', 'depth', 'order', 'deletedAt', 'deletedBy', 'translations'
+]
+
+const JSON_TYPES = new Set(['json', 'repeater', 'array'])
+
+// updatedAt is the concurrency token of PATCH and bulk updates
+// (expectedUpdatedAt), so generated SQLite tables keep it in milliseconds;
+// tables generated before kept seconds. Millisecond values passed this in 1973.
+export const UPDATED_AT_MS_FROM = 100_000_000_000
+
+export function sqlString(value: string): string {
+  return `'${value.replace(/'/g, '\'\'')}'`
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+/** Column type of a field, as generateSchema() declares it for SQLite */
+export function sqliteType(field: FieldLike): SqliteType {
+  if (field.type === 'boolean' || field.type === 'number' || field.type === 'date') return 'INTEGER'
+  if (field.type === 'decimal') return 'REAL'
+  return 'TEXT'
+}
+
+function backfillValue(field: FieldLike, sqlType: SqliteType): { value: string, explicit: boolean } {
+  const value = field.meta?.default
+  if (value === undefined || value === null) {
+    return { value: sqlType === 'TEXT' ? (JSON_TYPES.has(field.type) ? '\'null\'' : '\'\'') : '0', explicit: false }
+  }
+  if (typeof value === 'boolean') return { value: value ? '1' : '0', explicit: true }
+  if (typeof value === 'number') return { value: String(value), explicit: true }
+  if (field.type === 'date') {
+    const time = new Date(value).getTime()
+    return Number.isNaN(time) ? { value: '0', explicit: false } : { value: String(Math.floor(time / 1000)), explicit: true }
+  }
+  return { value: sqlString(typeof value === 'string' ? value : JSON.stringify(value)), explicit: true }
+}
+
+/**
+ * The columns a collection's fields need. Many-to-many fields live in join
+ * tables and virtual computed fields have no column, so neither appears.
+ */
+export function desiredColumns(fields: FieldLike[]): DesiredColumn[] {
+  return fields
+    .filter(field => !SYSTEM_COLUMNS.includes(field.name) && field.type !== 'references' && !isVirtualField(field))
+    .map((field) => {
+      const sqlType = sqliteType(field)
+      const backfill = backfillValue(field, sqlType)
+      return {
+        name: field.name,
+        fieldType: field.type,
+        sqlType,
+        notNull: field.meta?.required === true && !field.meta?.computed,
+        backfill: backfill.value,
+        explicitBackfill: backfill.explicit,
+        options: field.type === 'enum' ? enumValues(field as any) : [],
+        unique: field.meta?.unique === true
+      }
+    })
+}
+
+/** Type affinity of a declared column type (https://sqlite.org/datatype3.html) */
+export function typeAffinity(declared: string): SqliteType | 'NUMERIC' | 'BLOB' {
+  const type = declared.toUpperCase()
+  if (type.includes('INT')) return 'INTEGER'
+  if (/CHAR|CLOB|TEXT/.test(type)) return 'TEXT'
+  if (!type || type.includes('BLOB')) return 'BLOB'
+  if (/REAL|FLOA|DOUB/.test(type)) return 'REAL'
+  return 'NUMERIC'
+}
+
+/**
+ * Parse `--rename` pairs: `old:new`, optionally scoped to a collection or table
+ * (`products.old:new`). Unscoped pairs apply to every table that has the old
+ * column and lacks the new one.
+ */
+export function parseRenames(value: string | string[] | undefined): Array<{ scope: string | null, from: string, to: string }> {
+  const entries = (Array.isArray(value) ? value : [value ?? ''])
+    .flatMap(entry => entry.split(','))
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  return entries.map((entry) => {
+    const match = entry.match(/^(?:([\w-]+)\.)?(\w+):(\w+)$/)
+    if (!match) throw new Error(`Invalid --rename "${entry}" (expected old:new or collection.old:new)`)
+    return { scope: match[1] ?? null, from: match[2]!, to: match[3]! }
+  })
+}
+
+/**
+ * Changes that bring a live table in line with the schema. `renames` maps old
+ * column names to new field names; unconfirmed drop/add pairs of the same type
+ * are returned as rename candidates, never renamed on a guess.
+ */
+export function diffTable(live: LiveTable, desired: DesiredColumn[], renames: Record<string, string> = {}): TableDiff {
+  const liveByName = new Map(live.columns.map(column => [column.name, column]))
+  const desiredByName = new Map(desired.map(column => [column.name, column]))
+  const changes: ColumnChange[] = []
+
+  // The live columns under their (possibly renamed) names
+  const current = new Map(liveByName)
+  for (const [from, to] of Object.entries(renames)) {
+    if (!liveByName.has(from) || liveByName.has(to) || !desiredByName.has(to) || desiredByName.has(from)) continue
+    changes.push({ kind: 'rename', from, to })
+    current.delete(from)
+    current.set(to, { ...liveByName.get(from)!, name: to })
+  }
+
+  const added = desired.filter(column => !current.has(column.name))
+  const removed = [...current.values()].filter(column => !desiredByName.has(column.name) && !SYSTEM_COLUMNS.includes(column.name))
+
+  for (const column of desired) {
+    const existing = current.get(column.name)
+    if (!existing) continue
+    const affinity = typeAffinity(existing.type)
+    const sameType = affinity === column.sqlType || (affinity === 'NUMERIC' && column.sqlType !== 'TEXT')
+    if (!sameType || existing.notNull !== column.notNull) changes.push({ kind: 'retype', live: existing, column })
+  }
+  for (const column of added) changes.push({ kind: 'add', column })
+  for (const column of removed) changes.push({ kind: 'drop', live: column })
+
+  const renameCandidates: TableDiff['renameCandidates'] = []
+  const paired = new Set<string>()
+  for (const column of removed) {
+    const match = added.find(candidate => !paired.has(candidate.name) && typeAffinity(column.type) === candidate.sqlType)
+    if (!match) continue
+    paired.add(match.name)
+    renameCandidates.push({ from: column.name, to: match.name })
+  }
+
+  return { table: live.name, changes, renameCandidates }
+}
+
+function castExpression(source: string, from: string, to: ColumnDefinition): string {
+  const affinity = typeAffinity(from)
+  if (to.fieldType === 'date' && affinity === 'TEXT') return `CAST(strftime('%s', ${source}) AS INTEGER)`
+  if (affinity === to.sqlType) return source
+  return `CAST(${source} AS ${to.sqlType})`
+}
+
+interface ColumnDefinition {
+  sqlType: SqliteType
+  notNull: boolean
+  backfill: string
+  options: string[]
+  fieldType?: string
+}
+
+function columnDefinition(name: string, column: ColumnDefinition): string {
+  const notNull = column.notNull ? ` NOT NULL DEFAULT ${column.backfill}` : ''
+  const check = column.options.length > 0 ? ` CHECK (${quoteIdentifier(name)} IN (${column.options.map(sqlString).join(', ')}))` : ''
+  return `${quoteIdentifier(name)} ${column.sqlType}${notNull}${check}`
+}
+
+function createIndex(table: string, index: LiveIndex): string {
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${quoteIdentifier(index.name)} ON ${quoteIdentifier(table)} (${index.columns.map(quoteIdentifier).join(', ')});`
+}
+
+// Team-scoped unique index, named like generateSchema() names it
+function uniqueIndex(table: string, column: string): LiveIndex {
+  return { name: `${table}_team_${toSnakeCase(column)}_idx`, unique: true, columns: ['teamId', column] }
+}
+
+/**
+ * Copy a column into a new definition: add a temporary column, fill it from
+ * the old one (cast, with the backfill for NULLs when NOT NULL), swap them.
+ */
+function rebuildColumn(
+  table: string,
+  name: string,
+  fromType: string,
+  to: ColumnDefinition,
+  indexes: LiveIndex[]
+): string[] {
+  const temporary = `${name}__crouton_migrate`
+  const cast = castExpression(quoteIdentifier(name), fromType, to)
+  const value = to.notNull ? `COALESCE(${cast}, ${to.backfill})` : cast
+  return [
+    ...indexes.map(index => `DROP INDEX IF EXISTS ${quoteIdentifier(index.name)};`),
+    `ALTER TABLE ${quoteIdentifier(table)} ADD COLUMN ${columnDefinition(temporary, to)};`,
+    `UPDATE ${quoteIdentifier(table)} SET ${quoteIdentifier(temporary)} = ${value};`,
+    `ALTER TABLE ${quoteIdentifier(table)} DROP COLUMN ${quoteIdentifier(name)};`,
+    `ALTER TABLE ${quoteIdentifier(table)} RENAME COLUMN ${quoteIdentifier(temporary)} TO ${quoteIdentifier(name)};`,
+    ...indexes.map(index => createIndex(table, index))
+  ]
+}
+
+function liveDefinition(column: LiveColumn): ColumnDefinition {
+  const affinity = typeAffinity(column.type)
+  const sqlType = affinity === 'INTEGER' || affinity === 'REAL' ? affinity : affinity === 'NUMERIC' ? 'REAL' : 'TEXT'
+  return { sqlType, notNull: column.notNull, backfill: column.defaultValue ?? (sqlType === 'TEXT' ? '\'\'' : '0'), options: [] }
+}
+
+// Table-level CHECK constraints (drizzle puts enum checks there) block DROP COLUMN
+function inTableCheck(live: LiveTable, column: string): boolean {
+  const checks = live.sql?.match(/\bCHECK\s*\(.*$/is)?.[0] ?? ''
+  return checks.includes(`"${column}"`) || checks.includes(`\`${column}\``)
+}
+
+/**
+ * SQL for a table diff: the migration, its rollback (statements in reverse
+ * order) and warnings to review. Dropping a column loses its data, so drops
+ * are only written as comments unless `allowDrop` is set.
+ */
+export function migrationStatements(live: LiveTable, diff: TableDiff, { allowDrop = false }: { allowDrop?: boolean } = {}): MigrationScripts {
+  const table = live.name
+  const qualified = (column: string) => `${table}.${column}`
+  // Renames run first, and SQLite renames the column in indexes along with it
+  const renamed = new Map(diff.changes.flatMap(change => change.kind === 'rename' ? [[change.from, change.to] as const] : []))
+  const originalName = (column: string) => [...renamed].find(([, to]) => to === column)?.[0] ?? column
+  const indexes = live.indexes.map(index => ({ ...index, columns: index.columns.map(column => renamed.get(column) ?? column) }))
+  const indexesOn = (column: string) => indexes.filter(index => index.columns.includes(column))
+  const blockedByCheck = (column: string) => inTableCheck(live, originalName(column))
+    ? [`${qualified(column)} is used in a table CHECK constraint, so SQLite refuses to drop it. Recreate the table with \`pnpm db:generate\` instead.`]
+    : []
+  const up: string[] = []
+  const down: string[][] = []
+  const warnings: string[] = []
+
+  for (const change of diff.changes) {
+    if (change.kind === 'rename') {
+      up.push(`ALTER TABLE ${quoteIdentifier(table)} RENAME COLUMN ${quoteIdentifier(change.from)} TO ${quoteIdentifier(change.to)};`)
+      down.push([`ALTER TABLE ${quoteIdentifier(table)} RENAME COLUMN ${quoteIdentifier(change.to)} TO ${quoteIdentifier(change.from)};`])
+    } else if (change.kind === 'add') {
+      const { column } = change
+      up.push(`ALTER TABLE ${quoteIdentifier(table)} ADD COLUMN ${columnDefinition(column.name, column)};`)
+      const index = column.unique ? uniqueIndex(table, column.name) : null
+      if (index) up.push(createIndex(table, index))
+      down.push([
+        ...(index ? [`DROP INDEX IF EXISTS ${quoteIdentifier(index.name)};`] : []),
+        `ALTER TABLE ${quoteIdentifier(table)} DROP COLUMN ${quoteIdentifier(column.name)};`
+      ])
+      if (column.notNull && !column.explicitBackfill) {
+        warnings.push(`${qualified(column.name)} is NOT NULL: existing rows get ${column.backfill}. Set "default" in the schema to choose the value.`)
+      }
+    } else if (change.kind === 'retype') {
+      const { live: existing, column } = change
+      const columnIndexes = indexesOn(existing.name)
+      warnings.push(...blockedByCheck(existing.name))
+      up.push(`-- ${qualified(column.name)}: ${existing.type || 'untyped'}${existing.notNull ? ' NOT NULL' : ''} → ${column.sqlType}${column.notNull ? ' NOT NULL' : ''}`)
+      up.push(...rebuildColumn(table, column.name, existing.type, column, columnIndexes))
+      down.push(rebuildColumn(table, column.name, column.sqlType, liveDefinition(existing), columnIndexes))
+      const from = typeAffinity(existing.type)
+      if (from !== column.sqlType && column.sqlType !== 'TEXT') {
+        warnings.push(`${qualified(column.name)} changes from ${existing.type || 'untyped'} to ${column.sqlType}: values that don't convert become 0. Check the data first.`)
+      }
+      if (column.notNull && !existing.notNull && !column.explicitBackfill) {
+        warnings.push(`${qualified(column.name)} becomes NOT NULL: empty values get ${column.backfill}. Set "default" in the schema to choose the value.`)
+      }
+    } else {
+      const { live: existing } = change
+      const columnIndexes = indexesOn(existing.name)
+      const statements = [
+        ...columnIndexes.map(index => `DROP INDEX IF EXISTS ${quoteIdentifier(index.name)};`),
+        `ALTER TABLE ${quoteIdentifier(table)} DROP COLUMN ${quoteIdentifier(existing.name)};`
+      ]
+      if (allowDrop) {
+        up.push(...statements)
+        down.push([
+          `-- ${qualified(existing.name)} comes back empty: dropping it lost its data`,
+          `ALTER TABLE ${quoteIdentifier(table)} ADD COLUMN ${columnDefinition(existing.name, liveDefinition(existing))};`,
+          ...columnIndexes.map(index => createIndex(table, index))
+        ])
+        warnings.push(...blockedByCheck(existing.name))
+        warnings.push(`${qualified(existing.name)} is dropped with its data. The rollback recreates the column, not the values.`)
+      } else {
+        up.push(`-- ${qualified(existing.name)} is no longer in the schema; kept. Uncomment to drop it (and its data):`)
+        up.push(...statements.map(statement => `-- ${statement}`))
+        warnings.push(`${qualified(existing.name)} is no longer in the schema and was kept. Was it renamed? Pass --rename ${existing.name}:<new name>, or --allow-drop to drop it.`)
+      }
+    }
+  }
+
+  return { up, down: down.reverse().flat(), warnings }
+}
+
+/**
+ * SQL that moves a table's updatedAt from seconds to milliseconds, and back.
+ * Rows already in milliseconds are left alone, so it is safe to run again.
+ */
+export function updatedAtPrecisionStatements(table: string): MigrationScripts {
+  const column = quoteIdentifier('updatedAt')
+  return {
+    up: [`UPDATE ${quoteIdentifier(table)} SET ${column} = ${column} * 1000 WHERE ${column} < ${UPDATED_AT_MS_FROM};`],
+    down: [`UPDATE ${quoteIdentifier(table)} SET ${column} = ${column} / 1000 WHERE ${column} >= ${UPDATED_AT_MS_FROM};`],
+    warnings: []
+  }
+}
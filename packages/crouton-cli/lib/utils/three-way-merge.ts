@@ -0,0 +1,145 @@
+// Line-based three-way merge (diff3) for regenerating collections.
+//
+// `base` is the generator output the user started from, `ours` the file on
+// disk (possibly hand-edited) and `theirs` the new generator output. Regions
+// changed on one side only take that side; regions changed on both sides are
+// kept when both made the same change and become a conflict otherwise.
+// Changes that touch (one ends where the other starts) count as overlapping,
+// like git's merge.
+
+export interface MergeResult {
+  text: string
+  /** Number of conflict blocks written into `text` */
+  conflicts: number
+}
+
+export interface MergeLabels {
+  ours?: string
+  theirs?: string
+}
+
+interface Hunk {
+  /** Changed range in the base, [baseStart, baseEnd) */
+  baseStart: number
+  baseEnd: number
+  /** Replacement range in the side, [sideStart, sideEnd) */
+  sideStart: number
+  sideEnd: number
+}
+
+/**
+ * Changed regions between two line arrays, from their longest common
+ * subsequence. The common prefix and suffix are trimmed first, so regenerated
+ * files (mostly identical) stay cheap.
+ */
+export function diffHunks(base: string[], side: string[]): Hunk[] {
+  let prefix = 0
+  while (prefix < base.length && prefix < side.length && base[prefix] === side[prefix]) prefix++
+  let suffix = 0
+  while (suffix < base.length - prefix && suffix < side.length - prefix
+    && base[base.length - 1 - suffix] === side[side.length - 1 - suffix]) suffix++
+
+  const a = base.slice(prefix, base.length - suffix)
+  const b = side.slice(prefix, side.length - suffix)
+  const n = a.length
+  const m = b.length
+  if (n === 0 && m === 0) return []
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[i] === b[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1])
+    }
+  }
+
+  const hunks: Hunk[] = []
+  let open: Hunk | null = null
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      if (open) hunks.push(open)
+      open = null
+      i++
+      j++
+      continue
+    }
+    if (!open) open = { baseStart: prefix + i, baseEnd: prefix + i, sideStart: prefix + j, sideEnd: prefix + j }
+    if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      i++
+      open.baseEnd = prefix + i
+    } else {
+      j++
+      open.sideEnd = prefix + j
+    }
+  }
+  if (open) hunks.push(open)
+  return hunks
+}
+
+/** Lines of one side covering base[start, end), given that side's hunks inside the range */
+function sideRange(side: string[], hunks: Hunk[], start: number, end: number): string[] {
+  if (hunks.length === 0) return []
+  const first = hunks[0]!
+  const last = hunks[hunks.length - 1]!
+  return side.slice(first.sideStart - (first.baseStart - start), last.sideEnd + (end - last.baseEnd))
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index])
+}
+
+export function threeWayMerge(base: string, ours: string, theirs: string, labels: MergeLabels = {}): MergeResult {
+  const baseLines = base.split('\n')
+  const ourLines = ours.split('\n')
+  const theirLines = theirs.split('\n')
+
+  const changes = [
+    ...diffHunks(baseLines, ourLines).map(hunk => ({ ...hunk, side: 'ours' as const })),
+    ...diffHunks(baseLines, theirLines).map(hunk => ({ ...hunk, side: 'theirs' as const }))
+  ].sort((x, y) => x.baseStart - y.baseStart || x.baseEnd - y.baseEnd)
+
+  const output: string[] = []
+  let conflicts = 0
+  let position = 0
+  let index = 0
+  while (index < changes.length) {
+    // Grow the region while the next change overlaps or touches it
+    const start = changes[index]!.baseStart
+    let end = changes[index]!.baseEnd
+    let next = index + 1
+    while (next < changes.length && changes[next]!.baseStart <= end) {
+      end = Math.max(end, changes[next]!.baseEnd)
+      next++
+    }
+    const region = changes.slice(index, next)
+    index = next
+
+    output.push(...baseLines.slice(position, start))
+    position = end
+
+    const ourHunks = region.filter(change => change.side === 'ours')
+    const theirHunks = region.filter(change => change.side === 'theirs')
+    const ourRegion = sideRange(ourLines, ourHunks, start, end)
+    const theirRegion = sideRange(theirLines, theirHunks, start, end)
+
+    if (ourHunks.length === 0) output.push(...theirRegion)
+    else if (theirHunks.length === 0 || sameLines(ourRegion, theirRegion)) output.push(...ourRegion)
+    else {
+      conflicts++
+      output.push(
+        `<<<<<<< ${labels.ours ?? 'ours'}`,
+        ...ourRegion,
+        '=======',
+        ...theirRegion,
+        `>>>>>>> ${labels.theirs ?? 'theirs'}`
+      )
+    }
+  }
+  output.push(...baseLines.slice(position))
+
+  return { text: output.join('\n'), conflicts }
+}
@@ -93,9 +93,13 @@ export async function addSchemaExport(schemaPath: string, exportPath: string): P
 
 /**
  * Add a named re-export: `export { Name } from 'path'`
- * Used by `crouton generate` for collection schemas.
+ * Used by `crouton generate` for collection schemas. Pass several names to
+ * export the join tables of many-to-many fields from the same file; names
+ * missing from an existing export line are added to it.
  */
-export async function addNamedSchemaExport(schemaPath: string, exportName: string, importPath: string, force = false): Promise<{ added: boolean; reason?: string; created?: boolean }> {
+export async function addNamedSchemaExport(schemaPath: string, exportName: string | string[], importPath: string, force = false): Promise<{ added: boolean; reason?: string; created?: boolean }> {
+  const exportNames = Array.isArray(exportName) ? exportName : [exportName]
+  const [primaryName] = exportNames
   const fileExist = await pathExists(schemaPath)
 
   let content: string
@@ -109,22 +113,36 @@ export async function addNamedSchemaExport(schemaPath: string, exportName: strin
     content = await readFile(schemaPath, 'utf-8')
   }
 
-  // Fast path: if this exact import path is already present, never append regardless of force
-  if (content.includes(`from '${importPath}'`) || content.includes(`from "${importPath}"`)) {
-    return { added: false, reason: 'already exported' }
+  // Fast path: if this exact import path is already present, never append regardless of force.
+  // Only names that are not on the line yet (new join tables) are added to it.
+  const existingLine = content.split('\n').find(line =>
+    line.includes(`from '${importPath}'`) || line.includes(`from "${importPath}"`))
+  if (existingLine) {
+    const match = existingLine.match(/^export\s*\{([^}]*)\}/)
+    const exported = match ? match[1]!.split(',').map(name => name.trim()).filter(Boolean) : []
+    const missing = exportNames.filter(name => !exported.includes(name))
+    if (!match || missing.length === 0) {
+      return { added: false, reason: 'already exported' }
+    }
+    const quote = existingLine.includes(`from '${importPath}'`) ? '\'' : '"'
+    content = content.replace(existingLine, `export { ${[...exported, ...missing].join(', ')} } from ${quote}${importPath}${quote}`)
+    await writeFile(schemaPath, content, 'utf-8')
+    return { added: true, created }
   }
 
+  const exportLine = `export { ${exportNames.join(', ')} } from '${importPath}'`
+
   try {
     const mod = parseModule(content)
 
     // Check for conflicting export (same name from different source)
-    const existingByName = findExportByName(mod, exportName)
+    const existingByName = findExportByName(mod, primaryName!)
     if (existingByName && !force) {
       const existingSource = existingByName.source?.value || 'unknown'
       if (!String(existingSource).includes(importPath.split('/collections/')[1] || importPath)) {
         return {
           added: false,
-          reason: `conflicting export "${exportName}" from "${existingSource}"`,
+          reason: `conflicting export "${primaryName}" from "${existingSource}"`,
         }
       }
     }
@@ -136,13 +154,13 @@ export async function addNamedSchemaExport(schemaPath: string, exportName: strin
     }
 
     // Append the named export line
-    content = content.trimEnd() + '\n' + `export { ${exportName} } from '${importPath}'` + '\n'
+    content = content.trimEnd() + '\n' + exportLine + '\n'
 
     await writeFile(schemaPath, content, 'utf-8')
     return { added: true, created }
   } catch {
     // Fallback: simple string append if AST parsing fails
-    content = content.trimEnd() + '\n' + `export { ${exportName} } from '${importPath}'` + '\n'
+    content = content.trimEnd() + '\n' + exportLine + '\n'
     await writeFile(schemaPath, content, 'utf-8')
     return { added: true, created }
   }
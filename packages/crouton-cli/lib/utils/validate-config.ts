@@ -3,6 +3,10 @@
 import fsp from 'node:fs/promises'
 import path from 'node:path'
 import { detectRequiredDependencies } from './module-detector.ts'
+import { validateComputedFields } from './computed-fields.ts'
+import { validateFieldRules } from './validation-rules.ts'
+import { schemaPolicies, validateRowPolicies } from './row-policies.ts'
+import { resolveTemplateFiles } from './generator-templates.ts'
 
 export interface ValidationResult {
   valid: boolean
@@ -10,6 +14,19 @@ export interface ValidationResult {
   warnings: string[]
 }
 
+// Fields of a schema file (keyed or array format) as { name, type, meta }, and its row policies
+async function readSchemaFile(schemaPath: string): Promise<{ fields: { name: string, type: string, meta?: Record<string, any>, refTarget?: string, refScope?: string }[], policies: unknown }> {
+  const schema = JSON.parse(await fsp.readFile(schemaPath, 'utf8'))
+  const policies = schemaPolicies(schema)
+  if (Array.isArray(schema.fields)) {
+    return { fields: schema.fields.map(({ name, type, refTarget, refScope, ...meta }: Record<string, any>) => ({ name, type, meta, refTarget, refScope })), policies }
+  }
+  const fields = Object.entries(schema)
+    .filter(([name]) => !name.startsWith('$'))
+    .map(([name, field]: [string, any]) => ({ name, type: field?.type, meta: field?.meta, refTarget: field?.refTarget, refScope: field?.refScope }))
+  return { fields, policies }
+}
+
 export async function validateConfig(config: Record<string, any> | null): Promise<ValidationResult> {
   const errors = []
   const warnings = []
@@ -42,6 +59,18 @@ export async function validateConfig(config: Record<string, any> | null): Promis
         console.log(`  ✓ Schema: ${col.fieldsFile}`)
       } catch {
         errors.push(`❌ Schema file not found for collection '${col.name}': ${col.fieldsFile}`)
+        continue
+      }
+
+      // Computed fields, validation rules and row policies must only reference
+      // fields that exist (and computed fields must not loop)
+      try {
+        const { fields, policies } = await readSchemaFile(schemaPath)
+        for (const error of [...validateComputedFields(fields), ...validateFieldRules(fields), ...validateRowPolicies(policies, fields)]) {
+          errors.push(`Collection '${col.name}': ${error}`)
+        }
+      } catch (error: any) {
+        errors.push(`Schema file for collection '${col.name}' is not valid JSON: ${error.message}`)
       }
     }
   } else if (config.schemaPath) {
@@ -115,6 +144,21 @@ export async function validateConfig(config: Record<string, any> | null): Promis
     }
   }
 
+  // Generator templates must name known generators and exist
+  try {
+    const templates = resolveTemplateFiles(config.templates, config._configDir ?? process.cwd())
+    for (const [generator, file] of templates) {
+      try {
+        await fsp.access(file)
+        console.log(`  ✓ Template: ${generator} (${path.relative(process.cwd(), file)})`)
+      } catch {
+        errors.push(`Template for '${generator}' not found: ${file}`)
+      }
+    }
+  } catch (error: any) {
+    errors.push(error.message)
+  }
+
   // Check for write permissions in current directory
   try {
     await fsp.access(process.cwd(), fsp.constants.W_OK)
@@ -0,0 +1,179 @@
+// Declarative validation rules on schema fields.
+//
+// Field meta can carry `min`/`max` (a number's value, a string's length or a
+// date), `pattern` (regex source), `format` (email, url, uuid) and `unique`,
+// with `messages` overriding the default message of any rule (`required`
+// included). These become zod checks in the fields schema shared by the form
+// and the generated POST/PATCH/bulk endpoints.
+//
+// `refine` adds cross-field rules: an expression over the item's fields, in
+// the same language as computed fields, that must hold (`"endDate > startDate"`).
+// They compile into the collection's validation.ts (see generators/validation-rules.ts),
+// checked by the form, by POST and bulk creates, and by PATCH against the row
+// as it will be after the update. A rule is skipped until every field it reads
+// has a value; `required` covers missing values.
+
+import { quoteValue } from './helpers.ts'
+import { checkExpression, isComputedField, isVirtualField } from './computed-fields.ts'
+
+export const FIELD_FORMATS = ['email', 'url', 'uuid'] as const
+
+const MESSAGE_KEYS = new Set(['required', 'min', 'max', 'pattern', 'format', 'unique'])
+const TEXT_TYPES = new Set(['string', 'text'])
+const NUMERIC_TYPES = new Set(['number', 'integer', 'decimal'])
+
+export interface RefineRule {
+  /** Field the error is reported on */
+  field: string
+  expression: string
+  message: string
+  /** Fields the expression reads */
+  inputs: string[]
+}
+
+interface FieldLike {
+  name: string
+  type: string
+  meta?: Record<string, any>
+}
+
+/** Message for a rule: `meta.messages[rule]` when set, the default otherwise */
+export function ruleMessage(field: FieldLike, rule: string, fallback: string): string {
+  const custom = field.meta?.messages?.[rule]
+  return typeof custom === 'string' && custom ? custom : fallback
+}
+
+function refineEntries(field: FieldLike): Array<{ expression: string, message?: string }> {
+  const refine = field.meta?.refine
+  if (refine === undefined || refine === null) return []
+  return (Array.isArray(refine) ? refine : [refine]).map(rule =>
+    typeof rule === 'string' ? { expression: rule } : { expression: String(rule?.expression ?? ''), message: rule?.message }
+  )
+}
+
+/** Cross-field rules of a collection, in field order. Assumes validateFieldRules() passed. */
+export function refineRules(fields: FieldLike[]): RefineRule[] {
+  const names = new Set(fields.map(field => field.name))
+  return fields.flatMap(field => refineEntries(field).map(rule => ({
+    field: field.name,
+    expression: rule.expression,
+    message: rule.message || `${field.name} must satisfy ${rule.expression}`,
+    inputs: checkExpression(rule.expression, names).inputs
+  })))
+}
+
+/** Fields with a (teamId, field) unique index; virtual fields have no column to index */
+export function uniqueFieldNames(fields: FieldLike[]): string[] {
+  return fields.filter(field => field.meta?.unique && !isVirtualField(field)).map(field => field.name)
+}
+
+function isBound(field: FieldLike, value: unknown): boolean {
+  if (field.type === 'date') return (typeof value === 'string' || typeof value === 'number') && !Number.isNaN(new Date(value).getTime())
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+/**
+ * Check the validation rules of every field: bounds fit the field type and
+ * don't cross, patterns compile, formats are known and refine expressions
+ * only read existing fields. Returns human-readable errors.
+ */
+export function validateFieldRules(fields: FieldLike[]): string[] {
+  const errors: string[] = []
+  const names = new Set(fields.map(field => field.name))
+  const computedNames = new Set(fields.filter(isComputedField).map(field => field.name))
+
+  for (const field of fields) {
+    const meta = field.meta ?? {}
+    const label = `Field "${field.name}"`
+    const ranged = TEXT_TYPES.has(field.type) || NUMERIC_TYPES.has(field.type) || field.type === 'date'
+
+    for (const bound of ['min', 'max'] as const) {
+      if (meta[bound] === undefined) continue
+      if (!ranged) errors.push(`${label} has "${bound}", which only applies to string, text, number, decimal and date fields`)
+      else if (!isBound(field, meta[bound])) errors.push(`${label} has an invalid "${bound}" (${JSON.stringify(meta[bound])})`)
+    }
+    if (ranged && isBound(field, meta.min) && isBound(field, meta.max)
+      && new Date(meta.min).getTime() > new Date(meta.max).getTime()) {
+      errors.push(`${label} has "min" greater than "max"`)
+    }
+
+    if (meta.pattern !== undefined) {
+      if (!TEXT_TYPES.has(field.type)) {
+        errors.push(`${label} has "pattern", which only applies to string and text fields`)
+      } else {
+        try {
+          RegExp(meta.pattern)
+        } catch (error) {
+          errors.push(`${label} has an invalid pattern: ${(error as Error).message}`)
+        }
+      }
+    }
+
+    if (meta.format !== undefined) {
+      if (field.type !== 'string') errors.push(`${label} has "format", which only applies to string fields`)
+      else if (!(FIELD_FORMATS as readonly string[]).includes(meta.format)) {
+        errors.push(`${label} has unknown format "${meta.format}" (available: ${FIELD_FORMATS.join(', ')})`)
+      }
+    }
+
+    for (const key of Object.keys(meta.messages ?? {})) {
+      if (!MESSAGE_KEYS.has(key)) errors.push(`${label} has a message for unknown rule "${key}"`)
+    }
+
+    for (const rule of refineEntries(field)) {
+      if (!rule.expression.trim()) {
+        errors.push(`${label} has a refine rule without an expression`)
+        continue
+      }
+      const { inputs, errors: expressionErrors } = checkExpression(rule.expression, names)
+      errors.push(...expressionErrors.map(error => `${label}: refine rule "${rule.expression}" ${error}`))
+      // Computed values don't exist yet when a submitted item is checked
+      for (const input of inputs.filter(name => computedNames.has(name))) {
+        errors.push(`${label}: refine rule "${rule.expression}" reads computed field "${input}"`)
+      }
+    }
+  }
+  return errors
+}
+
+function dateLiteral(value: string | number): string {
+  return `new Date(${quoteValue(new Date(value).toISOString())})`
+}
+
+/**
+ * Append the field's zod checks to its base type (`z.string()` → `z.email('...').max(...)`).
+ * Optional text with a format, pattern or minimum length still accepts '',
+ * which is what an untouched form input sends.
+ */
+export function applyFieldRules(field: FieldLike, baseZod: string): string {
+  const meta = field.meta ?? {}
+  const message = (rule: string, fallback: string) => quoteValue(ruleMessage(field, rule, fallback))
+  let zod = baseZod
+  let emptyAllowed = false
+
+  if (TEXT_TYPES.has(field.type)) {
+    if (field.type === 'string' && meta.format) {
+      const name = meta.format === 'email' ? 'email address' : meta.format === 'url' ? 'URL' : 'UUID'
+      zod = `z.${meta.format}(${message('format', `${field.name} must be a valid ${name}`)})`
+      emptyAllowed = true
+    }
+    const max = meta.max ?? meta.maxLength
+    if (meta.min !== undefined) {
+      zod += `.min(${meta.min}, ${message('min', `${field.name} must be at least ${meta.min} characters`)})`
+      emptyAllowed = true
+    }
+    if (max !== undefined) zod += `.max(${max}, ${message('max', `${field.name} must be at most ${max} characters`)})`
+    if (meta.pattern !== undefined) {
+      zod += `.regex(new RegExp(${quoteValue(meta.pattern)}), ${message('pattern', `${field.name} has an invalid format`)})`
+      emptyAllowed = true
+    }
+    if (emptyAllowed && !meta.required) zod += '.or(z.literal(\'\'))'
+  } else if (NUMERIC_TYPES.has(field.type)) {
+    if (meta.min !== undefined) zod += `.min(${meta.min}, ${message('min', `${field.name} must be at least ${meta.min}`)})`
+    if (meta.max !== undefined) zod += `.max(${meta.max}, ${message('max', `${field.name} must be at most ${meta.max}`)})`
+  } else if (field.type === 'date') {
+    if (meta.min !== undefined) zod += `.min(${dateLiteral(meta.min)}, ${message('min', `${field.name} must be on or after ${meta.min}`)})`
+    if (meta.max !== undefined) zod += `.max(${dateLiteral(meta.max)}, ${message('max', `${field.name} must be on or before ${meta.max}`)})`
+  }
+  return zod
+}
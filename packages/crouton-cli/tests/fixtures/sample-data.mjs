@@ -328,6 +328,16 @@ export const apiWithSortableData = {
   }
 }
 
+/**
+ * Data object for API endpoint tests with soft delete
+ */
+export const apiWithSoftDeleteData = {
+  ...apiEndpointData,
+  softDelete: {
+    enabled: true
+  }
+}
+
 /**
  * Data object for API endpoint tests with date fields
  */
@@ -391,6 +401,16 @@ export const schemaWithSortableData = {
   sortable: true
 }
 
+/**
+ * Data object for schema tests with soft delete
+ */
+export const schemaWithSoftDeleteData = {
+  ...schemaData,
+  softDelete: {
+    enabled: true
+  }
+}
+
 // ============ Seed Data Test Data ============
 
 /**
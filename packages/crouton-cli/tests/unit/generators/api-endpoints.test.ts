@@ -5,14 +5,20 @@ import {
   generatePatchEndpoint,
   generateDeleteEndpoint,
   generateMoveEndpoint,
-  generateReorderEndpoint
+  generateReorderEndpoint,
+  generateRestoreEndpoint,
+  generatePurgeEndpoint,
+  generateBulkEndpoint,
+  generateExportEndpoint
 } from '../../../lib/generators/api-endpoints.ts'
 import {
   apiEndpointData,
   apiWithHierarchyData,
   apiWithSortableData,
   apiWithDateData,
+  apiWithSoftDeleteData,
   minimalConfig,
+  noMetadataConfig,
   translationsConfig
 } from '../../fixtures/sample-data.mjs'
 
@@ -39,7 +45,7 @@ describe('API Endpoint Generators', () => {
 
     it('includes team auth import', () => {
       const result = generateGetEndpoint(apiEndpointData, minimalConfig as AnyConfig)
-      expect(result).toContain("import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'")
+      expect(result).toContain("import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'")
     })
 
     it('includes queries import with correct naming', () => {
@@ -49,11 +55,44 @@ describe('API Endpoint Generators', () => {
 
     it('uses team-based queries', () => {
       const result = generateGetEndpoint(apiEndpointData, minimalConfig as AnyConfig)
-      expect(result).toContain('resolveTeamAndCheckMembership(event)')
-      expect(result).toContain('getAllShopProducts(team.id)')
+      expect(result).toContain('requireCollectionPermission(event, \'shopProducts\', \'read\')')
+      expect(result).toContain('getAllShopProducts(team.id, { ...listQuery, owner })')
       expect(result).toContain('getShopProductsByIds(team.id, ids)')
     })
 
+    it('limits roles with own-records-only access to their rows', () => {
+      const result = generateGetEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('const owner = scope === \'own\' ? user.id : undefined')
+      expect(result).toContain('return owner ? rows.filter((row: any) => row.owner === owner) : rows')
+    })
+
+    it('parses filters, sort and search through the shared grammar', () => {
+      const result = generateGetEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { parseCollectionListQuery, type CollectionListSpec } from \'@fyit/crouton-core/shared/utils/collection-query\'')
+      expect(result).toContain('listQuery = parseCollectionListQuery(query, listSpec)')
+      expect(result).toContain('throw createError({ status: 400, statusText: error.message })')
+      expect(result).toContain('{ ...listQuery, owner, limit: pageSize, offset: (page - 1) * pageSize }')
+    })
+
+    it('declares field kinds and searchable fields in the list spec', () => {
+      const data = {
+        ...apiEndpointData,
+        fields: [
+          ...apiEndpointData.fields,
+          { name: 'title', type: 'string', meta: { searchable: true } },
+          { name: 'categoryId', type: 'string', refTarget: 'categories', meta: {} },
+          { name: 'tags', type: 'array', meta: {} }
+        ]
+      }
+      const result = generateGetEndpoint(data, minimalConfig as AnyConfig)
+      expect(result).toContain('price: \'number\'')
+      expect(result).toContain('active: \'boolean\'')
+      expect(result).toContain('categoryId: \'reference\'')
+      expect(result).toContain('createdAt: \'date\'')
+      expect(result).not.toContain('tags: \'')
+      expect(result).toContain('searchable: [\'title\']')
+    })
+
     it('handles translations when configured', () => {
       const result = generateGetEndpoint(apiEndpointData, translationsConfig as AnyConfig)
       expect(result).toContain("const locale = String(query.locale || 'en')")
@@ -68,7 +107,7 @@ describe('API Endpoint Generators', () => {
 
     it('includes team auth import', () => {
       const result = generatePostEndpoint(apiEndpointData, minimalConfig as AnyConfig)
-      expect(result).toContain("import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'")
+      expect(result).toContain("import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'")
     })
 
     it('includes create query import', () => {
@@ -99,12 +138,12 @@ describe('API Endpoint Generators', () => {
 
     it('includes team auth import', () => {
       const result = generatePatchEndpoint(apiEndpointData, minimalConfig as AnyConfig)
-      expect(result).toContain("import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'")
+      expect(result).toContain("import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'")
     })
 
     it('includes update query import', () => {
       const result = generatePatchEndpoint(apiEndpointData, minimalConfig as AnyConfig)
-      expect(result).toContain('import { updateShopProduct }')
+      expect(result).toContain('import { updateShopProduct, getShopProductsByIds }')
     })
 
     it('validates required ID parameter', () => {
@@ -125,6 +164,18 @@ describe('API Endpoint Generators', () => {
       expect(result).toContain('existing.translations')
       expect(result).toContain('getShopProductsByIds')
     })
+
+    it('accepts expectedUpdatedAt as a precondition, not a column', () => {
+      const result = generatePatchEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('expectedUpdatedAt: z.coerce.date().optional()')
+      expect(result).toContain('if (key === \'expectedUpdatedAt\') continue')
+      expect(result).toContain('{ role: membership.role, scope, expectedUpdatedAt: body.expectedUpdatedAt }')
+    })
+
+    it('omits the precondition without metadata columns', () => {
+      const result = generatePatchEndpoint(apiEndpointData, noMetadataConfig as AnyConfig)
+      expect(result).not.toContain('expectedUpdatedAt')
+    })
   })
 
   describe('generateDeleteEndpoint', () => {
@@ -135,12 +186,12 @@ describe('API Endpoint Generators', () => {
 
     it('includes team auth import', () => {
       const result = generateDeleteEndpoint(apiEndpointData, minimalConfig as AnyConfig)
-      expect(result).toContain("import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'")
+      expect(result).toContain("import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'")
     })
 
     it('includes delete query import', () => {
       const result = generateDeleteEndpoint(apiEndpointData, minimalConfig as AnyConfig)
-      expect(result).toContain('import { deleteShopProduct }')
+      expect(result).toContain('import { deleteShopProduct, getShopProductsByIds }')
     })
 
     it('validates required ID parameter', () => {
@@ -158,12 +209,13 @@ describe('API Endpoint Generators', () => {
 
     it('includes team auth import', () => {
       const result = generateMoveEndpoint(apiWithHierarchyData, minimalConfig as AnyConfig)
-      expect(result).toContain("import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'")
+      expect(result).toContain("import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'")
+      expect(result).toContain('requireCollectionPermission(event, \'shopCategories\', \'update\')')
     })
 
     it('includes updatePosition query import', () => {
       const result = generateMoveEndpoint(apiWithHierarchyData, minimalConfig as AnyConfig)
-      expect(result).toContain('import { updatePositionShopCategory }')
+      expect(result).toContain('import { updatePositionShopCategory, getShopCategoriesByIds }')
     })
 
     it('validates order parameter', () => {
@@ -177,6 +229,12 @@ describe('API Endpoint Generators', () => {
       const result = generateMoveEndpoint(apiWithHierarchyData, minimalConfig as AnyConfig)
       expect(result).toContain('const parentId = body.parentId ?? null')
     })
+
+    it('passes the role\'s scope to the query', () => {
+      const result = generateMoveEndpoint(apiWithHierarchyData, minimalConfig as AnyConfig)
+      expect(result).toContain('const { team, user, membership, scope } = await requireCollectionPermission(')
+      expect(result).toContain('body.order, user.id, { role: membership.role, scope })')
+    })
   })
 
   describe('generateReorderEndpoint', () => {
@@ -192,12 +250,12 @@ describe('API Endpoint Generators', () => {
 
     it('includes team auth import', () => {
       const result = generateReorderEndpoint(apiWithHierarchyData, minimalConfig as AnyConfig)
-      expect(result).toContain("import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'")
+      expect(result).toContain("import { requireCollectionPermission } from '@fyit/crouton-auth/server/utils/team'")
     })
 
     it('includes reorderSiblings query import', () => {
       const result = generateReorderEndpoint(apiWithHierarchyData, minimalConfig as AnyConfig)
-      expect(result).toContain('import { reorderSiblingsShopCategories }')
+      expect(result).toContain('import { reorderSiblingsShopCategories, getShopCategoriesByIds }')
     })
 
     it('validates updates array parameter', () => {
@@ -211,5 +269,301 @@ describe('API Endpoint Generators', () => {
       expect(result).toContain('!update.id')
       expect(result).toContain("typeof update.order !== 'number'")
     })
+
+    it('passes the role\'s scope to the query and records only rows it may reorder', () => {
+      const result = generateReorderEndpoint(apiWithSortableData, minimalConfig as AnyConfig)
+      expect(result).toContain('body.updates, user.id, { role: membership.role, scope })')
+      expect(result).toContain('scope !== \'own\' || before.get(update.id)!.owner === user.id')
+    })
+  })
+
+  describe('soft delete endpoints', () => {
+    it('lists trashed rows when ?trashed=true is passed', () => {
+      const result = generateGetEndpoint(apiWithSoftDeleteData, minimalConfig as AnyConfig)
+      expect(result).toContain('const trashed = query.trashed === \'true\'')
+      expect(result).toContain('{ ...listQuery, trashed, owner }')
+    })
+
+    it('does not mention the trash without soft delete', () => {
+      const result = generateGetEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).not.toContain('trashed')
+    })
+
+    it('generates the restore endpoint', () => {
+      const result = generateRestoreEndpoint(apiWithSoftDeleteData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { restoreShopProduct } from \'../../../../../database/queries\'')
+      expect(result).toContain('restoreShopProduct(productId, team.id, user.id, { role: membership.role, scope })')
+    })
+
+    it('generates the purge endpoint', () => {
+      const result = generatePurgeEndpoint(apiWithSoftDeleteData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { purgeShopProduct } from \'../../../../../database/queries\'')
+      expect(result).toContain('purgeShopProduct(productId, team.id, user.id, { role: membership.role, scope })')
+    })
+  })
+
+  describe('generateBulkEndpoint', () => {
+    it('imports the bulk query and the shared contract', () => {
+      const result = generateBulkEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { bulkShopProducts, getShopProductsByIds } from \'../../../../database/queries\'')
+      expect(result).toContain('from \'@fyit/crouton-core/shared/utils/collection-bulk\'')
+      expect(result).toContain('z.array(z.unknown()).min(1).max(MAX_BULK_OPERATIONS)')
+    })
+
+    it('validates every operation and answers 422 without writing', () => {
+      const result = generateBulkEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('z.discriminatedUnion(\'op\'')
+      expect(result).toContain('operationSchema.safeParse(raw)')
+      expect(result).toContain('setResponseStatus(event, 422)')
+      expect(result).toContain('{ role: membership.role, scope, dryRun: body.dryRun }')
+    })
+
+    it('reports only written rows and keeps conflicts of an applied batch out of the 422', () => {
+      const result = generateBulkEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('.filter(row => row.ok && row.op === op && row.id)')
+      expect(result).toContain('if (!result.applied && result.results.some(row => !row.ok)) {')
+    })
+
+    it('checks the role allows every kind of operation in the batch', () => {
+      const result = generateBulkEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { resolveCollectionAccess } from \'@fyit/crouton-auth/server/utils/team\'')
+      expect(result).toContain('await resolveCollectionAccess(event, \'shopProducts\')')
+      expect(result).toContain('const denied = operations.find(operation => !permissions[operation.op])')
+      expect(result).toContain('throw createError({ status: 403, message: `Your role can\'t ${denied.op} shopProducts` })')
+    })
+
+    it('assigns ids and paths to hierarchy creates', () => {
+      const result = generateBulkEndpoint(apiWithHierarchyData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { nanoid } from \'nanoid\'')
+      expect(result).toContain('getShopCategoriesByIds(team.id, parentIds)')
+      expect(result).toContain('path: parent ? `${parent.path}${recordId}/` : `/${recordId}/`')
+    })
+
+    it('leaves non-hierarchy creates to the database defaults', () => {
+      const result = generateBulkEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).not.toContain('nanoid')
+    })
+
+    it('converts date fields before writing', () => {
+      const result = generateBulkEndpoint(apiWithDateData, minimalConfig as AnyConfig)
+      expect(result).toContain('if (row.publishedAt) row.publishedAt = new Date(row.publishedAt)')
+      expect(result).toContain('if (row.expiresAt) row.expiresAt = new Date(row.expiresAt)')
+    })
+  })
+
+  describe('collection mutation hook', () => {
+    it('reports creates, updates and deletes with the rows before and after', () => {
+      expect(generatePostEndpoint(apiEndpointData, minimalConfig as AnyConfig))
+        .toContain('items: [{ id: result.id, after: result }]')
+
+      const patch = generatePatchEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(patch).toContain('const [before] = await getShopProductsByIds(team.id, [productId]) as any[]')
+      expect(patch).toContain('items: [{ id: productId, before, after: result }]')
+
+      const del = generateDeleteEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(del).toContain('operation: \'delete\',\n    collection: \'shopProducts\'')
+      expect(del).toContain('items: [{ id: productId, before }]')
+    })
+
+    it('reports moves, reorders and trash actions', () => {
+      expect(generateMoveEndpoint(apiWithHierarchyData, minimalConfig as AnyConfig))
+        .toContain('operation: \'move\'')
+      expect(generateReorderEndpoint(apiWithSortableData, minimalConfig as AnyConfig))
+        .toContain('before.get(update.id)!.order !== update.order')
+      expect(generateRestoreEndpoint(apiWithSoftDeleteData, minimalConfig as AnyConfig))
+        .toContain('items: [{ id: productId, after: result }]')
+      expect(generatePurgeEndpoint(apiWithSoftDeleteData, minimalConfig as AnyConfig))
+        .toContain('operation: \'purge\'')
+    })
+
+    it('reports applied bulk batches per kind of operation', () => {
+      const result = generateBulkEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('const before = body.dryRun')
+      expect(result).toContain('if (result.applied) {')
+      expect(result).toContain('operation: op,')
+    })
+  })
+
+  describe('generateExportEndpoint', () => {
+    it('streams the list query through getAll in pages', () => {
+      const result = generateExportEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { getAllShopProducts } from \'../../../../database/queries\'')
+      expect(result).toContain('listQuery = parseCollectionListQuery(query, listSpec)')
+      expect(result).toContain('requireCollectionPermission(event, \'shopProducts\', \'export\')')
+      expect(result).toContain('getAllShopProducts(team.id, { ...listQuery, owner, limit, offset })')
+      expect(result).toContain('return sendStream(event, streamCollectionExport({')
+    })
+
+    it('uses the same list spec as GET', () => {
+      const exportEndpoint = generateExportEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      const getEndpoint = generateGetEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      const spec = getEndpoint.slice(getEndpoint.indexOf('const listSpec'), getEndpoint.indexOf('export default'))
+      expect(exportEndpoint).toContain(spec.trim())
+    })
+
+    it('rejects unknown formats with 400', () => {
+      const result = generateExportEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('if (!isCollectionExportFormat(format))')
+      expect(result).toContain('collectionExportHeaders(format, \'shop-products\')')
+    })
+
+    it('declares typed columns from the fields', () => {
+      const result = generateExportEndpoint(apiEndpointData, minimalConfig as AnyConfig)
+      expect(result).toContain('{ key: \'id\', label: \'ID\' }')
+      expect(result).toContain('{ key: \'price\', label: \'Price\', type: \'decimal\' }')
+      expect(result).toContain('{ key: \'active\', label: \'Active\', type: \'boolean\' }')
+      expect(result).toContain('{ key: \'createdAt\', label: \'Created\', type: \'datetime\' }')
+    })
+
+    it('leaves out metadata columns without useMetadata', () => {
+      const result = generateExportEndpoint(apiEndpointData, noMetadataConfig as AnyConfig)
+      expect(result).not.toContain('key: \'createdAt\'')
+    })
+
+    it('expands references to titles', () => {
+      const data = { ...apiEndpointData, fields: [...apiEndpointData.fields, { name: 'categoryId', type: 'string', refTarget: 'categories', meta: { label: 'Category' } }] }
+      const result = generateExportEndpoint(data, minimalConfig as AnyConfig)
+      expect(result).toContain('{ key: \'categoryId\', label: \'Category\', reference: true }')
+    })
+
+    it('resolves translated fields for ?locale=', () => {
+      const result = generateExportEndpoint(apiEndpointData, translationsConfig as AnyConfig)
+      expect(result).toContain('{ key: \'name\', label: \'Name\', translatable: true }')
+      expect(result).toContain('locale: String(query.locale || \'en\')')
+    })
+
+    it('exports the trash with ?trashed=true for soft-delete collections', () => {
+      const result = generateExportEndpoint(apiWithSoftDeleteData, minimalConfig as AnyConfig)
+      expect(result).toContain('const trashed = query.trashed === \'true\'')
+      expect(result).toContain('{ ...listQuery, trashed, owner, limit, offset }')
+    })
+  })
+
+  describe('stored computed fields', () => {
+    const computedData = {
+      ...apiEndpointData,
+      fields: [
+        ...apiEndpointData.fields,
+        { name: 'total', type: 'decimal', meta: { computed: 'price * 2' } }
+      ]
+    }
+
+    it('computes stored fields on create', () => {
+      const result = generatePostEndpoint(computedData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { computeShopProductFields } from \'../../../../../computed\'')
+      expect(result).toContain('return { total: computed.total }')
+      expect(result).toContain('Object.assign(dataWithoutId, computedValues(dataWithoutId))')
+    })
+
+    it('recomputes from the current row when PATCH touches an input', () => {
+      const result = generatePatchEndpoint(computedData, minimalConfig as AnyConfig)
+      expect(result).toContain('if ([\'price\'].some(key => key in updates)) {')
+      expect(result).toContain('Object.assign(updates, computedValues(merged))')
+    })
+
+    it('recomputes bulk creates and updates', () => {
+      const result = generateBulkEndpoint(computedData, minimalConfig as AnyConfig)
+      expect(result).toContain('getShopProductsByIds(team.id, recomputeIds)')
+      expect(result).toContain('Object.assign(operation.data, computedValues(operation.data))')
+    })
+
+    it('leaves collections without computed fields alone', () => {
+      expect(generatePostEndpoint(apiEndpointData, minimalConfig as AnyConfig)).not.toContain('computedValues')
+    })
+  })
+
+  describe('validation rules', () => {
+    const rulesData = {
+      ...apiEndpointData,
+      fields: [
+        ...apiEndpointData.fields,
+        { name: 'slug', type: 'string', meta: { unique: true, messages: { unique: 'Slug is taken' } } },
+        { name: 'startDate', type: 'date', meta: {} },
+        { name: 'endDate', type: 'date', meta: { refine: 'endDate > startDate' } }
+      ]
+    }
+
+    it('checks refine rules and unique fields on create', () => {
+      const result = generatePostEndpoint(rulesData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { createShopProduct, findShopProductDuplicates } from \'../../../../database/queries\'')
+      expect(result).toContain('import { validateShopProductRules } from \'../../../../../validation\'')
+      expect(result).toContain('}).strip().superRefine((item, ctx) => {')
+      expect(result).toContain('  slug: \'Slug is taken\'')
+      expect(result).toContain('const duplicates = await findShopProductDuplicates(team.id, dataWithoutId)')
+      expect(result).toContain('throw createError({ status: 422, statusText: \'Validation failed\', data: { issues } })')
+    })
+
+    it('checks refine rules against the merged row on PATCH', () => {
+      const result = generatePatchEndpoint(rulesData, minimalConfig as AnyConfig)
+      expect(result).toContain('}).partial().strip()\n')
+      expect(result).toContain('const duplicates = await findShopProductDuplicates(team.id, updates, productId)')
+      expect(result).toContain('if ([\'endDate\', \'startDate\'].some(key => key in updates)) {')
+      expect(result).toContain('const issues = validateShopProductRules(merged)')
+    })
+
+    it('checks refine rules on bulk creates and against the merged row on bulk updates', () => {
+      const result = generateBulkEndpoint(rulesData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { validateShopProductRules } from \'../../../../../validation\'')
+      expect(result).toContain('data: fieldsSchema.strip().superRefine((item, ctx) => {')
+      expect(result).toContain('data: fieldsSchema.partial().strip()')
+      expect(result).toContain('operation.op === \'update\' && [\'endDate\', \'startDate\'].some(key => key in operation.data) ? [operation.id] : [])')
+      expect(result).toContain('const issues = validateShopProductRules({ ...refineById.get(operation.id), ...operation.data })')
+      expect(result).toContain('return { applied: false, results: failed }')
+      // Checked before anything is derived or written
+      expect(result.indexOf('const refineIds')).toBeLessThan(result.indexOf('const dbTimer'))
+    })
+
+    it('skips the bulk update check without refine rules', () => {
+      expect(generateBulkEndpoint(apiEndpointData, minimalConfig as AnyConfig)).not.toContain('refineIds')
+    })
+  })
+
+  describe('row policies', () => {
+    const policyData = {
+      ...apiEndpointData,
+      policies: [{ roles: ['member'], where: { active: true } }]
+    }
+    const tokenData = {
+      ...apiEndpointData,
+      policies: [{ token: 'order', where: { id: '$token.resourceId' } }]
+    }
+
+    it('passes the member to list and id reads', () => {
+      const result = generateGetEndpoint(policyData, minimalConfig as AnyConfig)
+      expect(result).toContain('const { team, user, scope, policy } = await requireCollectionPermission(event, \'shopProducts\', \'read\')')
+      expect(result).toContain('getShopProductsByIds(team.id, ids, { policy })')
+      expect(result).toContain('getAllShopProducts(team.id, { ...listQuery, owner, policy })')
+    })
+
+    it('lets the holders of a token policy read without a session', () => {
+      const result = generateGetEndpoint(tokenData, minimalConfig as AnyConfig)
+      expect(result).toContain('import { requireCollectionPermission, resolveScopedCollectionAccess } from \'@fyit/crouton-auth/server/utils/team\'')
+      expect(result).toContain('await resolveScopedCollectionAccess(event, [\'order\'])\n    ?? await requireCollectionPermission(event, \'shopProducts\', \'read\')')
+      expect(result).toContain('const owner = scope === \'own\' ? user?.id : undefined')
+    })
+
+    it('passes the member to updates, deletes, bulk and export', () => {
+      expect(generatePatchEndpoint(policyData, minimalConfig as AnyConfig))
+        .toContain('{ role: membership.role, scope, policy, expectedUpdatedAt: body.expectedUpdatedAt }')
+      expect(generateDeleteEndpoint(policyData, minimalConfig as AnyConfig))
+        .toContain('deleteShopProduct(productId, team.id, user.id, { role: membership.role, scope, policy })')
+      expect(generateBulkEndpoint(policyData, minimalConfig as AnyConfig))
+        .toContain('{ role: membership.role, scope, policy, dryRun: body.dryRun }')
+      expect(generateExportEndpoint(policyData, minimalConfig as AnyConfig))
+        .toContain('getAllShopProducts(team.id, { ...listQuery, owner, policy, limit, offset })')
+    })
+
+    it('passes the member to moves and reorders', () => {
+      const treeData = { ...apiWithHierarchyData, policies: policyData.policies }
+      expect(generateMoveEndpoint(treeData, minimalConfig as AnyConfig))
+        .toContain('body.order, user.id, { role: membership.role, scope, policy })')
+      const reorder = generateReorderEndpoint(treeData, minimalConfig as AnyConfig)
+      expect(reorder).toContain('getShopCategoriesByIds(team.id, ids, { policy })')
+      expect(reorder).toContain('body.updates, user.id, { role: membership.role, scope, policy })')
+    })
+
+    it('leaves collections without policies alone', () => {
+      expect(generateGetEndpoint(apiEndpointData, minimalConfig as AnyConfig)).not.toContain('policy')
+    })
   })
 })
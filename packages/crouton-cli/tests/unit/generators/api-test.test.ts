@@ -33,6 +33,12 @@ describe('generateApiTest (#791)', () => {
     expect(code).toContain("vi.mock('./server/database/queries'")
   })
 
+  it('mocks the scoped-token lookup when row policies let tokens read', () => {
+    expect(code).not.toContain('resolveScopedCollectionAccess')
+    const tokenCode = generateApiTest({ ...baseData, policies: [{ token: 'order', where: { id: '$token.resourceId' } }] }, null)
+    expect(tokenCode).toContain('  resolveScopedCollectionAccess: vi.fn(),\n}))')
+  })
+
   it('provides the H3/Nitro auto-imports before the route modules load (vi.hoisted)', () => {
     expect(code).toContain('vi.hoisted(')
     expect(code).toContain('defineEventHandler')
@@ -54,7 +60,7 @@ describe('generateApiTest (#791)', () => {
   })
 
   it('asserts an unauthenticated request is rejected and never writes', () => {
-    // resolveTeamAndCheckMembership is made to reject; the create query must not run
+    // requireCollectionPermission is made to reject; the create query must not run
     expect(code).toMatch(/mockRejected/)
     expect(code).toContain('expect(createShopProduct).not.toHaveBeenCalled()')
   })
@@ -82,6 +88,12 @@ describe('generateApiTest (#791)', () => {
     expect(code).toMatch(/invalid body|before writing/i)
   })
 
+  it('covers the bulk endpoint, including a rejected row that writes nothing', () => {
+    expect(code).toContain('bulk.post.ts')
+    expect(code).toMatch(/bulkShopProducts:\s*vi\.fn\(\)/)
+    expect(code).toContain('event.__status = status')
+  })
+
   it('omits move/reorder cases for a non-hierarchy, non-sortable collection', () => {
     expect(code).not.toContain('move.patch.ts')
     expect(code).not.toContain('reorder.patch.ts')
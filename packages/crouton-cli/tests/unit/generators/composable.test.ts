@@ -111,6 +111,37 @@ describe('generateComposable', () => {
     })
   })
 
+  describe('references', () => {
+    it('maps reference fields to their target collections', () => {
+      const result = generateComposable({
+        ...basicComposableData,
+        fields: [
+          ...basicComposableData.fields,
+          { name: 'categoryId', type: 'string', refTarget: 'categories', meta: {} },
+          { name: 'customerId', type: 'string', refTarget: 'supersaasUsers', refScope: 'adapter', meta: {} }
+        ]
+      }, minimalConfig)
+      expect(result).toContain('references: {\n    categoryId: \'shopCategories\',\n    customerId: \'supersaasUsers\'\n  }')
+    })
+
+    it('omits the map without reference fields', () => {
+      const result = generateComposable(basicComposableData, minimalConfig)
+      expect(result).not.toContain('references:')
+    })
+  })
+
+  describe('soft delete', () => {
+    it('flags the collection when soft delete is enabled', () => {
+      const result = generateComposable({ ...basicComposableData, softDelete: { enabled: true } }, minimalConfig)
+      expect(result).toContain('softDelete: true')
+    })
+
+    it('omits the flag by default', () => {
+      const result = generateComposable(basicComposableData, minimalConfig)
+      expect(result).not.toContain('softDelete')
+    })
+  })
+
   describe('dependent fields', () => {
     it('generates dependentFieldComponents for repeater fields', () => {
       const result = generateComposable(dependentFieldsData, minimalConfig)
@@ -164,4 +195,23 @@ describe('generateComposable', () => {
       expect(result).not.toMatch(/"name": "id"/)
     })
   })
+
+  describe('validation rules', () => {
+    it('runs cross-field rules after the field checks', () => {
+      const result = generateComposable({
+        ...basicComposableData,
+        fields: [
+          ...basicComposableData.fields,
+          { name: 'startDate', type: 'date', meta: {} },
+          { name: 'endDate', type: 'date', meta: { refine: 'endDate > startDate' } }
+        ]
+      }, minimalConfig)
+      expect(result).toContain(`import { z } from 'zod'\nimport { validate${basicComposableData.layerPascalCase}${basicComposableData.pascalCase}Rules } from '../../validation'`)
+      expect(result).toMatch(/\n\}\)\.superRefine\(\(item, ctx\) => \{/)
+    })
+
+    it('leaves collections without refine rules alone', () => {
+      expect(generateComposable(basicComposableData, minimalConfig)).not.toContain('superRefine')
+    })
+  })
 })
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { computeFunctionName, generateComputedFields } from '../../../lib/generators/computed-fields.ts'
+import { apiEndpointData } from '../../fixtures/sample-data.mjs'
+
+const computedData = {
+  ...apiEndpointData,
+  fields: [
+    { name: 'quantity', type: 'number', meta: {} },
+    { name: 'price', type: 'decimal', meta: { scale: 2 } },
+    { name: 'name', type: 'string', meta: {} },
+    { name: 'total', type: 'decimal', meta: { scale: 2, computed: 'subtotal * 1.21' } },
+    { name: 'subtotal', type: 'decimal', meta: { computed: { expression: 'quantity * price', stored: false } } },
+    { name: 'slug', type: 'string', meta: { computed: 'slugify(name)' } }
+  ]
+}
+
+describe('generateComputedFields', () => {
+  it('names the function after the collection', () => {
+    expect(computeFunctionName(computedData)).toBe('computeShopProductFields')
+  })
+
+  it('computes fields in dependency order with coerced inputs', () => {
+    const result = generateComputedFields(computedData)
+    expect(result).toContain('export function computeShopProductFields(item: Record<string, any>) {')
+    expect(result).toContain('const subtotal = finite(toNumber(item.quantity) * toNumber(item.price))')
+    expect(result).toContain('const total = finite(round(toNumber(subtotal) * 1.21, 2))')
+    expect(result).toContain('const slug = toText(slugify(toText(item.name)))')
+    expect(result.indexOf('const subtotal')).toBeLessThan(result.indexOf('const total'))
+    expect(result).toContain('return { subtotal, total, slug }')
+  })
+
+  it('imports only the helpers it uses', () => {
+    const result = generateComputedFields(computedData)
+    expect(result).toContain('import { toNumber, toText, finite, round, slugify } from \'@fyit/crouton-core/shared/utils/computed-fields\'')
+    const plain = generateComputedFields({
+      ...computedData,
+      fields: [{ name: 'a', type: 'number', meta: {} }, { name: 'b', type: 'number', meta: { computed: 'a * 2' } }]
+    })
+    expect(plain).toContain('import { toNumber, finite } from')
+    expect(plain).toContain('const b = finite(Math.round(toNumber(item.a) * 2))')
+  })
+})
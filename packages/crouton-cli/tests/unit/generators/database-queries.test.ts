@@ -0,0 +1,410 @@
+import { describe, it, expect } from 'vitest'
+import { createJiti } from 'jiti'
+import { generateQueries, detectListQueryFields } from '../../../lib/generators/database-queries.ts'
+import {
+  apiEndpointData,
+  apiWithHierarchyData,
+  apiWithSortableData,
+  apiWithSoftDeleteData,
+  minimalConfig,
+  noMetadataConfig
+} from '../../fixtures/sample-data.mjs'
+
+// Type helper to work around .mjs module inference (config = null default)
+type AnyConfig = any
+
+const searchableData = {
+  ...apiEndpointData,
+  fields: [
+    ...apiEndpointData.fields,
+    { name: 'title', type: 'string', meta: { searchable: true } },
+    { name: 'categoryId', type: 'string', refTarget: 'categories', meta: {} },
+    { name: 'metadata', type: 'json', meta: {} }
+  ]
+}
+
+describe('detectListQueryFields', () => {
+  it('maps field types to list query kinds', () => {
+    const { fields } = detectListQueryFields(searchableData, minimalConfig as AnyConfig)
+    expect(fields).toEqual(expect.arrayContaining([
+      { name: 'name', kind: 'string' },
+      { name: 'description', kind: 'string' },
+      { name: 'price', kind: 'number' },
+      { name: 'active', kind: 'boolean' },
+      { name: 'categoryId', kind: 'reference' }
+    ]))
+  })
+
+  it('skips JSON-backed fields', () => {
+    const { fields } = detectListQueryFields(searchableData, minimalConfig as AnyConfig)
+    expect(fields.map(f => f.name)).not.toContain('metadata')
+  })
+
+  it('collects searchable string fields', () => {
+    expect(detectListQueryFields(searchableData, minimalConfig as AnyConfig).searchable).toEqual(['title'])
+  })
+
+  it('adds metadata timestamps unless useMetadata is off', () => {
+    const withMeta = detectListQueryFields(apiEndpointData, minimalConfig as AnyConfig).fields.map(f => f.name)
+    const withoutMeta = detectListQueryFields(apiEndpointData, noMetadataConfig as AnyConfig).fields.map(f => f.name)
+    expect(withMeta).toEqual(expect.arrayContaining(['createdAt', 'updatedAt']))
+    expect(withoutMeta).not.toContain('createdAt')
+  })
+
+  it('adds the sortable order column', () => {
+    const { fields } = detectListQueryFields(apiWithSortableData, minimalConfig as AnyConfig)
+    expect(fields).toContainEqual({ name: 'order', kind: 'number' })
+  })
+})
+
+describe('generateQueries list query support', () => {
+  it('maps every list field to its column', () => {
+    const result = generateQueries(searchableData, minimalConfig as AnyConfig)
+    expect(result).toContain('price: tables.shopProducts.price')
+    expect(result).toContain('categoryId: tables.shopProducts.categoryId')
+    expect(result).toContain('createdAt: tables.shopProducts.createdAt')
+  })
+
+  it('accepts filters, sort and q in the getAll options', () => {
+    const result = generateQueries(searchableData, minimalConfig as AnyConfig)
+    expect(result).toContain('filters?: CollectionFilter[]; sort?: CollectionSort[]; q?: string')
+    expect(result).toContain('conditions.push(toListCondition(filter))')
+  })
+
+  it('searches only flagged columns', () => {
+    const result = generateQueries(searchableData, minimalConfig as AnyConfig)
+    expect(result).toContain('const searchColumns = [tables.shopProducts.title]')
+    expect(result).toContain('if (opts.q) {')
+  })
+
+  it('omits search when no field is searchable', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).not.toContain('searchColumns')
+  })
+
+  it('falls back to the default ordering without an explicit sort', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).toContain(': [desc(tables.shopProducts.createdAt)]')
+    expect(result).toContain('.orderBy(...orderBy)')
+  })
+})
+
+describe('generateQueries optimistic concurrency', () => {
+  it('only writes while updatedAt still matches the expected version', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).toContain('options?: { role?: string; scope?: \'all\' | \'own\'; expectedUpdatedAt?: Date }')
+    expect(result).toContain('[...conditions, eq(tables.shopProducts.updatedAt, options.expectedUpdatedAt)]')
+    expect(result).toContain('.where(and(...writeConditions))')
+  })
+
+  it('reports a stale write as a 409 with the current row', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    // The row is read back without the precondition: present means stale, missing means 404
+    const conflict = result.slice(result.indexOf('if (!product) {'))
+    expect(conflict).toMatch(/^if \(!product\) \{\n {4}if \(options\?\.expectedUpdatedAt\) \{\n {6}const \[current\] = await \(db as any\)\n\s+\.select\(\)\n\s+\.from\(tables\.shopProducts\)\n\s+\.where\(and\(\.\.\.conditions\)\)/)
+    expect(result).toContain('status: 409')
+    expect(result).toContain('data: { current }')
+    expect(conflict.indexOf('status: 409')).toBeLessThan(conflict.indexOf('status: 404'))
+  })
+
+  it('skips the precondition without metadata columns', () => {
+    const result = generateQueries(apiEndpointData, noMetadataConfig as AnyConfig)
+    expect(result).not.toContain('expectedUpdatedAt')
+    expect(result).not.toContain('status: 409')
+  })
+})
+
+describe('generateQueries soft delete', () => {
+  it('hides trashed rows unless opts.trashed is set', () => {
+    const result = generateQueries(apiWithSoftDeleteData, minimalConfig as AnyConfig)
+    expect(result).toContain(', isNull, isNotNull } from \'drizzle-orm\'')
+    expect(result).toContain('trashed?: boolean')
+    expect(result).toContain('opts.trashed ? isNotNull(tables.shopProducts.deletedAt) : isNull(tables.shopProducts.deletedAt)')
+  })
+
+  it('deletes by stamping deletedAt and deletedBy', () => {
+    const result = generateQueries(apiWithSoftDeleteData, minimalConfig as AnyConfig)
+    expect(result).toContain('.set({ deletedAt: new Date(), deletedBy: userId })')
+  })
+
+  it('adds restore and purge queries', () => {
+    const result = generateQueries(apiWithSoftDeleteData, minimalConfig as AnyConfig)
+    expect(result).toContain('export async function restoreShopProduct(')
+    expect(result).toContain('export async function purgeShopProduct(')
+  })
+
+  it('moves and reorders live rows only', () => {
+    const tree = generateQueries({ ...apiWithHierarchyData, softDelete: { enabled: true } }, minimalConfig as AnyConfig)
+    expect(tree).toContain('eq(tables.shopCategories.teamId, teamId),\n    isNull(tables.shopCategories.deletedAt)\n  ]')
+    expect(tree).toContain('eq(tables.shopCategories.id, newParentId),\n          eq(tables.shopCategories.teamId, teamId),\n          isNull(tables.shopCategories.deletedAt)')
+    expect(tree).toContain('eq(tables.shopCategories.id, update.id),\n      eq(tables.shopCategories.teamId, teamId),\n      isNull(tables.shopCategories.deletedAt)')
+
+    const sortable = generateQueries({ ...apiWithSortableData, softDelete: { enabled: true } }, minimalConfig as AnyConfig)
+    expect(sortable).toContain('eq(tables.shopTags.teamId, teamId),\n        isNull(tables.shopTags.deletedAt)')
+  })
+
+  it('keeps hard deletes without soft delete', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).not.toContain('isNull')
+    expect(result).not.toContain('restoreShopProduct')
+    expect(result).toContain('.delete(tables.shopProducts)')
+  })
+})
+
+describe('generateQueries role scope', () => {
+  it('narrows writes to the owner by the role\'s scope, falling back to admin checks', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).toContain('const ownRowsOnly = options?.scope ? options.scope === \'own\' : !isAdmin')
+    expect(result).toContain('if (ownRowsOnly) {\n    conditions.push(eq(tables.shopProducts.owner, userId))')
+  })
+
+  it('narrows moves and reorders to the owner the same way', () => {
+    const tree = generateQueries(apiWithHierarchyData, minimalConfig as AnyConfig)
+    expect(tree).toContain('newOrder: number,\n  userId: string,\n  options?: { role?: string; scope?: \'all\' | \'own\' }')
+    expect(tree).toContain('if (ownRowsOnly) {\n    conditions.push(eq(tables.shopCategories.owner, userId))')
+    expect(tree).toContain('if (ownRowsOnly) {\n      conditions.push(eq(tables.shopCategories.owner, userId))')
+
+    const sortable = generateQueries(apiWithSortableData, minimalConfig as AnyConfig)
+    expect(sortable).toContain('updates: { id: string; order: number }[],\n  userId: string,')
+    expect(sortable).toContain('if (ownRowsOnly) {\n        conditions.push(eq(tables.shopTags.owner, userId))')
+  })
+
+  it('filters lists to one owner', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).toContain('owner?: string; filters?: CollectionFilter[]')
+    expect(result).toContain('if (opts.owner) conditions.push(eq(tables.shopProducts.owner, opts.owner))')
+  })
+})
+
+describe('generateQueries bulk', () => {
+  it('applies all operations through runCollectionBatch', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).toContain('export async function bulkShopProducts(')
+    expect(result).toContain('options?: { role?: string; scope?: \'all\' | \'own\'; dryRun?: boolean }')
+    expect(result).toContain('await runCollectionBatch(db, q => operations.map(')
+  })
+
+  it('resolves targets in slices that fit D1 parameter limits', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).toContain('targetIds.slice(i, i + 90)')
+    expect(result).toContain('\'Not found or unauthorized\'')
+  })
+
+  it('returns without writing on dry runs and failed rows', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).toContain('if (options?.dryRun || results.some(result => !result.ok)) {')
+  })
+
+  it('checks expectedUpdatedAt per row when metadata is tracked', () => {
+    expect(generateQueries(apiEndpointData, minimalConfig as AnyConfig)).toContain('\'Modified by someone else\'')
+    expect(generateQueries(apiEndpointData, noMetadataConfig as AnyConfig)).not.toContain('Modified by someone else')
+  })
+
+  it('checks expectedUpdatedAt again in the write and reports updates that wrote nothing', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    const bulk = result.slice(result.indexOf('export async function bulkShopProducts('))
+    expect(bulk).toContain(`.where(hasPrecondition(operation)
+          ? and(target, eq(tables.shopProducts.updatedAt, new Date(operation.expectedUpdatedAt!)))
+          : target)`)
+    expect(bulk).toContain('result.op !== \'create\' && !written[i]?.length')
+    expect(bulk).toContain('error: hasPrecondition(operations[i]!) ? \'Modified by someone else\' : \'Not found or unauthorized\'')
+  })
+
+  it('moves rows to the trash for soft-delete collections', () => {
+    const result = generateQueries(apiWithSoftDeleteData, minimalConfig as AnyConfig)
+    const bulk = result.slice(result.indexOf('export async function bulkShopProducts('))
+    expect(bulk).toContain('.set({ deletedAt: new Date(), deletedBy: userId })')
+    expect(bulk).not.toContain('q.delete(')
+  })
+})
+
+describe('generateQueries many-to-many', () => {
+  const relationData = {
+    ...apiEndpointData,
+    camelCasePlural: 'products',
+    fields: [
+      ...apiEndpointData.fields,
+      { name: 'tagIds', type: 'references', refTarget: 'tags', meta: {} }
+    ]
+  }
+
+  it('is not filterable through the list query', () => {
+    const { fields } = detectListQueryFields(relationData, minimalConfig as AnyConfig)
+    expect(fields.map(f => f.name)).not.toContain('tagIds')
+  })
+
+  it('loads relations from the join table after reading rows', () => {
+    const result = generateQueries(relationData, minimalConfig as AnyConfig)
+    expect(result).toContain('{ field: \'tagIds\', joinTable: tables.shopProductsTagIds, targetTable: tagsSchema.shopTags, teamScoped: true }')
+    expect(result.match(/await loadRelations\(products\)/g)).toHaveLength(2)
+    expect(result).toContain('.innerJoin(relation.targetTable, eq(relation.joinTable.targetId, relation.targetTable.id))')
+  })
+
+  it('rejects unknown targets and writes links with the row', () => {
+    const result = generateQueries(relationData, minimalConfig as AnyConfig)
+    const create = result.slice(result.indexOf('export async function createShopProduct('), result.indexOf('export async function updateShopProduct('))
+    expect(create).toContain('await resolveRelations(data.teamId, data)')
+    expect(create).toContain('throw createError({ status: 400, statusText: error })')
+    expect(create).toContain('...relationStatements(q, id, data.teamId, links)')
+  })
+
+  it('replaces links after a successful update', () => {
+    const result = generateQueries(relationData, minimalConfig as AnyConfig)
+    expect(result).toContain('...changes,')
+    expect(result).toContain('await runCollectionBatch(db, q => relationStatements(q, product.id, teamId, links))')
+  })
+
+  it('writes bulk links in the same batch', () => {
+    const result = generateQueries(relationData, minimalConfig as AnyConfig)
+    const bulk = result.slice(result.indexOf('export async function bulkShopProducts('))
+    expect(bulk).toContain('await resolveRelations(teamId, operation.data)')
+    expect(bulk).toContain('.concat(payloads.flatMap((payload, index) => payload && !hasPrecondition(operations[index]!)')
+  })
+
+  it('replaces the links of bulk updates with a precondition once they were written', () => {
+    const result = generateQueries(relationData, minimalConfig as AnyConfig)
+    const bulk = result.slice(result.indexOf('export async function bulkShopProducts('))
+    expect(bulk).toContain('hasPrecondition(operation) && written[index]?.length && payloads[index] ? [index] : []')
+    expect(bulk).toContain('await runCollectionBatch(db, q => deferred.flatMap(index => relationStatements(q, sourceIds[index]!, teamId, payloads[index]!.links)))')
+  })
+
+  it('leaves collections without relations unchanged', () => {
+    const result = generateQueries(apiEndpointData, minimalConfig as AnyConfig)
+    expect(result).not.toContain('loadRelations')
+    expect(result).not.toContain('resolveRelations')
+  })
+})
+
+describe('generateQueries computed fields', () => {
+  const computedData = {
+    ...apiEndpointData,
+    camelCasePlural: 'products',
+    fields: [
+      ...apiEndpointData.fields,
+      { name: 'total', type: 'decimal', meta: { computed: 'price * 2' } },
+      { name: 'label', type: 'string', meta: { computed: { expression: 'upper(name)', stored: false } } }
+    ]
+  }
+
+  it('adds virtual fields to every read', () => {
+    const result = generateQueries(computedData, minimalConfig as AnyConfig)
+    expect(result).toContain('import { computeShopProductFields } from \'../../computed\'')
+    expect(result).toContain('    row.label = computed.label')
+    expect(result).not.toContain('row.total')
+    expect(result).toContain('addVirtualFields(products)')
+    expect(result).toContain('addVirtualFields([product])')
+  })
+
+  it('keeps virtual fields out of the list query grammar', () => {
+    const names = detectListQueryFields(computedData, minimalConfig as AnyConfig).fields.map(f => f.name)
+    expect(names).toContain('total')
+    expect(names).not.toContain('label')
+  })
+
+  it('leaves collections without virtual fields alone', () => {
+    expect(generateQueries(apiEndpointData, minimalConfig as AnyConfig)).not.toContain('addVirtualFields')
+  })
+})
+
+describe('generateQueries unique fields', () => {
+  const uniqueData = {
+    ...apiEndpointData,
+    fields: [...apiEndpointData.fields, { name: 'slug', type: 'string', meta: { unique: true } }]
+  }
+
+  it('looks up values another row already uses', () => {
+    const result = generateQueries(uniqueData, minimalConfig as AnyConfig)
+    expect(result).toContain('export async function findShopProductDuplicates(teamId: string, values: Record<string, any>, excludeId?: string) {')
+    expect(result).toContain('for (const field of [\'slug\'] as const) {')
+    expect(result).toContain('if (excludeId) conditions.push(ne(tables.shopProducts.id, excludeId))')
+  })
+
+  it('has no lookup without unique fields', () => {
+    expect(generateQueries(apiEndpointData, minimalConfig as AnyConfig)).not.toContain('Duplicates')
+  })
+})
+
+describe('generateQueries row policies', () => {
+  const policyData = {
+    ...apiEndpointData,
+    fields: [...apiEndpointData.fields, { name: 'location', type: 'string', refTarget: 'locations', meta: {} }],
+    policies: [
+      { roles: ['member'], where: { 'location.allowedMemberIds': { contains: '$member.id' } } },
+      { token: 'order', where: { id: '$token.resourceId', active: true } }
+    ]
+  }
+
+  it('compiles each policy into a branch for the requesters it applies to', () => {
+    const result = generateQueries(policyData, minimalConfig as AnyConfig)
+    expect(result).toContain('import type { RowPolicyContext } from \'@fyit/crouton-auth/shared/utils/collection-permissions\'')
+    expect(result).toContain('function rowPolicyConditions(context?: RowPolicyContext): SQL[] {')
+    expect(result).toContain('if (!context.token && [\'member\'].includes(context.role)) {')
+    expect(result).toContain('.from(locationsSchema.shopLocations)\n      .where(sql`exists (select 1 from json_each(${locationsSchema.shopLocations.allowedMemberIds}) where json_each.value = ${context.memberId})`)))')
+    expect(result).toContain('if (context.token?.resourceType === \'order\') {\n    allowed.push(and(\n      eq(tables.shopProducts.id, context.token.resourceId),\n      eq(tables.shopProducts.active, true)\n    )!)')
+    expect(result).toContain('return context.role && UNFILTERED_ROLES.includes(context.role) ? [] : [sql`1 = 0`]')
+  })
+
+  it('filters reads, updates, deletes and bulk targets by the policy context', () => {
+    const result = generateQueries(policyData, minimalConfig as AnyConfig)
+    expect(result).toContain('q?: string; policy?: RowPolicyContext')
+    expect(result).toContain('conditions.push(...rowPolicyConditions(opts.policy))')
+    expect(result).toContain('export async function getShopProductsByIds(teamId: string, productIds: string[], options?: { policy?: RowPolicyContext }) {')
+    expect(result).toContain('...rowPolicyConditions(options?.policy)')
+    expect(result.match(/conditions\.push\(\.\.\.rowPolicyConditions\(options\?\.policy\)\)/g)).toHaveLength(2)
+    expect(result).toContain('scope.push(...rowPolicyConditions(options?.policy))')
+  })
+
+  it('filters trash actions of soft-delete collections', () => {
+    const result = generateQueries({ ...apiWithSoftDeleteData, policies: [{ where: { owner: '$user.id' } }] }, minimalConfig as AnyConfig)
+    expect(result).toContain('if (!context.token && !UNFILTERED_ROLES.includes(context.role)) {\n    allowed.push(eq(tables.shopProducts.owner, context.userId))')
+    expect(result.match(/conditions\.push\(\.\.\.rowPolicyConditions\(options\?\.policy\)\)/g)).toHaveLength(4)
+  })
+
+  it('filters moves and reorders, including the new parent', () => {
+    const policies = [{ where: { owner: '$user.id' } }]
+    const tree = generateQueries({ ...apiWithHierarchyData, policies }, minimalConfig as AnyConfig)
+    expect(tree).toContain('newOrder: number,\n  userId: string,\n  options?: { role?: string; scope?: \'all\' | \'own\'; policy?: RowPolicyContext }')
+    expect(tree).toContain('eq(tables.shopCategories.teamId, teamId),\n          ...rowPolicyConditions(options?.policy)')
+    expect(tree).toContain('  }\n    conditions.push(...rowPolicyConditions(options?.policy))')
+
+    const sortable = generateQueries({ ...apiWithSortableData, policies }, minimalConfig as AnyConfig)
+    expect(sortable).toContain('  }\n      conditions.push(...rowPolicyConditions(options?.policy))')
+  })
+
+  // Runs the generated rowPolicyConditions() with drizzle's helpers stubbed to
+  // return the conditions as text
+  function compileRowPolicies(result: string) {
+    const start = result.indexOf('const UNFILTERED_ROLES')
+    const helper = result.slice(start, result.indexOf('\n}\n', result.indexOf('function rowPolicyConditions')) + 3)
+    const stubs = `type SQL = any
+type RowPolicyContext = any
+const tables = { shopProducts: new Proxy({}, { get: (_, column) => column }) }
+const eq = (column, value) => \`\${column} = \${value}\`
+const and = (...conditions) => conditions.join(' and ')
+const or = (...conditions) => conditions.join(' or ')
+const sql = (strings) => strings.join('?')
+`
+    const jiti = createJiti(import.meta.url)
+    return (jiti.evalModule(`${stubs}${helper}export { rowPolicyConditions }`, { filename: new URL('policies.ts', import.meta.url).pathname }) as any).rowPolicyConditions
+  }
+
+  it('lets API keys reach every row unless a policy names them', () => {
+    const member = { userId: 'user-1', memberId: 'member-1', role: 'member' }
+    const key = { userId: 'key-1', memberId: 'key-1', role: 'api-key' }
+
+    const ownRows = compileRowPolicies(generateQueries({ ...apiEndpointData, policies: [{ where: { owner: '$user.id' } }] }, minimalConfig as AnyConfig))
+    expect(ownRows(member)).toEqual(['owner = user-1'])
+    expect(ownRows(key)).toEqual([])
+
+    const memberRows = compileRowPolicies(generateQueries({ ...apiEndpointData, policies: [{ roles: ['member'], where: { active: true } }] }, minimalConfig as AnyConfig))
+    expect(memberRows({ ...member, role: 'viewer' })).toEqual(['1 = 0'])
+    expect(memberRows(key)).toEqual([])
+
+    const keyRows = compileRowPolicies(generateQueries({ ...apiEndpointData, policies: [{ roles: ['api-key'], where: { active: true } }] }, minimalConfig as AnyConfig))
+    expect(keyRows(key)).toEqual(['active = true'])
+  })
+
+  it('leaves collections without policies alone', () => {
+    expect(generateQueries(apiEndpointData, minimalConfig as AnyConfig)).not.toContain('rowPolicyConditions')
+  })
+})
@@ -1,10 +1,11 @@
 import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
-import { generateSchema } from '../../../lib/generators/database-schema.ts'
+import { generateSchema, joinTableExportName, manyToManyFields } from '../../../lib/generators/database-schema.ts'
 import {
   schemaData,
   schemaWithHierarchyData,
   schemaWithAllTypesData,
   schemaWithSortableData,
+  schemaWithSoftDeleteData,
   minimalConfig,
   noMetadataConfig,
   translationsConfig
@@ -51,7 +52,7 @@ describe('generateSchema', () => {
     it('includes metadata fields when enabled', () => {
       const result = generateSchema(schemaData, 'sqlite', minimalConfig as AnyConfig)
       expect(result).toContain("createdAt: integer('createdAt', { mode: 'timestamp' })")
-      expect(result).toContain("updatedAt: integer('updatedAt', { mode: 'timestamp' })")
+      expect(result).toContain("updatedAt: integer('updatedAt', { mode: 'timestamp_ms' })")
       expect(result).toContain("createdBy: text('createdBy').notNull()")
       expect(result).toContain("updatedBy: text('updatedBy').notNull()")
     })
@@ -219,4 +220,112 @@ describe('generateSchema', () => {
       expect(result).toContain("code: varchar('code', { length: 10 })")
     })
   })
+
+  describe('soft delete', () => {
+    it('adds deletedAt and deletedBy columns for SQLite', () => {
+      const result = generateSchema(schemaWithSoftDeleteData, 'sqlite', minimalConfig as AnyConfig)
+      expect(result).toContain('deletedAt: integer(\'deletedAt\', { mode: \'timestamp\' })')
+      expect(result).toContain('deletedBy: text(\'deletedBy\')')
+    })
+
+    it('uses a timezone-aware timestamp for PostgreSQL', () => {
+      const result = generateSchema(schemaWithSoftDeleteData, 'pg', minimalConfig as AnyConfig)
+      expect(result).toContain('deletedAt: timestamp(\'deletedAt\', { withTimezone: true })')
+    })
+
+    it('omits the columns when soft delete is off', () => {
+      const result = generateSchema(schemaData, 'sqlite', minimalConfig as AnyConfig)
+      expect(result).not.toContain('deletedAt')
+    })
+  })
+
+  describe('many-to-many fields', () => {
+    const relationData = {
+      ...schemaData,
+      fields: [
+        ...schemaData.fields,
+        { name: 'tagIds', type: 'references', refTarget: 'tags', meta: {} },
+        { name: 'relatedIds', type: 'references', refTarget: 'products', meta: {} }
+      ]
+    }
+
+    it('keeps the field off the collection table', () => {
+      const result = generateSchema(relationData, 'sqlite', minimalConfig as AnyConfig)
+      const table = result.slice(result.indexOf('export const shopProducts ='), result.indexOf('// Join table'))
+      expect(table).not.toContain('tagIds')
+    })
+
+    it('generates a join table with cascading foreign keys', () => {
+      const result = generateSchema(relationData, 'sqlite', minimalConfig as AnyConfig)
+      expect(result).toContain('export const shopProductsTagIds = sqliteTable(\'shop_products_tag_ids\', {')
+      expect(result).toContain('sourceId: text(\'sourceId\').notNull().references(() => shopProducts.id, { onDelete: \'cascade\' })')
+      expect(result).toContain('targetId: text(\'targetId\').notNull().references(() => tagsSchema.shopTags.id, { onDelete: \'cascade\' })')
+      expect(result).toContain('primaryKey({ columns: [table.sourceId, table.targetId] })')
+      expect(result).toContain('import * as tagsSchema from \'../../../tags/server/database/schema\'')
+      expect(result).toContain(', primaryKey, index } from \'drizzle-orm/sqlite-core\'')
+    })
+
+    it('points self references at the table in the same file', () => {
+      const result = generateSchema(relationData, 'sqlite', minimalConfig as AnyConfig)
+      expect(result).toContain('targetId: text(\'targetId\').notNull().references(() => shopProducts.id')
+      expect(result).not.toContain('productsSchema')
+    })
+
+    it('imports cross-layer targets from their layer', () => {
+      const result = generateSchema(relationData, 'pg', minimalConfig as AnyConfig, new Map([['tags', 'catalog']]))
+      expect(result).toContain('import * as tagsSchema from \'../../../../../catalog/collections/tags/server/database/schema\'')
+      expect(result).toContain('targetId: uuid(\'targetId\').notNull().references(() => tagsSchema.catalogTags.id')
+      expect(result).toContain('position: integer(\'position\').notNull().default(0)')
+    })
+
+    it('names join table exports after the field', () => {
+      expect(manyToManyFields(relationData.fields).map(f => f.name)).toEqual(['tagIds', 'relatedIds'])
+      expect(joinTableExportName('shopProducts', 'tagIds')).toBe('shopProductsTagIds')
+    })
+  })
+
+  describe('enum fields', () => {
+    const enumData = {
+      ...schemaData,
+      fields: [
+        ...schemaData.fields,
+        { name: 'status', type: 'enum', meta: { required: true, default: 'draft', options: [{ value: 'draft', label: 'Draft' }, { value: 'published', label: 'Published' }] } }
+      ]
+    }
+
+    it('adds a CHECK constraint on SQLite', () => {
+      const result = generateSchema(enumData, 'sqlite', minimalConfig as AnyConfig)
+      expect(result).toContain('status: text(\'status\', { enum: [\'draft\', \'published\'] }).notNull().default(\'draft\')')
+      expect(result).toContain('check(\'shop_products_status_check\', sql`${table.status} IN (\'draft\', \'published\')`)')
+      expect(result).toContain(', check } from \'drizzle-orm/sqlite-core\'\nimport { sql } from \'drizzle-orm\'')
+    })
+
+    it('adds a CHECK constraint on Postgres', () => {
+      const result = generateSchema(enumData, 'pg', minimalConfig as AnyConfig)
+      expect(result).toContain('status: varchar(\'status\', { enum: [\'draft\', \'published\'], length: 255 }).notNull()')
+      expect(result).toContain('}, (table) => [\n  check(\'shop_products_status_check\'')
+    })
+  })
+
+  describe('computed fields', () => {
+    const computedData = {
+      ...schemaData,
+      fields: [
+        ...schemaData.fields,
+        { name: 'total', type: 'decimal', meta: { required: true, computed: 'price * 2' } },
+        { name: 'label', type: 'string', meta: { computed: { expression: 'upper(name)', stored: false } } }
+      ]
+    }
+
+    it('keeps a nullable column for stored fields', () => {
+      const result = generateSchema(computedData, 'sqlite', minimalConfig as AnyConfig)
+      expect(result).toMatch(/total: \w+\('total'[^\n]*\n/)
+      expect(result).not.toMatch(/total: [^\n]*notNull/)
+    })
+
+    it('has no column for virtual fields', () => {
+      const result = generateSchema(computedData, 'sqlite', minimalConfig as AnyConfig)
+      expect(result).not.toContain('label:')
+    })
+  })
 })
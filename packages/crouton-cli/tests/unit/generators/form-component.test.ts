@@ -6,6 +6,7 @@ import {
   formWithRefsData,
   formWithDateData,
   minimalConfig,
+  noMetadataConfig,
   translationsConfig,
   allTypesFields
 } from '../../fixtures/sample-data.mjs'
@@ -86,6 +87,42 @@ describe('generateFormComponent', () => {
       expect(result).toContain('v-model="state.categoryId"')
       expect(result).toContain('collection="shopCategories"')
     })
+
+    it('renders many-to-many fields as a multi-select', () => {
+      const result = generateFormComponent({
+        ...formComponentData,
+        fields: [...formComponentData.fields, { name: 'tagIds', type: 'references', refTarget: 'tags', meta: {} }]
+      }, minimalConfig)
+      expect(result).toMatch(/v-model="state\.tagIds"\s+collection="shopTags"[\s\S]*?multiple/)
+    })
+  })
+
+  describe('enum field handling', () => {
+    it('renders enum fields as a select over their options', () => {
+      const result = generateFormComponent({
+        ...formComponentData,
+        fields: [...formComponentData.fields, {
+          name: 'status',
+          type: 'enum',
+          meta: { options: [{ value: 'draft', label: 'Draft' }, { value: 'in_review', label: 'In Review' }] }
+        }]
+      }, minimalConfig)
+      expect(result).toMatch(/<USelect\s+v-model="state\.status"\s+:items="statusOptions"/)
+      expect(result).toContain('const statusOptions = [\n  { label: \'Draft\', value: \'draft\' },\n  { label: \'In Review\', value: \'in_review\' }\n]')
+    })
+  })
+
+  describe('computed field handling', () => {
+    it('shows computed fields read-only with a live preview', () => {
+      const result = generateFormComponent({
+        ...formComponentData,
+        fields: [...formComponentData.fields, { name: 'total', type: 'decimal', meta: { computed: 'price * 2' } }]
+      }, minimalConfig)
+      expect(result).toContain('<UInput :model-value="computedValues.total ?? \'\'" class="w-full" size="xl" disabled />')
+      expect(result).toContain('import { computeShopProductFields } from \'../../computed\'')
+      expect(result).toContain('const computedValues = computed(() => computeShopProductFields(state.value))')
+      expect(result).not.toContain('v-model="state.total"')
+    })
   })
 
   describe('hierarchy support', () => {
@@ -144,6 +181,48 @@ describe('generateFormComponent', () => {
     })
   })
 
+  describe('server validation errors', () => {
+    const uniqueData = {
+      ...formComponentData,
+      fields: [...formComponentData.fields, { name: 'email', type: 'string', meta: { unique: true } }]
+    }
+
+    it('puts server issues on the fields and in the summary', () => {
+      const result = generateFormComponent(uniqueData, minimalConfig)
+      expect(result).toMatch(/<UForm\s+v-else\s+ref="form"/)
+      expect(result).toContain('const form = useTemplateRef(\'form\')')
+      expect(result).toContain('if (isCollectionValidationError(error)) {\n      form.value?.setErrors(error.issues)\n      validationErrors.value = error.issues')
+      expect(result).toMatch(/<CroutonValidationErrorSummary\s+v-if="validationErrors.length > 0"\s+:errors="validationErrors"/)
+    })
+
+    it('only wires them up when the server has rules of its own', () => {
+      const result = generateFormComponent(formComponentData, minimalConfig)
+      expect(result).not.toContain('isCollectionValidationError')
+      expect(result).not.toContain('useTemplateRef')
+    })
+  })
+
+  describe('concurrency conflicts', () => {
+    it('sends the loaded updatedAt as a precondition', () => {
+      const result = generateFormComponent(formComponentData, minimalConfig)
+      expect(result).toContain('await update(state.value.id, state.value, { expectedUpdatedAt: baseItem.value.updatedAt })')
+    })
+
+    it('opens the merge dialog on a conflict', () => {
+      const result = generateFormComponent(formComponentData, minimalConfig)
+      expect(result).toContain('if (isCollectionConflictError(error)) {')
+      expect(result).toContain('<CroutonFormConflictDialog')
+      expect(result).toContain('i18n-prefix="shop.products.fields"')
+      expect(result).toContain('const saveMerged = async')
+    })
+
+    it('skips conflict handling without metadata columns', () => {
+      const result = generateFormComponent(formComponentData, noMetadataConfig)
+      expect(result).toContain('await update(state.value.id, state.value)')
+      expect(result).not.toContain('CroutonFormConflictDialog')
+    })
+  })
+
   describe('all field types', () => {
     it('generates form for all field types', () => {
       const dataWithAllTypes = {
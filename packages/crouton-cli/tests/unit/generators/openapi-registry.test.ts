@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  generateGetEndpoint,
+  generatePatchEndpoint,
+  generateMoveEndpoint,
+  generateReorderEndpoint
+} from '../../../lib/generators/api-endpoints.ts'
+import {
+  discoverCollectionOpenApi,
+  generateOpenApiRegistry,
+  parseListSpec
+} from '../../../lib/generators/openapi-registry.ts'
+import { apiWithHierarchyData, minimalConfig } from '../../fixtures/sample-data.mjs'
+
+type AnyConfig = any
+
+const hierarchyData = { ...apiWithHierarchyData, hierarchy: { ...apiWithHierarchyData.hierarchy, orderField: 'position' } }
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'crouton-openapi-'))
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+async function writeCollection(): Promise<void> {
+  const collection = join(dir, 'layers', 'shop', 'collections', 'categories')
+  const api = join(collection, 'server', 'api', 'teams', '[id]', 'shop-categories')
+  await mkdir(join(collection, 'app', 'composables'), { recursive: true })
+  await mkdir(join(api, '[categoryId]'), { recursive: true })
+
+  await writeFile(join(collection, 'app', 'composables', 'useShopCategories.ts'), [
+    'import { z } from \'zod\'',
+    'export const shopCategorySchema = z.object({',
+    '  name: z.string()',
+    '})',
+    'const _shopCategoriesConfig = {',
+    '  apiPath: \'shop-categories\'',
+    '}'
+  ].join('\n'))
+  await writeFile(join(api, 'index.get.ts'), generateGetEndpoint(hierarchyData, minimalConfig as AnyConfig))
+  await writeFile(join(api, '[categoryId].patch.ts'), generatePatchEndpoint(hierarchyData, minimalConfig as AnyConfig))
+  await writeFile(join(api, '[categoryId]', 'move.patch.ts'), generateMoveEndpoint(hierarchyData, minimalConfig as AnyConfig))
+  await writeFile(join(api, 'reorder.patch.ts'), generateReorderEndpoint(hierarchyData, minimalConfig as AnyConfig))
+}
+
+describe('parseListSpec', () => {
+  it('reads the list spec of a generated GET endpoint', () => {
+    const spec = parseListSpec(generateGetEndpoint(hierarchyData, minimalConfig as AnyConfig))
+    expect(spec.fields).toMatchObject({ name: 'string', price: 'number', active: 'boolean' })
+    expect(spec.searchable).toEqual(expect.any(Array))
+  })
+
+  it('falls back to no fields without one', () => {
+    expect(parseListSpec('export default defineEventHandler(() => [])')).toEqual({ fields: {} })
+  })
+})
+
+describe('discoverCollectionOpenApi', () => {
+  it('finds the schema export, item param and generated endpoints', async () => {
+    await writeCollection()
+    const [entry] = await discoverCollectionOpenApi(dir)
+
+    expect(entry).toMatchObject({
+      key: 'shopCategories',
+      typeName: 'ShopCategory',
+      apiPath: 'shop-categories',
+      idParam: 'categoryId',
+      endpoints: ['list', 'update', 'move', 'reorder'],
+      orderField: 'position',
+      metadata: true,
+      schemaExport: 'shopCategorySchema',
+      importPath: '~~/layers/shop/collections/categories/app/composables/useShopCategories'
+    })
+  })
+
+  it('skips collections without generated endpoints', async () => {
+    await mkdir(join(dir, 'layers', 'shop', 'collections', 'drafts', 'app', 'composables'), { recursive: true })
+    expect(await discoverCollectionOpenApi(dir)).toEqual([])
+  })
+})
+
+describe('generateOpenApiRegistry', () => {
+  it('imports each zod schema and converts it when the document is built', async () => {
+    await writeCollection()
+    const content = generateOpenApiRegistry(await discoverCollectionOpenApi(dir))
+
+    expect(content).toContain('import { shopCategorySchema } from \'~~/layers/shop/collections/categories/app/composables/useShopCategories\'')
+    expect(content).toContain('schema: z.toJSONSchema(shopCategorySchema, COLLECTION_JSON_SCHEMA_OPTIONS)')
+    expect(content).toContain('endpoints: [\'list\', \'update\', \'move\', \'reorder\'],')
+    expect(content).toContain('export function croutonOpenApiDocument(')
+    expect(content).not.toContain('composablePath')
+  })
+
+  it('still exports the builder without collections', () => {
+    expect(generateOpenApiRegistry([])).toContain('return buildCollectionOpenApi([], info)')
+  })
+})
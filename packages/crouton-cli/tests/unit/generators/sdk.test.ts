@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import type { CollectionOpenApiEntry } from '@fyit/crouton-core/shared/utils/collection-openapi'
+import {
+  generateSdkCollections,
+  generateSdkIndex,
+  generateSdkPackageJson,
+  jsonSchemaToTs,
+  sdkRuntimeSource
+} from '../../../lib/generators/sdk.ts'
+
+const categories: CollectionOpenApiEntry = {
+  key: 'shopCategories',
+  typeName: 'ShopCategory',
+  layer: 'shop',
+  collection: 'categories',
+  apiPath: 'shop-categories',
+  idParam: 'categoryId',
+  endpoints: ['list', 'create', 'update', 'delete', 'move', 'reorder'],
+  list: { fields: { name: 'string' }, searchable: ['name'] },
+  orderField: 'position',
+  schema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      status: { type: 'string', enum: ['draft', 'live'] },
+      tags: { type: 'array', items: { type: 'string' } },
+      publishedAt: { type: 'string', format: 'date-time' }
+    },
+    required: ['name', 'status']
+  }
+}
+
+describe('jsonSchemaToTs', () => {
+  it('maps primitives, enums, literals and nullable types', () => {
+    expect(jsonSchemaToTs({ type: 'integer' })).toBe('number')
+    expect(jsonSchemaToTs({ enum: ['a', 'b'] })).toBe('\'a\' | \'b\'')
+    expect(jsonSchemaToTs({ const: 'it\'s' })).toBe('\'it\\\'s\'')
+    expect(jsonSchemaToTs({ anyOf: [{ type: 'string' }, { type: 'null' }] })).toBe('string | null')
+    expect(jsonSchemaToTs({ type: ['number', 'null'] })).toBe('number | null')
+    expect(jsonSchemaToTs({})).toBe('unknown')
+  })
+
+  it('maps arrays, records and objects', () => {
+    expect(jsonSchemaToTs({ type: 'array', items: { type: 'string' } })).toBe('string[]')
+    expect(jsonSchemaToTs({ type: 'array', items: { enum: ['a', 'b'] } })).toBe('Array<\'a\' | \'b\'>')
+    expect(jsonSchemaToTs({ type: 'object', additionalProperties: { type: 'number' } })).toBe('Record<string, number>')
+    expect(jsonSchemaToTs({
+      type: 'object',
+      properties: { 'id': { type: 'string' }, 'x-y': { type: 'boolean' } },
+      required: ['id']
+    })).toBe('{\n  id: string\n  \'x-y\'?: boolean\n}')
+  })
+})
+
+describe('generateSdkCollections', () => {
+  const source = generateSdkCollections([categories])
+
+  it('writes the row and form data types', () => {
+    expect(source).toContain('export interface ShopCategory {')
+    expect(source).toMatch(/export interface ShopCategoryFormData \{\n {2}name: string\n {2}status: 'draft' \| 'live'\n {2}tags\?: string\[\]/)
+    expect(source).toContain('export type NewShopCategory = ShopCategoryFormData')
+  })
+
+  it('keys the type map and definitions like the app', () => {
+    expect(source).toContain('Endpoints: \'list\' | \'create\' | \'update\' | \'delete\' | \'move\' | \'reorder\'')
+    expect(source).toContain('shopCategories: { apiPath: \'shop-categories\', endpoints: [\'list\', \'create\', \'update\', \'delete\', \'move\', \'reorder\'], orderField: \'position\' }')
+    expect(source).toContain('import type { CollectionDefinition } from \'./client\'')
+  })
+})
+
+describe('generateSdkIndex', () => {
+  it('creates the typed client from the collections', () => {
+    const source = generateSdkIndex('shop-sdk', [categories])
+    expect(source).toContain('import { createClient } from \'shop-sdk\'')
+    expect(source).toContain('api.shopCategories.page(1')
+    expect(source).toContain('return createCollectionClient<CollectionTypeMap>(collections, options)')
+  })
+})
+
+describe('SDK package files', () => {
+  it('notes where runtime files were copied from', () => {
+    expect(sdkRuntimeSource('client.ts', 'export {}\n'))
+      .toBe('// Copied from @fyit/crouton-core/shared/utils/collection-client by `crouton sdk`; changes are overwritten on regeneration.\nexport {}\n')
+  })
+
+  it('points the package at its TypeScript source', () => {
+    expect(JSON.parse(generateSdkPackageJson('shop-sdk'))).toMatchObject({
+      name: 'shop-sdk',
+      type: 'module',
+      exports: { '.': './src/index.ts' }
+    })
+  })
+})
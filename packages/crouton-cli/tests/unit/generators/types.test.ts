@@ -92,4 +92,14 @@ describe('generateTypes', () => {
     expect(result).toContain('loading: string')
     expect(result).toContain("action: 'create' | 'update' | 'delete'")
   })
+
+  it('emits a named union for enum fields', () => {
+    const result = generateTypes({
+      ...basicTypesData,
+      fields: [...basicTypesData.fields, { name: 'status', type: 'enum', tsType: '\'draft\' | \'published\'', meta: {} }],
+      fieldsTypes: `${basicTypesData.fieldsTypes}\n  status?: ShopProductStatus | null`
+    }, minimalConfig as AnyConfig)
+    expect(result).toContain('export type ShopProductStatus = \'draft\' | \'published\'\n\nexport interface ShopProduct {')
+    expect(result).toContain('status?: ShopProductStatus | null')
+  })
 })
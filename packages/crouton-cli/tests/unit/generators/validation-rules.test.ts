@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { generateValidationRules, refineSchemaCode, validateFunctionName } from '../../../lib/generators/validation-rules.ts'
+import { apiEndpointData } from '../../fixtures/sample-data.mjs'
+
+const rulesData = {
+  ...apiEndpointData,
+  fields: [
+    { name: 'startDate', type: 'date', meta: {} },
+    { name: 'endDate', type: 'date', meta: { refine: { expression: 'endDate > startDate', message: 'End can\'t be before start' } } },
+    { name: 'seats', type: 'number', meta: { refine: 'seats <= 100 || max(seats, 0) == 0' } }
+  ]
+}
+
+describe('generateValidationRules', () => {
+  it('names the function after the collection', () => {
+    expect(validateFunctionName(rulesData)).toBe('validateShopProductRules')
+  })
+
+  it('checks each rule once every field it reads has a value', () => {
+    const result = generateValidationRules(rulesData)
+    expect(result).toContain('import { toNumber, toTime, isBlank } from \'@fyit/crouton-core/shared/utils/computed-fields\'')
+    expect(result).toContain('if (!isBlank(item.endDate) && !isBlank(item.startDate) && !(toTime(item.endDate) > toTime(item.startDate))) {')
+    expect(result).toContain('issues.push({ path: [\'endDate\'], message: \'End can\\\'t be before start\' })')
+    expect(result).toContain('!(toNumber(item.seats) <= 100 || Math.max(toNumber(item.seats), 0) == 0)')
+    expect(result).toContain('message: \'seats must satisfy seats <= 100 || max(seats, 0) == 0\'')
+  })
+
+  it('reports issues through superRefine', () => {
+    expect(refineSchemaCode(rulesData)).toContain('for (const issue of validateShopProductRules(item)) {')
+    expect(refineSchemaCode(rulesData)).toContain('ctx.addIssue({ code: \'custom\', path: issue.path, message: issue.message })')
+  })
+})
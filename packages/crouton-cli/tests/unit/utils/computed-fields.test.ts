@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compileExpression,
+  computedFields,
+  computedSpec,
+  isVirtualField,
+  tokenizeExpression,
+  validateComputedFields
+} from '../../../lib/utils/computed-fields.ts'
+
+const lineFields = [
+  { name: 'quantity', type: 'number' },
+  { name: 'unitPrice', type: 'decimal' },
+  { name: 'name', type: 'string' },
+  { name: 'totalPrice', type: 'decimal', meta: { computed: 'subtotal + 1' } },
+  { name: 'subtotal', type: 'decimal', meta: { computed: { expression: 'quantity * unitPrice', stored: false } } }
+]
+
+describe('computedSpec', () => {
+  it('treats a string as a stored expression', () => {
+    expect(computedSpec({ name: 'a', type: 'number', meta: { computed: 'b * 2' } })).toEqual({ expression: 'b * 2', stored: true })
+  })
+
+  it('reads virtual fields from the object form', () => {
+    expect(isVirtualField(lineFields[4]!)).toBe(true)
+    expect(isVirtualField(lineFields[3]!)).toBe(false)
+    expect(computedSpec(lineFields[0]!)).toBeNull()
+  })
+})
+
+describe('tokenizeExpression', () => {
+  it('tells field reads from function calls', () => {
+    const { tokens } = tokenizeExpression('round(quantity * 2, 1)')
+    expect(tokens.filter(token => token.kind !== 'space')).toEqual([
+      { kind: 'call', value: 'round' },
+      { kind: 'operator', value: '(' },
+      { kind: 'field', value: 'quantity' },
+      { kind: 'operator', value: '*' },
+      { kind: 'number', value: '2' },
+      { kind: 'operator', value: ',' },
+      { kind: 'number', value: '1' },
+      { kind: 'operator', value: ')' }
+    ])
+  })
+
+  it('rejects property access and anything outside the grammar', () => {
+    expect(tokenizeExpression('item.constructor').error).toBe('unexpected "." at position 5')
+    expect(tokenizeExpression('a[0]').error).toBe('unexpected "[" at position 2')
+    expect(tokenizeExpression('a = 1').error).toBe('unexpected "=" at position 3')
+  })
+})
+
+describe('validateComputedFields', () => {
+  it('accepts valid expressions, including computed inputs', () => {
+    expect(validateComputedFields(lineFields)).toEqual([])
+  })
+
+  it('reports unknown fields, unknown functions and self-references', () => {
+    expect(validateComputedFields([
+      { name: 'a', type: 'number', meta: { computed: 'missing + 1' } },
+      { name: 'b', type: 'number', meta: { computed: 'eval(a)' } },
+      { name: 'c', type: 'number', meta: { computed: 'c + 1' } }
+    ])).toEqual([
+      'Computed field "a" references unknown field "missing"',
+      'Computed field "b" calls unknown function "eval" (available: min, max, abs, floor, ceil, round, slugify, lower, upper, trim)',
+      'Computed field "c" references itself'
+    ])
+  })
+
+  it('reports cycles between computed fields', () => {
+    expect(validateComputedFields([
+      { name: 'a', type: 'number', meta: { computed: 'b + 1' } },
+      { name: 'b', type: 'number', meta: { computed: 'a + 1' } }
+    ])).toEqual(['Computed fields depend on each other in a cycle: a → b → a'])
+  })
+
+  it('rejects empty expressions and types that cannot be computed', () => {
+    expect(validateComputedFields([
+      { name: 'a', type: 'number', meta: { computed: ' ' } },
+      { name: 'b', type: 'json', meta: { computed: 'a' } }
+    ])).toEqual([
+      'Computed field "a" has no expression',
+      'Computed field "b" has type "json", which can\'t be computed'
+    ])
+  })
+})
+
+describe('computedFields', () => {
+  it('orders computed fields so inputs come first', () => {
+    expect(computedFields(lineFields).map(field => field.name)).toEqual(['subtotal', 'totalPrice'])
+    expect(computedFields(lineFields)[0]).toMatchObject({ stored: false, inputs: ['quantity', 'unitPrice'] })
+  })
+})
+
+describe('compileExpression', () => {
+  it('substitutes field reads and maps math functions', () => {
+    expect(compileExpression('max(quantity, 1) * unitPrice', name => `item.${name}`))
+      .toBe('Math.max(item.quantity, 1) * item.unitPrice')
+  })
+})
@@ -86,6 +86,14 @@ describe('DIALECTS', () => {
         expect(result).toBe("varchar('field', { length: 255 })")
       })
     })
+
+    describe('makeEnum', () => {
+      it('generates a typed varchar with a CHECK constraint', () => {
+        const result = pg.makeEnum({ name: 'status', type: 'enum', meta: { options: [{ value: 'draft' }, { value: 'published' }] } }, 'shop_products')
+        expect(result.column).toBe('varchar(\'status\', { enum: [\'draft\', \'published\'], length: 255 })')
+        expect(result.constraint).toBe('check(\'shop_products_status_check\', sql`${table.status} IN (\'draft\', \'published\')`)')
+      })
+    })
   })
 
   describe('sqlite', () => {
@@ -152,5 +160,13 @@ describe('DIALECTS', () => {
         expect(result).toBe("text('field')")
       })
     })
+
+    describe('makeEnum', () => {
+      it('generates a typed text column with a CHECK constraint', () => {
+        const result = sqlite.makeEnum({ name: 'orderStatus', type: 'enum', meta: { options: ['new', 'it\'s done'] } }, 'shop_orders')
+        expect(result.column).toBe('text(\'orderStatus\', { enum: [\'new\', \'it\\\'s done\'] })')
+        expect(result.constraint).toBe('check(\'shop_orders_order_status_check\', sql`${table.orderStatus} IN (\'new\', \'it\\\'s done\')`)')
+      })
+    })
   })
 })
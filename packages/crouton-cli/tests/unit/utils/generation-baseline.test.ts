@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  BASELINE_FILE,
+  readBaseline,
+  resolveGeneratedFile,
+  schemaChanges,
+  writeGeneratedFiles
+} from '../../../lib/utils/generation-baseline.ts'
+
+describe('resolveGeneratedFile', () => {
+  it('creates missing files and leaves identical ones alone', () => {
+    expect(resolveGeneratedFile(undefined, null, 'new')).toEqual({ status: 'created', content: 'new', conflicts: 0 })
+    expect(resolveGeneratedFile('old', 'new', 'new')).toEqual({ status: 'unchanged', content: null, conflicts: 0 })
+  })
+
+  it('replaces files nobody edited', () => {
+    expect(resolveGeneratedFile('old', 'old', 'new').status).toBe('updated')
+  })
+
+  it('keeps edited files when the generator output did not change', () => {
+    expect(resolveGeneratedFile('old', 'edited', 'old')).toEqual({ status: 'kept', content: null, conflicts: 0 })
+  })
+
+  it('overwrites edited files without a baseline or with merging disabled', () => {
+    expect(resolveGeneratedFile(undefined, 'edited', 'new').status).toBe('overwritten')
+    expect(resolveGeneratedFile('a\nb\nc\n', 'a\nB\nc\n', 'a\nb\nc\nd\n', false)).toEqual({ status: 'overwritten', content: 'a\nb\nc\nd\n', conflicts: 0 })
+  })
+
+  it('merges edits with generator changes', () => {
+    expect(resolveGeneratedFile('a\nb\nc\n', 'A\nb\nc\n', 'a\nb\nc\nd\n')).toEqual({ status: 'merged', content: 'A\nb\nc\nd\n', conflicts: 0 })
+    expect(resolveGeneratedFile('a\nb\n', 'a\nmine\n', 'a\ntheirs\n')).toMatchObject({ status: 'conflict', conflicts: 1 })
+  })
+})
+
+describe('schemaChanges', () => {
+  it('lists added, retyped and removed fields', () => {
+    expect(schemaChanges(
+      [{ name: 'title', type: 'string' }, { name: 'status', type: 'string' }, { name: 'legacy', type: 'text' }],
+      [{ name: 'title', type: 'string' }, { name: 'status', type: 'enum' }, { name: 'price', type: 'decimal' }]
+    )).toEqual(['~ status: string → enum', '+ price (decimal)', '- legacy'])
+  })
+})
+
+describe('writeGeneratedFiles', () => {
+  let base: string
+  beforeEach(async () => {
+    base = await mkdtemp(join(tmpdir(), 'crouton-baseline-'))
+  })
+  afterEach(async () => {
+    await rm(base, { recursive: true, force: true })
+  })
+
+  it('keeps hand edits across a schema change', async () => {
+    const form = join(base, 'app', 'components', '_Form.vue')
+    const first = await writeGeneratedFiles(base, [
+      { path: form, content: '<template>\n  <UInput v-model="title" />\n\n  <UButton />\n</template>\n' },
+      { path: join(base, 'types.ts'), content: 'export interface Item {}\n' }
+    ], { fields: [{ name: 'title', type: 'string' }] })
+    expect(first.hadBaseline).toBe(false)
+    expect(first.files.map(file => file.status)).toEqual(['created', 'created'])
+
+    await writeFile(form, '<template>\n  <UInput v-model="title" />\n\n  <UButton color="primary" />\n</template>\n')
+
+    const second = await writeGeneratedFiles(base, [
+      { path: form, content: '<template>\n  <UInput v-model="title" />\n  <UInput v-model="price" />\n\n  <UButton />\n</template>\n' }
+    ], { fields: [{ name: 'title', type: 'string' }, { name: 'price', type: 'decimal' }] })
+
+    expect(second.files).toEqual([{ path: 'app/components/_Form.vue', status: 'merged', conflicts: 0 }])
+    expect(second.schemaChanges).toEqual(['+ price (decimal)'])
+    expect(second.stale).toEqual(['types.ts'])
+    expect(await readFile(form, 'utf8')).toBe('<template>\n  <UInput v-model="title" />\n  <UInput v-model="price" />\n\n  <UButton color="primary" />\n</template>\n')
+
+    // The baseline is the pristine output, not the merged file
+    const baseline = await readBaseline(base)
+    expect(baseline?.files['app/components/_Form.vue']).toContain('<UButton />')
+    expect(baseline?.fields).toEqual([{ name: 'title', type: 'string' }, { name: 'price', type: 'decimal' }])
+    expect(JSON.parse(await readFile(join(base, BASELINE_FILE), 'utf8')).version).toBe(1)
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  TEMPLATE_GENERATORS,
+  ejectedTemplateSource,
+  loadGenerators,
+  resolveTemplateFiles
+} from '../../../lib/utils/generator-templates.ts'
+
+const builtins = {
+  generateFormComponent: (data: Record<string, any>) => `form:${data.pascalCase}`,
+  generateGetEndpoint: () => 'get',
+  generatePostEndpoint: () => 'post'
+}
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'crouton-templates-'))
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+describe('resolveTemplateFiles', () => {
+  it('finds <generator>.ts files in the default templates directory', async () => {
+    await mkdir(join(dir, 'templates'))
+    await writeFile(join(dir, 'templates', 'form.ts'), '')
+    await writeFile(join(dir, 'templates', 'notes.ts'), '')
+    expect([...resolveTemplateFiles(undefined, dir)]).toEqual([['form', join(dir, 'templates', 'form.ts')]])
+  })
+
+  it('takes a file per generator from the config', () => {
+    expect(resolveTemplateFiles({ list: './house/list.mjs' }, dir).get('list')).toBe(join(dir, 'house', 'list.mjs'))
+    expect(() => resolveTemplateFiles({ grid: './grid.ts' }, dir)).toThrow('Unknown generator "grid"')
+  })
+})
+
+describe('loadGenerators', () => {
+  it('keeps the built-ins without templates', async () => {
+    const { generators, overrides } = await loadGenerators(builtins, undefined, dir)
+    expect(generators.generateFormComponent({ pascalCase: 'Note' })).toBe('form:Note')
+    expect(overrides).toEqual([])
+  })
+
+  it('swaps in the exported functions and keeps the rest', async () => {
+    await mkdir(join(dir, 'templates'))
+    await writeFile(join(dir, 'templates', 'form.mjs'), 'export default (data, config) => `house:${data.pascalCase}:${config.dialect}`\n')
+    await writeFile(join(dir, 'templates', 'api.mjs'), 'export function generatePostEndpoint(data) { return `post:${data.fields.length}` }\n')
+
+    const { generators, overrides } = await loadGenerators(builtins, undefined, dir)
+    expect(generators.generateFormComponent({ pascalCase: 'Note' }, { dialect: 'sqlite' })).toBe('house:Note:sqlite')
+    expect(generators.generatePostEndpoint({ fields: [1, 2] })).toBe('post:2')
+    expect(generators.generateGetEndpoint()).toBe('get')
+    expect(overrides).toEqual(['form.generateFormComponent', 'api.generatePostEndpoint'])
+  })
+
+  it('rejects templates that export nothing usable or return no string', async () => {
+    await writeFile(join(dir, 'list.mjs'), 'export const nothing = 1\n')
+    await expect(loadGenerators(builtins, { list: './list.mjs' }, dir)).rejects.toThrow('exports none of generateListComponent')
+
+    await writeFile(join(dir, 'form.mjs'), 'export function generateFormComponent() { return 42 }\n')
+    const { generators } = await loadGenerators(builtins, { form: './form.mjs' }, dir)
+    expect(() => generators.generateFormComponent({})).toThrow('returned number, expected a string')
+  })
+})
+
+describe('ejectedTemplateSource', () => {
+  it('points the generator\'s own imports at the package and leaves the generated ones', () => {
+    const source = ejectedTemplateSource('list')
+    expect(source).toContain('from \'@fyit/crouton-cli/lib/utils/helpers.ts\'')
+    expect(source).not.toContain('from \'../utils/helpers.ts\'')
+    expect(source).toContain('from \'../composables/use${prefixedPascalCasePlural}\'')
+    expect(source).toContain('export function generateListComponent')
+  })
+
+  it('covers every overridable generator', () => {
+    for (const [generator, definition] of Object.entries(TEMPLATE_GENERATORS)) {
+      const source = ejectedTemplateSource(generator)
+      for (const name of definition.exports) expect(source).toContain(`export function ${name}(`)
+    }
+  })
+})
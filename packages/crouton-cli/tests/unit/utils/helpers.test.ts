@@ -4,6 +4,7 @@ import {
   toSnakeCase,
   toCase,
   mapType,
+  enumOptions,
   getSeedGenerator
 } from '../../../lib/utils/helpers.ts'
 import { seedTestFields } from '../../fixtures/sample-data.mjs'
@@ -142,6 +143,21 @@ describe('mapType', () => {
   })
 })
 
+describe('enumOptions', () => {
+  it('normalizes string and object options', () => {
+    expect(enumOptions(['draft', { value: 'in_review', color: 'warning' }, { value: 'done', label: 'Finished' }])).toEqual([
+      { value: 'draft', label: 'Draft' },
+      { value: 'in_review', label: 'In Review', color: 'warning' },
+      { value: 'done', label: 'Finished' }
+    ])
+  })
+
+  it('drops options without a value', () => {
+    expect(enumOptions(['', { label: 'Nothing' }, 'a'])).toEqual([{ value: 'a', label: 'A' }])
+    expect(enumOptions(undefined)).toEqual([])
+  })
+})
+
 describe('getSeedGenerator', () => {
   it('returns email generator for email fields', () => {
     expect(getSeedGenerator({ name: 'email', type: 'string' })).toBe('f.email()')
@@ -199,6 +215,11 @@ describe('getSeedGenerator', () => {
     expect(getSeedGenerator({ name: 'unknownField', type: 'date' })).toBe('f.date({ minDate: "2020-01-01", maxDate: "2025-12-31" })')
     expect(getSeedGenerator({ name: 'unknownField', type: 'json' })).toBe('f.valuesFromArray({ values: [{}] })')
   })
+
+  it('only seeds declared options for enum fields', () => {
+    const field = { name: 'status', type: 'enum', meta: { options: [{ value: 'draft', label: 'Draft' }, { value: 'live', label: 'Live' }] } }
+    expect(getSeedGenerator(field)).toBe('f.valuesFromArray({ values: ["draft","live"] })')
+  })
 })
 
 // typeMapping has been removed from helpers.mjs — it now lives in
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkConstraintValues,
+  defaultValue,
+  fieldTypesByFamily,
+  inferFieldType,
+  introspectCollections,
+  typeFamily
+} from '../../../lib/utils/introspect-schema.ts'
+import type { IntrospectedColumn, IntrospectedTable } from '../../../lib/utils/introspect-schema.ts'
+
+// The `db` types of crouton-core's field types, in manifest order
+const fieldTypes = {
+  string: { db: 'VARCHAR(255)' },
+  text: { db: 'TEXT' },
+  number: { db: 'INTEGER' },
+  decimal: { db: 'DECIMAL(10,2)' },
+  enum: { db: 'VARCHAR(255)' },
+  boolean: { db: 'BOOLEAN' },
+  date: { db: 'TIMESTAMP' },
+  json: { db: 'JSON' },
+  array: { db: 'TEXT' },
+  reference: { db: 'VARCHAR(255)' },
+  references: { db: 'JOIN TABLE' }
+}
+const autoGeneratedFields = ['id', 'teamId', 'owner', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy']
+const byFamily = fieldTypesByFamily(fieldTypes)
+
+function column(name: string, type: string, extra: Partial<IntrospectedColumn> = {}): IntrospectedColumn {
+  return { name, type, notNull: false, defaultValue: null, primaryKey: false, unique: false, ...extra }
+}
+
+describe('typeFamily', () => {
+  it('folds database spellings onto the manifest base types', () => {
+    expect(typeFamily('varchar(120)')).toBe('VARCHAR')
+    expect(typeFamily('character varying(40)')).toBe('VARCHAR')
+    expect(typeFamily('int8')).toBe('INTEGER')
+    expect(typeFamily('numeric(12,4)')).toBe('DECIMAL')
+    expect(typeFamily('timestamp with time zone')).toBe('TIMESTAMP')
+    expect(typeFamily('jsonb')).toBe('JSON')
+    expect(typeFamily('text[]')).toBe('ARRAY')
+  })
+})
+
+describe('inferFieldType', () => {
+  it('takes the first field type declaring the base type', () => {
+    expect(inferFieldType(column('title', 'character varying(80)'), byFamily)).toBe('string')
+    expect(inferFieldType(column('body', 'text'), byFamily)).toBe('text')
+    expect(inferFieldType(column('price', 'numeric(10,2)'), byFamily)).toBe('decimal')
+    expect(inferFieldType(column('payload', 'jsonb'), byFamily)).toBe('json')
+    expect(inferFieldType(column('blob', 'bytea'), byFamily)).toBe('string')
+  })
+
+  it('reads integer booleans and dates from the column name', () => {
+    expect(inferFieldType(column('is_active', 'INTEGER'), byFamily)).toBe('boolean')
+    expect(inferFieldType(column('published_at', 'INTEGER'), byFamily)).toBe('date')
+    expect(inferFieldType(column('issues', 'INTEGER'), byFamily)).toBe('number')
+  })
+
+  it('treats SQLite TEXT as a short string unless the name says otherwise', () => {
+    expect(inferFieldType(column('email', 'TEXT'), byFamily, true)).toBe('string')
+    expect(inferFieldType(column('description', 'TEXT'), byFamily, true)).toBe('text')
+  })
+
+  it('prefers enum values over the declared type', () => {
+    expect(inferFieldType(column('status', 'TEXT', { enumValues: ['draft', 'live'] }), byFamily)).toBe('enum')
+  })
+})
+
+describe('defaultValue', () => {
+  it('parses literals and skips expressions', () => {
+    expect(defaultValue('\'draft\'::character varying', 'enum')).toBe('draft')
+    expect(defaultValue('\'it\'\'s\'', 'string')).toBe('it\'s')
+    expect(defaultValue('1', 'boolean')).toBe(true)
+    expect(defaultValue('0.5', 'decimal')).toBe(0.5)
+    expect(defaultValue('now()', 'date')).toBeUndefined()
+    expect(defaultValue('CURRENT_TIMESTAMP', 'date')).toBeUndefined()
+  })
+})
+
+describe('checkConstraintValues', () => {
+  it('reads the values of an IN check', () => {
+    const sql = 'CREATE TABLE orders (status TEXT NOT NULL CHECK ("status" IN (\'draft\', \'paid\')))'
+    expect(checkConstraintValues(sql, 'status')).toEqual(['draft', 'paid'])
+    expect(checkConstraintValues(sql, 'total')).toBeUndefined()
+  })
+})
+
+describe('introspectCollections', () => {
+  const tables: IntrospectedTable[] = [
+    {
+      name: 'customers',
+      columns: [
+        column('customer_id', 'INTEGER', { primaryKey: true }),
+        column('full_name', 'VARCHAR(120)', { notNull: true }),
+        column('email', 'VARCHAR(255)', { unique: true }),
+        column('created_at', 'INTEGER')
+      ],
+      foreignKeys: []
+    },
+    {
+      name: 'order_items',
+      columns: [
+        column('id', 'TEXT', { primaryKey: true }),
+        column('customer_id', 'INTEGER', { notNull: true }),
+        column('warehouse_id', 'INTEGER')
+      ],
+      foreignKeys: [
+        { column: 'customer_id', table: 'customers' },
+        { column: 'warehouse_id', table: 'warehouses' }
+      ]
+    },
+    {
+      name: 'tags',
+      columns: [column('id', 'INTEGER', { primaryKey: true }), column('label', 'TEXT')],
+      foreignKeys: []
+    },
+    {
+      name: 'customer_tags',
+      columns: [
+        column('customer_id', 'INTEGER', { primaryKey: true }),
+        column('tag_id', 'INTEGER', { primaryKey: true })
+      ],
+      // SQLite lists them last-declared first
+      foreignKeys: [
+        { column: 'tag_id', table: 'tags' },
+        { column: 'customer_id', table: 'customers' }
+      ]
+    }
+  ]
+  const collections = introspectCollections(tables, { fieldTypes, autoGeneratedFields, sqlite: true })
+
+  it('writes one collection per table, named in camelCase', () => {
+    expect(collections.map(collection => collection.collection)).toEqual(['customers', 'orderItems', 'tags'])
+  })
+
+  it('leaves out the primary key and the fields crouton adds', () => {
+    const customers = collections.find(collection => collection.table === 'customers')!
+    expect(Object.keys(customers.schema)).toEqual(['fullName', 'email', 'tags'])
+    expect(customers.schema.fullName).toEqual({ type: 'string', meta: { required: true, maxLength: 120 } })
+    expect(customers.schema.email!.meta).toEqual({ unique: true })
+    expect(customers.warnings[0]).toContain('customer_id: primary key left out')
+  })
+
+  it('turns foreign keys into reference fields', () => {
+    const items = collections.find(collection => collection.table === 'order_items')!
+    expect(items.schema.customerId).toEqual({ type: 'reference', meta: { required: true }, refTarget: 'customers' })
+    expect(items.schema.warehouseId!.refTarget).toBe('warehouses')
+    expect(items.warnings.some(warning => warning.includes('references warehouses, which isn\'t introspected'))).toBe(true)
+  })
+
+  it('turns a join table into a references field on its first table', () => {
+    const customers = collections.find(collection => collection.table === 'customers')!
+    expect(customers.schema.tags).toEqual({ type: 'references', meta: {}, refTarget: 'tags' })
+  })
+})
@@ -2,7 +2,7 @@ import { describe, it, expect } from 'vitest'
 import { mkdtemp, writeFile, rm } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
-import { loadFields } from '../../../lib/utils/load-fields.ts'
+import { loadFields, loadRowPolicies } from '../../../lib/utils/load-fields.ts'
 
 // Mirrors the shape getTypeMapping() produces: alias keys carry the canonical
 // type via `canonical`, so loadFields can normalize them (#285).
@@ -13,6 +13,8 @@ const typeMapping = {
   // aliases — same def as their canonical, with canonical pointing back
   integer: { db: '', drizzle: '', zod: 'z.number()', default: '0', tsType: 'number', canonical: 'number' },
   datetime: { db: '', drizzle: '', zod: 'z.date()', default: 'null', tsType: 'Date | null', canonical: 'date' },
+  enum: { db: '', drizzle: '', zod: 'z.enum([])', default: 'null', tsType: 'string', canonical: 'enum' },
+  select: { db: '', drizzle: '', zod: 'z.enum([])', default: 'null', tsType: 'string', canonical: 'enum' },
 }
 
 async function loadFromSchema(schema: Record<string, unknown>) {
@@ -48,3 +50,78 @@ describe('loadFields alias resolution (#285)', () => {
     expect(byName.weird.type).toBe('string') // unknown → string fallback
   })
 })
+
+describe('loadFields enum fields', () => {
+  it('builds the zod enum, TS union and default from the options', async () => {
+    const byName = await loadFromSchema({
+      status: { type: 'enum', meta: { default: 'draft', options: ['draft', { value: 'in_review', color: 'warning' }] } }
+    })
+    expect(byName.status.type).toBe('enum')
+    expect(byName.status.zod).toBe('z.enum([\'draft\', \'in_review\'])')
+    expect(byName.status.tsType).toBe('\'draft\' | \'in_review\'')
+    expect(byName.status.default).toBe('\'draft\'')
+    expect(byName.status.meta.options).toEqual([
+      { value: 'draft', label: 'Draft' },
+      { value: 'in_review', label: 'In Review', color: 'warning' }
+    ])
+  })
+
+  it('resolves the `select` alias and defaults to null', async () => {
+    const byName = await loadFromSchema({ size: { type: 'select', meta: { options: ['s', 'm'] } } })
+    expect(byName.size.type).toBe('enum')
+    expect(byName.size.default).toBe('null')
+  })
+
+  it('rejects an enum without options', async () => {
+    await expect(loadFromSchema({ status: { type: 'enum' } })).rejects.toThrow('Enum field "status" needs at least one option')
+  })
+})
+
+describe('loadFields computed fields', () => {
+  it('rejects expressions that read unknown fields', async () => {
+    await expect(loadFromSchema({
+      price: { type: 'number' },
+      total: { type: 'number', meta: { computed: 'price * qty' } }
+    })).rejects.toThrow('Computed field "total" references unknown field "qty"')
+  })
+})
+
+describe('loadFields validation rules', () => {
+  it('rejects rules that do not fit the field', async () => {
+    await expect(loadFromSchema({
+      title: { type: 'string', meta: { format: 'phone' } }
+    })).rejects.toThrow('Field "title" has unknown format "phone"')
+  })
+})
+
+describe('loadRowPolicies', () => {
+  async function loadPolicies(schema: Record<string, unknown>) {
+    const dir = await mkdtemp(join(tmpdir(), 'crouton-policies-'))
+    const p = join(dir, 'schema.json')
+    await writeFile(p, JSON.stringify(schema))
+    try {
+      const fields = await loadFields(p, typeMapping as any)
+      return { fields, policies: await loadRowPolicies(p, fields) }
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  it('reads $policies in the keyed format without taking it for a field', async () => {
+    const policy = { roles: ['member'], where: { title: 'public' } }
+    const { fields, policies } = await loadPolicies({ title: { type: 'string' }, $policies: [policy] })
+    expect(fields.map(f => f.name)).toEqual(['title'])
+    expect(policies).toEqual([policy])
+  })
+
+  it('reads policies in the array format', async () => {
+    const policy = { token: 'order', where: { id: '$token.resourceId' } }
+    const { policies } = await loadPolicies({ name: 'orders', fields: [{ name: 'title', type: 'string' }], policies: [policy] })
+    expect(policies).toEqual([policy])
+  })
+
+  it('rejects policies on unknown fields', async () => {
+    await expect(loadPolicies({ title: { type: 'string' }, $policies: [{ where: { status: 'open' } }] }))
+      .rejects.toThrow('Policy 1 "status": unknown field "status"')
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { policyConditions, policyTokenTypes, schemaPolicies, validateRowPolicies } from '../../../lib/utils/row-policies.ts'
+
+const fields = [
+  { name: 'title', type: 'string' },
+  { name: 'status', type: 'string' },
+  { name: 'location', type: 'string', refTarget: 'locations' },
+  { name: 'contact', type: 'string', refTarget: 'users', refScope: 'external' },
+  { name: 'tags', type: 'array', refTarget: 'tags' },
+  { name: 'label', type: 'string', meta: { computed: { expression: 'upper(title)', stored: false } } }
+]
+
+describe('schemaPolicies', () => {
+  it('reads $policies from keyed schemas and policies from array schemas', () => {
+    expect(schemaPolicies({ title: { type: 'string' }, $policies: [] })).toEqual([])
+    expect(schemaPolicies({ fields: [], policies: [] })).toEqual([])
+    expect(schemaPolicies({ title: { type: 'string' } })).toBeUndefined()
+  })
+})
+
+describe('policyConditions', () => {
+  it('splits paths through references and defaults to equality', () => {
+    expect(policyConditions({
+      where: { 'location.allowedMemberIds': { contains: '$member.id' }, 'status': 'open' }
+    })).toEqual([
+      { field: 'location', target: 'allowedMemberIds', op: 'contains', value: '$member.id' },
+      { field: 'status', op: 'eq', value: 'open' }
+    ])
+  })
+})
+
+describe('policyTokenTypes', () => {
+  it('lists each token resource type once', () => {
+    expect(policyTokenTypes([
+      { token: 'order', where: { id: '$token.resourceId' } },
+      { roles: ['member'], where: { status: 'open' } },
+      { token: 'order', where: { status: 'open' } }
+    ])).toEqual(['order'])
+  })
+})
+
+describe('validateRowPolicies', () => {
+  it('accepts role, token and catch-all member policies', () => {
+    expect(validateRowPolicies([
+      { roles: ['member', 'volunteer'], where: { 'location.allowedMemberIds': { contains: '$member.id' } } },
+      { roles: ['member'], where: { 'location.allowedMemberIds': { empty: true } } },
+      { token: 'order', where: { id: '$token.resourceId', status: { in: ['open', 'paid'] } } },
+      { where: { owner: '$user.id', status: { ne: null } } }
+    ], fields)).toEqual([])
+    expect(validateRowPolicies(undefined, fields)).toEqual([])
+  })
+
+  it('checks who a policy applies to', () => {
+    expect(validateRowPolicies({}, fields)).toEqual(['Row policies must be a list'])
+    expect(validateRowPolicies([
+      { roles: ['member'], token: 'order', where: { status: 'open' } },
+      { roles: [], where: { status: 'open' } },
+      { where: {} }
+    ], fields)).toEqual([
+      'Policy 1: use either roles or token, not both',
+      'Policy 2: roles must be a non-empty list of role keys',
+      'Policy 3: where needs at least one condition'
+    ])
+  })
+
+  it('only reads columns, through one local reference at most', () => {
+    expect(validateRowPolicies([{
+      where: {
+        'missing': 'x',
+        'label': 'x',
+        'contact.email': 'x',
+        'tags.name': 'x',
+        'location.region.name': 'x'
+      }
+    }], fields)).toEqual([
+      'Policy 1 "missing": unknown field "missing"',
+      'Policy 1 "label": virtual fields have no column to filter on',
+      'Policy 1 "contact.email": "contact" is not a reference to a single row of another collection',
+      'Policy 1 "tags.name": "tags" is not a reference to a single row of another collection',
+      'Policy 1 "location.region.name": conditions can only go through one reference'
+    ])
+  })
+
+  it('checks operators and the requester values known to each kind of policy', () => {
+    expect(validateRowPolicies([
+      { roles: ['member'], where: { status: { like: 'x' }, title: { eq: 'a', ne: 'b' } } },
+      { roles: ['member'], where: { status: '$token.resourceId', title: { in: [] } } },
+      { token: 'order', where: { owner: '$user.id', title: { empty: 'yes' }, status: '$team.id' } }
+    ], fields)).toEqual([
+      'Policy 1 "status": unknown operator "like" (eq, ne, in, contains, empty)',
+      'Policy 1 "title": give exactly one operator (eq, ne, in, contains, empty)',
+      'Policy 2 "status": $token.resourceId is only known for token holders',
+      'Policy 2 "title": in takes a non-empty list',
+      'Policy 3 "owner": $user.id is only known for members, not for token holders',
+      'Policy 3 "title": empty takes true or false',
+      'Policy 3 "status": unknown value "$team.id" ($user.id, $member.id, $role, $token.resourceId, $token.role)'
+    ])
+  })
+})
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest'
+import {
+  desiredColumns,
+  diffTable,
+  migrationStatements,
+  parseRenames,
+  typeAffinity,
+  updatedAtPrecisionStatements
+} from '../../../lib/utils/schema-diff.ts'
+import type { LiveTable } from '../../../lib/utils/schema-diff.ts'
+
+const live: LiveTable = {
+  name: 'shop_products',
+  columns: [
+    { name: 'id', type: 'text', notNull: true, defaultValue: null },
+    { name: 'teamId', type: 'text', notNull: true, defaultValue: null },
+    { name: 'name', type: 'text', notNull: true, defaultValue: null },
+    { name: 'price', type: 'text', notNull: false, defaultValue: null },
+    { name: 'legacy', type: 'integer', notNull: false, defaultValue: null }
+  ],
+  indexes: [{ name: 'shop_products_team_name_idx', unique: true, columns: ['teamId', 'name'] }]
+}
+
+const fields = [
+  { name: 'title', type: 'string', meta: { required: true } },
+  { name: 'price', type: 'decimal', meta: {} },
+  { name: 'stock', type: 'number', meta: { required: true, default: 5 } },
+  { name: 'status', type: 'enum', meta: { options: [{ value: 'draft', label: 'Draft' }, { value: 'live', label: 'Live' }] } }
+]
+
+describe('desiredColumns', () => {
+  it('maps fields to SQLite columns like generateSchema()', () => {
+    const columns = desiredColumns([
+      ...fields,
+      { name: 'tagIds', type: 'references', meta: {} },
+      { name: 'total', type: 'decimal', meta: { computed: { expression: 'price * 2', stored: false } } },
+      { name: 'createdAt', type: 'date', meta: {} }
+    ])
+    expect(columns.map(column => [column.name, column.sqlType, column.notNull, column.backfill])).toEqual([
+      ['title', 'TEXT', true, '\'\''],
+      ['price', 'REAL', false, '0'],
+      ['stock', 'INTEGER', true, '5'],
+      ['status', 'TEXT', false, '\'\'']
+    ])
+    expect(columns[3]!.options).toEqual(['draft', 'live'])
+  })
+})
+
+describe('typeAffinity', () => {
+  it('follows the SQLite affinity rules', () => {
+    expect(typeAffinity('integer')).toBe('INTEGER')
+    expect(typeAffinity('varchar(20)')).toBe('TEXT')
+    expect(typeAffinity('real')).toBe('REAL')
+    expect(typeAffinity('numeric')).toBe('NUMERIC')
+    expect(typeAffinity('')).toBe('BLOB')
+  })
+})
+
+describe('parseRenames', () => {
+  it('reads scoped and unscoped pairs', () => {
+    expect(parseRenames('name:title, products.sku:code')).toEqual([
+      { scope: null, from: 'name', to: 'title' },
+      { scope: 'products', from: 'sku', to: 'code' }
+    ])
+    expect(parseRenames(undefined)).toEqual([])
+    expect(() => parseRenames('name')).toThrow('Invalid --rename "name"')
+  })
+})
+
+describe('diffTable', () => {
+  it('never renames on a guess, but reports likely renames', () => {
+    const diff = diffTable(live, desiredColumns(fields))
+    expect(diff.changes.map(change => change.kind)).toEqual(['retype', 'add', 'add', 'add', 'drop', 'drop'])
+    expect(diff.renameCandidates).toEqual([
+      { from: 'name', to: 'title' },
+      { from: 'legacy', to: 'stock' }
+    ])
+  })
+
+  it('renames confirmed columns and checks their type under the new name', () => {
+    const diff = diffTable(live, desiredColumns(fields), { name: 'title' })
+    expect(diff.changes[0]).toEqual({ kind: 'rename', from: 'name', to: 'title' })
+    expect(diff.changes.some(change => change.kind === 'add' && change.column.name === 'title')).toBe(false)
+    expect(diff.changes.some(change => change.kind === 'drop' && change.live.name === 'name')).toBe(false)
+  })
+
+  it('ignores system columns and matching columns', () => {
+    const diff = diffTable(live, desiredColumns([
+      { name: 'name', type: 'string', meta: { required: true } },
+      { name: 'price', type: 'string', meta: {} },
+      { name: 'legacy', type: 'number', meta: {} }
+    ]))
+    expect(diff.changes).toEqual([])
+  })
+})
+
+describe('migrationStatements', () => {
+  it('writes the migration and its rollback', () => {
+    const diff = diffTable(live, desiredColumns(fields), { name: 'title', legacy: 'stock' })
+    const { up, down, warnings } = migrationStatements(live, diff)
+
+    expect(up).toEqual([
+      'ALTER TABLE "shop_products" RENAME COLUMN "name" TO "title";',
+      'ALTER TABLE "shop_products" RENAME COLUMN "legacy" TO "stock";',
+      '-- shop_products.price: text → REAL',
+      'ALTER TABLE "shop_products" ADD COLUMN "price__crouton_migrate" REAL;',
+      'UPDATE "shop_products" SET "price__crouton_migrate" = CAST("price" AS REAL);',
+      'ALTER TABLE "shop_products" DROP COLUMN "price";',
+      'ALTER TABLE "shop_products" RENAME COLUMN "price__crouton_migrate" TO "price";',
+      '-- shop_products.stock: integer → INTEGER NOT NULL',
+      'ALTER TABLE "shop_products" ADD COLUMN "stock__crouton_migrate" INTEGER NOT NULL DEFAULT 5;',
+      'UPDATE "shop_products" SET "stock__crouton_migrate" = COALESCE("stock", 5);',
+      'ALTER TABLE "shop_products" DROP COLUMN "stock";',
+      'ALTER TABLE "shop_products" RENAME COLUMN "stock__crouton_migrate" TO "stock";',
+      'ALTER TABLE "shop_products" ADD COLUMN "status" TEXT CHECK ("status" IN (\'draft\', \'live\'));'
+    ])
+    expect(down).toEqual([
+      'ALTER TABLE "shop_products" DROP COLUMN "status";',
+      'ALTER TABLE "shop_products" ADD COLUMN "stock__crouton_migrate" INTEGER;',
+      'UPDATE "shop_products" SET "stock__crouton_migrate" = "stock";',
+      'ALTER TABLE "shop_products" DROP COLUMN "stock";',
+      'ALTER TABLE "shop_products" RENAME COLUMN "stock__crouton_migrate" TO "stock";',
+      'ALTER TABLE "shop_products" ADD COLUMN "price__crouton_migrate" TEXT;',
+      'UPDATE "shop_products" SET "price__crouton_migrate" = CAST("price" AS TEXT);',
+      'ALTER TABLE "shop_products" DROP COLUMN "price";',
+      'ALTER TABLE "shop_products" RENAME COLUMN "price__crouton_migrate" TO "price";',
+      'ALTER TABLE "shop_products" RENAME COLUMN "stock" TO "legacy";',
+      'ALTER TABLE "shop_products" RENAME COLUMN "title" TO "name";'
+    ])
+    expect(warnings).toEqual([
+      'shop_products.price changes from text to REAL: values that don\'t convert become 0. Check the data first.'
+    ])
+  })
+
+  it('backfills new NOT NULL columns and warns about implicit values', () => {
+    const diff = diffTable(live, desiredColumns([
+      { name: 'name', type: 'string', meta: { required: true } },
+      { name: 'publishedAt', type: 'date', meta: { required: true } },
+      { name: 'sku', type: 'string', meta: { unique: true } }
+    ]))
+    const { up, warnings } = migrationStatements(live, diff)
+    expect(up).toContain('ALTER TABLE "shop_products" ADD COLUMN "publishedAt" INTEGER NOT NULL DEFAULT 0;')
+    expect(up).toContain('CREATE UNIQUE INDEX IF NOT EXISTS "shop_products_team_sku_idx" ON "shop_products" ("teamId", "sku");')
+    expect(warnings).toContain('shop_products.publishedAt is NOT NULL: existing rows get 0. Set "default" in the schema to choose the value.')
+  })
+
+  it('keeps removed columns unless drops are allowed', () => {
+    const diff = diffTable(live, desiredColumns([
+      { name: 'price', type: 'string', meta: {} },
+      { name: 'legacy', type: 'number', meta: {} }
+    ]))
+    const kept = migrationStatements(live, diff)
+    expect(kept.up).toEqual([
+      '-- shop_products.name is no longer in the schema; kept. Uncomment to drop it (and its data):',
+      '-- DROP INDEX IF EXISTS "shop_products_team_name_idx";',
+      '-- ALTER TABLE "shop_products" DROP COLUMN "name";'
+    ])
+    expect(kept.down).toEqual([])
+
+    const dropped = migrationStatements(live, diff, { allowDrop: true })
+    expect(dropped.up).toEqual([
+      'DROP INDEX IF EXISTS "shop_products_team_name_idx";',
+      'ALTER TABLE "shop_products" DROP COLUMN "name";'
+    ])
+    expect(dropped.down).toEqual([
+      '-- shop_products.name comes back empty: dropping it lost its data',
+      'ALTER TABLE "shop_products" ADD COLUMN "name" TEXT NOT NULL DEFAULT \'\';',
+      'CREATE UNIQUE INDEX IF NOT EXISTS "shop_products_team_name_idx" ON "shop_products" ("teamId", "name");'
+    ])
+  })
+
+  it('casts text dates to timestamps', () => {
+    const table: LiveTable = { name: 'blog_posts', columns: [{ name: 'publishedAt', type: 'text', notNull: false, defaultValue: null }], indexes: [] }
+    const { up } = migrationStatements(table, diffTable(table, desiredColumns([{ name: 'publishedAt', type: 'date', meta: {} }])))
+    expect(up).toContain('UPDATE "blog_posts" SET "publishedAt__crouton_migrate" = CAST(strftime(\'%s\', "publishedAt") AS INTEGER);')
+  })
+})
+
+describe('updatedAtPrecisionStatements', () => {
+  it('moves second timestamps to milliseconds and back, skipping converted rows', () => {
+    expect(updatedAtPrecisionStatements('shop_products')).toEqual({
+      up: ['UPDATE "shop_products" SET "updatedAt" = "updatedAt" * 1000 WHERE "updatedAt" < 100000000000;'],
+      down: ['UPDATE "shop_products" SET "updatedAt" = "updatedAt" / 1000 WHERE "updatedAt" >= 100000000000;'],
+      warnings: []
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { diffHunks, threeWayMerge } from '../../../lib/utils/three-way-merge.ts'
+
+const lines = (...items: string[]) => `${items.join('\n')}\n`
+
+describe('diffHunks', () => {
+  it('returns nothing for identical input', () => {
+    expect(diffHunks(['a', 'b'], ['a', 'b'])).toEqual([])
+  })
+
+  it('reports insertions, deletions and replacements against the base', () => {
+    expect(diffHunks(['a', 'b', 'c'], ['a', 'x', 'b'])).toEqual([
+      { baseStart: 1, baseEnd: 1, sideStart: 1, sideEnd: 2 },
+      { baseStart: 2, baseEnd: 3, sideStart: 3, sideEnd: 3 }
+    ])
+    expect(diffHunks(['a', 'b', 'c'], ['a', 'B', 'c'])).toEqual([
+      { baseStart: 1, baseEnd: 2, sideStart: 1, sideEnd: 2 }
+    ])
+  })
+})
+
+describe('threeWayMerge', () => {
+  const base = lines('import a', '', 'const title = ref()', 'const body = ref()', '', 'export default {}')
+
+  it('takes changes made on one side only', () => {
+    const ours = base.replace('export default {}', 'export default { name: \'edited\' }')
+    const theirs = base.replace('const title = ref()', 'const title = ref()\nconst price = ref()')
+    expect(threeWayMerge(base, ours, base).text).toBe(ours)
+    expect(threeWayMerge(base, base, theirs).text).toBe(theirs)
+
+    const result = threeWayMerge(base, ours, theirs)
+    expect(result.conflicts).toBe(0)
+    expect(result.text).toBe(lines('import a', '', 'const title = ref()', 'const price = ref()', 'const body = ref()', '', 'export default { name: \'edited\' }'))
+  })
+
+  it('keeps identical changes made on both sides', () => {
+    const changed = base.replace('import a', 'import b')
+    expect(threeWayMerge(base, changed, changed)).toEqual({ text: changed, conflicts: 0 })
+  })
+
+  it('writes conflict markers only where both sides changed the same lines', () => {
+    const ours = base
+      .replace('import a', 'import a\nimport mine')
+      .replace('const body = ref()', 'const body = ref(1)')
+    const theirs = base.replace('const body = ref()', 'const body = ref(2)')
+    const result = threeWayMerge(base, ours, theirs, { ours: 'yours', theirs: 'generated' })
+    expect(result.conflicts).toBe(1)
+    expect(result.text).toBe(lines(
+      'import a',
+      'import mine',
+      '',
+      'const title = ref()',
+      '<<<<<<< yours',
+      'const body = ref(1)',
+      '=======',
+      'const body = ref(2)',
+      '>>>>>>> generated',
+      '',
+      'export default {}'
+    ))
+  })
+
+  it('treats changes to adjacent lines as a conflict', () => {
+    const ours = base.replace('const title = ref()', 'const title = ref(\'a\')')
+    const theirs = base.replace('const body = ref()', 'const body = ref(\'b\')')
+    const result = threeWayMerge(base, ours, theirs)
+    expect(result.conflicts).toBe(1)
+    expect(result.text).toContain('<<<<<<< ours\nconst title = ref(\'a\')\nconst body = ref()\n=======\nconst title = ref()\nconst body = ref(\'b\')\n>>>>>>> theirs')
+  })
+
+  it('handles deletions next to insertions', () => {
+    const ours = base.replace('export default {}', '')
+    const theirs = base.replace('import a', 'import a\nimport z')
+    const result = threeWayMerge(base, ours, theirs)
+    expect(result.conflicts).toBe(0)
+    expect(result.text).toBe(lines('import a', 'import z', '', 'const title = ref()', 'const body = ref()', '', ''))
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { applyFieldRules, refineRules, uniqueFieldNames, validateFieldRules } from '../../../lib/utils/validation-rules.ts'
+
+describe('applyFieldRules', () => {
+  it('adds length bounds and patterns to text, keeping empty optional values valid', () => {
+    expect(applyFieldRules({ name: 'code', type: 'string', meta: { min: 2, pattern: '^[A-Z]+$' } }, 'z.string()'))
+      .toBe('z.string().min(2, \'code must be at least 2 characters\').regex(new RegExp(\'^[A-Z]+$\'), \'code has an invalid format\').or(z.literal(\'\'))')
+  })
+
+  it('uses maxLength as the maximum length', () => {
+    expect(applyFieldRules({ name: 'title', type: 'string', meta: { required: true, maxLength: 200 } }, 'z.string()'))
+      .toBe('z.string().max(200, \'title must be at most 200 characters\')')
+  })
+
+  it('replaces the base type for formats', () => {
+    expect(applyFieldRules({ name: 'email', type: 'string', meta: { required: true, format: 'email' } }, 'z.string()'))
+      .toBe('z.email(\'email must be a valid email address\')')
+  })
+
+  it('bounds numbers and dates', () => {
+    expect(applyFieldRules({ name: 'seats', type: 'number', meta: { min: 1, max: 10 } }, 'z.number()'))
+      .toBe('z.number().min(1, \'seats must be at least 1\').max(10, \'seats must be at most 10\')')
+    expect(applyFieldRules({ name: 'startDate', type: 'date', meta: { min: '2025-01-01' } }, 'z.coerce.date()'))
+      .toBe('z.coerce.date().min(new Date(\'2025-01-01T00:00:00.000Z\'), \'startDate must be on or after 2025-01-01\')')
+  })
+
+  it('prefers custom messages', () => {
+    expect(applyFieldRules({ name: 'pin', type: 'string', meta: { required: true, pattern: '^\\d{4}$', messages: { pattern: 'Use 4 digits, don\'t use letters' } } }, 'z.string()'))
+      .toBe('z.string().regex(new RegExp(\'^\\\\d{4}$\'), \'Use 4 digits, don\\\'t use letters\')')
+  })
+})
+
+describe('validateFieldRules', () => {
+  const fields = [
+    { name: 'startDate', type: 'date' },
+    { name: 'endDate', type: 'date', meta: { refine: { expression: 'endDate > startDate', message: 'End after start' } } }
+  ]
+
+  it('accepts valid rules', () => {
+    expect(validateFieldRules(fields)).toEqual([])
+  })
+
+  it('reports rules that do not fit the field', () => {
+    expect(validateFieldRules([
+      { name: 'active', type: 'boolean', meta: { min: 1 } },
+      { name: 'seats', type: 'number', meta: { min: 10, max: 1 } },
+      { name: 'code', type: 'string', meta: { pattern: '(' } },
+      { name: 'email', type: 'string', meta: { format: 'phone', messages: { length: 'x' } } }
+    ])).toEqual([
+      'Field "active" has "min", which only applies to string, text, number, decimal and date fields',
+      'Field "seats" has "min" greater than "max"',
+      expect.stringContaining('Field "code" has an invalid pattern'),
+      'Field "email" has unknown format "phone" (available: email, url, uuid)',
+      'Field "email" has a message for unknown rule "length"'
+    ])
+  })
+
+  it('reports refine rules that read unknown or computed fields', () => {
+    expect(validateFieldRules([
+      { name: 'total', type: 'number', meta: { computed: 'seats * 2' } },
+      { name: 'seats', type: 'number', meta: { refine: ['seats < total', 'seats < limit'] } }
+    ])).toEqual([
+      'Field "seats": refine rule "seats < total" reads computed field "total"',
+      'Field "seats": refine rule "seats < limit" references unknown field "limit"'
+    ])
+  })
+})
+
+describe('refineRules', () => {
+  it('normalizes strings and objects, with a default message', () => {
+    expect(refineRules([
+      { name: 'startDate', type: 'date' },
+      { name: 'endDate', type: 'date', meta: { refine: ['endDate > startDate', { expression: 'endDate != null', message: 'Pick an end date' }] } }
+    ])).toEqual([
+      { field: 'endDate', expression: 'endDate > startDate', message: 'endDate must satisfy endDate > startDate', inputs: ['endDate', 'startDate'] },
+      { field: 'endDate', expression: 'endDate != null', message: 'Pick an end date', inputs: ['endDate'] }
+    ])
+  })
+})
+
+describe('uniqueFieldNames', () => {
+  it('skips virtual fields', () => {
+    expect(uniqueFieldNames([
+      { name: 'slug', type: 'string', meta: { unique: true } },
+      { name: 'label', type: 'string', meta: { unique: true, computed: { expression: 'slug', stored: false } } }
+    ])).toEqual(['slug'])
+  })
+})
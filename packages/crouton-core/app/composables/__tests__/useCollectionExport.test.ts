@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { ref, computed, reactive } from 'vue'
 import { createUseTMock, sampleRows } from './test-utils'
+import useDisplayConfig from '../useDisplayConfig'
 
 // Mock route
 const mockRoute = {
@@ -17,6 +18,18 @@ const mockCollectionsConfig: Record<string, any> = {
   },
   posts: {
     layer: 'blog'
+  },
+  orders: {
+    layer: 'shop',
+    apiPath: 'shop-orders',
+    references: { customerId: 'customers' },
+    fields: [
+      { name: 'reference', type: 'string', label: 'Order reference' },
+      { name: 'customerId', type: 'string', label: 'Customer' },
+      { name: 'total', type: 'decimal', label: 'Total' },
+      { name: 'paid', type: 'boolean', label: 'Paid' }
+    ],
+    display: { title: 'reference' }
   }
 }
 
@@ -39,8 +52,9 @@ const mockClick = vi.fn()
 const mockAppendChild = vi.fn()
 const mockRemoveChild = vi.fn()
 
-// Store created links for inspection
+// Store created links and blobs for inspection
 let lastCreatedLink: HTMLAnchorElement | null = null
+let lastBlob: { parts: any[], options: any } | null = null
 
 // Set up global mocks
 vi.stubGlobal('ref', ref)
@@ -80,9 +94,10 @@ vi.stubGlobal('URL', {
 vi.stubGlobal('Blob', class MockBlob {
   content: string
   options: any
-  constructor(content: string[], options?: any) {
+  constructor(content: any[], options?: any) {
     this.content = content.join('')
     this.options = options
+    lastBlob = { parts: content, options }
   }
 })
 
@@ -111,6 +126,7 @@ import { useTeamContext } from '../useTeamContext'
 
 vi.stubGlobal('useCollections', useCollections)
 vi.stubGlobal('useTeamContext', useTeamContext)
+vi.stubGlobal('useDisplayConfig', useDisplayConfig)
 
 // Import the composable under test
 import { useCollectionExport } from '../useCollectionExport'
@@ -120,6 +136,7 @@ describe('useCollectionExport', () => {
     vi.clearAllMocks()
     mockUseTeam = null
     lastCreatedLink = null
+    lastBlob = null
   })
 
   afterEach(() => {
@@ -402,6 +419,102 @@ describe('useCollectionExport', () => {
     })
   })
 
+  describe('exportXLSX', () => {
+    const orders = [
+      { id: '1', total: 12.5, reference: 'ORD-1', customerId: 'c1', customerIdData: { id: 'c1', name: 'Acme' }, paid: true },
+      { id: '2', total: 'n/a', reference: 'ORD-2', customerId: 'c2', paid: false }
+    ]
+
+    // Workbook parts are stored uncompressed, so the sheet XML is readable in the bytes
+    function sheetXml(): string {
+      return new TextDecoder().decode(lastBlob!.parts[0] as Uint8Array)
+    }
+
+    it('downloads a workbook', async () => {
+      const { exportXLSX } = useCollectionExport('orders')
+
+      await exportXLSX(orders)
+
+      expect(lastBlob?.options.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+      expect(lastCreatedLink?.download).toMatch(/^orders-\d{4}-\d{2}-\d{2}\.xlsx$/)
+    })
+
+    it('puts the display title first and labels columns from the field metadata', async () => {
+      const { exportXLSX } = useCollectionExport('orders')
+
+      await exportXLSX(orders)
+
+      const xml = sheetXml()
+      expect(xml).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Order reference</t>')
+      expect(xml).toContain('<t xml:space="preserve">Total</t>')
+    })
+
+    it('types cells from the field types', async () => {
+      const { exportXLSX } = useCollectionExport('orders')
+
+      await exportXLSX(orders)
+
+      const xml = sheetXml()
+      expect(xml).toContain('<c r="B2" s="3"><v>12.5</v></c>')
+      expect(xml).toContain('<c r="D2" t="b"><v>1</v></c>')
+      // Values that do not fit the type stay text
+      expect(xml).toContain('<c r="B3" t="inlineStr"><is><t xml:space="preserve">n/a</t>')
+    })
+
+    it('exports reference titles when the row was joined', async () => {
+      const { exportXLSX } = useCollectionExport('orders')
+
+      await exportXLSX(orders)
+
+      const xml = sheetXml()
+      expect(xml).toContain('<t xml:space="preserve">Acme</t>')
+      expect(xml).toContain('<t xml:space="preserve">c2</t>')
+      expect(xml).not.toContain('customerIdData')
+    })
+
+    it('keeps the order of explicit fields', async () => {
+      const { exportXLSX } = useCollectionExport('orders')
+
+      await exportXLSX(orders, { fields: ['total', 'reference'] })
+
+      expect(sheetXml()).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Total</t>')
+    })
+
+    it('warns when no data to export', async () => {
+      const { exportXLSX } = useCollectionExport('orders')
+
+      await exportXLSX([])
+
+      expect(mockConsoleWarn).toHaveBeenCalled()
+      expect(mockCreateObjectURL).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('exportFromServer', () => {
+    it('links to the export endpoint with format and filters', () => {
+      const { exportFromServer } = useCollectionExport('orders')
+
+      exportFromServer('xlsx', { 'createdAt[gte]': '2024-01-01', 'status[in]': ['paid', 'shipped'], 'sort': '-createdAt', 'q': '' })
+
+      expect(lastCreatedLink?.href).toBe('/api/teams/test-team/shop-orders/export?format=xlsx&createdAt%5Bgte%5D=2024-01-01&status%5Bin%5D=paid%2Cshipped&sort=-createdAt')
+      expect(mockClick).toHaveBeenCalled()
+      expect(mock$fetch).not.toHaveBeenCalled()
+    })
+
+    it('throws when team context is not available', () => {
+      vi.stubGlobal('useRoute', () => ({
+        path: '/orders',
+        params: {}
+      }))
+
+      const { exportFromServer } = useCollectionExport('orders')
+
+      expect(() => exportFromServer('csv')).toThrow('Team context not available')
+
+      vi.stubGlobal('useRoute', () => mockRoute)
+    })
+  })
+
   describe('exportWithQuery', () => {
     beforeEach(() => {
       mock$fetch.mockResolvedValue([
@@ -589,6 +702,8 @@ describe('useCollectionExport', () => {
 
       expect(result).toHaveProperty('exportCSV')
       expect(result).toHaveProperty('exportJSON')
+      expect(result).toHaveProperty('exportXLSX')
+      expect(result).toHaveProperty('exportFromServer')
       expect(result).toHaveProperty('exportWithQuery')
       expect(result).toHaveProperty('isExporting')
       expect(typeof result.exportCSV).toBe('function')
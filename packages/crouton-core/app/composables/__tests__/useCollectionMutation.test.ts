@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { ref, computed, reactive } from 'vue'
+import { CollectionConflictError } from '../../utils/collectionConflict'
+import { CollectionValidationError, collectionValidationIssues } from '../../utils/collectionValidation'
 
 // Mock route
 let mockRoute = {
@@ -33,6 +35,11 @@ const mockCollectionsConfig: Record<string, any> = {
   },
   tasks: {
     sortable: { enabled: true, orderField: 'position' }
+  },
+  notes: {
+    layer: 'crm',
+    apiPath: 'crm-notes',
+    softDelete: true
   }
 }
 
@@ -61,7 +68,11 @@ vi.stubGlobal('useToast', () => ({
 const mutationTranslations: Record<string, string> = {
   'mutations.creationFailed': 'Creation failed',
   'mutations.updateFailed': 'Update failed',
+  'mutations.updateConflict': 'Someone else changed this item',
   'mutations.deleteFailed': 'Delete failed',
+  'mutations.restoreFailed': 'Restore failed',
+  'mutations.purgeFailed': 'Permanent delete failed',
+  'mutations.bulkFailed': 'Bulk operation failed',
   'mutations.createdSuccessfully': 'Created successfully',
   'mutations.updatedSuccessfully': 'Updated successfully',
   'mutations.deletedCount': 'Deleted {count} item(s)',
@@ -133,6 +144,9 @@ import { useTeamContext } from '../useTeamContext'
 
 vi.stubGlobal('useCollections', useCollections)
 vi.stubGlobal('useTeamContext', useTeamContext)
+vi.stubGlobal('CollectionConflictError', CollectionConflictError)
+vi.stubGlobal('CollectionValidationError', CollectionValidationError)
+vi.stubGlobal('collectionValidationIssues', collectionValidationIssues)
 
 // Import the composable under test
 import { useCollectionMutation } from '../useCollectionMutation'
@@ -386,6 +400,52 @@ describe('useCollectionMutation', () => {
       })
     })
 
+    it('sends expectedUpdatedAt as a precondition when given', async () => {
+      const { update } = useCollectionMutation('products')
+
+      await update('prod-1', { name: 'Updated' }, { expectedUpdatedAt: '2025-01-01T00:00:00.000Z' })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/teams/test-team/shop-products/prod-1',
+        expect.objectContaining({
+          method: 'PATCH',
+          body: { name: 'Updated', expectedUpdatedAt: '2025-01-01T00:00:00.000Z' }
+        })
+      )
+    })
+
+    it('throws CollectionConflictError with the server row on 409', async () => {
+      const current = { id: 'prod-1', name: 'Theirs', updatedAt: '2025-01-02T00:00:00.000Z' }
+      mockFetch.mockImplementation((_url: string, options: any) => options.method === 'PATCH'
+        ? Promise.reject({ statusCode: 409, data: { statusCode: 409, data: { current } } })
+        : Promise.resolve([]))
+
+      const { update } = useCollectionMutation('products')
+      const promise = update('prod-1', { name: 'Mine' }, { expectedUpdatedAt: '2025-01-01T00:00:00.000Z' })
+
+      await expect(promise).rejects.toBeInstanceOf(CollectionConflictError)
+      await expect(promise).rejects.toMatchObject({ current, updates: { name: 'Mine' } })
+      expect(mockToastAdd).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Someone else changed this item',
+        color: 'warning'
+      }))
+      expect(mockCallHook).not.toHaveBeenCalled()
+    })
+
+    it('throws CollectionValidationError with the field issues on 422', async () => {
+      const issues = [{ path: ['endDate'], message: 'End date must be after the start date' }]
+      mockFetch.mockImplementation((_url: string, options: any) => options.method === 'PATCH'
+        ? Promise.reject({ statusCode: 422, data: { statusCode: 422, data: { issues } } })
+        : Promise.resolve([]))
+
+      const { update } = useCollectionMutation('products')
+      const promise = update('prod-1', { endDate: '2025-01-01' })
+
+      await expect(promise).rejects.toBeInstanceOf(CollectionValidationError)
+      await expect(promise).rejects.toMatchObject({ issues: [{ name: 'endDate', message: 'End date must be after the start date' }] })
+      expect(mockCallHook).not.toHaveBeenCalled()
+    })
+
     it('refreshes referenced collection caches on update', async () => {
       mockPayloadData = {
         'collection:posts:{}': [],
@@ -532,6 +592,167 @@ describe('useCollectionMutation', () => {
     })
   })
 
+  describe('restore / purge (soft delete)', () => {
+    it('PATCHes [id]/restore for each item', async () => {
+      const { restore } = useCollectionMutation('notes')
+
+      await restore(['n1', 'n2'])
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/teams/test-team/crm-notes/n1/restore',
+        expect.objectContaining({ method: 'PATCH', credentials: 'include' })
+      )
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/teams/test-team/crm-notes/n2/restore',
+        expect.objectContaining({ method: 'PATCH', credentials: 'include' })
+      )
+      expect(mockCallHook).toHaveBeenCalledWith('crouton:mutation', expect.objectContaining({
+        operation: 'restore',
+        collection: 'notes',
+        itemIds: ['n1', 'n2']
+      }))
+    })
+
+    it('DELETEs [id]/purge and refreshes the collection', async () => {
+      const { purge } = useCollectionMutation('notes')
+
+      await purge(['n1'])
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/teams/test-team/crm-notes/n1/purge',
+        expect.objectContaining({ method: 'DELETE', credentials: 'include' })
+      )
+      expect(mockRefreshNuxtData).toHaveBeenCalledWith('collection:notes:{}')
+    })
+
+    it('shows error toast on failure', async () => {
+      mockFetch.mockRejectedValue({ data: { message: 'Gone' } })
+
+      const { restore } = useCollectionMutation('notes')
+
+      await expect(restore(['n1'])).rejects.toEqual({ data: { message: 'Gone' } })
+      expect(mockToastAdd).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Restore failed',
+        description: 'Gone'
+      }))
+    })
+
+    it('rejects collections without soft delete', async () => {
+      const { purge } = useCollectionMutation('products')
+
+      await expect(purge(['id1'])).rejects.toThrow(/does not use soft delete/)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('bulk', () => {
+    const ok = (op: string, index: number, id: string) => ({ index, op, id, ok: true })
+
+    it('POSTs the operations to /bulk and emits one hook per operation type', async () => {
+      mockFetch.mockResolvedValue({
+        applied: true,
+        results: [ok('create', 0, 'new-1'), ok('update', 1, 'id1'), ok('delete', 2, 'id2')]
+      })
+
+      const { bulk } = useCollectionMutation('products')
+      const summary = await bulk([
+        { op: 'create', data: { name: 'A' } },
+        { op: 'update', id: 'id1', data: { name: 'B' } },
+        { op: 'delete', id: 'id2' }
+      ])
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/teams/test-team/shop-products/bulk', expect.objectContaining({
+        method: 'POST',
+        body: expect.objectContaining({ dryRun: false })
+      }))
+      expect(summary).toMatchObject({ applied: true, written: 3 })
+      expect(mockCallHook).toHaveBeenCalledTimes(3)
+      expect(mockCallHook).toHaveBeenCalledWith('crouton:mutation', expect.objectContaining({
+        operation: 'create',
+        itemIds: ['new-1'],
+        correlationId: 'crtn_test_12345678'
+      }))
+      expect(mockRefreshNuxtData).toHaveBeenCalledWith('collection-item:products:id1')
+    })
+
+    it('returns the failing rows of a rejected (422) batch without emitting hooks', async () => {
+      mockFetch.mockRejectedValue({
+        statusCode: 422,
+        data: { applied: false, results: [ok('update', 0, 'id1'), { index: 1, op: 'delete', id: 'gone', ok: false, error: 'Not found or unauthorized' }] }
+      })
+
+      const { bulk } = useCollectionMutation('products')
+      const summary = await bulk([{ op: 'update', id: 'id1', data: {} }, { op: 'delete', id: 'gone' }])
+
+      expect(summary.applied).toBe(false)
+      expect(summary.results).toEqual([expect.objectContaining({ index: 1, ok: false })])
+      expect(mockCallHook).not.toHaveBeenCalled()
+      expect(mockToastAdd).not.toHaveBeenCalled()
+    })
+
+    it('counts an update another save overtook as not written', async () => {
+      mockFetch.mockResolvedValue({
+        applied: true,
+        results: [ok('update', 0, 'id1'), { index: 1, op: 'update', id: 'id2', ok: false, error: 'Modified by someone else' }]
+      })
+
+      const { bulk } = useCollectionMutation('products')
+      const summary = await bulk([
+        { op: 'update', id: 'id1', data: { name: 'A' }, expectedUpdatedAt: '2025-01-01T00:00:00.000Z' },
+        { op: 'update', id: 'id2', data: { name: 'B' }, expectedUpdatedAt: '2025-01-01T00:00:00.000Z' }
+      ])
+
+      expect(summary).toMatchObject({ applied: true, written: 1 })
+      expect(summary.results[1]).toMatchObject({ ok: false, error: 'Modified by someone else' })
+      expect(mockCallHook).toHaveBeenCalledWith('crouton:mutation', expect.objectContaining({ operation: 'update', itemIds: ['id1'] }))
+    })
+
+    it('dry-runs every chunk before applying any of them', async () => {
+      const operations = Array.from({ length: 1001 }, (_, i) => ({ op: 'delete' as const, id: `id${i}` }))
+      mockFetch.mockImplementation((_url: string, options: any) => Promise.resolve({
+        applied: !options.body.dryRun,
+        results: options.body.operations.map((o: any, i: number) => ok('delete', i, o.id))
+      }))
+      const onProgress = vi.fn()
+
+      const { bulk } = useCollectionMutation('products')
+      const summary = await bulk(operations, { onProgress })
+
+      const dryRuns = mockFetch.mock.calls.map(([, options]) => options.body.dryRun)
+      expect(dryRuns).toEqual([true, true, false, false])
+      expect(onProgress).toHaveBeenLastCalledWith(1001, 1001)
+      expect(summary.written).toBe(1001)
+      expect(summary.results[1000].index).toBe(1000)
+    })
+
+    it('stops before writing when a later chunk fails its dry run', async () => {
+      const operations = Array.from({ length: 1001 }, (_, i) => ({ op: 'delete' as const, id: `id${i}` }))
+      mockFetch.mockImplementation((_url: string, options: any) => Promise.resolve({
+        applied: false,
+        results: options.body.operations.map((o: any, i: number) => ({ index: i, op: 'delete', id: o.id, ok: o.id !== 'id1000' }))
+      }))
+
+      const { bulk } = useCollectionMutation('products')
+      const summary = await bulk(operations)
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(summary).toMatchObject({ applied: false, written: 0 })
+      expect(summary.results).toEqual([expect.objectContaining({ index: 1000, id: 'id1000' })])
+    })
+
+    it('shows error toast and rethrows on other failures', async () => {
+      mockFetch.mockRejectedValue({ statusCode: 500, data: { message: 'Boom' } })
+
+      const { bulk } = useCollectionMutation('products')
+
+      await expect(bulk([{ op: 'delete', id: 'id1' }])).rejects.toEqual({ statusCode: 500, data: { message: 'Boom' } })
+      expect(mockToastAdd).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Bulk operation failed',
+        description: 'Boom'
+      }))
+    })
+  })
+
   describe('cache invalidation', () => {
     it('finds all cache keys with collection prefix', async () => {
       mockPayloadData = {
@@ -494,6 +494,57 @@ describe('useCollectionQuery', () => {
     })
   })
 
+  describe('server-side list query', () => {
+    it('serializes filters, sort and search into the query', async () => {
+      await useCollectionQuery('products', {
+        query: computed(() => ({ locale: 'en' })),
+        filters: [
+          { field: 'status', op: 'in', value: ['draft', 'review'] },
+          { field: 'price', op: 'gte', value: 10 }
+        ],
+        sort: [{ field: 'createdAt', direction: 'desc' }],
+        search: 'chair'
+      })
+
+      const call = mockUseFetch.mock.calls[mockUseFetch.mock.calls.length - 1] as any
+      expect(call[1].query.value).toEqual({
+        'locale': 'en',
+        'status[in]': 'draft,review',
+        'price[gte]': '10',
+        'sort': '-createdAt',
+        'q': 'chair'
+      })
+    })
+
+    it('exposes writable refs that drive the query', async () => {
+      const result = await useCollectionQuery('products', { search: '' })
+      const call = mockUseFetch.mock.calls[mockUseFetch.mock.calls.length - 1] as any
+      expect(call[1].query.value).toEqual({})
+
+      result.search.value = 'lamp'
+      result.sort.value = [{ field: 'name', direction: 'asc' }]
+      result.filters.value = [{ field: 'active', op: 'eq', value: true }]
+      expect(call[1].query.value).toEqual({ active: 'true', sort: 'name', q: 'lamp' })
+    })
+
+    it('resets to page 1 when the list query changes', async () => {
+      mockFetchState.data.value = { items: [], total: 30 }
+      const result = await useCollectionQuery('products', { pagination: true, search: '' })
+      result.setPage(3)
+      result.search.value = 'lamp'
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(result.page.value).toBe(1)
+      mockFetchState.data.value = []
+    })
+
+    it('leaves the query untouched when no list options are passed', async () => {
+      const query = computed(() => ({ status: 'active' }))
+      await useCollectionQuery('products', { query })
+      const call = mockUseFetch.mock.calls[mockUseFetch.mock.calls.length - 1] as any
+      expect(call[1].query).toBe(query)
+    })
+  })
+
   describe('proxy integration', () => {
     it('applies transform when proxy configured', async () => {
       const mockItems = [
@@ -457,6 +457,26 @@ describe('useTableData', () => {
       expect(slicedRows.value.map(r => r.name)).toEqual(['Apple', 'Banana'])
     })
 
+    it('leaves rows unfiltered when search is delegated to the server', () => {
+      const { page, pageCount } = createPaginationRefs()
+      const search = ref('fruit')
+      const rows = ref([...sampleRows])
+      const sort = ref({ column: 'name', direction: 'asc' as const })
+
+      const { slicedRows, pageTotalToShow } = useTableData({
+        rows,
+        search,
+        sort,
+        page,
+        pageCount,
+        serverPagination: false,
+        serverSearch: true
+      })
+
+      expect(slicedRows.value).toHaveLength(Math.min(sampleRows.length, pageCount.value))
+      expect(pageTotalToShow.value).toBe(sampleRows.length)
+    })
+
     it('handles empty row arrays', () => {
       const { page, pageCount, search } = createPaginationRefs()
       const rows = ref<any[]>([])
@@ -1,5 +1,7 @@
 import { ref } from 'vue'
 import type { Ref } from 'vue'
+import { buildXlsx, XLSX_CONTENT_TYPE, type XlsxCellType } from '../../shared/utils/xlsx'
+import { collectionExportValue, escapeCsv, type CollectionExportFormat } from '../../shared/utils/collection-export'
 
 /**
  * Field configuration for export
@@ -11,6 +13,8 @@ export interface ExportField {
   label?: string
   /** Transform value before export */
   transform?: (value: any, row: any) => any
+  /** XLSX cell type (defaults to the collection field type) */
+  type?: XlsxCellType
 }
 
 /**
@@ -52,13 +56,22 @@ export interface UseCollectionExportReturn {
   /** Export provided rows to JSON */
   exportJSON: (rows: any[], options?: ExportOptions) => void
 
-  /** Export with fetch (for server-side filtering) */
+  /** Export provided rows to an Excel workbook */
+  exportXLSX: (rows: any[], options?: ExportOptions) => Promise<void>
+
+  /** Export with fetch (for server-side filtering, capped at 10,000 rows) */
   exportWithQuery: (
-    format: 'csv' | 'json',
+    format: CollectionExportFormat,
     query?: Record<string, any>,
     options?: ExportOptions
   ) => Promise<void>
 
+  /** Download every matching row from the generated streaming `/export` endpoint */
+  exportFromServer: (
+    format: CollectionExportFormat,
+    query?: Record<string, any>
+  ) => void
+
   /** Loading state for async exports */
   isExporting: Ref<boolean>
 }
@@ -68,11 +81,25 @@ const METADATA_FIELDS = ['createdAt', 'updatedAt', 'createdBy', 'updatedBy']
 const DEFAULT_EXCLUDED = ['teamId']
 const MAX_EXPORT_ROWS = 10000
 
+/** XLSX cell type per collection field type */
+const XLSX_FIELD_TYPES: Record<string, XlsxCellType> = {
+  number: 'integer',
+  integer: 'integer',
+  decimal: 'decimal',
+  boolean: 'boolean',
+  date: 'date'
+}
+const XLSX_METADATA_TYPES: Record<string, XlsxCellType> = {
+  createdAt: 'datetime',
+  updatedAt: 'datetime'
+}
+
 /**
  * Collection export composable
  *
- * Provides CSV and JSON export capabilities for collection data.
- * Works with useCollectionQuery for client-side data or fetches server data directly.
+ * Provides CSV, JSON and XLSX export capabilities for collection data.
+ * Works with useCollectionQuery for client-side data or fetches server data directly;
+ * `exportFromServer` streams full exports from the generated `/export` endpoint.
  *
  * @example
  * ```typescript
@@ -101,6 +128,14 @@ const MAX_EXPORT_ROWS = 10000
  *   excludeFields: ['internalNotes']
  * })
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Stream a full export from the server (no row cap, respects list filters)
+ * const { exportFromServer } = useCollectionExport('orders')
+ *
+ * exportFromServer('xlsx', { 'createdAt[gte]': '2024-01-01', sort: '-createdAt' })
+ * ```
  */
 export function useCollectionExport(collection: string): UseCollectionExportReturn {
   const isExporting = ref(false)
@@ -213,28 +248,6 @@ export function useCollectionExport(collection: string): UseCollectionExportRetu
     return value
   }
 
-  /**
-   * Escape a value for CSV
-   */
-  function escapeCSV(value: any): string {
-    if (value == null) return ''
-
-    const str = String(value)
-
-    // Check if we need to quote
-    const needsQuoting = str.includes(',')
-      || str.includes('"')
-      || str.includes('\n')
-      || str.includes('\r')
-
-    if (needsQuoting) {
-      // Escape double quotes by doubling them
-      return `"${str.replace(/"/g, '""')}"`
-    }
-
-    return str
-  }
-
   /**
    * Generate CSV content
    */
@@ -244,7 +257,7 @@ export function useCollectionExport(collection: string): UseCollectionExportRetu
     const fields = resolveFields(rows, options)
 
     // Header row
-    const headers = fields.map(f => escapeCSV(f.label || f.key))
+    const headers = fields.map(f => escapeCsv(f.label || f.key))
     const headerLine = headers.join(',')
 
     // Data rows
@@ -258,7 +271,7 @@ export function useCollectionExport(collection: string): UseCollectionExportRetu
         .map((field) => {
           const value = transformedRow[field.key]
           const formatted = formatValue(value, field, transformedRow, options)
-          return escapeCSV(formatted)
+          return escapeCsv(formatted)
         })
         .join(',')
     })
@@ -294,11 +307,61 @@ export function useCollectionExport(collection: string): UseCollectionExportRetu
     return JSON.stringify(exportData, null, 2)
   }
 
+  /**
+   * Typed XLSX columns: labels and cell types from the collection's field
+   * metadata, with the display title column first unless fields are explicit
+   */
+  function resolveXlsxFields(rows: any[], options: ExportOptions): ExportField[] {
+    const config = collections.getConfig(collection)
+    const fieldMeta = new Map((config?.fields ?? []).map(field => [field.name, field]))
+    let fields = resolveFields(rows, options)
+
+    if (!options.fields) {
+      // Joined reference rows are exported through their reference column
+      const joined = new Set(Object.keys(config?.references ?? {}).map(key => `${key}Data`))
+      fields = fields.filter(field => !joined.has(field.key))
+
+      const titleField = useDisplayConfig(collection).title
+      const title = fields.find(field => field.key === titleField)
+      if (title) fields = [title, ...fields.filter(field => field !== title)]
+    }
+
+    return fields.map((field) => {
+      const meta = fieldMeta.get(field.key)
+      const hasCustomLabel = field.label && field.label !== field.key
+      return {
+        ...field,
+        label: hasCustomLabel ? field.label : (meta?.label ?? field.key),
+        type: field.type ?? (meta ? XLSX_FIELD_TYPES[meta.type] : XLSX_METADATA_TYPES[field.key])
+      }
+    })
+  }
+
+  /**
+   * Generate XLSX content; references export the joined title (`<key>Data`)
+   */
+  function generateXLSX(rows: any[], options: ExportOptions = {}): Promise<Uint8Array> {
+    const fields = resolveXlsxFields(rows, options)
+    const references = collections.getConfig(collection)?.references ?? {}
+
+    return buildXlsx({
+      sheetName: options.filename || collection,
+      columns: fields.map(field => ({ header: field.label || field.key, type: field.type })),
+      rows: rows.map((row) => {
+        const transformedRow = options.transformRow ? options.transformRow(row) : row
+        return fields.map((field) => {
+          const value = collectionExportValue(transformedRow, { key: field.key, label: field.key, reference: field.key in references })
+          return field.transform ? field.transform(value, transformedRow) : value
+        })
+      })
+    })
+  }
+
   /**
    * Trigger file download
    */
-  function downloadFile(content: string, filename: string, mimeType: string): void {
-    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+  function downloadFile(content: BlobPart, filename: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType === XLSX_CONTENT_TYPE ? mimeType : `${mimeType};charset=utf-8` })
     const url = URL.createObjectURL(blob)
 
     const link = document.createElement('a')
@@ -353,11 +416,25 @@ export function useCollectionExport(collection: string): UseCollectionExportRetu
     downloadFile(json, filename, 'application/json')
   }
 
+  /**
+   * Export rows to an XLSX workbook with typed, formatted columns
+   */
+  async function exportXLSX(rows: any[], options: ExportOptions = {}): Promise<void> {
+    if (!rows.length) {
+      console.warn(`[useCollectionExport] ${tString('export.noData')}`)
+      return
+    }
+
+    const xlsx = await generateXLSX(rows, options)
+    const filename = generateFilename(options, 'xlsx')
+    downloadFile(xlsx, filename, XLSX_CONTENT_TYPE)
+  }
+
   /**
    * Export with server query (fetches all matching data)
    */
   async function exportWithQuery(
-    format: 'csv' | 'json',
+    format: CollectionExportFormat,
     query: Record<string, any> = {},
     options: ExportOptions = {}
   ): Promise<void> {
@@ -386,24 +463,57 @@ export function useCollectionExport(collection: string): UseCollectionExportRetu
 
       if (format === 'csv') {
         exportCSV(rows, options)
-      }
-      else {
+      } else if (format === 'xlsx') {
+        await exportXLSX(rows, options)
+      } else {
         exportJSON(rows, options)
       }
-    }
-    catch (error) {
+    } catch (error) {
       console.error('[useCollectionExport] Export failed:', error)
       throw error
-    }
-    finally {
+    } finally {
       isExporting.value = false
     }
   }
 
+  /**
+   * Download from the generated `/export` endpoint. The browser follows a link
+   * and writes the stream to disk, so the rows never pass through the page.
+   * `query` takes the list endpoint's filters (`status[in]`, `sort`, `q`, ...).
+   */
+  function exportFromServer(
+    format: CollectionExportFormat,
+    query: Record<string, any> = {}
+  ): void {
+    const config = collections.getConfig(collection)
+    const apiPath = config?.apiPath || collection
+    const teamId = getTeamId()
+
+    if (!teamId) {
+      throw new Error('Team context not available')
+    }
+
+    const params = new URLSearchParams({ format })
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined || value === null || value === '') continue
+      params.set(key, Array.isArray(value) ? value.join(',') : String(value))
+    }
+
+    const link = document.createElement('a')
+    link.href = `/api/teams/${teamId}/${apiPath}/export?${params}`
+    link.style.display = 'none'
+
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
   return {
     exportCSV,
     exportJSON,
+    exportXLSX,
     exportWithQuery,
+    exportFromServer,
     isExporting
   }
 }
@@ -1,5 +1,6 @@
 import { ref } from 'vue'
 import type { Ref } from 'vue'
+import type { ImportPlanRow, ImportReference } from '../utils/collectionImportPlan'
 
 /**
  * Field definition for import column mapping
@@ -47,10 +48,20 @@ export interface ImportPreviewResult {
 export interface ImportResult {
   success: boolean
   created: number
+  updated: number
+  unchanged: number
   failed: number
   errors: { rowIndex: number; error: string }[]
 }
 
+/**
+ * Options for the import preview
+ */
+export interface ImportPreviewOptions {
+  /** Update existing rows whose value in this field matches the file (e.g. `slug`); omit to create only */
+  matchField?: string | null
+}
+
 /**
  * Return type for useCollectionImport
  */
@@ -63,16 +74,16 @@ export interface UseCollectionImportReturn {
   autoMapColumns: (csvColumns: string[], fields: ImportField[]) => ImportColumnMapping[]
   /** Validate rows against mapped fields */
   validateRows: (rows: Record<string, any>[], mappings: ImportColumnMapping[], fields: ImportField[]) => ImportRowValidation[]
-  /** Execute the import (POST rows in batches) */
-  executeImport: (validRows: Record<string, any>[]) => Promise<ImportResult>
+  /** Compare validated rows with existing data and resolve reference titles (nothing is written) */
+  previewImport: (validations: ImportRowValidation[], options?: ImportPreviewOptions) => Promise<ImportPlanRow[]>
+  /** Execute the import plan (all rows or none, via POST /bulk) */
+  executeImport: (plan: ImportPlanRow[]) => Promise<ImportResult>
   /** Whether an import is in progress */
   isImporting: Ref<boolean>
   /** Import progress (0-100) */
   progress: Ref<number>
 }
 
-const BATCH_SIZE = 20
-
 /**
  * Normalize a string to camelCase for column matching.
  * Handles "Source Type", "source_type", "source-type" → "sourceType"
@@ -89,8 +100,11 @@ function toCamelCase(str: string): string {
  *
  * Provides CSV and JSON import capabilities for collection data.
  * Mirrors the export composable pattern. Parses files client-side,
- * auto-maps columns, validates rows, and POSTs in batches to the
- * existing collection endpoint.
+ * auto-maps columns, validates rows, matches them against existing rows,
+ * and imports them all-or-nothing through the collection's bulk endpoint.
+ *
+ * Reference columns (fields listed in the collection's `references`) may hold
+ * either ids or the referenced item's display title.
  *
  * @example
  * ```typescript
@@ -106,9 +120,11 @@ function toCamelCase(str: string): string {
  * // 3. Validate
  * const results = validateRows(rows, mappings, fields)
  *
- * // 4. Import valid rows
- * const validRows = results.filter(r => r.valid).map(r => r.data)
- * const result = await executeImport(validRows)
+ * // 4. Preview: new / changed / unchanged / error per row (server dry run included)
+ * const plan = await previewImport(results, { matchField: 'sku' })
+ *
+ * // 5. Import
+ * const result = await executeImport(plan.filter(row => row.status !== 'error'))
  * ```
  */
 export function useCollectionImport(collection: string): UseCollectionImportReturn {
@@ -120,13 +136,15 @@ export function useCollectionImport(collection: string): UseCollectionImportRetu
   const collections = useCollections()
   const { getTeamId } = useTeamContext()
 
+  const { bulk } = useCollectionMutation(collection)
+
   const config = collections.getConfig(collection)
-  const apiPath = config?.apiPath || collection
 
   /**
-   * Get the API base path (same pattern as useCollectionMutation)
+   * Get the API base path of a collection (same pattern as useCollectionMutation)
    */
-  function getApiBasePath(): string {
+  function getApiBasePath(name: string): string {
+    const apiPath = collections.getConfig(name)?.apiPath || name
     if (route.path.includes('/super-admin/')) {
       return `/api/super-admin/${apiPath}`
     }
@@ -217,6 +235,11 @@ export function useCollectionImport(collection: string): UseCollectionImportRetu
     for (const field of fields) {
       fieldIndex.set(toCamelCase(field.key), field.key)
       fieldIndex.set(field.key.toLowerCase(), field.key)
+      // Reference columns are usually headed by the target ("Category" → categoryId)
+      if (config?.references?.[field.key] && field.key.endsWith('Id')) {
+        const bare = field.key.slice(0, -2)
+        if (!fieldIndex.has(bare)) fieldIndex.set(bare, field.key)
+      }
     }
 
     return csvColumns.map((col) => {
@@ -268,65 +291,115 @@ export function useCollectionImport(collection: string): UseCollectionImportRetu
   }
 
   /**
-   * Execute the import by POSTing rows in batches to the collection endpoint
+   * Load title lookups for the reference fields that have values in the file.
+   * The title field is the target's `display.title`, else title/name/label.
    */
-  async function executeImport(validRows: Record<string, any>[]): Promise<ImportResult> {
-    isImporting.value = true
-    progress.value = 0
-
-    const result: ImportResult = {
-      success: true,
-      created: 0,
-      failed: 0,
-      errors: []
+  async function loadReferences(rows: Record<string, any>[]): Promise<Record<string, ImportReference>> {
+    const references: Record<string, ImportReference> = {}
+    const fieldTypes = new Map(((config as any)?.fields || []).map((f: any) => [f.name, f.type]))
+
+    for (const [field, target] of Object.entries(config?.references || {})) {
+      if (!rows.some(row => row[field] !== undefined && row[field] !== '')) continue
+      if (!collections.getConfig(target)) continue
+
+      const items = await $fetch<Record<string, any>[]>(getApiBasePath(target), { credentials: 'include' })
+      const targetDisplay = (collections.getConfig(target) as any)?.display
+      const titleField = targetDisplay?.title
+        || ['title', 'name', 'label'].find(key => items.some(item => item[key] !== undefined))
+        || 'id'
+
+      references[field] = {
+        lookup: buildReferenceLookup(items, titleField),
+        ids: new Set(items.map(item => item.id)),
+        multiple: fieldTypes.get(field) === 'array' || fieldTypes.get(field) === 'references'
+      }
     }
 
-    try {
-      const baseUrl = getApiBasePath()
-      const totalRows = validRows.length
-
-      // Process in batches
-      for (let i = 0; i < totalRows; i += BATCH_SIZE) {
-        const batch = validRows.slice(i, i + BATCH_SIZE)
-
-        const batchResults = await Promise.allSettled(
-          batch.map((row, batchIndex) =>
-            $fetch(baseUrl, {
-              method: 'POST',
-              body: row,
-              credentials: 'include'
-            }).then(() => ({ rowIndex: i + batchIndex }))
-          )
-        )
-
-        for (const batchResult of batchResults) {
-          if (batchResult.status === 'fulfilled') {
-            result.created++
-          } else {
-            result.failed++
-            result.errors.push({
-              rowIndex: i,
-              error: batchResult.reason?.data?.message || batchResult.reason?.message || 'Creation failed'
-            })
-          }
-        }
+    return references
+  }
 
-        progress.value = Math.round(((i + batch.length) / totalRows) * 100)
+  /**
+   * Build the import plan: match rows to existing ones, resolve references,
+   * then dry-run the writes on the server so its rejections show up as errors.
+   */
+  async function previewImport(
+    validations: ImportRowValidation[],
+    options: ImportPreviewOptions = {}
+  ): Promise<ImportPlanRow[]> {
+    const rows = validations.map(v => v.data)
+    const existing = options.matchField
+      ? await $fetch<Record<string, any>[]>(getApiBasePath(collection), { credentials: 'include' })
+      : []
+    const references = await loadReferences(rows)
+
+    const plan = planImport(
+      validations.map(v => ({ rowIndex: v.rowIndex, data: v.data })),
+      existing,
+      {
+        matchField: options.matchField,
+        references,
+        requiredFields: getCollectionFields().filter(f => f.required).map(f => f.key),
+        messages: {
+          requiredFieldMissing: t('import.requiredFieldMissing'),
+          missingKey: t('import.missingKey'),
+          duplicateKey: row => t('import.duplicateKey', { row }),
+          ambiguousMatch: t('import.ambiguousMatch'),
+          unknownReference: value => t('import.unknownReference', { value }),
+          ambiguousReference: value => t('import.ambiguousReference', { value })
+        }
+      }
+    )
+
+    const { operations, rows: planRows } = importPlanOperations(plan)
+    if (operations.length > 0) {
+      const summary = await bulk(operations, { dryRun: true })
+      for (const result of summary.results) {
+        if (result.ok) continue
+        const row = planRows[result.index]!
+        row.status = 'error'
+        row.errors = { ...row.errors, _row: result.error || t('import.unexpected') }
       }
+    }
 
-      // Invalidate collection cache (same pattern as useCollectionMutation)
-      const nuxtApp = useNuxtApp()
-      const prefix = `collection:${collection}:`
-      const allKeys = Object.keys(nuxtApp.payload.data)
-      const matchingKeys = allKeys.filter(key => key.startsWith(prefix))
-      await Promise.all(matchingKeys.map(key => refreshNuxtData(key)))
+    return plan
+  }
 
-      result.success = result.failed === 0
+  /**
+   * Execute an import plan through the collection's `POST /bulk` endpoint.
+   * New rows are created and changed rows updated in one all-or-nothing run;
+   * if any row is rejected, nothing is imported and the rejected rows are reported.
+   */
+  async function executeImport(plan: ImportPlanRow[]): Promise<ImportResult> {
+    isImporting.value = true
+    progress.value = 0
+
+    try {
+      const { operations, rows } = importPlanOperations(plan)
+      const summary = await bulk(
+        operations,
+        { onProgress: (done, total) => { progress.value = Math.round((done / total) * 100) } }
+      )
+
+      const failures = summary.results.filter(row => !row.ok)
+      const applied = summary.results.filter(row => row.ok)
+      const result: ImportResult = {
+        success: summary.applied && failures.length === 0,
+        created: summary.applied ? applied.filter(row => row.op === 'create').length : 0,
+        updated: summary.applied ? applied.filter(row => row.op === 'update').length : 0,
+        unchanged: plan.filter(row => row.status === 'unchanged').length,
+        failed: failures.length,
+        errors: failures.map(row => ({
+          rowIndex: rows[row.index]?.rowIndex ?? row.index,
+          error: row.error || t('mutations.creationFailed')
+        }))
+      }
 
-      if (result.failed > 0) {
+      if (!summary.applied) {
+        notify.error(t('import.rolledBack'), { description: t('import.rolledBackDescription', { failed: result.failed }) })
+      } else if (result.failed > 0) {
         notify.warning(t('import.complete'), { description: t('import.completeWithErrors', { created: result.created, failed: result.failed }) })
       } else {
-        notify.success(t('import.complete'), { description: t('import.completeSuccess', { created: result.created }) })
+        notify.success(t('import.complete'), { description: t('import.completeSuccess', { created: result.created, updated: result.updated }) })
       }
 
       return result
@@ -344,6 +417,7 @@ export function useCollectionImport(collection: string): UseCollectionImportRetu
     getCollectionFields,
     autoMapColumns,
     validateRows,
+    previewImport,
     executeImport,
     isImporting,
     progress
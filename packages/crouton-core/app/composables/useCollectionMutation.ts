@@ -1,23 +1,67 @@
 import type { ComputedRef } from 'vue'
 import type { CollectionTypeMap, CollectionItem, CollectionFormData, CollectionName } from '#crouton/types'
+import type { CollectionBulkOperation, CollectionBulkResponse, CollectionBulkResult } from '../../shared/utils/collection-bulk'
+import { bulkFailures, chunkBulkOperations } from '../../shared/utils/collection-bulk'
+
+/**
+ * Options for a single update
+ */
+export interface CollectionUpdateOptions {
+  /**
+   * The `updatedAt` the caller last saw. The server rejects the write with a
+   * 409 (surfaced as `CollectionConflictError`) if the row changed since.
+   */
+  expectedUpdatedAt?: string | Date | null
+}
+
+/**
+ * Options for a bulk run
+ */
+export interface CollectionBulkOptions {
+  /** Validate and resolve only; nothing is written */
+  dryRun?: boolean
+  /** Called after each applied chunk with the number of operations written so far */
+  onProgress?: (done: number, total: number) => void
+}
+
+/**
+ * Outcome of `bulk()` across all chunks
+ */
+export interface CollectionBulkSummary {
+  /** Whether the operations were written */
+  applied: boolean
+  /** Number of operations written */
+  written: number
+  /** Per-operation results, `index` relative to the full operation list */
+  results: CollectionBulkResult[]
+}
 
 /**
  * Return type for collection mutations
  */
 interface CollectionMutationReturn<K extends CollectionName> {
   create: (data: CollectionFormData<K>) => Promise<CollectionItem<K>>
-  update: (id: string, updates: Partial<CollectionFormData<K>>) => Promise<CollectionItem<K>>
+  update: (id: string, updates: Partial<CollectionFormData<K>>, options?: CollectionUpdateOptions) => Promise<CollectionItem<K>>
   deleteItems: (ids: string[]) => Promise<void>
   delete: (ids: string[]) => Promise<void>
+  /** Restore soft-deleted items from the trash (collections with `softDelete`) */
+  restore: (ids: string[]) => Promise<void>
+  /** Permanently delete items that are already in the trash (collections with `softDelete`) */
+  purge: (ids: string[]) => Promise<void>
+  /** Apply create/update/delete operations all-or-nothing via `POST /bulk` */
+  bulk: (operations: CollectionBulkOperation[], options?: CollectionBulkOptions) => Promise<CollectionBulkSummary>
   /** Whether team context is available (required for mutations) */
   isReady: ComputedRef<boolean>
 }
 
 interface CollectionMutationReturnUntyped {
   create: (data: any) => Promise<any>
-  update: (id: string, updates: any) => Promise<any>
+  update: (id: string, updates: any, options?: CollectionUpdateOptions) => Promise<any>
   deleteItems: (ids: string[]) => Promise<void>
   delete: (ids: string[]) => Promise<void>
+  restore: (ids: string[]) => Promise<void>
+  purge: (ids: string[]) => Promise<void>
+  bulk: (operations: CollectionBulkOperation[], options?: CollectionBulkOptions) => Promise<CollectionBulkSummary>
   isReady: ComputedRef<boolean>
 }
 
@@ -48,6 +92,34 @@ interface CollectionMutationReturnUntyped {
  * // Update and delete
  * await update('role-id', { name: 'Updated Name' })
  * await deleteItems(['id1', 'id2'])
+ *
+ * @example
+ * // Optimistic concurrency: reject the write if someone saved in the meantime
+ * try {
+ *   await update(item.id, changes, { expectedUpdatedAt: item.updatedAt })
+ * } catch (error) {
+ *   if (isCollectionConflictError(error)) showMergeDialog(error.current)
+ * }
+ *
+ * @example
+ * // Server-side validation (unique fields, cross-field rules): issues per field
+ * try {
+ *   await create(data)
+ * } catch (error) {
+ *   if (isCollectionValidationError(error)) form.value?.setErrors(error.issues)
+ * }
+ *
+ * @example
+ * // Soft-delete collections: bring items back from the trash, or remove them for good
+ * await restore(['id1'])
+ * await purge(['id2'])
+ *
+ * @example
+ * // Bulk: validated up front, written in one transaction, nothing written on any failure
+ * const { applied, results } = await bulk([
+ *   { op: 'update', id: 'id1', data: { status: 'archived' } },
+ *   { op: 'delete', id: 'id2' }
+ * ])
  */
 export function useCollectionMutation<K extends CollectionName>(collection: K): CollectionMutationReturn<K>
 export function useCollectionMutation(collection: string): CollectionMutationReturnUntyped
@@ -163,7 +235,9 @@ export function useCollectionMutation(collection: string): CollectionMutationRet
       const result = await $fetch<{ id: string; [key: string]: any }>(baseUrl, {
         method: 'POST',
         body: data,
-        credentials: 'include'
+        credentials: 'include',
+        // Ties the server's audit entries to this action
+        headers: { 'X-Correlation-ID': correlationId }
       })
 
       // Emit hook for event tracking (zero overhead if no listeners)
@@ -184,6 +258,13 @@ export function useCollectionMutation(collection: string): CollectionMutationRet
 
       return result
     } catch (error: any) {
+      // Rejected data: hand the field issues to the caller (forms show them on the fields)
+      const issues = collectionValidationIssues(error)
+      if (issues) {
+        notify.error(t('mutations.creationFailed'), { description: issues[0]!.message })
+        throw new CollectionValidationError(collection, issues, error.statusCode)
+      }
+
       const errorMessage = error.data?.message || error.data || t('mutations.creationFailed')
 
       notify.error(t('mutations.creationFailed'), { description: errorMessage })
@@ -196,7 +277,7 @@ export function useCollectionMutation(collection: string): CollectionMutationRet
    * Update an existing item
    * Fetches the item before updating to enable beforeData tracking for change diffs
    */
-  const update = async (id: string, updates: any) => {
+  const update = async (id: string, updates: any, options: CollectionUpdateOptions = {}) => {
     const baseUrl = getApiBasePath()
     const url = `${baseUrl}/${id}`
     const correlationId = generateCorrelationId()
@@ -219,8 +300,11 @@ export function useCollectionMutation(collection: string): CollectionMutationRet
     try {
       const result = await $fetch(url, {
         method: 'PATCH',
-        body: updates,
-        credentials: 'include'
+        body: options.expectedUpdatedAt
+          ? { ...updates, expectedUpdatedAt: options.expectedUpdatedAt }
+          : updates,
+        credentials: 'include',
+        headers: { 'X-Correlation-ID': correlationId }
       })
 
       // Emit hook for event tracking (zero overhead if no listeners)
@@ -243,6 +327,21 @@ export function useCollectionMutation(collection: string): CollectionMutationRet
 
       return result
     } catch (error: any) {
+      // Stale write: hand the current server row to the caller so it can offer a merge
+      const current = error.data?.data?.current
+      if (error.statusCode === 409 && current) {
+        notify.warning(t('mutations.updateConflict'))
+        // Our cached copy is stale by definition, so refresh views now
+        await invalidateCache(id)
+        throw new CollectionConflictError(collection, id, current, updates)
+      }
+
+      const issues = collectionValidationIssues(error)
+      if (issues) {
+        notify.error(t('mutations.updateFailed'), { description: issues[0]!.message })
+        throw new CollectionValidationError(collection, issues, error.statusCode)
+      }
+
       const errorMessage = error.data?.message || error.data || t('mutations.updateFailed')
 
       notify.error(t('mutations.updateFailed'), { description: errorMessage })
@@ -265,7 +364,8 @@ export function useCollectionMutation(collection: string): CollectionMutationRet
         ids.map(id =>
           $fetch(`${baseUrl}/${id}`, {
             method: 'DELETE',
-            credentials: 'include'
+            credentials: 'include',
+            headers: { 'X-Correlation-ID': correlationId }
           }).catch((err: any) => {
             if (err?.response?.status === 404 || err?.status === 404 || err?.statusCode === 404) return
             throw err
@@ -294,12 +394,167 @@ export function useCollectionMutation(collection: string): CollectionMutationRet
     }
   }
 
+  /**
+   * Shared runner for the trash actions of soft-delete collections
+   * (PATCH [id]/restore, DELETE [id]/purge)
+   */
+  const trashAction = async (
+    operation: 'restore' | 'purge',
+    ids: string[],
+    request: { path: string, method: 'PATCH' | 'DELETE' },
+    failedKey: string
+  ) => {
+    if (!config.softDelete) {
+      throw new Error(`Collection "${collection}" does not use soft delete`)
+    }
+
+    const baseUrl = getApiBasePath()
+    const correlationId = generateCorrelationId()
+    const timestamp = Date.now()
+
+    try {
+      await Promise.all(
+        ids.map(id =>
+          $fetch(`${baseUrl}/${id}/${request.path}`, {
+            method: request.method,
+            credentials: 'include',
+            headers: { 'X-Correlation-ID': correlationId }
+          })
+        )
+      )
+
+      // Emit hook for event tracking (zero overhead if no listeners)
+      const nuxtApp = useNuxtApp()
+      await nuxtApp.hooks.callHook('crouton:mutation', {
+        operation,
+        collection,
+        itemIds: ids,
+        correlationId,
+        timestamp
+      })
+
+      // Refresh both the live list and the trash view
+      await invalidateCache(ids)
+    } catch (error: any) {
+      const errorMessage = error.data?.message || error.data || t(failedKey)
+
+      notify.error(t(failedKey), { description: errorMessage })
+
+      throw error
+    }
+  }
+
+  /**
+   * Restore items from the trash
+   */
+  const restore = (ids: string[]) =>
+    trashAction('restore', ids, { path: 'restore', method: 'PATCH' }, 'mutations.restoreFailed')
+
+  /**
+   * Permanently delete items that are already in the trash
+   */
+  const purge = (ids: string[]) =>
+    trashAction('purge', ids, { path: 'purge', method: 'DELETE' }, 'mutations.purgeFailed')
+
+  /**
+   * Apply a list of operations through the generated `POST /bulk` endpoint.
+   *
+   * Lists longer than one request are dry-run chunk by chunk first, so a failing
+   * row anywhere stops the run before anything is written. Chunks are then
+   * applied in order; each chunk is atomic on its own. An update whose
+   * `expectedUpdatedAt` another save overtook while its chunk was applied
+   * writes nothing and comes back as a failed result.
+   */
+  const bulk = async (
+    operations: CollectionBulkOperation[],
+    options: CollectionBulkOptions = {}
+  ): Promise<CollectionBulkSummary> => {
+    const baseUrl = getApiBasePath()
+    const correlationId = generateCorrelationId()
+    const timestamp = Date.now()
+    const chunks = chunkBulkOperations(operations)
+
+    const send = async (chunk: CollectionBulkOperation[], dryRun: boolean): Promise<CollectionBulkResponse> => {
+      try {
+        return await $fetch<CollectionBulkResponse>(`${baseUrl}/bulk`, {
+          method: 'POST',
+          body: { operations: chunk, dryRun },
+          credentials: 'include',
+          headers: { 'X-Correlation-ID': correlationId }
+        })
+      } catch (error: any) {
+        // 422 carries the per-row results of a rejected batch
+        if (error?.statusCode === 422 && Array.isArray(error.data?.results)) {
+          return error.data as CollectionBulkResponse
+        }
+        throw error
+      }
+    }
+
+    try {
+      if (options.dryRun || chunks.length > 1) {
+        const results: CollectionBulkResult[] = []
+        let offset = 0
+        for (const chunk of chunks) {
+          const response = await send(chunk, true)
+          results.push(...response.results.map(result => ({ ...result, index: result.index + offset })))
+          offset += chunk.length
+        }
+        const failures = results.filter(result => !result.ok)
+        if (options.dryRun || failures.length > 0) {
+          return { applied: false, written: 0, results: options.dryRun ? results : failures }
+        }
+      }
+
+      const results: CollectionBulkResult[] = []
+      let offset = 0
+      let written = 0
+      for (const chunk of chunks) {
+        const response = await send(chunk, false)
+        if (!response.applied) {
+          if (offset > 0) await invalidateCache()
+          return { applied: offset > 0, written, results: [...results, ...bulkFailures(response, offset)] }
+        }
+        results.push(...response.results.map(result => ({ ...result, index: result.index + offset })))
+        written += response.results.filter(result => result.ok).length
+        offset += chunk.length
+        options.onProgress?.(offset, operations.length)
+      }
+
+      // One hook per operation type, linked by the correlation ID
+      const nuxtApp = useNuxtApp()
+      for (const operation of ['create', 'update', 'delete'] as const) {
+        const itemIds = results.filter(result => result.ok && result.op === operation && result.id).map(result => result.id!)
+        if (itemIds.length === 0) continue
+        await nuxtApp.hooks.callHook('crouton:mutation', {
+          operation,
+          collection,
+          itemIds,
+          correlationId,
+          timestamp
+        })
+      }
+
+      await invalidateCache(results.filter(result => result.op !== 'create' && result.id).map(result => result.id!))
+      return { applied: true, written, results }
+    } catch (error: any) {
+      const errorMessage = error.data?.message || error.data || t('mutations.bulkFailed')
+
+      notify.error(t('mutations.bulkFailed'), { description: errorMessage })
+
+      throw error
+    }
+  }
+
   return {
     create,
     update,
     deleteItems,
     // Alias for compatibility
     delete: deleteItems,
+    restore,
+    purge,
+    bulk,
     // Team context availability check
     isReady
   }
@@ -1,6 +1,11 @@
 import type { Ref, ComputedRef } from 'vue'
 import type { UseFetchOptions } from 'nuxt/app'
 import type { CollectionTypeMap, CollectionItem, CollectionName } from '#crouton/types'
+import {
+  serializeCollectionListQuery,
+  type CollectionFilter,
+  type CollectionSort
+} from '../../shared/utils/collection-query'
 
 interface CollectionQueryOptions {
   query?: ComputedRef<Record<string, any>> | Ref<Record<string, any>>
@@ -11,6 +16,15 @@ interface CollectionQueryOptions {
    * folded into the request query and the server returns `{ items, total }`.
    */
   pagination?: boolean | { pageSize?: number }
+  /**
+   * Server-side filters, serialized as `?field=` / `?field[op]=`. The initial
+   * value seeds the writable `filters` ref on the return value.
+   */
+  filters?: CollectionFilter[]
+  /** Server-side sort, serialized as `?sort=-field,other`. Seeds the `sort` ref. */
+  sort?: CollectionSort[]
+  /** Server-side search across the collection's `searchable` fields (`?q=`). Seeds the `search` ref. */
+  search?: string
 }
 
 /** Shape consumed by `<CroutonCollection :pagination-data>` / `CroutonTablePagination`. */
@@ -41,6 +55,12 @@ interface CollectionQueryReturn<T> {
   setPage: (p: number) => void
   nextPage: () => void
   prevPage: () => void
+  /** Server-side filters, writable. Changing them resets to page 1. */
+  filters: Ref<CollectionFilter[]>
+  /** Server-side sort, writable. Changing it resets to page 1. */
+  sort: Ref<CollectionSort[]>
+  /** Server-side search term, writable. Changing it resets to page 1. */
+  search: Ref<string>
 }
 
 /**
@@ -67,6 +87,15 @@ interface CollectionQueryReturn<T> {
  * })
  *
  * @example
+ * // Server-side filtering, sorting and search (see shared/utils/collection-query)
+ * const { items, filters, sort, search } = await useCollectionQuery('blogPosts', {
+ *   filters: [{ field: 'status', op: 'in', value: ['draft', 'review'] }],
+ *   sort: [{ field: 'createdAt', direction: 'desc' }],
+ *   pagination: true
+ * })
+ * search.value = 'chair' // refetches page 1 with ?q=chair
+ *
+ * @example
  * // With translations
  * const { locale } = useI18n()
  * const { items, pending } = await useCollectionQuery('blogPosts', {
@@ -97,19 +126,27 @@ export async function useCollectionQuery(
   const page = ref(1)
   const pageSize = ref(defaultPageSize)
 
-  // Reset to the first page whenever the page size changes (pagination only)
+  // Server-side list state (inert unless one of filters/sort/search is passed)
+  const listQueryEnabled = options.filters !== undefined || options.sort !== undefined || options.search !== undefined
+  const filters = ref<CollectionFilter[]>(options.filters || [])
+  const sort = ref<CollectionSort[]>(options.sort || [])
+  const search = ref(options.search || '')
+
+  // Reset to the first page whenever the page size or the result set changes (pagination only)
   if (paginationEnabled) {
-    watch(pageSize, () => { page.value = 1 })
+    watch([pageSize, filters, sort, search], () => { page.value = 1 }, { deep: true })
   }
 
-  // When pagination is enabled, fold page/pageSize into the outgoing query so a
-  // single reactive source drives both the cache key and the fetch.
+  // When pagination or list state is enabled, fold it into the outgoing query so
+  // a single reactive source drives both the cache key and the fetch.
   const effectiveQuery = computed(() => ({
     ...(options.query?.value || {}),
-    page: page.value,
-    pageSize: pageSize.value
+    ...(listQueryEnabled
+      ? serializeCollectionListQuery({ filters: filters.value, sort: sort.value, q: search.value })
+      : {}),
+    ...(paginationEnabled ? { page: page.value, pageSize: pageSize.value } : {})
   }))
-  const queryForFetch = paginationEnabled ? effectiveQuery : options.query
+  const queryForFetch = paginationEnabled || listQueryEnabled ? effectiveQuery : options.query
 
   // Generate cache key based on collection + query params
   const cacheKey = computed(() => {
@@ -241,6 +278,9 @@ export async function useCollectionQuery(
     paginationData,
     setPage,
     nextPage,
-    prevPage
+    prevPage,
+    filters,
+    sort,
+    search
   }
 }
@@ -22,6 +22,8 @@ interface RuntimeFieldMeta {
   label: string
   area?: 'main' | 'sidebar' | 'meta'
   displayAs?: string
+  /** Allowed values of an `enum` field */
+  options?: { value: string, label: string, color?: string }[]
 }
 
 /** Collection kind determines how it appears in the admin UI and what default behaviors apply. */
@@ -93,6 +95,12 @@ interface CollectionConfig {
     enabled: boolean
     orderField?: string
   }
+  /**
+   * Soft delete: DELETE moves items to the trash instead of removing them.
+   * Generated by CLI when the collection config sets `softDelete: true`.
+   * Enables the `trash` layout and `restore`/`purge` in useCollectionMutation.
+   */
+  softDelete?: boolean
   /**
    * Admin navigation configuration.
    * Controls how this collection appears in the admin sidebar.
@@ -118,7 +126,8 @@ interface CollectionConfig {
   display?: DisplayConfig
   /**
    * Runtime field metadata for display components.
-   * Lightweight projection of schema fields: name, type, label, area, displayAs.
+   * Lightweight projection of schema fields: name, type, label, area, displayAs
+   * and, for enum fields, their options.
    */
   fields?: RuntimeFieldMeta[]
   /**
@@ -9,6 +9,8 @@ interface UseTableDataOptions {
   pageCount: Ref<number>
   serverPagination: boolean
   paginationData?: PaginationData | null
+  /** Rows arrive already filtered by the server (`?q=`); skip local search */
+  serverSearch?: boolean
 }
 
 function filterRowsBySearch(rows: any[], term: string): any[] {
@@ -34,11 +36,12 @@ export function useTableData(options: UseTableDataOptions) {
     page,
     pageCount,
     serverPagination,
-    paginationData
+    paginationData,
+    serverSearch = false
   } = options
 
   // Filtered rows based on search
-  const searchedRows = computed(() => filterRowsBySearch(rows.value, search.value))
+  const searchedRows = computed(() => serverSearch ? rows.value : filterRowsBySearch(rows.value, search.value))
 
   // Calculate pagination totals
   const itemCountFromServer = computed(() => {
@@ -56,7 +59,7 @@ export function useTableData(options: UseTableDataOptions) {
       return itemCountFromServer.value
     }
     // For client-side pagination with search
-    if (search.value === '') return itemCountFromServer.value
+    if (search.value === '' || serverSearch) return itemCountFromServer.value
     return pageTotalFiltered.value
   })
 
@@ -150,7 +150,9 @@ export function useTreeMutation(collection: string) {
           parentId: newParentId,
           order: newOrder
         },
-        credentials: 'include'
+        credentials: 'include',
+        // Ties the server's audit entries to this action
+        headers: { 'X-Correlation-ID': correlationId }
       })
 
       // Visual feedback via row flash animation - call BEFORE cache invalidation
@@ -207,7 +209,8 @@ export function useTreeMutation(collection: string) {
       await $fetch(url, {
         method: 'PATCH',
         body: { updates },
-        credentials: 'include'
+        credentials: 'include',
+        headers: { 'X-Correlation-ID': correlationId }
       })
 
       // Emit hook for event tracking
@@ -35,7 +35,8 @@ export type CroutonItemAction = (action: 'create' | 'update' | 'delete' | 'view'
 export const CROUTON_ITEM_ACTION_KEY: InjectionKey<CroutonItemAction> = Symbol('croutonItemAction')
 
 // Layout types
-export type LayoutType = 'table' | 'list' | 'grid' | 'tree' | 'kanban' | 'workspace'
+// 'trash' lists soft-deleted rows with restore/purge actions (collections with `softDelete`)
+export type LayoutType = 'table' | 'list' | 'grid' | 'tree' | 'kanban' | 'workspace' | 'trash'
 
 // Grid size options (replaces separate grid/cards layouts)
 export type GridSize = 'compact' | 'comfortable' | 'spacious'
@@ -137,6 +138,18 @@ export interface CollectionProps {
   serverPagination?: boolean
   paginationData?: PaginationData | null
   refreshFn?: () => Promise<void> | null
+  /**
+   * Delegate the search box to the server: rows are not filtered locally and
+   * the term is emitted as `update:search` (bind it to `useCollectionQuery`'s `search`).
+   */
+  serverSearch?: boolean
+  /**
+   * Delegate column sorting to the server: the table's sort state is emitted
+   * as `update:sort` (bind it to `useCollectionQuery`'s `sort`) instead of
+   * sorting the loaded rows. On with `serverSearch`; set it when the rows come
+   * from server-side `filters`.
+   */
+  serverSort?: boolean
   create?: boolean
   hierarchy?: HierarchyConfig
   card?: 'Card' | 'CardMini' | 'CardSmall' | 'CardTree' | string
@@ -202,6 +215,8 @@ export interface TableActionsProps {
   selectedRows: any[]
   collection: string
   table?: any
+  /** Collection columns, offered as fields in the bulk-edit slideover */
+  columns?: TableColumn[]
   onDelete?: (ids: string[]) => void
   onColumnVisibilityChange?: (column: string, visible: boolean) => void
 }
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CollectionConflictError,
+  isCollectionConflictError,
+  diffConflict,
+  resolveConflict
+} from '../collectionConflict'
+
+const base = { id: 'p1', name: 'Chair', description: 'Oak', price: 10, tags: ['a'], updatedAt: '2025-01-01T00:00:00.000Z' }
+
+describe('diffConflict', () => {
+  it('lists only fields where mine and theirs disagree', () => {
+    const mine = { ...base, name: 'Armchair' }
+    const theirs = { ...base, price: 12, updatedAt: '2025-01-02T00:00:00.000Z' }
+    expect(diffConflict(base, mine, theirs).map(f => f.field)).toEqual(['name', 'price'])
+  })
+
+  it('ignores server-managed columns', () => {
+    const theirs = { ...base, updatedAt: '2025-01-02T00:00:00.000Z', updatedBy: 'u2' }
+    expect(diffConflict(base, { ...base }, theirs)).toEqual([])
+  })
+
+  it('defaults to the side that changed the field', () => {
+    const mine = { ...base, name: 'Armchair' }
+    const theirs = { ...base, price: 12 }
+    const fields = diffConflict(base, mine, theirs)
+    expect(fields.find(f => f.field === 'name')!.choice).toBe('mine')
+    expect(fields.find(f => f.field === 'price')!.choice).toBe('theirs')
+  })
+
+  it('flags fields both sides changed', () => {
+    const fields = diffConflict(base, { ...base, name: 'Armchair' }, { ...base, name: 'Stool' })
+    expect(fields[0]).toMatchObject({ field: 'name', bothChanged: true, canKeepBoth: true })
+  })
+
+  it('treats empty strings, undefined and null as equal', () => {
+    expect(diffConflict({ note: null }, { note: '' }, { note: undefined })).toEqual([])
+  })
+
+  it('compares dates by value', () => {
+    const when = '2025-03-01T00:00:00.000Z'
+    expect(diffConflict({ when }, { when: new Date(when) }, { when })).toEqual([])
+  })
+})
+
+describe('resolveConflict', () => {
+  it('applies each choice and takes the server version', () => {
+    const mine = { ...base, name: 'Armchair', description: 'Oak, oiled', tags: ['a', 'b'] }
+    const theirs = { ...base, name: 'Stool', description: 'Walnut', tags: ['a', 'c'], updatedAt: '2025-01-02T00:00:00.000Z' }
+    const fields = diffConflict(base, mine, theirs)
+    fields.find(f => f.field === 'name')!.choice = 'theirs'
+    fields.find(f => f.field === 'description')!.choice = 'both'
+    fields.find(f => f.field === 'tags')!.choice = 'both'
+
+    expect(resolveConflict(mine, theirs, fields)).toEqual({
+      ...base,
+      name: 'Stool',
+      description: 'Oak, oiled\n\nWalnut',
+      tags: ['a', 'b', 'c'],
+      updatedAt: '2025-01-02T00:00:00.000Z'
+    })
+  })
+})
+
+describe('CollectionConflictError', () => {
+  it('carries the current row and the rejected updates', () => {
+    const error = new CollectionConflictError('products', 'p1', { id: 'p1' }, { name: 'x' })
+    expect(isCollectionConflictError(error)).toBe(true)
+    expect(isCollectionConflictError(new Error('nope'))).toBe(false)
+    expect(error).toMatchObject({ status: 409, current: { id: 'p1' }, updates: { name: 'x' } })
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildReferenceLookup,
+  resolveImportReferences,
+  planImport,
+  summarizeImportPlan,
+  importPlanOperations,
+  type ImportReference
+} from '../collectionImportPlan'
+
+const messages = {
+  requiredFieldMissing: 'Required',
+  missingKey: 'Match key is empty',
+  duplicateKey: (row: number) => `Same key as row ${row}`,
+  ambiguousMatch: 'Matches more than one row',
+  unknownReference: (value: string) => `"${value}" not found`,
+  ambiguousReference: (value: string) => `"${value}" is ambiguous`
+}
+
+const categories: ImportReference = {
+  lookup: buildReferenceLookup([
+    { id: 'c1', title: 'Chairs' },
+    { id: 'c2', title: 'Tables' },
+    { id: 'c3', title: 'Lamps' },
+    { id: 'c4', title: 'lamps' }
+  ], 'title'),
+  ids: new Set(['c1', 'c2', 'c3', 'c4'])
+}
+
+const existing = [
+  { id: 'p1', sku: 'CH-1', name: 'Oak chair', price: 120, categoryId: 'c1', updatedAt: '2025-01-01T00:00:00.000Z' },
+  { id: 'p2', sku: 'TB-1', name: 'Oak table', price: 400, categoryId: 'c2', updatedAt: '2025-01-01T00:00:00.000Z' }
+]
+
+describe('resolveImportReferences', () => {
+  it('replaces titles with ids, case-insensitively', () => {
+    const { data, errors } = resolveImportReferences({ categoryId: ' chairs ' }, { categoryId: categories }, messages)
+    expect(errors).toEqual({})
+    expect(data.categoryId).toBe('c1')
+  })
+
+  it('keeps values that already are ids', () => {
+    expect(resolveImportReferences({ categoryId: 'c2' }, { categoryId: categories }, messages).data.categoryId).toBe('c2')
+  })
+
+  it('reports unknown and ambiguous titles', () => {
+    expect(resolveImportReferences({ categoryId: 'Sofas' }, { categoryId: categories }, messages).errors)
+      .toEqual({ categoryId: '"Sofas" not found' })
+    expect(resolveImportReferences({ categoryId: 'Lamps' }, { categoryId: categories }, messages).errors)
+      .toEqual({ categoryId: '"Lamps" is ambiguous' })
+  })
+
+  it('splits comma separated lists for multi-reference fields', () => {
+    const { data } = resolveImportReferences({ tags: 'Chairs, Tables' }, { tags: { ...categories, multiple: true } }, messages)
+    expect(data.tags).toEqual(['c1', 'c2'])
+  })
+})
+
+describe('planImport', () => {
+  it('creates every row without a match field', () => {
+    const plan = planImport([{ rowIndex: 0, data: { sku: 'CH-1' } }], existing, { messages })
+    expect(plan[0]).toMatchObject({ status: 'new', data: { sku: 'CH-1' } })
+  })
+
+  it('classifies rows as new, changed and unchanged against existing rows', () => {
+    const plan = planImport([
+      { rowIndex: 0, data: { sku: 'ch-1', name: 'Oak chair', price: 135 } },
+      { rowIndex: 1, data: { sku: 'TB-1', name: 'Oak table', price: '400' } },
+      { rowIndex: 2, data: { sku: 'LP-1', name: 'Desk lamp' } }
+    ], existing, { matchField: 'sku', messages })
+
+    expect(plan.map(row => row.status)).toEqual(['changed', 'unchanged', 'new'])
+    expect(plan[0]).toMatchObject({
+      id: 'p1',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      data: { sku: 'ch-1', price: 135 },
+      changes: { price: { from: 120, to: 135 } }
+    })
+  })
+
+  it('flags duplicate keys in the file and empty keys', () => {
+    const plan = planImport([
+      { rowIndex: 0, data: { sku: 'LP-1' } },
+      { rowIndex: 1, data: { sku: 'lp-1 ' } },
+      { rowIndex: 2, data: { name: 'No sku' } }
+    ], existing, { matchField: 'sku', messages })
+
+    expect(plan[1]).toMatchObject({ status: 'error', errors: { sku: 'Same key as row 1' } })
+    expect(plan[2]).toMatchObject({ status: 'error', errors: { sku: 'Match key is empty' } })
+  })
+
+  it('enforces required fields on new rows only', () => {
+    const plan = planImport([
+      { rowIndex: 0, data: { sku: 'CH-1', price: 99 } },
+      { rowIndex: 1, data: { sku: 'LP-1', price: 20 } }
+    ], existing, { matchField: 'sku', requiredFields: ['name'], messages })
+
+    expect(plan[0].status).toBe('changed')
+    expect(plan[1]).toMatchObject({ status: 'error', errors: { name: 'Required' } })
+  })
+
+  it('refuses keys that match several existing rows', () => {
+    const plan = planImport([{ rowIndex: 0, data: { sku: 'X' } }], [{ id: 'a', sku: 'X' }, { id: 'b', sku: 'x' }], { matchField: 'sku', messages })
+    expect(plan[0].errors).toEqual({ sku: 'Matches more than one row' })
+  })
+
+  it('carries validation and reference errors', () => {
+    const plan = planImport([
+      { rowIndex: 0, data: {}, errors: { name: 'Required' } },
+      { rowIndex: 1, data: { sku: 'CH-1', categoryId: 'Sofas' } }
+    ], existing, { matchField: 'sku', references: { categoryId: categories }, messages })
+
+    expect(plan.map(row => row.errors)).toEqual([{ name: 'Required' }, { categoryId: '"Sofas" not found' }])
+  })
+
+  it('compares resolved references with the stored ids', () => {
+    const plan = planImport([{ rowIndex: 0, data: { sku: 'CH-1', categoryId: 'Chairs' } }], existing, {
+      matchField: 'sku',
+      references: { categoryId: categories },
+      messages
+    })
+    expect(plan[0].status).toBe('unchanged')
+  })
+})
+
+describe('importPlanOperations', () => {
+  it('turns new rows into creates and changed rows into guarded updates', () => {
+    const plan = planImport([
+      { rowIndex: 0, data: { sku: 'CH-1', price: 135 } },
+      { rowIndex: 1, data: { sku: 'TB-1' } },
+      { rowIndex: 2, data: { sku: 'LP-1' } }
+    ], existing, { matchField: 'sku', messages })
+
+    const { operations, rows } = importPlanOperations(plan)
+    expect(operations).toEqual([
+      { op: 'update', id: 'p1', data: { price: 135 }, expectedUpdatedAt: '2025-01-01T00:00:00.000Z' },
+      { op: 'create', data: { sku: 'LP-1' } }
+    ])
+    expect(rows.map(row => row.rowIndex)).toEqual([0, 2])
+    expect(summarizeImportPlan(plan)).toEqual({ new: 1, changed: 1, unchanged: 1, error: 0 })
+  })
+})
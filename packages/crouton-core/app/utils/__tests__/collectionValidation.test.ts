@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CollectionValidationError,
+  collectionValidationIssues,
+  isCollectionValidationError
+} from '../collectionValidation'
+
+describe('collectionValidationIssues', () => {
+  it('reads the issues of a 422 from a generated endpoint', () => {
+    const error = { statusCode: 422, data: { data: { issues: [{ path: ['email'], message: 'email is already in use' }] } } }
+    expect(collectionValidationIssues(error)).toEqual([{ name: 'email', message: 'email is already in use' }])
+  })
+
+  it('reads a ZodError serialized into the message of a 400', () => {
+    const zodIssues = [{ code: 'custom', path: ['translations', 'en', 'title'], message: 'Title is required' }]
+    const error = { statusCode: 400, data: { message: JSON.stringify(zodIssues, null, 2) } }
+    expect(collectionValidationIssues(error)).toEqual([{ name: 'translations.en.title', message: 'Title is required' }])
+  })
+
+  it('returns null for other failures', () => {
+    expect(collectionValidationIssues({ statusCode: 500, data: { data: { issues: [] } } })).toBeNull()
+    expect(collectionValidationIssues({ statusCode: 400, data: { message: 'Missing product ID' } })).toBeNull()
+    expect(collectionValidationIssues(new Error('offline'))).toBeNull()
+  })
+})
+
+describe('CollectionValidationError', () => {
+  it('carries the issues and joins their messages', () => {
+    const error = new CollectionValidationError('shopEvents', [
+      { name: 'endDate', message: 'End date must be after the start date' },
+      { name: 'seats', message: 'seats must be at least 1' }
+    ])
+    expect(isCollectionValidationError(error)).toBe(true)
+    expect(error.status).toBe(422)
+    expect(error.message).toBe('End date must be after the start date; seats must be at least 1')
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { resolveKanbanConfig } from '../kanbanConfig'
+
+const fields = [
+  { name: 'title', type: 'string' },
+  {
+    name: 'stage',
+    type: 'enum',
+    options: [
+      { value: 'todo', label: 'To do' },
+      { value: 'done', label: 'Done', color: 'success' }
+    ]
+  }
+]
+
+describe('resolveKanbanConfig', () => {
+  it('groups by status when there is no config and no enum field', () => {
+    expect(resolveKanbanConfig(undefined, [{ name: 'title', type: 'string' }])).toEqual({ groupField: 'status', orderField: 'order' })
+  })
+
+  it('groups by the first enum field with its options as columns', () => {
+    expect(resolveKanbanConfig(undefined, fields)).toEqual({
+      groupField: 'stage',
+      orderField: 'order',
+      columns: [
+        { value: 'todo', label: 'To do' },
+        { value: 'done', label: 'Done', color: 'success' }
+      ]
+    })
+  })
+
+  it('fills the columns of a configured enum group field', () => {
+    const config = resolveKanbanConfig({ groupField: 'stage', showCounts: false }, fields)
+    expect(config.columns?.map(column => column.value)).toEqual(['todo', 'done'])
+    expect(config.showCounts).toBe(false)
+  })
+
+  it('keeps explicit columns and non-enum group fields as they are', () => {
+    const columns = [{ value: 'done', label: 'Finished' }]
+    expect(resolveKanbanConfig({ groupField: 'stage', columns }, fields).columns).toBe(columns)
+    expect(resolveKanbanConfig({ groupField: 'title' }, fields).columns).toBeUndefined()
+  })
+})
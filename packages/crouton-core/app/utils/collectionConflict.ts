@@ -0,0 +1,136 @@
+/**
+ * Optimistic concurrency helpers.
+ *
+ * Generated PATCH endpoints accept an `expectedUpdatedAt` precondition and
+ * answer 409 with the current server row when someone else saved first.
+ * `useCollectionMutation().update()` turns that response into a
+ * `CollectionConflictError`; the helpers below build and apply the
+ * field-by-field merge shown by `CroutonFormConflictDialog`.
+ */
+
+/** Server-managed columns that never take part in a merge */
+const CONFLICT_IGNORED_FIELDS = new Set([
+  'id', 'teamId', 'owner', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy',
+  'deletedAt', 'deletedBy', 'optimisticId', 'optimisticAction'
+])
+
+export type ConflictChoice = 'mine' | 'theirs' | 'both'
+
+export interface ConflictField {
+  field: string
+  /** Value when the form was opened */
+  base: unknown
+  /** Value in the local (unsaved) edit */
+  mine: unknown
+  /** Value currently on the server */
+  theirs: unknown
+  /** Both sides changed the field since it was loaded */
+  bothChanged: boolean
+  /** Values can be combined (text is joined, lists are unioned) */
+  canKeepBoth: boolean
+  choice: ConflictChoice
+}
+
+/**
+ * Thrown by `update()` when the server rejects a stale write (HTTP 409).
+ */
+export class CollectionConflictError extends Error {
+  readonly status = 409
+
+  constructor(
+    readonly collection: string,
+    readonly id: string,
+    /** The row as it currently is on the server */
+    readonly current: Record<string, unknown>,
+    /** The updates that were rejected */
+    readonly updates: Record<string, unknown>
+  ) {
+    super(`${collection} "${id}" was modified by someone else`)
+    this.name = 'CollectionConflictError'
+  }
+}
+
+export function isCollectionConflictError(error: unknown): error is CollectionConflictError {
+  return error instanceof CollectionConflictError
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (value === '' || value === undefined) return null
+  return value
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+}
+
+/**
+ * List the fields where the local edit and the server row disagree.
+ *
+ * Fields only the other side touched default to `theirs`, everything else
+ * defaults to `mine`, so accepting the defaults never drops a concurrent change
+ * the user did not also make.
+ */
+export function diffConflict(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): ConflictField[] {
+  const fields = new Set([...Object.keys(mine), ...Object.keys(theirs)])
+  const result: ConflictField[] = []
+
+  for (const field of fields) {
+    if (CONFLICT_IGNORED_FIELDS.has(field)) continue
+    if (!(field in mine)) continue
+    if (sameValue(mine[field], theirs[field])) continue
+
+    const mineChanged = !sameValue(mine[field], base[field])
+    const theirsChanged = !sameValue(theirs[field], base[field])
+    const canKeepBoth = (typeof mine[field] === 'string' && typeof theirs[field] === 'string')
+      || (Array.isArray(mine[field]) && Array.isArray(theirs[field]))
+
+    result.push({
+      field,
+      base: base[field],
+      mine: mine[field],
+      theirs: theirs[field],
+      bothChanged: mineChanged && theirsChanged,
+      canKeepBoth,
+      choice: mineChanged ? 'mine' : 'theirs'
+    })
+  }
+
+  return result
+}
+
+function keepBoth(mine: unknown, theirs: unknown): unknown {
+  if (Array.isArray(mine) && Array.isArray(theirs)) {
+    const seen = new Set(mine.map(item => JSON.stringify(item)))
+    return [...mine, ...theirs.filter(item => !seen.has(JSON.stringify(item)))]
+  }
+  if (typeof mine === 'string' && typeof theirs === 'string') {
+    return theirs ? `${mine}\n\n${theirs}` : mine
+  }
+  return mine
+}
+
+/**
+ * Apply the chosen side for every conflicting field on top of the local edit.
+ * The result carries the server's `updatedAt`, ready to be saved again.
+ */
+export function resolveConflict(
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  fields: ConflictField[]
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...mine }
+
+  for (const { field, choice } of fields) {
+    if (choice === 'theirs') merged[field] = theirs[field]
+    else if (choice === 'both') merged[field] = keepBoth(mine[field], theirs[field])
+    else merged[field] = mine[field]
+  }
+
+  if ('updatedAt' in theirs) merged.updatedAt = theirs.updatedAt
+  return merged
+}
@@ -0,0 +1,258 @@
+/**
+ * Import planning: decide per file row whether it creates, updates or leaves
+ * an existing row alone, before anything is written.
+ *
+ * `useCollectionImport().previewImport()` feeds the parsed rows, the existing
+ * collection rows and the reference lookups in here; the resulting plan is
+ * shown by `CroutonImportPreviewModal` and turned into bulk operations by
+ * `importPlanOperations`.
+ */
+import type { CollectionBulkOperation } from '../../shared/utils/collection-bulk'
+
+export type ImportRowStatus = 'new' | 'changed' | 'unchanged' | 'error'
+
+export interface ImportPlanRow {
+  /** Row position in the parsed file */
+  rowIndex: number
+  status: ImportRowStatus
+  /** Values to write: the full row for `new`, only the changed fields for `changed` */
+  data: Record<string, any>
+  /** Matched existing row */
+  id?: string
+  /** `updatedAt` of the matched row, sent as the update precondition */
+  updatedAt?: string | null
+  /** Changed fields with the value currently stored */
+  changes: Record<string, { from: unknown, to: unknown }>
+  /** Field (or `_row`) → message */
+  errors: Record<string, string>
+}
+
+export interface ImportPlanSummary {
+  new: number
+  changed: number
+  unchanged: number
+  error: number
+}
+
+/** Normalized title → id for one referenced collection; `null` marks an ambiguous title */
+export type ReferenceLookup = Map<string, string | null>
+
+export interface ImportReference {
+  lookup: ReferenceLookup
+  /** Ids that exist in the referenced collection (values that already are ids pass through) */
+  ids: Set<string>
+  /** Field holds a list of references (comma separated in CSV) */
+  multiple?: boolean
+}
+
+export interface PlanImportOptions {
+  /** Field that identifies an existing row (e.g. `slug`); omit to always create */
+  matchField?: string | null
+  /** Reference fields to resolve by title */
+  references?: Record<string, ImportReference>
+  /** Fields a new row must have; updates may leave them out */
+  requiredFields?: string[]
+  /** Messages, so the planner stays free of i18n */
+  messages: {
+    requiredFieldMissing: string
+    missingKey: string
+    duplicateKey: (row: number) => string
+    ambiguousMatch: string
+    unknownReference: (value: string) => string
+    ambiguousReference: (value: string) => string
+  }
+}
+
+/** Columns the server manages; never compared or written by an import */
+const IMPORT_IGNORED_FIELDS = new Set([
+  'id', 'teamId', 'owner', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy', 'deletedAt', 'deletedBy'
+])
+
+function normalizeKey(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase()
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (value === '' || value === undefined) return null
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return value
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b))
+}
+
+/**
+ * Build a title lookup for a referenced collection. Titles are matched
+ * case-insensitively; a title used by more than one row is marked ambiguous.
+ */
+export function buildReferenceLookup(items: Record<string, any>[], titleField: string): ReferenceLookup {
+  const lookup: ReferenceLookup = new Map()
+  for (const item of items) {
+    const key = normalizeKey(item[titleField])
+    if (!key) continue
+    lookup.set(key, lookup.has(key) ? null : item.id)
+  }
+  return lookup
+}
+
+function resolveReference(
+  value: unknown,
+  reference: ImportReference,
+  messages: PlanImportOptions['messages']
+): { value?: string, error?: string } {
+  const raw = String(value).trim()
+  if (reference.ids.has(raw)) return { value: raw }
+  const match = reference.lookup.get(normalizeKey(raw))
+  if (match === null) return { error: messages.ambiguousReference(raw) }
+  if (match === undefined) return { error: messages.unknownReference(raw) }
+  return { value: match }
+}
+
+/**
+ * Replace reference titles with ids. Values that already are ids are kept.
+ */
+export function resolveImportReferences(
+  data: Record<string, any>,
+  references: Record<string, ImportReference>,
+  messages: PlanImportOptions['messages']
+): { data: Record<string, any>, errors: Record<string, string> } {
+  const resolved = { ...data }
+  const errors: Record<string, string> = {}
+
+  for (const [field, reference] of Object.entries(references)) {
+    const value = data[field]
+    if (value === undefined || value === null || value === '') continue
+
+    const values = reference.multiple
+      ? (Array.isArray(value) ? value : String(value).split(',')).map(v => String(v).trim()).filter(Boolean)
+      : [value]
+    const ids: string[] = []
+    for (const item of values) {
+      const result = resolveReference(item, reference, messages)
+      if (result.error) {
+        errors[field] = result.error
+        break
+      }
+      ids.push(result.value!)
+    }
+    if (!errors[field]) resolved[field] = reference.multiple ? ids : ids[0]
+  }
+
+  return { data: resolved, errors }
+}
+
+/**
+ * Classify every row as new, changed, unchanged or error.
+ *
+ * With a `matchField`, rows are matched to existing rows on that field
+ * (trimmed, case-insensitive). A key that appears twice in the file is an
+ * error on the later row, so one file cannot update the same row twice.
+ * Required fields are only enforced on rows that create.
+ */
+export function planImport(
+  rows: { rowIndex: number, data: Record<string, any>, errors?: Record<string, string> }[],
+  existing: Record<string, any>[],
+  options: PlanImportOptions
+): ImportPlanRow[] {
+  const { matchField, references = {}, requiredFields = [], messages } = options
+
+  const created = (base: { rowIndex: number, changes: {} }, data: Record<string, any>): ImportPlanRow => {
+    const errors: Record<string, string> = {}
+    for (const field of requiredFields) {
+      if (data[field] === undefined || data[field] === null || data[field] === '') errors[field] = messages.requiredFieldMissing
+    }
+    return { ...base, status: Object.keys(errors).length > 0 ? 'error' : 'new', data, errors }
+  }
+
+  const existingByKey = new Map<string, Record<string, any> | null>()
+  if (matchField) {
+    for (const item of existing) {
+      const key = normalizeKey(item[matchField])
+      if (!key) continue
+      existingByKey.set(key, existingByKey.has(key) ? null : item)
+    }
+  }
+
+  const seenKeys = new Map<string, number>()
+
+  return rows.map(({ rowIndex, data: raw, errors: rowErrors }): ImportPlanRow => {
+    const base = { rowIndex, changes: {} }
+    if (rowErrors && Object.keys(rowErrors).length > 0) {
+      return { ...base, status: 'error', data: raw, errors: rowErrors }
+    }
+
+    const { data, errors } = resolveImportReferences(raw, references, messages)
+    if (Object.keys(errors).length > 0) {
+      return { ...base, status: 'error', data, errors }
+    }
+
+    if (!matchField) {
+      return created(base, data)
+    }
+
+    const key = normalizeKey(data[matchField])
+    if (!key) {
+      return { ...base, status: 'error', data, errors: { [matchField]: messages.missingKey } }
+    }
+    if (seenKeys.has(key)) {
+      return { ...base, status: 'error', data, errors: { [matchField]: messages.duplicateKey(seenKeys.get(key)! + 1) } }
+    }
+    seenKeys.set(key, rowIndex)
+
+    const match = existingByKey.get(key)
+    if (match === null) {
+      return { ...base, status: 'error', data, errors: { [matchField]: messages.ambiguousMatch } }
+    }
+    if (!match) {
+      return created(base, data)
+    }
+
+    const changes: ImportPlanRow['changes'] = {}
+    const changed: Record<string, any> = {}
+    for (const [field, value] of Object.entries(data)) {
+      if (IMPORT_IGNORED_FIELDS.has(field) || sameValue(value, match[field])) continue
+      changes[field] = { from: match[field], to: value }
+      changed[field] = value
+    }
+
+    return {
+      rowIndex,
+      status: Object.keys(changes).length > 0 ? 'changed' : 'unchanged',
+      data: changed,
+      id: match.id,
+      updatedAt: match.updatedAt ?? null,
+      changes,
+      errors: {}
+    }
+  })
+}
+
+export function summarizeImportPlan(plan: ImportPlanRow[]): ImportPlanSummary {
+  const summary: ImportPlanSummary = { new: 0, changed: 0, unchanged: 0, error: 0 }
+  for (const row of plan) summary[row.status]++
+  return summary
+}
+
+/**
+ * Bulk operations for the rows that write something. `rows[i]` is the plan row
+ * behind `operations[i]`, to map per-operation results back to the file.
+ */
+export function importPlanOperations(plan: ImportPlanRow[]): { operations: CollectionBulkOperation[], rows: ImportPlanRow[] } {
+  const operations: CollectionBulkOperation[] = []
+  const rows: ImportPlanRow[] = []
+
+  for (const row of plan) {
+    if (row.status === 'new') {
+      operations.push({ op: 'create', data: row.data })
+    } else if (row.status === 'changed') {
+      operations.push({ op: 'update', id: row.id!, data: row.data, ...(row.updatedAt ? { expectedUpdatedAt: row.updatedAt } : {}) })
+    } else {
+      continue
+    }
+    rows.push(row)
+  }
+
+  return { operations, rows }
+}
@@ -0,0 +1,61 @@
+/**
+ * Server-side validation errors.
+ *
+ * Generated POST/PATCH endpoints validate every write again: the zod schema
+ * answers 400, and checks only the server can make (unique fields, cross-field
+ * rules against the stored row) answer 422. Both carry zod-style issues.
+ * `useCollectionMutation()` turns them into a `CollectionValidationError`,
+ * which generated forms put on the fields and in `CroutonValidationErrorSummary`.
+ */
+
+/** Same shape as a Nuxt UI `FormError`, so issues can go straight to `setErrors()` */
+export interface CollectionValidationIssue {
+  /** Field path, dot-separated (e.g. `endDate`, `translations.en.title`) */
+  name: string
+  message: string
+}
+
+/**
+ * Thrown by `create()`/`update()` when the server rejects the data.
+ */
+export class CollectionValidationError extends Error {
+  constructor(
+    readonly collection: string,
+    readonly issues: CollectionValidationIssue[],
+    readonly status: number = 422
+  ) {
+    super(issues.map(issue => issue.message).join('; '))
+    this.name = 'CollectionValidationError'
+  }
+}
+
+export function isCollectionValidationError(error: unknown): error is CollectionValidationError {
+  return error instanceof CollectionValidationError
+}
+
+/**
+ * Read the validation issues from a failed `$fetch`. Returns null for anything
+ * that isn't a 400/422 with issues (auth errors, server errors, ...).
+ */
+export function collectionValidationIssues(error: any): CollectionValidationIssue[] | null {
+  if (error?.statusCode !== 400 && error?.statusCode !== 422) return null
+
+  let issues: unknown = error.data?.data?.issues
+  // readValidatedBody() serializes the ZodError as its message: the issue list as JSON
+  if (!Array.isArray(issues) && typeof error.data?.message === 'string') {
+    try {
+      issues = JSON.parse(error.data.message)
+    } catch {
+      return null
+    }
+  }
+  if (!Array.isArray(issues)) return null
+
+  const result = issues
+    .filter((issue: any) => typeof issue?.message === 'string')
+    .map((issue: any) => ({
+      name: Array.isArray(issue.path) ? issue.path.join('.') : String(issue.path ?? ''),
+      message: issue.message as string
+    }))
+  return result.length > 0 ? result : null
+}
@@ -0,0 +1,35 @@
+import type { KanbanConfig } from '../types/table'
+
+/**
+ * Kanban defaults derived from the collection's runtime field metadata.
+ *
+ * Without an explicit `kanban` config the board groups by the first `enum`
+ * field (falling back to `status`), and an enum group field always gets its
+ * options as columns — in declared order, with their labels and colours —
+ * so empty columns show up too.
+ */
+interface KanbanFieldMeta {
+  name: string
+  type: string
+  options?: { value: string, label: string, color?: string }[]
+}
+
+export function resolveKanbanConfig(config: KanbanConfig | null | undefined, fields: KanbanFieldMeta[] = []): KanbanConfig {
+  const groupField = config?.groupField
+    || fields.find(field => field.type === 'enum')?.name
+    || 'status'
+  const resolved: KanbanConfig = { orderField: 'order', ...config, groupField }
+
+  if (!resolved.columns?.length) {
+    const enumField = fields.find(field => field.name === groupField && field.type === 'enum')
+    if (enumField?.options?.length) {
+      resolved.columns = enumField.options.map(option => ({
+        value: option.value,
+        label: option.label,
+        ...(option.color ? { color: option.color } : {})
+      }))
+    }
+  }
+
+  return resolved
+}
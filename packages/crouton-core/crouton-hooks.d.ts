@@ -6,7 +6,7 @@
  */
 
 export interface CroutonMutationEvent {
-  operation: 'create' | 'update' | 'delete' | 'move' | 'reorder'
+  operation: 'create' | 'update' | 'delete' | 'move' | 'reorder' | 'restore' | 'purge'
   collection: string
   itemId?: string
   itemIds?: string[]
@@ -57,9 +57,49 @@ export interface CroutonOperationEvent {
   timestamp?: number
 }
 
+/**
+ * A row touched by a collection mutation, as stored before and after it.
+ * `before` is missing for creates, `after` for deletes and purges.
+ */
+export interface CroutonCollectionMutationItem {
+  id: string
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+}
+
+/**
+ * Payload for the crouton:collection-mutation Nitro hook.
+ *
+ * The generated collection endpoints (POST, PATCH, DELETE, bulk, move,
+ * reorder, restore, purge) call it after every write, inside the request, so
+ * listeners see each change whoever made it: the app, an API key, a script or
+ * a sync. Emit it with emitCollectionMutation(event, payload).
+ */
+export interface CroutonCollectionMutationEvent {
+  operation: 'create' | 'update' | 'delete' | 'move' | 'reorder' | 'restore' | 'purge'
+  /** Collection key, e.g. 'shopProducts' */
+  collection: string
+  teamId: string
+  /** Who made the change; missing for system writes */
+  userId?: string
+  userName?: string
+  items: CroutonCollectionMutationItem[]
+  /** What made the change, e.g. 'api' (default), 'crouton-sales:sync' */
+  source?: string
+  correlationId?: string
+  /** Milliseconds since epoch */
+  timestamp?: number
+  /**
+   * Keeps work running after the response (the request's event.waitUntil),
+   * e.g. sending webhooks. Missing when there is no request.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void
+}
+
 declare module 'nitropack' {
   interface NitroRuntimeHooks {
     'crouton:operation': (payload: CroutonOperationEvent) => void | Promise<void>
+    'crouton:collection-mutation': (payload: CroutonCollectionMutationEvent) => void | Promise<void>
   }
 }
 
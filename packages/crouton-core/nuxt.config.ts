@@ -60,7 +60,11 @@ export default defineNuxtConfig({
   runtimeConfig: {
     encryptionKey: '', // NUXT_ENCRYPTION_KEY - base64-encoded 32-byte key for AES-256-GCM
     crouton: {
-      serverTiming: true // Set to false to disable Server-Timing headers
+      serverTiming: true, // Set to false to disable Server-Timing headers
+      jobs: {
+        enabled: true, // NUXT_CROUTON_JOBS_ENABLED=false stops this instance running scheduled jobs
+        schedules: {} as Record<string, string | false> // Per-job cron override, or false to unschedule
+      }
     }
   },
 
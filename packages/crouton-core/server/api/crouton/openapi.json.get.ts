@@ -0,0 +1,19 @@
+/**
+ * GET /api/crouton/openapi.json
+ *
+ * OpenAPI 3.1 document of the app's generated collection endpoints, for
+ * typed client generators. Built by the app's generated
+ * server/utils/crouton-openapi.ts (see @fyit/crouton-core/shared/utils/collection-openapi).
+ */
+
+// Auto-imported by Nitro from the consuming app's generated
+// server/utils/crouton-openapi.ts. Apps generated before the registry existed
+// won't have it, so usage is guarded with `typeof`.
+declare const croutonOpenApiDocument: (() => Record<string, unknown>) | undefined
+
+export default defineEventHandler(() => {
+  if (typeof croutonOpenApiDocument !== 'function') {
+    throw createError({ status: 404, statusText: 'No OpenAPI registry: run crouton generate' })
+  }
+  return croutonOpenApiDocument()
+})
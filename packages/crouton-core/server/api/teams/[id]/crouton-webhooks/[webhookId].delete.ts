@@ -0,0 +1,19 @@
+/**
+ * DELETE /api/teams/[id]/crouton-webhooks/[webhookId]
+ *
+ * Remove a webhook and its delivery log.
+ * Requires team admin or owner role.
+ */
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { deleteCroutonWebhook } from '../../../../database/queries/webhooks'
+
+export default defineEventHandler(async (event) => {
+  const { webhookId } = getRouterParams(event)
+  if (!webhookId) {
+    throw createError({ status: 400, statusText: 'Missing webhook ID' })
+  }
+
+  const { team } = await requireTeamAdmin(event)
+
+  return deleteCroutonWebhook(webhookId, team.id)
+})
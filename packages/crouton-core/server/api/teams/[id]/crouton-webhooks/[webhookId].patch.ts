@@ -0,0 +1,48 @@
+/**
+ * PATCH /api/teams/[id]/crouton-webhooks/[webhookId]
+ *
+ * Change a webhook's URL, description, subscriptions or active state.
+ * Requires team admin or owner role.
+ */
+import { z } from 'zod'
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { updateCroutonWebhook } from '../../../../database/queries/webhooks'
+import { WEBHOOK_OPERATIONS, validateWebhookUrl } from '../../../../utils/webhooks'
+import type { CroutonWebhook } from '../../../../../types/webhooks'
+
+const updateWebhookSchema = z.object({
+  url: z.string().trim().min(1, 'URL is required').max(2000).optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  collections: z.array(z.string().min(1)).min(1, 'Pick at least one collection').max(200).optional(),
+  operations: z.array(z.enum(WEBHOOK_OPERATIONS as [string, ...string[]])).min(1, 'Pick at least one operation').optional(),
+  isActive: z.boolean().optional()
+})
+
+export default defineEventHandler(async (event) => {
+  const { webhookId } = getRouterParams(event)
+  if (!webhookId) {
+    throw createError({ status: 400, statusText: 'Missing webhook ID' })
+  }
+
+  const { team, user } = await requireTeamAdmin(event)
+
+  const result = updateWebhookSchema.safeParse(await readBody(event))
+  const problems = !result.success
+    ? result.error.issues.map(issue => issue.message)
+    : result.data.url ? validateWebhookUrl(result.data.url, { allowInsecure: import.meta.dev }) : []
+  if (!result.success || problems.length > 0) {
+    throw createError({
+      status: 400,
+      statusText: 'Invalid webhook',
+      message: problems.join(', ')
+    })
+  }
+
+  const { collections, operations, description, ...rest } = result.data
+  return updateCroutonWebhook(webhookId, team.id, user.id, {
+    ...rest,
+    ...(description !== undefined && { description: description || null }),
+    ...(collections && { collections: [...new Set(collections)] }),
+    ...(operations && { operations: [...new Set(operations)] as CroutonWebhook['operations'] })
+  })
+})
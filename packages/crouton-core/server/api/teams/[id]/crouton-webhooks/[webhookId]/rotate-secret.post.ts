@@ -0,0 +1,25 @@
+/**
+ * POST /api/teams/[id]/crouton-webhooks/[webhookId]/rotate-secret
+ *
+ * Replace a webhook's signing secret. Deliveries are signed with the new one
+ * right away; the response is the only time it is shown.
+ * Requires team admin or owner role.
+ */
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { updateCroutonWebhook } from '../../../../../database/queries/webhooks'
+import { encryptSecret } from '../../../../../utils/encryption'
+import { generateWebhookSecret } from '../../../../../utils/webhooks'
+
+export default defineEventHandler(async (event) => {
+  const { webhookId } = getRouterParams(event)
+  if (!webhookId) {
+    throw createError({ status: 400, statusText: 'Missing webhook ID' })
+  }
+
+  const { team, user } = await requireTeamAdmin(event)
+
+  const secret = generateWebhookSecret()
+  const webhook = await updateCroutonWebhook(webhookId, team.id, user.id, { secret: await encryptSecret(secret) })
+
+  return { ...webhook, secret }
+})
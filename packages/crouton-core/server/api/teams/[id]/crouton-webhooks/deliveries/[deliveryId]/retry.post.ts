@@ -0,0 +1,25 @@
+/**
+ * POST /api/teams/[id]/crouton-webhooks/deliveries/[deliveryId]/retry
+ *
+ * Send a delivery again now: a pending retry, a dead delivery (one more
+ * attempt) or a delivered one. Returns the delivery after the send pass
+ * (still pending if older due deliveries filled the pass).
+ * Requires team admin or owner role.
+ */
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { getCroutonWebhookDelivery, retryCroutonWebhookDelivery } from '../../../../../../database/queries/webhooks'
+import { processWebhookQueue } from '../../../../../../utils/webhooks'
+
+export default defineEventHandler(async (event) => {
+  const { deliveryId } = getRouterParams(event)
+  if (!deliveryId) {
+    throw createError({ status: 400, statusText: 'Missing delivery ID' })
+  }
+
+  const { team } = await requireTeamAdmin(event)
+
+  await retryCroutonWebhookDelivery(deliveryId, team.id)
+  await processWebhookQueue(useDB())
+
+  return getCroutonWebhookDelivery(deliveryId, team.id)
+})
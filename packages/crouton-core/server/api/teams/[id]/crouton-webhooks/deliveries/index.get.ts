@@ -0,0 +1,22 @@
+/**
+ * GET /api/teams/[id]/crouton-webhooks/deliveries
+ *
+ * The team's webhook delivery log, newest first, with payloads and responses.
+ * Filters: ?webhookId=X&status=pending|delivered|dead&page=N&pageSize=N
+ * Requires team admin or owner role.
+ */
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { getCroutonWebhookDeliveries } from '../../../../../database/queries/webhooks'
+
+export default defineEventHandler(async (event) => {
+  const { team } = await requireTeamAdmin(event)
+
+  const query = getQuery(event)
+
+  return getCroutonWebhookDeliveries(team.id, {
+    webhookId: query.webhookId ? String(query.webhookId) : undefined,
+    status: query.status ? String(query.status) : undefined,
+    page: Number.parseInt(String(query.page ?? 1), 10) || 1,
+    pageSize: Number.parseInt(String(query.pageSize ?? 25), 10) || 25
+  })
+})
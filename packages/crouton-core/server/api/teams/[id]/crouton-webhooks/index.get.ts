@@ -0,0 +1,14 @@
+/**
+ * GET /api/teams/[id]/crouton-webhooks
+ *
+ * List the team's webhooks (never their secrets).
+ * Requires team admin or owner role.
+ */
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { getAllCroutonWebhooks } from '../../../../database/queries/webhooks'
+
+export default defineEventHandler(async (event) => {
+  const { team } = await requireTeamAdmin(event)
+
+  return getAllCroutonWebhooks(team.id)
+})
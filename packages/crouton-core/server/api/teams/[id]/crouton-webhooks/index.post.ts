@@ -0,0 +1,52 @@
+/**
+ * POST /api/teams/[id]/crouton-webhooks
+ *
+ * Register a webhook. The response is the only time its signing secret is shown.
+ * Requires team admin or owner role.
+ */
+import { z } from 'zod'
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { createCroutonWebhook } from '../../../../database/queries/webhooks'
+import { encryptSecret } from '../../../../utils/encryption'
+import { WEBHOOK_OPERATIONS, generateWebhookSecret, validateWebhookUrl } from '../../../../utils/webhooks'
+import type { CroutonWebhook } from '../../../../../types/webhooks'
+
+const createWebhookSchema = z.object({
+  url: z.string().trim().min(1, 'URL is required').max(2000),
+  description: z.string().trim().max(200).nullable().optional(),
+  collections: z.array(z.string().min(1)).min(1, 'Pick at least one collection').max(200),
+  operations: z.array(z.enum(WEBHOOK_OPERATIONS as [string, ...string[]])).min(1, 'Pick at least one operation'),
+  isActive: z.boolean().optional()
+})
+
+export default defineEventHandler(async (event) => {
+  const { team, user } = await requireTeamAdmin(event)
+
+  const result = createWebhookSchema.safeParse(await readBody(event))
+  const problems = result.success
+    ? validateWebhookUrl(result.data.url, { allowInsecure: import.meta.dev })
+    : result.error.issues.map(issue => issue.message)
+  if (!result.success || problems.length > 0) {
+    throw createError({
+      status: 400,
+      statusText: 'Invalid webhook',
+      message: problems.join(', ')
+    })
+  }
+
+  const secret = generateWebhookSecret()
+  const webhook = await createCroutonWebhook({
+    teamId: team.id,
+    url: result.data.url,
+    description: result.data.description || null,
+    collections: [...new Set(result.data.collections)],
+    operations: [...new Set(result.data.operations)] as CroutonWebhook['operations'],
+    isActive: result.data.isActive ?? true,
+    secret: await encryptSecret(secret),
+    createdBy: user.id,
+    updatedBy: user.id
+  })
+
+  setResponseStatus(event, 201)
+  return { ...webhook, secret }
+})
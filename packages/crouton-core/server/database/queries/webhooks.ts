@@ -0,0 +1,159 @@
+import { eq, and, desc, sql } from 'drizzle-orm'
+import { croutonWebhooks, croutonWebhookDeliveries } from '../schema/webhooks'
+import type { CroutonWebhook, CroutonWebhookDelivery, NewCroutonWebhook } from '../../../types/webhooks'
+
+// Everything but the secret
+const webhookColumns = {
+  id: croutonWebhooks.id,
+  teamId: croutonWebhooks.teamId,
+  url: croutonWebhooks.url,
+  description: croutonWebhooks.description,
+  collections: croutonWebhooks.collections,
+  operations: croutonWebhooks.operations,
+  isActive: croutonWebhooks.isActive,
+  createdAt: croutonWebhooks.createdAt,
+  updatedAt: croutonWebhooks.updatedAt,
+  createdBy: croutonWebhooks.createdBy,
+  updatedBy: croutonWebhooks.updatedBy
+}
+
+export async function getAllCroutonWebhooks(teamId: string): Promise<CroutonWebhook[]> {
+  const db = useDB()
+
+  return db
+    .select(webhookColumns)
+    .from(croutonWebhooks)
+    .where(eq(croutonWebhooks.teamId, teamId))
+    .orderBy(desc(croutonWebhooks.createdAt))
+}
+
+export async function createCroutonWebhook(data: NewCroutonWebhook): Promise<CroutonWebhook> {
+  const db = useDB()
+
+  const [webhook] = await db
+    .insert(croutonWebhooks)
+    .values(data)
+    .returning(webhookColumns)
+
+  return webhook
+}
+
+export async function updateCroutonWebhook(
+  webhookId: string,
+  teamId: string,
+  userId: string,
+  updates: Partial<Pick<NewCroutonWebhook, 'url' | 'description' | 'collections' | 'operations' | 'isActive' | 'secret'>>
+): Promise<CroutonWebhook> {
+  const db = useDB()
+
+  const [webhook] = await db
+    .update(croutonWebhooks)
+    .set({
+      ...updates,
+      updatedBy: userId
+    })
+    .where(and(eq(croutonWebhooks.id, webhookId), eq(croutonWebhooks.teamId, teamId)))
+    .returning(webhookColumns)
+
+  if (!webhook) {
+    throw createError({
+      status: 404,
+      statusText: 'Webhook not found'
+    })
+  }
+
+  return webhook
+}
+
+export async function deleteCroutonWebhook(webhookId: string, teamId: string) {
+  const db = useDB()
+
+  const [deleted] = await db
+    .delete(croutonWebhooks)
+    .where(and(eq(croutonWebhooks.id, webhookId), eq(croutonWebhooks.teamId, teamId)))
+    .returning({ id: croutonWebhooks.id })
+
+  if (!deleted) {
+    throw createError({
+      status: 404,
+      statusText: 'Webhook not found'
+    })
+  }
+
+  // Not every driver enforces the foreign key cascade
+  await db
+    .delete(croutonWebhookDeliveries)
+    .where(eq(croutonWebhookDeliveries.webhookId, webhookId))
+
+  return { success: true }
+}
+
+export async function getCroutonWebhookDeliveries(
+  teamId: string,
+  filters: { webhookId?: string, status?: string, page?: number, pageSize?: number } = {}
+): Promise<{ items: CroutonWebhookDelivery[], total: number }> {
+  const db = useDB()
+  const page = Math.max(filters.page ?? 1, 1)
+  const pageSize = Math.min(Math.max(filters.pageSize ?? 25, 1), 100)
+
+  const conditions = [eq(croutonWebhookDeliveries.teamId, teamId)]
+  if (filters.webhookId) conditions.push(eq(croutonWebhookDeliveries.webhookId, filters.webhookId))
+  if (filters.status) conditions.push(eq(croutonWebhookDeliveries.status, filters.status))
+
+  const [items, [count]] = await Promise.all([
+    db
+      .select()
+      .from(croutonWebhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(croutonWebhookDeliveries.createdAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize),
+    db
+      .select({ total: sql<number>`count(*)` })
+      .from(croutonWebhookDeliveries)
+      .where(and(...conditions))
+  ])
+
+  return { items, total: count?.total ?? 0 }
+}
+
+export async function getCroutonWebhookDelivery(deliveryId: string, teamId: string): Promise<CroutonWebhookDelivery> {
+  const db = useDB()
+
+  const [delivery] = await db
+    .select()
+    .from(croutonWebhookDeliveries)
+    .where(and(eq(croutonWebhookDeliveries.id, deliveryId), eq(croutonWebhookDeliveries.teamId, teamId)))
+
+  if (!delivery) {
+    throw createError({
+      status: 404,
+      statusText: 'Delivery not found'
+    })
+  }
+
+  return delivery
+}
+
+/**
+ * Queue a delivery for another attempt now. A dead delivery gets one more
+ * attempt; it is dead again if that fails.
+ */
+export async function retryCroutonWebhookDelivery(deliveryId: string, teamId: string): Promise<CroutonWebhookDelivery> {
+  const db = useDB()
+
+  const [delivery] = await db
+    .update(croutonWebhookDeliveries)
+    .set({ status: 'pending', nextAttemptAt: new Date() })
+    .where(and(eq(croutonWebhookDeliveries.id, deliveryId), eq(croutonWebhookDeliveries.teamId, teamId)))
+    .returning()
+
+  if (!delivery) {
+    throw createError({
+      status: 404,
+      statusText: 'Delivery not found'
+    })
+  }
+
+  return delivery
+}
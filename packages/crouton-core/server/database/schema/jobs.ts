@@ -0,0 +1,32 @@
+import { nanoid } from 'nanoid'
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core'
+
+// One row per registered job: the lock, and the last scheduled minute claimed
+export const croutonJobs = sqliteTable('crouton_jobs', {
+  name: text('name').primaryKey(),
+
+  // Id of the run holding the lock; the lock lapses at lockedUntil
+  lockedBy: text('lockedBy'),
+  lockedUntil: integer('lockedUntil', { mode: 'timestamp' }),
+  lastScheduledAt: integer('lastScheduledAt', { mode: 'timestamp' })
+})
+
+export const croutonJobRuns = sqliteTable('crouton_job_runs', {
+  id: text('id').primaryKey().$default(() => nanoid()),
+
+  jobName: text('jobName').notNull(),
+  // 'schedule' | 'manual'
+  trigger: text('trigger').notNull(),
+  // 'running' | 'success' | 'error'
+  status: text('status').notNull().$default(() => 'running'),
+  startedAt: integer('startedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  finishedAt: integer('finishedAt', { mode: 'timestamp' }),
+  durationMs: integer('durationMs'),
+  error: text('error'),
+  // Whatever the job returned, e.g. { deletedCount: 12 }
+  result: text('result', { mode: 'json' }).$type<unknown>(),
+  // User id for manual runs
+  triggeredBy: text('triggeredBy')
+}, table => [
+  index('crouton_job_runs_job_idx').on(table.jobName, table.startedAt)
+])
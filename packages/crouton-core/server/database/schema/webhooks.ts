@@ -0,0 +1,53 @@
+import { nanoid } from 'nanoid'
+import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core'
+
+export const croutonWebhooks = sqliteTable('crouton_webhooks', {
+  id: text('id').primaryKey().$default(() => nanoid()),
+
+  teamId: text('teamId').notNull(),
+
+  url: text('url').notNull(),
+  description: text('description'),
+  // Collection keys, or ['*'] for every collection
+  collections: text('collections', { mode: 'json' }).$type<string[]>().notNull(),
+  // 'create' | 'update' | 'delete'
+  operations: text('operations', { mode: 'json' }).$type<string[]>().notNull(),
+  // Signing secret, encrypted with NUXT_ENCRYPTION_KEY (see encryption.ts)
+  secret: text('secret').notNull(),
+  isActive: integer('isActive', { mode: 'boolean' }).notNull().$default(() => true),
+
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()).$onUpdate(() => new Date()),
+  createdBy: text('createdBy').notNull(),
+  updatedBy: text('updatedBy').notNull()
+}, table => [
+  index('crouton_webhooks_team_idx').on(table.teamId)
+])
+
+export const croutonWebhookDeliveries = sqliteTable('crouton_webhook_deliveries', {
+  id: text('id').primaryKey().$default(() => nanoid()),
+
+  teamId: text('teamId').notNull(),
+  webhookId: text('webhookId').notNull().references(() => croutonWebhooks.id, { onDelete: 'cascade' }),
+
+  // e.g. 'shopProducts.update'
+  event: text('event').notNull(),
+  collection: text('collection').notNull(),
+  itemId: text('itemId').notNull(),
+  payload: text('payload', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+
+  // 'pending' (queued or waiting to retry) | 'delivered' | 'dead'
+  status: text('status').notNull().$default(() => 'pending'),
+  attempts: integer('attempts').notNull().$default(() => 0),
+  nextAttemptAt: integer('nextAttemptAt', { mode: 'timestamp' }),
+  lastAttemptAt: integer('lastAttemptAt', { mode: 'timestamp' }),
+  responseStatus: integer('responseStatus'),
+  responseBody: text('responseBody'),
+  error: text('error'),
+  durationMs: integer('durationMs'),
+
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date())
+}, table => [
+  index('crouton_webhook_deliveries_due_idx').on(table.status, table.nextAttemptAt),
+  index('crouton_webhook_deliveries_team_idx').on(table.teamId, table.createdAt)
+])
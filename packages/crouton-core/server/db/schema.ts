@@ -1,4 +1,6 @@
 // Core database schema — auto-discovered by NuxtHub for all apps extending crouton-core
 export { croutonRedirects } from '../database/schema/redirects'
+export { croutonWebhooks, croutonWebhookDeliveries } from '../database/schema/webhooks'
+export { croutonJobs, croutonJobRuns } from '../database/schema/jobs'
 // NOTE: `layout_configs` moved to @fyit/crouton-layout with the layout engine (#751);
 // it's discovered there via that layer's server/db/schema.ts.
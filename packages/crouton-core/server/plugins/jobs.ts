@@ -0,0 +1,46 @@
+import { defineNitroPlugin, useRuntimeConfig } from 'nitropack/runtime'
+import { processWebhookQueue } from '../utils/webhooks'
+import { registerCroutonJob, runDueJobs } from '../utils/jobs'
+
+/**
+ * Nitro plugin — ticks the scheduled jobs once a minute (see utils/jobs.ts).
+ *
+ * On Cloudflare the tick is the Worker's scheduled handler: add a
+ * `* * * * *` Cron Trigger in wrangler, since a coarser trigger only fires
+ * jobs on the minutes it hits. Elsewhere a self-chained timer fires just
+ * after each minute starts. Set `NUXT_CROUTON_JOBS_ENABLED=false` to stop
+ * this instance ticking (jobs can still be run by hand).
+ *
+ * Also registers core's own job: retrying webhook deliveries that come due
+ * while nothing in the app changes.
+ */
+export default defineNitroPlugin((nitroApp) => {
+  registerCroutonJob({
+    name: 'crouton:webhooks',
+    cron: '* * * * *',
+    description: 'Send webhook deliveries that are due for a retry',
+    run: () => processWebhookQueue(useDB())
+  })
+
+  const config = useRuntimeConfig() as Record<string, any>
+  if (config.crouton?.jobs?.enabled === false || import.meta.prerender) return
+
+  if (import.meta.preset?.startsWith('cloudflare')) {
+    nitroApp.hooks.hook('cloudflare:scheduled', ({ controller, context }) => {
+      context.waitUntil(runDueJobs(useDB(), new Date(controller.scheduledTime)))
+    })
+    return
+  }
+
+  // Not awaited: a long job must not hold back the next minute's tick
+  const tick = () => {
+    runDueJobs(useDB()).catch((error) => {
+      console.error('[crouton] Running scheduled jobs failed', error)
+    })
+    schedule()
+  }
+  // A second past the minute, so the tick lands inside the minute it runs
+  const schedule = () => setTimeout(tick, 60_000 - (Date.now() % 60_000) + 1000)
+
+  schedule()
+})
@@ -0,0 +1,21 @@
+import { defineNitroPlugin } from 'nitropack/runtime'
+import { enqueueWebhookDeliveries, processWebhookQueue } from '../utils/webhooks'
+
+/**
+ * Nitro plugin — sends collection webhooks (see utils/webhooks.ts).
+ *
+ * Deliveries are queued inside the request, so a write never loses its
+ * webhooks; sending waits for nothing and runs after the response through
+ * the payload's waitUntil. Each pass also picks up retries that have come due.
+ */
+export default defineNitroPlugin((nitroApp) => {
+  nitroApp.hooks.hook('crouton:collection-mutation', async (payload) => {
+    const queued = await enqueueWebhookDeliveries(useDB(), payload)
+    if (queued === 0) return
+
+    const sending = processWebhookQueue(useDB()).catch((error) => {
+      console.error('[crouton] Sending webhooks failed', error)
+    })
+    payload.waitUntil?.(sending)
+  })
+})
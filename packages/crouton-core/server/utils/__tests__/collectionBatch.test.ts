@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest'
+import { runCollectionBatch } from '../collectionBatch'
+
+describe('runCollectionBatch', () => {
+  it('uses db.batch when the driver has it (D1, libsql)', async () => {
+    const db = {
+      batch: vi.fn(async (statements: string[]) => statements.map(s => `${s}:done`)),
+      transaction: vi.fn()
+    }
+
+    const results = await runCollectionBatch(db, executor => [`${executor === db}:a`, 'b'])
+
+    expect(db.batch).toHaveBeenCalledWith(['true:a', 'b'])
+    expect(db.transaction).not.toHaveBeenCalled()
+    expect(results).toEqual(['true:a:done', 'b:done'])
+  })
+
+  it('skips db.batch for an empty statement list', async () => {
+    const db = { batch: vi.fn() }
+
+    expect(await runCollectionBatch(db, () => [])).toEqual([])
+    expect(db.batch).not.toHaveBeenCalled()
+  })
+
+  it('falls back to a transaction and awaits statements in order', async () => {
+    const awaited: string[] = []
+    // Drizzle queries are lazy thenables: they run when awaited
+    const statement = (name: string) => ({
+      then: (resolve: (value: string) => void) => {
+        awaited.push(name)
+        resolve(name)
+      }
+    })
+    const tx = { statement }
+    const db = {
+      transaction: vi.fn(async (run: (tx: any) => Promise<any>) => run(tx))
+    }
+
+    const results = await runCollectionBatch(db, executor => [executor.statement('insert'), executor.statement('delete')])
+
+    expect(db.transaction).toHaveBeenCalledTimes(1)
+    expect(awaited).toEqual(['insert', 'delete'])
+    expect(results).toEqual(['insert', 'delete'])
+  })
+
+  it('propagates failures so the transaction rolls back', async () => {
+    const db = {
+      transaction: async (run: (tx: any) => Promise<any>) => run({})
+    }
+
+    await expect(runCollectionBatch(db, () => [Promise.reject(new Error('constraint'))])).rejects.toThrow('constraint')
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { H3Event } from 'h3'
+import { emitCollectionMutation, readCollectionSnapshots } from '../collectionMutation'
+
+const callHook = vi.fn()
+vi.mock('nitropack/runtime', () => ({
+  useNitroApp: () => ({ hooks: { callHook } })
+}))
+
+const event = { context: { correlationId: 'crtn_abc' } } as unknown as H3Event
+
+describe('emitCollectionMutation', () => {
+  beforeEach(() => {
+    callHook.mockReset()
+  })
+
+  it('calls the hook with the requester and the request correlation ID', async () => {
+    await emitCollectionMutation(event, {
+      operation: 'update',
+      collection: 'shopProducts',
+      teamId: 'team-1',
+      user: { id: 'user-1', name: null, email: 'jane@acme.com' },
+      items: [{ id: 'p-1', before: { price: 1 }, after: { price: 2 } }]
+    })
+
+    expect(callHook).toHaveBeenCalledWith('crouton:collection-mutation', expect.objectContaining({
+      operation: 'update',
+      collection: 'shopProducts',
+      teamId: 'team-1',
+      userId: 'user-1',
+      userName: 'jane@acme.com',
+      source: 'api',
+      correlationId: 'crtn_abc',
+      items: [{ id: 'p-1', before: { price: 1 }, after: { price: 2 } }]
+    }))
+    expect(callHook.mock.calls[0]![1]).not.toHaveProperty('user')
+  })
+
+  it('passes the request\'s waitUntil to the listeners', async () => {
+    const waitUntil = vi.fn()
+    const work = Promise.resolve()
+
+    await emitCollectionMutation({ ...event, waitUntil } as unknown as H3Event, {
+      operation: 'create',
+      collection: 'shopProducts',
+      teamId: 'team-1',
+      items: [{ id: 'p-1', after: {} }]
+    })
+    callHook.mock.calls[0]![1].waitUntil(work)
+
+    expect(waitUntil).toHaveBeenCalledWith(work)
+  })
+
+  it('skips mutations that touched no rows', async () => {
+    await emitCollectionMutation(event, { operation: 'reorder', collection: 'shopTags', teamId: 'team-1', items: [] })
+
+    expect(callHook).not.toHaveBeenCalled()
+  })
+
+  it('logs a failing listener without failing the committed write', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    callHook.mockRejectedValue(new Error('disk full'))
+
+    await expect(emitCollectionMutation(null, {
+      operation: 'create',
+      collection: 'shopProducts',
+      teamId: 'team-1',
+      items: [{ id: 'p-1', after: {} }]
+    })).resolves.toBeUndefined()
+    expect(consoleError).toHaveBeenCalledWith('[crouton] crouton:collection-mutation listener failed for shopProducts', expect.any(Error))
+
+    consoleError.mockRestore()
+  })
+})
+
+describe('readCollectionSnapshots', () => {
+  it('reads ids in slices and keys the rows by id', async () => {
+    const ids = Array.from({ length: 200 }, (_, i) => `id-${i}`)
+    const read = vi.fn(async (slice: string[]) => slice.map(id => ({ id })))
+
+    const rows = await readCollectionSnapshots(ids, read)
+
+    expect(read).toHaveBeenCalledTimes(3)
+    expect(read.mock.calls.every(([slice]) => slice.length <= 90)).toBe(true)
+    expect(rows.get('id-199')).toEqual({ id: 'id-199' })
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createClient } from '@libsql/client'
+import { drizzle } from 'drizzle-orm/libsql'
+import { croutonJobRuns } from '../../database/schema/jobs'
+
+const runtimeConfig = { crouton: { jobs: { schedules: {} as Record<string, string | false> } } }
+
+vi.mock('nitropack/runtime', () => ({
+  useRuntimeConfig: () => runtimeConfig
+}))
+
+const { croutonJobSchedule, getCroutonJobRuns, listCroutonJobs, registerCroutonJob, runCroutonJob, runDueJobs } = await import('../jobs')
+
+async function createDb() {
+  const client = createClient({ url: ':memory:' })
+  await client.execute('CREATE TABLE crouton_jobs (name text PRIMARY KEY, lockedBy text, lockedUntil integer, lastScheduledAt integer)')
+  await client.execute(`CREATE TABLE crouton_job_runs (
+    id text PRIMARY KEY, jobName text NOT NULL, trigger text NOT NULL, status text NOT NULL,
+    startedAt integer NOT NULL, finishedAt integer, durationMs integer, error text, result text, triggeredBy text
+  )`)
+  return drizzle(client)
+}
+
+const at = (iso: string) => new Date(`${iso}Z`)
+
+describe('registerCroutonJob', () => {
+  it('rejects an invalid cron expression', () => {
+    expect(() => registerCroutonJob({ name: 'test:bad', cron: '* * *', run: () => {} }))
+      .toThrow('Job "test:bad": Cron expression "* * *" must have 5 fields')
+  })
+
+  it('lets the app override or turn off a schedule', () => {
+    const job = { name: 'test:report', cron: '0 3 * * *' }
+
+    expect(croutonJobSchedule(job, {})).toBe('0 3 * * *')
+    expect(croutonJobSchedule(job, { 'test:report': '0 6 * * 1' })).toBe('0 6 * * 1')
+    expect(croutonJobSchedule(job, { 'test:report': false })).toBeNull()
+  })
+})
+
+describe('runDueJobs', () => {
+  let db: Awaited<ReturnType<typeof createDb>>
+  const run = vi.fn()
+
+  beforeEach(async () => {
+    db = await createDb()
+    run.mockReset()
+    runtimeConfig.crouton.jobs.schedules = {}
+    registerCroutonJob({ name: 'test:hourly', cron: '0 * * * *', run })
+  })
+
+  it('runs jobs whose schedule fires this minute and records the run', async () => {
+    run.mockResolvedValue({ deletedCount: 3 })
+
+    expect(await runDueJobs(db, at('2026-03-10T09:30:00'))).toEqual([])
+    const [record] = await runDueJobs(db, at('2026-03-10T10:00:05'))
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(run).toHaveBeenCalledWith({ name: 'test:hourly', trigger: 'schedule', scheduledAt: at('2026-03-10T10:00:00'), triggeredBy: null })
+    expect(record).toMatchObject({ jobName: 'test:hourly', trigger: 'schedule', status: 'success', error: null, result: { deletedCount: 3 } })
+    expect(record!.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('runs a scheduled minute once across instances', async () => {
+    const [first, second] = await Promise.all([
+      runDueJobs(db, at('2026-03-10T10:00:01')),
+      runDueJobs(db, at('2026-03-10T10:00:02'))
+    ])
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(first!.length + second!.length).toBe(1)
+    expect(await runDueJobs(db, at('2026-03-10T11:00:00'))).toHaveLength(1)
+  })
+
+  it('skips a job while another run holds the lock', async () => {
+    let finish!: () => void
+    run.mockImplementation(() => new Promise<void>((resolve) => {
+      finish = resolve
+    }))
+
+    const manual = runCroutonJob(db, 'test:hourly', { triggeredBy: 'user-1' })
+    await vi.waitFor(() => expect(run).toHaveBeenCalled())
+
+    expect(await runDueJobs(db, at('2026-03-10T10:00:00'))).toEqual([])
+    expect(await runCroutonJob(db, 'test:hourly')).toBeNull()
+
+    finish()
+    expect(await manual).toMatchObject({ trigger: 'manual', status: 'success', triggeredBy: 'user-1' })
+    run.mockResolvedValue(undefined)
+    expect(await runCroutonJob(db, 'test:hourly')).not.toBeNull()
+  })
+
+  it('records a failing job instead of throwing', async () => {
+    run.mockRejectedValue(new Error('Database is locked'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const record = await runCroutonJob(db, 'test:hourly')
+
+    expect(record).toMatchObject({ status: 'error', error: 'Database is locked', result: null })
+    expect(await runCroutonJob(db, 'test:hourly')).not.toBeNull()
+  })
+
+  it('honours schedule overrides', async () => {
+    runtimeConfig.crouton.jobs.schedules = { 'test:hourly': false }
+    expect(await runDueJobs(db, at('2026-03-10T10:00:00'))).toEqual([])
+
+    runtimeConfig.crouton.jobs.schedules = { 'test:hourly': '15 * * * *' }
+    expect(await runDueJobs(db, at('2026-03-10T10:15:00'))).toHaveLength(1)
+  })
+
+  it('marks runs left running by a lost instance as unfinished', async () => {
+    await db.insert(croutonJobRuns).values({ id: 'lost', jobName: 'test:hourly', trigger: 'schedule', status: 'running', startedAt: at('2026-03-10T08:00:00') })
+
+    await runCroutonJob(db, 'test:hourly')
+    const { items, total } = await getCroutonJobRuns(db, 'test:hourly')
+
+    expect(total).toBe(2)
+    expect(items.find(item => item.id === 'lost')).toMatchObject({ status: 'error', error: 'Did not finish' })
+  })
+})
+
+describe('listCroutonJobs', () => {
+  it('shows the schedule, next run and last run', async () => {
+    const db = await createDb()
+    runtimeConfig.crouton.jobs.schedules = {}
+    registerCroutonJob({ name: 'test:hourly', cron: '0 * * * *', description: 'Hourly', run: () => 'ok' })
+    await runCroutonJob(db, 'test:hourly', { now: at('2026-03-10T10:20:00') })
+
+    const job = (await listCroutonJobs(db, at('2026-03-10T10:30:00'))).find(item => item.name === 'test:hourly')
+
+    expect(job).toMatchObject({
+      description: 'Hourly',
+      cron: '0 * * * *',
+      defaultCron: '0 * * * *',
+      nextRunAt: at('2026-03-10T11:00:00'),
+      running: false,
+      lastRun: { status: 'success', result: 'ok' }
+    })
+  })
+})
@@ -0,0 +1,308 @@
+import { Readable } from 'node:stream'
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest'
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  checkWebhookDestination,
+  isPrivateAddress,
+  nextDeliveryState,
+  sendWebhook,
+  signWebhookPayload,
+  validateWebhookUrl,
+  webhookMatches,
+  webhookPayload,
+  webhookRetryDelay
+} from '../webhooks'
+
+const { request } = vi.hoisted(() => ({ request: vi.fn() }))
+vi.mock('node:https', () => ({ request, default: { request } }))
+
+/**
+ * fetch that answers DNS-over-HTTPS queries from `records` (host → addresses)
+ * and hands every other request to `send`
+ */
+function stubFetch(records: Record<string, string[]>, send = vi.fn(async () => new Response('ok', { status: 200 }))) {
+  const fetch = vi.fn(async (input: string, init?: RequestInit) => {
+    const url = new URL(input)
+    if (url.hostname !== 'cloudflare-dns.com') return send(input, init)
+
+    const addresses = records[url.searchParams.get('name')!]
+    const type = url.searchParams.get('type') === 'A' ? 1 : 28
+    const answer = (addresses ?? [])
+      .filter(address => address.includes(':') === (type === 28))
+      .map(data => ({ type, data }))
+    return Response.json({ Status: addresses ? 0 : 3, Answer: answer })
+  })
+  vi.stubGlobal('fetch', fetch)
+  return { fetch, send }
+}
+
+/** node:https request that answers `status`/`body` and records the address it was pinned to */
+function stubRequest(status = 200, body = 'ok') {
+  const connected: unknown[] = []
+  request.mockImplementation((_url: string, options: any, onResponse: (response: any) => void) => {
+    options.lookup('hooks.example.com', { all: true }, (_error: unknown, addresses: unknown) => connected.push(addresses))
+    const response = Object.assign(Readable.from([body]), { statusCode: status })
+    return {
+      on: vi.fn(),
+      end: vi.fn((sent: string) => {
+        connected.push(sent)
+        onResponse(response)
+      })
+    }
+  })
+  return connected
+}
+
+describe('webhookMatches', () => {
+  it('matches subscribed collections and operations', () => {
+    const webhook = { collections: ['shopProducts'], operations: ['create', 'delete'] }
+
+    expect(webhookMatches(webhook, 'shopProducts', 'create')).toBe(true)
+    expect(webhookMatches(webhook, 'shopProducts', 'update')).toBe(false)
+    expect(webhookMatches(webhook, 'shopOrders', 'create')).toBe(false)
+    expect(webhookMatches({ collections: ['*'], operations: ['update'] }, 'shopOrders', 'update')).toBe(true)
+  })
+})
+
+describe('webhookPayload', () => {
+  it('sends moves as updates and keeps the original operation', () => {
+    const payload = webhookPayload({
+      operation: 'move',
+      collection: 'pages',
+      teamId: 'team-1',
+      userId: 'user-1',
+      correlationId: 'crtn_abc',
+      timestamp: Date.UTC(2026, 0, 1),
+      items: [{ id: 'page-1', before: { parentId: null }, after: { parentId: 'page-2' } }]
+    }, { id: 'page-1', before: { parentId: null }, after: { parentId: 'page-2' } }, 'delivery-1')
+
+    expect(payload).toEqual({
+      id: 'delivery-1',
+      event: 'pages.update',
+      collection: 'pages',
+      operation: 'update',
+      action: 'move',
+      teamId: 'team-1',
+      itemId: 'page-1',
+      data: { parentId: 'page-2' },
+      previous: { parentId: null },
+      userId: 'user-1',
+      source: 'api',
+      correlationId: 'crtn_abc',
+      occurredAt: '2026-01-01T00:00:00.000Z'
+    })
+  })
+})
+
+describe('retries', () => {
+  const failed = { ok: false, status: 500, body: '', error: 'HTTP 500', durationMs: 10 }
+
+  it('backs off exponentially up to a cap', () => {
+    expect(webhookRetryDelay(1)).toBe(60_000)
+    expect(webhookRetryDelay(2)).toBe(240_000)
+    expect(webhookRetryDelay(6)).toBe(12 * 60 * 60 * 1000)
+    expect(webhookRetryDelay(WEBHOOK_MAX_ATTEMPTS)).toBeNull()
+  })
+
+  it('schedules a retry, then gives up', () => {
+    const now = new Date(Date.UTC(2026, 0, 1))
+
+    expect(nextDeliveryState(1, failed, now)).toEqual({ status: 'pending', nextAttemptAt: new Date(now.getTime() + 60_000) })
+    expect(nextDeliveryState(WEBHOOK_MAX_ATTEMPTS, failed, now)).toEqual({ status: 'dead', nextAttemptAt: null })
+    expect(nextDeliveryState(1, { ...failed, permanent: true }, now).status).toBe('dead')
+    expect(nextDeliveryState(3, { ...failed, ok: true, status: 200, error: null }, now)).toEqual({ status: 'delivered', nextAttemptAt: null })
+  })
+})
+
+describe('validateWebhookUrl', () => {
+  it('requires https and a public host', () => {
+    expect(validateWebhookUrl('https://hooks.example.com/in')).toEqual([])
+    expect(validateWebhookUrl('http://hooks.example.com/in')).toEqual(['URL must use https'])
+    expect(validateWebhookUrl('https://127.0.0.1/in')).toHaveLength(1)
+    expect(validateWebhookUrl('https://10.1.2.3/in')).toHaveLength(1)
+    expect(validateWebhookUrl('https://[::1]/in')).toHaveLength(1)
+    expect(validateWebhookUrl('not a url')).toEqual(['URL is not valid'])
+  })
+
+  it('refuses other spellings of private addresses', () => {
+    for (const url of [
+      'https://[::ffff:127.0.0.1]/in',
+      'https://[::ffff:a9fe:a9fe]/in',
+      'https://[64:ff9b::10.0.0.1]/in',
+      'https://100.64.0.1/in',
+      'https://2130706433/in',
+      'https://0177.0.0.1/in',
+      'https://0x7f.1/in',
+      'https://0/in',
+      'https://metadata.google.internal/in',
+      'https://intranet/in'
+    ]) {
+      expect(validateWebhookUrl(url), url).toEqual(['URL may not point at a local or private address'])
+    }
+  })
+
+  it('allows local http endpoints in development', () => {
+    expect(validateWebhookUrl('http://localhost:4000/in', { allowInsecure: true })).toEqual([])
+  })
+})
+
+describe('isPrivateAddress', () => {
+  it('knows the private and reserved IPv4 ranges', () => {
+    for (const address of ['0.0.0.0', '10.0.0.1', '100.64.0.1', '100.127.255.255', '127.0.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255', '192.0.0.8', '192.168.1.1', '198.18.0.1', '224.0.0.1', '255.255.255.255']) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+    for (const address of ['1.1.1.1', '100.63.255.255', '100.128.0.1', '172.32.0.1', '8.8.8.8']) {
+      expect(isPrivateAddress(address), address).toBe(false)
+    }
+  })
+
+  it('judges IPv6 addresses, and the IPv4 addresses they carry', () => {
+    for (const address of ['::', '::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '64:ff9b::a00:1', '2002:c0a8:101::1', 'fd12:3456::1', 'fe80::1%eth0', 'ff02::1']) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+    for (const address of ['2606:4700::1111', '::ffff:8.8.8.8', '2002:808:808::1']) {
+      expect(isPrivateAddress(address), address).toBe(false)
+    }
+  })
+
+  it('treats anything that is not an address as private', () => {
+    expect(isPrivateAddress('example.com')).toBe(true)
+    expect(isPrivateAddress('1:2:3')).toBe(true)
+  })
+})
+
+describe('checkWebhookDestination', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('refuses host names that resolve to a private address', async () => {
+    const { fetch } = stubFetch({ 'hooks.example.com': ['93.184.216.34', '10.0.0.5'] })
+
+    expect(await checkWebhookDestination('https://hooks.example.com/in'))
+      .toEqual({ error: 'hooks.example.com resolves to a local or private address', permanent: true })
+    expect(fetch).toHaveBeenCalledWith('https://cloudflare-dns.com/dns-query?name=hooks.example.com&type=A', expect.objectContaining({
+      headers: { Accept: 'application/dns-json' }
+    }))
+  })
+
+  it('allows host names that only resolve to public addresses', async () => {
+    stubFetch({ 'hooks.example.com': ['93.184.216.34', '2606:2800:220:1::'] })
+
+    expect(await checkWebhookDestination('https://hooks.example.com/in')).toBeNull()
+  })
+
+  it('judges IPv6 answers too', async () => {
+    stubFetch({ 'hooks.example.com': ['93.184.216.34', '::ffff:127.0.0.1'] })
+
+    expect(await checkWebhookDestination('https://hooks.example.com/in')).toMatchObject({ permanent: true })
+  })
+
+  it('keeps unresolved hosts for a retry', async () => {
+    stubFetch({})
+    expect(await checkWebhookDestination('https://hooks.example.com/in'))
+      .toEqual({ error: 'Could not resolve hooks.example.com (NXDOMAIN)', permanent: false })
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })))
+    expect(await checkWebhookDestination('https://hooks.example.com/in'))
+      .toEqual({ error: 'Could not resolve hooks.example.com (DOH_FAILED)', permanent: false })
+  })
+
+  it('checks addresses in the URL without a lookup', async () => {
+    const { fetch } = stubFetch({})
+
+    expect(await checkWebhookDestination('https://93.184.216.34/in')).toBeNull()
+    expect(await checkWebhookDestination('https://[::ffff:127.0.0.1]/in')).toMatchObject({ permanent: true })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('skips the checks in development', async () => {
+    const { fetch } = stubFetch({})
+
+    expect(await checkWebhookDestination('http://localhost:4000/in', { allowPrivate: true })).toBeNull()
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('sendWebhook', () => {
+  beforeEach(() => {
+    request.mockReset()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('signs the timestamp and body with the secret', async () => {
+    stubFetch({ 'hooks.example.com': ['93.184.216.34'] })
+    const connected = stubRequest()
+
+    const attempt = await sendWebhook('https://hooks.example.com/in', 'whsec_test', {
+      id: 'delivery-1',
+      event: 'shopProducts.create',
+      payload: { id: 'delivery-1', itemId: 'p-1' }
+    })
+
+    const [url, init] = request.mock.calls[0] as [string, { method: string, headers: Record<string, string> }]
+    const expected = await signWebhookPayload('whsec_test', Number(init.headers['X-Crouton-Timestamp']), String(connected[1]))
+    expect(url).toBe('https://hooks.example.com/in')
+    expect(init.method).toBe('POST')
+    expect(init.headers['X-Crouton-Signature']).toBe(`sha256=${expected}`)
+    expect(init.headers['X-Crouton-Delivery']).toBe('delivery-1')
+    expect(init.headers['X-Crouton-Event']).toBe('shopProducts.create')
+    expect(attempt).toMatchObject({ ok: true, status: 200, body: 'ok', error: null })
+  })
+
+  it('connects to the addresses it checked instead of resolving the host again', async () => {
+    const { send } = stubFetch({ 'hooks.example.com': ['93.184.216.34'] })
+    const connected = stubRequest()
+
+    await sendWebhook('https://hooks.example.com/in', 's', { id: 'd', event: 'e', payload: { a: 1 } })
+
+    expect(connected).toEqual([[{ address: '93.184.216.34', family: 4 }], '{"a":1}'])
+    expect(send).not.toHaveBeenCalled()
+  })
+
+  it('returns failures instead of throwing', async () => {
+    stubFetch({ 'hooks.example.com': ['93.184.216.34'] })
+
+    stubRequest(410, 'gone')
+    expect(await sendWebhook('https://hooks.example.com/in', 's', { id: 'd', event: 'e', payload: {} }))
+      .toMatchObject({ ok: false, status: 410, error: 'HTTP 410', permanent: true })
+
+    request.mockImplementation(() => {
+      throw new Error('connect ECONNREFUSED 93.184.216.34:443')
+    })
+    expect(await sendWebhook('https://hooks.example.com/in', 's', { id: 'd', event: 'e', payload: {} }))
+      .toMatchObject({ ok: false, status: null, error: 'connect ECONNREFUSED 93.184.216.34:443' })
+  })
+
+  it('never calls a host that resolves to a private address', async () => {
+    const { send } = stubFetch({ 'hooks.example.com': ['169.254.169.254'] })
+
+    expect(await sendWebhook('https://hooks.example.com/in', 's', { id: 'd', event: 'e', payload: {} }))
+      .toMatchObject({ ok: false, status: null, error: 'hooks.example.com resolves to a local or private address', permanent: true })
+    expect(send).not.toHaveBeenCalled()
+    expect(request).not.toHaveBeenCalled()
+  })
+
+  it('uses fetch on Cloudflare Workers, whose requests never reach a private network', async () => {
+    vi.stubGlobal('navigator', { userAgent: 'Cloudflare-Workers' })
+    const { send } = stubFetch({ 'hooks.example.com': ['93.184.216.34'] })
+
+    expect(await sendWebhook('https://hooks.example.com/in', 's', { id: 'd', event: 'e', payload: {} }))
+      .toMatchObject({ ok: true, status: 200, body: 'ok' })
+    expect(send).toHaveBeenCalledWith('https://hooks.example.com/in', expect.objectContaining({ method: 'POST', redirect: 'manual' }))
+    expect(request).not.toHaveBeenCalled()
+  })
+
+  it('refuses to send where the request can\'t be held to the checked addresses', async () => {
+    vi.stubGlobal('process', { ...process, versions: { ...process.versions, bun: '1.1.0' } })
+    const { send } = stubFetch({ 'hooks.example.com': ['93.184.216.34'] })
+
+    expect(await sendWebhook('https://hooks.example.com/in', 's', { id: 'd', event: 'e', payload: {} }))
+      .toMatchObject({ ok: false, status: null, permanent: true })
+    expect(send).not.toHaveBeenCalled()
+    expect(request).not.toHaveBeenCalled()
+  })
+})
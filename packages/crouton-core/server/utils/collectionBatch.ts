@@ -0,0 +1,30 @@
+/**
+ * Run Drizzle statements atomically, across the drivers NuxtHub hands out.
+ *
+ * D1 and libsql reject interactive `BEGIN`/`COMMIT` but apply `db.batch()` as a
+ * single implicit transaction; Postgres drivers go through `db.transaction()`.
+ * `build` receives the executor to create the statements on, so they are bound
+ * to the transaction when one is used. Results come back in statement order.
+ *
+ * @example
+ * ```typescript
+ * const [created, removed] = await runCollectionBatch(useDB(), q => [
+ *   q.insert(tables.posts).values(post).returning(),
+ *   q.delete(tables.posts).where(eq(tables.posts.id, oldId)).returning()
+ * ])
+ * ```
+ */
+export async function runCollectionBatch(db: any, build: (executor: any) => any[]): Promise<any[]> {
+  if (typeof db.batch === 'function') {
+    const statements = build(db)
+    return statements.length > 0 ? await db.batch(statements) : []
+  }
+
+  return db.transaction(async (tx: any) => {
+    const results: any[] = []
+    for (const statement of build(tx)) {
+      results.push(await statement)
+    }
+    return results
+  })
+}
@@ -0,0 +1,72 @@
+import type { H3Event } from 'h3'
+import { useNitroApp } from 'nitropack/runtime'
+import type { CroutonCollectionMutationEvent } from '../../crouton-hooks'
+
+/**
+ * Report a collection write to the crouton:collection-mutation hook listeners
+ * (such as the crouton-events audit log).
+ *
+ * Listeners run before this resolves, so what they persist lands within the
+ * request. The write has already been committed by then, so a failing
+ * listener is logged and the request still succeeds: a 500 would make clients
+ * retry a write that went through (duplicating creates), and a broken webhook
+ * or activity log listener would fail every write. The request's correlation ID
+ * (X-Correlation-ID) ties the entries to the client action that caused them.
+ * Work that may outlive the response (webhook deliveries) goes through the
+ * payload's `waitUntil`, bound to the request.
+ *
+ * @example
+ * ```typescript
+ * const result = await updateShopProduct(productId, team.id, user.id, updates)
+ * await emitCollectionMutation(event, {
+ *   operation: 'update',
+ *   collection: 'shopProducts',
+ *   teamId: team.id,
+ *   user,
+ *   items: [{ id: productId, before, after: result }]
+ * })
+ * ```
+ */
+export async function emitCollectionMutation(
+  event: H3Event | null,
+  payload: Omit<CroutonCollectionMutationEvent, 'userId' | 'userName'> & {
+    /** The requester; its name (or email) is kept with the entries */
+    user?: { id: string, name?: string | null, email?: string | null } | null
+  }
+): Promise<void> {
+  const { user, ...rest } = payload
+  if (rest.items.length === 0) return
+
+  try {
+    await useNitroApp().hooks.callHook('crouton:collection-mutation', {
+      ...rest,
+      userId: user?.id,
+      userName: user ? (user.name || user.email || '') : undefined,
+      source: rest.source ?? 'api',
+      correlationId: rest.correlationId ?? event?.context.correlationId,
+      timestamp: rest.timestamp ?? Date.now(),
+      waitUntil: rest.waitUntil ?? (event ? promise => event.waitUntil(promise) : undefined)
+    })
+  } catch (error) {
+    console.error(`[crouton] crouton:collection-mutation listener failed for ${payload.collection}`, error)
+  }
+}
+
+/**
+ * Read the rows a mutation touches, keyed by id, for its snapshots
+ *
+ * Reads in slices: D1 binds at most 100 parameters per statement.
+ *
+ * @param ids - Row ids
+ * @param read - The collection's get*ByIds query, bound to the team
+ */
+export async function readCollectionSnapshots(
+  ids: string[],
+  read: (ids: string[]) => Promise<any[]>
+): Promise<Map<string, Record<string, unknown>>> {
+  const rows: any[] = []
+  for (let i = 0; i < ids.length; i += 90) {
+    rows.push(...await read(ids.slice(i, i + 90)))
+  }
+  return new Map(rows.map(row => [row.id, row]))
+}
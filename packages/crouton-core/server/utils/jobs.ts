@@ -0,0 +1,357 @@
+/**
+ * Scheduled jobs: registry, locking and run history
+ *
+ * Packages declare named jobs with a cron expression from their own Nitro
+ * plugin; the jobs plugin (plugins/jobs.ts) calls runDueJobs once a minute —
+ * from a timer on Node, from the Cron Trigger's scheduled handler on
+ * Cloudflare. Schedules are evaluated in UTC (see shared/utils/cron.ts).
+ *
+ * Each job has a row in crouton_jobs that acts as a lock: a run claims it with
+ * a conditional update, so only one instance runs a job at a time and a
+ * scheduled minute runs once however many instances tick. Every run is
+ * recorded in crouton_job_runs with its duration, result or error; missed
+ * minutes (nothing ticking, job still running) are skipped, not caught up.
+ *
+ * Schedules can be changed or turned off per app without touching the
+ * package: `runtimeConfig.crouton.jobs.schedules` maps a job name to a cron
+ * expression or `false`. A job without a schedule can still be run by hand.
+ *
+ * @example
+ * ```typescript
+ * // server/plugins/reminders.ts
+ * export default defineNitroPlugin(() => {
+ *   registerCroutonJob({
+ *     name: 'bookings:reminders',
+ *     cron: '0 * * * *',
+ *     description: 'Send booking reminder emails',
+ *     run: async () => ({ sent: await sendDueReminders() })
+ *   })
+ * })
+ * ```
+ */
+import { and, desc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import { useRuntimeConfig } from 'nitropack/runtime'
+import { matchesCron, nextCronRun, parseCron } from '../../shared/utils/cron'
+import { croutonJobRuns, croutonJobs } from '../database/schema/jobs'
+
+export type CroutonJobTrigger = 'schedule' | 'manual'
+
+export interface CroutonJobContext {
+  name: string
+  trigger: CroutonJobTrigger
+  /** The scheduled minute, for scheduled runs */
+  scheduledAt: Date | null
+  /** User id, for manual runs */
+  triggeredBy: string | null
+}
+
+export interface CroutonJobDefinition {
+  /** Unique name, namespaced by package, e.g. 'crouton-events:cleanup' */
+  name: string
+  /** Five-field cron expression in UTC, e.g. '0 3 * * *' */
+  cron: string
+  description?: string
+  /**
+   * How long a run holds the lock, in ms (default 10 minutes). A run still
+   * going after that no longer keeps other instances out.
+   */
+  timeout?: number
+  /** The work; a returned JSON value is stored with the run */
+  run: (context: CroutonJobContext) => unknown | Promise<unknown>
+}
+
+export interface CroutonJobRunRecord {
+  id: string
+  jobName: string
+  trigger: string
+  status: string
+  startedAt: Date
+  finishedAt: Date | null
+  durationMs: number | null
+  error: string | null
+  result: unknown
+  triggeredBy: string | null
+}
+
+/** A job as the admin page shows it */
+export interface CroutonJobStatus {
+  name: string
+  description: string | null
+  /** The schedule in effect; null when the app turned it off */
+  cron: string | null
+  /** The schedule the package declared */
+  defaultCron: string
+  nextRunAt: Date | null
+  running: boolean
+  lastRun: CroutonJobRunRecord | null
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000
+
+/** Runs kept per job; older ones are removed after each run */
+const RUNS_KEPT_PER_JOB = 100
+
+/** Error characters kept for the log */
+const ERROR_LIMIT = 2000
+
+const registry = new Map<string, CroutonJobDefinition>()
+
+/**
+ * Declare a job. Registering a name again replaces it (dev reloads).
+ * Throws when the cron expression is invalid.
+ */
+export function registerCroutonJob(definition: CroutonJobDefinition): void {
+  try {
+    parseCron(definition.cron)
+  } catch (error) {
+    throw new Error(`[crouton] Job "${definition.name}": ${(error as Error).message}`)
+  }
+  registry.set(definition.name, definition)
+}
+
+export function getCroutonJob(name: string): CroutonJobDefinition | undefined {
+  return registry.get(name)
+}
+
+export function getCroutonJobs(): CroutonJobDefinition[] {
+  return [...registry.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * The schedule a job runs on: the app's override if any, else its own.
+ * Null when the app turned the schedule off.
+ */
+export function croutonJobSchedule(
+  job: Pick<CroutonJobDefinition, 'name' | 'cron'>,
+  overrides: Record<string, string | false> = jobScheduleOverrides()
+): string | null {
+  const override = overrides[job.name]
+  if (override === false) return null
+  return override || job.cron
+}
+
+function jobScheduleOverrides(): Record<string, string | false> {
+  const config = useRuntimeConfig() as Record<string, any>
+  return config.crouton?.jobs?.schedules ?? {}
+}
+
+function startOfMinute(date: Date): Date {
+  const slot = new Date(date)
+  slot.setUTCSeconds(0, 0)
+  return slot
+}
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+  return message.slice(0, ERROR_LIMIT)
+}
+
+/** A JSON-safe copy of what the job returned, or null */
+function storableResult(result: unknown): unknown {
+  if (result === undefined) return null
+  try {
+    return JSON.parse(JSON.stringify(result))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Take the job's lock for a run. A scheduled run also claims its minute, so
+ * it fails when another instance already ran that minute.
+ */
+async function claimJob(
+  db: any,
+  job: CroutonJobDefinition,
+  runId: string,
+  now: Date,
+  scheduledAt: Date | null
+): Promise<boolean> {
+  await db.insert(croutonJobs).values({ name: job.name }).onConflictDoNothing()
+
+  const conditions = [
+    eq(croutonJobs.name, job.name),
+    or(isNull(croutonJobs.lockedUntil), lt(croutonJobs.lockedUntil, now))
+  ]
+  if (scheduledAt) {
+    conditions.push(or(isNull(croutonJobs.lastScheduledAt), lt(croutonJobs.lastScheduledAt, scheduledAt)))
+  }
+
+  const claimed = await db
+    .update(croutonJobs)
+    .set({
+      lockedBy: runId,
+      lockedUntil: new Date(now.getTime() + (job.timeout ?? DEFAULT_TIMEOUT_MS)),
+      ...(scheduledAt ? { lastScheduledAt: scheduledAt } : {})
+    })
+    .where(and(...conditions))
+    .returning({ name: croutonJobs.name })
+
+  return claimed.length > 0
+}
+
+async function pruneJobRuns(db: any, jobName: string): Promise<void> {
+  const [oldest] = await db
+    .select({ startedAt: croutonJobRuns.startedAt })
+    .from(croutonJobRuns)
+    .where(eq(croutonJobRuns.jobName, jobName))
+    .orderBy(desc(croutonJobRuns.startedAt))
+    .limit(1)
+    .offset(RUNS_KEPT_PER_JOB - 1)
+  if (!oldest) return
+
+  await db
+    .delete(croutonJobRuns)
+    .where(and(eq(croutonJobRuns.jobName, jobName), lt(croutonJobRuns.startedAt, oldest.startedAt)))
+}
+
+/**
+ * Run a job now, recording the run. Returns null without running when
+ * another run holds the lock (or, for a scheduled run, already ran that
+ * minute). A job that throws is recorded as failed; this does not throw.
+ */
+export async function runCroutonJob(
+  db: any,
+  name: string,
+  options: { trigger?: CroutonJobTrigger, scheduledAt?: Date | null, triggeredBy?: string | null, now?: Date } = {}
+): Promise<CroutonJobRunRecord | null> {
+  const job = registry.get(name)
+  if (!job) {
+    throw new Error(`[crouton] Unknown job "${name}"`)
+  }
+
+  const trigger = options.trigger ?? 'manual'
+  const scheduledAt = options.scheduledAt ?? null
+  const runId = nanoid()
+  const startedAt = options.now ?? new Date()
+
+  if (!await claimJob(db, job, runId, startedAt, scheduledAt)) return null
+
+  try {
+    // Holding the lock means no earlier run of this job is still going
+    await db
+      .update(croutonJobRuns)
+      .set({ status: 'error', error: 'Did not finish' })
+      .where(and(eq(croutonJobRuns.jobName, name), eq(croutonJobRuns.status, 'running')))
+
+    await db.insert(croutonJobRuns).values({
+      id: runId,
+      jobName: name,
+      trigger,
+      status: 'running',
+      startedAt,
+      triggeredBy: options.triggeredBy ?? null
+    })
+
+    const start = Date.now()
+    let outcome: Pick<CroutonJobRunRecord, 'status' | 'error' | 'result'>
+    try {
+      const result = await job.run({ name, trigger, scheduledAt, triggeredBy: options.triggeredBy ?? null })
+      outcome = { status: 'success', error: null, result: storableResult(result) }
+    } catch (error) {
+      console.error(`[crouton] Job "${name}" failed`, error)
+      outcome = { status: 'error', error: errorMessage(error), result: null }
+    }
+
+    const [run] = await db
+      .update(croutonJobRuns)
+      .set({ ...outcome, finishedAt: new Date(), durationMs: Date.now() - start })
+      .where(eq(croutonJobRuns.id, runId))
+      .returning()
+
+    await pruneJobRuns(db, name)
+    return run
+  } finally {
+    await db
+      .update(croutonJobs)
+      .set({ lockedBy: null, lockedUntil: null })
+      .where(and(eq(croutonJobs.name, name), eq(croutonJobs.lockedBy, runId)))
+  }
+}
+
+/**
+ * Run every job whose schedule fires in the minute containing `now`.
+ * Called once a minute by the jobs plugin; returns the runs that happened.
+ */
+export async function runDueJobs(db: any, now: Date = new Date()): Promise<CroutonJobRunRecord[]> {
+  const scheduledAt = startOfMinute(now)
+  const overrides = jobScheduleOverrides()
+  const due = getCroutonJobs().filter((job) => {
+    const schedule = croutonJobSchedule(job, overrides)
+    return schedule !== null && matchesCron(schedule, scheduledAt)
+  })
+
+  const runs = await Promise.all(due.map(job =>
+    runCroutonJob(db, job.name, { trigger: 'schedule', scheduledAt, now }).catch((error) => {
+      console.error(`[crouton] Could not run job "${job.name}"`, error)
+      return null
+    })
+  ))
+
+  return runs.filter((run): run is CroutonJobRunRecord => run !== null)
+}
+
+/**
+ * Every registered job with its schedule, next run, lock state and last run
+ */
+export async function listCroutonJobs(db: any, now: Date = new Date()): Promise<CroutonJobStatus[]> {
+  const jobs = getCroutonJobs()
+  if (jobs.length === 0) return []
+
+  const overrides = jobScheduleOverrides()
+  const names = jobs.map(job => job.name)
+  const [locks, lastRuns] = await Promise.all([
+    db.select().from(croutonJobs).where(inArray(croutonJobs.name, names)),
+    Promise.all(names.map(name => db
+      .select()
+      .from(croutonJobRuns)
+      .where(eq(croutonJobRuns.jobName, name))
+      .orderBy(desc(croutonJobRuns.startedAt))
+      .limit(1)
+      .then((rows: CroutonJobRunRecord[]) => rows[0] ?? null)
+    ))
+  ])
+
+  return jobs.map((job, i) => {
+    const cron = croutonJobSchedule(job, overrides)
+    const lock = locks.find((row: { name: string }) => row.name === job.name)
+    return {
+      name: job.name,
+      description: job.description ?? null,
+      cron,
+      defaultCron: job.cron,
+      nextRunAt: cron ? nextCronRun(cron, now) : null,
+      running: !!lock?.lockedUntil && lock.lockedUntil > now,
+      lastRun: lastRuns[i]
+    }
+  })
+}
+
+/**
+ * A job's run history, newest first
+ */
+export async function getCroutonJobRuns(
+  db: any,
+  name: string,
+  options: { page?: number, pageSize?: number } = {}
+): Promise<{ items: CroutonJobRunRecord[], total: number }> {
+  const page = Math.max(options.page ?? 1, 1)
+  const pageSize = Math.min(Math.max(options.pageSize ?? 25, 1), 100)
+
+  const [items, [count]] = await Promise.all([
+    db
+      .select()
+      .from(croutonJobRuns)
+      .where(eq(croutonJobRuns.jobName, name))
+      .orderBy(desc(croutonJobRuns.startedAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize),
+    db
+      .select({ total: sql<number>`count(*)` })
+      .from(croutonJobRuns)
+      .where(eq(croutonJobRuns.jobName, name))
+  ])
+
+  return { items, total: count?.total ?? 0 }
+}
@@ -0,0 +1,585 @@
+/**
+ * Collection webhooks: queueing, signing and sending deliveries
+ *
+ * Teams register webhooks per collection and operation (crouton_webhooks). For
+ * every crouton:collection-mutation the webhooks plugin queues one delivery
+ * per matching webhook and item (crouton_webhook_deliveries) inside the
+ * request, then sends the due ones after the response. A failed attempt is
+ * retried with exponential backoff; after WEBHOOK_MAX_ATTEMPTS the delivery
+ * is dead and stays in the log until an admin retries it.
+ *
+ * Requests are signed: `X-Crouton-Signature: sha256=<hex>` is the HMAC-SHA256
+ * of `<X-Crouton-Timestamp>.<body>` with the webhook's secret.
+ *
+ * Host names are resolved over DNS-over-HTTPS (fetch works on every runtime)
+ * and the request goes to the addresses that were checked, so a name that
+ * changes its answer between the check and the request (DNS rebinding) can't
+ * lead it into a private network.
+ */
+import { and, asc, eq, inArray, lte } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+import type { CroutonCollectionMutationEvent, CroutonCollectionMutationItem } from '../../crouton-hooks'
+import { croutonWebhookDeliveries, croutonWebhooks } from '../database/schema/webhooks'
+import { runCollectionBatch } from './collectionBatch'
+import { decryptSecret } from './encryption'
+
+export type WebhookOperation = 'create' | 'update' | 'delete'
+
+export const WEBHOOK_OPERATIONS: WebhookOperation[] = ['create', 'update', 'delete']
+
+/** Attempts before a delivery is dead */
+export const WEBHOOK_MAX_ATTEMPTS = 7
+
+/** First retry delay; each next one is 4x longer, capped at 12 hours */
+const RETRY_BASE_MS = 60 * 1000
+const RETRY_MAX_MS = 12 * 60 * 60 * 1000
+
+/** Per-attempt timeout */
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+/** How long a pass holds the deliveries it picked before another pass may take them */
+const CLAIM_MS = 2 * 60 * 1000
+
+/** Response characters kept for the log */
+const RESPONSE_BODY_LIMIT = 2000
+
+/** Deliveries sent per pass */
+const DELIVERIES_PER_PASS = 25
+
+/** Rows per insert: D1 binds at most 100 parameters per statement (11 columns) */
+const ROWS_PER_INSERT = 9
+
+/**
+ * IPv4 ranges a webhook may not reach: this network, private networks,
+ * carrier-grade NAT, loopback, link-local, IETF protocol assignments,
+ * benchmarking, multicast and reserved
+ */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+]
+
+/** Private host names that never resolve to a public address */
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.internal', '.local']
+
+/** DNS-over-HTTPS endpoint (JSON API) that webhook hosts are resolved with */
+const DOH_ENDPOINT = 'https://cloudflare-dns.com/dns-query'
+
+/** DNS response codes worth naming in a delivery error */
+const DNS_RCODES: Record<number, string> = { 1: 'FORMERR', 2: 'SERVFAIL', 3: 'NXDOMAIN', 5: 'REFUSED' }
+
+/** The JSON body of a delivery */
+export interface WebhookPayload {
+  /** Delivery id, the same on every attempt: use it to drop duplicates */
+  id: string
+  /** `<collection>.<operation>`, e.g. 'shopProducts.update' */
+  event: string
+  collection: string
+  operation: WebhookOperation
+  /** The original operation: moves, reorders and restores are updates, purges deletes */
+  action: CroutonCollectionMutationEvent['operation']
+  teamId: string
+  itemId: string
+  /** The row after the change (null for deletes) */
+  data: Record<string, unknown> | null
+  /** The row before the change (null for creates) */
+  previous: Record<string, unknown> | null
+  userId: string | null
+  source: string
+  correlationId: string | null
+  occurredAt: string
+}
+
+/** An address a host name resolved to */
+interface ResolvedAddress {
+  address: string
+  family: 4 | 6
+}
+
+/** Result of one delivery attempt */
+export interface WebhookAttempt {
+  ok: boolean
+  status: number | null
+  body: string | null
+  error: string | null
+  durationMs: number
+  /** Don't retry: the receiver answered 410 Gone, or the webhook is gone or disabled */
+  permanent?: boolean
+}
+
+export function webhookOperation(operation: CroutonCollectionMutationEvent['operation']): WebhookOperation {
+  if (operation === 'create' || operation === 'delete') return operation
+  return operation === 'purge' ? 'delete' : 'update'
+}
+
+/**
+ * Whether a webhook subscribes to an operation on a collection
+ */
+export function webhookMatches(
+  webhook: { collections: string[], operations: string[] },
+  collection: string,
+  operation: WebhookOperation
+): boolean {
+  return (webhook.collections.includes('*') || webhook.collections.includes(collection))
+    && webhook.operations.includes(operation)
+}
+
+export function webhookPayload(
+  mutation: CroutonCollectionMutationEvent,
+  item: CroutonCollectionMutationItem,
+  deliveryId: string
+): WebhookPayload {
+  const operation = webhookOperation(mutation.operation)
+  return {
+    id: deliveryId,
+    event: `${mutation.collection}.${operation}`,
+    collection: mutation.collection,
+    operation,
+    action: mutation.operation,
+    teamId: mutation.teamId,
+    itemId: item.id,
+    data: item.after ?? null,
+    previous: item.before ?? null,
+    userId: mutation.userId ?? null,
+    source: mutation.source ?? 'api',
+    correlationId: mutation.correlationId ?? null,
+    occurredAt: new Date(mutation.timestamp ?? Date.now()).toISOString()
+  }
+}
+
+/**
+ * Delay before the next attempt, after `attempts` failed ones: 1 min, 4 min,
+ * 16 min, ~1 h, ~4 h, then 12 h. Null once the attempts are used up.
+ */
+export function webhookRetryDelay(attempts: number): number | null {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) return null
+  return Math.min(RETRY_BASE_MS * 4 ** (attempts - 1), RETRY_MAX_MS)
+}
+
+/**
+ * A delivery's state after an attempt (`attempts` includes it)
+ */
+export function nextDeliveryState(
+  attempts: number,
+  attempt: WebhookAttempt,
+  now = new Date()
+): { status: 'delivered' | 'pending' | 'dead', nextAttemptAt: Date | null } {
+  if (attempt.ok) return { status: 'delivered', nextAttemptAt: null }
+
+  const delay = attempt.permanent ? null : webhookRetryDelay(attempts)
+  return delay === null
+    ? { status: 'dead', nextAttemptAt: null }
+    : { status: 'pending', nextAttemptAt: new Date(now.getTime() + delay) }
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('')
+
+/**
+ * HMAC-SHA256 (hex) of `<timestamp>.<body>`, sent as `X-Crouton-Signature: sha256=<hex>`
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`)))
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(24)).buffer)}`
+}
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split('.')
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null
+  return parts.reduce((value, part) => value * 256 + Number(part), 0)
+}
+
+/** The eight 16-bit groups of an IPv6 address, null when it isn't one */
+function parseIPv6(address: string): number[] | null {
+  if (!address.includes(':')) return null
+
+  let text = address.toLowerCase()
+  const tail: number[] = []
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const ipv4 = parseIPv4(dotted[2]!)
+    if (ipv4 === null) return null
+    tail.push(Math.floor(ipv4 / 65536), ipv4 % 65536)
+    text = dotted[1]!.endsWith('::') ? dotted[1]! : dotted[1]!.slice(0, -1)
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const groups = (half: string) => half ? half.split(':') : []
+  const head = groups(halves[0]!)
+  const rest = halves.length === 2 ? groups(halves[1]!) : []
+  if ([...head, ...rest].some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null
+
+  const missing = 8 - head.length - rest.length - tail.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+  return [...head.map(g => Number.parseInt(g, 16)), ...Array(missing).fill(0), ...rest.map(g => Number.parseInt(g, 16)), ...tail]
+}
+
+function isPrivateIPv4(ipv4: number): boolean {
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    return Math.floor(ipv4 / size) === Math.floor(parseIPv4(base)! / size)
+  })
+}
+
+/**
+ * Whether an IP address is local, private or otherwise not on the public
+ * internet. IPv6 addresses that carry an IPv4 one (mapped, NAT64, 6to4) are
+ * judged by it. Anything that isn't an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address)
+  if (ipv4 !== null) return isPrivateIPv4(ipv4)
+
+  const ipv6 = parseIPv6(address.replace(/^\[|\]$/g, '').replace(/%.*$/, ''))
+  if (!ipv6) return true
+
+  const embedded = (high: number, low: number) => isPrivateIPv4(high * 65536 + low)
+  const [a, b, c, d, e, f, g, h] = ipv6 as [number, number, number, number, number, number, number, number]
+  // Unspecified, loopback and the deprecated IPv4-compatible form ::a.b.c.d
+  if (a === 0 && b === 0 && c === 0 && d === 0 && e === 0 && f === 0) return g === 0 || embedded(g, h)
+  // IPv4-mapped ::ffff:a.b.c.d
+  if (a === 0 && b === 0 && c === 0 && d === 0 && e === 0 && f === 0xFFFF) return embedded(g, h)
+  // NAT64 64:ff9b::a.b.c.d
+  if (a === 0x64 && b === 0xFF9B && c === 0 && d === 0 && e === 0 && f === 0) return embedded(g, h)
+  // 6to4 2002:AABB:CCDD::
+  if (a === 0x2002) return embedded(b, c)
+
+  return (a & 0xFE00) === 0xFC00 // unique local fc00::/7
+    || (a & 0xFFC0) === 0xFE80 // link-local fe80::/10
+    || (a & 0xFF00) === 0xFF00 // multicast ff00::/8
+}
+
+/**
+ * Problems with a webhook URL, empty when it's fine. Outside development it
+ * must be https and may not point at this machine or a private network.
+ *
+ * Only the URL itself is checked here; what a host name resolves to can
+ * change, so sendWebhook checks that again before every request.
+ */
+export function validateWebhookUrl(value: string, options: { allowInsecure?: boolean } = {}): string[] {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return ['URL is not valid']
+  }
+
+  if (url.protocol !== 'https:' && !(options.allowInsecure && url.protocol === 'http:')) {
+    return ['URL must use https']
+  }
+  if (options.allowInsecure) return []
+
+  // The URL parser already turned decimal, octal and hex IPv4 forms into dotted quads
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  const isIp = parseIPv4(host) !== null || host.includes(':')
+  const isPrivate = isIp
+    ? isPrivateAddress(host)
+    : host === 'localhost' || !host.includes('.') || PRIVATE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))
+  return isPrivate ? ['URL may not point at a local or private address'] : []
+}
+
+/**
+ * The A and AAAA addresses of a host name, looked up over DNS-over-HTTPS.
+ * Throws with the DNS response code when the name has none.
+ */
+async function resolveHost(host: string): Promise<ResolvedAddress[]> {
+  const answers = await Promise.all(([['A', 1, 4], ['AAAA', 28, 6]] as const).map(async ([type, code, family]) => {
+    const response = await fetch(`${DOH_ENDPOINT}?name=${encodeURIComponent(host)}&type=${type}`, {
+      headers: { Accept: 'application/dns-json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+    if (!response.ok) throw Object.assign(new Error(`DNS-over-HTTPS answered ${response.status}`), { code: 'DOH_FAILED' })
+
+    const result = await response.json() as { Status: number, Answer?: Array<{ type: number, data: string }> }
+    if (result.Status !== 0) {
+      throw Object.assign(new Error(`DNS lookup of ${host} failed`), { code: DNS_RCODES[result.Status] ?? `RCODE ${result.Status}` })
+    }
+    // The answer also lists the CNAMEs that led there
+    return (result.Answer ?? []).filter(record => record.type === code).map(record => ({ address: record.data, family }))
+  }))
+
+  const addresses = answers.flat()
+  if (addresses.length === 0) throw Object.assign(new Error(`${host} has no addresses`), { code: 'NODATA' })
+  return addresses
+}
+
+/**
+ * Resolve a webhook URL for sending: the URL must pass validateWebhookUrl and
+ * every address its host resolves to must be public, so a name pointed at a
+ * private network after it was saved is refused. `addresses` are the checked
+ * ones the request has to go to (null when the URL holds an address, or in
+ * development). Only a failed lookup is worth retrying.
+ */
+async function resolveWebhookDestination(
+  value: string,
+  options: { allowPrivate?: boolean }
+): Promise<{ error: string, permanent: boolean } | { addresses: ResolvedAddress[] | null }> {
+  const problems = validateWebhookUrl(value, { allowInsecure: options.allowPrivate })
+  if (problems.length > 0) return { error: problems[0]!, permanent: true }
+  if (options.allowPrivate) return { addresses: null }
+
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, '')
+  if (parseIPv4(host) !== null || host.includes(':')) return { addresses: null }
+
+  let addresses: ResolvedAddress[]
+  try {
+    addresses = await resolveHost(host)
+  } catch (error: any) {
+    return { error: `Could not resolve ${host}${error?.code ? ` (${error.code})` : ''}`, permanent: false }
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return { error: `${host} resolves to a local or private address`, permanent: true }
+  }
+  return { addresses }
+}
+
+/**
+ * Why a webhook URL may not be sent to right now, null when it may (see
+ * resolveWebhookDestination). A caller that fetches the URL afterwards
+ * resolves the host again; sendWebhook connects to the checked addresses.
+ */
+export async function checkWebhookDestination(
+  value: string,
+  options: { allowPrivate?: boolean } = {}
+): Promise<{ error: string, permanent: boolean } | null> {
+  const destination = await resolveWebhookDestination(value, options)
+  return 'error' in destination ? destination : null
+}
+
+/**
+ * How this runtime can hold a request to the checked addresses: Node through
+ * node:https with a fixed lookup; on Cloudflare Workers fetch can't reach a
+ * private network whatever the name resolves to. Null elsewhere.
+ */
+function pinningRuntime(): 'node' | 'workers' | null {
+  if (globalThis.navigator?.userAgent === 'Cloudflare-Workers') return 'workers'
+  const versions = (globalThis as any).process?.versions
+  return versions?.node && !versions.bun && !versions.deno ? 'node' : null
+}
+
+/**
+ * POST over node:https to the given addresses instead of looking the host up
+ * again. TLS and the Host header still use the host name.
+ */
+async function postToAddresses(
+  url: string,
+  init: { headers: Record<string, string>, body: string, signal: AbortSignal },
+  addresses: ResolvedAddress[]
+): Promise<{ status: number, body: string }> {
+  const { request } = await import('node:https')
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...init.headers, 'Content-Length': String(new TextEncoder().encode(init.body).length) },
+      signal: init.signal,
+      lookup: (_host: string, options: { all?: boolean }, callback: (...args: any[]) => void) => options.all
+        ? callback(null, addresses)
+        : callback(null, addresses[0]!.address, addresses[0]!.family)
+    }, (response) => {
+      let text = ''
+      response.setEncoding('utf8')
+      response.on('data', (chunk: string) => {
+        if (text.length < RESPONSE_BODY_LIMIT) text += chunk
+      })
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, body: text }))
+      response.on('error', reject)
+    })
+    req.on('error', reject)
+    req.end(init.body)
+  })
+}
+
+/**
+ * Queue a delivery for every active webhook of the team that subscribes to
+ * the mutation, one per item. Returns the number queued.
+ */
+export async function enqueueWebhookDeliveries(db: any, mutation: CroutonCollectionMutationEvent): Promise<number> {
+  const operation = webhookOperation(mutation.operation)
+  const webhooks = (await db
+    .select({ id: croutonWebhooks.id, collections: croutonWebhooks.collections, operations: croutonWebhooks.operations })
+    .from(croutonWebhooks)
+    .where(and(eq(croutonWebhooks.teamId, mutation.teamId), eq(croutonWebhooks.isActive, true))))
+    .filter((webhook: { collections: string[], operations: string[] }) => webhookMatches(webhook, mutation.collection, operation))
+  if (webhooks.length === 0) return 0
+
+  const now = new Date()
+  const rows = webhooks.flatMap((webhook: { id: string }) => mutation.items.map((item) => {
+    const id = nanoid()
+    return {
+      id,
+      teamId: mutation.teamId,
+      webhookId: webhook.id,
+      event: `${mutation.collection}.${operation}`,
+      collection: mutation.collection,
+      itemId: item.id,
+      payload: webhookPayload(mutation, item, id),
+      status: 'pending',
+      nextAttemptAt: now,
+      createdAt: now
+    }
+  }))
+
+  await runCollectionBatch(db, q => Array.from(
+    { length: Math.ceil(rows.length / ROWS_PER_INSERT) },
+    (_, i) => q.insert(croutonWebhookDeliveries).values(rows.slice(i * ROWS_PER_INSERT, (i + 1) * ROWS_PER_INSERT))
+  ))
+
+  return rows.length
+}
+
+/**
+ * POST a delivery to its webhook. Never throws: failures come back as the attempt.
+ *
+ * The destination is checked again first, so a webhook whose host now
+ * resolves to a private address is never called, and the request goes to the
+ * addresses that were checked. Where that can't be held (see pinningRuntime)
+ * the delivery fails instead of resolving the host a second time.
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  delivery: { id: string, event: string, payload: Record<string, unknown> },
+  options: { allowPrivate?: boolean } = {}
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const started = Date.now()
+
+  const destination = await resolveWebhookDestination(url, options)
+  if ('error' in destination) {
+    return { ok: false, status: null, body: null, durationMs: Date.now() - started, ...destination }
+  }
+  const runtime = destination.addresses ? pinningRuntime() : null
+  if (destination.addresses && !runtime) {
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: 'This runtime can\'t hold the request to the checked addresses',
+      durationMs: Date.now() - started,
+      permanent: true
+    }
+  }
+
+  const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  try {
+    const init = {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Crouton-Webhooks/1.0',
+        'X-Crouton-Event': delivery.event,
+        'X-Crouton-Delivery': delivery.id,
+        'X-Crouton-Timestamp': String(timestamp),
+        'X-Crouton-Signature': `sha256=${await signWebhookPayload(secret, timestamp, body)}`
+      },
+      body,
+      signal
+    }
+    // Redirects aren't followed either way: one could lead anywhere, including a private network
+    const post = async () => {
+      const answer = await fetch(url, { ...init, method: 'POST', redirect: 'manual' })
+      return { status: answer.status, body: await answer.text().catch(() => '') }
+    }
+    const response = destination.addresses && runtime === 'node'
+      ? await postToAddresses(url, init, destination.addresses)
+      : await post()
+    const ok = response.status >= 200 && response.status < 300
+
+    return {
+      ok,
+      status: response.status,
+      body: response.body.slice(0, RESPONSE_BODY_LIMIT),
+      error: ok ? null : `HTTP ${response.status}`,
+      durationMs: Date.now() - started,
+      permanent: response.status === 410
+    }
+  } catch (error: any) {
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: signal.aborted
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : String(error?.message ?? error),
+      durationMs: Date.now() - started
+    }
+  }
+}
+
+/**
+ * Send the deliveries that are due, oldest first, and record each attempt
+ *
+ * Picked deliveries are claimed by moving `nextAttemptAt` ahead, so passes
+ * running at the same time don't send them twice. Deliveries to one webhook
+ * go out in order; different webhooks are sent to in parallel.
+ */
+export async function processWebhookQueue(
+  db: any,
+  options: { limit?: number } = {}
+): Promise<{ delivered: number, failed: number }> {
+  const now = new Date()
+  const due = and(eq(croutonWebhookDeliveries.status, 'pending'), lte(croutonWebhookDeliveries.nextAttemptAt, now))
+
+  const candidates = await db
+    .select({ id: croutonWebhookDeliveries.id })
+    .from(croutonWebhookDeliveries)
+    .where(due)
+    .orderBy(asc(croutonWebhookDeliveries.nextAttemptAt), asc(croutonWebhookDeliveries.createdAt))
+    .limit(options.limit ?? DELIVERIES_PER_PASS)
+  if (candidates.length === 0) return { delivered: 0, failed: 0 }
+
+  const claimed = await db
+    .update(croutonWebhookDeliveries)
+    .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_MS) })
+    .where(and(inArray(croutonWebhookDeliveries.id, candidates.map((row: { id: string }) => row.id)), due))
+    .returning()
+  if (claimed.length === 0) return { delivered: 0, failed: 0 }
+
+  const webhookIds = [...new Set<string>(claimed.map((delivery: any) => delivery.webhookId))]
+  const webhooks = new Map<string, any>((await db
+    .select()
+    .from(croutonWebhooks)
+    .where(inArray(croutonWebhooks.id, webhookIds)))
+    .map((webhook: any) => [webhook.id, webhook]))
+
+  let delivered = 0
+  let failed = 0
+
+  await Promise.all(webhookIds.map(async (webhookId) => {
+    const webhook = webhooks.get(webhookId)
+    const secret = webhook?.isActive ? await decryptSecret(webhook.secret) : null
+    const deliveries = claimed
+      .filter((delivery: any) => delivery.webhookId === webhookId)
+      .sort((a: any, b: any) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+
+    for (const delivery of deliveries) {
+      const attempt: WebhookAttempt = secret
+        ? await sendWebhook(webhook.url, secret, delivery, { allowPrivate: import.meta.dev })
+        : { ok: false, status: null, body: null, error: webhook ? 'Webhook is disabled' : 'Webhook was deleted', durationMs: 0, permanent: true }
+      const attempts = delivery.attempts + 1
+
+      await db
+        .update(croutonWebhookDeliveries)
+        .set({
+          ...nextDeliveryState(attempts, attempt),
+          attempts,
+          lastAttemptAt: new Date(),
+          responseStatus: attempt.status,
+          responseBody: attempt.body,
+          error: attempt.error,
+          durationMs: attempt.durationMs
+        })
+        .where(eq(croutonWebhookDeliveries.id, delivery.id))
+
+      if (attempt.ok) delivered++
+      else failed++
+    }
+  }))
+
+  return { delivered, failed }
+}
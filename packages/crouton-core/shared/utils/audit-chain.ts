@@ -0,0 +1,184 @@
+/**
+ * Shared contract for the tamper-evident audit hash chain (crouton-events)
+ *
+ * Each team's audit events form a chain: every row has the next `seq`, the
+ * previous row's hash as `prevHash` ('' for the first), and a SHA-256 `hash`
+ * of its content plus `prevHash`. Editing a row breaks its hash, removing one
+ * leaves a gap in `seq`. Signed export bundles carry a slice of the chain and
+ * the link it continues from, so they can be checked without the database.
+ *
+ * Used by the crouton-events server (writing, verifying, exporting) and by
+ * `crouton audit verify` — both must hash the same content.
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyAuditBundle(JSON.parse(file), process.env.SECRET)
+ * if (!result.valid) console.log(result.broken ?? 'bad signature')
+ * ```
+ */
+
+export interface AuditChainRow {
+  id: string
+  timestamp: Date | string | number
+  operation: string
+  collectionName: string
+  itemId: string
+  teamId: string
+  userId: string
+  userName?: string | null
+  changes?: Array<{ fieldName: string, oldValue: string | null, newValue: string | null }> | null
+  correlationId?: string | null
+  metadata?: Record<string, any> | null
+  seq?: number | null
+  prevHash?: string | null
+  hash?: string | null
+}
+
+export interface AuditChainLink {
+  seq: number
+  hash: string
+}
+
+export interface AuditChainBreak {
+  seq: number
+  id: string
+  /**
+   * `missing-row`: rows before this one were removed;
+   * `broken-link`: `prevHash` doesn't match the previous row;
+   * `hash-mismatch`: the row was changed after it was written
+   */
+  reason: 'missing-row' | 'broken-link' | 'hash-mismatch'
+}
+
+export interface AuditChainResult {
+  valid: boolean
+  /** Rows checked */
+  checked: number
+  /** Last row checked before the first break (or the last row) */
+  head: AuditChainLink | null
+  broken: AuditChainBreak | null
+}
+
+/** Signed export of a slice of a team's chain (`?format=bundle`) */
+export interface AuditBundle {
+  format: 'crouton-audit-bundle'
+  version: 1
+  teamId: string
+  exportedAt: string
+  /** The link the first event continues from (null at the chain start) */
+  anchor: AuditChainLink | null
+  events: AuditChainRow[]
+  /** `fromSeq` of the next bundle when this one is full */
+  next: number | null
+  signature?: { algorithm: 'HMAC-SHA256', value: string }
+}
+
+export interface AuditBundleResult extends AuditChainResult {
+  /** `unchecked` when no secret was given */
+  signature: 'valid' | 'invalid' | 'unchecked'
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('')
+
+/**
+ * The exact string a row's hash is computed from
+ *
+ * Timestamps count in whole seconds, as stored. `metadata` is covered for
+ * `source` and `action` only: the client adds its UI context
+ * (`metadata.client`) after the row is written.
+ */
+export function auditChainContent(row: AuditChainRow): string {
+  return JSON.stringify([
+    row.seq,
+    row.prevHash ?? '',
+    row.id,
+    row.teamId,
+    Math.floor(new Date(row.timestamp).getTime() / 1000),
+    row.operation,
+    row.collectionName,
+    row.itemId,
+    row.userId,
+    row.userName ?? '',
+    (row.changes ?? []).map(change => [change.fieldName, change.oldValue ?? null, change.newValue ?? null]),
+    row.correlationId ?? null,
+    row.metadata?.source ?? null,
+    row.metadata?.action ?? null
+  ])
+}
+
+export async function hashAuditRow(row: AuditChainRow): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(auditChainContent(row))))
+}
+
+/**
+ * Link rows onto a chain that ends at `head` (null for an empty chain)
+ */
+export async function chainAuditRows<T extends AuditChainRow>(rows: T[], head: AuditChainLink | null): Promise<T[]> {
+  let seq = head?.seq ?? 0
+  let prevHash = head?.hash ?? ''
+  const chained: T[] = []
+
+  for (const row of rows) {
+    const link = { ...row, seq: ++seq, prevHash }
+    const hash = await hashAuditRow(link)
+    chained.push({ ...link, hash })
+    prevHash = hash
+  }
+
+  return chained
+}
+
+/**
+ * Check rows (in `seq` order) against the link before them (null: the chain
+ * start). Stops at the first break.
+ */
+export async function verifyAuditChainRows(rows: AuditChainRow[], previous: AuditChainLink | null): Promise<AuditChainResult> {
+  let head = previous
+  let checked = 0
+
+  for (const row of rows) {
+    checked++
+    const at = { seq: row.seq ?? 0, id: row.id }
+    if (row.seq !== (head?.seq ?? 0) + 1) {
+      return { valid: false, checked, head, broken: { ...at, reason: 'missing-row' } }
+    }
+    if ((row.prevHash ?? '') !== (head?.hash ?? '')) {
+      return { valid: false, checked, head, broken: { ...at, reason: 'broken-link' } }
+    }
+    if (await hashAuditRow(row) !== row.hash) {
+      return { valid: false, checked, head, broken: { ...at, reason: 'hash-mismatch' } }
+    }
+    head = { seq: row.seq, hash: row.hash! }
+  }
+
+  return { valid: true, checked, head, broken: null }
+}
+
+/**
+ * HMAC-SHA256 signature (hex) of a bundle's content, i.e. everything but
+ * `signature`, serialized with JSON.stringify
+ */
+export async function signAuditBundle(bundle: Omit<AuditBundle, 'signature'>, secret: string): Promise<string> {
+  const { signature: _signature, ...content } = bundle as AuditBundle
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(JSON.stringify(content))))
+}
+
+/**
+ * Check an export bundle: its chain, and its signature when `secret` is given
+ */
+export async function verifyAuditBundle(bundle: AuditBundle, secret?: string): Promise<AuditBundleResult> {
+  if (bundle?.format !== 'crouton-audit-bundle' || !Array.isArray(bundle.events)) {
+    throw new Error('Not a crouton audit bundle')
+  }
+
+  const chain = await verifyAuditChainRows(bundle.events, bundle.anchor)
+  if (!secret) {
+    return { ...chain, signature: 'unchecked' }
+  }
+
+  const expected = await signAuditBundle(bundle, secret)
+  const signature = bundle.signature?.value === expected ? 'valid' : 'invalid'
+  return { ...chain, valid: chain.valid && signature === 'valid', signature }
+}
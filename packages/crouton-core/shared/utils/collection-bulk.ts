@@ -0,0 +1,78 @@
+/**
+ * Shared contract for the generated `POST /api/teams/[id]/<layer>-<collection>/bulk`
+ * endpoint.
+ *
+ * A request carries an ordered list of create/update/delete operations. The
+ * server validates and resolves every operation first; if any of them fails,
+ * nothing is written and the response reports the failing rows. Otherwise all
+ * operations are applied in a single transaction (a D1 batch on Cloudflare).
+ * An update whose `expectedUpdatedAt` another save overtook in between writes
+ * nothing and is reported as a failed row of the applied batch.
+ * `dryRun: true` runs the validation pass only.
+ *
+ * Requests are capped at `MAX_BULK_OPERATIONS`; `useCollectionMutation().bulk()`
+ * splits larger lists with `chunkBulkOperations` and dry-runs every chunk
+ * before applying any of them.
+ */
+
+export const MAX_BULK_OPERATIONS = 1000
+
+export type CollectionBulkOp = 'create' | 'update' | 'delete'
+
+export interface CollectionBulkCreate {
+  op: 'create'
+  data: Record<string, unknown>
+}
+
+export interface CollectionBulkUpdate {
+  op: 'update'
+  id: string
+  data: Record<string, unknown>
+  /** Reject the operation if the row's `updatedAt` differs (optimistic concurrency) */
+  expectedUpdatedAt?: string | Date | null
+}
+
+export interface CollectionBulkDelete {
+  op: 'delete'
+  id: string
+}
+
+export type CollectionBulkOperation = CollectionBulkCreate | CollectionBulkUpdate | CollectionBulkDelete
+
+export interface CollectionBulkRequest {
+  operations: CollectionBulkOperation[]
+  /** Validate and resolve only; nothing is written */
+  dryRun?: boolean
+}
+
+export interface CollectionBulkResult {
+  /** Position of the operation in the request */
+  index: number
+  op: CollectionBulkOp
+  /** Target id (updates/deletes) or the new id (applied creates) */
+  id?: string
+  ok: boolean
+  error?: string
+}
+
+export interface CollectionBulkResponse {
+  /** Whether the operations were written (false for dry runs and failed batches) */
+  applied: boolean
+  results: CollectionBulkResult[]
+}
+
+/** Split an operation list into request-sized chunks. */
+export function chunkBulkOperations<T>(operations: T[], size: number = MAX_BULK_OPERATIONS): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < operations.length; i += size) {
+    chunks.push(operations.slice(i, i + size))
+  }
+  return chunks
+}
+
+/** Failed rows of a bulk response, with `index` relative to the whole list when `offset` is given. */
+export function bulkFailures(response: CollectionBulkResponse, offset: number = 0): CollectionBulkResult[] {
+  return response.results
+    .filter(result => !result.ok)
+    .map(result => ({ ...result, index: result.index + offset }))
+}
@@ -0,0 +1,200 @@
+/**
+ * Framework-agnostic client for the generated collection endpoints.
+ *
+ * `useCollectionQuery`/`useCollectionMutation` need a Nuxt app; this is the
+ * same set of calls on plain `fetch`, for scripts, workers and other apps.
+ * `crouton sdk` copies it (with `collection-query.ts`, its only import) into
+ * the generated SDK package, next to the collections' types and endpoint
+ * definitions, so keep it free of other imports.
+ *
+ * Every call is scoped to one team (`/api/teams/<team>/<apiPath>`). The
+ * endpoints authenticate with the better-auth session cookie: outside the
+ * browser, pass the session token as `token` and it is sent as that cookie.
+ */
+import { serializeCollectionListQuery, type CollectionFilter, type CollectionSort } from './collection-query'
+
+export type CollectionEndpoint = 'list' | 'create' | 'update' | 'delete' | 'bulk' | 'export' | 'move' | 'reorder' | 'restore' | 'purge'
+
+/** Types of one collection, as in the app's `CollectionTypeMap` plus its generated endpoints */
+export interface CollectionTypes {
+  Item: { id: string }
+  FormData: object
+  NewItem: object
+  Endpoints: CollectionEndpoint
+}
+
+/** Where a collection's endpoints live */
+export interface CollectionDefinition {
+  /** Segment under /api/teams/<team>/, e.g. "sales-orders" */
+  apiPath: string
+  endpoints: readonly CollectionEndpoint[]
+  /** Sibling order field sent by `reorder` (default "order") */
+  orderField?: string
+}
+
+type TokenValue = string | null | undefined
+
+export interface CollectionClientOptions {
+  /** Origin of the app, e.g. "https://app.example.com" */
+  baseURL: string
+  /** Team id or slug every call is scoped to */
+  team: string
+  /** better-auth session token, sent as the session cookie; a function is called per request */
+  token?: TokenValue | (() => TokenValue | Promise<TokenValue>)
+  /** Session cookie name (default: better-auth.session_token, `__Secure-` prefixed for https) */
+  cookieName?: string
+  /** Extra headers for every request */
+  headers?: Record<string, string>
+  /** `fetch` credentials mode; use 'include' in the browser, where the cookie is sent for you */
+  credentials?: RequestCredentials
+  /** `fetch` implementation (default: the global one) */
+  fetch?: typeof fetch
+}
+
+export interface CollectionListOptions {
+  filters?: CollectionFilter[]
+  sort?: CollectionSort[]
+  /** Search across the collection's searchable fields */
+  q?: string
+  locale?: string
+  /** List soft-deleted rows instead of live ones */
+  trashed?: boolean
+}
+
+export interface CollectionPage<T> {
+  items: T[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export interface CollectionUpdateOptions {
+  /** Reject with a 409 if the row changed since (optimistic concurrency) */
+  expectedUpdatedAt?: string | Date
+}
+
+interface CollectionCrud<T extends CollectionTypes> {
+  /** All rows matching the filters */
+  list(options?: CollectionListOptions): Promise<T['Item'][]>
+  /** One page of the matching rows (pageSize defaults to 10, at most 100) */
+  page(page: number, options?: CollectionListOptions & { pageSize?: number }): Promise<CollectionPage<T['Item']>>
+  /** One row, or null when it doesn't exist in the team */
+  get(id: string): Promise<T['Item'] | null>
+  getMany(ids: string[]): Promise<T['Item'][]>
+  create(data: T['NewItem']): Promise<T['Item']>
+  update(id: string, data: Partial<T['FormData']>, options?: CollectionUpdateOptions): Promise<T['Item']>
+  delete(id: string): Promise<T['Item']>
+}
+
+interface CollectionMove<T extends CollectionTypes> {
+  /** Move under another parent (null for the root) at a position */
+  move(id: string, position: { parentId: string | null, order: number }): Promise<T['Item']>
+}
+
+interface CollectionReorder {
+  /** Set the order of siblings */
+  reorder(updates: Array<{ id: string, order: number }>): Promise<unknown>
+}
+
+/** The calls of one collection; `move`/`reorder` only where those endpoints were generated */
+export type CollectionResource<T extends CollectionTypes> = CollectionCrud<T>
+  & ('move' extends T['Endpoints'] ? CollectionMove<T> : unknown)
+  & ('reorder' extends T['Endpoints'] ? CollectionReorder : unknown)
+
+export type CollectionClient<Map extends { [K in keyof Map]: CollectionTypes }> = {
+  [K in keyof Map]: CollectionResource<Map[K]>
+}
+
+/** A non-2xx response; `data` carries the endpoint's error details (e.g. validation issues) */
+export class CollectionClientError extends Error {
+  readonly status: number
+  readonly data: unknown
+
+  constructor(status: number, message: string, data?: unknown) {
+    super(message)
+    this.name = 'CollectionClientError'
+    this.status = status
+    this.data = data
+  }
+}
+
+const SESSION_COOKIE = 'better-auth.session_token'
+
+function listParams(options: CollectionListOptions = {}): Record<string, string> {
+  const params = serializeCollectionListQuery(options)
+  if (options.locale) params.locale = options.locale
+  if (options.trashed) params.trashed = 'true'
+  return params
+}
+
+export function createCollectionClient<Map extends { [K in keyof Map]: CollectionTypes }>(
+  definitions: { [K in keyof Map]: CollectionDefinition },
+  options: CollectionClientOptions
+): CollectionClient<Map> {
+  const fetchImpl = options.fetch ?? globalThis.fetch
+  const baseURL = options.baseURL.replace(/\/+$/, '')
+  const cookieName = options.cookieName ?? (baseURL.startsWith('https:') ? `__Secure-${SESSION_COOKIE}` : SESSION_COOKIE)
+
+  async function request<R>(method: string, path: string, init: { query?: Record<string, string>, body?: unknown } = {}): Promise<R> {
+    const url = new URL(`${baseURL}/api/teams/${encodeURIComponent(options.team)}/${path}`)
+    for (const [key, value] of Object.entries(init.query ?? {})) url.searchParams.set(key, value)
+
+    const headers: Record<string, string> = { accept: 'application/json', ...options.headers }
+    if (init.body !== undefined) headers['content-type'] = 'application/json'
+    const token = typeof options.token === 'function' ? await options.token() : options.token
+    if (token) headers.cookie = [headers.cookie, `${cookieName}=${token}`].filter(Boolean).join('; ')
+
+    const response = await fetchImpl(url, {
+      method,
+      headers,
+      credentials: options.credentials,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body)
+    })
+    const text = await response.text()
+    let data: any = null
+    if (text) {
+      try {
+        data = JSON.parse(text)
+      } catch {
+        data = text
+      }
+    }
+    if (!response.ok) {
+      const message = (data && typeof data === 'object' && (data.statusMessage || data.message)) || response.statusText || `HTTP ${response.status}`
+      throw new CollectionClientError(response.status, message, data && typeof data === 'object' ? data.data : data)
+    }
+    return data as R
+  }
+
+  function resource(definition: CollectionDefinition): Record<string, unknown> {
+    const { apiPath } = definition
+    const item = (id: string) => `${apiPath}/${encodeURIComponent(id)}`
+    const calls: Record<string, unknown> = {
+      list: (listOptions?: CollectionListOptions) => request('GET', apiPath, { query: listParams(listOptions) }),
+      page: (page: number, { pageSize, ...listOptions }: CollectionListOptions & { pageSize?: number } = {}) =>
+        request('GET', apiPath, { query: { ...listParams(listOptions), page: String(page), ...(pageSize ? { pageSize: String(pageSize) } : {}) } }),
+      getMany: (ids: string[]) => ids.length ? request('GET', apiPath, { query: { ids: ids.join(',') } }) : Promise.resolve([]),
+      get: async (id: string) => (await request<unknown[]>('GET', apiPath, { query: { ids: id } }))[0] ?? null,
+      create: (data: object) => request('POST', apiPath, { body: data }),
+      update: (id: string, data: object, updateOptions: CollectionUpdateOptions = {}) =>
+        request('PATCH', item(id), { body: updateOptions.expectedUpdatedAt ? { ...data, expectedUpdatedAt: updateOptions.expectedUpdatedAt } : data }),
+      delete: (id: string) => request('DELETE', item(id))
+    }
+    if (definition.endpoints.includes('move')) {
+      calls.move = (id: string, position: { parentId: string | null, order: number }) =>
+        request('PATCH', `${item(id)}/move`, { body: { parentId: position.parentId, order: position.order } })
+    }
+    if (definition.endpoints.includes('reorder')) {
+      const orderField = definition.orderField || 'order'
+      calls.reorder = (updates: Array<{ id: string, order: number }>) =>
+        request('PATCH', `${apiPath}/reorder`, { body: { updates: updates.map(update => ({ id: update.id, [orderField]: update.order })) } })
+    }
+    return calls
+  }
+
+  const client: Record<string, unknown> = {}
+  for (const [key, definition] of Object.entries(definitions) as Array<[string, CollectionDefinition]>) {
+    client[key] = resource(definition)
+  }
+  return client as CollectionClient<Map>
+}
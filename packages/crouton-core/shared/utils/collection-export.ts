@@ -0,0 +1,174 @@
+/**
+ * Shared contract for the generated `GET /api/teams/[id]/<layer>-<collection>/export`
+ * endpoint.
+ *
+ * The endpoint takes the same filter/sort/search query as the list endpoint
+ * plus `?format=csv|json|xlsx` (and `?locale=` for translated fields), pages
+ * through the matching rows with `getAll*` and streams the file as it goes,
+ * so exports are not bounded by what the browser can hold.
+ *
+ * Columns are declared by the generator: references export the title of the
+ * referenced row instead of its id, and translatable fields export the value
+ * for the requested locale.
+ *
+ * @example
+ * ```typescript
+ * return sendStream(event, streamCollectionExport({
+ *   format: 'xlsx',
+ *   columns,
+ *   fetchPage: (limit, offset) => getAllShopOrders(team.id, { ...listQuery, limit, offset })
+ * }))
+ * ```
+ */
+import { createXlsxStream, XLSX_CONTENT_TYPE, type XlsxCellType } from './xlsx'
+
+export const COLLECTION_EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const
+
+export type CollectionExportFormat = typeof COLLECTION_EXPORT_FORMATS[number]
+
+/** Rows fetched per `getAll*` call while streaming */
+export const EXPORT_PAGE_SIZE = 500
+
+export interface CollectionExportColumn {
+  key: string
+  label: string
+  /** Cell type; also picks the number format in XLSX (default `string`) */
+  type?: XlsxCellType
+  /** Reference field: export the joined row's title (`<key>Data`) instead of the id; many-to-many titles are joined with `, ` */
+  reference?: boolean
+  /** Translatable field: export `translations[locale][key]` when present */
+  translatable?: boolean
+}
+
+export interface CollectionExportOptions {
+  format: CollectionExportFormat
+  columns: CollectionExportColumn[]
+  /** One page of matching rows; `getAll*` with `limit` returns `{ items, total }` */
+  fetchPage: (limit: number, offset: number) => Promise<{ items: any[] } | any[]>
+  /** Locale for translatable columns */
+  locale?: string
+  /** XLSX worksheet name */
+  sheetName?: string
+  pageSize?: number
+}
+
+export const COLLECTION_EXPORT_CONTENT_TYPES: Record<CollectionExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: XLSX_CONTENT_TYPE
+}
+
+export function isCollectionExportFormat(value: unknown): value is CollectionExportFormat {
+  return (COLLECTION_EXPORT_FORMATS as readonly unknown[]).includes(value)
+}
+
+/** `Content-Type` and `Content-Disposition` for an export download */
+export function collectionExportHeaders(format: CollectionExportFormat, basename: string): Record<string, string> {
+  const date = new Date().toISOString().split('T')[0]
+  return {
+    'Content-Type': COLLECTION_EXPORT_CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${basename}-${date}.${format}"`,
+    'Cache-Control': 'no-store'
+  }
+}
+
+/** Display title of a joined reference row, falling back to its id */
+function referenceTitle(data: any): unknown {
+  if (Array.isArray(data)) return data.map(referenceTitle).join(', ')
+  if (!data || typeof data !== 'object') return data
+  return data.title ?? data.name ?? data.label ?? data.id
+}
+
+/** Value of one export column for a row, with references and translations expanded */
+export function collectionExportValue(row: Record<string, any>, column: CollectionExportColumn, locale?: string): unknown {
+  if (column.reference) {
+    const joined = row[`${column.key}Data`]
+    return joined ? referenceTitle(joined) : row[column.key]
+  }
+  if (column.translatable && locale) {
+    const translated = row.translations?.[locale]?.[column.key]
+    if (translated !== undefined && translated !== null && translated !== '') return translated
+  }
+  return row[column.key]
+}
+
+export function escapeCsv(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+async function* pagedRows(options: CollectionExportOptions): AsyncGenerator<Record<string, any>> {
+  const pageSize = options.pageSize ?? EXPORT_PAGE_SIZE
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await options.fetchPage(pageSize, offset)
+    const items = Array.isArray(page) ? page : page.items
+    yield* items
+    if (items.length < pageSize) return
+  }
+}
+
+async function* csvChunks(options: CollectionExportOptions): AsyncGenerator<string> {
+  const { columns, locale } = options
+  // BOM so Excel reads the file as UTF-8
+  yield '\uFEFF' + columns.map(column => escapeCsv(column.label)).join(',')
+  for await (const row of pagedRows(options)) {
+    yield '\n' + columns.map(column => escapeCsv(collectionExportValue(row, column, locale))).join(',')
+  }
+}
+
+async function* jsonChunks(options: CollectionExportOptions): AsyncGenerator<string> {
+  const { columns, locale } = options
+  let first = true
+  yield '['
+  for await (const row of pagedRows(options)) {
+    const item: Record<string, unknown> = {}
+    for (const column of columns) {
+      item[column.key] = collectionExportValue(row, column, locale) ?? null
+    }
+    yield (first ? '\n' : ',\n') + JSON.stringify(item)
+    first = false
+  }
+  yield first ? ']' : '\n]'
+}
+
+function textStream(chunks: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next()
+        if (done) controller.close()
+        else controller.enqueue(encoder.encode(value))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    }
+  })
+}
+
+/**
+ * Stream every matching row in the requested format. Pages are fetched as
+ * the client reads, so at most one page is in memory at a time.
+ */
+export function streamCollectionExport(options: CollectionExportOptions): ReadableStream<Uint8Array> {
+  const { format, columns, locale, sheetName } = options
+
+  if (format === 'csv') return textStream(csvChunks(options))
+  if (format === 'json') return textStream(jsonChunks(options))
+
+  return createXlsxStream({
+    sheetName,
+    columns: columns.map(column => ({ header: column.label, type: column.type })),
+    rows: (async function* () {
+      for await (const row of pagedRows(options)) {
+        yield columns.map(column => collectionExportValue(row, column, locale))
+      }
+    })()
+  })
+}
@@ -0,0 +1,469 @@
+/**
+ * OpenAPI 3.1 description of the generated collection endpoints.
+ *
+ * The CLI writes `server/utils/crouton-openapi.ts` into the app: one entry per
+ * collection, carrying the JSON Schema of the composable's zod schema (see
+ * `COLLECTION_JSON_SCHEMA_OPTIONS`), the list spec of its GET endpoint and the
+ * endpoint files it generated. `buildCollectionOpenApi` turns those entries
+ * into the document served at `GET /api/crouton/openapi.json` and written by
+ * `crouton openapi`.
+ *
+ * Paths mirror the generated handlers under `server/api/teams/[id]/<apiPath>/`:
+ * the list grammar of `collection-query.ts`, opt-in pagination, the bulk and
+ * export contracts, and the hierarchy/sortable/soft-delete endpoints where they
+ * exist. Every path requires a team member's better-auth session.
+ */
+import { FILTER_OPS_BY_KIND, type CollectionListSpec } from './collection-query'
+import { COLLECTION_EXPORT_CONTENT_TYPES, COLLECTION_EXPORT_FORMATS } from './collection-export'
+import { MAX_BULK_OPERATIONS } from './collection-bulk'
+import type { CollectionEndpoint } from './collection-client'
+
+export type { CollectionEndpoint }
+
+type JsonSchema = Record<string, any>
+
+export interface CollectionOpenApiEntry {
+  /** Registry key, e.g. "salesOrders" */
+  key: string
+  /** Singular PascalCase name for the component schemas, e.g. "SalesOrder" */
+  typeName: string
+  layer: string
+  collection: string
+  /** Segment under /api/teams/{id}/, e.g. "sales-orders" */
+  apiPath: string
+  /** Router param of the item endpoints, e.g. "orderId" */
+  idParam: string
+  /** JSON Schema of the collection's fields (the composable's zod schema, input side) */
+  schema: JsonSchema
+  /** Endpoints generated for the collection */
+  endpoints: readonly CollectionEndpoint[]
+  /** What the list endpoint filters, sorts and searches on */
+  list: CollectionListSpec
+  /** Sibling order field of reorder/move (hierarchy `orderField`, default "order") */
+  orderField?: string
+  /** Whether the list endpoint accepts `?locale=` */
+  translatable?: boolean
+  /** Whether rows carry createdAt/updatedAt/createdBy/updatedBy (the useMetadata flag) */
+  metadata?: boolean
+}
+
+export interface CollectionOpenApiInfo {
+  title?: string
+  version?: string
+  description?: string
+}
+
+/**
+ * Options for zod 4's `z.toJSONSchema` that describe what the endpoints accept:
+ * the input side of coercions, and dates as ISO strings rather than `{}`.
+ */
+export const COLLECTION_JSON_SCHEMA_OPTIONS = {
+  io: 'input' as const,
+  unrepresentable: 'any' as const,
+  override(ctx: { zodSchema: { _zod: { def: { type: string } } }, jsonSchema: JsonSchema }) {
+    if (ctx.zodSchema._zod.def.type === 'date') {
+      ctx.jsonSchema.type = 'string'
+      ctx.jsonSchema.format = 'date-time'
+    }
+  }
+}
+
+const SESSION_COOKIE = 'better-auth.session_token'
+
+const DEFAULT_PAGE_SIZE = 10
+const MAX_PAGE_SIZE = 100
+
+const FILTER_SCHEMAS: Record<keyof typeof FILTER_OPS_BY_KIND, JsonSchema> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  date: { type: 'string', format: 'date-time' },
+  boolean: { type: 'boolean' },
+  reference: { type: 'string' }
+}
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` }
+}
+
+function jsonBody(schema: JsonSchema): JsonSchema {
+  return { required: true, content: { 'application/json': { schema } } }
+}
+
+function jsonResponse(description: string, schema: JsonSchema): JsonSchema {
+  return { description, content: { 'application/json': { schema } } }
+}
+
+function errorResponses(...names: string[]): Record<string, JsonSchema> {
+  const codes: Record<string, string> = {
+    BadRequest: '400',
+    Unauthorized: '401',
+    Forbidden: '403',
+    NotFound: '404',
+    Conflict: '409',
+    ValidationFailed: '422'
+  }
+  return Object.fromEntries(names.map(name => [codes[name]!, { $ref: `#/components/responses/${name}` }]))
+}
+
+/** A copy of the fields schema without its `$schema` dialect marker */
+function fieldsSchema(schema: JsonSchema): JsonSchema {
+  const { $schema: _dialect, ...rest } = schema
+  return rest
+}
+
+/** The stored row: the fields plus the id and the columns crouton adds */
+export function collectionRowSchema(entry: CollectionOpenApiEntry): JsonSchema {
+  const fields = fieldsSchema(entry.schema)
+  // Listable columns outside the form schema (order, path, deletedAt, ...)
+  const columns = Object.fromEntries(Object.entries(entry.list.fields).map(([field, kind]) => [field, FILTER_SCHEMAS[kind]]))
+  const metadata = entry.metadata === false
+    ? {}
+    : {
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        createdBy: { type: 'string' },
+        updatedBy: { type: 'string' }
+      }
+  return {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      teamId: { type: 'string' },
+      owner: { type: 'string' },
+      ...columns,
+      ...fields.properties,
+      ...metadata
+    },
+    required: ['id', ...(fields.required ?? [])]
+  }
+}
+
+/** `?field[op]=` parameters; bare `?field=` is the same as `[eq]` */
+function filterParameters(list: CollectionListSpec): JsonSchema[] {
+  const parameters: JsonSchema[] = []
+  for (const [field, kind] of Object.entries(list.fields)) {
+    for (const op of FILTER_OPS_BY_KIND[kind]) {
+      parameters.push({
+        name: `${field}[${op}]`,
+        in: 'query',
+        required: false,
+        description: op === 'in' ? `${field} is one of (comma separated)` : `${field} ${op}`,
+        schema: op === 'in' || op === 'contains' ? { type: 'string' } : FILTER_SCHEMAS[kind]
+      })
+    }
+  }
+  return parameters
+}
+
+function listParameters(entry: CollectionOpenApiEntry): JsonSchema[] {
+  const sortable = Object.keys(entry.list.fields)
+  const parameters: JsonSchema[] = [
+    { name: 'ids', in: 'query', required: false, description: 'Fetch these rows only (comma separated); other params are ignored', schema: { type: 'string' } },
+    { name: 'page', in: 'query', required: false, description: 'Opt in to pagination: the response becomes a page object', schema: { type: 'integer', minimum: 1 } },
+    { name: 'pageSize', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+    {
+      name: 'sort',
+      in: 'query',
+      required: false,
+      description: `Comma separated fields, "-" prefix for descending${sortable.length ? ` (${sortable.join(', ')})` : ''}`,
+      schema: { type: 'string' }
+    }
+  ]
+  if (entry.list.searchable?.length) {
+    parameters.push({ name: 'q', in: 'query', required: false, description: `Search ${entry.list.searchable.join(', ')}`, schema: { type: 'string' } })
+  }
+  if (entry.translatable) {
+    parameters.push({ name: 'locale', in: 'query', required: false, schema: { type: 'string', default: 'en' } })
+  }
+  if (entry.endpoints.includes('restore')) {
+    parameters.push({ name: 'trashed', in: 'query', required: false, description: 'List soft-deleted rows instead of live ones', schema: { type: 'boolean' } })
+  }
+  return [...parameters, ...filterParameters(entry.list)]
+}
+
+function collectionPaths(entry: CollectionOpenApiEntry, components: Record<string, JsonSchema>): Record<string, JsonSchema> {
+  const { key, typeName, idParam } = entry
+  const plural = pascalCase(key)
+  const base = `/api/teams/{id}/${entry.apiPath}`
+  const item = `${base}/{${idParam}}`
+  const tags = [key]
+  const has = (endpoint: CollectionEndpoint) => entry.endpoints.includes(endpoint)
+  const idParameter = { name: idParam, in: 'path', required: true, schema: { type: 'string' } }
+  const orderField = entry.orderField || 'order'
+
+  const input = fieldsSchema(entry.schema)
+  components[typeName] = collectionRowSchema(entry)
+  components[`${typeName}Input`] = input
+  components[`${typeName}Update`] = {
+    type: 'object',
+    properties: {
+      ...input.properties,
+      ...(entry.translatable ? { locale: { type: 'string', description: 'Locale the translation patch targets' } } : {}),
+      ...(entry.metadata === false ? {} : { expectedUpdatedAt: { type: 'string', format: 'date-time', description: 'Reject with 409 if the row changed since' } })
+    }
+  }
+
+  const paths: Record<string, JsonSchema> = {}
+  const at = (path: string) => (paths[path] ??= { parameters: [{ $ref: '#/components/parameters/teamId' }] })
+
+  if (has('list')) {
+    at(base).get = {
+      operationId: `list${plural}`,
+      tags,
+      summary: `List ${key}`,
+      parameters: listParameters(entry),
+      responses: {
+        200: jsonResponse('All matching rows, or a page of them with ?page=', {
+          oneOf: [
+            { type: 'array', items: ref(typeName) },
+            {
+              type: 'object',
+              properties: {
+                items: { type: 'array', items: ref(typeName) },
+                total: { type: 'integer' },
+                page: { type: 'integer' },
+                pageSize: { type: 'integer' }
+              },
+              required: ['items', 'total', 'page', 'pageSize']
+            }
+          ]
+        }),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden')
+      }
+    }
+  }
+  if (has('create')) {
+    at(base).post = {
+      operationId: `create${typeName}`,
+      tags,
+      requestBody: jsonBody(ref(`${typeName}Input`)),
+      responses: {
+        200: jsonResponse('The created row', ref(typeName)),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden', 'ValidationFailed')
+      }
+    }
+  }
+  if (has('update')) {
+    at(item).patch = {
+      operationId: `update${typeName}`,
+      tags,
+      parameters: [idParameter],
+      requestBody: jsonBody(ref(`${typeName}Update`)),
+      responses: {
+        200: jsonResponse('The updated row', ref(typeName)),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden', 'NotFound', ...(entry.metadata === false ? [] : ['Conflict']), 'ValidationFailed')
+      }
+    }
+  }
+  if (has('delete')) {
+    at(item).delete = {
+      operationId: `delete${typeName}`,
+      tags,
+      ...(has('restore') ? { summary: 'Move to the trash' } : {}),
+      parameters: [idParameter],
+      responses: {
+        200: jsonResponse('The deleted row', ref(typeName)),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden', 'NotFound')
+      }
+    }
+  }
+  if (has('bulk')) {
+    at(`${base}/bulk`).post = {
+      operationId: `bulk${plural}`,
+      tags,
+      description: 'Validates every operation first; applies all of them in one transaction or none.',
+      requestBody: jsonBody({
+        type: 'object',
+        properties: {
+          operations: {
+            type: 'array',
+            minItems: 1,
+            maxItems: MAX_BULK_OPERATIONS,
+            items: {
+              oneOf: [
+                { type: 'object', properties: { op: { const: 'create' }, data: ref(`${typeName}Input`) }, required: ['op', 'data'] },
+                { type: 'object', properties: { op: { const: 'update' }, id: { type: 'string' }, data: ref(`${typeName}Update`) }, required: ['op', 'id', 'data'] },
+                { type: 'object', properties: { op: { const: 'delete' }, id: { type: 'string' } }, required: ['op', 'id'] }
+              ],
+              discriminator: { propertyName: 'op' }
+            }
+          },
+          dryRun: { type: 'boolean', description: 'Validate only; nothing is written' }
+        },
+        required: ['operations']
+      }),
+      responses: {
+        200: jsonResponse('Per-operation results', ref('CollectionBulkResponse')),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden')
+      }
+    }
+  }
+  if (has('export')) {
+    at(`${base}/export`).get = {
+      operationId: `export${plural}`,
+      tags,
+      summary: `Download all matching ${key}`,
+      parameters: [
+        { name: 'format', in: 'query', required: false, schema: { type: 'string', enum: [...COLLECTION_EXPORT_FORMATS], default: 'csv' } },
+        ...listParameters(entry).filter(parameter => !['ids', 'page', 'pageSize'].includes(parameter.name))
+      ],
+      responses: {
+        200: {
+          description: 'The export file',
+          content: Object.fromEntries(COLLECTION_EXPORT_FORMATS.map(format => [
+            COLLECTION_EXPORT_CONTENT_TYPES[format],
+            { schema: { type: 'string', format: 'binary' } }
+          ]))
+        },
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden')
+      }
+    }
+  }
+  if (has('move')) {
+    at(`${item}/move`).patch = {
+      operationId: `move${typeName}`,
+      tags,
+      summary: 'Move under another parent (null for the root) at a position',
+      parameters: [idParameter],
+      requestBody: jsonBody({
+        type: 'object',
+        properties: { parentId: { type: ['string', 'null'] }, order: { type: 'number' } },
+        required: ['order']
+      }),
+      responses: {
+        200: jsonResponse('The moved row', ref(typeName)),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden', 'NotFound')
+      }
+    }
+  }
+  if (has('reorder')) {
+    at(`${base}/reorder`).patch = {
+      operationId: `reorder${plural}`,
+      tags,
+      summary: 'Set the order of siblings',
+      requestBody: jsonBody({
+        type: 'object',
+        properties: {
+          updates: {
+            type: 'array',
+            items: { type: 'object', properties: { id: { type: 'string' }, [orderField]: { type: 'number' } }, required: ['id', orderField] }
+          }
+        },
+        required: ['updates']
+      }),
+      responses: {
+        200: jsonResponse('The reordered rows', {}),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden')
+      }
+    }
+  }
+  if (has('restore')) {
+    at(`${item}/restore`).patch = {
+      operationId: `restore${typeName}`,
+      tags,
+      summary: 'Take a row out of the trash',
+      parameters: [idParameter],
+      responses: {
+        200: jsonResponse('The restored row', ref(typeName)),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden', 'NotFound')
+      }
+    }
+  }
+  if (has('purge')) {
+    at(`${item}/purge`).delete = {
+      operationId: `purge${typeName}`,
+      tags,
+      summary: 'Permanently delete a trashed row',
+      parameters: [idParameter],
+      responses: {
+        200: jsonResponse('The purged row', ref(typeName)),
+        ...errorResponses('BadRequest', 'Unauthorized', 'Forbidden', 'NotFound')
+      }
+    }
+  }
+
+  return paths
+}
+
+function errorResponse(description: string): JsonSchema {
+  return jsonResponse(description, ref('Error'))
+}
+
+/** The OpenAPI 3.1 document for the given collections */
+export function buildCollectionOpenApi(entries: readonly CollectionOpenApiEntry[], info: CollectionOpenApiInfo = {}): JsonSchema {
+  const schemas: Record<string, JsonSchema> = {
+    Error: {
+      type: 'object',
+      properties: {
+        statusCode: { type: 'integer' },
+        statusMessage: { type: 'string' },
+        message: { type: 'string' },
+        data: {}
+      }
+    },
+    CollectionBulkResponse: {
+      type: 'object',
+      properties: {
+        applied: { type: 'boolean', description: 'Whether the operations were written' },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer' },
+              op: { type: 'string', enum: ['create', 'update', 'delete'] },
+              id: { type: 'string' },
+              ok: { type: 'boolean' },
+              error: { type: 'string' }
+            },
+            required: ['index', 'op', 'ok']
+          }
+        }
+      },
+      required: ['applied', 'results']
+    }
+  }
+
+  const paths: Record<string, JsonSchema> = {}
+  for (const entry of [...entries].sort((a, b) => a.apiPath.localeCompare(b.apiPath))) {
+    Object.assign(paths, collectionPaths(entry, schemas))
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: info.title || 'Crouton collections API',
+      version: info.version || '1.0.0',
+      ...(info.description ? { description: info.description } : {})
+    },
+    tags: entries.map(entry => ({ name: entry.key, description: `${entry.layer}/${entry.collection}` })),
+    security: [{ cookieAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        cookieAuth: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: SESSION_COOKIE,
+          description: `better-auth session cookie of a team member (\`__Secure-${SESSION_COOKIE}\` over HTTPS)`
+        }
+      },
+      parameters: {
+        teamId: { name: 'id', in: 'path', required: true, description: 'Team id or slug', schema: { type: 'string' } }
+      },
+      responses: {
+        BadRequest: errorResponse('Malformed request or list query'),
+        Unauthorized: errorResponse('No session'),
+        Forbidden: errorResponse('Not a member of the team, or not allowed to change the row'),
+        NotFound: errorResponse('No such row in the team'),
+        Conflict: errorResponse('The row changed since expectedUpdatedAt; data carries the current row'),
+        ValidationFailed: errorResponse('Rule or uniqueness checks failed; data.issues lists them')
+      },
+      schemas
+    }
+  }
+}
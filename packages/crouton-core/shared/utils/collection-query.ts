@@ -0,0 +1,211 @@
+/**
+ * Shared list-query grammar for generated collection endpoints.
+ *
+ * The generated `GET /api/teams/[id]/<layer>-<collection>` endpoint accepts
+ * server-side filtering, sorting and full-text search on top of `?ids=` and
+ * `?page/pageSize`. The same grammar is produced on the client by
+ * `useCollectionQuery` (via `serializeCollectionListQuery`) and parsed on the
+ * server (via `parseCollectionListQuery`), so both sides stay in lockstep.
+ *
+ * Grammar:
+ * - `?status=draft`                 → eq (bare key — also the legacy FK filter form)
+ * - `?status[ne]=archived`          → ne
+ * - `?status[in]=draft,review`      → in (comma separated)
+ * - `?price[gte]=10&price[lt]=100`  → range (gt / gte / lt / lte)
+ * - `?title[contains]=chair`        → case-insensitive substring
+ * - `?sort=-createdAt,title`        → multi-column sort (`-` prefix = descending)
+ * - `?q=chair`                      → search across fields flagged `searchable`
+ *
+ * Which operators a field accepts depends on its kind (see `FILTER_OPS_BY_KIND`).
+ * Bare keys that are not filterable fields are ignored (they may be unrelated
+ * params such as `locale`); bracketed keys on unknown fields or operators are
+ * rejected so typos surface as a 400 instead of silently returning everything.
+ */
+
+export type CollectionFieldKind = 'string' | 'number' | 'date' | 'boolean' | 'reference'
+
+export type CollectionFilterOp = 'eq' | 'ne' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains'
+
+export type CollectionFilterValue = string | number | boolean | Date
+
+export interface CollectionFilter {
+  field: string
+  op: CollectionFilterOp
+  value: CollectionFilterValue | CollectionFilterValue[]
+}
+
+export interface CollectionSort {
+  field: string
+  direction: 'asc' | 'desc'
+}
+
+/** Parsed, validated list query handed to the generated `getAll*` query. */
+export interface CollectionListQuery {
+  filters: CollectionFilter[]
+  sort: CollectionSort[]
+  q?: string
+}
+
+/** Per-collection description of what the list endpoint may filter/sort/search on. */
+export interface CollectionListSpec {
+  /** Filterable + sortable fields keyed by name */
+  fields: Record<string, CollectionFieldKind>
+  /** Fields searched by `?q=` (flagged `searchable` in the schema JSON) */
+  searchable?: readonly string[]
+}
+
+export const FILTER_OPS_BY_KIND: Record<CollectionFieldKind, readonly CollectionFilterOp[]> = {
+  string: ['eq', 'ne', 'in', 'contains'],
+  number: ['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['eq', 'ne'],
+  reference: ['eq', 'ne', 'in']
+}
+
+/** Params owned by the endpoint itself — never treated as field filters. */
+const RESERVED_PARAMS = new Set(['ids', 'page', 'pageSize', 'locale', 'sort', 'q', 'trashed'])
+
+const BRACKET_KEY = /^([A-Z_$][\w$]*)\[(\w+)\]$/i
+
+/** Thrown for malformed list queries; endpoints surface it as a 400. */
+export class CollectionQueryError extends Error {
+  readonly status = 400
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'CollectionQueryError'
+  }
+}
+
+function coerceValue(field: string, kind: CollectionFieldKind, raw: string): CollectionFilterValue {
+  switch (kind) {
+    case 'number': {
+      const n = Number(raw)
+      if (raw.trim() === '' || Number.isNaN(n)) {
+        throw new CollectionQueryError(`Filter "${field}" expects a number`)
+      }
+      return n
+    }
+    case 'date': {
+      const d = new Date(/^\d+$/.test(raw) ? Number(raw) : raw)
+      if (Number.isNaN(d.getTime())) {
+        throw new CollectionQueryError(`Filter "${field}" expects a date`)
+      }
+      return d
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === '1') return true
+      if (raw === 'false' || raw === '0') return false
+      throw new CollectionQueryError(`Filter "${field}" expects true or false`)
+    default:
+      return raw
+  }
+}
+
+function firstValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) return value.length ? String(value[value.length - 1]) : undefined
+  if (value === undefined || value === null) return undefined
+  return String(value)
+}
+
+function parseSort(raw: string, spec: CollectionListSpec): CollectionSort[] {
+  return raw
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const direction: CollectionSort['direction'] = part.startsWith('-') ? 'desc' : 'asc'
+      const field = part.replace(/^[-+]/, '')
+      if (!spec.fields[field]) {
+        throw new CollectionQueryError(`Cannot sort by "${field}"`)
+      }
+      return { field, direction }
+    })
+}
+
+/**
+ * Parse an H3 `getQuery(event)` object into a validated list query.
+ *
+ * @throws CollectionQueryError on unknown fields/operators or uncoercible values
+ */
+export function parseCollectionListQuery(query: Record<string, unknown>, spec: CollectionListSpec): CollectionListQuery {
+  const filters: CollectionFilter[] = []
+
+  for (const [key, rawValue] of Object.entries(query)) {
+    if (RESERVED_PARAMS.has(key)) continue
+    const raw = firstValue(rawValue)
+    if (raw === undefined || raw === '') continue
+
+    const bracket = BRACKET_KEY.exec(key)
+    const field = bracket ? bracket[1]! : key
+    const op = (bracket ? bracket[2] : 'eq') as CollectionFilterOp
+    const kind = spec.fields[field]
+
+    if (!kind) {
+      if (bracket) throw new CollectionQueryError(`Cannot filter on "${field}"`)
+      continue
+    }
+    if (!FILTER_OPS_BY_KIND[kind].includes(op)) {
+      throw new CollectionQueryError(`Operator "${op}" is not supported on "${field}"`)
+    }
+
+    const value = op === 'in'
+      ? raw.split(',').map(v => v.trim()).filter(Boolean).map(v => coerceValue(field, kind, v))
+      : coerceValue(field, kind, raw)
+    filters.push({ field, op, value })
+  }
+
+  const sortRaw = firstValue(query.sort)
+  const sort = sortRaw ? parseSort(sortRaw, spec) : []
+
+  const qRaw = firstValue(query.q)?.trim()
+  let q: string | undefined
+  if (qRaw) {
+    if (!spec.searchable?.length) {
+      throw new CollectionQueryError('This collection has no searchable fields')
+    }
+    q = qRaw
+  }
+
+  return { filters, sort, q }
+}
+
+function serializeValue(value: CollectionFilterValue): string {
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+/**
+ * Inverse of `parseCollectionListQuery` — turns filters/sort/search into flat
+ * query params for `$fetch` / `useFetch`. Empty parts are omitted so they don't
+ * fragment the `useCollectionQuery` cache key.
+ */
+export function serializeCollectionListQuery(listQuery: Partial<CollectionListQuery>): Record<string, string> {
+  const params: Record<string, string> = {}
+
+  for (const filter of listQuery.filters || []) {
+    const key = filter.op === 'eq' ? filter.field : `${filter.field}[${filter.op}]`
+    params[key] = Array.isArray(filter.value)
+      ? filter.value.map(serializeValue).join(',')
+      : serializeValue(filter.value)
+  }
+
+  if (listQuery.sort?.length) {
+    params.sort = listQuery.sort
+      .map(s => `${s.direction === 'desc' ? '-' : ''}${s.field}`)
+      .join(',')
+  }
+
+  const q = listQuery.q?.trim()
+  if (q) params.q = q
+
+  return params
+}
+
+/**
+ * Build a lowercase `LIKE` pattern for a `contains` filter or `?q=` search,
+ * escaping `%`, `_` and `\` so user input matches literally. Pair with
+ * `ESCAPE '\'` in the SQL.
+ */
+export function toContainsPattern(term: string): string {
+  return `%${term.toLowerCase().replace(/[\\%_]/g, ch => `\\${ch}`)}%`
+}
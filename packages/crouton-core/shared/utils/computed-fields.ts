@@ -0,0 +1,71 @@
+/**
+ * Runtime helpers for computed fields.
+ *
+ * Collections can declare fields whose value is derived from other fields
+ * (`"meta": { "computed": "quantity * unitPrice" }`). The CLI compiles each
+ * expression into the collection's generated `computed.ts`, which both the
+ * form (live, read-only preview) and the server (POST/PATCH/bulk for stored
+ * fields, get* queries for virtual ones) import — so client and server use
+ * the same math. Cross-field validation rules (`"meta": { "refine": ... }`)
+ * use the same expression language and compile into `validation.ts`. The
+ * functions below are what those expressions may call, plus the coercions
+ * applied to the field values they read.
+ */
+import { slugify } from './slugify'
+
+export { slugify }
+
+/** Numeric field value; empty values count as 0 */
+export function toNumber(value: unknown): number {
+  if (value === null || value === undefined || value === '') return 0
+  return Number(value)
+}
+
+/** Text field value; empty values count as '' */
+export function toText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value)
+}
+
+/** Date field value as a timestamp (ms), so dates compare with < and >; NaN when empty */
+export function toTime(value: unknown): number {
+  if (value === null || value === undefined || value === '') return Number.NaN
+  return value instanceof Date ? value.getTime() : new Date(value as string | number).getTime()
+}
+
+/** No value given (validation rules skip until every field they read is filled in) */
+export function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/** Numeric result, or null when the math went wrong (NaN, division by zero) */
+export function finite(value: number): number | null {
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Round half away from zero to `digits` decimals. Shifts through the decimal
+ * exponent rather than multiplying, so 1.005 rounds to 1.01 and not 1.
+ */
+export function round(value: number, digits = 0): number {
+  if (!Number.isFinite(value)) return value
+  const shift = (number: number, by: number) => {
+    const [mantissa, exponent = '0'] = String(number).split('e')
+    return Number(`${mantissa}e${Number(exponent) + by}`)
+  }
+  return Math.sign(value) * shift(Math.round(shift(Math.abs(value), digits)), -digits)
+}
+
+export function lower(value: unknown): string {
+  return toText(value).toLowerCase()
+}
+
+export function upper(value: unknown): string {
+  return toText(value).toUpperCase()
+}
+
+export function trim(value: unknown): string {
+  return toText(value).trim()
+}
+
+/** Functions a computed expression may call (besides min/max/abs/floor/ceil from Math) */
+export const COMPUTED_HELPERS = ['round', 'slugify', 'lower', 'upper', 'trim'] as const
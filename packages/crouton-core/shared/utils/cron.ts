@@ -0,0 +1,189 @@
+/**
+ * Cron expressions for scheduled jobs (see server/utils/jobs.ts)
+ *
+ * Standard five fields — minute, hour, day of month, month, day of week —
+ * evaluated in UTC. Fields take `*`, lists, ranges and steps (`*\/15`,
+ * `1-5`, `0,30`, `8-18/2`); months and weekdays also take names (`jan`,
+ * `mon`), and 0 or 7 is Sunday. When both day fields are restricted a day
+ * matches either one, as in classic cron. `@hourly`, `@daily`, `@weekly`,
+ * `@monthly` and `@yearly` are accepted as shorthands.
+ *
+ * @example
+ * ```typescript
+ * nextCronRun('0 3 * * *', new Date('2026-01-01T12:00:00Z'))
+ * // → 2026-01-02T03:00:00.000Z
+ * ```
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  // Whether the field was `*` — decides how the two day fields combine
+  anyDay: boolean
+  anyWeekday: boolean
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES }
+] as const
+
+// Far enough for any real schedule; `0 0 30 2 *` never matches and must end
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+function parseValue(value: string, field: typeof FIELDS[number]): number {
+  const names = 'names' in field ? field.names : undefined
+  const named = names?.indexOf(value.toLowerCase() as never) ?? -1
+  if (named !== -1) return named + (field.name === 'month' ? 1 : 0)
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name} "${value}"`)
+  }
+  const number = Number(value)
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} ${number} is out of range (${field.min}-${field.max})`)
+  }
+  return number
+}
+
+function parseField(source: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of source.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} "${part}"`)
+    }
+
+    let start: number = field.min
+    let end: number = field.max
+    if (range !== '*') {
+      const [from, to] = range.split('-')
+      start = parseValue(from!, field)
+      // `5/15` means from 5 to the end, in steps of 15
+      end = to !== undefined ? parseValue(to, field) : stepText !== undefined ? field.max : start
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range "${range}"`)
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a cron expression; throws an Error describing the first bad field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const fields = (SHORTHANDS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`)
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((source, i) => parseField(source, FIELDS[i]!))
+  // 7 is Sunday too
+  if (weekdays!.delete(7)) weekdays!.add(0)
+
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    days: days!,
+    months: months!,
+    weekdays: weekdays!,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*'
+  }
+}
+
+/**
+ * Whether the expression is valid; for form validation
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getUTCDate())
+  const weekday = schedule.weekdays.has(date.getUTCDay())
+  if (schedule.anyDay) return weekday
+  if (schedule.anyWeekday) return day
+  return day || weekday
+}
+
+/**
+ * Whether the schedule fires in the (UTC) minute containing `date`
+ */
+export function matchesCron(expression: string | CronSchedule, date: Date): boolean {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression
+  return schedule.minutes.has(date.getUTCMinutes())
+    && schedule.hours.has(date.getUTCHours())
+    && schedule.months.has(date.getUTCMonth() + 1)
+    && matchesDay(schedule, date)
+}
+
+/**
+ * The first minute strictly after `from` at which the schedule fires, or
+ * null when it never does (e.g. February 30th)
+ */
+export function nextCronRun(expression: string | CronSchedule, from: Date = new Date()): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression
+  const date = new Date(from)
+  date.setUTCSeconds(0, 0)
+  date.setUTCMinutes(date.getUTCMinutes() + 1)
+  const limit = from.getTime() + SEARCH_LIMIT_MS
+
+  // Skip whole months, days and hours that cannot match before stepping minutes
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0)
+      continue
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0)
+      continue
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1)
+      continue
+    }
+    return date
+  }
+
+  return null
+}
@@ -0,0 +1,398 @@
+/**
+ * Minimal streaming XLSX writer: one worksheet, typed cells, no dependencies.
+ *
+ * The workbook is a ZIP of a handful of XML parts. Entries are written
+ * uncompressed (STORE) with trailing data descriptors, so rows can be emitted
+ * as they arrive and memory stays flat regardless of the row count. Works in
+ * the browser, Node and Workers (only `ReadableStream` and `TextEncoder`).
+ *
+ * Cells are typed per column: numbers and dates are written as numbers with a
+ * number format, booleans as booleans, everything else as inline strings.
+ *
+ * @example
+ * ```typescript
+ * const stream = createXlsxStream({
+ *   columns: [{ header: 'Order', type: 'string' }, { header: 'Total', type: 'decimal' }],
+ *   rows: orders.map(order => [order.number, order.total])
+ * })
+ * ```
+ */
+
+export type XlsxCellType = 'string' | 'integer' | 'decimal' | 'percent' | 'boolean' | 'date' | 'datetime'
+
+export interface XlsxColumn {
+  header: string
+  /** Cell type and number format (default `string`) */
+  type?: XlsxCellType
+  /** Column width in characters */
+  width?: number
+}
+
+export interface XlsxSheetOptions {
+  columns: XlsxColumn[]
+  /** Row values, in column order */
+  rows: Iterable<unknown[]> | AsyncIterable<unknown[]>
+  /** Worksheet name (default `Sheet1`) */
+  sheetName?: string
+}
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+/** Excel refuses cells longer than this */
+const MAX_CELL_LENGTH = 32767
+
+/** Index into `cellXfs` in styles.xml */
+const STYLE_INDEX: Record<XlsxCellType | 'header', number> = {
+  string: 0,
+  header: 1,
+  integer: 2,
+  decimal: 3,
+  percent: 4,
+  date: 5,
+  datetime: 6,
+  boolean: 0
+}
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts>'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="7">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '</cellXfs>'
+  + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+  + '</styleSheet>'
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>'
+
+const ROOT_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>'
+
+const WORKBOOK_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '</Relationships>'
+
+function workbookXml(sheetName: string): string {
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+    + '</workbook>'
+}
+
+// ============ XML ============
+
+// Characters XML 1.0 does not allow, even escaped
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\v\f\u000E-\u001F\uFFFE\uFFFF]/g
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/** Sheet names are at most 31 characters and cannot contain `[]:*?/\` */
+export function toSheetName(name: string): string {
+  const cleaned = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31)
+  return cleaned || 'Sheet1'
+}
+
+/** Column letter for a 0-based index: 0 → A, 25 → Z, 26 → AA */
+export function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+/** Days since 1899-12-30 (Excel's epoch), in UTC */
+export function toExcelDate(date: Date): number {
+  return date.getTime() / 86400000 + 25569
+}
+
+function toDate(value: unknown): Date | null {
+  const date = value instanceof Date ? value : new Date(value as string | number)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function stringCell(ref: string, value: unknown, style: number): string {
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  const styleAttr = style ? ` s="${style}"` : ''
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(text.slice(0, MAX_CELL_LENGTH))}</t></is></c>`
+}
+
+/** One `<c>` element; empty values produce no cell. Values that do not fit the column type fall back to text. */
+export function xlsxCell(ref: string, value: unknown, type: XlsxCellType = 'string'): string {
+  if (value === null || value === undefined || value === '') return ''
+
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+    case 'percent': {
+      const number = typeof value === 'number' ? value : Number(value)
+      if (typeof value === 'boolean' || !Number.isFinite(number)) return stringCell(ref, value, 0)
+      return `<c r="${ref}" s="${STYLE_INDEX[type]}"><v>${number}</v></c>`
+    }
+    case 'boolean':
+      return `<c r="${ref}" t="b"><v>${value === true || value === 'true' || value === 1 || value === '1' ? 1 : 0}</v></c>`
+    case 'date':
+    case 'datetime': {
+      const date = toDate(value)
+      if (!date) return stringCell(ref, value, 0)
+      const serial = toExcelDate(date)
+      return `<c r="${ref}" s="${STYLE_INDEX[type]}"><v>${type === 'date' ? Math.floor(serial) : serial}</v></c>`
+    }
+    default:
+      return stringCell(ref, value, 0)
+  }
+}
+
+function headerRow(columns: XlsxColumn[]): string {
+  const cells = columns.map((column, i) => stringCell(`${columnName(i)}1`, column.header, STYLE_INDEX.header))
+  return `<row r="1">${cells.join('')}</row>`
+}
+
+function dataRow(rowNumber: number, values: unknown[], columns: XlsxColumn[]): string {
+  const cells = columns.map((column, i) => xlsxCell(`${columnName(i)}${rowNumber}`, values[i], column.type))
+  return `<row r="${rowNumber}">${cells.join('')}</row>`
+}
+
+function sheetStart(columns: XlsxColumn[]): string {
+  const cols = columns.map((column, i) => {
+    const width = column.width ?? Math.min(50, Math.max(10, column.header.length + 2))
+    return `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`
+  })
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    // Freeze the header row
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + (cols.length > 0 ? `<cols>${cols.join('')}</cols>` : '')
+    + '<sheetData>'
+    + headerRow(columns)
+}
+
+const SHEET_END = '</sheetData></worksheet>'
+
+// ============ ZIP ============
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/** Update a running CRC-32; start with `0` */
+export function crc32(data: Uint8Array, crc: number = 0): number {
+  let c = crc ^ 0xFFFFFFFF
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]!) & 0xFF]! ^ (c >>> 8)
+  }
+  return (c ^ 0xFFFFFFFF) >>> 0
+}
+
+interface ZipEntry {
+  name: Uint8Array
+  offset: number
+  crc: number
+  size: number
+}
+
+// MS-DOS date/time for 1980-01-01 00:00; the entries carry no meaningful mtime
+const DOS_TIME = 0
+const DOS_DATE = 0x21
+
+function header(size: number, fill: (view: DataView) => void): Uint8Array {
+  const bytes = new Uint8Array(size)
+  fill(new DataView(bytes.buffer))
+  return bytes
+}
+
+function localFileHeader(name: Uint8Array): Uint8Array {
+  const bytes = header(30 + name.length, (view) => {
+    view.setUint32(0, 0x04034B50, true)
+    view.setUint16(4, 20, true) // version needed
+    view.setUint16(6, 0x0808, true) // data descriptor follows, UTF-8 names
+    view.setUint16(8, 0, true) // STORE
+    view.setUint16(10, DOS_TIME, true)
+    view.setUint16(12, DOS_DATE, true)
+    // crc and sizes live in the data descriptor
+    view.setUint16(26, name.length, true)
+  })
+  bytes.set(name, 30)
+  return bytes
+}
+
+function dataDescriptor(entry: ZipEntry): Uint8Array {
+  return header(16, (view) => {
+    view.setUint32(0, 0x08074B50, true)
+    view.setUint32(4, entry.crc, true)
+    view.setUint32(8, entry.size, true)
+    view.setUint32(12, entry.size, true)
+  })
+}
+
+function centralDirectory(entries: ZipEntry[], offset: number): Uint8Array {
+  const records = entries.map((entry) => {
+    const bytes = header(46 + entry.name.length, (view) => {
+      view.setUint32(0, 0x02014B50, true)
+      view.setUint16(4, 20, true) // version made by
+      view.setUint16(6, 20, true) // version needed
+      view.setUint16(8, 0x0808, true)
+      view.setUint16(10, 0, true)
+      view.setUint16(12, DOS_TIME, true)
+      view.setUint16(14, DOS_DATE, true)
+      view.setUint32(16, entry.crc, true)
+      view.setUint32(20, entry.size, true)
+      view.setUint32(24, entry.size, true)
+      view.setUint16(28, entry.name.length, true)
+      view.setUint32(42, entry.offset, true)
+    })
+    bytes.set(entry.name, 46)
+    return bytes
+  })
+  const size = records.reduce((total, record) => total + record.length, 0)
+
+  const end = header(22, (view) => {
+    view.setUint32(0, 0x06054B50, true)
+    view.setUint16(8, entries.length, true)
+    view.setUint16(10, entries.length, true)
+    view.setUint32(12, size, true)
+    view.setUint32(16, offset, true)
+  })
+
+  const out = new Uint8Array(size + end.length)
+  let position = 0
+  for (const record of [...records, end]) {
+    out.set(record, position)
+    position += record.length
+  }
+  return out
+}
+
+// ============ Workbook ============
+
+async function* workbookParts(options: XlsxSheetOptions): AsyncGenerator<{ name: string, chunks: AsyncIterable<string> | Iterable<string> }> {
+  const { columns, rows, sheetName = 'Sheet1' } = options
+
+  yield { name: '[Content_Types].xml', chunks: [CONTENT_TYPES_XML] }
+  yield { name: '_rels/.rels', chunks: [ROOT_RELS_XML] }
+  yield { name: 'xl/workbook.xml', chunks: [workbookXml(toSheetName(sheetName))] }
+  yield { name: 'xl/_rels/workbook.xml.rels', chunks: [WORKBOOK_RELS_XML] }
+  yield { name: 'xl/styles.xml', chunks: [STYLES_XML] }
+  yield {
+    name: 'xl/worksheets/sheet1.xml',
+    chunks: (async function* () {
+      yield sheetStart(columns)
+      let rowNumber = 1
+      for await (const values of rows) {
+        rowNumber++
+        yield dataRow(rowNumber, values, columns)
+      }
+      yield SHEET_END
+    })()
+  }
+}
+
+/**
+ * Stream an XLSX workbook. Rows are pulled from `rows` as the consumer reads,
+ * so an async iterable that pages through a database never holds more than a
+ * page in memory.
+ */
+export function createXlsxStream(options: XlsxSheetOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  async function* bytes(): AsyncGenerator<Uint8Array> {
+    const entries: ZipEntry[] = []
+    let offset = 0
+
+    for await (const part of workbookParts(options)) {
+      const entry: ZipEntry = { name: encoder.encode(part.name), offset, crc: 0, size: 0 }
+      const fileHeader = localFileHeader(entry.name)
+      offset += fileHeader.length
+      yield fileHeader
+
+      for await (const chunk of part.chunks) {
+        const data = encoder.encode(chunk)
+        entry.crc = crc32(data, entry.crc)
+        entry.size += data.length
+        offset += data.length
+        yield data
+      }
+
+      const descriptor = dataDescriptor(entry)
+      offset += descriptor.length
+      entries.push(entry)
+      yield descriptor
+    }
+
+    yield centralDirectory(entries, offset)
+  }
+
+  const iterator = bytes()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next()
+        if (done) controller.close()
+        else controller.enqueue(value)
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined)
+    }
+  })
+}
+
+/** Build a whole XLSX workbook in memory (for client-side exports of loaded rows). */
+export async function buildXlsx(options: XlsxSheetOptions): Promise<Uint8Array> {
+  const reader = createXlsxStream(options).getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    length += value.length
+  }
+
+  const out = new Uint8Array(length)
+  let position = 0
+  for (const chunk of chunks) {
+    out.set(chunk, position)
+    position += chunk.length
+  }
+  return out
+}
@@ -0,0 +1,107 @@
+/**
+ * Audit hash chain tests
+ *
+ * Covers chaining rows, finding the first broken link, and signed export
+ * bundles (checked offline by `crouton audit verify`).
+ */
+import { describe, it, expect } from 'vitest'
+import type { AuditBundle, AuditChainRow } from '../../shared/utils/audit-chain'
+import { chainAuditRows, signAuditBundle, verifyAuditBundle, verifyAuditChainRows } from '../../shared/utils/audit-chain'
+
+function row(index: number): AuditChainRow {
+  return {
+    id: `event-${index}`,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 9, 0, index)),
+    operation: 'update',
+    collectionName: 'shopProducts',
+    itemId: 'product-1',
+    teamId: 'team-1',
+    userId: 'user-1',
+    userName: 'Jane',
+    changes: [{ fieldName: 'price', oldValue: String(index), newValue: String(index + 1) }],
+    correlationId: null,
+    metadata: { source: 'api', action: 'update' }
+  }
+}
+
+const rows = (count: number) => chainAuditRows(Array.from({ length: count }, (_, i) => row(i)), null)
+
+describe('verifyAuditChainRows', () => {
+  it('accepts an untouched chain and reports its head', async () => {
+    const chained = await rows(3)
+
+    const result = await verifyAuditChainRows(chained, null)
+
+    expect(result).toMatchObject({ valid: true, checked: 3, broken: null, head: { seq: 3, hash: chained[2]!.hash } })
+    expect(chained[1]!.prevHash).toBe(chained[0]!.hash)
+  })
+
+  it('finds an edited row', async () => {
+    const chained = await rows(3)
+    chained[1]!.changes = [{ fieldName: 'price', oldValue: '1', newValue: '99' }]
+
+    const result = await verifyAuditChainRows(chained, null)
+
+    expect(result.broken).toEqual({ seq: 2, id: 'event-1', reason: 'hash-mismatch' })
+    expect(result.head?.seq).toBe(1)
+  })
+
+  it('finds a removed row', async () => {
+    const chained = await rows(3)
+
+    const result = await verifyAuditChainRows([chained[0]!, chained[2]!], null)
+
+    expect(result.broken).toMatchObject({ seq: 3, reason: 'missing-row' })
+  })
+
+  it('continues from a checkpoint', async () => {
+    const chained = await rows(4)
+
+    expect((await verifyAuditChainRows(chained.slice(2), { seq: 2, hash: chained[1]!.hash! })).valid).toBe(true)
+    expect((await verifyAuditChainRows(chained.slice(2), { seq: 2, hash: 'other' })).broken?.reason).toBe('broken-link')
+  })
+
+  it('ignores the client annotation in metadata', async () => {
+    const chained = await rows(1)
+    chained[0]!.metadata = { ...chained[0]!.metadata, client: { page: '/products' } }
+
+    expect((await verifyAuditChainRows(chained, null)).valid).toBe(true)
+  })
+})
+
+describe('verifyAuditBundle', () => {
+  async function bundle(): Promise<AuditBundle> {
+    const content: AuditBundle = JSON.parse(JSON.stringify({
+      format: 'crouton-audit-bundle',
+      version: 1,
+      teamId: 'team-1',
+      exportedAt: '2026-02-01T00:00:00.000Z',
+      anchor: null,
+      events: await rows(2),
+      next: null
+    }))
+    return { ...content, signature: { algorithm: 'HMAC-SHA256', value: await signAuditBundle(content, 'secret') } }
+  }
+
+  it('checks the signature and the chain after a JSON round trip', async () => {
+    const file = JSON.parse(JSON.stringify(await bundle(), null, 2))
+
+    expect(await verifyAuditBundle(file, 'secret')).toMatchObject({ valid: true, signature: 'valid', checked: 2 })
+  })
+
+  it('rejects a bundle signed with another secret', async () => {
+    expect(await verifyAuditBundle(await bundle(), 'other')).toMatchObject({ valid: false, signature: 'invalid' })
+  })
+
+  it('reports a re-signed but edited bundle by its chain', async () => {
+    const edited = await bundle()
+    edited.events[0]!.userName = 'Someone else'
+    edited.signature!.value = await signAuditBundle(edited, 'secret')
+
+    expect(await verifyAuditBundle(edited, 'secret')).toMatchObject({ valid: false, signature: 'valid', broken: { seq: 1, reason: 'hash-mismatch' } })
+  })
+
+  it('checks only the chain without a secret', async () => {
+    expect(await verifyAuditBundle(await bundle())).toMatchObject({ valid: true, signature: 'unchecked' })
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * Bulk contract tests
+ *
+ * Covers the chunking and failure helpers shared by the generated
+ * POST /bulk endpoint and useCollectionMutation().bulk().
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  chunkBulkOperations,
+  bulkFailures,
+  MAX_BULK_OPERATIONS
+} from '../../shared/utils/collection-bulk'
+
+describe('chunkBulkOperations', () => {
+  it('keeps short lists in one chunk', () => {
+    expect(chunkBulkOperations([1, 2, 3])).toEqual([[1, 2, 3]])
+  })
+
+  it('splits at MAX_BULK_OPERATIONS by default', () => {
+    const chunks = chunkBulkOperations(Array.from({ length: MAX_BULK_OPERATIONS + 1 }, (_, i) => i))
+    expect(chunks.map(chunk => chunk.length)).toEqual([MAX_BULK_OPERATIONS, 1])
+  })
+
+  it('returns no chunks for an empty list', () => {
+    expect(chunkBulkOperations([], 2)).toEqual([])
+  })
+})
+
+describe('bulkFailures', () => {
+  const response = {
+    applied: false,
+    results: [
+      { index: 0, op: 'update' as const, id: 'a', ok: true },
+      { index: 1, op: 'delete' as const, id: 'b', ok: false, error: 'Not found or unauthorized' }
+    ]
+  }
+
+  it('returns only the failed rows', () => {
+    expect(bulkFailures(response)).toEqual([response.results[1]])
+  })
+
+  it('shifts indices by the chunk offset', () => {
+    expect(bulkFailures(response, 1000)[0].index).toBe(1001)
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Collection client tests
+ *
+ * Covers the requests createCollectionClient sends to the generated team
+ * endpoints (the runtime `crouton sdk` copies into the generated SDK).
+ */
+import { describe, it, expect, vi } from 'vitest'
+import { createCollectionClient, CollectionClientError } from '../../shared/utils/collection-client'
+
+interface Category { id: string, name: string }
+type Types = {
+  shopCategories: { Item: Category, FormData: { name: string }, NewItem: { name: string }, Endpoints: 'list' | 'create' | 'update' | 'delete' | 'move' | 'reorder' }
+}
+
+function setup(response: unknown = [], status = 200, baseURL = 'http://localhost:3000') {
+  const fetch = vi.fn(async (_url: URL, _init: RequestInit) => new Response(JSON.stringify(response), { status }))
+  const client = createCollectionClient<Types>(
+    { shopCategories: { apiPath: 'shop-categories', endpoints: ['list', 'create', 'update', 'delete', 'move', 'reorder'], orderField: 'position' } },
+    { baseURL, team: 'acme', token: 'tok.sig', fetch: fetch as unknown as typeof globalThis.fetch }
+  )
+  const call = (index = 0) => {
+    const [url, init] = fetch.mock.calls[index]!
+    return { url: String(url), init, headers: init.headers as Record<string, string>, body: init.body ? JSON.parse(init.body as string) : undefined }
+  }
+  return { client, fetch, call }
+}
+
+describe('createCollectionClient', () => {
+  it('scopes requests to the team and sends the token as the session cookie', async () => {
+    const { client, call } = setup()
+    await client.shopCategories.list()
+    expect(call().url).toBe('http://localhost:3000/api/teams/acme/shop-categories')
+    expect(call().headers.cookie).toBe('better-auth.session_token=tok.sig')
+  })
+
+  it('uses the secure cookie name over https', async () => {
+    const { client, call } = setup([], 200, 'https://app.example.com/')
+    await client.shopCategories.list()
+    expect(call().url).toBe('https://app.example.com/api/teams/acme/shop-categories')
+    expect(call().headers.cookie).toBe('__Secure-better-auth.session_token=tok.sig')
+  })
+
+  it('serializes filters, sort, search and pagination', async () => {
+    const { client, call } = setup({ items: [], total: 0, page: 2, pageSize: 25 })
+    await client.shopCategories.page(2, {
+      pageSize: 25,
+      filters: [{ field: 'name', op: 'contains', value: 'chair' }],
+      sort: [{ field: 'createdAt', direction: 'desc' }],
+      trashed: true
+    })
+    const url = new URL(call().url)
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      'name[contains]': 'chair',
+      'sort': '-createdAt',
+      'trashed': 'true',
+      'page': '2',
+      'pageSize': '25'
+    })
+  })
+
+  it('gets single rows through ?ids=', async () => {
+    const { client, call } = setup([{ id: 'c1', name: 'Chairs' }])
+    expect(await client.shopCategories.get('c1')).toEqual({ id: 'c1', name: 'Chairs' })
+    expect(call().url).toBe('http://localhost:3000/api/teams/acme/shop-categories?ids=c1')
+  })
+
+  it('sends mutations as JSON', async () => {
+    const { client, call } = setup({ id: 'c1', name: 'Chairs' })
+    await client.shopCategories.create({ name: 'Chairs' })
+    await client.shopCategories.update('c1', { name: 'Seats' }, { expectedUpdatedAt: '2026-01-01T00:00:00.000Z' })
+    await client.shopCategories.delete('c1')
+
+    expect(call(0).init.method).toBe('POST')
+    expect(call(0).body).toEqual({ name: 'Chairs' })
+    expect(call(1).url).toBe('http://localhost:3000/api/teams/acme/shop-categories/c1')
+    expect(call(1).body).toEqual({ name: 'Seats', expectedUpdatedAt: '2026-01-01T00:00:00.000Z' })
+    expect(call(2).init.method).toBe('DELETE')
+  })
+
+  it('sends the collection\'s order field on reorder', async () => {
+    const { client, call } = setup({ success: true })
+    await client.shopCategories.move('c2', { parentId: 'c1', order: 3 })
+    await client.shopCategories.reorder([{ id: 'c1', order: 0 }])
+    expect(call(0).url).toBe('http://localhost:3000/api/teams/acme/shop-categories/c2/move')
+    expect(call(0).body).toEqual({ parentId: 'c1', order: 3 })
+    expect(call(1).body).toEqual({ updates: [{ id: 'c1', position: 0 }] })
+  })
+
+  it('throws the endpoint\'s error with its status and data', async () => {
+    const { client } = setup({ statusCode: 422, statusMessage: 'Validation failed', data: { issues: ['name'] } }, 422)
+    const error = await client.shopCategories.create({ name: '' }).catch(error => error)
+    expect(error).toBeInstanceOf(CollectionClientError)
+    expect(error).toMatchObject({ status: 422, message: 'Validation failed', data: { issues: ['name'] } })
+  })
+})
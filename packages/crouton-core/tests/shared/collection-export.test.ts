@@ -0,0 +1,122 @@
+/**
+ * Export contract tests
+ *
+ * Covers column value expansion and the paged streaming used by the generated
+ * GET /export endpoint.
+ */
+import { describe, it, expect, vi } from 'vitest'
+import {
+  collectionExportHeaders,
+  collectionExportValue,
+  escapeCsv,
+  isCollectionExportFormat,
+  streamCollectionExport,
+  type CollectionExportColumn
+} from '../../shared/utils/collection-export'
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  // Keep the BOM; Response.text() would strip it
+  return new TextDecoder('utf-8', { ignoreBOM: true }).decode(await new Response(stream).arrayBuffer())
+}
+
+const columns: CollectionExportColumn[] = [
+  { key: 'title', label: 'Title', translatable: true },
+  { key: 'categoryId', label: 'Category', reference: true },
+  { key: 'price', label: 'Price', type: 'decimal' }
+]
+
+const rows = [
+  { title: 'Apple', translations: { nl: { title: 'Appel' } }, categoryId: 'c1', categoryIdData: { id: 'c1', title: 'Fruit' }, price: 1.5 },
+  { title: 'Pear, green', categoryId: 'c2', categoryIdData: null, price: 2 },
+  { title: 'Plum', categoryId: null, price: null }
+]
+
+function pages(items: any[]) {
+  return vi.fn(async (limit: number, offset: number) => ({ items: items.slice(offset, offset + limit), total: items.length }))
+}
+
+describe('collectionExportValue', () => {
+  it('expands references to the joined title', () => {
+    expect(collectionExportValue(rows[0]!, columns[1]!)).toBe('Fruit')
+  })
+
+  it('falls back to the id when the reference was not joined', () => {
+    expect(collectionExportValue(rows[1]!, columns[1]!)).toBe('c2')
+  })
+
+  it('joins the titles of many-to-many references', () => {
+    const row = { tagIds: ['t1', 't2'], tagIdsData: [{ id: 't1', name: 'Red' }, { id: 't2', title: 'Sale' }] }
+    expect(collectionExportValue(row, { key: 'tagIds', label: 'Tags', reference: true })).toBe('Red, Sale')
+  })
+
+  it('uses the translation for the requested locale', () => {
+    expect(collectionExportValue(rows[0]!, columns[0]!, 'nl')).toBe('Appel')
+    expect(collectionExportValue(rows[0]!, columns[0]!, 'fr')).toBe('Apple')
+  })
+})
+
+describe('escapeCsv', () => {
+  it('quotes values with separators and doubles quotes', () => {
+    expect(escapeCsv('a,b')).toBe('"a,b"')
+    expect(escapeCsv('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCsv(null)).toBe('')
+    expect(escapeCsv(new Date('2024-01-01T00:00:00Z'))).toBe('2024-01-01T00:00:00.000Z')
+  })
+})
+
+describe('isCollectionExportFormat', () => {
+  it('accepts csv, json and xlsx only', () => {
+    expect(['csv', 'json', 'xlsx', 'pdf'].map(isCollectionExportFormat)).toEqual([true, true, true, false])
+  })
+})
+
+describe('collectionExportHeaders', () => {
+  it('sets an attachment filename with the format extension', () => {
+    const headers = collectionExportHeaders('xlsx', 'shop-orders')
+    expect(headers['Content-Type']).toContain('spreadsheetml')
+    expect(headers['Content-Disposition']).toMatch(/^attachment; filename="shop-orders-\d{4}-\d{2}-\d{2}\.xlsx"$/)
+  })
+})
+
+describe('streamCollectionExport', () => {
+  it('streams CSV across pages', async () => {
+    const fetchPage = pages(rows)
+    const text = await readText(streamCollectionExport({ format: 'csv', columns, locale: 'nl', fetchPage, pageSize: 2 }))
+
+    expect(text).toBe('\uFEFFTitle,Category,Price\nAppel,Fruit,1.5\n"Pear, green",c2,2\nPlum,,')
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+    expect(fetchPage).toHaveBeenLastCalledWith(2, 2)
+  })
+
+  it('fetches one extra page when the last page is full', async () => {
+    const fetchPage = pages(rows.slice(0, 2))
+    await readText(streamCollectionExport({ format: 'csv', columns, fetchPage, pageSize: 2 }))
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('streams a JSON array keyed by column', async () => {
+    const text = await readText(streamCollectionExport({ format: 'json', columns, fetchPage: pages(rows) }))
+    expect(JSON.parse(text)).toEqual([
+      { title: 'Apple', categoryId: 'Fruit', price: 1.5 },
+      { title: 'Pear, green', categoryId: 'c2', price: 2 },
+      { title: 'Plum', categoryId: null, price: null }
+    ])
+  })
+
+  it('streams an empty JSON array when nothing matches', async () => {
+    const text = await readText(streamCollectionExport({ format: 'json', columns, fetchPage: pages([]) }))
+    expect(JSON.parse(text)).toEqual([])
+  })
+
+  it('streams an XLSX workbook', async () => {
+    const bytes = new Uint8Array(await new Response(streamCollectionExport({ format: 'xlsx', columns, fetchPage: pages(rows) })).arrayBuffer())
+    // ZIP local file header signature
+    expect([...bytes.subarray(0, 4)]).toEqual([0x50, 0x4B, 0x03, 0x04])
+    expect(new TextDecoder().decode(bytes)).toContain('<c r="C2" s="3"><v>1.5</v></c>')
+  })
+
+  it('accepts plain arrays from fetchPage', async () => {
+    const text = await readText(streamCollectionExport({ format: 'csv', columns, fetchPage: async () => [] }))
+    expect(text).toBe('\uFEFFTitle,Category,Price')
+  })
+})
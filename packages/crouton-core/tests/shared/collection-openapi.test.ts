@@ -0,0 +1,106 @@
+/**
+ * OpenAPI document tests
+ *
+ * Covers the paths, parameters and schemas buildCollectionOpenApi derives from
+ * the per-collection entries the CLI writes into server/utils/crouton-openapi.ts.
+ */
+import { describe, it, expect } from 'vitest'
+import { buildCollectionOpenApi, type CollectionOpenApiEntry } from '../../shared/utils/collection-openapi'
+
+const orders: CollectionOpenApiEntry = {
+  key: 'salesOrders',
+  typeName: 'SalesOrder',
+  layer: 'sales',
+  collection: 'orders',
+  apiPath: 'sales-orders',
+  idParam: 'orderId',
+  schema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    properties: {
+      title: { type: 'string', minLength: 1 },
+      total: { type: 'number' },
+      dueAt: { type: 'string', format: 'date-time' }
+    },
+    required: ['title']
+  },
+  endpoints: ['list', 'create', 'update', 'delete', 'bulk', 'export', 'restore', 'purge'],
+  list: { fields: { title: 'string', total: 'number', createdAt: 'date' }, searchable: ['title'] }
+}
+
+const categories: CollectionOpenApiEntry = {
+  key: 'shopCategories',
+  typeName: 'ShopCategory',
+  layer: 'shop',
+  collection: 'categories',
+  apiPath: 'shop-categories',
+  idParam: 'categoryId',
+  schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+  endpoints: ['list', 'create', 'update', 'delete', 'move', 'reorder'],
+  list: { fields: { name: 'string' } },
+  orderField: 'position',
+  metadata: false
+}
+
+const document = buildCollectionOpenApi([orders, categories], { title: 'Shop' })
+
+describe('buildCollectionOpenApi', () => {
+  it('writes an OpenAPI 3.1 document behind the session cookie', () => {
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.info).toEqual({ title: 'Shop', version: '1.0.0' })
+    expect(document.security).toEqual([{ cookieAuth: [] }])
+    expect(document.components.securitySchemes.cookieAuth).toMatchObject({ type: 'apiKey', in: 'cookie', name: 'better-auth.session_token' })
+  })
+
+  it('has a path per generated endpoint', () => {
+    expect(Object.keys(document.paths)).toEqual([
+      '/api/teams/{id}/sales-orders',
+      '/api/teams/{id}/sales-orders/{orderId}',
+      '/api/teams/{id}/sales-orders/bulk',
+      '/api/teams/{id}/sales-orders/export',
+      '/api/teams/{id}/sales-orders/{orderId}/restore',
+      '/api/teams/{id}/sales-orders/{orderId}/purge',
+      '/api/teams/{id}/shop-categories',
+      '/api/teams/{id}/shop-categories/{categoryId}',
+      '/api/teams/{id}/shop-categories/{categoryId}/move',
+      '/api/teams/{id}/shop-categories/reorder'
+    ])
+    expect(document.paths['/api/teams/{id}/sales-orders'].get.operationId).toBe('listSalesOrders')
+    expect(document.paths['/api/teams/{id}/sales-orders/{orderId}'].patch.operationId).toBe('updateSalesOrder')
+  })
+
+  it('describes pagination, sorting, search and the field filters of the list', () => {
+    const names = document.paths['/api/teams/{id}/sales-orders'].get.parameters.map((parameter: { name: string }) => parameter.name)
+    expect(names).toEqual(expect.arrayContaining(['ids', 'page', 'pageSize', 'sort', 'q', 'trashed', 'title[contains]', 'total[gte]', 'createdAt[lt]']))
+    expect(names).not.toContain('title[gt]')
+    expect(names).not.toContain('locale')
+
+    const categoryNames = document.paths['/api/teams/{id}/shop-categories'].get.parameters.map((parameter: { name: string }) => parameter.name)
+    expect(categoryNames).not.toContain('q')
+    expect(categoryNames).not.toContain('trashed')
+  })
+
+  it('returns rows as an array or a page', () => {
+    const schema = document.paths['/api/teams/{id}/sales-orders'].get.responses[200].content['application/json'].schema
+    expect(schema.oneOf[0]).toEqual({ type: 'array', items: { $ref: '#/components/schemas/SalesOrder' } })
+    expect(schema.oneOf[1].required).toEqual(['items', 'total', 'page', 'pageSize'])
+  })
+
+  it('derives row, create and update schemas from the fields schema', () => {
+    const { schemas } = document.components
+    expect(schemas.SalesOrderInput).not.toHaveProperty('$schema')
+    expect(schemas.SalesOrder.required).toEqual(['id', 'title'])
+    expect(schemas.SalesOrder.properties).toHaveProperty('createdAt')
+    expect(schemas.SalesOrderUpdate).not.toHaveProperty('required')
+    expect(schemas.SalesOrderUpdate.properties).toHaveProperty('expectedUpdatedAt')
+
+    expect(schemas.ShopCategory.properties).not.toHaveProperty('createdAt')
+    expect(schemas.ShopCategory.properties.name).toEqual({ type: 'string' })
+    expect(schemas.ShopCategoryUpdate.properties).not.toHaveProperty('expectedUpdatedAt')
+  })
+
+  it('uses the hierarchy order field in reorder bodies', () => {
+    const body = document.paths['/api/teams/{id}/shop-categories/reorder'].patch.requestBody.content['application/json'].schema
+    expect(body.properties.updates.items.required).toEqual(['id', 'position'])
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * List query grammar tests
+ *
+ * Covers the ?field[op]=, ?sort= and ?q= grammar shared by the generated GET
+ * endpoint (parse) and useCollectionQuery (serialize).
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  parseCollectionListQuery,
+  serializeCollectionListQuery,
+  toContainsPattern,
+  CollectionQueryError,
+  type CollectionListSpec
+} from '../../shared/utils/collection-query'
+
+const spec: CollectionListSpec = {
+  fields: {
+    title: 'string',
+    price: 'number',
+    publishedAt: 'date',
+    active: 'boolean',
+    categoryId: 'reference',
+    createdAt: 'date'
+  },
+  searchable: ['title']
+}
+
+describe('parseCollectionListQuery', () => {
+  it('treats bare keys as eq filters (legacy FK form)', () => {
+    const result = parseCollectionListQuery({ categoryId: 'cat-1' }, spec)
+    expect(result.filters).toEqual([{ field: 'categoryId', op: 'eq', value: 'cat-1' }])
+  })
+
+  it('ignores reserved params and unknown bare keys', () => {
+    const result = parseCollectionListQuery({ ids: 'a,b', page: '2', pageSize: '10', locale: 'nl', trashed: 'true', foo: 'bar' }, spec)
+    expect(result.filters).toEqual([])
+  })
+
+  it('parses range operators with typed values', () => {
+    const result = parseCollectionListQuery({ 'price[gte]': '10', 'price[lt]': '100' }, spec)
+    expect(result.filters).toEqual([
+      { field: 'price', op: 'gte', value: 10 },
+      { field: 'price', op: 'lt', value: 100 }
+    ])
+  })
+
+  it('coerces dates and booleans', () => {
+    const result = parseCollectionListQuery({ 'publishedAt[gt]': '2025-01-01', 'active': 'true' }, spec)
+    expect(result.filters[0]!.value).toEqual(new Date('2025-01-01'))
+    expect(result.filters[1]).toEqual({ field: 'active', op: 'eq', value: true })
+  })
+
+  it('splits in-lists on commas', () => {
+    const result = parseCollectionListQuery({ 'categoryId[in]': 'a, b,,c' }, spec)
+    expect(result.filters).toEqual([{ field: 'categoryId', op: 'in', value: ['a', 'b', 'c'] }])
+  })
+
+  it('rejects operators the field kind does not support', () => {
+    expect(() => parseCollectionListQuery({ 'active[gt]': '1' }, spec)).toThrow(CollectionQueryError)
+    expect(() => parseCollectionListQuery({ 'price[contains]': '1' }, spec)).toThrow(/not supported/)
+  })
+
+  it('rejects bracketed filters on unknown fields', () => {
+    expect(() => parseCollectionListQuery({ 'secret[eq]': 'x' }, spec)).toThrow(/Cannot filter/)
+  })
+
+  it('rejects uncoercible values', () => {
+    expect(() => parseCollectionListQuery({ 'price[gte]': 'cheap' }, spec)).toThrow(/expects a number/)
+    expect(() => parseCollectionListQuery({ active: 'maybe' }, spec)).toThrow(/true or false/)
+  })
+
+  it('parses multi-column sort', () => {
+    const result = parseCollectionListQuery({ sort: '-createdAt,title' }, spec)
+    expect(result.sort).toEqual([
+      { field: 'createdAt', direction: 'desc' },
+      { field: 'title', direction: 'asc' }
+    ])
+  })
+
+  it('rejects sorting on unknown fields', () => {
+    expect(() => parseCollectionListQuery({ sort: 'secret' }, spec)).toThrow(/Cannot sort/)
+  })
+
+  it('accepts q only when the collection has searchable fields', () => {
+    expect(parseCollectionListQuery({ q: ' chair ' }, spec).q).toBe('chair')
+    expect(() => parseCollectionListQuery({ q: 'chair' }, { fields: spec.fields })).toThrow(/no searchable/)
+  })
+
+  it('reports a 400 status on errors', () => {
+    try {
+      parseCollectionListQuery({ sort: 'nope' }, spec)
+    } catch (error) {
+      expect((error as CollectionQueryError).status).toBe(400)
+    }
+  })
+})
+
+describe('serializeCollectionListQuery', () => {
+  it('round-trips through parseCollectionListQuery', () => {
+    const listQuery = {
+      filters: [
+        { field: 'categoryId', op: 'in' as const, value: ['a', 'b'] },
+        { field: 'price', op: 'gte' as const, value: 10 },
+        { field: 'active', op: 'eq' as const, value: false }
+      ],
+      sort: [{ field: 'createdAt', direction: 'desc' as const }],
+      q: 'chair'
+    }
+    const params = serializeCollectionListQuery(listQuery)
+    expect(params).toEqual({
+      'categoryId[in]': 'a,b',
+      'price[gte]': '10',
+      'active': 'false',
+      'sort': '-createdAt',
+      'q': 'chair'
+    })
+    expect(parseCollectionListQuery(params, spec)).toEqual(listQuery)
+  })
+
+  it('omits empty parts', () => {
+    expect(serializeCollectionListQuery({ filters: [], sort: [], q: '  ' })).toEqual({})
+  })
+})
+
+describe('toContainsPattern', () => {
+  it('lowercases and escapes LIKE wildcards', () => {
+    expect(toContainsPattern('50%_Off\\')).toBe('%50\\%\\_off\\\\%')
+  })
+})
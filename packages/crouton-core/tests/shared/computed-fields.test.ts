@@ -0,0 +1,49 @@
+/**
+ * Computed field helper tests
+ *
+ * These run inside the generated computed.ts on both client and server, so
+ * empty values and bad math must never throw.
+ */
+import { describe, it, expect } from 'vitest'
+import { finite, isBlank, lower, round, slugify, toNumber, toText, toTime, trim, upper } from '../../shared/utils/computed-fields'
+
+describe('coercions', () => {
+  it('treats empty values as 0 or an empty string', () => {
+    expect([null, undefined, '', '2.5', 3].map(toNumber)).toEqual([0, 0, 0, 2.5, 3])
+    expect([null, undefined, 'a', 1].map(toText)).toEqual(['', '', 'a', '1'])
+  })
+
+  it('reads dates as comparable timestamps', () => {
+    expect(toTime('2025-01-02')).toBeGreaterThan(toTime(new Date('2025-01-01')))
+    expect(toTime(null)).toBeNaN()
+  })
+
+  it('treats null, undefined, empty strings and empty lists as blank', () => {
+    expect([null, undefined, '', [], 0, false, 'a'].map(isBlank)).toEqual([true, true, true, true, false, false, false])
+  })
+
+  it('turns NaN and infinities into null', () => {
+    expect(finite(1 / 0)).toBeNull()
+    expect(finite(Number('x'))).toBeNull()
+    expect(finite(1.5)).toBe(1.5)
+  })
+})
+
+describe('round', () => {
+  it('rounds half away from zero', () => {
+    expect(round(1.005, 2)).toBe(1.01)
+    expect(round(-2.5)).toBe(-3)
+    expect(round(3 * 1.1, 2)).toBe(3.3)
+    expect(round(1e-7, 2)).toBe(0)
+    expect(round(1234.5678, 1)).toBe(1234.6)
+  })
+})
+
+describe('text helpers', () => {
+  it('accept empty values', () => {
+    expect(lower(null)).toBe('')
+    expect(upper('abc')).toBe('ABC')
+    expect(trim('  a ')).toBe('a')
+    expect(slugify('Hello World!')).toBe('hello-world')
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Cron expression tests
+ *
+ * Covers parsing (ranges, steps, names, shorthands), matching in UTC and
+ * finding the next run used by the scheduled jobs runner.
+ */
+import { describe, it, expect } from 'vitest'
+import { isValidCron, matchesCron, nextCronRun, parseCron } from '../../shared/utils/cron'
+
+const at = (iso: string) => new Date(`${iso}Z`)
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 8-18/5 1,15 jan-mar mon-fri')
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45])
+    expect([...schedule.hours]).toEqual([8, 13, 18])
+    expect([...schedule.days]).toEqual([1, 15])
+    expect([...schedule.months]).toEqual([1, 2, 3])
+    expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('treats 7 as Sunday and accepts shorthands', () => {
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0])
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'))
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('must have 5 fields')
+    expect(() => parseCron('60 * * * *')).toThrow('minute 60 is out of range')
+    expect(() => parseCron('* * * * funday')).toThrow('Invalid day of week')
+    expect(() => parseCron('*/0 * * * *')).toThrow()
+    expect(() => parseCron('10-5 * * * *')).toThrow('range')
+    expect(isValidCron('0 3 * * *')).toBe(true)
+    expect(isValidCron('nope')).toBe(false)
+  })
+})
+
+describe('matchesCron', () => {
+  it('matches the UTC minute', () => {
+    expect(matchesCron('30 3 * * *', at('2026-03-10T03:30:59'))).toBe(true)
+    expect(matchesCron('30 3 * * *', at('2026-03-10T03:31:00'))).toBe(false)
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // 2026-03-02 is a Monday, 2026-03-15 a Sunday
+    expect(matchesCron('0 0 15 * mon', at('2026-03-02T00:00'))).toBe(true)
+    expect(matchesCron('0 0 15 * mon', at('2026-03-15T00:00'))).toBe(true)
+    expect(matchesCron('0 0 15 * mon', at('2026-03-03T00:00'))).toBe(false)
+    expect(matchesCron('0 0 * * mon', at('2026-03-15T00:00'))).toBe(false)
+  })
+})
+
+describe('nextCronRun', () => {
+  it('returns the next matching minute after the given time', () => {
+    expect(nextCronRun('* * * * *', at('2026-01-01T12:00:30'))).toEqual(at('2026-01-01T12:01'))
+    expect(nextCronRun('0 3 * * *', at('2026-01-01T03:00'))).toEqual(at('2026-01-02T03:00'))
+    expect(nextCronRun('*/15 * * * *', at('2026-01-01T23:50'))).toEqual(at('2026-01-02T00:00'))
+  })
+
+  it('crosses months and years', () => {
+    expect(nextCronRun('0 0 31 * *', at('2026-04-01T00:00'))).toEqual(at('2026-05-31T00:00'))
+    expect(nextCronRun('@yearly', at('2026-06-01T00:00'))).toEqual(at('2027-01-01T00:00'))
+    expect(nextCronRun('0 9 29 2 *', at('2026-03-01T00:00'))).toEqual(at('2028-02-29T09:00'))
+  })
+
+  it('gives up on schedules that never fire', () => {
+    expect(nextCronRun('0 0 30 2 *', at('2026-01-01T00:00'))).toBeNull()
+  })
+})
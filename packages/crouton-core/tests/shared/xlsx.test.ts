@@ -0,0 +1,141 @@
+/**
+ * XLSX writer tests
+ *
+ * Reads the produced ZIP back through its central directory and checks the
+ * stored CRCs and sizes, then looks at the worksheet XML for typed cells.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  buildXlsx,
+  columnName,
+  crc32,
+  escapeXml,
+  toExcelDate,
+  toSheetName,
+  xlsxCell
+} from '../../shared/utils/xlsx'
+
+/** Entries of a STORE-only ZIP, located through the central directory */
+function readZip(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054B50)
+
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+  const files = new Map<string, string>()
+  const decoder = new TextDecoder()
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014B50)
+    const crc = view.getUint32(position + 16, true)
+    const size = view.getUint32(position + 24, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const offset = view.getUint32(position + 42, true)
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength))
+
+    expect(view.getUint32(offset, true)).toBe(0x04034B50)
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true)
+    const data = bytes.subarray(dataStart, dataStart + size)
+    expect(crc32(data)).toBe(crc)
+    // Data descriptor repeats crc and sizes
+    expect(view.getUint32(dataStart + size, true)).toBe(0x08074B50)
+    expect(view.getUint32(dataStart + size + 4, true)).toBe(crc)
+
+    files.set(name, decoder.decode(data))
+    position += 46 + nameLength
+  }
+  return files
+}
+
+describe('crc32', () => {
+  it('matches the reference value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926)
+  })
+
+  it('can be computed incrementally', () => {
+    const encoder = new TextEncoder()
+    expect(crc32(encoder.encode('6789'), crc32(encoder.encode('12345')))).toBe(0xCBF43926)
+  })
+})
+
+describe('helpers', () => {
+  it('names columns like Excel', () => {
+    expect([0, 25, 26, 27, 701, 702].map(columnName)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA'])
+  })
+
+  it('converts dates to Excel serials', () => {
+    expect(toExcelDate(new Date('1970-01-01T00:00:00Z'))).toBe(25569)
+    expect(toExcelDate(new Date('2024-01-01T12:00:00Z'))).toBe(45292.5)
+  })
+
+  it('escapes XML and drops control characters', () => {
+    expect(escapeXml('a < b & "c"\u0001')).toBe('a &lt; b &amp; &quot;c&quot;')
+  })
+
+  it('cleans sheet names', () => {
+    expect(toSheetName('Orders [2024]/Q1')).toBe('Orders  2024  Q1')
+    expect(toSheetName('x'.repeat(40))).toHaveLength(31)
+    expect(toSheetName('')).toBe('Sheet1')
+  })
+})
+
+describe('xlsxCell', () => {
+  it('writes numbers with the column format', () => {
+    expect(xlsxCell('B2', 12.5, 'decimal')).toBe('<c r="B2" s="3"><v>12.5</v></c>')
+    expect(xlsxCell('B2', '7', 'integer')).toBe('<c r="B2" s="2"><v>7</v></c>')
+  })
+
+  it('writes booleans and dates', () => {
+    expect(xlsxCell('C2', true, 'boolean')).toBe('<c r="C2" t="b"><v>1</v></c>')
+    expect(xlsxCell('D2', '2024-01-01T12:00:00Z', 'date')).toBe('<c r="D2" s="5"><v>45292</v></c>')
+    expect(xlsxCell('D2', new Date('2024-01-01T12:00:00Z'), 'datetime')).toBe('<c r="D2" s="6"><v>45292.5</v></c>')
+  })
+
+  it('falls back to text for values that do not fit the type', () => {
+    expect(xlsxCell('B2', 'n/a', 'decimal')).toContain('t="inlineStr"')
+    expect(xlsxCell('D2', 'someday', 'date')).toContain('someday')
+  })
+
+  it('skips empty values', () => {
+    expect(xlsxCell('A2', null)).toBe('')
+    expect(xlsxCell('A2', '')).toBe('')
+  })
+
+  it('serializes objects as JSON text', () => {
+    expect(xlsxCell('A2', { a: 1 })).toContain('{&quot;a&quot;:1}')
+  })
+})
+
+describe('buildXlsx', () => {
+  it('produces a valid package with all workbook parts', async () => {
+    const files = readZip(await buildXlsx({
+      sheetName: 'Orders',
+      columns: [{ header: 'Name' }, { header: 'Total', type: 'decimal' }],
+      rows: [['Apple', 1.5], ['Pear', 2]]
+    }))
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml'
+    ])
+    expect(files.get('xl/workbook.xml')).toContain('name="Orders"')
+
+    const sheet = files.get('xl/worksheets/sheet1.xml')!
+    expect(sheet).toContain('<row r="1"><c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Name</t></is></c>')
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">Pear</t></is></c><c r="B3" s="3"><v>2</v></c></row>')
+    expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true)
+  })
+
+  it('pulls rows from an async iterable', async () => {
+    async function* rows() {
+      for (let i = 0; i < 3; i++) yield [i]
+    }
+    const files = readZip(await buildXlsx({ columns: [{ header: 'N', type: 'integer' }], rows: rows() }))
+    expect(files.get('xl/worksheets/sheet1.xml')).toContain('<row r="4"><c r="A4" s="2"><v>2</v></c></row>')
+  })
+})
@@ -0,0 +1,42 @@
+export type CroutonWebhookOperation = 'create' | 'update' | 'delete'
+
+export type CroutonWebhookDeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+export interface CroutonWebhook {
+  id: string
+  teamId: string
+  url: string
+  description: string | null
+  /** Collection keys, or ['*'] for every collection */
+  collections: string[]
+  operations: CroutonWebhookOperation[]
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  createdBy: string
+  updatedBy: string
+}
+
+export type NewCroutonWebhook = Omit<CroutonWebhook, 'id' | 'createdAt' | 'updatedAt'> & {
+  /** Encrypted signing secret */
+  secret: string
+}
+
+export interface CroutonWebhookDelivery {
+  id: string
+  teamId: string
+  webhookId: string
+  event: string
+  collection: string
+  itemId: string
+  payload: Record<string, unknown>
+  status: CroutonWebhookDeliveryStatus
+  attempts: number
+  nextAttemptAt: Date | null
+  lastAttemptAt: Date | null
+  responseStatus: number | null
+  responseBody: string | null
+  error: string | null
+  durationMs: number | null
+  createdAt: Date
+}
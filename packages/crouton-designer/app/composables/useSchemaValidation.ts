@@ -97,7 +97,7 @@ export function useSchemaValidation(
         }
 
         // Missing reference target
-        if (field.type === 'reference' && !field.refTarget) {
+        if ((field.type === 'reference' || field.type === 'references') && !field.refTarget) {
           result.push({
             type: 'error',
             collectionId: col.id,
@@ -108,7 +108,7 @@ export function useSchemaValidation(
         }
 
         // Reference target doesn't exist
-        if (field.type === 'reference' && field.refTarget) {
+        if ((field.type === 'reference' || field.type === 'references') && field.refTarget) {
           const targetExists = collections.value.some(
             c => c.name === field.refTarget || c.id === field.refTarget
           ) || (additionalCollectionNames?.value ?? []).includes(field.refTarget)
@@ -10,6 +10,7 @@ export type FieldType =
   | 'number'
   | 'decimal'
   | 'boolean'
+  | 'enum'
   | 'date'
   | 'datetime'
   | 'uuid'
@@ -18,6 +19,8 @@ export type FieldType =
   | 'repeater'
   | 'array'
   | 'reference'
+  | 'references'
+  | 'manyToMany'
   | 'image'
   | 'file'
 
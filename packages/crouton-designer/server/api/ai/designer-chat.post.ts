@@ -22,9 +22,9 @@ function getFieldTypeEnum() {
   // Fallback if manifests not loaded
   if (allTypes.length === 0) {
     return z.enum([
-      'string', 'text', 'number', 'decimal', 'boolean',
+      'string', 'text', 'number', 'decimal', 'boolean', 'enum',
       'date', 'json', 'repeater', 'array', 'reference',
-      'image', 'file',
+      'references', 'image', 'file',
     ])
   }
 
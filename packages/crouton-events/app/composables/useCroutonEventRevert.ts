@@ -0,0 +1,135 @@
+import type { CroutonEvent } from '../types/events'
+import type { EventRevertPlan } from '../utils/event-revert'
+import { planEventRevert, planItemRestore, replayItemAsOf } from '../utils/event-revert'
+
+/** Events read per request when rebuilding an earlier state */
+const EVENT_PAGE_SIZE = 500
+
+/**
+ * Undo from the activity log
+ *
+ * Builds a preview of reverting one event, or of restoring an item as it was
+ * at a point in time, and writes it through the collection's own endpoints
+ * (PATCH, POST, or the trash restore). The write goes through permission
+ * checks and validation like any edit, and lands in the activity log itself.
+ *
+ * @example
+ * const { previewRevert, apply } = useCroutonEventRevert('shopProducts')
+ * const plan = await previewRevert(event)
+ * if (!plan.conflicts.length) await apply(plan)
+ */
+export function useCroutonEventRevert(collection: string) {
+  const collections = useCollections()
+  const config = collections.getConfig(collection)
+  const mutation = useCollectionMutation(collection)
+  // Get team context at setup time to avoid calling composables in async callbacks
+  const { getTeamId } = useTeamContext()
+
+  const applying = ref(false)
+
+  const requireTeamId = () => {
+    const teamId = getTeamId()
+    if (!teamId) {
+      throw new Error('[useCroutonEventRevert] Team context required')
+    }
+    return teamId
+  }
+
+  const collectionUrl = () => `/api/teams/${requireTeamId()}/${config?.apiPath || collection}`
+
+  /**
+   * The item as it is now, null when it no longer exists
+   */
+  const fetchCurrent = async (itemId: string): Promise<Record<string, unknown> | null> => {
+    const rows = await $fetch<Record<string, unknown>[]>(collectionUrl(), {
+      query: { ids: itemId },
+      credentials: 'include'
+    })
+    return rows[0] ?? null
+  }
+
+  /**
+   * Every event of an item since `date`, newest first. Reads page after page
+   * until the history is exhausted: replaying a partial history would restore
+   * the wrong state.
+   */
+  const fetchItemEventsSince = async (itemId: string, date: Date): Promise<CroutonEvent[]> => {
+    const events: CroutonEvent[] = []
+    for (let page = 1; ; page++) {
+      const rows = await $fetch<CroutonEvent[]>(`/api/teams/${requireTeamId()}/crouton-events`, {
+        query: { collectionName: collection, itemId, dateFrom: date.toISOString(), page, pageSize: EVENT_PAGE_SIZE },
+        credentials: 'include'
+      })
+      events.push(...rows)
+      if (rows.length < EVENT_PAGE_SIZE) return events
+    }
+  }
+
+  /**
+   * Preview undoing a single event
+   */
+  const previewRevert = async (event: CroutonEvent): Promise<EventRevertPlan> =>
+    planEventRevert(event, await fetchCurrent(event.itemId))
+
+  /**
+   * Preview restoring an item as it was at `asOf`
+   */
+  const previewRestore = async (itemId: string, asOf: Date | string): Promise<EventRevertPlan> => {
+    const date = new Date(asOf)
+    const [current, events] = await Promise.all([
+      fetchCurrent(itemId),
+      fetchItemEventsSince(itemId, date)
+    ])
+    return planItemRestore(itemId, current, replayItemAsOf(current, events, date))
+  }
+
+  /**
+   * Take a soft-deleted item out of the trash; false when it can't be (purged,
+   * or not allowed — the create that follows reports that)
+   */
+  const restoreFromTrash = async (itemId: string): Promise<boolean> => {
+    if (!config?.softDelete) return false
+    try {
+      await $fetch(`${collectionUrl()}/${itemId}/restore`, { method: 'PATCH', credentials: 'include' })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Write a plan. Plans with conflicts are only written with `overwrite`.
+   * Resolves to the written item (a recreated item may have a new id).
+   */
+  const apply = async (plan: EventRevertPlan, options: { overwrite?: boolean } = {}) => {
+    if (plan.kind === 'none') {
+      throw new Error(plan.reason || 'Nothing to restore')
+    }
+    if (plan.conflicts.length && !options.overwrite) {
+      throw new Error(`Fields changed since: ${plan.conflicts.join(', ')}`)
+    }
+
+    applying.value = true
+    try {
+      if (plan.kind === 'update') {
+        // Rejected with a conflict if someone saves after the preview was built
+        return await mutation.update(plan.itemId, plan.values, { expectedUpdatedAt: plan.current?.updatedAt as string | undefined })
+      }
+
+      // Deleted items: back from the trash if possible, otherwise created again
+      if (await restoreFromTrash(plan.itemId)) {
+        return await mutation.update(plan.itemId, plan.values)
+      }
+      return await mutation.create(plan.values)
+    } finally {
+      applying.value = false
+    }
+  }
+
+  return {
+    previewRevert,
+    previewRestore,
+    apply,
+    applying: readonly(applying)
+  }
+}
@@ -1,178 +1,58 @@
 /**
  * Event tracker composable for Crouton collections
- * Provides smart diff tracking and event persistence
+ *
+ * The audit entries themselves are written on the server, by the collection
+ * endpoints, for every mutation. The client only adds UI context the server
+ * can't see (user agent, current page) to the entries of its own mutations,
+ * matched by the correlation ID the mutation was sent with.
  */
-import type { EventChange } from '../types/events'
 
 interface TrackEventOptions {
-  operation: 'create' | 'update' | 'delete'
+  /** The X-Correlation-ID the mutation request carried */
+  correlationId?: string
+  operation: string
   collection: string
-  itemId?: string
-  itemIds?: string[]
-  data?: any
-  updates?: any
-  result?: any
-  beforeData?: any
 }
 
 export function useCroutonEventTracker() {
   const { user } = useUserSession()
   const config = useRuntimeConfig()
+  const route = useRoute()
   // Get team context at setup time to avoid calling composables in async callbacks
   const { getTeamId } = useTeamContext()
 
   /**
-   * Build smart diff - only include changed fields
-   */
-  const buildChangesDiff = (before: any, after: any): EventChange[] => {
-    const changes: EventChange[] = []
-
-    // For CREATE operations (no before data)
-    if (!before && after) {
-      Object.keys(after).forEach((key) => {
-        // Skip internal/metadata fields
-        if (['id', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy', 'teamId', 'owner'].includes(key)) {
-          return
-        }
-
-        changes.push({
-          fieldName: key,
-          oldValue: null,
-          newValue: JSON.stringify(after[key])
-        })
-      })
-      return changes
-    }
-
-    // For UPDATE operations (compare before and after)
-    if (before && after) {
-      Object.keys(after).forEach((key) => {
-        // Skip internal/metadata fields
-        if (['id', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy', 'teamId', 'owner'].includes(key)) {
-          return
-        }
-
-        const oldValue = before[key]
-        const newValue = after[key]
-
-        // Only track if value actually changed
-        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
-          changes.push({
-            fieldName: key,
-            oldValue: JSON.stringify(oldValue),
-            newValue: JSON.stringify(newValue)
-          })
-        }
-      })
-      return changes
-    }
-
-    // For DELETE operations (only before data)
-    if (before && !after) {
-      Object.keys(before).forEach((key) => {
-        // Skip internal/metadata fields
-        if (['id', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy', 'teamId', 'owner'].includes(key)) {
-          return
-        }
-
-        changes.push({
-          fieldName: key,
-          oldValue: JSON.stringify(before[key]),
-          newValue: null
-        })
-      })
-      return changes
-    }
-
-    return changes
-  }
-
-  /**
-   * Track an event asynchronously (non-blocking)
+   * Annotate the server-side entries of a mutation
    */
   const track = async (options: TrackEventOptions): Promise<void> => {
-    const { operation, collection, itemId, itemIds, data, updates, result, beforeData } = options
-
-    // Skip if tracking is disabled
-    if (!config.public.croutonEvents?.enabled) {
+    // Skip if tracking is disabled, or the mutation can't be matched
+    if (!config.public.croutonEvents?.enabled || !options.correlationId) {
       return
     }
 
-    // Get user info
     if (!user.value) {
-      console.warn('[CroutonEvents] Cannot track event: No user session')
+      console.warn('[CroutonEvents] Cannot annotate event: No user session')
       return
     }
 
-    const userId = user.value.id
-    const userName = config.public.croutonEvents.snapshotUserName
-      ? (user.value.name || user.value.email || 'Unknown User')
-      : ''
-
-    // Build changes based on operation
-    let changes: EventChange[] = []
-
-    switch (operation) {
-      case 'create':
-        // For create: all fields are new
-        changes = buildChangesDiff(null, data || result)
-        break
-
-      case 'update':
-        // For update: compare before and after
-        // We need beforeData to calculate the diff
-        if (beforeData && result) {
-          changes = buildChangesDiff(beforeData, result)
-        } else if (updates) {
-          // Fallback: Just track the updates as changes
-          changes = Object.keys(updates).map(key => ({
-            fieldName: key,
-            oldValue: null, // We don't have the old value
-            newValue: JSON.stringify(updates[key])
-          }))
-        }
-        break
-
-      case 'delete':
-        // For delete: all fields are removed
-        changes = buildChangesDiff(beforeData || {}, null)
-        break
-    }
-
-    // Prepare event data
-    const eventData = {
-      timestamp: new Date(),
-      operation,
-      collectionName: collection,
-      itemId: itemId || (itemIds && itemIds[0]) || '',
-      userId,
-      userName,
-      changes,
-      metadata: {
-        // Optional: Add more context here
-        userAgent: import.meta.client ? navigator.userAgent : undefined
-      }
+    const teamId = getTeamId()
+    if (!teamId) {
+      console.warn('[CroutonEvents] Cannot annotate event: No team context')
+      return
     }
 
-    // Track the event via API (fire and forget)
-    try {
-      const teamId = getTeamId()
-
-      if (!teamId) {
-        console.warn('[CroutonEvents] Cannot track event: No team context')
-        return
-      }
-
-      // Use the generated API endpoint for collection events
-      await $fetch(`/api/teams/${teamId}/crouton-collection-events`, {
-        method: 'POST',
-        body: eventData,
-        credentials: 'include'
-      })
-    } catch (error) {
-      // Error will be handled by the caller (plugin with Option 1 error handling)
-      throw error
-    }
+    // Errors are handled by the caller (plugin with Option 1 error handling)
+    await $fetch(`/api/teams/${teamId}/crouton-collection-events`, {
+      method: 'POST',
+      body: {
+        correlationId: options.correlationId,
+        metadata: {
+          userAgent: import.meta.client ? navigator.userAgent : undefined,
+          page: route.fullPath
+        }
+      },
+      credentials: 'include'
+    })
   }
 
   /**
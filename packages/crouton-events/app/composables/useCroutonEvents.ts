@@ -8,6 +8,7 @@ interface UseCroutonEventsOptions {
   enrichUserData?: boolean // If true, JOINs with users table
   filters?: {
     collectionName?: string
+    itemId?: string
     operation?: 'create' | 'update' | 'delete'
     userId?: string
     dateFrom?: Date
@@ -56,6 +57,9 @@ export function useCroutonEvents(options: UseCroutonEventsOptions = {}) {
     if (options.filters.collectionName) {
       queryParams.collectionName = options.filters.collectionName
     }
+    if (options.filters.itemId) {
+      queryParams.itemId = options.filters.itemId
+    }
     if (options.filters.operation) {
       queryParams.operation = options.filters.operation
     }
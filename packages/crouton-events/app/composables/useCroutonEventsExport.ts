@@ -1,9 +1,11 @@
 /**
  * Export composable for Crouton Events
- * Provides CSV and JSON export functionality for audit logs
+ * Provides CSV, JSON and signed bundle export functionality for audit logs
  */
 import type { FilterState } from '../types/events'
 
+type ExportFormat = 'csv' | 'json' | 'bundle'
+
 interface ExportOptions {
   filters?: FilterState
   filename?: string
@@ -32,15 +34,17 @@ export function useCroutonEventsExport() {
   /**
    * Generate filename with timestamp
    */
-  function generateFilename(format: 'csv' | 'json', prefix = 'audit-log'): string {
+  function generateFilename(format: ExportFormat, prefix = 'audit-log'): string {
     const timestamp = new Date().toISOString().split('T')[0]
-    return `${prefix}-${timestamp}.${format}`
+    return format === 'bundle'
+      ? `audit-bundle-${timestamp}.json`
+      : `${prefix}-${timestamp}.${format}`
   }
 
   /**
    * Build query params from filters
    */
-  function buildExportQuery(format: 'csv' | 'json', filters?: FilterState): Record<string, string> {
+  function buildExportQuery(format: ExportFormat, filters?: FilterState): Record<string, string> {
     const query: Record<string, string> = { format }
 
     if (filters?.collectionName) {
@@ -65,7 +69,7 @@ export function useCroutonEventsExport() {
   /**
    * Export events in the given format
    */
-  async function exportEvents(format: 'csv' | 'json', options: ExportOptions = {}) {
+  async function exportEvents(format: ExportFormat, options: ExportOptions = {}) {
     const teamId = getTeamId()
     if (!teamId) {
       throw new Error('Team context required for export')
@@ -81,11 +85,11 @@ export function useCroutonEventsExport() {
         credentials: 'include'
       })
 
-      const content = format === 'json'
-        ? JSON.stringify(response, null, 2)
-        : response as string
+      const content = format === 'csv'
+        ? response as string
+        : JSON.stringify(response, null, 2)
 
-      const mimeType = format === 'json' ? 'application/json' : 'text/csv'
+      const mimeType = format === 'csv' ? 'text/csv' : 'application/json'
       const filename = options.filename || generateFilename(format)
       downloadFile(content, filename, mimeType)
 
@@ -102,11 +106,14 @@ export function useCroutonEventsExport() {
   // Keep named helpers for backwards compatibility
   const exportToCSV = (options: ExportOptions = {}) => exportEvents('csv', options)
   const exportToJSON = (options: ExportOptions = {}) => exportEvents('json', options)
+  /** Signed, hash-chained bundle (date filters only; see export.get.ts) */
+  const exportSignedBundle = (options: ExportOptions = {}) => exportEvents('bundle', options)
 
   return {
     exportEvents,
     exportToCSV,
     exportToJSON,
+    exportSignedBundle,
     exporting: readonly(exporting),
     error: readonly(error)
   }
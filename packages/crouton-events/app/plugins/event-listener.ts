@@ -1,6 +1,7 @@
 /**
  * Event listener plugin
- * Subscribes to crouton:mutation hooks and tracks events
+ * Subscribes to crouton:mutation hooks and adds UI context to the audit
+ * entries the server already wrote for the mutation
  * Uses Option 1 error handling: visible toasts in dev, silent console in prod
  */
 
@@ -31,14 +32,9 @@ export default defineNuxtPlugin((nuxtApp) => {
     // Track the event
     try {
       await track({
+        correlationId: event.correlationId,
         operation: event.operation,
-        collection: event.collection,
-        itemId: event.itemId,
-        itemIds: event.itemIds,
-        data: event.data,
-        updates: event.updates,
-        result: event.result,
-        beforeData: event.beforeData
+        collection: event.collection
       })
     } catch (err: any) {
       // Update health stats
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import type { CroutonEvent, EventChange } from '../../types/events'
+import { planEventRevert, planItemRestore, replayItemAsOf } from '../event-revert'
+
+const change = (fieldName: string, oldValue: unknown, newValue: unknown): EventChange => ({
+  fieldName,
+  oldValue: oldValue === undefined ? null : JSON.stringify(oldValue),
+  newValue: newValue === undefined ? null : JSON.stringify(newValue)
+})
+
+const event = (operation: CroutonEvent['operation'], timestamp: string, changes: EventChange[]): CroutonEvent => ({
+  id: `e-${timestamp}`,
+  timestamp,
+  operation,
+  collectionName: 'products',
+  itemId: 'p1',
+  userId: 'u1',
+  userName: 'Ada',
+  changes
+})
+
+describe('planEventRevert', () => {
+  it('writes the previous values back for an update', () => {
+    const current = { id: 'p1', name: 'Armchair', price: 12 }
+    const plan = planEventRevert(event('update', '2025-01-02T00:00:00Z', [change('name', 'Chair', 'Armchair')]), current)
+
+    expect(plan.kind).toBe('update')
+    expect(plan.values).toEqual({ name: 'Chair' })
+    expect(plan.preview).toEqual({ id: 'p1', name: 'Chair', price: 12 })
+    expect(plan.conflicts).toEqual([])
+  })
+
+  it('flags fields edited again since the event', () => {
+    const current = { id: 'p1', name: 'Sofa', price: 12 }
+    const plan = planEventRevert(event('update', '2025-01-02T00:00:00Z', [
+      change('name', 'Chair', 'Armchair'),
+      change('price', 10, 12)
+    ]), current)
+
+    expect(plan.values).toEqual({ name: 'Chair', price: 10 })
+    expect(plan.conflicts).toEqual(['name'])
+  })
+
+  it('never writes server-managed columns', () => {
+    const plan = planEventRevert(event('update', '2025-01-02T00:00:00Z', [
+      change('name', 'Chair', 'Armchair'),
+      change('updatedAt', '2025-01-01T00:00:00Z', '2025-01-02T00:00:00Z')
+    ]), { id: 'p1', name: 'Armchair' })
+
+    expect(plan.values).toEqual({ name: 'Chair' })
+  })
+
+  it('can\'t undo an update to an item deleted since', () => {
+    const plan = planEventRevert(event('update', '2025-01-02T00:00:00Z', [change('name', 'Chair', 'Armchair')]), null)
+    expect(plan.kind).toBe('none')
+  })
+
+  it('recreates a deleted item from its last values', () => {
+    const plan = planEventRevert(event('delete', '2025-01-02T00:00:00Z', [
+      change('id', 'p1', undefined),
+      change('name', 'Chair', undefined),
+      change('price', 10, undefined)
+    ]), null)
+
+    expect(plan.kind).toBe('recreate')
+    expect(plan.values).toEqual({ name: 'Chair', price: 10 })
+    expect(plan.preview).toEqual({ name: 'Chair', price: 10 })
+  })
+
+  it('has nothing to do for a delete that was already restored', () => {
+    const plan = planEventRevert(event('delete', '2025-01-02T00:00:00Z', [change('name', 'Chair', undefined)]), { id: 'p1', name: 'Chair' })
+    expect(plan.kind).toBe('none')
+  })
+
+  it('leaves creates to be undone by deleting', () => {
+    const plan = planEventRevert(event('create', '2025-01-01T00:00:00Z', [change('name', undefined, 'Chair')]), { id: 'p1', name: 'Chair' })
+    expect(plan.kind).toBe('none')
+  })
+})
+
+describe('replayItemAsOf', () => {
+  const history = [
+    event('create', '2025-01-01T00:00:00Z', [change('name', undefined, 'Chair'), change('price', undefined, 10)]),
+    event('update', '2025-01-02T00:00:00Z', [change('name', 'Chair', 'Armchair')]),
+    event('update', '2025-01-03T00:00:00Z', [change('name', 'Armchair', 'Sofa'), change('price', 10, 12)])
+  ]
+
+  it('undoes every later event, newest first', () => {
+    const current = { id: 'p1', name: 'Sofa', price: 12 }
+    expect(replayItemAsOf(current, history, new Date('2025-01-02T12:00:00Z'))).toEqual({ id: 'p1', name: 'Armchair', price: 10 })
+    expect(replayItemAsOf(current, history, new Date('2025-01-01T12:00:00Z'))).toEqual({ id: 'p1', name: 'Chair', price: 10 })
+  })
+
+  it('doesn\'t depend on the order events arrive in', () => {
+    const current = { id: 'p1', name: 'Sofa', price: 12 }
+    const asOf = new Date('2025-01-01T12:00:00Z')
+    expect(replayItemAsOf(current, [...history].reverse(), asOf)).toEqual(replayItemAsOf(current, history, asOf))
+  })
+
+  it('keeps events at or before the point', () => {
+    const current = { id: 'p1', name: 'Sofa', price: 12 }
+    expect(replayItemAsOf(current, history, new Date('2025-01-03T00:00:00Z'))).toEqual(current)
+  })
+
+  it('returns null before the item was created', () => {
+    expect(replayItemAsOf({ id: 'p1', name: 'Sofa', price: 12 }, history, new Date('2024-12-31T00:00:00Z'))).toBeNull()
+  })
+
+  it('brings a deleted item back from the delete event', () => {
+    const events = [
+      ...history,
+      event('delete', '2025-01-04T00:00:00Z', [change('name', 'Sofa', undefined), change('price', 12, undefined)])
+    ]
+    expect(replayItemAsOf(null, events, new Date('2025-01-03T12:00:00Z'))).toEqual({ name: 'Sofa', price: 12 })
+    expect(replayItemAsOf(null, events, new Date('2025-01-02T12:00:00Z'))).toEqual({ name: 'Armchair', price: 10 })
+  })
+})
+
+describe('planItemRestore', () => {
+  it('updates only the fields that differ', () => {
+    const plan = planItemRestore('p1', { id: 'p1', name: 'Sofa', price: 10, updatedAt: 'now' }, { id: 'p1', name: 'Chair', price: 10, updatedAt: 'then' })
+
+    expect(plan.kind).toBe('update')
+    expect(plan.values).toEqual({ name: 'Chair' })
+    expect(plan.preview).toEqual({ id: 'p1', name: 'Chair', price: 10, updatedAt: 'now' })
+  })
+
+  it('compares values as stored, not by reference', () => {
+    const plan = planItemRestore('p1', { id: 'p1', tags: ['a', 'b'] }, { id: 'p1', tags: ['a', 'b'] })
+    expect(plan.kind).toBe('none')
+  })
+
+  it('recreates an item that no longer exists', () => {
+    const plan = planItemRestore('p1', null, { id: 'p1', name: 'Chair', teamId: 't1' })
+
+    expect(plan.kind).toBe('recreate')
+    expect(plan.values).toEqual({ name: 'Chair' })
+  })
+
+  it('has nothing to do when the item did not exist yet', () => {
+    expect(planItemRestore('p1', { id: 'p1', name: 'Chair' }, null).kind).toBe('none')
+  })
+})
@@ -0,0 +1,137 @@
+import type { CroutonEvent, EventChange } from '../types/events'
+import { parseEventValue } from './event-display'
+
+/** Server-managed columns that are never written back */
+const REVERT_IGNORED_FIELDS = new Set([
+  'id', 'teamId', 'owner', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy',
+  'deletedAt', 'deletedBy', 'optimisticId', 'optimisticAction'
+])
+
+type ItemRecord = Record<string, unknown>
+
+export interface EventRevertPlan {
+  /**
+   * How the plan is written: `update` PATCHes the item, `recreate` POSTs it
+   * back (or takes it out of the trash), `none` means there is nothing to do
+   */
+  kind: 'update' | 'recreate' | 'none'
+  itemId: string
+  /** Field values to write */
+  values: ItemRecord
+  /** The item as it is now, null when it no longer exists */
+  current: ItemRecord | null
+  /** The item as it will look afterwards, null when it won't exist */
+  preview: ItemRecord | null
+  /** Fields edited again since the event; writing the plan overwrites those edits */
+  conflicts: string[]
+  /** Why there is nothing to do (kind `none`) */
+  reason?: string
+}
+
+/** Compare values the way the event log stored them */
+const stored = (value: unknown): string | null =>
+  value === undefined || value === null ? null : JSON.stringify(value)
+
+const storedChange = (value: string | null): string | null =>
+  value === 'null' ? null : value
+
+/** Values of one side of an event's changes */
+function changeValues(changes: EventChange[], side: 'oldValue' | 'newValue'): ItemRecord {
+  const values: ItemRecord = {}
+  for (const change of changes) {
+    if (REVERT_IGNORED_FIELDS.has(change.fieldName)) continue
+    values[change.fieldName] = parseEventValue(change[side])
+  }
+  return values
+}
+
+function writableFields(record: ItemRecord): ItemRecord {
+  return Object.fromEntries(Object.entries(record).filter(([field]) => !REVERT_IGNORED_FIELDS.has(field)))
+}
+
+const nothingToDo = (itemId: string, current: ItemRecord | null, reason: string): EventRevertPlan =>
+  ({ kind: 'none', itemId, values: {}, current, preview: current, conflicts: [], reason })
+
+/**
+ * Plan undoing a single event
+ *
+ * Updates are undone by writing the previous values back; a field counts as a
+ * conflict when its current value no longer matches what the event wrote.
+ * Deletes are undone by recreating the item from its last known values.
+ */
+export function planEventRevert(event: CroutonEvent, current: ItemRecord | null): EventRevertPlan {
+  const changes = event.changes ?? []
+
+  if (event.operation === 'create') {
+    return nothingToDo(event.itemId, current, 'Created items are removed by deleting them')
+  }
+
+  if (event.operation === 'delete') {
+    if (current) {
+      return nothingToDo(event.itemId, current, 'The item has been restored since')
+    }
+    const values = changeValues(changes, 'oldValue')
+    return { kind: 'recreate', itemId: event.itemId, values, current, preview: values, conflicts: [] }
+  }
+
+  if (!current) {
+    return nothingToDo(event.itemId, current, 'The item has been deleted since; restore it first')
+  }
+
+  const values = changeValues(changes, 'oldValue')
+  const conflicts = changes
+    .filter(change => change.fieldName in values)
+    .filter(change => stored(current[change.fieldName]) !== storedChange(change.newValue))
+    .map(change => change.fieldName)
+
+  return { kind: 'update', itemId: event.itemId, values, current, preview: { ...current, ...values }, conflicts }
+}
+
+/**
+ * Rebuild an item as it was at `asOf` by undoing, newest first, every event
+ * recorded after it
+ *
+ * Event timestamps are stored to the second. Returns null when the item
+ * didn't exist at that point.
+ */
+export function replayItemAsOf(current: ItemRecord | null, events: CroutonEvent[], asOf: Date): ItemRecord | null {
+  const later = events
+    .filter(event => new Date(event.timestamp).getTime() > asOf.getTime())
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+
+  let state = current ? { ...current } : null
+  for (const event of later) {
+    if (event.operation === 'create') {
+      state = null
+    } else if (event.operation === 'delete') {
+      state = changeValues(event.changes ?? [], 'oldValue')
+    } else if (state) {
+      Object.assign(state, changeValues(event.changes ?? [], 'oldValue'))
+    }
+  }
+
+  return state
+}
+
+/**
+ * Plan bringing an item back to an earlier state (see `replayItemAsOf`)
+ */
+export function planItemRestore(itemId: string, current: ItemRecord | null, state: ItemRecord | null): EventRevertPlan {
+  if (!state) {
+    return nothingToDo(itemId, current, 'The item did not exist at that point')
+  }
+
+  if (!current) {
+    const values = writableFields(state)
+    return { kind: 'recreate', itemId, values, current, preview: values, conflicts: [] }
+  }
+
+  const values = Object.fromEntries(
+    Object.entries(writableFields(state)).filter(([field, value]) => stored(current[field]) !== stored(value))
+  )
+  if (!Object.keys(values).length) {
+    return nothingToDo(itemId, current, 'The item already matches that point')
+  }
+
+  return { kind: 'update', itemId, values, current, preview: { ...current, ...values }, conflicts: [] }
+}
@@ -18,6 +18,12 @@ export default defineNuxtConfig({
 
   // Runtime config for event tracking
   runtimeConfig: {
+    // Server-only config
+    croutonEvents: {
+      hashChain: false, // NUXT_CROUTON_EVENTS_HASH_CHAIN — tamper-evident chain per team
+      signingSecret: '' // NUXT_CROUTON_EVENTS_SIGNING_SECRET — signs export bundles
+    },
+
     public: {
       croutonEvents: {
         enabled: true,
@@ -1,20 +1,37 @@
+import { and, eq } from 'drizzle-orm'
 import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
 import { croutonEvents } from '../../../../database/schema'
 
+/**
+ * Attach UI context (user agent, page) to the audit entries of a mutation.
+ *
+ * The entries themselves are written by the server when the mutation runs
+ * (see the mutation-listener plugin); the client can only annotate its own
+ * entries, found by the X-Correlation-ID it sent with the mutation.
+ */
 export default defineEventHandler(async (event) => {
   const { team, user } = await resolveTeamAndCheckMembership(event)
   const db = useDB()
-  const body = await readBody(event)
+  const body = await readBody<{ correlationId?: unknown, metadata?: unknown }>(event)
 
-  const { id: _id, teamId: _teamId, userId: _userId, ...rest } = body
+  if (typeof body?.correlationId !== 'string' || !body.correlationId) {
+    throw createError({ status: 400, statusText: 'correlationId is required' })
+  }
+  const clientMetadata = body.metadata && typeof body.metadata === 'object' ? body.metadata as Record<string, unknown> : {}
 
-  await db.insert(croutonEvents).values({
-    ...rest,
-    id: crypto.randomUUID(),
-    teamId: team.id,
-    userId: user.id,
-    timestamp: rest.timestamp ? new Date(rest.timestamp) : new Date()
-  })
+  const entries = await db
+    .select({ id: croutonEvents.id, metadata: croutonEvents.metadata })
+    .from(croutonEvents)
+    .where(and(
+      eq(croutonEvents.teamId, team.id),
+      eq(croutonEvents.userId, user.id),
+      eq(croutonEvents.correlationId, body.correlationId)
+    ))
 
-  return { success: true }
+  await runCollectionBatch(db, q => entries.map(entry => q
+    .update(croutonEvents)
+    .set({ metadata: { ...entry.metadata, client: clientMetadata } })
+    .where(eq(croutonEvents.id, entry.id))))
+
+  return { success: true, annotated: entries.length }
 })
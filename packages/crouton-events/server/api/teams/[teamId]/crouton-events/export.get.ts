@@ -2,18 +2,29 @@
  * Export events endpoint for audit log compliance
  *
  * Supports:
- * - Format: ?format=csv|json (default: json)
+ * - Format: ?format=csv|json|bundle (default: json)
  * - Filters: ?collectionName=X&operation=X&userId=X&dateFrom=X&dateTo=X
+ * - Bundle: ?fromSeq=N continues a bundle at its `next`
  *
  * Response:
  * - CSV: Returns text/csv with headers
  * - JSON: Returns array of events
+ * - Bundle: Signed, hash-chained export (needs the hash chain and a signing
+ *   secret). Only the date filters apply, so the chain stays contiguous.
+ *   Check it offline with `crouton audit verify <file>` (see
+ *   @fyit/crouton-core/shared/utils/audit-chain).
  */
-import { and } from 'drizzle-orm'
+import { and, asc, eq, gte, isNotNull, lte } from 'drizzle-orm'
 import { resolveTeamAndCheckMembership } from '@fyit/crouton-auth/server/utils/team'
 import { croutonEvents } from '../../../../database/schema'
+import type { AuditBundle } from '@fyit/crouton-core/shared/utils/audit-chain'
+import { signAuditBundle } from '@fyit/crouton-core/shared/utils/audit-chain'
+import { chainLinkBefore, isEventChainEnabled } from '../../../../utils/event-chain'
 import { buildEventConditions, parseEventFilterQuery } from '../../../../utils/event-filters'
 
+/** Events per signed bundle */
+const BUNDLE_SIZE = 5000
+
 export default defineEventHandler(async (event) => {
   // Authenticate and check team membership
   const { team } = await resolveTeamAndCheckMembership(event)
@@ -21,9 +32,47 @@ export default defineEventHandler(async (event) => {
 
   // Parse query parameters
   const query = getQuery(event)
-  const format = (query.format as 'csv' | 'json') || 'json'
+  const format = (query.format as 'csv' | 'json' | 'bundle') || 'json'
   const filters = parseEventFilterQuery(query)
 
+  if (format === 'bundle') {
+    const secret = useRuntimeConfig().croutonEvents?.signingSecret
+    if (!isEventChainEnabled() || !secret) {
+      throw createError({ status: 400, statusText: 'Signed exports need the audit hash chain and a signing secret' })
+    }
+
+    const fromSeq = Math.max(Number.parseInt(String(query.fromSeq ?? 1), 10) || 1, 1)
+    const rows = await db
+      .select()
+      .from(croutonEvents)
+      .where(and(
+        eq(croutonEvents.teamId, team.id),
+        isNotNull(croutonEvents.seq),
+        gte(croutonEvents.seq, fromSeq),
+        ...(filters.dateFrom && !Number.isNaN(filters.dateFrom.getTime()) ? [gte(croutonEvents.timestamp, filters.dateFrom)] : []),
+        ...(filters.dateTo && !Number.isNaN(filters.dateTo.getTime()) ? [lte(croutonEvents.timestamp, filters.dateTo)] : [])
+      ))
+      .orderBy(asc(croutonEvents.seq))
+      .limit(BUNDLE_SIZE + 1)
+
+    const events = rows.slice(0, BUNDLE_SIZE)
+    // Round-tripped through JSON so what is signed is what the file holds
+    const content: AuditBundle = JSON.parse(JSON.stringify({
+      format: 'crouton-audit-bundle',
+      version: 1,
+      teamId: team.id,
+      exportedAt: new Date().toISOString(),
+      // The link the first event continues from (null at the chain start)
+      anchor: events[0] ? await chainLinkBefore(db, team.id, events[0].seq!) : null,
+      events,
+      // fromSeq of the next bundle when this one is full
+      next: rows[BUNDLE_SIZE]?.seq ?? null
+    }))
+
+    setHeader(event, 'Content-Disposition', `attachment; filename="audit-bundle-${new Date().toISOString().split('T')[0]}.json"`)
+    return { ...content, signature: { algorithm: 'HMAC-SHA256', value: await signAuditBundle(content, secret) } }
+  }
+
   // Build where conditions
   const conditions = buildEventConditions({ teamId: team.id, ...filters })
 
@@ -19,7 +19,8 @@ export default defineEventHandler(async (event) => {
     .select()
     .from(croutonEvents)
     .where(and(...conditions))
-    .orderBy(desc(croutonEvents.timestamp))
+    // Timestamps are stored to the second; the id keeps pages stable within one
+    .orderBy(desc(croutonEvents.timestamp), desc(croutonEvents.id))
     .limit(pageSize)
     .offset(offset)
 
@@ -0,0 +1,19 @@
+import { requireTeamAdmin } from '@fyit/crouton-auth/server/utils/team'
+import { isEventChainEnabled, verifyEventChain } from '../../../../utils/event-chain'
+
+/**
+ * Verify the team's audit hash chain
+ *
+ * Walks the chain from the latest prune checkpoint to the newest event and
+ * reports the first broken link (`broken`), or `valid: true` with the head
+ * (`seq` + `hash`) to record for later comparison. Team admins only.
+ */
+export default defineEventHandler(async (event) => {
+  const { team } = await requireTeamAdmin(event)
+
+  if (!isEventChainEnabled()) {
+    throw createError({ status: 400, statusText: 'The audit hash chain is not enabled' })
+  }
+
+  return verifyEventChain(useDB(), team.id)
+})
@@ -1,8 +1,9 @@
 /**
- * Local type augmentation for the crouton:operation Nitro hook.
+ * Local type augmentation for the crouton:operation and
+ * crouton:collection-mutation Nitro hooks.
  *
  * The canonical declaration lives in @fyit/crouton (crouton-hooks.d.ts).
- * This file ensures the hook is recognised during standalone type-checking
+ * This file ensures the hooks are recognised during standalone type-checking
  * of the crouton-events package.
  */
 
@@ -17,6 +18,22 @@ declare module 'nitropack' {
       metadata?: Record<string, any>
       timestamp?: number
     }) => void | Promise<void>
+    'crouton:collection-mutation': (payload: {
+      operation: 'create' | 'update' | 'delete' | 'move' | 'reorder' | 'restore' | 'purge'
+      collection: string
+      teamId: string
+      userId?: string
+      userName?: string
+      items: Array<{
+        id: string
+        before?: Record<string, unknown> | null
+        after?: Record<string, unknown> | null
+      }>
+      source?: string
+      correlationId?: string
+      timestamp?: number
+      waitUntil?: (promise: Promise<unknown>) => void
+    }) => void | Promise<void>
   }
 }
 
@@ -0,0 +1 @@
+ALTER TABLE `crouton_events` ADD COLUMN `correlation_id` text;
@@ -0,0 +1,12 @@
+ALTER TABLE `crouton_events` ADD COLUMN `seq` integer;
+ALTER TABLE `crouton_events` ADD COLUMN `prev_hash` text;
+ALTER TABLE `crouton_events` ADD COLUMN `hash` text;
+CREATE UNIQUE INDEX IF NOT EXISTS `crouton_events_team_seq_idx` ON `crouton_events` (`team_id`, `seq`);
+CREATE TABLE IF NOT EXISTS `crouton_event_checkpoints` (
+  `id` text PRIMARY KEY NOT NULL,
+  `team_id` text NOT NULL,
+  `seq` integer NOT NULL,
+  `hash` text NOT NULL,
+  `pruned_count` integer NOT NULL,
+  `created_at` integer NOT NULL
+);
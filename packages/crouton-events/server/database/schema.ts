@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core'
+import { sqliteTable, text, integer, uniqueIndex } from 'drizzle-orm/sqlite-core'
 
 export const croutonOperations = sqliteTable('crouton_operations', {
   id: text('id').primaryKey(),
@@ -14,7 +14,7 @@ export const croutonOperations = sqliteTable('crouton_operations', {
 })
 
 
-interface EventChange {
+export interface EventChange {
   fieldName: string
   oldValue: string | null
   newValue: string | null
@@ -30,5 +30,29 @@ export const croutonEvents = sqliteTable('crouton_events', {
   userId: text('user_id').notNull(),
   userName: text('user_name').notNull().default(''),
   changes: text('changes', { mode: 'json' }).$type<EventChange[]>().notNull().default('[]'),
-  metadata: text('metadata', { mode: 'json' }).$type<Record<string, any>>()
+  /** X-Correlation-ID of the request that made the change */
+  correlationId: text('correlation_id'),
+  metadata: text('metadata', { mode: 'json' }).$type<Record<string, any>>(),
+  /** Position in the team's hash chain (null when the chain is off) */
+  seq: integer('seq'),
+  /** Hash of the team's previous row ('' for the first) */
+  prevHash: text('prev_hash'),
+  /** SHA-256 of this row's content and `prevHash` (see utils/event-chain.ts) */
+  hash: text('hash')
+}, table => [
+  uniqueIndex('crouton_events_team_seq_idx').on(table.teamId, table.seq)
+])
+
+/**
+ * Where a team's hash chain continues after old events were pruned: the last
+ * pruned row's position and hash, so the remaining rows still verify
+ */
+export const croutonEventCheckpoints = sqliteTable('crouton_event_checkpoints', {
+  id: text('id').primaryKey(),
+  teamId: text('team_id').notNull(),
+  seq: integer('seq').notNull(),
+  hash: text('hash').notNull(),
+  /** Rows removed by this prune */
+  prunedCount: integer('pruned_count').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull()
 })
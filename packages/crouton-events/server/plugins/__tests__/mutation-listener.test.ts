@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { NitroRuntimeHooks } from 'nitropack'
+
+type CroutonCollectionMutationEvent = Parameters<NitroRuntimeHooks['crouton:collection-mutation']>[0]
+
+const { appendChainedEvents, insertEventRows, isEventChainEnabled } = vi.hoisted(() => ({
+  appendChainedEvents: vi.fn(),
+  insertEventRows: vi.fn(),
+  isEventChainEnabled: vi.fn(() => false)
+}))
+
+vi.mock('nitropack/runtime', () => ({
+  defineNitroPlugin: (plugin: unknown) => plugin
+}))
+vi.mock('../../utils/event-chain', () => ({ appendChainedEvents, insertEventRows, isEventChainEnabled }))
+
+const db = { name: 'db' }
+const config = { enabled: true, snapshotUserName: true }
+vi.stubGlobal('useDB', () => db)
+vi.stubGlobal('useRuntimeConfig', () => ({ public: { croutonEvents: config } }))
+
+const { default: mutationListener } = await import('../mutation-listener')
+
+/** The hook handler the plugin registers */
+function registerListener() {
+  const hook = vi.fn()
+  const plugin = mutationListener as unknown as (app: unknown) => void
+  plugin({ hooks: { hook } })
+  expect(hook).toHaveBeenCalledWith('crouton:collection-mutation', expect.any(Function))
+  return hook.mock.calls[0]![1] as (payload: CroutonCollectionMutationEvent) => Promise<void>
+}
+
+const payload = (overrides: Partial<CroutonCollectionMutationEvent> = {}): CroutonCollectionMutationEvent => ({
+  operation: 'update',
+  collection: 'shopProducts',
+  teamId: 'team-1',
+  userId: 'user-1',
+  userName: 'Jane',
+  correlationId: 'crtn_abc',
+  timestamp: Date.parse('2025-01-02T10:00:00.123Z'),
+  items: [{ id: 'p-1', before: { name: 'Chair', price: 10 }, after: { name: 'Chair', price: 12 } }],
+  ...overrides
+})
+
+describe('mutation-listener', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    config.enabled = true
+    config.snapshotUserName = true
+    isEventChainEnabled.mockReturnValue(false)
+  })
+
+  it('stores one event per item with its field changes', async () => {
+    await registerListener()(payload({
+      items: [
+        { id: 'p-1', before: { price: 10 }, after: { price: 12 } },
+        { id: 'p-2', before: { price: 5 }, after: { price: 6 } }
+      ]
+    }))
+
+    expect(insertEventRows).toHaveBeenCalledTimes(1)
+    const [usedDb, rows] = insertEventRows.mock.calls[0]!
+    expect(usedDb).toBe(db)
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({
+      operation: 'update',
+      collectionName: 'shopProducts',
+      itemId: 'p-1',
+      teamId: 'team-1',
+      userId: 'user-1',
+      userName: 'Jane',
+      correlationId: 'crtn_abc',
+      timestamp: new Date('2025-01-02T10:00:00.123Z'),
+      changes: [{ fieldName: 'price', oldValue: '10', newValue: '12' }],
+      metadata: { source: 'api', action: 'update' }
+    })
+    expect(rows[0].id).not.toBe(rows[1].id)
+  })
+
+  it('stores moves, reorders and restores as updates and purges as deletes', async () => {
+    const listener = registerListener()
+    for (const operation of ['move', 'reorder', 'restore', 'purge', 'delete', 'create'] as const) {
+      await listener(payload({ operation }))
+    }
+
+    const stored = insertEventRows.mock.calls.map(([, rows]) => [rows[0].operation, rows[0].metadata.action])
+    expect(stored).toEqual([
+      ['update', 'move'],
+      ['update', 'reorder'],
+      ['update', 'restore'],
+      ['delete', 'purge'],
+      ['delete', 'delete'],
+      ['create', 'create']
+    ])
+  })
+
+  it('records system writes and leaves names out unless configured', async () => {
+    config.snapshotUserName = false
+    await registerListener()(payload({ userId: undefined, userName: 'Jane', source: 'crouton-sales:sync' }))
+
+    expect(insertEventRows.mock.calls[0]![1][0]).toMatchObject({
+      userId: 'system',
+      userName: '',
+      metadata: { source: 'crouton-sales:sync', action: 'update' }
+    })
+  })
+
+  it('appends to the team\'s chain when the hash chain is on', async () => {
+    isEventChainEnabled.mockReturnValue(true)
+    await registerListener()(payload())
+
+    expect(appendChainedEvents).toHaveBeenCalledWith(db, 'team-1', [expect.objectContaining({ itemId: 'p-1' })])
+    expect(insertEventRows).not.toHaveBeenCalled()
+  })
+
+  it('stores nothing when events are disabled', async () => {
+    config.enabled = false
+    await registerListener()(payload())
+
+    expect(insertEventRows).not.toHaveBeenCalled()
+    expect(appendChainedEvents).not.toHaveBeenCalled()
+  })
+
+  it('lets a failed insert reach the emitter', async () => {
+    insertEventRows.mockRejectedValueOnce(new Error('disk full'))
+
+    await expect(registerListener()(payload())).rejects.toThrow('disk full')
+  })
+})
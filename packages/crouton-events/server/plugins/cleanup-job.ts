@@ -0,0 +1,20 @@
+import { defineNitroPlugin } from 'nitropack/runtime'
+import { cleanupOldEvents } from '../utils/cleanup'
+
+/**
+ * Nitro plugin — schedules the retention cleanup as a crouton job.
+ *
+ * Registered only when `croutonEvents.retention.enabled` is on. Runs daily at
+ * 03:00 UTC; apps can move or turn off the schedule with
+ * `runtimeConfig.crouton.jobs.schedules['crouton-events:cleanup']`.
+ */
+export default defineNitroPlugin(() => {
+  if (!useRuntimeConfig().public.croutonEvents?.retention?.enabled) return
+
+  registerCroutonJob({
+    name: 'crouton-events:cleanup',
+    cron: '0 3 * * *',
+    description: 'Delete audit events past the retention period',
+    run: () => cleanupOldEvents()
+  })
+})
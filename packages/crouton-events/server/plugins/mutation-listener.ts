@@ -0,0 +1,48 @@
+import { defineNitroPlugin } from 'nitropack/runtime'
+import { buildEventChanges } from '../utils/event-changes'
+import { appendChainedEvents, insertEventRows, isEventChainEnabled } from '../utils/event-chain'
+
+/**
+ * Nitro plugin — persists crouton:collection-mutation hook events to the
+ * crouton_events table.
+ *
+ * The generated collection endpoints emit the hook after every write with the
+ * rows before and after, so the audit trail covers every client (app, API
+ * keys, scripts, sync) and can't be forged or skipped from the browser. The
+ * client only adds UI context afterwards (see crouton-collection-events).
+ *
+ * Runs inside the request: emitCollectionMutation awaits it and logs failures.
+ * With the hash chain on, rows are appended to the team's chain (event-chain.ts).
+ * Moves, reorders and restores are stored as updates, purges as deletes; the
+ * original operation is kept in `metadata.action`.
+ */
+export default defineNitroPlugin((nitroApp) => {
+  nitroApp.hooks.hook('crouton:collection-mutation', async (payload) => {
+    const config = useRuntimeConfig().public.croutonEvents
+    if (!config?.enabled) return
+
+    const operation = payload.operation === 'create' || payload.operation === 'delete'
+      ? payload.operation
+      : payload.operation === 'purge' ? 'delete' : 'update'
+
+    const rows = payload.items.map(item => ({
+      id: crypto.randomUUID(),
+      timestamp: new Date(payload.timestamp ?? Date.now()),
+      operation,
+      collectionName: payload.collection,
+      itemId: item.id,
+      teamId: payload.teamId,
+      userId: payload.userId ?? 'system',
+      userName: config.snapshotUserName ? (payload.userName ?? '') : '',
+      changes: buildEventChanges(item.before, item.after),
+      correlationId: payload.correlationId ?? null,
+      metadata: { source: payload.source ?? 'api', action: payload.operation }
+    }))
+
+    if (isEventChainEnabled()) {
+      await appendChainedEvents(useDB(), payload.teamId, rows)
+    } else {
+      await insertEventRows(useDB(), rows)
+    }
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { buildEventChanges } from '../event-changes'
+
+describe('buildEventChanges', () => {
+  it('lists every field of a created row as new', () => {
+    expect(buildEventChanges(null, { id: 'p1', name: 'Chair', price: 10 })).toEqual([
+      { fieldName: 'name', oldValue: null, newValue: '"Chair"' },
+      { fieldName: 'price', oldValue: null, newValue: '10' }
+    ])
+  })
+
+  it('lists every field of a deleted row as removed', () => {
+    expect(buildEventChanges({ id: 'p1', name: 'Chair' }, undefined)).toEqual([
+      { fieldName: 'name', oldValue: '"Chair"', newValue: null }
+    ])
+  })
+
+  it('lists only the fields an update changed', () => {
+    const before = { id: 'p1', name: 'Chair', price: 10, tags: ['a'] }
+    const after = { id: 'p1', name: 'Chair', price: 12, tags: ['a'] }
+
+    expect(buildEventChanges(before, after)).toEqual([
+      { fieldName: 'price', oldValue: '10', newValue: '12' }
+    ])
+  })
+
+  it('compares nested values by content', () => {
+    const before = { meta: { color: 'red' }, tags: ['a'] }
+    const after = { meta: { color: 'blue' }, tags: ['a'] }
+
+    expect(buildEventChanges(before, after)).toEqual([
+      { fieldName: 'meta', oldValue: '{"color":"red"}', newValue: '{"color":"blue"}' }
+    ])
+  })
+
+  it('records fields added or dropped between snapshots', () => {
+    expect(buildEventChanges({ name: 'Chair' }, { name: 'Chair', note: null })).toEqual([
+      { fieldName: 'note', oldValue: null, newValue: 'null' }
+    ])
+  })
+
+  it('leaves bookkeeping columns out', () => {
+    const before = { id: 'p1', teamId: 't1', owner: 'u1', updatedAt: 1, updatedBy: 'u1', name: 'Chair' }
+    const after = { id: 'p1', teamId: 't1', owner: 'u2', updatedAt: 2, updatedBy: 'u2', name: 'Chair' }
+
+    expect(buildEventChanges(before, after)).toEqual([])
+  })
+})
@@ -1,11 +1,17 @@
 /**
  * Event cleanup utility
  * Removes old events based on retention policy
- * Can be called via API endpoint or scheduled task (NuxtHub)
+ * Runs daily as the `crouton-events:cleanup` job when retention is enabled
+ * (see plugins/cleanup-job.ts); can also be called directly.
+ *
+ * With the hash chain on, chained rows are removed per team as a prefix of
+ * the chain and a checkpoint is recorded, so the remaining rows still verify
+ * (see event-chain.ts).
  */
 
-import { lt, inArray, sql } from 'drizzle-orm'
+import { and, isNotNull, isNull, lt, inArray, sql } from 'drizzle-orm'
 import { croutonEvents } from '../database/schema'
+import { isEventChainEnabled, pruneChainedEvents } from './event-chain'
 
 interface CleanupOptions {
   retentionDays?: number
@@ -19,6 +25,17 @@ interface CleanupResult {
   totalRemaining: number
 }
 
+/**
+ * Prune each team's chain up to the given position; returns rows removed
+ */
+async function pruneChains(db: any, upto: Array<{ teamId: string, seq: number | null }>): Promise<number> {
+  let deleted = 0
+  for (const { teamId, seq } of upto) {
+    if (seq) deleted += await pruneChainedEvents(db, teamId, seq)
+  }
+  return deleted
+}
+
 /**
  * Clean up old events based on retention policy
  */
@@ -30,6 +47,7 @@ export async function cleanupOldEvents(options: CleanupOptions = {}): Promise<Cl
   const retentionDays = options.retentionDays || config.public.croutonEvents?.retention?.days || 90
   const maxEvents = options.maxEvents || config.public.croutonEvents?.retention?.maxEvents || 100000
   const dryRun = options.dryRun || false
+  const chained = isEventChainEnabled()
 
   // Calculate cutoff date
   const cutoffDate = new Date()
@@ -60,7 +78,25 @@ export async function cleanupOldEvents(options: CleanupOptions = {}): Promise<Cl
 
     // Delete old events (by date)
     let deletedByDate = 0
-    if (!dryRun && toDeleteByDate > 0) {
+    if (!dryRun && toDeleteByDate > 0 && chained) {
+      // Up to each team's newest expired row; unchained (older) rows by date
+      const upto = await db
+        .select({ teamId: croutonEvents.teamId, seq: sql<number>`max(${croutonEvents.seq})` })
+        .from(croutonEvents)
+        .where(and(lt(croutonEvents.timestamp, cutoffDate), isNotNull(croutonEvents.seq)))
+        .groupBy(croutonEvents.teamId)
+      const unchained = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(croutonEvents)
+        .where(and(lt(croutonEvents.timestamp, cutoffDate), isNull(croutonEvents.seq)))
+        .then(rows => rows[0]?.count || 0)
+      await db
+        .delete(croutonEvents)
+        .where(and(lt(croutonEvents.timestamp, cutoffDate), isNull(croutonEvents.seq)))
+
+      deletedByDate = unchained + await pruneChains(db, upto)
+      console.log(`  ✓ Deleted ${deletedByDate} events by date (chain checkpoints recorded)`)
+    } else if (!dryRun && toDeleteByDate > 0) {
       await db
         .delete(croutonEvents)
         .where(lt(croutonEvents.timestamp, cutoffDate))
@@ -86,12 +122,28 @@ export async function cleanupOldEvents(options: CleanupOptions = {}): Promise<Cl
 
         // Get IDs of oldest events to delete
         const oldestEvents = await db
-          .select({ id: croutonEvents.id })
+          .select({ id: croutonEvents.id, teamId: croutonEvents.teamId, seq: croutonEvents.seq })
           .from(croutonEvents)
           .orderBy(croutonEvents.timestamp)
           .limit(batchLimit)
 
-        if (oldestEvents.length > 0) {
+        if (oldestEvents.length > 0 && chained) {
+          // Up to each team's newest selected chained row; unchained rows by id
+          const uptoByTeam = new Map<string, number>()
+          for (const e of oldestEvents) {
+            if (e.seq) uptoByTeam.set(e.teamId, Math.max(uptoByTeam.get(e.teamId) ?? 0, e.seq))
+          }
+          const unchainedIds = oldestEvents.filter(e => !e.seq).map(e => e.id)
+          for (let i = 0; i < unchainedIds.length; i += 1000) {
+            await db
+              .delete(croutonEvents)
+              .where(inArray(croutonEvents.id, unchainedIds.slice(i, i + 1000)))
+          }
+
+          deletedByCount = unchainedIds.length
+            + await pruneChains(db, [...uptoByTeam].map(([teamId, seq]) => ({ teamId, seq })))
+          console.log(`  ✓ Deleted ${deletedByCount} events by count limit (chain checkpoints recorded)`)
+        } else if (oldestEvents.length > 0) {
           // Delete in batches to avoid hitting query limits
           const batchSize = 1000
           for (let i = 0; i < oldestEvents.length; i += batchSize) {
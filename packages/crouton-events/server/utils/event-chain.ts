@@ -0,0 +1,165 @@
+/**
+ * Tamper-evident hash chain over crouton_events
+ *
+ * With `runtimeConfig.croutonEvents.hashChain` on, every team's events form a
+ * chain (format and checks in @fyit/crouton-core/shared/utils/audit-chain).
+ * This file keeps it in the database: appending rows, verifying a team's
+ * chain, and pruning it behind a checkpoint that records the last pruned
+ * row's hash, where verification picks the chain up again.
+ */
+import { and, asc, desc, eq, gt, isNotNull, lte, sql } from 'drizzle-orm'
+import type { AuditChainLink, AuditChainResult, AuditChainRow } from '@fyit/crouton-core/shared/utils/audit-chain'
+import { chainAuditRows, verifyAuditChainRows } from '@fyit/crouton-core/shared/utils/audit-chain'
+import { croutonEventCheckpoints, croutonEvents } from '../database/schema'
+
+/** Rows read per query while verifying */
+const VERIFY_PAGE_SIZE = 500
+
+/** Inserts retried when another request took the same `seq` first */
+const APPEND_ATTEMPTS = 5
+
+/** Rows per insert: D1 binds at most 100 parameters per statement (14 columns) */
+const ROWS_PER_INSERT = 6
+
+export interface ChainVerification extends AuditChainResult {
+  /** Where the check started: the latest checkpoint, or null for the chain start */
+  checkpoint: AuditChainLink | null
+}
+
+/** Whether the hash chain is on (server-only config) */
+export function isEventChainEnabled(): boolean {
+  return !!useRuntimeConfig().croutonEvents?.hashChain
+}
+
+async function latestCheckpoint(db: any, teamId: string): Promise<AuditChainLink | null> {
+  const [checkpoint] = await db
+    .select({ seq: croutonEventCheckpoints.seq, hash: croutonEventCheckpoints.hash })
+    .from(croutonEventCheckpoints)
+    .where(eq(croutonEventCheckpoints.teamId, teamId))
+    .orderBy(desc(croutonEventCheckpoints.seq))
+    .limit(1)
+  return checkpoint ?? null
+}
+
+/**
+ * Last link of a team's chain: its newest row, or its latest checkpoint when
+ * every row has been pruned
+ */
+async function chainHead(db: any, teamId: string): Promise<AuditChainLink | null> {
+  const [row] = await db
+    .select({ seq: croutonEvents.seq, hash: croutonEvents.hash })
+    .from(croutonEvents)
+    .where(and(eq(croutonEvents.teamId, teamId), isNotNull(croutonEvents.seq)))
+    .orderBy(desc(croutonEvents.seq))
+    .limit(1)
+  if (row) return row as AuditChainLink
+
+  return latestCheckpoint(db, teamId)
+}
+
+/**
+ * The link a row at `seq` continues from: the row before it, or the checkpoint
+ * it was pruned to. Null at the chain start, or when that row is missing.
+ */
+export async function chainLinkBefore(db: any, teamId: string, seq: number): Promise<AuditChainLink | null> {
+  if (seq <= 1) return null
+
+  const [row] = await db
+    .select({ seq: croutonEvents.seq, hash: croutonEvents.hash })
+    .from(croutonEvents)
+    .where(and(eq(croutonEvents.teamId, teamId), eq(croutonEvents.seq, seq - 1)))
+  if (row) return row as AuditChainLink
+
+  const [checkpoint] = await db
+    .select({ seq: croutonEventCheckpoints.seq, hash: croutonEventCheckpoints.hash })
+    .from(croutonEventCheckpoints)
+    .where(and(eq(croutonEventCheckpoints.teamId, teamId), eq(croutonEventCheckpoints.seq, seq - 1)))
+  return checkpoint ?? null
+}
+
+/**
+ * Insert event rows, chunked to the parameter limit, all-or-nothing
+ */
+export function insertEventRows(db: any, rows: AuditChainRow[]): Promise<unknown> {
+  return runCollectionBatch(db, q => Array.from(
+    { length: Math.ceil(rows.length / ROWS_PER_INSERT) },
+    (_, i) => q.insert(croutonEvents).values(rows.slice(i * ROWS_PER_INSERT, (i + 1) * ROWS_PER_INSERT))
+  ))
+}
+
+const isSeqConflict = (error: any) => /UNIQUE constraint failed|unique constraint/i.test(String(error?.message ?? error))
+
+/**
+ * Insert one team's rows at the end of its chain
+ *
+ * Concurrent requests can read the same head; the unique (team, seq) index
+ * rejects the second insert, which then re-reads the head and tries again.
+ */
+export async function appendChainedEvents(db: any, teamId: string, rows: AuditChainRow[]): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    const chained = await chainAuditRows(rows, await chainHead(db, teamId))
+    try {
+      await insertEventRows(db, chained)
+      return
+    } catch (error) {
+      if (attempt >= APPEND_ATTEMPTS || !isSeqConflict(error)) throw error
+    }
+  }
+}
+
+/**
+ * Verify a team's chain from its latest checkpoint to its newest row
+ */
+export async function verifyEventChain(db: any, teamId: string): Promise<ChainVerification> {
+  const checkpoint = await latestCheckpoint(db, teamId)
+  let head = checkpoint
+  let checked = 0
+
+  for (;;) {
+    const rows = await db
+      .select()
+      .from(croutonEvents)
+      .where(and(eq(croutonEvents.teamId, teamId), gt(croutonEvents.seq, head?.seq ?? 0)))
+      .orderBy(asc(croutonEvents.seq))
+      .limit(VERIFY_PAGE_SIZE)
+
+    const result = await verifyAuditChainRows(rows, head)
+    checked += result.checked
+    if (!result.valid || rows.length < VERIFY_PAGE_SIZE) {
+      return { ...result, checked, checkpoint }
+    }
+    head = result.head
+  }
+}
+
+/**
+ * Remove a team's rows up to and including `uptoSeq`, recording a checkpoint
+ * at the last one so the remaining chain still verifies. Returns rows removed.
+ */
+export async function pruneChainedEvents(db: any, teamId: string, uptoSeq: number): Promise<number> {
+  const upto = and(eq(croutonEvents.teamId, teamId), lte(croutonEvents.seq, uptoSeq))
+  const [last] = await db
+    .select({ hash: croutonEvents.hash })
+    .from(croutonEvents)
+    .where(and(eq(croutonEvents.teamId, teamId), eq(croutonEvents.seq, uptoSeq)))
+  const count = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(croutonEvents)
+    .where(upto)
+    .then((rows: Array<{ count: number }>) => rows[0]?.count || 0)
+  if (!last?.hash || !count) return 0
+
+  await runCollectionBatch(db, q => [
+    q.insert(croutonEventCheckpoints).values({
+      id: crypto.randomUUID(),
+      teamId,
+      seq: uptoSeq,
+      hash: last.hash,
+      prunedCount: count,
+      createdAt: new Date()
+    }),
+    q.delete(croutonEvents).where(upto)
+  ])
+
+  return count
+}
@@ -0,0 +1,32 @@
+import type { EventChange } from '../database/schema'
+
+/** Bookkeeping columns left out of the change list */
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy', 'teamId', 'owner'])
+
+const serialize = (value: unknown): string | null => value === undefined ? null : JSON.stringify(value)
+
+/**
+ * Field-level changes between two snapshots of a row
+ *
+ * Creates (no `before`) list every field as new, deletes (no `after`) every
+ * field as removed, updates only the fields whose value differs.
+ */
+export function buildEventChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): EventChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  const changes: EventChange[] = []
+
+  for (const fieldName of fields) {
+    if (IGNORED_FIELDS.has(fieldName)) continue
+
+    const oldValue = before ? serialize(before[fieldName]) : null
+    const newValue = after ? serialize(after[fieldName]) : null
+    if (before && after && oldValue === newValue) continue
+
+    changes.push({ fieldName, oldValue, newValue })
+  }
+
+  return changes
+}
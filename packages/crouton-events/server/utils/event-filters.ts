@@ -5,6 +5,7 @@ import { croutonEvents } from '../database/schema'
 interface EventFilterParams {
   teamId: string
   collectionName?: string
+  itemId?: string
   operation?: 'create' | 'update' | 'delete'
   userId?: string
   dateFrom?: Date
@@ -18,6 +19,9 @@ export function buildEventConditions(params: EventFilterParams): SQL[] {
   if (params.collectionName) {
     conditions.push(eq(croutonEvents.collectionName, params.collectionName))
   }
+  if (params.itemId) {
+    conditions.push(eq(croutonEvents.itemId, params.itemId))
+  }
   if (params.operation) {
     conditions.push(eq(croutonEvents.operation, params.operation))
   }
@@ -38,6 +42,7 @@ export function buildEventConditions(params: EventFilterParams): SQL[] {
 export function parseEventFilterQuery(query: Record<string, any>) {
   return {
     collectionName: query.collectionName as string | undefined,
+    itemId: query.itemId as string | undefined,
     operation: query.operation as 'create' | 'update' | 'delete' | undefined,
     userId: query.userId as string | undefined,
     dateFrom: query.dateFrom ? new Date(String(query.dateFrom)) : undefined,
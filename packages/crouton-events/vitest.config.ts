@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: [
+      'app/utils/__tests__/**/*.test.ts',
+      'server/plugins/__tests__/**/*.test.ts',
+      'server/utils/__tests__/**/*.test.ts'
+    ],
+    exclude: [
+      '**/node_modules/**',
+      '**/dist/**',
+      '**/.nuxt/**'
+    ],
+    environment: 'node',
+    globals: true
+  }
+})
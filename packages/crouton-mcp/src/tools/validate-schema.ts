@@ -58,6 +58,11 @@ export function handleValidateSchema(input: ValidateSchemaInput): ValidationResu
 
   // Validate each field
   for (const [fieldName, field] of Object.entries(schema)) {
+    // Collection settings such as $policies, not fields
+    if (fieldName.startsWith('$')) {
+      continue
+    }
+
     // Silently skip auto-generated fields (from manifests)
     const autoGenerated = getAutoGeneratedFields()
     if (autoGenerated.includes(fieldName)) {
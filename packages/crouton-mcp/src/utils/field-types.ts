@@ -22,12 +22,14 @@ const FALLBACK_FIELD_TYPES: Record<string, FieldTypeMapping> = {
   text:      { db: 'TEXT',            drizzle: 'text',      zod: 'z.string()',          default: '\'\'',  tsType: 'string' },
   number:    { db: 'INTEGER',         drizzle: 'integer',   zod: 'z.number()',          default: '0',     tsType: 'number' },
   decimal:   { db: 'DECIMAL(10,2)',   drizzle: 'decimal',   zod: 'z.number()',          default: '0',     tsType: 'number' },
+  enum:      { db: 'VARCHAR(255)',    drizzle: 'text',      zod: 'z.enum([])',          default: 'null',  tsType: 'string' },
   boolean:   { db: 'BOOLEAN',         drizzle: 'boolean',   zod: 'z.boolean()',         default: 'false', tsType: 'boolean' },
   date:      { db: 'TIMESTAMP',       drizzle: 'timestamp', zod: 'z.date()',            default: 'null',  tsType: 'Date | null' },
   json:      { db: 'JSON',            drizzle: 'json',      zod: 'z.record(z.string(), z.any())',   default: '{}',    tsType: 'Record<string, any>' },
   repeater:  { db: 'JSON',            drizzle: 'json',      zod: 'z.array(z.any())',    default: '[]',    tsType: 'any[]' },
   array:     { db: 'TEXT',            drizzle: 'text',      zod: 'z.array(z.string())', default: '[]',    tsType: 'string[]' },
   reference: { db: 'VARCHAR(255)',    drizzle: 'text',      zod: 'z.string()',          default: '\'\'',  tsType: 'string' },
+  references: { db: 'JOIN TABLE',    drizzle: 'joinTable', zod: 'z.array(z.string())', default: '[]',    tsType: 'string[]' },
   image:     { db: 'VARCHAR(255)',    drizzle: 'text',      zod: 'z.string()',          default: '\'\'',  tsType: 'string' },
   file:      { db: 'VARCHAR(255)',    drizzle: 'text',      zod: 'z.string()',          default: '\'\'',  tsType: 'string' },
 }
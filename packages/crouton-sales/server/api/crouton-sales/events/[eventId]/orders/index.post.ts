@@ -127,6 +127,23 @@ export default defineEventHandler(async (event) => {
     })),
   ])
 
+  // Audit log: the order and its items, by the helper who rang them up
+  const helper = { id: access.id, name: access.displayName }
+  await emitCollectionMutation(event, {
+    operation: 'create',
+    collection: 'salesOrders',
+    teamId: salesEvent.teamId,
+    user: helper,
+    items: [{ id: order.id, after: order }]
+  })
+  await emitCollectionMutation(event, {
+    operation: 'create',
+    collection: 'salesOrderitems',
+    teamId: salesEvent.teamId,
+    user: helper,
+    items: orderItems.map(item => ({ id: item.id, after: item }))
+  })
+
   let printQueueIds: string[] = []
   const { croutonSales } = useRuntimeConfig(event)
   const printEnabled = (croutonSales as { print?: { enabled?: boolean } } | undefined)?.print?.enabled
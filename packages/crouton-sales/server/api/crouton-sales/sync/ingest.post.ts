@@ -12,12 +12,19 @@
  */
 import { requireCloudSyncKey } from '../../../utils/cloud-sync-auth'
 import { applyOutboxEvents, type IngestEvent } from '../../../utils/sync-ingest'
+import type { OutboxEntityType } from '../../../utils/sync-outbox'
 import { recordSyncHeartbeat } from '../../../utils/sync-status'
 
 interface IngestBody {
   events?: IngestEvent[]
 }
 
+// Mirrored entities that are crouton collections (print jobs aren't)
+const AUDITED_COLLECTIONS: Partial<Record<OutboxEntityType, string>> = {
+  order: 'salesOrders',
+  orderitem: 'salesOrderitems'
+}
+
 export default defineEventHandler(async (event) => {
   requireCloudSyncKey(event)
 
@@ -27,7 +34,27 @@ export default defineEventHandler(async (event) => {
   }
 
   const db = useDB()
-  const result = await applyOutboxEvents(db, body.events)
+  const { written, ...result } = await applyOutboxEvents(db, body.events)
+
+  // Audit log: the till's changes land like any other collection write, one
+  // report per team, collection and kind of change
+  const reports = new Map<string, { teamId: string, collection: string, created: boolean, items: Array<{ id: string, after: Record<string, unknown> }> }>()
+  for (const { entityType, created, row } of written) {
+    const collection = AUDITED_COLLECTIONS[entityType]
+    if (!collection || typeof row.teamId !== 'string') continue
+    const key = `${row.teamId}:${collection}:${created}`
+    if (!reports.has(key)) reports.set(key, { teamId: row.teamId, collection, created, items: [] })
+    reports.get(key)!.items.push({ id: String(row.id), after: row })
+  }
+  for (const report of reports.values()) {
+    await emitCollectionMutation(event, {
+      operation: report.created ? 'create' : 'update',
+      collection: report.collection,
+      teamId: report.teamId,
+      items: report.items,
+      source: 'crouton-sales:sync'
+    })
+  }
 
   // Stamp the freshness heartbeat the online dashboard (#179) reads. Advances on
   // every call — a real batch or the pusher's idle ping (events: []) — so a
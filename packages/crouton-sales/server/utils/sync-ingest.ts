@@ -39,6 +39,8 @@ export interface IngestResult {
   applied: string[]
   /** Events not applied. `permanent` ⇒ malformed (drop it); else retryable. */
   skipped: Array<{ id: string, reason: string, permanent: boolean }>
+  /** Rows as written, for the audit log (`created` ⇒ inserted, else updated). */
+  written: Array<{ entityType: OutboxEntityType, created: boolean, row: Record<string, unknown> }>
 }
 
 const VALID_TYPES: OutboxEntityType[] = ['order', 'orderitem', 'printstatus']
@@ -82,7 +84,7 @@ export async function applyOutboxEvents(
   // Injectable for tests; defaults to the lazily-imported app-layer schema.
   tablesOverride?: Record<OutboxEntityType, any>
 ): Promise<IngestResult> {
-  const result: IngestResult = { applied: [], skipped: [] }
+  const result: IngestResult = { applied: [], skipped: [], written: [] }
   if (!Array.isArray(events) || events.length === 0) return result
 
   const tables = tablesOverride ?? await loadTables()
@@ -115,8 +117,9 @@ export async function applyOutboxEvents(
       // UPDATE existing row (idempotent: a replay re-sets the same values).
       let exists = false
       if (Object.keys(setObj).length > 0) {
-        const updated = await db.update(table).set(setObj).where(eq(table.id, e.entityId)).returning({ id: table.id })
+        const updated = await db.update(table).set(setObj).where(eq(table.id, e.entityId)).returning()
         exists = updated.length > 0
+        if (exists) result.written.push({ entityType: e.entityType, created: false, row: updated[0] })
       }
       else {
         const [row] = await db.select({ id: table.id }).from(table).where(eq(table.id, e.entityId)).limit(1)
@@ -127,6 +130,7 @@ export async function applyOutboxEvents(
       // fails NOT NULL here → caught below as a retryable skip.
       if (!exists) {
         await db.insert(table).values(values)
+        result.written.push({ entityType: e.entityType, created: true, row: values })
       }
 
       result.applied.push(ackId)
@@ -34,6 +34,8 @@ export interface CroutonCollectionConfig {
   }
   seed?: boolean | { count?: number }
   collab?: boolean
+  /** Soft delete: DELETE moves rows to a trash (deletedAt/deletedBy) with restore and purge endpoints */
+  softDelete?: boolean
 }
 
 /**
@@ -103,6 +105,26 @@ export interface CroutonConfig {
     autoRelations?: boolean
   }
 
+  /**
+   * Replacement templates for built-in generators (used by CLI): a directory
+   * holding `<generator>.ts` files, or a file per generator
+   * (`form`, `list`, `api`, `composable`, `queries`, `types`).
+   * @default './templates'
+   */
+  templates?: string | Partial<Record<'form' | 'list' | 'api' | 'composable' | 'queries' | 'types', string>>
+
+  /**
+   * Typed client SDK for the collection endpoints (used by CLI): when set,
+   * `crouton generate` regenerates it along with the collections.
+   * `true` writes it to `./sdk`.
+   */
+  sdk?: boolean | {
+    /** Package directory @default './sdk' */
+    outDir?: string
+    /** Package name @default '<app name>-sdk' */
+    name?: string
+  }
+
   /**
    * Seed data configuration
    */